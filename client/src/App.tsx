@@ -11,6 +11,7 @@ import WebSocketDemo from './pages/WebSocketDemo';
 import PlaylistSearch from './pages/PlaylistSearch';
 import PastPlaylistSearches from './pages/PastPlaylistSearches';
 import PlaylistTools from './pages/PlaylistTools';
+import ListeningRules from './pages/ListeningRules';
 import AppLayout from './components/AppLayout';
 import ErrorFallback from './components/ErrorFallback';
 import AuthSuccess from './components/AuthSuccess';
@@ -60,6 +61,10 @@ export const router = createBrowserRouter([
         path: "playlist-tools",
         element: <PlaylistTools />
       },
+      {
+        path: "listening-rules",
+        element: <ListeningRules />
+      },
       {
         path: "logs",
         element: <LogsPage />
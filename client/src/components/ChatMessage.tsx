@@ -13,6 +13,16 @@ interface Alternative {
   isAIDiscovery?: boolean;
   aiReasoning?: string;
   theme?: string;
+  feedback?: 'loved' | 'disliked';
+  feedbackLoading?: boolean;
+}
+
+// How the played track was chosen - fallbacks stood in for a song that couldn't be played
+interface DiscoveryProvenance {
+  source: 'primary' | 'fallback' | 'alternative';
+  retryLevel?: number;
+  requested?: string;
+  alternativeTo?: string;
 }
 
 interface QueuedSong {
@@ -22,6 +32,14 @@ interface QueuedSong {
   uri?: string;
   feedback?: 'loved' | 'disliked';
   feedbackLoading?: boolean;
+  matchConfidence?: number;
+}
+
+interface TrackMatch {
+  confidence: number;
+  verified: boolean;
+  matched: { name: string; artist: string; uri: string } | null;
+  reasons: string[];
 }
 
 interface MessageProps {
@@ -35,7 +53,9 @@ interface MessageProps {
   reasoning?: string;
   model?: string;
   queuedSongs?: QueuedSong[];
+  match?: TrackMatch;
   isAIDiscovery?: boolean;
+  provenance?: DiscoveryProvenance;
   trackUri?: string;
   trackName?: string;
   artist?: string;
@@ -54,6 +74,7 @@ interface MessageProps {
     rejectionType: string;
   };
   uiType?: string;
+  isStreaming?: boolean;
   userAvatar?: string;
   onFeedback: (trackUri: string, feedback: 'loved' | 'disliked') => void;
   onAlternativeClick: (alternative: Alternative, action: 'play' | 'queue') => void;
@@ -75,13 +96,16 @@ const ChatMessage: React.FC<MessageProps> = ({
   reasoning,
   model,
   queuedSongs,
+  match,
   isAIDiscovery,
+  provenance,
   trackUri,
   feedback,
   feedbackLoading,
   clarificationOptions,
   currentContext,
   uiType,
+  isStreaming,
   userAvatar,
   onFeedback,
   onAlternativeClick,
@@ -150,11 +174,14 @@ const ChatMessage: React.FC<MessageProps> = ({
                 }
                 return part;
               })}
+              {isStreaming && (
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-100 animate-pulse" />
+              )}
             </div>
           </div>
           
           {/* Intent and confidence below message bubble */}
-          {(intent || confidence !== undefined) && (
+          {(intent || confidence !== undefined || match) && (
             <div className="flex items-center gap-3 flex-wrap mt-2 px-4">
               {intent && (
                 <span className={`text-xs px-2 py-1 rounded ${
@@ -189,6 +216,17 @@ const ChatMessage: React.FC<MessageProps> = ({
                   <span className="text-xs text-gray-400">{Math.round(confidence * 100)}%</span>
                 </div>
               )}
+              {match && (
+                <span
+                  className={`text-xs px-2 py-1 rounded ${
+                    match.verified ? 'bg-green-500/20 text-green-400' : 'bg-orange-500/20 text-orange-400'
+                  }`}
+                  title={match.reasons.join(' · ')}
+                >
+                  {match.verified ? 'Match' : 'Closest match'}: {Math.round(match.confidence * 100)}%
+                  {!match.verified && match.matched && ` (${match.matched.name} by ${match.matched.artist})`}
+                </span>
+              )}
             </div>
           )}
 
@@ -218,9 +256,17 @@ const ChatMessage: React.FC<MessageProps> = ({
             </div>
           )}
 
-          {/* Feedback Buttons for AI Discoveries */}
-          {isAIDiscovery && trackUri && (
+          {/* Feedback Buttons for AI Discoveries and fallbacks */}
+          {(isAIDiscovery || provenance) && trackUri && (
             <div className="flex gap-2 mt-3 items-center">
+              {provenance?.source === 'fallback' && (
+                <span
+                  className="text-xs px-2 py-1 rounded bg-orange-500/20 text-orange-400"
+                  title={provenance.retryLevel ? `Found on search retry ${provenance.retryLevel}` : undefined}
+                >
+                  Fallback{provenance.requested && ` for ${provenance.requested}`}
+                </span>
+              )}
               {(() => {
                 const trackId = trackUri.split(':')[2];
                 return trackId ? (
@@ -306,6 +352,32 @@ const ChatMessage: React.FC<MessageProps> = ({
                                   onClick={() => onToggleSave(trackId)}
                                 />
                               )}
+                              {alt.uri && (
+                                <>
+                                  <button
+                                    onClick={() => onFeedback(alt.uri, 'loved')}
+                                    className={`px-2 py-1 rounded transition-all text-xs ${
+                                      alt.feedback === 'loved'
+                                        ? 'bg-green-600 text-white'
+                                        : 'bg-zinc-700 hover:bg-green-900 text-zinc-300'
+                                    }`}
+                                    disabled={alt.feedbackLoading}
+                                  >
+                                    👍
+                                  </button>
+                                  <button
+                                    onClick={() => onFeedback(alt.uri, 'disliked')}
+                                    className={`px-2 py-1 rounded transition-all text-xs ${
+                                      alt.feedback === 'disliked'
+                                        ? 'bg-red-600 text-white'
+                                        : 'bg-zinc-700 hover:bg-red-900 text-zinc-300'
+                                    }`}
+                                    disabled={alt.feedbackLoading}
+                                  >
+                                    👎
+                                  </button>
+                                </>
+                              )}
                               <button
                                 onClick={() => onAlternativeClick(alt, 'play')}
                                 disabled={isProcessing}
@@ -351,6 +423,11 @@ const ChatMessage: React.FC<MessageProps> = ({
                     <div className="flex-1 text-gray-300">
                       <span className="font-medium">{song.name}</span>
                       <span className="text-gray-500"> by {song.artists}</span>
+                      {song.matchConfidence !== undefined && song.matchConfidence < 0.9 && (
+                        <span className="text-orange-400" title="How closely this matched the suggested song">
+                          {' '}· {Math.round(song.matchConfidence * 100)}% match
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center gap-1">
                       {song.success && song.uri && (
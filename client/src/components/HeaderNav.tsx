@@ -4,7 +4,7 @@ import ModelSelector from './ModelSelector';
 import DeviceSelector from './DeviceSelector';
 import WeatherDisplay from './WeatherDisplay';
 import HeaderPlaybackControls from './HeaderPlaybackControls';
-import { MessageSquare, BarChart3, Target, ClipboardList, RefreshCw, LogOut, MoreVertical, Wifi, Music2 } from 'lucide-react';
+import { MessageSquare, BarChart3, Target, ClipboardList, RefreshCw, LogOut, MoreVertical, Wifi, Music2, ShieldBan } from 'lucide-react';
 import { getVersionString } from '../utils/version';
 
 interface HeaderNavProps {
@@ -161,6 +161,18 @@ const HeaderNav: React.FC<HeaderNavProps> = ({
                           <Wifi className={`w-4 h-4 ${location.pathname === '/websocket-demo' ? 'text-green-500' : ''}`} />
                           WebSocket Demo
                         </button>
+                        <button 
+                          className={`w-full px-3 py-2 text-left text-sm hover:bg-zinc-800 rounded transition-all flex items-center gap-3 ${
+                            location.pathname === '/listening-rules' ? 'text-white bg-zinc-800' : 'text-zinc-300 hover:text-white'
+                          }`}
+                          onClick={() => {
+                            navigate('/listening-rules');
+                            setShowSettings(false);
+                          }}
+                        >
+                          <ShieldBan className={`w-4 h-4 ${location.pathname === '/listening-rules' ? 'text-green-500' : ''}`} />
+                          Listening Rules
+                        </button>
                         <button 
                           className={`w-full px-3 py-2 text-left text-sm hover:bg-zinc-800 rounded transition-all flex items-center gap-3 ${
                             location.pathname === '/logs' ? 'text-white bg-zinc-800' : 'text-zinc-300 hover:text-white'
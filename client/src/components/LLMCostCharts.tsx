@@ -0,0 +1,157 @@
+import { useMemo } from 'react';
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend
+} from 'chart.js';
+import { Bar } from 'react-chartjs-2';
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend);
+
+export interface CostRollup {
+  date: string;
+  costUsd: number;
+  queries: number;
+  promptTokens: number;
+  completionTokens: number;
+  byModel: Record<string, number>;
+}
+
+export interface CostStatsResponse {
+  totalUsd: number;
+  daily: CostRollup[];
+  byModel: Record<string, number>;
+  topUsers: Array<{ userId: string; costUsd: number }>;
+  periodDays: number;
+}
+
+export const formatUsd = (value: number) =>
+  value >= 1 ? `$${value.toFixed(2)}` : value >= 0.01 ? `$${value.toFixed(3)}` : `$${value.toFixed(4)}`;
+
+export const costChartOptions = {
+  responsive: true,
+  maintainAspectRatio: false,
+  plugins: {
+    legend: {
+      display: false
+    },
+    tooltip: {
+      backgroundColor: '#18181b',
+      titleColor: '#e4e4e7',
+      bodyColor: '#e4e4e7',
+      borderColor: '#3f3f46',
+      borderWidth: 1,
+      padding: 12,
+      callbacks: {
+        label: (context: any) => formatUsd(context.parsed.y ?? context.parsed.x ?? 0)
+      }
+    }
+  },
+  scales: {
+    x: {
+      grid: {
+        display: false
+      },
+      ticks: {
+        color: '#a1a1aa'
+      }
+    },
+    y: {
+      grid: {
+        color: '#3f3f46'
+      },
+      ticks: {
+        color: '#a1a1aa',
+        callback: (value: any) => `$${value}`
+      }
+    }
+  }
+};
+
+export const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+interface LLMCostChartsProps {
+  costs: CostStatsResponse;
+}
+
+export default function LLMCostCharts({ costs }: LLMCostChartsProps) {
+  const { dailyData, modelData } = useMemo(() => {
+    const models = Object.entries(costs.byModel)
+      .filter(([, cost]) => cost > 0)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 8);
+
+    return {
+      dailyData: {
+        labels: costs.daily.map(day => formatDay(day.date)),
+        datasets: [{
+          label: 'Cost',
+          data: costs.daily.map(day => day.costUsd),
+          backgroundColor: 'rgba(34, 197, 94, 0.5)', // green-500 with opacity
+          borderColor: 'rgb(34, 197, 94)',
+          borderWidth: 1
+        }]
+      },
+      modelData: {
+        labels: models.map(([model]) => model),
+        datasets: [{
+          label: 'Cost',
+          data: models.map(([, cost]) => cost),
+          backgroundColor: 'rgba(168, 85, 247, 0.5)', // purple-500 with opacity
+          borderColor: 'rgb(168, 85, 247)',
+          borderWidth: 1
+        }]
+      }
+    };
+  }, [costs]);
+
+  const modelOptions = {
+    ...costChartOptions,
+    indexAxis: 'y' as const,
+    scales: {
+      x: costChartOptions.scales.y,
+      y: { ...costChartOptions.scales.x, ticks: { color: '#a1a1aa' } }
+    }
+  };
+
+  return (
+    <div className="mt-8 border-t border-zinc-800 pt-8">
+      <h3 className="text-xl font-semibold text-white mb-1">Costs</h3>
+      <p className="text-sm text-gray-400 mb-6">
+        {formatUsd(costs.totalUsd)} over {costs.periodDays} days • estimated from token usage and list prices
+      </p>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="bg-zinc-800 rounded-lg p-4 lg:col-span-2">
+          <h4 className="text-sm text-gray-400 mb-3">Cost per Day</h4>
+          <div className="h-64">
+            <Bar data={dailyData} options={costChartOptions} />
+          </div>
+        </div>
+
+        <div className="bg-zinc-800 rounded-lg p-4">
+          <h4 className="text-sm text-gray-400 mb-3">Top Users</h4>
+          <div className="space-y-2">
+            {costs.topUsers.length === 0 && <p className="text-sm text-gray-500">No spend yet</p>}
+            {costs.topUsers.map(user => (
+              <div key={user.userId} className="flex justify-between text-sm">
+                <span className="text-gray-300 truncate mr-2 font-mono">{user.userId}</span>
+                <span className="text-gray-500 flex-shrink-0">{formatUsd(user.costUsd)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="bg-zinc-800 rounded-lg p-4 lg:col-span-3">
+          <h4 className="text-sm text-gray-400 mb-3">Cost by Model</h4>
+          <div className="h-64">
+            <Bar data={modelData} options={modelOptions} />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
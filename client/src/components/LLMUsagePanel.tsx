@@ -0,0 +1,79 @@
+import { useMemo } from 'react';
+import { Bar } from 'react-chartjs-2';
+import { CostRollup, costChartOptions, formatDay, formatUsd } from './LLMCostCharts';
+
+export interface LLMUsageResponse {
+  budget: {
+    spentUsd: number;
+    softLimitUsd: number | null;
+    hardLimitUsd: number | null;
+    level: 'ok' | 'soft' | 'hard';
+    budgetModel: string;
+  };
+  daily: CostRollup[];
+  totalUsd: number;
+  queries: number;
+}
+
+interface LLMUsagePanelProps {
+  usage: LLMUsageResponse;
+}
+
+export default function LLMUsagePanel({ usage }: LLMUsagePanelProps) {
+  const { budget } = usage;
+  const limit = budget.hardLimitUsd ?? budget.softLimitUsd;
+  const percent = limit ? Math.min(100, Math.round((budget.spentUsd / limit) * 100)) : 0;
+
+  const dailyData = useMemo(() => ({
+    labels: usage.daily.map(day => formatDay(day.date)),
+    datasets: [{
+      label: 'Cost',
+      data: usage.daily.map(day => day.costUsd),
+      backgroundColor: 'rgba(34, 197, 94, 0.5)', // green-500 with opacity
+      borderColor: 'rgb(34, 197, 94)',
+      borderWidth: 1
+    }]
+  }), [usage.daily]);
+
+  return (
+    <div className="bg-zinc-800 rounded-lg p-4 mb-6">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-2 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-white">Your Usage</h3>
+          <p className="text-sm text-gray-400">
+            {usage.queries} AI requests • {formatUsd(usage.totalUsd)} over the last {usage.daily.length} days
+          </p>
+        </div>
+        <div className="text-sm text-gray-300">
+          Today: <span className="text-white font-medium">{formatUsd(budget.spentUsd)}</span>
+          {limit !== null && <span className="text-gray-500"> of {formatUsd(limit)}</span>}
+        </div>
+      </div>
+
+      {limit !== null && (
+        <div className="mb-4">
+          <div className="h-2 bg-zinc-700 rounded-full overflow-hidden">
+            <div
+              className={`h-full ${budget.level === 'hard' ? 'bg-red-500' : budget.level === 'soft' ? 'bg-yellow-500' : 'bg-green-500'}`}
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+          {budget.level === 'soft' && (
+            <p className="text-xs text-yellow-400 mt-2">
+              Over today's soft budget - commands use {budget.budgetModel} until tomorrow.
+            </p>
+          )}
+          {budget.level === 'hard' && (
+            <p className="text-xs text-red-400 mt-2">
+              Today's budget is used up - commands use {budget.budgetModel} and full playlist discovery is paused until tomorrow.
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="h-40">
+        <Bar data={dailyData} options={costChartOptions} />
+      </div>
+    </div>
+  );
+}
@@ -11,6 +11,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { useTrackLibrary } from '../hooks/useTrackLibrary';
 import { useIOSKeyboardFix } from '../hooks/useIOSKeyboardFix';
 import { useWebPlayer } from '../hooks/useWebPlayer';
+import { useChatStream, createStreamId } from '../hooks/useChatStream';
+import { useScheduledActionToasts } from '../hooks/useScheduledActionToasts';
 import { apiEndpoint } from '../config/api';
 import { authenticatedFetch, api } from '../utils/temp-auth';
 import { useModel } from '../contexts/ModelContext';
@@ -57,7 +59,14 @@ const MainApp: React.FC = () => {
     confidence?: number;
     isEnhanced?: boolean;
     timestamp?: number;
-    alternatives?: string[] | Array<{ name: string; artists: string; popularity: number; uri: string }>;
+    alternatives?: string[] | Array<{
+      name: string;
+      artists: string;
+      popularity: number;
+      uri: string;
+      feedback?: 'loved' | 'disliked';
+      feedbackLoading?: boolean;
+    }>;
     intent?: string;
     reasoning?: string;
     model?: string;
@@ -69,8 +78,23 @@ const MainApp: React.FC = () => {
       uri?: string;
       feedback?: 'loved' | 'disliked';
       feedbackLoading?: boolean;
+      matchConfidence?: number;
     }>;
+    // How closely the Spotify track matched the song the model asked for
+    match?: {
+      confidence: number;
+      verified: boolean;
+      matched: { name: string; artist: string; uri: string } | null;
+      reasons: string[];
+    };
     isAIDiscovery?: boolean;
+    // Set when the played track can be rated: an AI pick, or a fallback for the requested song
+    provenance?: {
+      source: 'primary' | 'fallback' | 'alternative';
+      retryLevel?: number;
+      requested?: string;
+      alternativeTo?: string;
+    };
     trackUri?: string;
     trackName?: string;
     artist?: string;
@@ -90,6 +114,9 @@ const MainApp: React.FC = () => {
       rejectionType: string;
     };
     uiType?: string;
+    // Streaming fields (conversational answers arriving over the socket)
+    streamId?: string;
+    isStreaming?: boolean;
   }>>([]);
   const [commandHistoryLoading, setCommandHistoryLoading] = useState(false);
   const [userProfile, setUserProfile] = useState<{ images?: Array<{ url: string }> } | null>(null);
@@ -127,6 +154,59 @@ const MainApp: React.FC = () => {
     trackIds: allTrackIds
   });
 
+  // Commands awaiting an HTTP response, keyed by the streamId sent with them
+  const pendingStreamsRef = useRef<Map<string, string>>(new Map());
+
+  // Add the final message for a command, replacing its streamed placeholder if one exists
+  const upsertStreamedMessage = (streamId: string, message: typeof commandHistory[number]) => {
+    setCommandHistory(prev => {
+      const index = prev.findIndex(msg => msg.streamId === streamId);
+      if (index === -1) {
+        return [...prev, message];
+      }
+      const updated = [...prev];
+      updated[index] = { ...message, streamId, isStreaming: false };
+      return updated;
+    });
+  };
+
+  // Sleep timers and other scheduled actions report back over the socket
+  useScheduledActionToasts();
+
+  // Render conversational answers progressively while the HTTP request is in flight
+  useChatStream({
+    onDelta: (streamId, delta) => {
+      const pendingCommand = pendingStreamsRef.current.get(streamId);
+      if (pendingCommand === undefined) return;
+      
+      setCommandHistory(prev => {
+        const index = prev.findIndex(msg => msg.streamId === streamId);
+        if (index === -1) {
+          return [...prev, {
+            command: pendingCommand,
+            response: delta,
+            timestamp: Date.now(),
+            model: currentModel,
+            streamId,
+            isStreaming: true
+          }];
+        }
+        const updated = [...prev];
+        updated[index] = { ...updated[index], response: updated[index].response + delta };
+        return updated;
+      });
+    },
+    onComplete: (streamId, content, error) => {
+      if (!pendingStreamsRef.current.has(streamId)) return;
+      
+      setCommandHistory(prev => prev.map(msg => 
+        msg.streamId === streamId
+          ? { ...msg, response: error && !content ? msg.response : content, isStreaming: false }
+          : msg
+      ));
+    }
+  });
+
   // Memoize callbacks to prevent infinite loops - MUST be defined before any conditional returns
   const handleWebPlayerReady = useCallback((deviceId: string) => {
     console.log('[MainApp] Web Player device ready:', deviceId);
@@ -600,6 +680,39 @@ const MainApp: React.FC = () => {
           idx === messageIndex ? { ...msg, feedbackLoading: false } : msg
         ));
       }
+    } else if (!commandHistory.some(h => h.queuedSongs?.some(s => s.uri === trackUri))) {
+      // Handle alternative feedback
+      const historyItemIndex = commandHistory.findIndex(h =>
+        Array.isArray(h.alternatives) && h.alternatives.some(alt => typeof alt === 'object' && alt.uri === trackUri)
+      );
+      
+      if (historyItemIndex === -1) return;
+      
+      const updateAlternative = (patch: { feedback?: 'loved' | 'disliked'; feedbackLoading: boolean }) => {
+        setCommandHistory(prev => prev.map((msg, idx) => {
+          if (idx !== historyItemIndex || !msg.alternatives) return msg;
+          const alternatives = (msg.alternatives as Array<any>).map(alt =>
+            typeof alt === 'object' && alt.uri === trackUri ? { ...alt, ...patch } : alt
+          );
+          return { ...msg, alternatives };
+        }));
+      };
+      
+      const alternative = (commandHistory[historyItemIndex].alternatives as Array<any>).find(
+        alt => typeof alt === 'object' && alt.uri === trackUri
+      );
+      updateAlternative({ feedback: alternative.feedback, feedbackLoading: true });
+
+      try {
+        const newFeedback = alternative.feedback === feedback ? 'remove' : feedback;
+        
+        await api.recordFeedback(trackUri, newFeedback);
+        
+        updateAlternative({ feedback: newFeedback === 'remove' ? undefined : feedback, feedbackLoading: false });
+      } catch (error) {
+        console.error('Failed to record feedback:', error);
+        updateAlternative({ feedback: alternative.feedback, feedbackLoading: false });
+      }
     } else {
       // Handle queued song feedback
       const historyItemIndex = commandHistory.findIndex(h => 
@@ -663,6 +776,37 @@ const MainApp: React.FC = () => {
     }
   };
 
+  const handleUndo = async () => {
+    try {
+      const response = await authenticatedFetch(apiEndpoint('/api/control/undo'), {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      });
+      const data = await response.json();
+      
+      if (data.success) {
+        toast.success(data.message || 'Undone');
+      } else {
+        toast.error(data.message || data.error || 'Could not undo');
+      }
+    } catch (error) {
+      console.error('Undo error:', error);
+      toast.error('Could not undo. Please try again.');
+    }
+  };
+
+  // Offer to revert commands that changed playback
+  const showUndoToast = (message: string) => {
+    toast(message, {
+      action: {
+        label: 'Undo',
+        onClick: () => { handleUndo(); }
+      }
+    });
+  };
+
   const handleAlternativeClick = async (alternative: { name: string; artists: string; popularity: number; uri: string }, action: 'play' | 'queue') => {
     if (isProcessing) return;
     
@@ -706,6 +850,8 @@ const MainApp: React.FC = () => {
     setIsProcessing(true);
     const userCommand = command.trim();
     setCommand('');
+    const streamId = createStreamId();
+    pendingStreamsRef.current.set(streamId, userCommand);
 
     try {
       const response = await authenticatedFetch(apiEndpoint('/api/llm/simple/command'), {
@@ -714,7 +860,10 @@ const MainApp: React.FC = () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          command: userCommand
+          command: userCommand,
+          streamId,
+          // Lets "play my morning playlist at 7:00" mean the user's 7:00
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
         }),
       });
 
@@ -738,7 +887,9 @@ const MainApp: React.FC = () => {
           model: data.interpretation?.model || currentModel,
           interpretation: data.interpretation, // Store the full interpretation object
           queuedSongs: data.queuedSongs,
+          match: data.match,
           isAIDiscovery: data.interpretation?.isAIDiscovery || false,
+          provenance: data.provenance,
           trackUri: data.track?.uri,
           trackName: data.track?.name,
           artist: data.track?.artists?.map((a: any) => a.name).join(', '),
@@ -749,14 +900,18 @@ const MainApp: React.FC = () => {
           uiType: data.uiType
         };
         
-        setCommandHistory(prev => [...prev, newMessage]);
+        upsertStreamedMessage(streamId, newMessage);
+        
+        if (data.undoAvailable) {
+          showUndoToast(data.message || 'Done');
+        }
       } else {
         // Show user-friendly error toast with model information
         const modelName = data.interpretation?.model || currentModel || 'Unknown model';
         const errorMessage = `${modelName} failed to process your command. Please try again or select a different model.`;
         toast.error(errorMessage);
         
-        setCommandHistory(prev => [...prev, {
+        upsertStreamedMessage(streamId, {
           command: userCommand,
           response: data.error || data.message || 'An error occurred',
           timestamp: Date.now(),
@@ -765,8 +920,9 @@ const MainApp: React.FC = () => {
           reasoning: data.interpretation?.reasoning,
           model: data.interpretation?.model || currentModel,
           interpretation: data.interpretation, // Store the full interpretation object
-          queuedSongs: data.queuedSongs
-        }]);
+          queuedSongs: data.queuedSongs,
+          match: data.match
+        });
       }
     } catch (error) {
       console.error('Command error:', error);
@@ -774,12 +930,13 @@ const MainApp: React.FC = () => {
       // Show user-friendly error toast
       toast.error("Failed to process your command. Please try again or select a different model.");
       
-      setCommandHistory(prev => [...prev, {
+      upsertStreamedMessage(streamId, {
         command: userCommand,
         response: 'Network error. Please try again.',
         timestamp: Date.now()
-      }]);
+      });
     } finally {
+      pendingStreamsRef.current.delete(streamId);
       setIsProcessing(false);
     }
   };
@@ -812,6 +969,8 @@ const MainApp: React.FC = () => {
     // Set the command and trigger submit
     setCommand(commandToSend);
     setIsProcessing(true);
+    const streamId = createStreamId();
+    pendingStreamsRef.current.set(streamId, commandToSend);
     
     try {
       const response = await authenticatedFetch(apiEndpoint('/api/llm/simple/command'), {
@@ -820,7 +979,9 @@ const MainApp: React.FC = () => {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({ 
-          command: commandToSend
+          command: commandToSend,
+          streamId,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
         }),
       });
 
@@ -843,7 +1004,9 @@ const MainApp: React.FC = () => {
           model: data.interpretation?.model || currentModel,
           interpretation: data.interpretation,
           queuedSongs: data.queuedSongs,
+          match: data.match,
           isAIDiscovery: data.interpretation?.isAIDiscovery || false,
+          provenance: data.provenance,
           trackUri: data.track?.uri,
           trackName: data.track?.name,
           artist: data.track?.artists?.map((a: any) => a.name).join(', '),
@@ -853,14 +1016,18 @@ const MainApp: React.FC = () => {
           uiType: data.uiType
         };
         
-        setCommandHistory(prev => [...prev, newMessage]);
+        upsertStreamedMessage(streamId, newMessage);
+        
+        if (data.undoAvailable) {
+          showUndoToast(data.message || 'Done');
+        }
       } else {
         // Show user-friendly error toast with model information for clarification
         const modelName = data.interpretation?.model || currentModel || 'Unknown model';
         const errorMessage = `${modelName} failed to process your clarification. Please try again or select a different model.`;
         toast.error(errorMessage);
         
-        setCommandHistory(prev => [...prev, {
+        upsertStreamedMessage(streamId, {
           command: commandToSend,
           response: data.error || data.message || 'An error occurred',
           timestamp: Date.now(),
@@ -869,8 +1036,9 @@ const MainApp: React.FC = () => {
           reasoning: data.interpretation?.reasoning,
           model: data.interpretation?.model || currentModel,
           interpretation: data.interpretation,
-          queuedSongs: data.queuedSongs
-        }]);
+          queuedSongs: data.queuedSongs,
+          match: data.match
+        });
       }
     } catch (error) {
       console.error('Clarification command error:', error);
@@ -878,12 +1046,13 @@ const MainApp: React.FC = () => {
       // Show user-friendly error toast for clarification network errors
       toast.error("Failed to process your clarification. Please try again or select a different model.");
       
-      setCommandHistory(prev => [...prev, {
+      upsertStreamedMessage(streamId, {
         command: commandToSend,
         response: 'Network error. Please try again.',
         timestamp: Date.now()
-      }]);
+      });
     } finally {
+      pendingStreamsRef.current.delete(streamId);
       setCommand(''); // Clear the input
       setIsProcessing(false);
     }
@@ -9,7 +9,7 @@ import QueueDisplay from './QueueDisplay';
 import { webPlayerService } from '../services/webPlayer.service';
 import { isMobileDevice } from '../utils/deviceDetection';
 import { usePlayback } from '../contexts/PlaybackContext';
-import { MessageSquare, BarChart3, Target, ClipboardList, LogOut, Search, Wifi, Music2 } from 'lucide-react';
+import { MessageSquare, BarChart3, Target, ClipboardList, LogOut, Search, Wifi, Music2, ShieldBan } from 'lucide-react';
 
 interface MobileMenuProps {
   isOpen: boolean;
@@ -245,6 +245,20 @@ const MobileMenu: React.FC<MobileMenuProps> = ({
                   <Target className="w-4 h-4 text-green-500" />
                   <span>Feedback</span>
                 </button>
+                <button
+                  onClick={() => {
+                    navigate('/listening-rules');
+                    onClose();
+                  }}
+                  className={`w-full px-4 py-2 text-left rounded-lg transition-colors flex items-center gap-2 ${
+                    location.pathname === '/listening-rules' 
+                      ? 'bg-green-900/30 text-green-300 border border-green-700/50' 
+                      : 'bg-zinc-800 hover:bg-zinc-700'
+                  }`}
+                >
+                  <ShieldBan className="w-4 h-4 text-green-500" />
+                  <span>Listening Rules</span>
+                </button>
                 <button
                   onClick={() => {
                     navigate('/playlist-search');
@@ -207,7 +207,14 @@ const ModelSelector: React.FC<ModelSelectorProps> = ({ onModelChange, compact =
                         </div>
                       )}
                       
-                      {model.providerInfo?.isDirect && (
+                      {model.providerInfo?.provider === 'local' ? (
+                        <div className="flex items-center text-purple-400" title="Runs on a self-hosted OpenAI-compatible server">
+                          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12l2-2m0 0l7-7 7 7M5 10v10a1 1 0 001 1h3m10-11l2 2m-2-2v10a1 1 0 01-1 1h-3m-6 0a1 1 0 001-1v-4a1 1 0 011-1h2a1 1 0 011 1v4a1 1 0 001 1m-6 0h6" />
+                          </svg>
+                          <span className="text-xs ml-1">Local</span>
+                        </div>
+                      ) : model.providerInfo?.isDirect && (
                         <div className="flex items-center text-yellow-400" title="Uses direct API (not OpenRouter)">
                           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
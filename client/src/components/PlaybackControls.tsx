@@ -38,6 +38,8 @@ const PlaybackControls = forwardRef<PlaybackControlsRef, PlaybackControlsProps>(
   const currentTrackIdRef = useRef<string | null>(null);
   const localPositionRef = useRef<number>(0);
   const progressBarJSRef = useRef<any>(null);
+  // While the /music socket is up the server pushes playback changes, so we don't poll
+  const wsConnectedRef = useRef(false);
 
   // Custom hooks
   const currentTrackId = playbackState.track?.id || '';
@@ -107,8 +109,8 @@ const PlaybackControls = forwardRef<PlaybackControlsRef, PlaybackControlsProps>(
           setVolume(data.volume);
           // Position will be handled by useProgressTracking hook
           
-          // Schedule next poll based on track state
-          if (!immediate && data.isPlaying && data.track) {
+          // Schedule next poll based on track state (only as a fallback without the socket)
+          if (!immediate && !wsConnectedRef.current && data.isPlaying && data.track) {
             // Use the local position for smart polling
             const currentPosMs = localPositionRef.current * 1000; // Convert to ms for polling function
             
@@ -180,14 +182,36 @@ const PlaybackControls = forwardRef<PlaybackControlsRef, PlaybackControlsProps>(
   // WebSocket handlers for real-time updates
   const handleWsPlaybackStateChange = useCallback((data: any) => {
     console.log('[PlaybackControls] WS playback state changed:', data);
-    if (data.isPlaying !== undefined) {
-      setPlaybackState(prev => ({ ...prev, isPlaying: data.isPlaying }));
+    if (data.track === undefined) {
+      // Partial update from a command we ran
+      if (data.isPlaying !== undefined) {
+        setPlaybackState(prev => ({ ...prev, isPlaying: data.isPlaying }));
+      }
+      return;
     }
+
+    // Full state from the server-side playback watcher
+    if (data.track) {
+      previousTrackNameRef.current = data.track.name;
+      previousPositionRef.current = data.track.position;
+    } else {
+      previousTrackNameRef.current = null;
+    }
+    setPlaybackState(prev => ({
+      ...prev,
+      track: data.track ? (prev.track?.id === data.track.id ? { ...prev.track, ...data.track } : data.track) : null,
+      isPlaying: data.isPlaying,
+      shuffleState: data.shuffleState,
+      repeatState: data.repeatState,
+      volume: data.volume
+    }));
+    setVolume(data.volume);
   }, []);
 
   const handleWsTrackChange = useCallback((data: any) => {
     console.log('[PlaybackControls] WS track changed:', data);
-    if (data.track) {
+    const track = data.current || data.track;
+    if (track) {
       // Trigger fade animation for track change
       setIsTrackChanging(true);
       
@@ -195,13 +219,13 @@ const PlaybackControls = forwardRef<PlaybackControlsRef, PlaybackControlsProps>(
       setPlaybackState(prev => ({
         ...prev,
         track: {
-          name: data.track.name || 'Unknown',
-          artist: data.track.artist || 'Unknown Artist',
-          album: data.track.album || '',
-          albumArt: data.track.albumArt || null,
-          duration: (data.track.duration_ms || 0) / 1000,
-          position: 0,
-          id: data.track.id || data.track.uri?.split(':').pop()
+          name: track.name || 'Unknown',
+          artist: track.artist || 'Unknown Artist',
+          album: track.album || '',
+          albumArt: track.albumArt || null,
+          duration: track.duration ?? (track.duration_ms || 0) / 1000,
+          position: track.position || 0,
+          id: track.id || track.uri?.split(':').pop()
         }
       }));
       
@@ -231,6 +255,17 @@ const PlaybackControls = forwardRef<PlaybackControlsRef, PlaybackControlsProps>(
     handleWsCommandExecuted
   );
 
+  // Hand polling over to the server while connected; resume it if the socket drops
+  useEffect(() => {
+    wsConnectedRef.current = wsConnected;
+    if (wsConnected) {
+      cleanupPolling();
+    } else if (playbackState.isPlaying) {
+      fetchPlaybackState();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [wsConnected]);
+
   // Manage progress animation based on playback state
   useEffect(() => {
     const trackId = playbackState.track?.id;
@@ -306,7 +341,7 @@ const PlaybackControls = forwardRef<PlaybackControlsRef, PlaybackControlsProps>(
   
   // Start polling when playback starts (initial trigger)
   useEffect(() => {
-    if (playbackState.isPlaying && playbackState.track) {
+    if (playbackState.isPlaying && playbackState.track && !wsConnectedRef.current) {
       // Trigger an immediate fetch which will set up its own polling chain
       console.log('[PlaybackControls] Playback started, initiating polling chain');
       fetchPlaybackState();
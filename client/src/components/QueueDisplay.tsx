@@ -1,5 +1,8 @@
 import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
 import { api } from '../utils/api';
+import { musicSocket } from '../services/musicSocket';
+import { ShadowQueueItem } from '../types/websocket.types';
 import QueueSkeleton from './skeletons/QueueSkeleton';
 
 interface QueueTrack {
@@ -21,11 +24,84 @@ const QueueDisplay: React.FC<QueueDisplayProps> = ({ onClose }) => {
   } | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // DJ Forge's own queue - editable, fed to Spotify one track at a time
+  const [shadowQueue, setShadowQueue] = useState<ShadowQueueItem[]>([]);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   useEffect(() => {
     fetchQueue();
+    fetchShadowQueue();
+
+    const handleQueueUpdated = (data: { shadowQueue?: ShadowQueueItem[] }) => {
+      if (data.shadowQueue) {
+        setShadowQueue(data.shadowQueue);
+      }
+    };
+    musicSocket.on('queueUpdated', handleQueueUpdated);
+    return () => {
+      musicSocket.off('queueUpdated', handleQueueUpdated);
+    };
   }, []);
 
+  const fetchShadowQueue = async () => {
+    try {
+      const response = await api.get('/api/queue');
+      if (response.ok) {
+        const data = await response.json();
+        setShadowQueue(data.items || []);
+      }
+    } catch (err) {
+      console.error('Error fetching DJ Forge queue:', err);
+    }
+  };
+
+  const moveItem = async (from: number, to: number) => {
+    if (from === to) return;
+
+    // Reorder optimistically; the server's queueUpdated event confirms it
+    setShadowQueue(prev => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+
+    try {
+      const response = await api.post('/api/queue/move', { from, to });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (err) {
+      console.error('Error moving queue item:', err);
+      toast.error('Could not reorder the queue');
+      fetchShadowQueue();
+    }
+  };
+
+  const removeItem = async (item: ShadowQueueItem) => {
+    setShadowQueue(prev => prev.filter(i => i.id !== item.id));
+
+    try {
+      const response = await api.delete(`/api/queue/${item.id}`);
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (err) {
+      console.error('Error removing queue item:', err);
+      toast.error(`Could not remove ${item.name}`);
+      fetchShadowQueue();
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null) {
+      moveItem(dragIndex, index);
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
   const fetchQueue = async () => {
     try {
       setLoading(true);
@@ -102,9 +178,64 @@ const QueueDisplay: React.FC<QueueDisplayProps> = ({ onClose }) => {
               </div>
             )}
 
+            {shadowQueue.length > 0 && (
+              <div className="mb-4">
+                <h3 className="text-sm font-medium text-gray-400 mb-2">Up Next from DJ Forge</h3>
+                <div className="space-y-2">
+                  {shadowQueue.map((item, index) => (
+                    <div
+                      key={item.id}
+                      draggable
+                      onDragStart={() => setDragIndex(index)}
+                      onDragOver={(e) => {
+                        e.preventDefault();
+                        setDropIndex(index);
+                      }}
+                      onDragLeave={() => setDropIndex(null)}
+                      onDrop={(e) => {
+                        e.preventDefault();
+                        handleDrop(index);
+                      }}
+                      onDragEnd={() => {
+                        setDragIndex(null);
+                        setDropIndex(null);
+                      }}
+                      className={`bg-zinc-800 rounded-lg p-3 hover:bg-zinc-700 transition-colors cursor-grab active:cursor-grabbing ${
+                        dragIndex === index ? 'opacity-50' : ''
+                      } ${dropIndex === index && dragIndex !== index ? 'border border-green-500/50' : ''}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="text-gray-500 mr-3 select-none" aria-hidden="true">⋮⋮</div>
+                        <div className="flex-1 min-w-0 mr-3">
+                          <div className="text-white font-medium truncate">{item.name}</div>
+                          <div className="text-sm text-gray-400 truncate">
+                            {item.artist}{item.album ? ` • ${item.album}` : ''}
+                          </div>
+                        </div>
+                        {item.durationMs ? (
+                          <div className="text-sm text-gray-500 mr-2">
+                            {formatDuration(item.durationMs)}
+                          </div>
+                        ) : null}
+                        <button
+                          onClick={() => removeItem(item)}
+                          className="p-1 hover:bg-zinc-600 rounded-full transition-colors"
+                          title="Remove from queue"
+                        >
+                          <svg className="w-4 h-4 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                          </svg>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {queue.queue.length > 0 ? (
               <div>
-                <h3 className="text-sm font-medium text-gray-400 mb-2">Up Next</h3>
+                <h3 className="text-sm font-medium text-gray-400 mb-2">{shadowQueue.length > 0 ? 'Then on Spotify' : 'Up Next'}</h3>
                 <div className="space-y-2">
                   {queue.queue.map((track, index) => (
                     <div key={`${track.id}-${index}`} className="bg-zinc-800 rounded-lg p-3 hover:bg-zinc-700 transition-colors">
@@ -123,7 +254,7 @@ const QueueDisplay: React.FC<QueueDisplayProps> = ({ onClose }) => {
                   ))}
                 </div>
               </div>
-            ) : (
+            ) : shadowQueue.length === 0 && (
               <div className="text-center text-gray-500 mt-8">
                 <div className="mb-2">No tracks in queue</div>
                 <div className="text-sm">Add tracks to your queue to see them here</div>
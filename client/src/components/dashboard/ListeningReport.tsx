@@ -0,0 +1,244 @@
+import { useState, useEffect } from 'react';
+import { apiEndpoint } from '../../config/api';
+import { authenticatedFetch } from '../../utils/api';
+
+type ReportPeriod = 'week' | 'month' | 'year';
+
+interface GenreShift {
+  genre: string;
+  share: number;
+  change: number;
+}
+
+interface Report {
+  period: ReportPeriod;
+  from: string;
+  to: string;
+  source: 'history' | 'spotify_top';
+  listening: { plays: number; minutes: number };
+  topArtists: Array<{ name: string; plays?: number; imageUrl?: string }>;
+  topTracks: Array<{ name: string; artist: string; uri: string; plays?: number }>;
+  genres: { top: GenreShift[]; rising: GenreShift[]; fading: GenreShift[] };
+  aiDiscoveries: { discovered: number; loved: number; disliked: number; blocked: number; hitRate: number | null };
+  mostSkipped: Array<{ name: string; artist: string; uri: string; skips: number }>;
+  highlights: string[];
+}
+
+const PERIODS: Array<{ id: ReportPeriod; label: string }> = [
+  { id: 'week', label: 'Week' },
+  { id: 'month', label: 'Month' },
+  { id: 'year', label: 'Year' }
+];
+
+export default function ListeningReport() {
+  const [period, setPeriod] = useState<ReportPeriod>('month');
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = async (refresh = false) => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await authenticatedFetch(
+        apiEndpoint(`/api/user-data/report?period=${period}${refresh ? '&refresh=true' : ''}`)
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to generate report');
+      }
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, [period]);
+
+  // The export needs the session header, so download through fetch rather than a plain link
+  const exportReport = async (format: 'html' | 'json') => {
+    try {
+      const response = await authenticatedFetch(
+        apiEndpoint(`/api/user-data/report?period=${period}&format=${format}&download=true`)
+      );
+      if (!response.ok) {
+        throw new Error('Export failed');
+      }
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `dj-forge-${period}-report.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    }
+  };
+
+  const formatDate = (iso: string) => new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex gap-2">
+          {PERIODS.map(p => (
+            <button
+              key={p.id}
+              onClick={() => setPeriod(p.id)}
+              className={`px-4 py-2 text-sm rounded-lg transition-colors ${
+                period === p.id ? 'bg-green-600 text-white' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+              }`}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={() => fetchReport(true)}
+            disabled={loading}
+            className="px-4 py-2 text-sm bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+          >
+            Regenerate
+          </button>
+          <button
+            onClick={() => exportReport('html')}
+            disabled={!report}
+            className="px-4 py-2 text-sm bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+          >
+            Export HTML
+          </button>
+          <button
+            onClick={() => exportReport('json')}
+            disabled={!report}
+            className="px-4 py-2 text-sm bg-zinc-800 text-white rounded-lg hover:bg-zinc-700 transition-colors disabled:opacity-50"
+          >
+            Export JSON
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading || !report ? (
+        !error && <div className="bg-zinc-900 rounded-lg p-6 h-64 animate-pulse" />
+      ) : (
+        <>
+          <div className="bg-gradient-to-br from-green-900/40 to-zinc-900 rounded-lg p-6">
+            <h3 className="text-2xl font-bold text-green-400 mb-1">Your {report.period} in music</h3>
+            <p className="text-sm text-zinc-400 mb-4">
+              {formatDate(report.from)} - {formatDate(report.to)}
+              {report.source === 'spotify_top' && ' · from your Spotify top lists (listening history is still filling up)'}
+            </p>
+            <ul className="space-y-2">
+              {report.highlights.map((highlight, i) => (
+                <li key={i} className="text-zinc-100">✨ {highlight}</li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="bg-zinc-900 rounded-lg p-4">
+              <div className="text-2xl font-bold">{report.listening.plays}</div>
+              <div className="text-sm text-zinc-400">plays</div>
+            </div>
+            <div className="bg-zinc-900 rounded-lg p-4">
+              <div className="text-2xl font-bold">{Math.round(report.listening.minutes / 60)}</div>
+              <div className="text-sm text-zinc-400">hours listened</div>
+            </div>
+            <div className="bg-zinc-900 rounded-lg p-4">
+              <div className="text-2xl font-bold">
+                {report.aiDiscoveries.hitRate === null ? '-' : `${Math.round(report.aiDiscoveries.hitRate * 100)}%`}
+              </div>
+              <div className="text-sm text-zinc-400">AI discovery hit rate</div>
+            </div>
+            <div className="bg-zinc-900 rounded-lg p-4">
+              <div className="text-2xl font-bold">{report.aiDiscoveries.discovered}</div>
+              <div className="text-sm text-zinc-400">
+                AI discoveries ({report.aiDiscoveries.loved} loved, {report.aiDiscoveries.disliked + report.aiDiscoveries.blocked} missed)
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold mb-4">Top Artists</h3>
+              <ol className="space-y-3">
+                {report.topArtists.map((artist, i) => (
+                  <li key={artist.name} className="flex items-center gap-3">
+                    <span className="w-5 text-sm text-zinc-500">{i + 1}</span>
+                    {artist.imageUrl ? (
+                      <img src={artist.imageUrl} alt={artist.name} className="w-8 h-8 rounded-full object-cover" />
+                    ) : (
+                      <div className="w-8 h-8 rounded-full bg-zinc-800" />
+                    )}
+                    <span className="flex-1 truncate">{artist.name}</span>
+                    {!!artist.plays && <span className="text-sm text-zinc-400">{artist.plays} plays</span>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold mb-4">Top Tracks</h3>
+              <ol className="space-y-3">
+                {report.topTracks.map((track, i) => (
+                  <li key={track.uri} className="flex items-center gap-3">
+                    <span className="w-5 text-sm text-zinc-500">{i + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="truncate">{track.name}</div>
+                      <div className="text-sm text-zinc-400 truncate">{track.artist}</div>
+                    </div>
+                    {!!track.plays && <span className="text-sm text-zinc-400">{track.plays} plays</span>}
+                  </li>
+                ))}
+              </ol>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold mb-4">Genre Shifts</h3>
+              {report.genres.rising.length === 0 && report.genres.fading.length === 0 ? (
+                <p className="text-sm text-zinc-400">Your genres held steady</p>
+              ) : (
+                <ul className="space-y-2">
+                  {report.genres.rising.map(g => (
+                    <li key={g.genre} className="flex justify-between">
+                      <span className="capitalize">{g.genre}</span>
+                      <span className="text-green-400 text-sm">+{g.change} pts</span>
+                    </li>
+                  ))}
+                  {report.genres.fading.map(g => (
+                    <li key={g.genre} className="flex justify-between">
+                      <span className="capitalize">{g.genre}</span>
+                      <span className="text-red-400 text-sm">{g.change} pts</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h3 className="text-lg font-semibold mb-4">Most Skipped</h3>
+              {report.mostSkipped.length === 0 ? (
+                <p className="text-sm text-zinc-400">Nothing skipped - you let everything play</p>
+              ) : (
+                <ul className="space-y-2">
+                  {report.mostSkipped.map(track => (
+                    <li key={track.uri} className="flex justify-between gap-3">
+                      <span className="truncate">{track.name} <span className="text-zinc-400">· {track.artist}</span></span>
+                      <span className="text-sm text-zinc-400">{track.skips}×</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -29,7 +29,7 @@ interface Track {
   played_at: string;
   track: {
     name: string;
-    popularity: number;
+    popularity?: number;
     duration_ms: number;
   };
 }
@@ -53,6 +53,7 @@ export default function ListeningTrends({ recentlyPlayed }: ListeningTrendsProps
       hourCounts[hour] = (hourCounts[hour] || 0) + 1;
       
       // Average popularity by day
+      if (typeof item.track.popularity !== 'number') return;
       if (!dayPopularity[dayKey]) {
         dayPopularity[dayKey] = { total: 0, count: 0 };
       }
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { musicSocket, updateMusicSocketAuth } from '../services/musicSocket';
+
+export interface ChatStreamHandlers {
+  onDelta: (streamId: string, delta: string) => void;
+  onComplete: (streamId: string, content: string, error?: string) => void;
+}
+
+// Generate an ID the server echoes back on chatDelta/chatComplete for this command
+export function createStreamId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Listen for streamed conversational answers on the /music socket.
+ * The HTTP response remains the source of truth - these events only let
+ * the UI render the answer while it is being generated.
+ */
+export function useChatStream(handlers: ChatStreamHandlers): void {
+  // Keep the latest handlers without re-registering socket listeners on every render
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    const handleDelta = (data: { streamId: string; delta: string }) => {
+      handlersRef.current.onDelta(data.streamId, data.delta);
+    };
+
+    const handleComplete = (data: { streamId: string; content: string; error?: string }) => {
+      handlersRef.current.onComplete(data.streamId, data.content, data.error);
+    };
+
+    musicSocket.on('chatDelta', handleDelta);
+    musicSocket.on('chatComplete', handleComplete);
+
+    // Connect if not connected
+    if (!musicSocket.connected) {
+      const sessionId = localStorage.getItem('spotify_session_id');
+      if (sessionId) {
+        updateMusicSocketAuth();
+        musicSocket.connect();
+      }
+    }
+
+    return () => {
+      musicSocket.off('chatDelta', handleDelta);
+      musicSocket.off('chatComplete', handleComplete);
+    };
+  }, []);
+}
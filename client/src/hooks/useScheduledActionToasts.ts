@@ -0,0 +1,34 @@
+import { useEffect } from 'react';
+import { toast } from 'sonner';
+import { musicSocket } from '../services/musicSocket';
+
+interface ScheduledActionFiredEvent {
+  id: string;
+  action: string;
+  description: string;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Show a toast when a scheduled action (sleep timer, fade out, timed playlist)
+ * runs on the server. Actions can fire long after the command that created
+ * them, so this is the only feedback the user gets.
+ */
+export function useScheduledActionToasts(): void {
+  useEffect(() => {
+    const handleFired = (data: ScheduledActionFiredEvent) => {
+      if (data.success) {
+        toast.success(`⏰ ${data.description}`, { description: data.message });
+      } else {
+        toast.error(`⏰ ${data.description} didn't run`, { description: data.message });
+      }
+    };
+
+    musicSocket.on('scheduledActionFired', handleFired);
+
+    return () => {
+      musicSocket.off('scheduledActionFired', handleFired);
+    };
+  }, []);
+}
@@ -7,6 +7,7 @@ import RecentlyPlayedTimeline from '../components/dashboard/RecentlyPlayedTimeli
 import SavedTracksTable from '../components/dashboard/SavedTracksTable';
 import GenreDistribution from '../components/dashboard/GenreDistribution';
 import ListeningTrends from '../components/dashboard/ListeningTrends';
+import ListeningReport from '../components/dashboard/ListeningReport';
 import PlaylistGrid from '../components/dashboard/PlaylistGrid';
 import { useSpotifyPlayback } from '../hooks/useSpotifyPlayback';
 
@@ -46,7 +47,7 @@ interface DashboardData {
   playlists: any[];
 }
 
-type Section = 'overview' | 'top' | 'saved' | 'recent' | 'playlists' | 'insights';
+type Section = 'overview' | 'top' | 'saved' | 'recent' | 'playlists' | 'insights' | 'report';
 
 interface DashboardLoadingState {
   profile: boolean;
@@ -70,6 +71,8 @@ export default function Dashboard() {
   const [refreshing, setRefreshing] = useState(false);
   const [loadingMoreTracks, setLoadingMoreTracks] = useState(false);
   const [refreshProgress, setRefreshProgress] = useState<string>('');
+  // Long-term plays (last 30 days) for the insights charts - null until loaded
+  const [listeningHistory, setListeningHistory] = useState<any[] | null>(null);
   
   // Granular loading states for each section
   const [loadingStates, setLoadingStates] = useState<DashboardLoadingState>({
@@ -87,6 +90,23 @@ export default function Dashboard() {
     fetchDashboardData();
   }, []);
 
+  useEffect(() => {
+    if (activeSection === 'insights' && listeningHistory === null) {
+      fetchListeningHistory();
+    }
+  }, [activeSection, listeningHistory]);
+
+  const fetchListeningHistory = async () => {
+    try {
+      const response = await authenticatedFetch(apiEndpoint('/api/user-data/history?days=30'));
+      const data = response.ok ? await response.json() : null;
+      setListeningHistory(data?.success ? data.data : []);
+    } catch (err) {
+      console.error('Failed to fetch listening history:', err);
+      setListeningHistory([]);
+    }
+  };
+
   const fetchDashboardData = async (refresh = false) => {
     try {
       if (refresh) {
@@ -244,7 +264,8 @@ export default function Dashboard() {
     { id: 'saved' as Section, label: 'Library', icon: '💚' },
     { id: 'recent' as Section, label: 'Recent', icon: '🕐' },
     { id: 'playlists' as Section, label: 'Playlists', icon: '📂' },
-    { id: 'insights' as Section, label: 'Insights', icon: '📊' }
+    { id: 'insights' as Section, label: 'Insights', icon: '📊' },
+    { id: 'report' as Section, label: 'Report', icon: '🎁' }
   ];
 
   return (
@@ -612,11 +633,16 @@ export default function Dashboard() {
           <div className="space-y-8">
             {/* Listening Trends */}
             <section>
-              <h2 className="text-xl font-semibold mb-6">Listening Patterns</h2>
+              <h2 className={`text-xl font-semibold ${listeningHistory?.length ? 'mb-1' : 'mb-6'}`}>Listening Patterns</h2>
+              {!!listeningHistory?.length && (
+                <p className="text-sm text-zinc-400 mb-6">Based on {listeningHistory.length} plays over the last 30 days</p>
+              )}
               {loadingStates.insights || !dashboardData ? (
                 <ChartSkeleton height="h-64" />
               ) : (
-                <ListeningTrends recentlyPlayed={dashboardData.recentlyPlayed} />
+                <ListeningTrends
+                  recentlyPlayed={listeningHistory?.length ? listeningHistory : dashboardData.recentlyPlayed}
+                />
               )}
             </section>
 
@@ -672,6 +698,14 @@ export default function Dashboard() {
             </section>
           </div>
         )}
+
+        {/* Report Section */}
+        {activeSection === 'report' && (
+          <section>
+            <h2 className="text-xl font-semibold mb-6">Your Listening Report</h2>
+            <ListeningReport />
+          </section>
+        )}
         </div>
       </div>
     </div>
@@ -13,8 +13,26 @@ interface AIDiscoveredTrack {
   feedback?: 'loved' | 'disliked' | 'blocked';
   feedbackAt?: number;
   previewUrl?: string;
+  provenance?: {
+    source: 'primary' | 'fallback' | 'alternative';
+    retryLevel?: number;
+    requested?: string;
+    alternativeTo?: string;
+  };
 }
 
+// Older discoveries have no provenance - they were all the model's own picks
+const describeProvenance = (provenance: AIDiscoveredTrack['provenance']): string | null => {
+  if (provenance?.source === 'fallback') {
+    const retry = provenance.retryLevel ? ` (search retry ${provenance.retryLevel})` : '';
+    return `Fallback${provenance.requested ? ` for ${provenance.requested}` : ''}${retry}`;
+  }
+  if (provenance?.source === 'alternative') {
+    return `Alternative${provenance.alternativeTo ? ` to ${provenance.alternativeTo}` : ''}`;
+  }
+  return null;
+};
+
 interface DashboardData {
   discoveries: AIDiscoveredTrack[];
   loved: AIDiscoveredTrack[];
@@ -99,6 +117,11 @@ const TrackCard: React.FC<TrackCardProps> = ({ track, index, fadingOut, submitti
         <div className="flex-1">
           <h3 className="text-lg font-semibold text-white">{track.trackName}</h3>
           <p className="text-gray-300 text-sm mb-2">by {track.artist}</p>
+          {describeProvenance(track.provenance) && (
+            <span className="inline-block text-xs px-2 py-0.5 mb-2 rounded bg-zinc-700 text-orange-300">
+              {describeProvenance(track.provenance)}
+            </span>
+          )}
           <p className="text-sm text-gray-400 italic">"{track.reasoning}"</p>
           <p className="text-xs text-gray-500 mt-1">
             Discovered {new Date(track.discoveredAt).toLocaleDateString()}
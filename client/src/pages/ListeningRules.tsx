@@ -0,0 +1,354 @@
+import React, { useState, useEffect } from 'react';
+import { toast } from 'sonner';
+import { Toaster } from '@/components/ui/sonner';
+import { ShieldBan, X, Users } from 'lucide-react';
+import { api } from '../utils/temp-auth';
+
+interface BlockedTrackRule {
+  uri?: string;
+  name: string;
+  artist?: string;
+}
+
+interface EraRule {
+  fromYear: number;
+  toYear: number;
+}
+
+interface ListeningRules {
+  blockedArtists: string[];
+  blockedTracks: BlockedTrackRule[];
+  explicitFilter: boolean;
+  blockedGenres: string[];
+  blockedEras: EraRule[];
+}
+
+interface FamilyModeSettings {
+  enabled: boolean;
+  deviceIds: string[];
+}
+
+interface SpotifyDevice {
+  id: string;
+  name: string;
+  type: string;
+}
+
+const EMPTY_RULES: ListeningRules = {
+  blockedArtists: [],
+  blockedTracks: [],
+  explicitFilter: false,
+  blockedGenres: [],
+  blockedEras: []
+};
+
+const DECADES = [1950, 1960, 1970, 1980, 1990, 2000, 2010, 2020];
+
+// Comma-separated input, e.g. "Closer, Nine Inch Nails"
+const parseTrackInput = (value: string): BlockedTrackRule | null => {
+  const [name, ...artist] = value.split(',').map(part => part.trim());
+  if (!name) return null;
+  return artist.join(', ') ? { name, artist: artist.join(', ') } : { name };
+};
+
+const ListeningRulesPage: React.FC = () => {
+  const [rules, setRules] = useState<ListeningRules>(EMPTY_RULES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [artistInput, setArtistInput] = useState('');
+  const [trackInput, setTrackInput] = useState('');
+  const [genreInput, setGenreInput] = useState('');
+  const [familyMode, setFamilyMode] = useState<FamilyModeSettings>({ enabled: false, deviceIds: [] });
+  const [devices, setDevices] = useState<SpotifyDevice[]>([]);
+
+  useEffect(() => {
+    fetchRules();
+    fetchFamilyMode();
+  }, []);
+
+  // Family mode is optional on this page - failures only hide its device list
+  const fetchFamilyMode = async () => {
+    try {
+      const [settingsResponse, devicesResponse] = await Promise.all([
+        api.get('/api/family-mode'),
+        api.get('/api/control/devices')
+      ]);
+      if (settingsResponse.ok) {
+        const data = await settingsResponse.json();
+        setFamilyMode(data.settings);
+      }
+      if (devicesResponse.ok) {
+        const data = await devicesResponse.json();
+        setDevices(data.devices || []);
+      }
+    } catch (err) {
+      console.error('Error fetching family mode:', err);
+    }
+  };
+
+  const saveFamilyMode = async (url: string, enabled: boolean) => {
+    try {
+      const response = await api.put(url, { enabled });
+      if (!response.ok) {
+        throw new Error(`Failed to save family mode: ${response.status}`);
+      }
+      const data = await response.json();
+      setFamilyMode(data.settings);
+    } catch (err) {
+      console.error('Error saving family mode:', err);
+      toast.error('Could not update family mode');
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const response = await api.get('/api/listening-rules');
+      if (!response.ok) {
+        throw new Error(`Failed to fetch listening rules: ${response.status}`);
+      }
+      const data = await response.json();
+      setRules({ ...EMPTY_RULES, ...data.rules });
+    } catch (err) {
+      console.error('Error fetching listening rules:', err);
+      setError(err instanceof Error ? err.message : 'Failed to fetch listening rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Every change is saved straight away, so rules apply to the next command
+  const saveRules = async (next: ListeningRules) => {
+    const previous = rules;
+    setRules(next);
+    setSaving(true);
+    try {
+      const response = await api.put('/api/listening-rules', next);
+      if (!response.ok) {
+        throw new Error(`Failed to save listening rules: ${response.status}`);
+      }
+      const data = await response.json();
+      setRules({ ...EMPTY_RULES, ...data.rules });
+    } catch (err) {
+      console.error('Error saving listening rules:', err);
+      setRules(previous);
+      toast.error('Could not save your listening rules');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addArtist = () => {
+    const artist = artistInput.trim();
+    if (!artist) return;
+    setArtistInput('');
+    saveRules({ ...rules, blockedArtists: [...rules.blockedArtists, artist] });
+  };
+
+  const addTrack = () => {
+    const track = parseTrackInput(trackInput);
+    if (!track) return;
+    setTrackInput('');
+    saveRules({ ...rules, blockedTracks: [...rules.blockedTracks, track] });
+  };
+
+  const addGenre = () => {
+    const genre = genreInput.trim();
+    if (!genre) return;
+    setGenreInput('');
+    saveRules({ ...rules, blockedGenres: [...rules.blockedGenres, genre] });
+  };
+
+  const isDecadeBlocked = (decade: number) =>
+    rules.blockedEras.some(era => era.fromYear === decade && era.toYear === decade + 9);
+
+  const toggleDecade = (decade: number) => {
+    const blockedEras = isDecadeBlocked(decade)
+      ? rules.blockedEras.filter(era => !(era.fromYear === decade && era.toYear === decade + 9))
+      : [...rules.blockedEras, { fromYear: decade, toYear: decade + 9 }];
+    saveRules({ ...rules, blockedEras });
+  };
+
+  const renderChips = (items: string[], onRemove: (index: number) => void) => (
+    <div className="flex flex-wrap gap-2 mt-3">
+      {items.length === 0 && <span className="text-sm text-zinc-500">Nothing blocked</span>}
+      {items.map((item, index) => (
+        <span key={`${item}-${index}`} className="flex items-center gap-1 px-3 py-1 bg-zinc-800 rounded-full text-sm text-zinc-200">
+          {item}
+          <button
+            onClick={() => onRemove(index)}
+            disabled={saving}
+            className="text-zinc-500 hover:text-red-400 disabled:opacity-50"
+            aria-label={`Unblock ${item}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+
+  const renderInput = (value: string, onChange: (value: string) => void, onAdd: () => void, placeholder: string) => (
+    <div className="flex gap-2">
+      <input
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        onKeyDown={e => e.key === 'Enter' && onAdd()}
+        placeholder={placeholder}
+        className="flex-1 px-3 py-2 bg-zinc-800 border border-zinc-700 rounded-lg text-sm text-white placeholder-zinc-500 focus:outline-none focus:border-green-500"
+      />
+      <button
+        onClick={onAdd}
+        disabled={saving || !value.trim()}
+        className="px-4 py-2 bg-green-600 hover:bg-green-500 disabled:bg-zinc-700 disabled:text-zinc-500 rounded-lg text-sm font-medium"
+      >
+        Block
+      </button>
+    </div>
+  );
+
+  return (
+    <div className="flex-1 flex flex-col">
+      <Toaster />
+      {/* Page Header */}
+      <div className="border-b border-zinc-800 bg-zinc-900/50 backdrop-blur-sm">
+        <div className="max-w-4xl mx-auto px-4 py-6 w-full">
+          <h1 className="text-3xl font-bold text-green-400 flex items-center gap-3">
+            <ShieldBan className="w-8 h-8" />
+            Listening Rules
+          </h1>
+          <p className="text-zinc-400 mt-2">
+            Music that never plays, whatever you ask for. When something is skipped, DJ Forge tells you which rule caught it.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex-1 bg-zinc-950 p-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+
+        {loading && (
+          <div className="text-center py-12">
+            <div className="text-xl">Loading your listening rules...</div>
+          </div>
+        )}
+
+        {error && (
+          <div className="bg-red-900/20 border border-red-500 rounded-lg p-4 mb-8">
+            <p className="text-red-400">{error}</p>
+          </div>
+        )}
+
+        {!loading && !error && (
+          <>
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <label className="flex items-center justify-between cursor-pointer">
+                <div>
+                  <h2 className="text-lg font-semibold flex items-center gap-2">
+                    <Users className="w-5 h-5 text-green-500" />
+                    Family mode
+                  </h2>
+                  <p className="text-sm text-zinc-400">
+                    For shared listening: DJ Forge only picks clean songs and leaves explicit tracks out of searches and playlists
+                  </p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={familyMode.enabled}
+                  onChange={e => saveFamilyMode('/api/family-mode', e.target.checked)}
+                  className="w-5 h-5 accent-green-500"
+                />
+              </label>
+              {!familyMode.enabled && devices.length > 0 && (
+                <div className="mt-4 border-t border-zinc-800 pt-4">
+                  <div className="text-xs text-zinc-500 mb-2">Or only while playing on:</div>
+                  <div className="space-y-2">
+                    {devices.map(device => (
+                      <label key={device.id} className="flex items-center justify-between text-sm cursor-pointer">
+                        <span className="text-zinc-300">{device.name} <span className="text-zinc-500">({device.type})</span></span>
+                        <input
+                          type="checkbox"
+                          checked={familyMode.deviceIds.includes(device.id)}
+                          onChange={e => saveFamilyMode(`/api/family-mode/devices/${encodeURIComponent(device.id)}`, e.target.checked)}
+                          className="w-4 h-4 accent-green-500"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <label className="flex items-center justify-between cursor-pointer">
+                <div>
+                  <h2 className="text-lg font-semibold">Filter explicit content</h2>
+                  <p className="text-sm text-zinc-400">Clean versions are played instead when Spotify has one</p>
+                </div>
+                <input
+                  type="checkbox"
+                  checked={rules.explicitFilter}
+                  disabled={saving}
+                  onChange={e => saveRules({ ...rules, explicitFilter: e.target.checked })}
+                  className="w-5 h-5 accent-green-500"
+                />
+              </label>
+            </div>
+
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-3">Blocked artists</h2>
+              {renderInput(artistInput, setArtistInput, addArtist, 'Artist name')}
+              {renderChips(rules.blockedArtists, index =>
+                saveRules({ ...rules, blockedArtists: rules.blockedArtists.filter((_, i) => i !== index) }))}
+            </div>
+
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-3">Blocked songs</h2>
+              {renderInput(trackInput, setTrackInput, addTrack, 'Song title, artist (optional)')}
+              {renderChips(
+                rules.blockedTracks.map(track => (track.artist ? `${track.name} - ${track.artist}` : track.name)),
+                index => saveRules({ ...rules, blockedTracks: rules.blockedTracks.filter((_, i) => i !== index) })
+              )}
+              <p className="text-xs text-zinc-500 mt-3">
+                Songs you block from AI discoveries on the Feedback page are skipped too.
+              </p>
+            </div>
+
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-3">Blocked genres</h2>
+              {renderInput(genreInput, setGenreInput, addGenre, 'e.g. metal, country')}
+              {renderChips(rules.blockedGenres, index =>
+                saveRules({ ...rules, blockedGenres: rules.blockedGenres.filter((_, i) => i !== index) }))}
+              <p className="text-xs text-zinc-500 mt-3">
+                Genres come from Spotify's artist genres - blocking "metal" also blocks "death metal".
+              </p>
+            </div>
+
+            <div className="bg-zinc-900 rounded-lg p-6">
+              <h2 className="text-lg font-semibold mb-3">Blocked decades</h2>
+              <div className="flex flex-wrap gap-2">
+                {DECADES.map(decade => (
+                  <button
+                    key={decade}
+                    onClick={() => toggleDecade(decade)}
+                    disabled={saving}
+                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                      isDecadeBlocked(decade)
+                        ? 'bg-red-900/40 text-red-300 border border-red-700/50'
+                        : 'bg-zinc-800 text-zinc-300 hover:bg-zinc-700'
+                    }`}
+                  >
+                    {decade}s
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ListeningRulesPage;
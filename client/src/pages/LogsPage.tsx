@@ -3,6 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { apiEndpoint } from '../config/api';
 import { authenticatedFetch } from '../utils/api';
 import { useSpotifyAuth } from '../hooks/useSpotifyAuth';
+import LLMCostCharts, { CostStatsResponse, formatUsd } from '../components/LLMCostCharts';
+import LLMUsagePanel, { LLMUsageResponse } from '../components/LLMUsagePanel';
 
 interface LLMLogEntry {
   id: string;
@@ -29,6 +31,7 @@ interface LLMLogEntry {
       totalTokens?: number;
     };
     latency: number;
+    costUsd?: number;
     fallbackUsed?: boolean;
     actualModel?: string;
     rawResponse?: any;
@@ -66,6 +69,23 @@ interface StatsResponse {
   providerDistribution: Record<string, number>;
   intentDistribution: Record<string, number>;
   errorRate: number;
+  hallucinationStats?: Record<string, {
+    suggested: number;
+    unresolved: number;
+    recovered: number;
+    hallucinationRate: number;
+  }>;
+  promptVersions?: Record<string, {
+    id: string;
+    version: string;
+    queries: number;
+    successRate: number;
+    avgLatency: number;
+    loved: number;
+    disliked: number;
+    loveRate: number | null;
+  }>;
+  promptExperiments?: Array<{ id: string; promptId: string }>;
   periodDays: number;
 }
 
@@ -74,6 +94,8 @@ const LogsPage: React.FC = () => {
   const { isAuthenticated, loading: authLoading } = useSpotifyAuth();
   const [logs, setLogs] = useState<LLMLogEntry[]>([]);
   const [stats, setStats] = useState<StatsResponse | null>(null);
+  const [costs, setCosts] = useState<CostStatsResponse | null>(null);
+  const [usage, setUsage] = useState<LLMUsageResponse | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [isAdmin, setIsAdmin] = useState(false);
@@ -101,20 +123,20 @@ const LogsPage: React.FC = () => {
       setLoading(true);
       setError(null);
 
-      // Try to load admin logs first
+      // Try to load admin logs first (state updates land after this run, so track it locally)
+      let admin = false;
       try {
         const response = await authenticatedFetch(apiEndpoint('/api/llm-logs/recent?limit=50'));
         if (response.ok) {
           const data: LogsResponse = await response.json();
           setLogs(data.logs);
-          setIsAdmin(true);
+          admin = true;
         } else if (response.status === 403) {
           // Not admin, load user's own logs
           const userResponse = await authenticatedFetch(apiEndpoint('/api/llm-logs/my-logs'));
           if (userResponse.ok) {
             const data: LogsResponse = await userResponse.json();
             setLogs(data.logs);
-            setIsAdmin(false);
           } else {
             throw new Error('Failed to load logs');
           }
@@ -127,19 +149,32 @@ const LogsPage: React.FC = () => {
         if (userResponse.ok) {
           const data: LogsResponse = await userResponse.json();
           setLogs(data.logs);
-          setIsAdmin(false);
         } else {
           throw new Error('Failed to load logs');
         }
       }
+      setIsAdmin(admin);
 
-      // Load stats if admin
-      if (isAdmin) {
-        const statsResponse = await authenticatedFetch(apiEndpoint('/api/llm-logs/stats'));
+      // Load stats and costs if admin, otherwise the user's own usage
+      if (admin) {
+        const [statsResponse, costsResponse] = await Promise.all([
+          authenticatedFetch(apiEndpoint('/api/llm-logs/stats')),
+          authenticatedFetch(apiEndpoint('/api/llm-logs/costs?days=30'))
+        ]);
         if (statsResponse.ok) {
           const statsData: StatsResponse = await statsResponse.json();
           setStats(statsData);
         }
+        if (costsResponse.ok) {
+          const costsData: CostStatsResponse = await costsResponse.json();
+          setCosts(costsData);
+        }
+      } else {
+        const usageResponse = await authenticatedFetch(apiEndpoint('/api/llm-logs/my-usage?days=30'));
+        if (usageResponse.ok) {
+          const usageData: LLMUsageResponse = await usageResponse.json();
+          setUsage(usageData);
+        }
       }
     } catch (err: any) {
       setError(err.message || 'Failed to load logs');
@@ -309,6 +344,8 @@ const LogsPage: React.FC = () => {
       {/* Content */}
       <div className="flex-1 bg-zinc-950 overflow-y-auto">
         <div className="max-w-7xl mx-auto px-4 py-8">
+          {usage && !isAdmin && !loading && <LLMUsagePanel usage={usage} />}
+
           {loading ? (
             <div className="text-center text-gray-400">Loading logs...</div>
           ) : error ? (
@@ -363,6 +400,11 @@ const LogsPage: React.FC = () => {
                         <span className="text-gray-500"> Tokens:</span> {
                           log.llmResponse.usage?.totalTokens || 'N/A'
                         }
+                        {log.llmResponse.costUsd !== undefined && (
+                          <>
+                            {' '}• <span className="text-gray-500"> Cost:</span> {formatUsd(log.llmResponse.costUsd)}
+                          </>
+                        )}
                       </div>
                       
                       {(log.interpretation as any)?.reasoning && (
@@ -576,9 +618,71 @@ const LogsPage: React.FC = () => {
                       ))}
                   </div>
                 </div>
+
+                <div className="bg-zinc-800 rounded-lg p-4">
+                  <h4 className="text-sm text-gray-400 mb-3">Songs Not Found on Spotify</h4>
+                  <div className="space-y-2">
+                    {stats.hallucinationStats && Object.entries(stats.hallucinationStats)
+                      .sort(([,a], [,b]) => b.hallucinationRate - a.hallucinationRate)
+                      .map(([model, modelStats]) => (
+                        <div
+                          key={model}
+                          className="flex justify-between text-sm"
+                          title={`${modelStats.unresolved} of ${modelStats.suggested} suggestions not found, ${modelStats.recovered} replaced after re-prompting`}
+                        >
+                          <span className="text-gray-300 truncate mr-2">{model}</span>
+                          <span className="text-gray-500 flex-shrink-0">{modelStats.hallucinationRate}%</span>
+                        </div>
+                      ))}
+                  </div>
+                </div>
+
+                {stats.promptVersions && Object.keys(stats.promptVersions).length > 0 && (
+                  <div className="bg-zinc-800 rounded-lg p-4 sm:col-span-2 lg:col-span-3">
+                    <h4 className="text-sm text-gray-400 mb-3">Prompt Versions</h4>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="font-normal pb-2">Prompt</th>
+                            <th className="font-normal pb-2">Experiment</th>
+                            <th className="font-normal pb-2 text-right">Queries</th>
+                            <th className="font-normal pb-2 text-right">Success</th>
+                            <th className="font-normal pb-2 text-right">Loved</th>
+                            <th className="font-normal pb-2 text-right">Latency</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {Object.entries(stats.promptVersions)
+                            .sort(([a], [b]) => a.localeCompare(b))
+                            .map(([key, version]) => (
+                              <tr key={key} className="text-gray-300">
+                                <td className="py-1 pr-2 font-mono">{key}</td>
+                                <td className="py-1 pr-2 text-gray-500">
+                                  {stats.promptExperiments?.filter(e => e.promptId === version.id).map(e => e.id).join(', ') || '-'}
+                                </td>
+                                <td className="py-1 text-right text-gray-500">{version.queries}</td>
+                                <td className="py-1 text-right text-gray-500">{version.successRate}%</td>
+                                <td
+                                  className="py-1 text-right text-gray-500"
+                                  title={`${version.loved} loved, ${version.disliked} disliked`}
+                                >
+                                  {version.loveRate !== null ? `${version.loveRate}%` : '-'}
+                                </td>
+                                <td className="py-1 text-right text-gray-500">{version.avgLatency}ms</td>
+                              </tr>
+                            ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
               </div>
             </div>
           )}
+
+          {/* Costs */}
+          {costs && isAdmin && <LLMCostCharts costs={costs} />}
         </div>
       </div>
     </div>
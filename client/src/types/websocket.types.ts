@@ -17,6 +17,17 @@ export interface SpotifyTrack {
   };
 }
 
+// Track in the DJ Forge queue (server ShadowQueueService)
+export interface ShadowQueueItem {
+  id: string;
+  uri: string;
+  name: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+  addedAt: number;
+}
+
 export interface ServerToClientEvents {
   randomString: (data: { 
     value: string; 
@@ -84,10 +95,11 @@ export interface MusicServerToClientEvents {
   }) => void;
   
   queueUpdated: (data: {
-    action: 'added' | 'removed' | 'cleared';
+    action: 'added' | 'removed' | 'moved' | 'cleared';
     tracks?: SpotifyTrack[];
     trackUris?: string[];
     totalItems: number;
+    shadowQueue?: ShadowQueueItem[];
     source: 'user' | 'ai';
     timestamp: number;
   }) => void;
@@ -113,6 +125,29 @@ export interface MusicServerToClientEvents {
     currentDevice: string;
     timestamp: number;
   }) => void;
+  
+  chatDelta: (data: {
+    streamId: string;
+    delta: string;
+    timestamp: number;
+  }) => void;
+  
+  chatComplete: (data: {
+    streamId: string;
+    content: string;
+    model?: string;
+    error?: string;
+    timestamp: number;
+  }) => void;
+  
+  scheduledActionFired: (data: {
+    id: string;
+    action: string;
+    description: string;
+    success: boolean;
+    message: string;
+    timestamp: number;
+  }) => void;
 }
 
 // Events from client to server
@@ -0,0 +1,75 @@
+import { executeCommandPlan, PlanStepResult } from '../llm/plan-executor';
+
+describe('executeCommandPlan', () => {
+  const steps = [
+    { intent: 'play_specific_song', artist: 'Radiohead', track: 'Reckoner' },
+    { intent: 'queue_multiple_songs', songs: [] },
+    { intent: 'set_volume', volume_level: 40 }
+  ];
+
+  const runner = (failing: string[] = []) => jest.fn(async (step: any) => {
+    if (step.intent === 'set_volume' && failing.includes('throw')) {
+      throw new Error('No active device');
+    }
+    return failing.includes(step.intent)
+      ? { success: false, message: `${step.intent} failed` }
+      : { success: true, message: `${step.intent} done` };
+  });
+
+  it('should run every step in order and report per-step results', async () => {
+    const runStep = runner();
+    const reported: PlanStepResult[] = [];
+
+    const result = await executeCommandPlan({ steps }, runStep, r => reported.push(r));
+
+    expect(result.success).toBe(true);
+    expect(result.stoppedEarly).toBe(false);
+    expect(runStep.mock.calls.map(call => call[0].intent)).toEqual(steps.map(s => s.intent));
+    expect(reported.map(r => [r.step, r.intent, r.success])).toEqual([
+      [1, 'play_specific_song', true],
+      [2, 'queue_multiple_songs', true],
+      [3, 'set_volume', true]
+    ]);
+    expect(result.message).toContain('Completed 3 of 3 steps');
+  });
+
+  it('should skip the remaining steps after a failure by default', async () => {
+    const runStep = runner(['queue_multiple_songs']);
+    const reported: PlanStepResult[] = [];
+
+    const result = await executeCommandPlan({ steps }, runStep, r => reported.push(r));
+
+    expect(result.success).toBe(false);
+    expect(result.stoppedEarly).toBe(true);
+    expect(runStep).toHaveBeenCalledTimes(2);
+    expect(reported).toHaveLength(2);
+    expect(result.steps[2]).toMatchObject({ intent: 'set_volume', success: false, skipped: true });
+    expect(result.steps[2].message).toBe('Skipped because step 2 failed');
+  });
+
+  it('should keep going after a failure with the continue policy', async () => {
+    const runStep = runner(['play_specific_song']);
+
+    const result = await executeCommandPlan({ steps, onStepFailure: 'continue' }, runStep);
+
+    expect(runStep).toHaveBeenCalledTimes(3);
+    expect(result.stoppedEarly).toBe(false);
+    expect(result.steps.map(s => s.success)).toEqual([false, true, true]);
+    expect(result.message).toContain('Completed 2 of 3 steps');
+  });
+
+  it('should record a thrown error as a failed step', async () => {
+    const result = await executeCommandPlan({ steps, onStepFailure: 'continue' }, runner(['throw']));
+
+    expect(result.steps[2]).toMatchObject({ success: false, skipped: false, message: 'No active device' });
+  });
+
+  it('should fail an empty plan without running anything', async () => {
+    const runStep = runner();
+
+    const result = await executeCommandPlan({ steps: [] }, runStep);
+
+    expect(result.success).toBe(false);
+    expect(runStep).not.toHaveBeenCalled();
+  });
+});
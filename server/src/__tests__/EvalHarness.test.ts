@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureProvider } from '../llm/providers/FixtureProvider';
+import { LLMOrchestrator } from '../llm/orchestrator';
+import { PromptAdapter } from '../llm/prompts/adapter';
+import { GoldenDataset, loadGoldenDataset, runEvaluation, scoreInterpretation } from '../llm/evaluation/harness';
+import { checkRegressionGate, formatReportMarkdown } from '../llm/evaluation/report';
+
+describe('LLM evaluation harness', () => {
+  let directory: string;
+
+  const dataset: GoldenDataset = {
+    name: 'test-commands',
+    cases: [
+      { id: 'play-queen', command: 'play Bohemian Rhapsody by Queen', expected: { intent: 'play_specific_song', artist: 'Queen', track: 'Bohemian Rhapsody' } },
+      { id: 'volume', command: 'set the volume to 40', expected: { intent: 'set_volume', volume_level: 40 } }
+    ]
+  };
+
+  // Record an answer the way the harness will ask for it
+  const recordAnswer = async (model: string, command: string, answer: object) => {
+    const recorder = new FixtureProvider({ directory, mode: 'record', keyByModel: true });
+    await recorder.record({
+      messages: [
+        { role: 'system', content: PromptAdapter.forModel(model, command, '', '') },
+        { role: 'user', content: command }
+      ],
+      model,
+      response_format: { type: 'json_object' }
+    }, {
+      content: JSON.stringify({ confidence: 0.9, reasoning: 'test', ...answer }),
+      model,
+      provider: 'openrouter',
+      usage: { prompt_tokens: 1000, completion_tokens: 100, total_tokens: 1100 }
+    });
+  };
+
+  const replayingOrchestrator = () => {
+    const orchestrator = new LLMOrchestrator();
+    orchestrator.setFixtureProvider(new FixtureProvider({ directory, mode: 'replay', keyByModel: true }));
+    return orchestrator;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-eval-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should score intents and fields, ignoring case and extra fields', () => {
+    const expected = { intent: 'play_specific_song', artist: 'Queen', track: 'Bohemian Rhapsody' };
+
+    expect(scoreInterpretation(expected, { intent: 'play_specific_song', artist: 'queen ', track: 'Bohemian Rhapsody', album: 'A Night at the Opera' }))
+      .toEqual({ intentCorrect: true, fieldsMatched: 2, fieldsTotal: 2, differences: [] });
+
+    const wrong = scoreInterpretation(expected, { intent: 'queue_specific_song', artist: 'Queen', track: 'Under Pressure' });
+    expect(wrong.intentCorrect).toBe(false);
+    expect(wrong.fieldsMatched).toBe(1);
+    expect(wrong.differences).toHaveLength(2);
+  });
+
+  it('should compare models from replayed fixtures and count missing ones as errors', async () => {
+    await recordAnswer('google/gemini-2.5-flash', 'play Bohemian Rhapsody by Queen', { intent: 'play_specific_song', artist: 'Queen', track: 'Bohemian Rhapsody' });
+    await recordAnswer('google/gemini-2.5-flash', 'set the volume to 40', { intent: 'set_volume', volume_level: 40 });
+    await recordAnswer('openai/gpt-4o-mini', 'play Bohemian Rhapsody by Queen', { intent: 'play_specific_song', artist: 'Queen', track: 'Killer Queen' });
+
+    const report = await runEvaluation(dataset, {
+      models: ['google/gemini-2.5-flash', 'openai/gpt-4o-mini'],
+      orchestrator: replayingOrchestrator(),
+      fixtures: 'replay'
+    });
+
+    const [gemini, gpt] = report.models;
+    expect(gemini).toEqual(expect.objectContaining({ cases: 2, errors: 0, intentAccuracy: 1, fieldAccuracy: 1, totalTokens: 2200 }));
+    expect(gemini.costUsd).toBeGreaterThan(0);
+    // Wrong track on the first case, no fixture for the second
+    expect(gpt).toEqual(expect.objectContaining({ cases: 2, errors: 1, intentAccuracy: 0.5, fieldAccuracy: 1 / 3 }));
+
+    const markdown = formatReportMarkdown(report);
+    expect(markdown).toContain('| google/gemini-2.5-flash | 100.0% | 100.0% |');
+    expect(markdown).toContain('`volume`: error: No LLM fixture recorded');
+
+    const gate = checkRegressionGate(report, { minIntentAccuracy: 0.9 });
+    expect(gate.passed).toBe(false);
+    expect(gate.failures).toEqual(['openai/gpt-4o-mini: intent accuracy 50.0% is below 90.0%']);
+  });
+
+  it('should fail the gate when a model falls below its baseline', async () => {
+    await recordAnswer('google/gemini-2.5-flash', 'play Bohemian Rhapsody by Queen', { intent: 'play_specific_song', artist: 'Queen', track: 'Bohemian Rhapsody' });
+    await recordAnswer('google/gemini-2.5-flash', 'set the volume to 40', { intent: 'set_volume', volume_level: 30 });
+
+    const report = await runEvaluation(dataset, { models: ['google/gemini-2.5-flash'], orchestrator: replayingOrchestrator() });
+    const baseline = { ...report, models: [{ ...report.models[0], fieldAccuracy: 1 }] };
+
+    expect(checkRegressionGate(report, { baseline, tolerance: 0.5 }).passed).toBe(true);
+    expect(checkRegressionGate(report, { baseline }).failures).toEqual(['google/gemini-2.5-flash: field accuracy fell from 100.0% to 66.7%']);
+  });
+
+  it('should ship a valid golden dataset', () => {
+    const golden = loadGoldenDataset(path.join(__dirname, '../llm/evaluation/datasets/core-commands.json'));
+    expect(golden.cases.length).toBeGreaterThanOrEqual(20);
+  });
+});
@@ -0,0 +1,145 @@
+import { recoverUnresolvedSongs, parseReplacementSongs, getHallucinationRetryBudget } from '../llm/hallucination-recovery';
+import { TrackResolver } from '../services/TrackResolver';
+import { LLMLoggingService } from '../services/llm-logging.service';
+import { FakeMusicBackend } from '../spotify/fake-backend';
+import { createFakeRedis } from './helpers/redis';
+
+const reply = (songs: any[]) => ({ content: JSON.stringify({ songs }), model: 'test-model', provider: 'test' } as any);
+
+describe('recoverUnresolvedSongs', () => {
+  let resolver: TrackResolver;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    resolver = new TrackResolver(new FakeMusicBackend());
+  });
+
+  const recover = (complete: jest.Mock, retryBudget = 1) => recoverUnresolvedSongs({
+    command: 'queue some grunge',
+    model: 'test-model',
+    unresolved: [
+      { artist: 'Nirvana', track: 'Teen Spirit Forever' },
+      { artist: 'Nine Inch Nails', track: 'Closer to Hurt' }
+    ],
+    tried: [{ artist: 'Nirvana', track: 'Come as You Are' }],
+    resolve: song => resolver.resolve(song),
+    complete,
+    retryBudget
+  });
+
+  it('should ask the same model for replacements and resolve them', async () => {
+    const complete = jest.fn(async () => reply([
+      { replaces: 2, artist: 'Nine Inch Nails', track: 'Hurt' },
+      { replaces: 1, artist: 'Nirvana', track: 'Smells Like Teen Spirit' }
+    ]));
+
+    const result = await recover(complete);
+
+    expect(result.recovered.map(r => [r.original.track, r.resolution.match?.track.uri])).toEqual([
+      ['Teen Spirit Forever', 'spotify:track:fake-teen-spirit'],
+      ['Closer to Hurt', 'spotify:track:fake-hurt']
+    ]);
+    expect(result).toMatchObject({ unresolved: [], rounds: 1, suggested: 2, hallucinated: 0 });
+
+    const request = (complete.mock.calls[0] as any[])[0];
+    expect(request.model).toBe('test-model');
+    expect(request.fallbackChain).toEqual(['test-model']);
+    expect(request.messages[1].content).toContain('1. "Teen Spirit Forever" by Nirvana');
+    expect(request.messages[1].content).toContain('- "Come as You Are" by Nirvana');
+  });
+
+  it('should stop at the retry budget and report what is still missing', async () => {
+    const replies = () => jest.fn()
+      .mockResolvedValueOnce(reply([
+        { replaces: 1, artist: 'Nirvana', track: 'Smells Like Teen Spirit' },
+        { replaces: 2, artist: 'Nine Inch Nails', track: 'Closer to God' }
+      ]))
+      .mockResolvedValueOnce(reply([{ replaces: 1, artist: 'Nine Inch Nails', track: 'Closer' }]));
+
+    const once = await recover(replies(), 1);
+    expect(once.recovered).toHaveLength(1);
+    expect(once.unresolved).toEqual([{ artist: 'Nine Inch Nails', track: 'Closer to God' }]);
+    expect(once.hallucinated).toBe(1);
+
+    const complete = replies();
+    const twice = await recover(complete, 2);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(twice.recovered.map(r => r.replacement.track)).toEqual(['Smells Like Teen Spirit', 'Closer']);
+    expect(twice.unresolved).toEqual([]);
+  });
+
+  it('should keep going when looking up one replacement fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const complete = jest.fn(async () => reply([
+      { replaces: 1, artist: 'Nirvana', track: 'Smells Like Teen Spirit' },
+      { replaces: 2, artist: 'Nine Inch Nails', track: 'Hurt' }
+    ]));
+    const resolve = jest.spyOn(resolver, 'resolve').mockRejectedValueOnce(new Error('Spotify is down'));
+
+    const result = await recover(complete);
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+    expect(result.recovered.map(r => r.replacement.track)).toEqual(['Hurt']);
+    expect(result.unresolved).toEqual([{ artist: 'Nirvana', track: 'Teen Spirit Forever' }]);
+    expect(result.hallucinated).toBe(0);
+  });
+
+  it('should not send anything with a zero budget or accept songs already tried', async () => {
+    const none = jest.fn();
+    expect((await recover(none, 0)).unresolved).toHaveLength(2);
+    expect(none).not.toHaveBeenCalled();
+
+    const repeats = jest.fn(async () => reply([{ replaces: 1, artist: 'Nirvana', track: 'Come as You Are' }]));
+    const result = await recover(repeats);
+    expect(result.recovered).toEqual([]);
+    expect(result.suggested).toBe(0);
+  });
+
+  it('should parse replacements by number or list order', () => {
+    const parsed = parseReplacementSongs(JSON.stringify({ songs: [
+      { artist: 'Queen', track: 'Somebody to Love' },
+      { replaces: 3, artist: 'Queen', track: 'Bohemian Rhapsody', album: 'A Night at the Opera' },
+      { replaces: 9, artist: 'Queen', track: 'Out of range' },
+      { artist: '', track: 'No artist' }
+    ] }), 3);
+
+    expect(Object.fromEntries(parsed)).toEqual({
+      0: { artist: 'Queen', track: 'Somebody to Love' },
+      2: { artist: 'Queen', track: 'Bohemian Rhapsody', album: 'A Night at the Opera' }
+    });
+    expect(parseReplacementSongs('not json', 2).size).toBe(0);
+  });
+
+  it('should read the retry budget from the environment', () => {
+    const original = process.env.LLM_HALLUCINATION_RETRIES;
+    try {
+      delete process.env.LLM_HALLUCINATION_RETRIES;
+      expect(getHallucinationRetryBudget()).toBe(1);
+      process.env.LLM_HALLUCINATION_RETRIES = '0';
+      expect(getHallucinationRetryBudget()).toBe(0);
+      process.env.LLM_HALLUCINATION_RETRIES = '50';
+      expect(getHallucinationRetryBudget()).toBe(3);
+    } finally {
+      if (original === undefined) delete process.env.LLM_HALLUCINATION_RETRIES;
+      else process.env.LLM_HALLUCINATION_RETRIES = original;
+    }
+  });
+});
+
+describe('LLMLoggingService hallucination stats', () => {
+  it('should aggregate per-model rates across days', async () => {
+    const service = new LLMLoggingService(createFakeRedis());
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    await service.recordTrackVerification('google/gemini-2.5-flash', { suggested: 8, unresolved: 2, recovered: 2 }, yesterday);
+    await service.recordTrackVerification('google/gemini-2.5-flash', { suggested: 2, unresolved: 0 });
+    await service.recordTrackVerification('deepseek/deepseek-r1:free', { suggested: 4, unresolved: 3, recovered: 1 });
+
+    const stats = await service.getHallucinationStats(yesterday);
+
+    expect(stats).toEqual({
+      'google/gemini-2.5-flash': { suggested: 10, unresolved: 2, recovered: 2, hallucinationRate: 20 },
+      'deepseek/deepseek-r1:free': { suggested: 4, unresolved: 3, recovered: 1, hallucinationRate: 75 }
+    });
+  });
+});
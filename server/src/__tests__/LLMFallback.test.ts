@@ -0,0 +1,136 @@
+import { CircuitBreaker } from '../llm/circuit-breaker';
+import { LLMOrchestrator, LLMRequest, LLMResponse } from '../llm/orchestrator';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    breaker = new CircuitBreaker('test-provider', { failureThreshold: 2, cooldownMs: 1000 }, () => now);
+  });
+
+  it('should open after consecutive failures and reject requests', () => {
+    breaker.recordFailure('error');
+    expect(breaker.canRequest()).toBe(true);
+
+    breaker.recordFailure('timeout');
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canRequest()).toBe(false);
+    expect(breaker.getSnapshot().lastFailureKind).toBe('timeout');
+  });
+
+  it('should reset the failure count on success', () => {
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should allow a single trial request after the cooldown', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 1000;
+    expect(breaker.canRequest()).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canRequest()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should re-open when the trial request fails', () => {
+    breaker.recordFailure();
+    breaker.recordFailure();
+
+    now = 1500;
+    breaker.canRequest();
+    breaker.recordFailure();
+
+    expect(breaker.getState()).toBe('open');
+    now = 2000;
+    expect(breaker.canRequest()).toBe(false);
+  });
+});
+
+describe('LLMOrchestrator fallback chains', () => {
+  const PROVIDERS: Record<string, string> = {
+    'google/gemini-2.5-flash': 'gemini-direct',
+    'anthropic/claude-sonnet-4': 'openrouter',
+    'gpt-5-mini': 'openai-direct'
+  };
+
+  const request: LLMRequest = {
+    messages: [{ role: 'user', content: 'play some queen' }],
+    model: 'google/gemini-2.5-flash'
+  };
+
+  let orchestrator: LLMOrchestrator;
+  let failingModels: Set<string>;
+  let callModel: jest.SpyInstance;
+
+  beforeEach(() => {
+    orchestrator = new LLMOrchestrator();
+    orchestrator.setFixtureProvider(null);
+    orchestrator.setFallbackChain(['anthropic/claude-sonnet-4', 'gpt-5-mini']);
+    failingModels = new Set();
+
+    jest.spyOn(orchestrator as any, 'getProviderKey').mockImplementation((...args: unknown[]) => PROVIDERS[args[0] as string] || null);
+    callModel = jest.spyOn(orchestrator as any, 'callModel').mockImplementation(async (...args: unknown[]): Promise<LLMResponse> => {
+      const model = args[0] as string;
+      if (failingModels.has(model)) {
+        throw new Error(`${model} unavailable`);
+      }
+      return { content: 'ok', model, provider: PROVIDERS[model] };
+    });
+  });
+
+  it('should use the requested model when it succeeds', async () => {
+    const response = await orchestrator.complete(request);
+
+    expect(response.fallbackUsed).toBe(false);
+    expect(response.actualModel).toBe('google/gemini-2.5-flash');
+  });
+
+  it('should fall back in order and report the model that answered', async () => {
+    failingModels.add('google/gemini-2.5-flash');
+
+    const response = await orchestrator.complete(request);
+
+    expect(response.fallbackUsed).toBe(true);
+    expect(response.actualModel).toBe('anthropic/claude-sonnet-4');
+    expect(callModel.mock.calls.map(call => call[0])).toEqual(['google/gemini-2.5-flash', 'anthropic/claude-sonnet-4']);
+  });
+
+  it('should prefer the per-request chain over the global chain', async () => {
+    failingModels.add('google/gemini-2.5-flash');
+
+    const response = await orchestrator.complete({ ...request, fallbackChain: ['gpt-5-mini'] });
+
+    expect(response.actualModel).toBe('gpt-5-mini');
+  });
+
+  it('should skip providers whose circuit is open', async () => {
+    failingModels.add('google/gemini-2.5-flash');
+    for (let i = 0; i < 3; i++) {
+      await orchestrator.complete(request);
+    }
+    callModel.mockClear();
+
+    const response = await orchestrator.complete(request);
+
+    expect(callModel.mock.calls.map(call => call[0])).toEqual(['anthropic/claude-sonnet-4']);
+    expect(response.fallbackUsed).toBe(true);
+    expect(orchestrator.getCircuitBreakerStates().find(b => b.name === 'gemini-direct')?.state).toBe('open');
+  });
+
+  it('should report every failure when the whole chain fails', async () => {
+    Object.keys(PROVIDERS).forEach(model => failingModels.add(model));
+
+    await expect(orchestrator.complete(request)).rejects.toThrow(
+      'google/gemini-2.5-flash failed: google/gemini-2.5-flash unavailable (fallbacks failed: anthropic/claude-sonnet-4: anthropic/claude-sonnet-4 unavailable; gpt-5-mini: gpt-5-mini unavailable)'
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import { Readable } from 'stream';
+import axios from 'axios';
+import { LLMOrchestrator, LLMRequest } from '../llm/orchestrator';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  return { ...actual, post: jest.fn(), isAxiosError: actual.isAxiosError };
+});
+
+const mockedPost = axios.post as jest.Mock;
+
+function sse(...events: Array<object | string>): Readable {
+  const lines = events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+  // Split mid-line to make sure partial chunks are buffered correctly
+  const body = ': OPENROUTER PROCESSING\n\n' + lines.join('');
+  const middle = Math.floor(body.length / 2);
+  return Readable.from([Buffer.from(body.slice(0, middle)), Buffer.from(body.slice(middle))]);
+}
+
+describe('LLMOrchestrator.completeStream', () => {
+  const originalEnv = { ...process.env };
+
+  const request: LLMRequest = {
+    messages: [
+      { role: 'system', content: 'You are a music assistant. Respond with plain text, not JSON.' },
+      { role: 'user', content: 'who produced Nevermind?' }
+    ],
+    model: 'anthropic/claude-sonnet-4'
+  };
+
+  let orchestrator: LLMOrchestrator;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv, OPENROUTER_API_KEY: 'test-key' };
+    delete process.env.GEMINI_API_KEY;
+    delete process.env.OPENAI_API_KEY;
+    delete process.env.LLM_FIXTURE_MODE;
+    mockedPost.mockReset();
+    orchestrator = new LLMOrchestrator();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should forward OpenRouter deltas as they arrive', async () => {
+    mockedPost.mockResolvedValue({
+      data: sse(
+        { model: 'anthropic/claude-sonnet-4', choices: [{ delta: { content: 'Butch ' } }] },
+        { choices: [{ delta: { content: 'Vig produced it.' } }] },
+        { choices: [{ delta: {} }], usage: { prompt_tokens: 30, completion_tokens: 6, total_tokens: 36 } },
+        '[DONE]'
+      )
+    });
+
+    const deltas: string[] = [];
+    const response = await orchestrator.completeStream(request, delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Butch ', 'Vig produced it.']);
+    expect(response.content).toBe('Butch Vig produced it.');
+    expect(response.flow).toBe('openrouter');
+    expect(response.usage?.total_tokens).toBe(36);
+    expect(mockedPost.mock.calls[0][1].stream).toBe(true);
+  });
+
+  it('should fall back to a regular completion when streaming fails up front', async () => {
+    mockedPost
+      .mockRejectedValueOnce(new Error('stream unavailable'))
+      .mockResolvedValueOnce({
+        data: {
+          model: 'anthropic/claude-sonnet-4',
+          choices: [{ message: { content: 'Butch Vig produced it.' } }]
+        }
+      });
+
+    const deltas: string[] = [];
+    const response = await orchestrator.completeStream(request, delta => deltas.push(delta));
+
+    expect(deltas).toEqual(['Butch Vig produced it.']);
+    expect(response.content).toBe('Butch Vig produced it.');
+    expect(mockedPost).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,150 @@
+import { Readable } from 'stream';
+import axios from 'axios';
+import { z } from 'zod';
+import { LocalProvider, createLocalProviderFromEnv } from '../llm/providers/LocalProvider';
+import { LLMOrchestrator, LLMRequest } from '../llm/orchestrator';
+import { estimateCost } from '../llm/pricing';
+
+jest.mock('axios', () => {
+  const actual = jest.requireActual('axios');
+  return { ...actual, post: jest.fn(), isAxiosError: actual.isAxiosError };
+});
+
+const mockedPost = axios.post as jest.Mock;
+
+function completion(content: string) {
+  return {
+    data: {
+      model: 'qwen3:14b',
+      choices: [{ message: { content } }],
+      usage: { prompt_tokens: 900, completion_tokens: 40, total_tokens: 940 }
+    }
+  };
+}
+
+describe('LocalProvider', () => {
+  const command: LLMRequest = {
+    messages: [
+      { role: 'system', content: 'You are a music assistant.' },
+      { role: 'user', content: 'play bohemian rhapsody' }
+    ],
+    model: 'local/qwen3:14b',
+    response_format: { type: 'json_object' }
+  };
+
+  beforeEach(() => {
+    mockedPost.mockReset();
+  });
+
+  it('should prompt for JSON and repair the answer without native schemas', async () => {
+    mockedPost.mockResolvedValue(completion(
+      'Sure!\n```json\n{"intent": "play_specific_song", "artist": "Queen", "track": "Bohemian Rhapsody", "confidence": 85, "reasoning": "Exact song"}\n```'
+    ));
+    const provider = new LocalProvider({ baseURL: 'http://localhost:11434/v1/', models: ['qwen3:14b'] });
+
+    const response = await provider.complete(command);
+
+    const [url, body] = mockedPost.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(body.model).toBe('qwen3:14b');
+    expect(body.response_format).toBeUndefined();
+    expect(body.messages[0].content).toContain('valid JSON');
+    expect(JSON.parse(response.content)).toMatchObject({ intent: 'play_specific_song', artist: 'Queen', confidence: 0.85 });
+    expect(response.model).toBe('local/qwen3:14b');
+    expect(response.processingSteps?.map(step => step.step)).toContain('validateAndRepair');
+  });
+
+  it('should send native schemas when structured output is supported', async () => {
+    const provider = new LocalProvider({
+      baseURL: 'http://localhost:8000/v1',
+      models: ['qwen3:14b'],
+      capabilities: { jsonMode: true, structuredOutput: true }
+    });
+
+    mockedPost.mockResolvedValue(completion('{"intent": "pause", "confidence": 1, "reasoning": "Pause"}'));
+    await provider.complete(command);
+    expect(mockedPost.mock.calls[0][1].response_format).toMatchObject({ type: 'json_schema', json_schema: { name: 'music_command' } });
+
+    mockedPost.mockResolvedValue(completion('{"names": ["Grunge"]}'));
+    const schema = z.object({ names: z.array(z.string()) });
+    const response = await provider.complete({ ...command, schema, skipValidation: true });
+    expect(mockedPost.mock.calls[1][1].response_format.json_schema.name).toBe('response');
+    expect(JSON.parse(response.content)).toEqual({ names: ['Grunge'] });
+  });
+
+  it('should reject answers that fail the request schema', async () => {
+    mockedPost.mockResolvedValue(completion('{"names": "Grunge"}'));
+    const provider = new LocalProvider({ baseURL: 'http://localhost:11434/v1', models: ['qwen3:14b'], capabilities: { jsonMode: true } });
+
+    await expect(provider.complete({ ...command, schema: z.object({ names: z.array(z.string()) }), skipValidation: true }))
+      .rejects.toThrow('failed schema validation');
+    expect(mockedPost.mock.calls[0][1].response_format).toEqual({ type: 'json_object' });
+  });
+
+  it('should forward reasoning effort and hide thinking from reasoning models', async () => {
+    const provider = new LocalProvider({ baseURL: 'http://localhost:11434/v1', models: ['qwen3:14b'], capabilities: { reasoning: true } });
+
+    mockedPost.mockResolvedValue(completion('<think>The user wants Queen.</think>\nButch Vig produced Nevermind.'));
+    const response = await provider.complete({ ...command, response_format: undefined, reasoning_effort: 'low' });
+    expect(mockedPost.mock.calls[0][1].reasoning_effort).toBe('low');
+    expect(response.content).toBe('Butch Vig produced Nevermind.');
+
+    const events = [
+      { choices: [{ delta: { content: '<think>Hmm' } }] },
+      { choices: [{ delta: { content: ' ok</think> Butch ' } }] },
+      { choices: [{ delta: { content: 'Vig.' } }] }
+    ];
+    mockedPost.mockResolvedValue({
+      data: Readable.from([Buffer.from(events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n')])
+    });
+    const deltas: string[] = [];
+    const streamed = await provider.stream({ ...command, response_format: undefined }, delta => deltas.push(delta));
+    expect(deltas).toEqual(['Butch ', 'Vig.']);
+    expect(streamed.content).toBe('Butch Vig.');
+  });
+
+  it('should be configured from LOCAL_LLM_* env vars', () => {
+    expect(createLocalProviderFromEnv({})).toBeNull();
+
+    const provider = createLocalProviderFromEnv({
+      LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1',
+      LOCAL_LLM_MODELS: 'qwen3:14b, llama3.1:8b',
+      LOCAL_LLM_STRUCTURED_OUTPUT: 'true'
+    });
+    expect(provider?.models).toEqual(['local/qwen3:14b', 'local/llama3.1:8b']);
+    expect(provider?.capabilities).toEqual({ jsonMode: false, structuredOutput: true, reasoning: false });
+  });
+});
+
+describe('LLMOrchestrator with a local provider', () => {
+  let orchestrator: LLMOrchestrator;
+
+  beforeEach(() => {
+    mockedPost.mockReset();
+    orchestrator = new LLMOrchestrator();
+    orchestrator.setFixtureProvider(null);
+    orchestrator.setFallbackChain([]);
+    orchestrator.setLocalProvider(new LocalProvider({ baseURL: 'http://localhost:11434/v1', models: ['qwen3:14b'] }));
+  });
+
+  it('should route local models to the local server', async () => {
+    mockedPost.mockResolvedValue(completion('{"intent": "pause", "confidence": 1, "reasoning": "Pause"}'));
+
+    const response = await orchestrator.complete({
+      messages: [{ role: 'user', content: 'pause' }],
+      model: 'local/qwen3:14b',
+      response_format: { type: 'json_object' }
+    });
+
+    expect(response.flow).toBe('local');
+    expect(orchestrator.getAvailableModels()).toContain('local/qwen3:14b');
+    expect(orchestrator.getProviderInfo('local/qwen3:14b')).toEqual({ provider: 'local', isDirect: true, supportsGrounding: false });
+    expect(estimateCost(response.model, response.usage)).toBe(0);
+  });
+
+  it('should not serve local models that are not configured', async () => {
+    await expect(orchestrator.complete({ messages: [{ role: 'user', content: 'pause' }], model: 'local/gemini-2.5-flash' }))
+      .rejects.toThrow('No provider found for model: local/gemini-2.5-flash');
+    expect(mockedPost).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import { PromptRegistry, PromptExperiment, assignVariant, getPromptRegistry } from '../llm/prompts/registry';
+import { PromptAdapter } from '../llm/prompts/adapter';
+import { UNIFIED_MUSIC_PROMPT } from '../llm/prompts/unified-prompt';
+import { LLMLoggingService, LLMLogEntry } from '../services/llm-logging.service';
+import { createFakeRedis, FakeRedis } from './helpers/redis';
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  const experiment: PromptExperiment = {
+    id: 'interpreter-ab',
+    promptId: 'interpreter',
+    variants: [{ version: 'v1' }, { version: 'v2' }]
+  };
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+    registry.register({ id: 'interpreter', version: 'v1', description: 'Original', content: UNIFIED_MUSIC_PROMPT });
+    registry.register({ id: 'interpreter', version: 'v2', description: 'Shorter base', content: { ...UNIFIED_MUSIC_PROMPT, base: 'You control Spotify.' } });
+  });
+
+  it('should serve the latest version when no experiment runs', () => {
+    const resolved = registry.resolve('interpreter', { userId: 'user-1' });
+
+    expect(resolved.stamp).toEqual({ id: 'interpreter', version: 'v2' });
+    expect(registry.get('interpreter', 'v1').content).toBe(UNIFIED_MUSIC_PROMPT);
+    expect(() => registry.register({ id: 'interpreter', version: 'v1', description: 'Again', content: UNIFIED_MUSIC_PROMPT })).toThrow();
+  });
+
+  it('should keep a user on one variant and split users across variants', () => {
+    registry.setExperiments([experiment]);
+
+    const first = registry.resolve('interpreter', { userId: 'user-1' });
+    expect(first.stamp.experiment).toBe('interpreter-ab');
+    expect(registry.resolve('interpreter', { userId: 'user-1', sessionId: 'other' }).stamp).toEqual(first.stamp);
+
+    const versions = new Set(Array.from({ length: 50 }, (_, i) => assignVariant(experiment, `user-${i}`)));
+    expect(versions).toEqual(new Set(['v1', 'v2']));
+    expect(assignVariant({ ...experiment, variants: [{ version: 'v1', weight: 0 }, { version: 'v2' }] }, 'user-1')).toBe('v2');
+  });
+
+  it('should assign by session when asked, and fall back to the default without one', () => {
+    registry.setExperiments([{ ...experiment, assignBy: 'session' }]);
+
+    expect(registry.resolve('interpreter', { userId: 'user-1' }).stamp).toEqual({ id: 'interpreter', version: 'v2' });
+    expect(registry.resolve('interpreter', { sessionId: 'session-1' }).stamp.experiment).toBe('interpreter-ab');
+  });
+
+  it('should reject experiments on unknown versions', () => {
+    expect(() => registry.setExperiments([{ ...experiment, variants: [{ version: 'v3' }] }])).toThrow('Unknown prompt interpreter@v3');
+    expect(registry.getExperiments()).toEqual([]);
+  });
+
+  it('should build interpreter prompts from the resolved version', () => {
+    const v2 = registry.get('interpreter', 'v2').content;
+
+    expect(PromptAdapter.forModel('google/gemini-2.5-flash', 'play queen', '', '', { prompt: v2 })).toContain('You control Spotify.');
+    expect(PromptAdapter.forModel('google/gemini-2.5-flash', 'play queen')).toContain(UNIFIED_MUSIC_PROMPT.base);
+  });
+
+  it('should register every built-in prompt', () => {
+    const shared = getPromptRegistry();
+    const selection = shared.get('playlist-selection').content.build({
+      query: '90s rock',
+      playlists: [{ id: 'p1', name: 'Grunge', description: '', owner: 'me', trackCount: 40, followers: 10, isPublic: true }],
+      maxSelected: 10,
+      minSelected: 5,
+      aimFor: '8-10'
+    });
+
+    expect(selection).toContain('select up to 10 that best match the user\'s intent: "90s rock"');
+    expect(selection).toContain('ID: p1');
+    for (const id of ['interpreter', 'conversational', 'playlist-summary', 'playlist-assessment'] as const) {
+      expect(shared.listVersions(id).length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe('Prompt version stats', () => {
+  const stamp = { id: 'interpreter', version: 'v2', experiment: 'interpreter-ab' };
+
+  const logEntry = (success: boolean, latency: number): Omit<LLMLogEntry, 'id'> => ({
+    timestamp: Date.now(),
+    userId: 'hashed',
+    sessionId: 'session-1',
+    command: 'play something',
+    interpretation: {},
+    llmRequest: { model: 'google/gemini-2.5-flash', provider: 'openrouter', flow: 'openrouter', messages: [], temperature: 0.7 },
+    llmResponse: { content: '{}', latency },
+    result: { success, message: success ? 'ok' : 'failed' },
+    prompts: [stamp]
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('should compare success, latency and love rate per version', async () => {
+    const logging = new LLMLoggingService(createFakeRedis());
+    await logging.logInteraction(logEntry(true, 400));
+    await logging.logInteraction(logEntry(true, 600));
+    await logging.logInteraction(logEntry(false, 800));
+
+    await logging.recordPromptFeedback([stamp], 'loved');
+    await logging.recordPromptFeedback([stamp], 'loved');
+    // Changing a rating moves it rather than counting it twice
+    await logging.recordPromptFeedback([stamp], 'blocked', 'loved');
+    await logging.recordPromptFeedback([stamp], 'loved', 'loved');
+
+    const stats = await logging.getPromptVersionStats(new Date());
+    expect(stats['interpreter@v2']).toEqual({
+      id: 'interpreter',
+      version: 'v2',
+      queries: 3,
+      successRate: 66.7,
+      avgLatency: 600,
+      loved: 1,
+      disliked: 1,
+      loveRate: 50
+    });
+  });
+
+  it('should leave the love rate empty until something is rated', async () => {
+    const logging = new LLMLoggingService(createFakeRedis());
+    await logging.logInteraction(logEntry(true, 400));
+    await logging.recordPromptFeedback([stamp], 'loved');
+    await logging.recordPromptFeedback([stamp], null, 'loved');
+
+    const stats = await logging.getPromptVersionStats(new Date());
+    expect(stats['interpreter@v2'].loveRate).toBeNull();
+  });
+
+  it('should take changed feedback off the day it was counted', async () => {
+    const logging = new LLMLoggingService(createFakeRedis());
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    await logging.recordPromptFeedback([stamp], 'loved', null, undefined, yesterday);
+    await logging.recordPromptFeedback([stamp], 'disliked', 'loved', yesterday.getTime());
+
+    const today = await logging.getPromptVersionStats(new Date());
+    expect(today['interpreter@v2']).toMatchObject({ loved: 0, disliked: 1 });
+    const both = await logging.getPromptVersionStats(yesterday);
+    expect(both['interpreter@v2']).toMatchObject({ loved: 0, disliked: 1 });
+  });
+});
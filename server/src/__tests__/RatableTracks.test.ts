@@ -0,0 +1,87 @@
+import { collectRatableTracks } from '../utils/ratableTracks';
+import { SpotifyControl } from '../spotify/control';
+import { FakeMusicBackend } from '../spotify/fake-backend';
+import { UserDataService } from '../services/UserDataService';
+import { testTokens } from './helpers/spotify';
+import { createFakeRedis } from './helpers/redis';
+
+const NOW = 1_700_000_000_000;
+
+describe('collectRatableTracks', () => {
+  let control: SpotifyControl;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    control = new SpotifyControl(testTokens, () => {}, new FakeMusicBackend());
+  });
+
+  it('should record an AI pick as primary and its alternatives', async () => {
+    const interpretation = { isAIDiscovery: true, aiReasoning: 'Operatic rock', artist: 'Queen', track: 'Bohemian Rhapsody' };
+    const result = await control.searchAndPlay('artist:"Queen" track:"Bohemian Rhapsody"', 'Queen', 'Bohemian Rhapsody');
+    Object.assign(result, {
+      alternatives: [
+        { name: 'Somebody to Love', artists: 'Queen', popularity: 80, uri: 'spotify:track:fake-somebody', aiReasoning: 'More Queen' },
+        { name: 'Queen Essentials', artists: '', popularity: 0, uri: 'spotify:playlist:fake-queen-best' }
+      ],
+      alternativesFromModel: true
+    });
+
+    const tracks = collectRatableTracks(interpretation, result, NOW);
+
+    expect(tracks).toEqual([
+      expect.objectContaining({
+        trackUri: 'spotify:track:fake-bohemian',
+        artist: 'Queen',
+        reasoning: 'Operatic rock',
+        provenance: { source: 'primary' }
+      }),
+      expect.objectContaining({
+        trackUri: 'spotify:track:fake-somebody',
+        reasoning: 'More Queen',
+        provenance: { source: 'alternative', alternativeTo: 'Bohemian Rhapsody by Queen' }
+      })
+    ]);
+  });
+
+  it('should record a fallback even when the user asked for the song', async () => {
+    const interpretation = { isAIDiscovery: false, artist: 'Nirvana', track: 'Teen Spirit Forever' };
+    const result = {
+      success: true,
+      track: { name: 'Smells Like Teen Spirit', uri: 'spotify:track:fake-teen-spirit', artists: [{ name: 'Nirvana' }] },
+      retryLevel: 1,
+      replacedSuggestion: { artist: 'Nirvana', track: 'Teen Spirit Forever' }
+    };
+
+    expect(collectRatableTracks(interpretation, result, NOW)).toEqual([expect.objectContaining({
+      trackUri: 'spotify:track:fake-teen-spirit',
+      reasoning: 'Stood in for Teen Spirit Forever by Nirvana',
+      provenance: { source: 'fallback', retryLevel: 1, requested: 'Teen Spirit Forever by Nirvana' }
+    })]);
+  });
+
+  it('should leave songs the user named alone', async () => {
+    const interpretation = { isAIDiscovery: false, artist: 'Queen', track: 'Bohemian Rhapsody' };
+    const result = await control.searchAndPlay('artist:"Queen" track:"Bohemian Rhapsody"', 'Queen', 'Bohemian Rhapsody');
+
+    expect(result.isFallback).toBe(false);
+    // The resolver's other candidates aren't suggestions
+    const withCandidates = { ...result, alternatives: [{ name: 'Somebody to Love', artists: 'Queen', popularity: 80, uri: 'spotify:track:fake-somebody' }] };
+    expect(collectRatableTracks(interpretation, withCandidates, NOW)).toEqual([]);
+    expect(collectRatableTracks(interpretation, { success: false }, NOW)).toEqual([]);
+  });
+});
+
+describe('UserDataService.recordAIDiscovery', () => {
+  it('should keep the first record of a track and its feedback', async () => {
+    const redis = createFakeRedis();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const userData = new UserDataService(redis, new FakeMusicBackend(), 'user-1');
+    const track = { trackUri: 'spotify:track:fake-hurt', trackName: 'Hurt', artist: 'Nine Inch Nails', discoveredAt: NOW, reasoning: '' };
+
+    expect(await userData.recordAIDiscovery({ ...track, feedback: 'loved', provenance: { source: 'primary' } })).toBe(true);
+    expect(await userData.recordAIDiscovery({ ...track, provenance: { source: 'alternative' } })).toBe(false);
+
+    expect(redis.lists.get('user:user-1:ai_discoveries')!.map(item => JSON.parse(item))).toEqual([expect.objectContaining({ feedback: 'loved', provenance: { source: 'primary' } })]);
+    expect(redis.lTrim).toHaveBeenCalledWith('user:user-1:ai_discoveries', 0, 499);
+  });
+});
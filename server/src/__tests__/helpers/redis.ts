@@ -0,0 +1,113 @@
+import { jest } from '@jest/globals';
+
+type ZMember = { score: number; value: string };
+
+/**
+ * In-memory stand-in for the parts of the node-redis v4 API the services use.
+ * The backing maps are exposed so tests can seed or inspect state directly.
+ */
+export function createFakeRedis() {
+  const strings = new Map<string, string>();
+  const lists = new Map<string, string[]>();
+  const sets = new Map<string, Set<string>>();
+  const hashes = new Map<string, Map<string, string>>();
+  const zsets = new Map<string, Map<string, number>>();
+
+  const list = (key: string) => lists.get(key) || lists.set(key, []).get(key)!;
+  const set = (key: string) => sets.get(key) || sets.set(key, new Set()).get(key)!;
+  const hash = (key: string) => hashes.get(key) || hashes.set(key, new Map()).get(key)!;
+  const zset = (key: string) => zsets.get(key) || zsets.set(key, new Map()).get(key)!;
+  const sorted = (key: string): ZMember[] => Array.from(zset(key).entries())
+    .map(([value, score]) => ({ value, score }))
+    .sort((a, b) => a.score - b.score);
+  const bound = (value: any) => value === '-inf' ? -Infinity : value === '+inf' ? Infinity : Number(value);
+  const slice = <T>(items: T[], start: number, stop: number) => items.slice(start, stop === -1 ? undefined : stop + 1);
+  const increment = async (key: string, field: string, by: number) => {
+    const value = (parseFloat(hash(key).get(field) || '') || 0) + by;
+    hash(key).set(field, String(value));
+    return value;
+  };
+
+  const zRangeMembers = (key: string, start: any, stop: any, options?: any): ZMember[] => {
+    if (options?.BY !== 'SCORE') {
+      return slice(options?.REV ? sorted(key).reverse() : sorted(key), start, stop);
+    }
+    const [max, min] = options.REV ? [bound(start), bound(stop)] : [bound(stop), bound(start)];
+    let members = sorted(key).filter(member => member.score >= min && member.score <= max);
+    if (options.REV) members = members.reverse();
+    if (options.LIMIT) members = members.slice(options.LIMIT.offset, options.LIMIT.offset + options.LIMIT.count);
+    return members;
+  };
+
+  return {
+    strings,
+    lists,
+    sets,
+    hashes,
+    zsets,
+    isOpen: true,
+
+    get: jest.fn(async (key: string) => strings.get(key) ?? null),
+    set: jest.fn(async (key: string, value: string) => { strings.set(key, value); return 'OK'; }),
+    setEx: jest.fn(async (key: string, _ttl: number, value: string) => { strings.set(key, value); return 'OK'; }),
+    del: jest.fn(async (keys: string | string[]) => {
+      let removed = 0;
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        if ([strings, lists, sets, hashes, zsets].some(store => store.delete(key))) removed++;
+      }
+      return removed;
+    }),
+    expire: jest.fn(async () => true),
+
+    lPush: jest.fn(async (key: string, value: string) => list(key).unshift(value)),
+    lPop: jest.fn(async (key: string) => list(key).shift() ?? null),
+    lRange: jest.fn(async (key: string, start: number, stop: number) => slice(list(key), start, stop)),
+    lTrim: jest.fn(async (key: string, start: number, stop: number) => { lists.set(key, slice(list(key), start, stop)); return 'OK'; }),
+    lSet: jest.fn(async (key: string, index: number, value: string) => { list(key)[index] = value; return 'OK'; }),
+    lRem: jest.fn(async (key: string, _count: number, value: string) => {
+      const index = list(key).indexOf(value);
+      if (index < 0) return 0;
+      list(key).splice(index, 1);
+      return 1;
+    }),
+
+    sAdd: jest.fn(async (key: string, values: string | string[]) => {
+      (Array.isArray(values) ? values : [values]).forEach(value => set(key).add(value));
+    }),
+    sRem: jest.fn(async (key: string, value: string) => (set(key).delete(value) ? 1 : 0)),
+    sMembers: jest.fn(async (key: string) => Array.from(set(key))),
+
+    // hSet(key, field, value), hSet(key, { field: value }) or hSet(key, [field, value, ...])
+    hSet: jest.fn(async (key: string, fields: any, value?: string) => {
+      const entries: Array<[string, string]> = typeof fields === 'string' ? [[fields, value!]]
+        : Array.isArray(fields) ? fields.filter((_, i) => i % 2 === 0).map((field, i) => [field, fields[i * 2 + 1]])
+        : Object.entries(fields);
+      entries.forEach(([field, fieldValue]) => hash(key).set(field, String(fieldValue)));
+      return entries.length;
+    }),
+    hGet: jest.fn(async (key: string, field: string) => hash(key).get(field) ?? null),
+    hGetAll: jest.fn(async (key: string) => Object.fromEntries(hash(key))),
+    hDel: jest.fn(async (key: string, field: string) => (hash(key).delete(field) ? 1 : 0)),
+    hIncrBy: jest.fn(increment),
+    hIncrByFloat: jest.fn(increment),
+
+    zAdd: jest.fn(async (key: string, members: ZMember | ZMember[]) => {
+      (Array.isArray(members) ? members : [members]).forEach(member => zset(key).set(member.value, member.score));
+    }),
+    zIncrBy: jest.fn(async (key: string, by: number, member: string) => {
+      zset(key).set(member, (zset(key).get(member) || 0) + by);
+      return zset(key).get(member);
+    }),
+    zRem: jest.fn(async (key: string, value: string) => (zset(key).delete(value) ? 1 : 0)),
+    zRemRangeByScore: jest.fn(async (key: string, min: number, max: number) => {
+      const removed = sorted(key).filter(member => member.score >= min && member.score <= max);
+      removed.forEach(member => zset(key).delete(member.value));
+      return removed.length;
+    }),
+    zCard: jest.fn(async (key: string) => zset(key).size),
+    zRange: jest.fn(async (key: string, start: any, stop: any, options?: any) => zRangeMembers(key, start, stop, options).map(member => member.value)),
+    zRangeWithScores: jest.fn(async (key: string, start: any, stop: any, options?: any) => zRangeMembers(key, start, stop, options))
+  };
+}
+
+export type FakeRedis = ReturnType<typeof createFakeRedis>;
@@ -0,0 +1,10 @@
+import { SpotifyAuthTokens } from '../../types';
+
+// Tokens for SpotifyControl/backends in tests - never sent anywhere with the fake backend
+export const testTokens: SpotifyAuthTokens = {
+  access_token: 'test-access-token',
+  refresh_token: 'test-refresh-token',
+  expires_in: 3600,
+  token_type: 'Bearer',
+  scope: ''
+};
@@ -23,4 +23,9 @@ jest.mock('winston', () => ({
   transports: {
     Console: jest.fn()
   }
-}));
\ No newline at end of file
+}));
+
+// The app logger writes rotating log files - keep tests off the filesystem
+jest.mock('../config/logger', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() }
+}));
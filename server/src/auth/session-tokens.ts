@@ -0,0 +1,57 @@
+import { SessionManager } from './session-manager';
+import { SpotifyAuthService } from './spotify-auth.service';
+import { MusicBackend, createMusicBackend } from '../spotify/backend';
+import { SpotifyAuthTokens } from '../types';
+
+// Global variable for Redis client - will be set by server.ts (via session-auth)
+let redisClient: any = null;
+
+export function setRedisClient(client: any) {
+  redisClient = client;
+}
+
+/**
+ * Load a session's Spotify tokens, refreshing the access token when it is
+ * about to expire. Used by the auth middleware and by background jobs that
+ * act on a user's behalf.
+ */
+export async function getValidTokensForSession(sessionId: string): Promise<{ access_token: string; refresh_token: string } | null> {
+  if (!redisClient) {
+    throw new Error('Redis client not initialized');
+  }
+  
+  const sessionManager = new SessionManager(redisClient);
+  const tokens = await sessionManager.getTokens(sessionId);
+  if (!tokens) {
+    return null;
+  }
+
+  // Check if token is still valid (5 min buffer) - same logic as in SpotifyAuthService
+  const now = Date.now();
+  const expiresAt = tokens.expires_at;
+  const bufferTime = now + 300000; // 5 minutes from now
+
+  let accessToken = tokens.access_token;
+
+  // Only refresh if actually needed
+  if (expiresAt <= bufferTime) {
+    console.log('🔄 Token expired or expiring soon, refreshing...');
+    const authService = new SpotifyAuthService(redisClient);
+    const refreshResult = await authService.refreshAccessToken(sessionId);
+    accessToken = refreshResult.accessToken;
+  }
+
+  return {
+    access_token: accessToken,
+    refresh_token: tokens.refresh_token
+  };
+}
+
+/**
+ * Music backend for a session, or null when the session has no tokens.
+ * The default backend factory of the background services.
+ */
+export async function createSessionBackend(sessionId: string): Promise<MusicBackend | null> {
+  const tokens = await getValidTokensForSession(sessionId);
+  return tokens ? createMusicBackend(tokens as SpotifyAuthTokens, () => {}) : null;
+}
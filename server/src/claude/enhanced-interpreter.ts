@@ -2,8 +2,10 @@ import { Router } from 'express';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { SpotifyControl } from '../spotify/control';
+import { buildSpotifyQuery } from '../spotify/search-query';
 import { tempAuthMiddleware } from '../middleware/temp-auth';
 import { SpotifyTrack } from '../types';
+import { TrackMatchSummary, summarizeResolution, describeUnresolved } from '../services/TrackResolver';
 
 const execAsync = promisify(exec);
 
@@ -163,6 +165,33 @@ function applySearchModifiers(
   }).sort((a, b) => b.relevanceScore - a.relevanceScore);
 }
 
+// Named songs go through the TrackResolver so a wrong match isn't played;
+// free-form queries are ranked by their modifiers
+async function findTracks(
+  spotifyControl: SpotifyControl,
+  interpretation: InterpretationResult,
+  searchQuery: string
+): Promise<{ tracks: TrackWithScore[]; match?: TrackMatchSummary; rejection?: string }> {
+  if (!interpretation.artist || !interpretation.track) {
+    const searchResults = await spotifyControl.search(searchQuery);
+    return { tracks: applySearchModifiers(searchResults, interpretation.modifiers) };
+  }
+
+  const request = {
+    artist: interpretation.artist,
+    track: interpretation.track,
+    version: interpretation.modifiers?.version
+  };
+  const resolution = await spotifyControl.resolveTrack(request, searchQuery);
+  const match = summarizeResolution(resolution, request);
+  if (!resolution.match) {
+    return { tracks: [], match, rejection: resolution.best ? describeUnresolved(resolution, request) : undefined };
+  }
+
+  const ordered = [resolution.match, ...resolution.candidates.filter(c => c !== resolution.match)];
+  return { tracks: ordered.map(c => ({ ...c.track, relevanceScore: c.confidence })), match };
+}
+
 // Enhanced command endpoint
 enhancedClaudeRouter.post('/command', tempAuthMiddleware, async (req, res) => {
   const { command } = req.body;
@@ -193,7 +222,7 @@ enhancedClaudeRouter.post('/command', tempAuthMiddleware, async (req, res) => {
           // Use precise Spotify search syntax if we have artist and track
           let searchQuery = interpretation.query || '';
           if (interpretation.artist && interpretation.track) {
-            searchQuery = `artist:"${interpretation.artist}" track:"${interpretation.track}"`;
+            searchQuery = buildSpotifyQuery({ artist: interpretation.artist, track: interpretation.track });
             console.log(`Claude interpreted: "${command}" → artist:"${interpretation.artist}" track:"${interpretation.track}"`);
           } else {
             console.log(`Claude interpreted: "${command}" → "${searchQuery}"`);
@@ -203,11 +232,10 @@ enhancedClaudeRouter.post('/command', tempAuthMiddleware, async (req, res) => {
             console.log(`Reasoning: ${interpretation.reasoning}`);
           }
 
-          const searchResults = await spotifyControl.search(searchQuery);
-          const rankedTracks = applySearchModifiers(searchResults, interpretation.modifiers);
+          const { tracks: rankedTracks, match, rejection } = await findTracks(spotifyControl, interpretation, searchQuery);
           
           if (rankedTracks.length === 0) {
-            result = { success: false, message: `No tracks found for: "${searchQuery}"` };
+            result = { success: false, message: rejection || `No tracks found for: "${searchQuery}"`, ...(match && { match }) };
           } else {
             const topTrack = rankedTracks[0];
             await spotifyControl.playTrack(topTrack.uri);
@@ -222,6 +250,7 @@ enhancedClaudeRouter.post('/command', tempAuthMiddleware, async (req, res) => {
                 popularity: t.popularity,
                 relevanceScore: t.relevanceScore
               })),
+              ...(match && { match }),
               interpretation: {
                 confidence: interpretation.confidence,
                 modifiers: interpretation.modifiers,
@@ -240,17 +269,16 @@ enhancedClaudeRouter.post('/command', tempAuthMiddleware, async (req, res) => {
           // Use precise Spotify search syntax if we have artist and track
           let searchQuery = interpretation.query || '';
           if (interpretation.artist && interpretation.track) {
-            searchQuery = `artist:"${interpretation.artist}" track:"${interpretation.track}"`;
+            searchQuery = buildSpotifyQuery({ artist: interpretation.artist, track: interpretation.track });
             console.log(`Claude interpreted for queue: "${command}" → artist:"${interpretation.artist}" track:"${interpretation.track}"`);
           } else {
             console.log(`Claude interpreted for queue: "${command}" → "${searchQuery}"`);
           }
 
-          const searchResults = await spotifyControl.search(searchQuery);
-          const rankedTracks = applySearchModifiers(searchResults, interpretation.modifiers);
+          const { tracks: rankedTracks, match, rejection } = await findTracks(spotifyControl, interpretation, searchQuery);
           
           if (rankedTracks.length === 0) {
-            result = { success: false, message: `No tracks found for: "${searchQuery}"` };
+            result = { success: false, message: rejection || `No tracks found for: "${searchQuery}"`, ...(match && { match }) };
           } else {
             const topTrack = rankedTracks[0];
             await spotifyControl.queueTrackByUri(topTrack.uri);
@@ -259,6 +287,7 @@ enhancedClaudeRouter.post('/command', tempAuthMiddleware, async (req, res) => {
               success: true,
               message: `Added to queue: ${topTrack.name} by ${topTrack.artists.map(a => a.name).join(', ')}`,
               track: topTrack,
+              ...(match && { match }),
               interpretation: {
                 confidence: interpretation.confidence,
                 modifiers: interpretation.modifiers
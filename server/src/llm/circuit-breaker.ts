@@ -0,0 +1,105 @@
+/**
+ * Circuit breaker for LLM providers
+ *
+ * Tracks consecutive failures (errors or timeouts) per provider:
+ * - closed:    requests flow normally
+ * - open:      the provider tripped; requests are skipped until the cooldown passes
+ * - half-open: cooldown elapsed; one trial request decides whether to close or re-open
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitFailureKind = 'error' | 'timeout';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;  // Consecutive failures before the circuit opens
+  cooldownMs: number;        // How long the circuit stays open before a trial request
+}
+
+export interface CircuitBreakerSnapshot {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastFailureKind?: CircuitFailureKind;
+  lastFailureAt?: number;
+  openedAt?: number;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastFailureKind?: CircuitFailureKind;
+  private lastFailureAt?: number;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    readonly name: string,
+    private options: CircuitBreakerOptions,
+    private now: () => number = Date.now
+  ) {}
+
+  /**
+   * Whether a request may be sent to this provider right now
+   */
+  canRequest(): boolean {
+    if (this.state === 'closed') {
+      return true;
+    }
+
+    if (this.state === 'open') {
+      if (this.now() - (this.openedAt || 0) < this.options.cooldownMs) {
+        return false;
+      }
+      this.state = 'half-open';
+      this.trialInFlight = false;
+    }
+
+    // Half-open: let a single trial request through
+    if (this.trialInFlight) {
+      return false;
+    }
+    this.trialInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    if (this.state !== 'closed') {
+      console.log(`🟢 Circuit for ${this.name} closed after successful trial request`);
+    }
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.openedAt = undefined;
+  }
+
+  recordFailure(kind: CircuitFailureKind = 'error'): void {
+    this.consecutiveFailures++;
+    this.lastFailureKind = kind;
+    this.lastFailureAt = this.now();
+    this.trialInFlight = false;
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      if (this.state !== 'open') {
+        console.warn(`🔴 Circuit for ${this.name} opened after ${this.consecutiveFailures} consecutive failures (last: ${kind})`);
+      }
+      this.state = 'open';
+      this.openedAt = this.now();
+    }
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  getSnapshot(): CircuitBreakerSnapshot {
+    return {
+      name: this.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailureKind: this.lastFailureKind,
+      lastFailureAt: this.lastFailureAt,
+      openedAt: this.openedAt
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Offline evaluation of interpreter models over golden command sets.
+ *
+ * Each case is a command plus the intent and fields a correct interpretation
+ * must have. Every model answers every case through LLMOrchestrator with the
+ * interpreter's own prompt, and is scored on intent accuracy, field accuracy
+ * (compareIntents on each expected field), latency and token cost. With a
+ * FixtureProvider in replay mode the same run works offline, which is what
+ * the CI regression gate uses.
+ */
+
+import * as fs from 'fs';
+import { z } from 'zod';
+import { LLMOrchestrator, LLMResponse } from '../orchestrator';
+import { compareIntents } from '../intent-validator';
+import { validateAndRepair } from '../validation/command-validator';
+import { extractEssentialFields } from '../normalizer';
+import { PromptAdapter } from '../prompts/adapter';
+import { estimateCost } from '../pricing';
+
+const GoldenCaseSchema = z.object({
+  id: z.string().min(1),
+  command: z.string().min(1),
+  // Only the fields listed are scored; anything else the model adds is ignored
+  expected: z.object({ intent: z.string().min(1) }).passthrough(),
+  tasteProfile: z.string().optional(),
+  tags: z.array(z.string()).optional()
+});
+
+const GoldenDatasetSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().optional(),
+  cases: z.array(GoldenCaseSchema).min(1)
+});
+
+export type GoldenCase = z.infer<typeof GoldenCaseSchema>;
+export type GoldenDataset = z.infer<typeof GoldenDatasetSchema>;
+
+export interface InterpretationScore {
+  intentCorrect: boolean;
+  fieldsMatched: number;
+  fieldsTotal: number;
+  differences: string[];
+}
+
+export interface EvalCaseResult extends InterpretationScore {
+  caseId: string;
+  model: string;
+  expectedIntent: string;
+  actualIntent: string | null;
+  latencyMs: number;
+  totalTokens: number;
+  costUsd: number;
+  error?: string;             // Call failed (or no fixture) - counts as wrong
+}
+
+export interface ModelEvalSummary {
+  model: string;
+  cases: number;
+  errors: number;
+  intentAccuracy: number;     // 0-1
+  fieldAccuracy: number;      // 0-1, over every expected field of every case
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+export interface EvalReport {
+  dataset: string;
+  generatedAt: number;
+  fixtures: 'replay' | 'record' | 'live';
+  models: ModelEvalSummary[];
+  results: EvalCaseResult[];
+}
+
+export interface EvalOptions {
+  models: string[];
+  orchestrator?: LLMOrchestrator;
+  fixtures?: EvalReport['fixtures'];
+  onResult?: (result: EvalCaseResult) => void;
+}
+
+/**
+ * Load and validate a golden dataset file
+ */
+export function loadGoldenDataset(file: string): GoldenDataset {
+  const parsed = GoldenDatasetSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid golden dataset ${file}: ${parsed.error.issues.map(i => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+
+  const ids = new Set<string>();
+  for (const goldenCase of parsed.data.cases) {
+    if (ids.has(goldenCase.id)) {
+      throw new Error(`Invalid golden dataset ${file}: duplicate case id "${goldenCase.id}"`);
+    }
+    ids.add(goldenCase.id);
+  }
+  return parsed.data;
+}
+
+// Models vary in case and spacing ("queen" vs "Queen "), which isn't a mistake
+function normalizeValue(value: any): any {
+  if (typeof value === 'string') return value.trim().toLowerCase();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, normalizeValue(v)]));
+  }
+  return value;
+}
+
+/**
+ * Score one interpretation against the expected intent and fields.
+ * Object fields (e.g. modifiers) only need the expected keys to match.
+ */
+export function scoreInterpretation(expected: GoldenCase['expected'], actual: any): InterpretationScore {
+  const differences: string[] = [];
+  const intentCorrect = actual?.intent === expected.intent;
+  if (!intentCorrect) {
+    differences.push(`intent: expected ${expected.intent}, got ${actual?.intent ?? 'nothing'}`);
+  }
+
+  let fieldsMatched = 0;
+  let fieldsTotal = 0;
+  for (const [field, expectedValue] of Object.entries(expected)) {
+    if (field === 'intent') continue;
+    fieldsTotal++;
+
+    let actualValue = actual?.[field];
+    if (expectedValue && typeof expectedValue === 'object' && !Array.isArray(expectedValue) && actualValue && typeof actualValue === 'object') {
+      actualValue = Object.fromEntries(Object.keys(expectedValue).map(key => [key, actualValue[key]]));
+    }
+
+    const comparison = compareIntents(normalizeValue(expectedValue), normalizeValue(actualValue));
+    if (comparison.isEqual) {
+      fieldsMatched++;
+    } else {
+      differences.push(`${field}: ${comparison.differences.join(', ')}`);
+    }
+  }
+
+  return { intentCorrect, fieldsMatched, fieldsTotal, differences };
+}
+
+/**
+ * Parse a raw completion the way the interpreter does
+ */
+export function parseInterpretation(content: any): any {
+  let interpretation = content;
+  if (typeof content === 'string') {
+    try {
+      interpretation = JSON.parse(content);
+    } catch {
+      return { intent: 'unknown', reasoning: 'Failed to parse response' };
+    }
+  }
+
+  const validation = validateAndRepair(interpretation);
+  return validation.isValid ? validation.data : extractEssentialFields(interpretation);
+}
+
+async function evaluateCase(orchestrator: LLMOrchestrator, goldenCase: GoldenCase, model: string): Promise<EvalCaseResult> {
+  const base = { caseId: goldenCase.id, model, expectedIntent: goldenCase.expected.intent };
+  const startTime = Date.now();
+
+  let response: LLMResponse;
+  try {
+    response = await orchestrator.complete({
+      messages: [
+        { role: 'system', content: PromptAdapter.forModel(model, goldenCase.command, goldenCase.tasteProfile || '', '') },
+        { role: 'user', content: goldenCase.command }
+      ],
+      model,
+      temperature: 0.7,
+      response_format: { type: 'json_object' },
+      // Score the model itself, never a fallback
+      fallbackChain: [model]
+    });
+  } catch (error: any) {
+    const fieldsTotal = Object.keys(goldenCase.expected).length - 1;
+    return {
+      ...base,
+      actualIntent: null,
+      intentCorrect: false,
+      fieldsMatched: 0,
+      fieldsTotal,
+      differences: [],
+      latencyMs: Date.now() - startTime,
+      totalTokens: 0,
+      costUsd: 0,
+      error: error?.message || String(error)
+    };
+  }
+
+  const latencyMs = Date.now() - startTime;
+  const interpretation = parseInterpretation(response.content);
+
+  return {
+    ...base,
+    ...scoreInterpretation(goldenCase.expected, interpretation),
+    actualIntent: interpretation?.intent ?? null,
+    latencyMs,
+    totalTokens: response.usage?.total_tokens || 0,
+    costUsd: estimateCost(response.actualModel || response.model || model, response.usage)
+  };
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+}
+
+/**
+ * Per-model totals from case results
+ */
+export function summarizeResults(model: string, results: EvalCaseResult[]): ModelEvalSummary {
+  const fieldsTotal = results.reduce((sum, r) => sum + r.fieldsTotal, 0);
+  const latencies = results.filter(r => !r.error).map(r => r.latencyMs);
+
+  return {
+    model,
+    cases: results.length,
+    errors: results.filter(r => r.error).length,
+    intentAccuracy: results.length > 0 ? results.filter(r => r.intentCorrect).length / results.length : 0,
+    fieldAccuracy: fieldsTotal > 0 ? results.reduce((sum, r) => sum + r.fieldsMatched, 0) / fieldsTotal : 1,
+    avgLatencyMs: latencies.length > 0 ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length) : 0,
+    p95LatencyMs: percentile(latencies, 0.95),
+    totalTokens: results.reduce((sum, r) => sum + r.totalTokens, 0),
+    costUsd: Math.round(results.reduce((sum, r) => sum + r.costUsd, 0) * 1_000_000) / 1_000_000
+  };
+}
+
+/**
+ * Run every case against every model, one call at a time to stay inside rate limits
+ */
+export async function runEvaluation(dataset: GoldenDataset, options: EvalOptions): Promise<EvalReport> {
+  const orchestrator = options.orchestrator || new LLMOrchestrator();
+  const results: EvalCaseResult[] = [];
+
+  for (const model of options.models) {
+    for (const goldenCase of dataset.cases) {
+      const result = await evaluateCase(orchestrator, goldenCase, model);
+      results.push(result);
+      options.onResult?.(result);
+    }
+  }
+
+  return {
+    dataset: dataset.name,
+    generatedAt: Date.now(),
+    fixtures: options.fixtures || 'live',
+    models: options.models.map(model => summarizeResults(model, results.filter(r => r.model === model))),
+    results
+  };
+}
@@ -0,0 +1,79 @@
+import { EvalReport, ModelEvalSummary } from './harness';
+
+export interface RegressionGateOptions {
+  minIntentAccuracy?: number;       // 0-1, applies to every model
+  minFieldAccuracy?: number;        // 0-1, applies to every model
+  baseline?: EvalReport;            // Compare against an earlier report
+  tolerance?: number;               // Accuracy a model may lose vs. the baseline
+}
+
+export interface RegressionGateResult {
+  passed: boolean;
+  failures: string[];
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Markdown comparison of the models in a report, plus the cases they got wrong
+ */
+export function formatReportMarkdown(report: EvalReport): string {
+  const lines = [
+    `# LLM evaluation: ${report.dataset}`,
+    '',
+    `${new Date(report.generatedAt).toISOString()} • fixtures: ${report.fixtures}`,
+    '',
+    '| Model | Intent accuracy | Field accuracy | Avg latency | p95 latency | Tokens | Cost | Errors |',
+    '|---|---|---|---|---|---|---|---|'
+  ];
+
+  const ranked = [...report.models].sort((a, b) =>
+    b.intentAccuracy - a.intentAccuracy || b.fieldAccuracy - a.fieldAccuracy || a.costUsd - b.costUsd
+  );
+  for (const summary of ranked) {
+    lines.push(`| ${summary.model} | ${percent(summary.intentAccuracy)} | ${percent(summary.fieldAccuracy)} | ${summary.avgLatencyMs}ms | ${summary.p95LatencyMs}ms | ${summary.totalTokens} | $${summary.costUsd.toFixed(4)} | ${summary.errors}/${summary.cases} |`);
+  }
+
+  const failures = report.results.filter(r => r.error || !r.intentCorrect || r.fieldsMatched < r.fieldsTotal);
+  if (failures.length > 0) {
+    lines.push('', '## Failures', '');
+    for (const result of failures) {
+      const detail = result.error ? `error: ${result.error}` : result.differences.join('; ');
+      lines.push(`- **${result.model}** \`${result.caseId}\`: ${detail}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Check a report against absolute thresholds and/or a baseline report.
+ * Models missing from the baseline are only held to the thresholds.
+ */
+export function checkRegressionGate(report: EvalReport, options: RegressionGateOptions = {}): RegressionGateResult {
+  const failures: string[] = [];
+  const tolerance = options.tolerance ?? 0;
+  const baselineModels = new Map<string, ModelEvalSummary>(
+    (options.baseline?.models || []).map(summary => [summary.model, summary])
+  );
+
+  for (const summary of report.models) {
+    if (options.minIntentAccuracy !== undefined && summary.intentAccuracy < options.minIntentAccuracy) {
+      failures.push(`${summary.model}: intent accuracy ${percent(summary.intentAccuracy)} is below ${percent(options.minIntentAccuracy)}`);
+    }
+    if (options.minFieldAccuracy !== undefined && summary.fieldAccuracy < options.minFieldAccuracy) {
+      failures.push(`${summary.model}: field accuracy ${percent(summary.fieldAccuracy)} is below ${percent(options.minFieldAccuracy)}`);
+    }
+
+    const baseline = baselineModels.get(summary.model);
+    if (!baseline) continue;
+    if (summary.intentAccuracy < baseline.intentAccuracy - tolerance) {
+      failures.push(`${summary.model}: intent accuracy fell from ${percent(baseline.intentAccuracy)} to ${percent(summary.intentAccuracy)}`);
+    }
+    if (summary.fieldAccuracy < baseline.fieldAccuracy - tolerance) {
+      failures.push(`${summary.model}: field accuracy fell from ${percent(baseline.fieldAccuracy)} to ${percent(summary.fieldAccuracy)}`);
+    }
+  }
+
+  return { passed: failures.length === 0, failures };
+}
@@ -0,0 +1,109 @@
+import dotenv from 'dotenv';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMOrchestrator, OPENROUTER_MODELS } from '../orchestrator';
+import { FixtureProvider } from '../providers/FixtureProvider';
+import { loadGoldenDataset, runEvaluation, EvalReport } from './harness';
+import { formatReportMarkdown, checkRegressionGate } from './report';
+
+dotenv.config({ path: '../.env' });
+
+/**
+ * Evaluate models against a golden command set.
+ *
+ * Usage: npx tsx src/llm/evaluation/run-eval.ts [options]
+ *   --dataset <file>             Golden dataset (default: datasets/core-commands.json)
+ *   --models <a,b,...>           Models to compare (default: the interpreter's default model)
+ *   --fixtures <replay|record>   Replay recorded responses offline, or record live ones
+ *   --fixture-dir <dir>          Fixture directory (default: fixtures/eval)
+ *   --out <file>                 Write the JSON report
+ *   --markdown <file>            Write the Markdown report (default: print it)
+ *   --baseline <file>            Earlier JSON report to compare accuracy against
+ *   --tolerance <0-1>            Accuracy a model may lose vs. the baseline (default: 0)
+ *   --min-intent-accuracy <0-1>  Fail below this intent accuracy
+ *   --min-field-accuracy <0-1>   Fail below this field accuracy
+ *   --gate                       Exit with 1 when a threshold or baseline check fails
+ */
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const name = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith('--')) {
+      args[name] = next;
+      i++;
+    } else {
+      args[name] = 'true';
+    }
+  }
+  return args;
+}
+
+function parseRatio(value: string | undefined): number | undefined {
+  return value !== undefined ? parseFloat(value) : undefined;
+}
+
+async function runEval(args: Record<string, string>) {
+  const dataset = loadGoldenDataset(args.dataset || path.join(__dirname, 'datasets', 'core-commands.json'));
+  const models = (args.models || OPENROUTER_MODELS.GEMINI_2_5_FLASH).split(',').map(model => model.trim()).filter(Boolean);
+  const mode = args.fixtures as 'replay' | 'record' | undefined;
+  if (mode && mode !== 'replay' && mode !== 'record') {
+    throw new Error(`--fixtures must be replay or record, got "${mode}"`);
+  }
+
+  const orchestrator = new LLMOrchestrator();
+  // Eval fixtures are keyed by model so each model replays its own answers
+  orchestrator.setFixtureProvider(mode
+    ? new FixtureProvider({ directory: args['fixture-dir'] || 'fixtures/eval', mode, keyByModel: true })
+    : null);
+
+  console.log(`Evaluating ${models.join(', ')} on ${dataset.cases.length} cases from "${dataset.name}"${mode ? ` (${mode})` : ''}`);
+  const report = await runEvaluation(dataset, {
+    models,
+    orchestrator,
+    fixtures: mode || 'live',
+    onResult: result => {
+      const status = result.error ? 'ERROR' : result.intentCorrect && result.fieldsMatched === result.fieldsTotal ? 'ok' : 'FAIL';
+      console.log(`  [${status}] ${result.model} ${result.caseId} (${result.latencyMs}ms)`);
+    }
+  });
+
+  const markdown = formatReportMarkdown(report);
+  if (args.out) {
+    fs.writeFileSync(args.out, JSON.stringify(report, null, 2));
+  }
+  if (args.markdown) {
+    fs.writeFileSync(args.markdown, markdown);
+  } else {
+    console.log('\n' + markdown);
+  }
+
+  const baseline: EvalReport | undefined = args.baseline
+    ? JSON.parse(fs.readFileSync(args.baseline, 'utf-8'))
+    : undefined;
+  const gate = checkRegressionGate(report, {
+    minIntentAccuracy: parseRatio(args['min-intent-accuracy']),
+    minFieldAccuracy: parseRatio(args['min-field-accuracy']),
+    baseline,
+    tolerance: parseRatio(args.tolerance)
+  });
+
+  if (!gate.passed) {
+    console.log('Regression gate failed:');
+    gate.failures.forEach(failure => console.log(`  - ${failure}`));
+    if (args.gate) {
+      process.exitCode = 1;
+    }
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  runEval(parseArgs(process.argv.slice(2))).catch(error => {
+    console.error('Error running evaluation:', error);
+    process.exitCode = 1;
+  });
+}
+
+export { runEval };
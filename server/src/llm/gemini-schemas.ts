@@ -18,12 +18,14 @@
  * - Keep schemas simple and focused
  * - Apply constraints (min/max) where appropriate
  * 
- * IMPORTANT: Any changes here must be reflected in:
- * - intent-types.ts (shared interfaces)
- * - schemas.ts (OpenRouter prompt engineering)
+ * MusicCommandIntentSchema is generated from the Zod intent schemas in
+ * ./schemas/intents (see ./schemas/converters.ts) - edit those, not this file.
+ * The remaining schemas here are hand-written.
  */
 
 import { Type } from "@google/genai";
+import { FlatMusicCommandSchema } from './schemas/index';
+import { toGeminiSchema } from './schemas/converters';
 import { 
   FULL_CURATOR_GUIDELINES,
   ALTERNATIVES_APPROACH,
@@ -32,236 +34,8 @@ import {
 } from './music-curator-prompts';
 
 // Music Command Intent Schema - Core schema for most requests
-export const MusicCommandIntentSchema = {
-  type: Type.OBJECT,
-  properties: {
-    intent: {
-      type: Type.STRING,
-      enum: [
-        'play_specific_song',
-        'queue_specific_song',
-        'queue_multiple_songs',
-        'play_playlist',
-        'queue_playlist',
-        'play',
-        'pause',
-        'skip',
-        'previous',
-        'volume',
-        'set_volume',
-        'resume',
-        'next',
-        'back',
-        'get_current_track',
-        'set_shuffle',
-        'set_repeat',
-        'clear_queue',
-        'get_devices',
-        'get_playlists',
-        'get_recently_played',
-        'search',
-        'get_playback_info',
-        'chat',
-        'ask_question',
-        'clarification_mode',
-        'explain_reasoning',
-        'unknown'
-      ]
-    },
-    query: {
-      type: Type.STRING,
-      description: 'The search query if searching for music'
-    },
-    artist: {
-      type: Type.STRING,
-      description: 'Artist name if specified'
-    },
-    track: {
-      type: Type.STRING,
-      description: 'Track/song name if specified'
-    },
-    album: {
-      type: Type.STRING,
-      description: 'Album name if specified'
-    },
-    value: {
-      type: Type.NUMBER,
-      description: 'Numeric value for volume commands',
-      minimum: 0,
-      maximum: 100
-    },
-    volume_level: {
-      type: Type.NUMBER,
-      description: 'Volume level between 0-100',
-      minimum: 0,
-      maximum: 100
-    },
-    enabled: {
-      type: Type.BOOLEAN,
-      description: 'Boolean flag for shuffle/repeat commands'
-    },
-    modifiers: {
-      type: Type.OBJECT,
-      properties: {
-        obscurity: {
-          type: Type.STRING,
-          enum: ['popular', 'obscure', 'rare', 'deep_cut', 'hidden'],
-          description: 'How popular/obscure the track should be'
-        },
-        version: {
-          type: Type.STRING,
-          enum: ['original', 'remix', 'acoustic', 'live', 'demo', 'remaster'],
-          description: 'Specific version of the track'
-        },
-        mood: {
-          type: Type.STRING,
-          description: 'Mood or vibe requested (e.g., "melancholy", "upbeat", "chill")'
-        },
-        era: {
-          type: Type.STRING,
-          description: 'Time period or era (e.g., "80s", "90s", "2000s")'
-        },
-        genre: {
-          type: Type.STRING,
-          description: 'Musical genre if specified'
-        },
-        exclude: {
-          type: Type.ARRAY,
-          items: { type: Type.STRING },
-          description: 'Terms to exclude from search'
-        }
-      }
-    },
-    confidence: {
-      type: Type.NUMBER,
-      minimum: 0,
-      maximum: 1,
-      description: 'Confidence level in the interpretation (0-1)'
-    },
-    reasoning: {
-      type: Type.STRING,
-      description: 'Brief explanation of why this interpretation was chosen'
-    },
-    alternatives: {
-      type: Type.ARRAY,
-      items: { type: Type.STRING },
-      description: 'Alternative interpretations or suggestions'
-    },
-    enhancedQuery: {
-      type: Type.STRING,
-      description: 'Enhanced Spotify search query with proper operators'
-    },
-    responseMessage: {
-      type: Type.STRING,
-      description: 'For conversational intents (chat, ask_question), include the actual response text here'
-    },
-    songs: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          artist: {
-            type: Type.STRING,
-            description: 'Artist name'
-          },
-          track: {
-            type: Type.STRING,
-            description: 'Track/song name'
-          },
-          album: {
-            type: Type.STRING,
-            description: 'Album name (optional)'
-          }
-        },
-        required: ['artist', 'track']
-      },
-      description: 'Array of songs for queue_multiple_songs intent'
-    },
-    theme: {
-      type: Type.STRING,
-      description: 'Theme or description of the song collection for queue_multiple_songs intent'
-    },
-    isAIDiscovery: {
-      type: Type.BOOLEAN,
-      description: 'True when AI made creative choice (not following explicit user request)'
-    },
-    aiReasoning: {
-      type: Type.STRING,
-      description: 'Brief explanation (1-2 sentences) of why AI chose this when isAIDiscovery is true'
-    },
-    currentContext: {
-      type: Type.OBJECT,
-      properties: {
-        rejected: {
-          type: Type.STRING,
-          description: 'What the user rejected (artist name, genre, etc.)'
-        },
-        rejectionType: {
-          type: Type.STRING,
-          enum: ['artist', 'genre', 'mood', 'song', 'style'],
-          description: 'Type of rejection'
-        }
-      },
-      description: 'Context about what was rejected for clarification_mode'
-    },
-    options: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          direction: {
-            type: Type.STRING,
-            description: 'Unique identifier for this direction'
-          },
-          description: {
-            type: Type.STRING,
-            description: 'User-friendly description of this alternative'
-          },
-          example: {
-            type: Type.STRING,
-            description: 'Specific example or explanation'
-          },
-          icon: {
-            type: Type.STRING,
-            description: 'Emoji icon representing this direction'
-          },
-          followUpQuery: {
-            type: Type.STRING,
-            description: 'Command to send when user selects this option'
-          }
-        },
-        required: ['direction', 'description', 'example', 'icon']
-      },
-      description: 'Alternative directions for clarification_mode'
-    },
-    uiType: {
-      type: Type.STRING,
-      enum: ['clarification_buttons', 'text_response'],
-      description: 'UI type for rendering the response'
-    }
-  },
-  required: ['intent', 'confidence', 'reasoning'],
-  propertyOrdering: [
-    'intent',
-    'query',
-    'artist',
-    'track',
-    'album',
-    'value',
-    'volume_level',
-    'enabled',
-    'modifiers',
-    'confidence',
-    'reasoning',
-    'alternatives',
-    'enhancedQuery',
-    'responseMessage',
-    'songs',
-    'theme',
-    'isAIDiscovery',
-    'aiReasoning'
-  ]
-};
+// Generated from the Zod intent schemas so it can never drift from them
+export const MusicCommandIntentSchema = toGeminiSchema(FlatMusicCommandSchema);
 
 // Spotify Search Enhancement Schema
 export const SpotifySearchEnhancementSchema = {
@@ -0,0 +1,199 @@
+import { LLMRequest, LLMResponse } from './orchestrator';
+import { TrackResolution, artistNames } from '../services/TrackResolver';
+
+export interface SuggestedSong {
+  artist: string;
+  track: string;
+  album?: string;
+}
+
+export interface UnresolvedSong extends SuggestedSong {
+  closest?: string;      // "Title by Artist" of the nearest search result, if any
+}
+
+export interface RecoveredSong {
+  original: SuggestedSong;      // What the model suggested first
+  replacement: SuggestedSong;   // The corrected suggestion that resolved
+  resolution: TrackResolution;  // Always has a match
+}
+
+export interface RecoveryResult {
+  recovered: RecoveredSong[];
+  unresolved: UnresolvedSong[];
+  rounds: number;                // Corrective prompts sent
+  suggested: number;             // Replacement songs the model suggested
+  hallucinated: number;          // ...and how many of those didn't resolve either
+}
+
+export interface RecoveryOptions {
+  command: string;               // The user's original command
+  model: string;                 // Re-prompt the model that made the suggestions
+  unresolved: UnresolvedSong[];
+  resolve: (song: SuggestedSong) => Promise<TrackResolution>;
+  complete: (request: LLMRequest) => Promise<LLMResponse>;
+  retryBudget?: number;
+  tried?: SuggestedSong[];       // Songs already attempted - never accepted as replacements
+}
+
+// One corrective round is usually enough; each round costs an LLM call plus searches
+export const DEFAULT_HALLUCINATION_RETRIES = 1;
+const MAX_HALLUCINATION_RETRIES = 3;
+
+/**
+ * Corrective prompts allowed per command (LLM_HALLUCINATION_RETRIES, 0 disables)
+ */
+export function getHallucinationRetryBudget(): number {
+  const configured = parseInt(process.env.LLM_HALLUCINATION_RETRIES || '', 10);
+  if (isNaN(configured)) {
+    return DEFAULT_HALLUCINATION_RETRIES;
+  }
+  return Math.max(0, Math.min(configured, MAX_HALLUCINATION_RETRIES));
+}
+
+export function toUnresolvedSong(song: SuggestedSong, resolution: TrackResolution): UnresolvedSong {
+  const closest = resolution.best?.track;
+  return {
+    artist: song.artist,
+    track: song.track,
+    ...(song.album && { album: song.album }),
+    ...(closest && { closest: `${closest.name} by ${artistNames(closest)}` })
+  };
+}
+
+const songKey = (song: SuggestedSong) => `${song.artist}|${song.track}`.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * Messages asking the model to replace the songs that don't exist on Spotify
+ */
+export function buildReplacementPrompt(command: string, unresolved: UnresolvedSong[], tried: SuggestedSong[]): LLMRequest['messages'] {
+  const missing = unresolved.map((song, i) => {
+    const closest = song.closest ? ` (Spotify's closest result was "${song.closest}", which is a different song)` : '';
+    return `${i + 1}. "${song.track}" by ${song.artist}${closest}`;
+  }).join('\n');
+
+  const avoid = tried.length > 0
+    ? `\n\nDo not suggest any of these again:\n${tried.map(song => `- "${song.track}" by ${song.artist}`).join('\n')}`
+    : '';
+
+  return [
+    {
+      role: 'system',
+      content: `You suggested songs for a music request, but some of them could not be found on Spotify - they may not exist, or the title or artist may be wrong.
+For each missing song, suggest one replacement that really exists on Spotify. If the user asked for that exact song, correct the title or artist to the real recording; otherwise pick a different real song that fits the request just as well.
+
+Respond with JSON only:
+{"songs": [{"replaces": <number of the missing song>, "artist": "...", "track": "...", "album": "..."}]}`
+    },
+    {
+      role: 'user',
+      content: `Request: "${command}"\n\nNot found on Spotify:\n${missing}${avoid}`
+    }
+  ];
+}
+
+/**
+ * Replacement songs from the model's reply, keyed by the 0-based index of the song they replace
+ */
+export function parseReplacementSongs(content: string | object, count: number): Map<number, SuggestedSong> {
+  const replacements = new Map<number, SuggestedSong>();
+  let parsed: any;
+  try {
+    parsed = typeof content === 'string' ? JSON.parse(content) : content;
+  } catch {
+    return replacements;
+  }
+
+  const songs = Array.isArray(parsed) ? parsed : parsed?.songs;
+  if (!Array.isArray(songs)) {
+    return replacements;
+  }
+
+  songs.forEach((song: any, position: number) => {
+    if (typeof song?.artist !== 'string' || typeof song?.track !== 'string' || !song.artist.trim() || !song.track.trim()) {
+      return;
+    }
+    // Fall back to list order when the model leaves out "replaces"
+    const index = typeof song.replaces === 'number' ? song.replaces - 1 : position;
+    if (index >= 0 && index < count && !replacements.has(index)) {
+      replacements.set(index, {
+        artist: song.artist.trim(),
+        track: song.track.trim(),
+        ...(typeof song.album === 'string' && song.album.trim() && { album: song.album.trim() })
+      });
+    }
+  });
+
+  return replacements;
+}
+
+/**
+ * Ask the model to replace songs that didn't resolve on Spotify, resolving each
+ * replacement, until everything resolves or the retry budget runs out. Songs the
+ * model can't replace are returned in unresolved with their latest suggestion.
+ */
+export async function recoverUnresolvedSongs(options: RecoveryOptions): Promise<RecoveryResult> {
+  const retryBudget = options.retryBudget ?? getHallucinationRetryBudget();
+  const tried = [...(options.tried || []), ...options.unresolved];
+  const triedKeys = new Set(tried.map(songKey));
+  const result: RecoveryResult = { recovered: [], unresolved: [], rounds: 0, suggested: 0, hallucinated: 0 };
+
+  let pending = options.unresolved.map(song => ({ original: song as SuggestedSong, current: song }));
+
+  while (pending.length > 0 && result.rounds < retryBudget) {
+    result.rounds++;
+
+    let response: LLMResponse;
+    try {
+      response = await options.complete({
+        messages: buildReplacementPrompt(options.command, pending.map(p => p.current), tried),
+        model: options.model,
+        // Same model only - a fallback model's picks wouldn't tell us about this one
+        fallbackChain: [options.model],
+        temperature: 0.5,
+        response_format: { type: 'json_object' },
+        skipValidation: true
+      });
+    } catch (error) {
+      console.error('[HALLUCINATION] Replacement request failed:', error);
+      break;
+    }
+
+    const replacements = parseReplacementSongs(response.content, pending.length);
+    const stillPending: typeof pending = [];
+
+    for (const [index, entry] of pending.entries()) {
+      const replacement = replacements.get(index);
+      if (!replacement || triedKeys.has(songKey(replacement))) {
+        stillPending.push(entry);
+        continue;
+      }
+
+      result.suggested++;
+      tried.push(replacement);
+      triedKeys.add(songKey(replacement));
+
+      let resolution: TrackResolution;
+      try {
+        resolution = await options.resolve(replacement);
+      } catch (error) {
+        // A failed lookup says nothing about the model - leave the song unresolved and carry on
+        console.error(`[HALLUCINATION] Couldn't look up "${replacement.track}" by ${replacement.artist}:`, error);
+        stillPending.push(entry);
+        continue;
+      }
+
+      if (resolution.match) {
+        console.log(`[HALLUCINATION] Replaced "${entry.original.track}" by ${entry.original.artist} with "${replacement.track}" by ${replacement.artist}`);
+        result.recovered.push({ original: entry.original, replacement, resolution });
+      } else {
+        result.hallucinated++;
+        stillPending.push({ original: entry.original, current: toUnresolvedSong(replacement, resolution) });
+      }
+    }
+
+    pending = stillPending;
+  }
+
+  result.unresolved = pending.map(p => p.current);
+  return result;
+}
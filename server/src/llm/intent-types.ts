@@ -6,40 +6,15 @@
  * - OpenRouter models (via prompt engineering + Zod schemas)
  * - Gemini models (via native responseSchema)
  * 
- * Any changes to intent structure MUST be reflected in both:
- * - schemas.ts (for OpenRouter prompt engineering)
- * - gemini-schemas.ts (for Gemini native structured output)
+ * The intent list comes from the Zod schemas in ./schemas/intents, which also
+ * generate the Gemini and OpenAI response schemas (see ./schemas/converters.ts).
+ * Adding an intent means adding its schema there - nothing here needs editing.
  */
 
+import { MusicCommandSchema, MusicCommand } from './schemas/index';
+
 // Core intent types that all models must support
-export type IntentType = 
-  | 'play_specific_song'
-  | 'queue_specific_song'
-  | 'queue_multiple_songs'
-  | 'play_playlist'
-  | 'queue_playlist'
-  | 'play'
-  | 'pause'
-  | 'skip'
-  | 'previous'
-  | 'volume'
-  | 'set_volume'
-  | 'resume'
-  | 'next'
-  | 'back'
-  | 'get_current_track'
-  | 'set_shuffle'
-  | 'set_repeat'
-  | 'clear_queue'
-  | 'get_devices'
-  | 'get_playlists'
-  | 'get_recently_played'
-  | 'search'
-  | 'get_playback_info'
-  | 'chat'
-  | 'ask_question'
-  | 'explain_reasoning'
-  | 'unknown';
+export type IntentType = MusicCommand['intent'];
 
 // Obscurity levels for track requests
 export type ObscurityLevel = 'popular' | 'obscure' | 'rare' | 'deep_cut' | 'hidden';
@@ -53,6 +28,9 @@ export type SearchType = 'track' | 'artist' | 'album' | 'playlist';
 // Execution order for batch commands
 export type ExecutionOrder = 'sequential' | 'parallel';
 
+// What a multi-step plan does when one of its steps fails
+export type StepFailurePolicy = 'stop' | 'continue';
+
 // Modifiers for music commands
 export interface MusicModifiers {
   obscurity?: ObscurityLevel | string | null;
@@ -85,6 +63,25 @@ export interface MusicCommandIntent {
     aiReasoning?: string;
   })[];
   enhancedQuery?: string;
+  // multi_step_plan only
+  steps?: MusicCommandIntent[];
+  executionOrder?: ExecutionOrder;
+  onStepFailure?: StepFailurePolicy;
+  // Queue editing
+  insertNext?: boolean;
+  queuePosition?: number;
+  toPosition?: number;
+  // schedule_action / cancel_scheduled_actions only
+  scheduleAction?: string;
+  scheduleTrigger?: string;
+  delayMinutes?: number;
+  atTime?: string;
+  fadeSeconds?: number;
+  // add_to_playlist / remove_from_playlist only
+  playlistName?: string;
+  trackSource?: 'current' | 'recent' | 'track';
+  trackCount?: number;
+  confirmCreate?: boolean;
 }
 
 // Spotify search enhancement interface
@@ -205,35 +202,7 @@ export function isBatchCommand(obj: any): obj is BatchCommand {
 }
 
 // Constants for validation
-export const VALID_INTENTS: IntentType[] = [
-  'play_specific_song',
-  'queue_specific_song',
-  'queue_multiple_songs',
-  'play_playlist',
-  'queue_playlist',
-  'play',
-  'pause',
-  'skip',
-  'previous',
-  'volume',
-  'set_volume',
-  'resume',
-  'next',
-  'back',
-  'get_current_track',
-  'set_shuffle',
-  'set_repeat',
-  'clear_queue',
-  'get_devices',
-  'get_playlists',
-  'get_recently_played',
-  'search',
-  'get_playback_info',
-  'chat',
-  'ask_question',
-  'explain_reasoning',
-  'unknown'
-];
+export const VALID_INTENTS: IntentType[] = MusicCommandSchema.options.map(option => option.shape.intent.value);
 
 export const VALID_OBSCURITY_LEVELS: ObscurityLevel[] = [
   'popular',
@@ -264,6 +233,11 @@ export const VALID_EXECUTION_ORDERS: ExecutionOrder[] = [
   'parallel'
 ];
 
+export const VALID_STEP_FAILURE_POLICIES: StepFailurePolicy[] = [
+  'stop',
+  'continue'
+];
+
 // Validation functions
 export function isValidIntent(intent: string): intent is IntentType {
   return VALID_INTENTS.includes(intent as IntentType);
@@ -283,4 +257,8 @@ export function isValidSearchType(type: string): type is SearchType {
 
 export function isValidExecutionOrder(order: string): order is ExecutionOrder {
   return VALID_EXECUTION_ORDERS.includes(order as ExecutionOrder);
+}
+
+export function isValidStepFailurePolicy(policy: string): policy is StepFailurePolicy {
+  return VALID_STEP_FAILURE_POLICIES.includes(policy as StepFailurePolicy);
 }
\ No newline at end of file
@@ -32,11 +32,13 @@ import {
   isValidVersionType,
   isValidSearchType,
   isValidExecutionOrder,
+  isValidStepFailurePolicy,
   VALID_INTENTS,
   VALID_OBSCURITY_LEVELS,
   VALID_VERSION_TYPES,
   VALID_SEARCH_TYPES,
-  VALID_EXECUTION_ORDERS
+  VALID_EXECUTION_ORDERS,
+  VALID_STEP_FAILURE_POLICIES
 } from './intent-types';
 import { MusicCommandSchema } from './schemas/index';
 import { validateMusicCommand } from './validation/command-validator';
@@ -299,6 +301,23 @@ export function validateMusicCommandIntent(
     result.warnings.push('Search intents should include either a "query" field or structured search fields (artist/track)');
   }
 
+  // A plan's steps are validated like a batch of commands
+  if (intent.intent === 'multi_step_plan') {
+    const planResult = validateBatchCommand(
+      { commands: intent.steps, executionOrder: intent.executionOrder ?? 'sequential' },
+      { ...options, logErrors: false }
+    );
+    result.errors.push(...planResult.errors);
+
+    if (Array.isArray(intent.steps) && intent.steps.some((step: any) => step?.intent === 'multi_step_plan')) {
+      result.errors.push('Plan steps cannot themselves be multi_step_plan');
+    }
+
+    if (intent.onStepFailure !== undefined && !isValidStepFailurePolicy(intent.onStepFailure)) {
+      result.errors.push(`Invalid onStepFailure "${intent.onStepFailure}". Must be one of: ${VALID_STEP_FAILURE_POLICIES.join(', ')}`);
+    }
+  }
+
   result.isValid = result.errors.length === 0;
   if (options.normalize && result.isValid) {
     result.normalizedIntent = normalizeModifiers(intent);
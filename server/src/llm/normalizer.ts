@@ -3,6 +3,8 @@
  * structure their JSON outputs. This acts as a preprocessing layer before schema validation.
  */
 
+import { buildSpotifyQuery, normalizeSpotifyQuery } from '../spotify/search-query';
+
 export function normalizeLLMResponse(response: any): any {
   if (!response || typeof response !== 'object') {
     return response;
@@ -111,24 +113,19 @@ export function buildSpotifySearchQuery(interpretation: {
 }): string {
   // If we have both artist and track, use precise search syntax
   if (interpretation.artist && interpretation.track) {
-    return `artist:"${interpretation.artist}" track:"${interpretation.track}"`;
+    return buildSpotifyQuery({ artist: interpretation.artist, track: interpretation.track });
   }
   
   // If we have artist and album
   if (interpretation.artist && interpretation.album) {
-    return `artist:"${interpretation.artist}" album:"${interpretation.album}"`;
-  }
-  
-  // If we just have artist
-  if (interpretation.artist && !interpretation.track) {
-    return `artist:"${interpretation.artist}"`;
+    return buildSpotifyQuery({ artist: interpretation.artist, album: interpretation.album });
   }
   
-  // If we just have track
-  if (interpretation.track && !interpretation.artist) {
-    return `track:"${interpretation.track}"`;
+  // If we just have artist or just track
+  if (interpretation.artist || interpretation.track) {
+    return buildSpotifyQuery({ artist: interpretation.artist, track: interpretation.track });
   }
   
   // Otherwise use the general query
-  return interpretation.query || '';
+  return normalizeSpotifyQuery(interpretation.query || '');
 }
\ No newline at end of file
@@ -11,6 +11,7 @@ import { z } from 'zod';
 // Import the new discriminated union schemas
 import { 
   MusicCommandSchema,
+  FlatMusicCommandSchema,
   PlaySpecificSongSchema,
   QueueSpecificSongSchema,
   QueueMultipleSongsSchema,
@@ -32,17 +33,12 @@ import {
 /**
  * Generate OpenAI schema for the unified music command
  * Note: OpenAI's structured output has limitations with discriminated unions,
- * so we use a flattened schema that includes ALL fields from ALL intents.
- * This ensures compatibility while preserving all functionality including clarification_mode.
+ * so the union is flattened into one object with ALL fields from ALL intents.
+ * The flat schema is generated from the intent schemas (see schemas/converters.ts),
+ * so new intents are picked up without editing this file.
  */
-
-// Import the new flattened schema for OpenAI compatibility  
-// This includes ALL intents including clarification_mode which was missing from legacy
-import { OpenAIFlattenedMusicCommandSchema } from './schemas/openai-flattened';
-
-// Use the new flattened schema that includes all intents including clarification_mode
 export const OpenAIUnifiedSchema = zodResponseFormat(
-  OpenAIFlattenedMusicCommandSchema,
+  FlatMusicCommandSchema,
   'music_command'
 );
 
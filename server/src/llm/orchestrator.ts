@@ -3,6 +3,9 @@ import { z } from 'zod';
 import { normalizeLLMResponse } from './normalizer';
 import { GeminiService } from './providers/GeminiService';
 import { OpenAIProvider, OPENAI_MODELS } from './providers/OpenAIProvider';
+import { FixtureProvider, createFixtureProviderFromEnv } from './providers/FixtureProvider';
+import { LocalProvider, createLocalProviderFromEnv, isLocalModel } from './providers/LocalProvider';
+import { CircuitBreaker, CircuitBreakerSnapshot, CircuitFailureKind } from './circuit-breaker';
 import { validateIntent, ValidationOptions } from './intent-validator';
 import { validateMusicCommand } from './validation/command-validator';
 import { LLMLoggingService } from '../services/llm-logging.service';
@@ -31,6 +34,8 @@ export interface LLMRequest {
   schema?: z.ZodSchema;
   conversationContext?: string; // DEPRECATED: Use messages array directly for conversation history
   skipValidation?: boolean; // Skip intent validation for non-command responses (e.g., playlist discovery)
+  fallbackChain?: string[]; // Models to try in order if the requested model fails (overrides the global chain)
+  familyMode?: boolean; // Ask for clean songs only (providers that build their own system prompt)
   // GPT-5 specific parameters
   reasoning_effort?: 'minimal' | 'low' | 'medium' | 'high';
   verbosity?: 'low' | 'medium' | 'high';
@@ -45,7 +50,9 @@ export interface LLMResponse {
   };
   model: string;
   provider: string;
-  flow?: 'openrouter' | 'gemini-direct' | 'openai-direct';
+  flow?: 'openrouter' | 'gemini-direct' | 'openai-direct' | 'local' | 'fixture';
+  fallbackUsed?: boolean;  // True when a model from the fallback chain answered
+  actualModel?: string;    // Model that actually produced the response
   rawResponse?: any;  // Complete raw response before processing
   fullRequest?: any;  // Complete request object
   processingSteps?: Array<{
@@ -55,6 +62,9 @@ export interface LLMResponse {
   }>;
 }
 
+// Receives incremental text as a streamed completion arrives
+export type LLMStreamHandler = (delta: string) => void;
+
 // OpenRouter Models (Updated 2025-07-12)
 export const OPENROUTER_MODELS = {
   // Anthropic Claude Models
@@ -142,10 +152,15 @@ export class LLMOrchestrator {
   private initialized = false;
   private geminiService: GeminiService | null = null;
   private openaiService: OpenAIProvider | null = null;
+  private localProvider: LocalProvider | null = null;
   private loggingService: LLMLoggingService | null = null;
+  private fixtureProvider: FixtureProvider | null = null;
+  private fallbackChain: string[];
+  private circuitBreakers = new Map<string, CircuitBreaker>();
   
   constructor() {
     this.defaultModel = OPENROUTER_MODELS.GEMINI_2_5_FLASH;
+    this.fallbackChain = parseModelList(process.env.LLM_FALLBACK_CHAIN);
   }
 
   private ensureInitialized() {
@@ -156,6 +171,14 @@ export class LLMOrchestrator {
   }
 
   private setupProviders() {
+    // Recorded fixtures (LLM_FIXTURE_MODE=replay|record) for offline runs and tests
+    if (!this.fixtureProvider) {
+      this.fixtureProvider = createFixtureProviderFromEnv();
+      if (this.fixtureProvider) {
+        console.log(`🎞️ LLM fixtures enabled (${this.fixtureProvider.mode}) from ${this.fixtureProvider.directory}`);
+      }
+    }
+
     // Google AI Direct (for Gemini models with native grounding)
     if (process.env.GEMINI_API_KEY) {
       this.geminiService = new GeminiService({
@@ -189,6 +212,19 @@ export class LLMOrchestrator {
       console.log('⚠️ OPENAI_API_KEY not set, OpenAI Provider disabled');
     }
 
+    // Self-hosted OpenAI-compatible server (LOCAL_LLM_BASE_URL), models exposed as local/<name>
+    if (!this.localProvider) {
+      try {
+        this.localProvider = createLocalProviderFromEnv();
+        if (this.localProvider) {
+          console.log(`🏠 Local LLM enabled at ${this.localProvider.baseURL}: ${this.localProvider.models.join(', ')}`);
+        }
+      } catch (error) {
+        console.error('❌ Failed to initialize local LLM provider:', error instanceof Error ? error.message : error);
+        this.localProvider = null;
+      }
+    }
+
     // OpenRouter (supports all models)
     if (process.env.OPENROUTER_API_KEY) {
       this.providers.push({
@@ -232,20 +268,280 @@ export class LLMOrchestrator {
       console.log(`📜 Extended message history: ${request.messages.length - 2} conversation turns`);
     }
 
-    // Try the specified model only - no fallbacks
-    try {
-      const response = await this.callModel(model, request);
+    // Replay mode never touches the network
+    if (this.fixtureProvider?.mode === 'replay') {
+      const response = await this.fixtureProvider.complete({ ...request, model });
+      return { ...response, flow: 'fixture' };
+    }
+
+    // Try the requested model, then each model in the fallback chain
+    const candidates = this.buildCandidateChain(model, request.fallbackChain);
+    const failures: Array<{ model: string; message: string }> = [];
+
+    for (const candidate of candidates) {
+      const providerKey = this.getProviderKey(candidate);
+      if (!providerKey) {
+        failures.push({ model: candidate, message: `No provider found for model: ${candidate}` });
+        continue;
+      }
+
+      const breaker = this.getCircuitBreaker(providerKey);
+      if (!breaker.canRequest()) {
+        console.warn(`⏭️ Skipping ${candidate} - circuit for ${providerKey} is open`);
+        failures.push({ model: candidate, message: `Circuit open for ${providerKey}` });
+        continue;
+      }
+
+      if (candidate !== model) {
+        console.log(`↪️ Falling back from ${model} to ${candidate}`);
+      }
+
+      try {
+        const response = await this.callModel(candidate, request);
+        breaker.recordSuccess();
+
+        if (this.fixtureProvider?.mode === 'record') {
+          try {
+            await this.fixtureProvider.record({ ...request, model }, response);
+          } catch (recordError) {
+            // Recording is best-effort - never fail the request because of it
+            console.warn('⚠️ Failed to record LLM fixture:', recordError);
+          }
+        }
+
+        return {
+          ...response,
+          fallbackUsed: candidate !== model,
+          actualModel: candidate
+        };
+      } catch (error) {
+        const errorMessage = this.extractErrorMessage(error);
+        console.error(`Model ${candidate} failed:`, error);
+        breaker.recordFailure(this.classifyFailure(error));
+        failures.push({ model: candidate, message: errorMessage });
+      }
+    }
+
+    // Create a descriptive error message for the frontend
+    const [primary, ...fallbacks] = failures;
+    if (fallbacks.length > 0) {
+      const fallbackSummary = fallbacks.map(f => `${f.model}: ${f.message}`).join('; ');
+      throw new Error(`${model} failed: ${primary.message} (fallbacks failed: ${fallbackSummary})`);
+    }
+    throw new Error(`${model} failed: ${primary.message}`);
+  }
+
+  /**
+   * Stream a plain-text completion, calling onDelta as tokens arrive.
+   * Falls back to complete() (with its fallback chain) if streaming fails before any
+   * text was produced, and emits the whole answer as a single delta in that case.
+   */
+  async completeStream(request: LLMRequest, onDelta: LLMStreamHandler): Promise<LLMResponse> {
+    this.ensureInitialized();
+    const model = request.model || this.defaultModel;
+
+    // Fixtures and JSON responses are not streamed
+    if (this.fixtureProvider || request.response_format?.type === 'json_object') {
+      const response = await this.complete(request);
+      onDelta(response.content);
       return response;
-    } catch (error) {
-      const errorMessage = this.extractErrorMessage(error);
-      console.error(`Model ${model} failed:`, error);
-      
-      // Create a descriptive error message for the frontend
-      throw new Error(`${model} failed: ${errorMessage}`);
     }
+
+    const providerKey = this.getProviderKey(model);
+    const breaker = providerKey ? this.getCircuitBreaker(providerKey) : null;
+    let streamedText = false;
+
+    if (providerKey && breaker?.canRequest()) {
+      try {
+        const response = await this.streamModel(providerKey, model, request, delta => {
+          streamedText = true;
+          onDelta(delta);
+        });
+        breaker.recordSuccess();
+        console.log(`📤 ${model} streamed response:`, response.content.substring(0, 200));
+        return { ...response, fallbackUsed: false, actualModel: model };
+      } catch (error) {
+        console.error(`Streaming ${model} failed:`, error);
+        breaker.recordFailure(this.classifyFailure(error));
+        if (streamedText) {
+          // The client already has a partial answer - don't append a second one
+          throw new Error(`${model} failed: ${this.extractErrorMessage(error)}`);
+        }
+      }
+    }
+
+    const response = await this.complete(request);
+    onDelta(response.content);
+    return response;
+  }
+
+  private async streamModel(
+    providerKey: string,
+    model: string,
+    request: LLMRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    if (providerKey === 'local' && this.localProvider) {
+      console.log(`🔄 Streaming ${model} via local LLM`);
+      const response = await this.localProvider.stream(request, onDelta);
+      return { ...response, flow: 'local' };
+    }
+
+    if (providerKey === 'gemini-direct' && this.geminiService) {
+      console.log(`🔄 Streaming ${model} via Google AI Direct API`);
+      const response = await this.geminiService.stream(request, onDelta);
+      return { ...response, flow: 'gemini-direct' };
+    }
+
+    if (providerKey === 'openai-direct' && this.openaiService) {
+      console.log(`🔄 Streaming ${model} via OpenAI Direct API`);
+      const response = await this.openaiService.stream(request, onDelta);
+      return { ...response, flow: 'openai-direct' };
+    }
+
+    const provider = this.providers.find(p => p.name === providerKey);
+    if (!provider || provider.name !== 'openrouter') {
+      throw new Error(`Streaming not supported for model: ${model}`);
+    }
+    console.log(`🔄 Streaming ${model} via ${provider.name}`);
+    return this.streamOpenRouter(provider, model, request, onDelta);
+  }
+
+  /**
+   * OpenRouter streams OpenAI-style server-sent events: "data: {...}" lines ending with "data: [DONE]"
+   */
+  private async streamOpenRouter(
+    provider: LLMProvider,
+    model: string,
+    request: LLMRequest,
+    onDelta: LLMStreamHandler
+  ): Promise<LLMResponse> {
+    const requestBody = { ...this.prepareRequest(provider, model, request), stream: true };
+    const response = await axios.post(
+      `${provider.baseURL}/chat/completions`,
+      requestBody,
+      {
+        headers: {
+          'Authorization': `Bearer ${provider.apiKey}`,
+          'Content-Type': 'application/json',
+          'HTTP-Referer': 'https://djforge.app', // Required for OpenRouter
+          'X-Title': 'DJForge Music Controller', // Optional for OpenRouter
+        },
+        timeout: provider.timeout || 30000,
+        responseType: 'stream'
+      }
+    );
+
+    let content = '';
+    let usage: LLMResponse['usage'];
+    let actualModel = model;
+    let buffer = '';
+
+    for await (const chunk of response.data as AsyncIterable<Buffer>) {
+      buffer += chunk.toString('utf-8');
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) {
+          continue; // Comments (": OPENROUTER PROCESSING") and blank keep-alive lines
+        }
+        const payload = data.substring(5).trim();
+        if (payload === '[DONE]') {
+          continue;
+        }
+
+        const event = JSON.parse(payload);
+        const delta = event.choices?.[0]?.delta?.content || '';
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        usage = event.usage || usage;
+        actualModel = event.model || actualModel;
+      }
+    }
+
+    return {
+      content,
+      usage,
+      model: actualModel,
+      provider: provider.name,
+      flow: 'openrouter',
+      fullRequest: { ...request, model, provider: provider.name, requestBody }
+    };
+  }
+
+  /**
+   * Requested model first, then the per-request or global fallback chain (deduplicated)
+   */
+  private buildCandidateChain(model: string, requestChain?: string[]): string[] {
+    const chain = requestChain && requestChain.length > 0 ? requestChain : this.fallbackChain;
+    return [model, ...chain].filter((candidate, index, all) => all.indexOf(candidate) === index);
+  }
+
+  /**
+   * Which provider would serve a model - circuit breakers are kept per provider
+   */
+  private getProviderKey(model: string): string | null {
+    if (isLocalModel(model)) {
+      return this.localProvider?.handles(model) ? 'local' : null;
+    }
+    if (this.isGeminiModel(model) && this.geminiService) {
+      return 'gemini-direct';
+    }
+    if (this.isOpenAIDirectModel(model) && this.openaiService) {
+      return 'openai-direct';
+    }
+    const provider = this.providers.find(p => 
+      p.models.some(m => m === model || model.includes(m))
+    );
+    return provider?.name || null;
+  }
+
+  private getCircuitBreaker(providerKey: string): CircuitBreaker {
+    let breaker = this.circuitBreakers.get(providerKey);
+    if (!breaker) {
+      breaker = new CircuitBreaker(providerKey, {
+        failureThreshold: parseInt(process.env.LLM_CIRCUIT_FAILURE_THRESHOLD || '3', 10),
+        cooldownMs: parseInt(process.env.LLM_CIRCUIT_COOLDOWN_MS || '60000', 10)
+      });
+      this.circuitBreakers.set(providerKey, breaker);
+    }
+    return breaker;
+  }
+
+  private classifyFailure(error: any): CircuitFailureKind {
+    if (axios.isAxiosError(error) && error.code === 'ECONNABORTED') {
+      return 'timeout';
+    }
+    const message = (error?.message || '').toLowerCase();
+    return message.includes('timeout') || message.includes('timed out') ? 'timeout' : 'error';
   }
 
   private async callModel(model: string, request: LLMRequest): Promise<LLMResponse> {
+    // Self-hosted models never go to a hosted provider, even when the name looks like one
+    if (isLocalModel(model)) {
+      if (!this.localProvider?.handles(model)) {
+        throw new Error(`No provider found for model: ${model}`);
+      }
+      console.log(`🔄 Routing ${model} to local LLM at ${this.localProvider.baseURL}`);
+      try {
+        const response = await this.localProvider.complete({ ...request, model });
+
+        if (request.response_format?.type === 'json_object' && !request.skipValidation && !request.schema) {
+          this.validateAndLogResponse(response, 'local', model);
+        }
+
+        console.log(`📤 ${model} response:`, response.content.substring(0, 200));
+        return { ...response, flow: 'local' };
+      } catch (error) {
+        console.error(`Local LLM failed for ${model}:`, error);
+        throw new Error(`Local LLM failed: ${this.extractErrorMessage(error)}`);
+      }
+    }
+
     // Check if this is a Gemini model that should use direct API
     if (this.isGeminiModel(model) && this.geminiService) {
       console.log(`🔄 Routing ${model} to Google AI Direct API (Native Structured Output)`);
@@ -688,6 +984,10 @@ export class LLMOrchestrator {
 
   // Helper method to check if a model supports JSON mode
   isJSONCapable(model: string): boolean {
+    if (isLocalModel(model)) {
+      const capabilities = this.localProvider?.capabilities;
+      return !!capabilities && (capabilities.jsonMode || capabilities.structuredOutput);
+    }
     return JSON_CAPABLE_MODELS.has(model);
   }
 
@@ -719,6 +1019,8 @@ export class LLMOrchestrator {
       models.add(OPENAI_MODELS.GPT_5_MINI);
       models.add(OPENAI_MODELS.GPT_5_NANO);
     }
+
+    this.getLocalModels().forEach(model => models.add(model));
     
     return Array.from(models);
   }
@@ -729,6 +1031,36 @@ export class LLMOrchestrator {
     this.defaultModel = model;
   }
 
+  // Set the global fallback chain (used when a request doesn't carry its own)
+  setFallbackChain(models: string[]) {
+    this.fallbackChain = [...models];
+  }
+
+  getFallbackChain(): string[] {
+    return [...this.fallbackChain];
+  }
+
+  // Current circuit breaker state for every provider that has been called
+  getCircuitBreakerStates(): CircuitBreakerSnapshot[] {
+    return Array.from(this.circuitBreakers.values()).map(breaker => breaker.getSnapshot());
+  }
+
+  // Models served by the self-hosted provider (local/<name>), empty when none is configured
+  getLocalModels(): string[] {
+    this.ensureInitialized();
+    return this.localProvider ? [...this.localProvider.models] : [];
+  }
+
+  // Set (or clear) the self-hosted provider
+  setLocalProvider(localProvider: LocalProvider | null) {
+    this.localProvider = localProvider;
+  }
+
+  // Set (or clear) the fixture provider used for replay/record
+  setFixtureProvider(fixtureProvider: FixtureProvider | null) {
+    this.fixtureProvider = fixtureProvider;
+  }
+
   // Set logging service
   setLoggingService(loggingService: LLMLoggingService) {
     this.loggingService = loggingService;
@@ -773,7 +1105,7 @@ export class LLMOrchestrator {
    */
   private validateAndLogResponse(
     response: LLMResponse, 
-    source: 'openrouter' | 'gemini-direct' | 'openai-direct',
+    source: 'openrouter' | 'gemini-direct' | 'openai-direct' | 'local',
     model: string
   ): void {
     try {
@@ -809,6 +1141,14 @@ export class LLMOrchestrator {
   // Get provider info for a model
   getProviderInfo(model: string): { provider: string; isDirect: boolean; supportsGrounding: boolean } {
     this.ensureInitialized();
+
+    if (isLocalModel(model)) {
+      return {
+        provider: this.localProvider?.handles(model) ? 'local' : 'unknown',
+        isDirect: true,
+        supportsGrounding: false
+      };
+    }
     
     if (this.isGeminiModel(model) && this.geminiService) {
       return {
@@ -838,6 +1178,11 @@ export class LLMOrchestrator {
   }
 }
 
+// Parse a comma-separated model list (e.g. LLM_FALLBACK_CHAIN)
+function parseModelList(value?: string): string[] {
+  return (value || '').split(',').map(m => m.trim()).filter(Boolean);
+}
+
 // Singleton instance
 export const llmOrchestrator = new LLMOrchestrator();
 
@@ -0,0 +1,118 @@
+import { ExecutionOrder, StepFailurePolicy } from './intent-types';
+
+export interface PlanStepResult {
+  step: number;          // 1-based position in the plan
+  intent: string;
+  success: boolean;
+  skipped: boolean;      // Not run because an earlier step failed under the 'stop' policy
+  message: string;
+  result?: any;          // Raw result from the single-intent executor
+}
+
+export interface CommandPlanResult {
+  success: boolean;
+  message: string;
+  steps: PlanStepResult[];
+  stoppedEarly: boolean;
+}
+
+export interface CommandPlan {
+  steps: any[];
+  executionOrder?: ExecutionOrder;
+  onStepFailure?: StepFailurePolicy;
+}
+
+export type PlanStepRunner = (step: any, index: number) => Promise<{ success: boolean; message?: string }>;
+
+/**
+ * Execute an ordered plan of single intents.
+ * Each step goes through runStep (the normal single-command path). A thrown error
+ * counts as a failed step. With onStepFailure 'stop' (the default) the remaining
+ * steps of a sequential plan are reported as skipped; parallel plans always run
+ * every step. onStepResult fires once per step, in plan order for sequential plans.
+ */
+export async function executeCommandPlan(
+  plan: CommandPlan,
+  runStep: PlanStepRunner,
+  onStepResult?: (result: PlanStepResult) => void
+): Promise<CommandPlanResult> {
+  const steps = Array.isArray(plan.steps) ? plan.steps : [];
+  const policy = plan.onStepFailure || 'stop';
+
+  if (steps.length === 0) {
+    return {
+      success: false,
+      message: 'The plan did not contain any steps',
+      steps: [],
+      stoppedEarly: false
+    };
+  }
+
+  const runOne = async (step: any, index: number): Promise<PlanStepResult> => {
+    const intent = step?.intent || 'unknown';
+    let stepResult: PlanStepResult;
+    try {
+      const result = await runStep(step, index);
+      stepResult = {
+        step: index + 1,
+        intent,
+        success: !!result?.success,
+        skipped: false,
+        message: result?.message || (result?.success ? 'Done' : 'Failed'),
+        result
+      };
+    } catch (error) {
+      stepResult = {
+        step: index + 1,
+        intent,
+        success: false,
+        skipped: false,
+        message: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+    onStepResult?.(stepResult);
+    return stepResult;
+  };
+
+  const results: PlanStepResult[] = [];
+  let stoppedEarly = false;
+
+  if (plan.executionOrder === 'parallel') {
+    results.push(...await Promise.all(steps.map((step, index) => runOne(step, index))));
+  } else {
+    for (let i = 0; i < steps.length; i++) {
+      if (stoppedEarly) {
+        results.push({
+          step: i + 1,
+          intent: steps[i]?.intent || 'unknown',
+          success: false,
+          skipped: true,
+          message: `Skipped because step ${results.findIndex(r => !r.success) + 1} failed`
+        });
+        continue;
+      }
+
+      const result = await runOne(steps[i], i);
+      results.push(result);
+      if (!result.success && policy === 'stop') {
+        stoppedEarly = true;
+      }
+    }
+  }
+
+  return {
+    success: results.every(r => r.success),
+    message: summarizePlan(results),
+    steps: results,
+    stoppedEarly
+  };
+}
+
+function summarizePlan(results: PlanStepResult[]): string {
+  const lines = results.map(r => {
+    const icon = r.skipped ? '⏭️' : r.success ? '✅' : '❌';
+    return `${icon} ${r.step}. ${r.message}`;
+  });
+  const succeeded = results.filter(r => r.success).length;
+  return `Completed ${succeeded} of ${results.length} steps\n\n${lines.join('\n')}`;
+}
@@ -0,0 +1,114 @@
+import { TokenUsage } from '../services/llm-logging.service';
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices for every model in OPENROUTER_MODELS and OPENAI_MODELS (as of
+ * 2025-08, OpenRouter pass-through prices). Keyed by model ID rather than the
+ * constants so the logging service can use it without importing the
+ * orchestrator.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Anthropic
+  'anthropic/claude-opus-4': { input: 15, output: 75 },
+  'anthropic/claude-sonnet-4': { input: 3, output: 15 },
+  'anthropic/claude-4-haiku': { input: 1, output: 5 },
+
+  // Google
+  'google/gemini-2.5-pro': { input: 1.25, output: 10 },
+  'google/gemini-2.5-pro-preview': { input: 1.25, output: 10 },
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-2.5-flash-lite-preview-06-17': { input: 0.1, output: 0.4 },
+
+  // Meta
+  'meta-llama/llama-guard-4-12b': { input: 0.05, output: 0.05 },
+
+  // Mistral
+  'mistralai/mistral-medium-3': { input: 0.4, output: 2 },
+  'mistralai/devstral-medium': { input: 0.4, output: 2 },
+  'mistralai/devstral-small': { input: 0.07, output: 0.28 },
+  'mistralai/devstral-small-2505': { input: 0.06, output: 0.12 },
+  'mistralai/magistral-small-2506': { input: 0.5, output: 1.5 },
+  'mistralai/magistral-medium-2506': { input: 2, output: 5 },
+  'mistralai/mistral-small-3.2-24b-instruct': { input: 0.05, output: 0.1 },
+
+  // DeepSeek
+  'deepseek/deepseek-r1-distill-qwen-7b': { input: 0.1, output: 0.2 },
+  'deepseek/deepseek-r1-0528-qwen3-8b': { input: 0.02, output: 0.1 },
+  'deepseek/deepseek-r1-0528': { input: 0.5, output: 2.15 },
+  'deepseek/deepseek-prover-v2': { input: 0.5, output: 2.18 },
+
+  // X.AI
+  'x-ai/grok-4': { input: 3, output: 15 },
+  'x-ai/grok-3': { input: 3, output: 15 },
+  'x-ai/grok-3-mini': { input: 0.3, output: 0.5 },
+
+  // Qwen
+  'qwen/qwen3-235b-a22b': { input: 0.13, output: 0.6 },
+  'qwen/qwen3-32b': { input: 0.1, output: 0.3 },
+  'qwen/qwen3-14b': { input: 0.06, output: 0.24 },
+  'qwen/qwen3-8b': { input: 0.035, output: 0.138 },
+  'qwen/qwen3-4b': { input: 0.02, output: 0.08 },
+
+  // OpenAI direct
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1-2025-04-14': { input: 2, output: 8 }
+};
+
+const FREE: ModelPricing = { input: 0, output: 0 };
+
+// The same model is named with and without its vendor prefix depending on the
+// flow (google/gemini-2.5-flash on OpenRouter, gemini-2.5-flash direct)
+function bareName(model: string): string {
+  return model.slice(model.indexOf('/') + 1);
+}
+
+/**
+ * Price of a model, or null when it isn't in the table
+ */
+export function getModelPricing(model: string | undefined | null): ModelPricing | null {
+  if (!model) return null;
+  // Self-hosted models (local/<name>, see LocalProvider) cost nothing per token
+  if (model.startsWith('local/')) return FREE;
+
+  const [id, variant] = model.toLowerCase().split(':');
+  if (variant === 'free') return FREE;
+  if (MODEL_PRICING[id]) return MODEL_PRICING[id];
+
+  const bare = bareName(id);
+  const match = Object.keys(MODEL_PRICING).find(key => bareName(key) === bare);
+  return match ? MODEL_PRICING[match] : null;
+}
+
+/**
+ * Cost in USD of one call, 0 when the model or the token counts are unknown
+ */
+export function estimateCost(model: string | undefined | null, usage?: TokenUsage | null): number {
+  const pricing = getModelPricing(model);
+  if (!pricing || !usage) return 0;
+
+  const input = usage.prompt_tokens || 0;
+  const output = usage.completion_tokens ?? Math.max((usage.total_tokens || 0) - input, 0);
+  return (input * pricing.input + output * pricing.output) / 1_000_000;
+}
+
+/**
+ * Whether `candidate` costs less than `model` for a typical command
+ * (prompt-heavy: system prompt and context dwarf the JSON answer). A model
+ * missing from the table could cost anything, so any priced candidate wins.
+ */
+export function isCheaperModel(candidate: string, model: string): boolean {
+  const candidatePrice = getModelPricing(candidate);
+  const modelPrice = getModelPricing(model);
+  if (!candidatePrice) return false;
+  if (!modelPrice) return true;
+
+  const typical = (p: ModelPricing) => p.input * 10 + p.output;
+  return typical(candidatePrice) < typical(modelPrice);
+}
@@ -1,25 +1,46 @@
-import { UnifiedPrompt, UNIFIED_MUSIC_PROMPT, getAllExamplesFormatted, getExamplesForIntent } from './unified-prompt';
-import { INTENT_EXAMPLES } from './examples';
+import { PromptOptions, UNIFIED_MUSIC_PROMPT, getAllExamplesFormatted, getExamplesForIntent } from './unified-prompt';
+
+// Empty unless family mode is on, so the default prompts are unchanged
+function familyModeSection(options: PromptOptions): string {
+  return options.familyMode ? `${(options.prompt || UNIFIED_MUSIC_PROMPT).familyModeInstructions}\n` : '';
+}
 
 export class PromptAdapter {
+  /**
+   * The command interpreter's prompt for a model: Gemini gets its own format,
+   * everything else the OpenRouter one
+   */
+  static forModel(
+    model: string | undefined,
+    userRequest: string,
+    tasteProfile?: string,
+    conversationContext?: string,
+    options: PromptOptions = {}
+  ): string {
+    return model?.includes('gemini')
+      ? PromptAdapter.forGemini(userRequest, tasteProfile, conversationContext, options)
+      : PromptAdapter.forOpenRouter(userRequest, tasteProfile, conversationContext, options);
+  }
+
   /**
    * Format prompt for OpenRouter/Claude (text-based with JSON examples)
    */
   static forOpenRouter(
     userRequest: string,
     tasteProfile?: string,
-    conversationContext?: string
+    conversationContext?: string,
+    options: PromptOptions = {}
   ): string {
-    const prompt = UNIFIED_MUSIC_PROMPT;
+    const prompt = options.prompt || UNIFIED_MUSIC_PROMPT;
     
     let formattedPrompt = `${prompt.base}
 
 IMPORTANT: You must respond with valid JSON that matches one of the intent schemas below.
 
-${getAllExamplesFormatted()}
+${getAllExamplesFormatted(prompt.examples)}
 
 ${prompt.contextInstructions}
-
+${familyModeSection(options)}
 ### User Request (PRIMARY - HIGHEST PRIORITY) ###
 ${userRequest}`;
 
@@ -51,9 +72,10 @@ REMINDER: Respond with valid JSON matching one of the intent schemas shown above
   static forOpenAI(
     userRequest: string,
     tasteProfile?: string,
-    conversationContext?: string
+    conversationContext?: string,
+    options: PromptOptions = {}
   ): string {
-    const prompt = UNIFIED_MUSIC_PROMPT;
+    const prompt = options.prompt || UNIFIED_MUSIC_PROMPT;
     
     // OpenAI with structured output needs cleaner prompt without JSON formatting instructions
     let formattedPrompt = `${prompt.base}
@@ -65,7 +87,7 @@ ${Object.entries(prompt.rules).map(([intent, rules]) => `
 ${rules.map(r => `- ${r}`).join('\n')}`).join('\n')}
 
 ${prompt.contextInstructions}
-
+${familyModeSection(options)}
 # CONTEXT SECTIONS
 
 ## User Request (PRIMARY - HIGHEST PRIORITY)
@@ -91,7 +113,7 @@ Note: Only use this if the user request is vague. NEVER let this override specif
 
 # INTENT EXAMPLES
 
-${Object.entries(INTENT_EXAMPLES).slice(0, 5).map(([intent, data]: [string, any]) => `
+${Object.entries(prompt.examples).slice(0, 5).map(([intent, data]: [string, any]) => `
 ${intent}: ${data.description}
 Required fields: ${Object.keys(data.example).filter(k => k !== 'confidence' && k !== 'reasoning' && k !== 'modifiers' && k !== 'alternatives').join(', ')}`).join('\n')}
 
@@ -110,9 +132,10 @@ CRITICAL REMINDERS:
   static forGemini(
     userRequest: string,
     tasteProfile?: string,
-    conversationContext?: string
+    conversationContext?: string,
+    options: PromptOptions = {}
   ): string {
-    const prompt = UNIFIED_MUSIC_PROMPT;
+    const prompt = options.prompt || UNIFIED_MUSIC_PROMPT;
     
     // Gemini handles structure through responseSchema, so focus on intent selection
     let formattedPrompt = `${prompt.base}
@@ -123,7 +146,7 @@ Your response will be structured according to a predefined schema. Focus on:
 3. Providing accurate confidence scores
 
 ${prompt.contextInstructions}
-
+${familyModeSection(options)}
 ### User Request (PRIMARY) ###
 ${userRequest}`;
 
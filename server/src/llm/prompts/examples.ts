@@ -32,7 +32,70 @@ export const INTENT_EXAMPLES = {
     },
     rules: [
       "MUST provide both artist and track fields",
-      "Use for 'add to queue', 'queue this', 'play next' commands"
+      "Use for 'add to queue', 'queue this', 'play next' commands",
+      "Set insertNext to true for 'play X next' / 'after this song'"
+    ]
+  },
+  
+  remove_from_queue: {
+    description: "Remove a track from the queue",
+    example: {
+      intent: "remove_from_queue",
+      query: "Circle the Drain",      // Track name, OR
+      queuePosition: null,           // 1-based position
+      confidence: 0.9,
+      reasoning: "User wants this song taken out of the queue"
+    },
+    rules: [
+      "Use for 'remove X from the queue', 'take out the third song', 'drop that last one'",
+      "Provide query (track/artist name) or queuePosition"
+    ]
+  },
+  
+  move_in_queue: {
+    description: "Reorder a queued track",
+    example: {
+      intent: "move_in_queue",
+      query: "Circle the Drain",
+      toPosition: 1,                 // REQUIRED: 1 = play next
+      confidence: 0.9,
+      reasoning: "User wants this queued song to play next"
+    },
+    rules: [
+      "Use for 'move X up', 'play the queued X next', 'move the last song to the front'",
+      "Provide query or queuePosition for the track, and toPosition (1 = next)"
+    ]
+  },
+  
+  add_to_playlist: {
+    description: "Add tracks to one of the user's playlists",
+    example: {
+      intent: "add_to_playlist",
+      playlistName: "Running",        // REQUIRED: as the user said it
+      trackSource: "current",         // current | recent | track
+      confidence: 0.9,
+      reasoning: "User wants the current song saved to their Running playlist"
+    },
+    rules: [
+      "Use for 'add this to my Running playlist', 'save this song to Chill', 'put Hurt by Johnny Cash on my Gym playlist'",
+      "'make a playlist of the last 10 songs' is trackSource recent with trackCount 10 - give playlistName the name the user asked for, or a short fitting one",
+      "trackSource track needs artist and track",
+      "Set confirmCreate to true ONLY when the user is saying yes to your offer to create a playlist that doesn't exist; repeat the playlistName from that offer"
+    ]
+  },
+  
+  remove_from_playlist: {
+    description: "Remove a track from one of the user's playlists",
+    example: {
+      intent: "remove_from_playlist",
+      playlistName: "Chill",          // REQUIRED
+      trackSource: "current",         // current | track
+      confidence: 0.9,
+      reasoning: "User wants the current song out of their Chill playlist"
+    },
+    rules: [
+      "Use for 'remove this from Chill', 'take Hurt off my Gym playlist'",
+      "trackSource track needs the track name (artist optional)"
     ]
   },
   
@@ -184,6 +247,65 @@ export const INTENT_EXAMPLES = {
     ]
   },
   
+  undo: {
+    description: "Revert the previous action",
+    example: {
+      intent: "undo",
+      confidence: 0.95,
+      reasoning: "User wants to go back to what was playing before"
+    },
+    rules: [
+      "Use for 'undo that', 'go back to what I was listening to', 'never mind, put it back'",
+      "Do NOT use for 'previous song' - that is previous",
+      "No additional fields required"
+    ]
+  },
+  
+  schedule_action: {
+    description: "Schedule a playback action for later (sleep timer, fade out, timed playlist)",
+    example: {
+      intent: "schedule_action",
+      scheduleAction: "fade_out",     // REQUIRED: pause | fade_out | play_playlist | set_volume | resume
+      scheduleTrigger: "delay",       // REQUIRED: delay | at_time | end_of_track | end_of_context
+      delayMinutes: 30,               // REQUIRED for delay
+      fadeSeconds: 60,
+      confidence: 0.9,
+      reasoning: "User wants the music to fade out in 30 minutes"
+    },
+    rules: [
+      "Use for 'stop the music in 30 minutes', 'fade out after this album', 'play my morning playlist at 7:00'",
+      "'after this song' is end_of_track; 'after this album/playlist' is end_of_context",
+      "at_time needs atTime as 24h HH:MM (e.g. '07:00')",
+      "play_playlist needs query with the playlist name; set_volume needs volume_level"
+    ]
+  },
+  
+  get_scheduled_actions: {
+    description: "List pending scheduled actions",
+    example: {
+      intent: "get_scheduled_actions",
+      confidence: 0.9,
+      reasoning: "User wants to know what timers are set"
+    },
+    rules: [
+      "Use for 'what timers do I have', 'is a sleep timer set?'",
+      "No additional fields required"
+    ]
+  },
+  
+  cancel_scheduled_actions: {
+    description: "Cancel pending scheduled actions",
+    example: {
+      intent: "cancel_scheduled_actions",
+      confidence: 0.9,
+      reasoning: "User wants to cancel the sleep timer"
+    },
+    rules: [
+      "Use for 'cancel the sleep timer', 'never mind the fade out'",
+      "Set scheduleAction to cancel only that kind of action; omit it to cancel everything"
+    ]
+  },
+  
   search: {
     description: "Search without playing",
     example: {
@@ -198,6 +320,32 @@ export const INTENT_EXAMPLES = {
     ]
   },
   
+  multi_step_plan: {
+    description: "When user chains several actions in one request",
+    example: {
+      intent: "multi_step_plan",
+      steps: [  // REQUIRED array, executed in order
+        { intent: "play_specific_song", artist: "Radiohead", track: "Reckoner", confidence: 0.9, reasoning: "User asked for this song first" },
+        { intent: "queue_multiple_songs", songs: [
+          { artist: "Thom Yorke", track: "Dawn Chorus" },
+          { artist: "Atoms for Peace", track: "Default" },
+          { artist: "The Smile", track: "Free in the Knowledge" }
+        ], theme: "similar to Reckoner", confidence: 0.85, reasoning: "Three songs in the same vein" },
+        { intent: "set_volume", volume_level: 40, confidence: 0.95, reasoning: "User specified volume level" }
+      ],
+      executionOrder: "sequential",
+      onStepFailure: "stop",
+      confidence: 0.9,
+      reasoning: "User asked for three actions in sequence"
+    },
+    rules: [
+      "Use ONLY when the request contains 2-6 distinct actions ('play X, then ...', '... and set volume to Y')",
+      "Each step MUST be a complete command with all required fields for its intent",
+      "Steps cannot be chat, ask_question, clarification_mode or another multi_step_plan",
+      "Use onStepFailure 'continue' only when later steps don't depend on earlier ones"
+    ]
+  },
+  
   unknown: {
     description: "Cannot determine user intent",
     example: {
@@ -1,5 +1,7 @@
 // Main exports for the unified prompt system
-export { UNIFIED_MUSIC_PROMPT, UnifiedPrompt } from './unified-prompt';
+export { UNIFIED_MUSIC_PROMPT, UnifiedPrompt, PromptOptions } from './unified-prompt';
 export { INTENT_EXAMPLES } from './examples';
 export { PromptAdapter } from './adapter';
-export { getExamplesForIntent, getAllExamplesFormatted } from './unified-prompt';
\ No newline at end of file
+export { getExamplesForIntent, getAllExamplesFormatted } from './unified-prompt';
+export { PromptRegistry, getPromptRegistry, assignVariant, stampKey } from './registry';
+export { PromptId, PromptStamp, PromptExperiment, PromptVersion } from './registry';
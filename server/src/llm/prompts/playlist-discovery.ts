@@ -0,0 +1,165 @@
+/**
+ * Prompts for the playlist discovery routes (selection from search results,
+ * single-playlist summaries and full-search assessments). Registered as
+ * versions in the prompt registry - add a new version rather than editing
+ * one in place, so logged results stay attributable.
+ */
+
+export interface PlaylistCandidate {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  trackCount: number;
+  followers: number;
+  isPublic: boolean;
+}
+
+export interface PlaylistSelectionParams {
+  query: string;
+  playlists: PlaylistCandidate[];
+  maxSelected: number;   // "select up to N"
+  minSelected: number;   // Lower end of the range asked for
+  aimFor: string;        // How many good matches to aim for, e.g. "8" or "8-10"
+}
+
+export interface PlaylistSummaryParams {
+  playlistName: string;
+  trackList: string;     // Numbered '"Track" by Artist' lines
+  uniqueArtists: string[];
+  originalQuery?: string;
+}
+
+export interface PlaylistAssessmentParams {
+  query: string;
+  playlistName: string;
+  trackList: string;     // Numbered '"Track" by Artist' lines
+  trackCount: number;    // Tracks in trackList
+  uniqueArtists: string[];
+}
+
+export interface PlaylistPrompt<TParams> {
+  system: string;
+  build: (params: TParams) => string;
+}
+
+export const PLAYLIST_SELECTION_PROMPT: PlaylistPrompt<PlaylistSelectionParams> = {
+  system: 'You are a music curator AI that analyzes playlists and selects the best matches for user queries. Always respond with valid JSON.',
+  build: ({ query, playlists, maxSelected, minSelected, aimFor }) => `User is looking for playlists matching: "${query}"
+
+Here are ${playlists.length} playlists from Spotify search results:
+
+${playlists.map((p, i) => 
+  `[${i + 1}]
+   ID: ${p.id}
+   Name: "${p.name}"
+   Description: "${p.description || 'No description'}"
+   Owner: ${p.owner}
+   Tracks: ${p.trackCount}
+   Followers: ${p.followers}
+   Public: ${p.isPublic}
+`).join('\n')}
+
+Analyze these playlists and select up to ${maxSelected} that best match the user's intent: "${query}"
+
+Consider:
+- Name relevance to the query
+- Description content and how it matches the intent
+- Track count (prefer playlists with reasonable number of tracks, avoid very small ones)
+- Follower count as a quality/popularity signal
+- Owner credibility (verified accounts or high follower counts often indicate quality)
+
+Return between ${minSelected}-${maxSelected} playlist IDs that best match the query.
+Include more playlists to provide variety and fallback options.
+Focus on quality but aim for at least ${aimFor} good matches when available.
+
+Respond with a JSON object containing:
+- selectedPlaylistIds: array of ONLY the playlist ID strings (e.g., ["035OfvPcp5PUAAogsLxsbM", "7M65Xoo7Mr0XOrF5Dpd4CX"]) without any numbers or prefixes
+- reasoning: brief explanation of why these were chosen (optional)`
+};
+
+export const PLAYLIST_SUMMARY_PROMPT: PlaylistPrompt<PlaylistSummaryParams> = {
+  system: 'You are a music analysis AI that creates engaging summaries of Spotify playlists. Always respond with valid JSON. Focus on being informative yet concise.',
+  build: ({ playlistName, trackList, uniqueArtists, originalQuery }) => `Playlist: ${playlistName}
+Tracks: 
+${trackList}
+
+Artists featured: ${uniqueArtists.join(', ')}
+${originalQuery ? `User query: ${originalQuery}` : ''}
+
+Write a 2-3 sentence description explaining:
+1. How this playlist matches the user's request${originalQuery ? ` ("${originalQuery}")` : ' or general music preferences'}
+2. What makes it unique or interesting
+3. The general mood/style
+
+Also identify key characteristics including:
+- Primary genre (single word/phrase)
+- Mood (single word/phrase) 
+- Instrumentation (array of key instruments if identifiable)
+- Tempo (slow/medium/fast/varied)
+- Decade range (e.g., "2010s-2020s", "1980s", "Various")
+
+Provide a match score (0.0-1.0) indicating how well this playlist matches the user's intent${originalQuery ? '' : ' based on general appeal'}.
+
+Respond with a JSON object containing:
+- summary: your 2-3 sentence description
+- characteristics: object with primaryGenre, mood, instrumentation (array), tempo, decadeRange
+- matchScore: number between 0.0 and 1.0
+- reasoning: brief explanation of the match score`
+};
+
+export const PLAYLIST_ASSESSMENT_PROMPT: PlaylistPrompt<PlaylistAssessmentParams> = {
+  system: 'You are an impartial music analyst providing evidence-based assessments. Goal: Explain concisely HOW and WHY a playlist matches (or does not match) the user\'s query. Tone: Analytical, neutral, objective. NO marketing language or superlatives. Output: Valid JSON only.',
+  build: ({ query, playlistName, trackList, trackCount, uniqueArtists }) => `Analyze this playlist against the user query: "${query}"
+
+Playlist: ${playlistName}
+Sample tracks (${trackCount} shown):
+${trackList}
+
+Artists featured: ${uniqueArtists.join(', ')}
+
+Provide an HONEST assessment following these rules:
+
+STYLE GUIDE - MANDATORY:
+DO:
+- Use measured language: "partially", "mostly", "about half", "roughly 60%"
+- Cite specific evidence: "7 of ${trackCount} tracks are...", "tracks like X and Y show..."
+- Acknowledge mismatches: "later tracks drift into...", "some tracks don't align..."
+
+DON'T use these words (BANNED):
+- perfect, perfectly, iconic, legendary, masterpiece, epitomizes
+- amazing, incredible, fantastic, essential, definitive
+- must-have, sultry, cruising, windows-down
+
+GOOD example: "8 of 10 sampled tracks are 90s hip-hop classics, directly matching the 'old school hip hop' query. The remaining 2 are early 2000s R&B, slightly diluting the old school focus."
+
+BAD example: "This playlist perfectly captures summer vibes with iconic anthems from legendary artists."
+
+ANALYSIS STRUCTURE:
+1. Match Analysis (2-3 sentences with evidence):
+   - What percentage/fraction of tracks align with "${query}"?
+   - Which specific elements match vs don't match?
+   - Reference actual track names or artists as evidence
+
+2. Alignment Level: Choose one: "strong" | "moderate" | "weak" | "tangential"
+
+3. Characteristics:
+   - Primary genre(s)
+   - Mood/energy 
+   - Era focus (decade or range)
+
+Respond with JSON:
+{
+  "summary": "Your evidence-based match analysis",
+  "alignmentLevel": "strong|moderate|weak|tangential",
+  "characteristics": {
+    "primaryGenre": "...",
+    "mood": "...",
+    "instrumentation": [...],
+    "tempo": "slow|medium|fast|varied",
+    "decadeRange": "..."
+  },
+  "matchScore": 0.0-1.0,
+  "reasoning": "Brief explanation of why this score"
+}`
+};
@@ -0,0 +1,207 @@
+/**
+ * Prompt Registry - Versioned Prompts and A/B Experiments
+ *
+ * Every prompt the app sends has an id and a version. Callers resolve a
+ * prompt for a user or session and get back its content plus a stamp
+ * ({ id, version, experiment }) to put on the LLMLogEntry, so results can be
+ * compared per version in /api/llm-logs/stats.
+ *
+ * To change a prompt, register a new version instead of editing the old one.
+ * The newest registered version is served by default; an experiment splits
+ * users (or sessions) between versions by a stable hash, so the same user
+ * keeps seeing the same version. Experiments come from PROMPT_EXPERIMENTS:
+ *
+ *   [{"id":"interp-2024-07","promptId":"interpreter","variants":[{"version":"v1"},{"version":"v2","weight":0.2}]}]
+ */
+
+import { createHash } from 'crypto';
+import { UnifiedPrompt, UNIFIED_MUSIC_PROMPT } from './unified-prompt';
+import {
+  PlaylistPrompt,
+  PlaylistSelectionParams,
+  PlaylistSummaryParams,
+  PlaylistAssessmentParams,
+  PLAYLIST_SELECTION_PROMPT,
+  PLAYLIST_SUMMARY_PROMPT,
+  PLAYLIST_ASSESSMENT_PROMPT
+} from './playlist-discovery';
+import { CONVERSATIONAL_ASSISTANT_PROMPT } from '../music-curator-prompts';
+
+// What each prompt id's content looks like
+export interface PromptContents {
+  'interpreter': UnifiedPrompt;
+  'conversational': string;
+  'playlist-selection': PlaylistPrompt<PlaylistSelectionParams>;
+  'playlist-summary': PlaylistPrompt<PlaylistSummaryParams>;
+  'playlist-assessment': PlaylistPrompt<PlaylistAssessmentParams>;
+}
+
+export type PromptId = keyof PromptContents;
+
+export interface PromptVersion<K extends PromptId = PromptId> {
+  id: K;
+  version: string;
+  description: string;
+  content: PromptContents[K];
+}
+
+// Which prompt version produced a result - stored on log entries and AI discoveries
+export interface PromptStamp {
+  id: string;
+  version: string;
+  experiment?: string;     // Set when an experiment picked the version
+}
+
+export interface PromptExperiment {
+  id: string;
+  promptId: PromptId;
+  variants: Array<{ version: string; weight?: number }>;  // Weights default to 1
+  assignBy?: 'user' | 'session';                           // Default: user
+}
+
+export interface ExperimentUnit {
+  userId?: string | null;
+  sessionId?: string | null;
+}
+
+export interface ResolvedPrompt<K extends PromptId> {
+  content: PromptContents[K];
+  stamp: PromptStamp;
+}
+
+// Stamps are stored as "id@version" in the daily stats, so neither may contain '@' or ':'
+const NAME_PATTERN = /^[\w.-]+$/;
+
+export class PromptRegistry {
+  private versions = new Map<PromptId, PromptVersion[]>();
+  private experiments: PromptExperiment[] = [];
+
+  /**
+   * Add a prompt version; the latest registered version of an id is its default
+   */
+  register<K extends PromptId>(prompt: PromptVersion<K>): void {
+    if (!NAME_PATTERN.test(prompt.version)) {
+      throw new Error(`Invalid prompt version "${prompt.version}" for ${prompt.id}`);
+    }
+    const versions = this.versions.get(prompt.id) || [];
+    if (versions.some(v => v.version === prompt.version)) {
+      throw new Error(`Prompt ${prompt.id}@${prompt.version} is already registered`);
+    }
+    this.versions.set(prompt.id, [...versions, prompt as PromptVersion]);
+  }
+
+  /**
+   * A specific version of a prompt, or its default
+   */
+  get<K extends PromptId>(id: K, version?: string): PromptVersion<K> {
+    const versions = this.listVersions(id);
+    const prompt = version ? versions.find(v => v.version === version) : versions[versions.length - 1];
+    if (!prompt) {
+      throw new Error(`Unknown prompt ${id}${version ? `@${version}` : ''}`);
+    }
+    return prompt;
+  }
+
+  listVersions<K extends PromptId>(id: K): PromptVersion<K>[] {
+    return (this.versions.get(id) || []) as PromptVersion<K>[];
+  }
+
+  /**
+   * Replace the running experiments. Throws if one names an unknown version,
+   * so a bad config fails loudly instead of silently serving the default.
+   */
+  setExperiments(experiments: PromptExperiment[]): void {
+    for (const experiment of experiments) {
+      if (!NAME_PATTERN.test(experiment.id)) {
+        throw new Error(`Invalid experiment id "${experiment.id}"`);
+      }
+      if (!experiment.variants?.length) {
+        throw new Error(`Experiment ${experiment.id} has no variants`);
+      }
+      for (const variant of experiment.variants) {
+        this.get(experiment.promptId, variant.version);
+      }
+    }
+    this.experiments = experiments;
+  }
+
+  getExperiments(): PromptExperiment[] {
+    return this.experiments;
+  }
+
+  /**
+   * The prompt version to use for a user/session: the variant its experiment
+   * assigns, or the default when there is no experiment (or nobody to assign)
+   */
+  resolve<K extends PromptId>(id: K, unit: ExperimentUnit = {}): ResolvedPrompt<K> {
+    const experiment = this.experiments.find(e => e.promptId === id);
+    const unitId = experiment && ((experiment.assignBy === 'session' ? unit.sessionId : unit.userId) || null);
+
+    if (experiment && unitId) {
+      const prompt = this.get(id, assignVariant(experiment, unitId));
+      return { content: prompt.content, stamp: { id, version: prompt.version, experiment: experiment.id } };
+    }
+
+    const prompt = this.get(id);
+    return { content: prompt.content, stamp: { id, version: prompt.version } };
+  }
+}
+
+/**
+ * Pick an experiment variant for a user/session - stable for the same id
+ */
+export function assignVariant(experiment: PromptExperiment, unitId: string): string {
+  const hash = createHash('sha256').update(`${experiment.id}:${unitId}`).digest();
+  const point = hash.readUInt32BE(0) / 0x100000000;  // [0, 1)
+
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + (v.weight ?? 1), 0);
+  let cumulative = 0;
+  for (const variant of experiment.variants) {
+    cumulative += (variant.weight ?? 1) / totalWeight;
+    if (point < cumulative) {
+      return variant.version;
+    }
+  }
+  return experiment.variants[experiment.variants.length - 1].version;
+}
+
+// Format a stamp as used in the stats keys
+export function stampKey(stamp: PromptStamp): string {
+  return `${stamp.id}@${stamp.version}`;
+}
+
+function registerBuiltInPrompts(registry: PromptRegistry): void {
+  registry.register({ id: 'interpreter', version: 'v1', description: 'Unified command interpreter prompt', content: UNIFIED_MUSIC_PROMPT });
+  registry.register({ id: 'conversational', version: 'v1', description: 'Music Q&A and chat answers', content: CONVERSATIONAL_ASSISTANT_PROMPT });
+  registry.register({ id: 'playlist-selection', version: 'v1', description: 'Pick playlists from Spotify search results', content: PLAYLIST_SELECTION_PROMPT });
+  registry.register({ id: 'playlist-summary', version: 'v1', description: 'Summarize a single playlist', content: PLAYLIST_SUMMARY_PROMPT });
+  registry.register({ id: 'playlist-assessment', version: 'v1', description: 'Evidence-based match assessment in full search', content: PLAYLIST_ASSESSMENT_PROMPT });
+}
+
+function parseExperiments(value: string | undefined): PromptExperiment[] {
+  if (!value) return [];
+  const parsed = JSON.parse(value);
+  if (!Array.isArray(parsed)) {
+    throw new Error('PROMPT_EXPERIMENTS must be a JSON array');
+  }
+  return parsed;
+}
+
+let sharedRegistry: PromptRegistry | null = null;
+
+/**
+ * Get the shared prompt registry (built-in prompts plus PROMPT_EXPERIMENTS)
+ */
+export function getPromptRegistry(): PromptRegistry {
+  if (!sharedRegistry) {
+    sharedRegistry = new PromptRegistry();
+    registerBuiltInPrompts(sharedRegistry);
+    try {
+      sharedRegistry.setExperiments(parseExperiments(process.env.PROMPT_EXPERIMENTS));
+    } catch (error) {
+      console.error('⚠️ Ignoring PROMPT_EXPERIMENTS:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  return sharedRegistry;
+}
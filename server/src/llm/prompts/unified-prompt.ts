@@ -5,6 +5,12 @@ export interface UnifiedPrompt {
   examples: typeof INTENT_EXAMPLES;
   rules: Record<string, string[]>;
   contextInstructions: string;
+  familyModeInstructions: string;
+}
+
+export interface PromptOptions {
+  familyMode?: boolean;    // Shared/family listening - only suggest clean songs
+  prompt?: UnifiedPrompt;  // Registry version to build from (default: UNIFIED_MUSIC_PROMPT)
 }
 
 export const UNIFIED_MUSIC_PROMPT: UnifiedPrompt = {
@@ -39,7 +45,15 @@ Your single most important goal is to accurately interpret the user's request an
 2. Recent conversation context
 3. User taste profile (LOWEST PRIORITY - supplementary only)
 
-Remember: The user's current request ALWAYS takes precedence over their historical preferences.`
+Remember: The user's current request ALWAYS takes precedence over their historical preferences.`,
+
+  familyModeInstructions: `
+### Family Mode (ON) ###
+The user is listening with others, so explicit content is filtered out.
+1. Only suggest songs that have a clean (non-explicit) version on Spotify
+2. Prefer clean radio edits when a song exists in both versions
+3. If the user asks for a song that is only released as explicit, suggest the closest clean alternative and say so in "reasoning"
+4. Avoid playlists built around explicit content`
 };
 
 // Helper function to get formatted examples for a specific intent
@@ -56,8 +70,8 @@ ${example.rules.map(r => `- ${r}`).join('\n')}`;
 }
 
 // Helper function to get all examples as formatted string
-export function getAllExamplesFormatted(): string {
-  return Object.entries(INTENT_EXAMPLES).map(([intent, data]) => `
+export function getAllExamplesFormatted(examples: typeof INTENT_EXAMPLES = INTENT_EXAMPLES): string {
+  return Object.entries(examples).map(([intent, data]) => `
 ### ${intent} ###
 Description: ${data.description}
 Example:
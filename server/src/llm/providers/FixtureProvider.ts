@@ -0,0 +1,228 @@
+/**
+ * Fixture Provider - Recorded LLM Responses
+ *
+ * Serves canned LLM responses from JSON files on disk so the interpreter can be
+ * exercised with real prompt/response shapes without network access.
+ *
+ * Modes:
+ * - replay: Look up the fixture for a request and return it. Missing fixtures throw.
+ * - record: The orchestrator calls the real model and the response is written
+ *           to disk as a new fixture.
+ *
+ * Fixtures are keyed by a hash of the normalized request messages plus the
+ * response format, so the same conversation replays regardless of which
+ * model was requested - unless keyByModel is set (model evaluations, where
+ * each model needs its own answers). Existing LLMLoggingService entries can
+ * be turned into fixtures with seedFromLogEntries().
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMRequest, LLMResponse } from '../orchestrator';
+import { LLMLogEntry } from '../../services/llm-logging.service';
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface FixtureProviderOptions {
+  directory: string;
+  mode: FixtureMode;
+  keyByModel?: boolean;
+}
+
+export interface LLMFixture {
+  key: string;
+  recordedAt: number;
+  // hand-written: authored from the expected answer, e.g. eval cases not recorded yet
+  source: 'recorded' | 'log-seed' | 'hand-written';
+  request: {
+    model: string;
+    messages: LLMRequest['messages'];
+    jsonMode: boolean;
+  };
+  response: {
+    content: string;
+    model: string;
+    provider: string;
+    usage?: LLMResponse['usage'];
+  };
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly key: string, public readonly model: string) {
+    super(`No LLM fixture recorded for ${model} (key ${key})`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+// Collapse whitespace so cosmetic prompt formatting doesn't change the key
+function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, ' ').trim();
+}
+
+export class FixtureProvider {
+  readonly directory: string;
+  readonly mode: FixtureMode;
+  readonly keyByModel: boolean;
+
+  constructor(options: FixtureProviderOptions) {
+    this.directory = path.resolve(options.directory);
+    this.mode = options.mode;
+    this.keyByModel = options.keyByModel ?? false;
+  }
+
+  /**
+   * Build the fixture key for a request (model only for per-model fixtures)
+   */
+  static keyFor(messages: LLMRequest['messages'], jsonMode: boolean, model?: string): string {
+    const normalized = messages.map(m => ({ role: m.role, content: normalizeContent(m.content) }));
+    return createHash('sha256')
+      .update(JSON.stringify(model ? { messages: normalized, jsonMode, model } : { messages: normalized, jsonMode }))
+      .digest('hex')
+      .substring(0, 32);
+  }
+
+  has(request: LLMRequest): boolean {
+    return fs.existsSync(this.fixturePath(this.requestKey(request)));
+  }
+
+  /**
+   * Replay the recorded response for a request
+   */
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = request.model || 'unknown';
+    const key = this.requestKey(request);
+    const fixture = this.read(key);
+
+    if (!fixture) {
+      throw new FixtureNotFoundError(key, model);
+    }
+
+    return {
+      content: fixture.response.content,
+      usage: fixture.response.usage,
+      model: fixture.response.model,
+      provider: 'fixture',
+      rawResponse: fixture,
+      fullRequest: { ...request, model, provider: 'fixture' },
+      processingSteps: [{
+        step: 'fixtureReplay',
+        before: { key, model },
+        after: { recordedAt: fixture.recordedAt, source: fixture.source, originalProvider: fixture.response.provider }
+      }]
+    };
+  }
+
+  /**
+   * Store a real response as a fixture
+   */
+  async record(request: LLMRequest, response: LLMResponse): Promise<LLMFixture> {
+    const jsonMode = request.response_format?.type === 'json_object';
+    const fixture: LLMFixture = {
+      key: this.requestKey(request),
+      recordedAt: Date.now(),
+      source: 'recorded',
+      request: {
+        model: request.model || response.model,
+        messages: request.messages,
+        jsonMode
+      },
+      response: {
+        content: response.content,
+        model: response.model,
+        provider: response.provider,
+        usage: response.usage
+      }
+    };
+
+    this.write(fixture);
+    return fixture;
+  }
+
+  /**
+   * Turn logged interactions into fixtures.
+   * Only successful entries with message history are usable.
+   */
+  seedFromLogEntries(entries: LLMLogEntry[]): number {
+    let written = 0;
+
+    for (const entry of entries) {
+      const messages = entry.llmRequest?.messages;
+      if (!entry.result?.success || !Array.isArray(messages) || messages.length === 0 || !entry.llmResponse?.content) {
+        continue;
+      }
+
+      const jsonMode = entry.llmRequest.jsonMode ?? false;
+      const content = typeof entry.llmResponse.content === 'string'
+        ? entry.llmResponse.content
+        : JSON.stringify(entry.llmResponse.content);
+
+      this.write({
+        key: FixtureProvider.keyFor(messages, jsonMode, this.keyByModel ? entry.llmRequest.model : undefined),
+        recordedAt: entry.timestamp,
+        source: 'log-seed',
+        request: {
+          model: entry.llmRequest.model,
+          messages,
+          jsonMode
+        },
+        response: {
+          content,
+          model: entry.llmResponse.actualModel || entry.llmRequest.model,
+          provider: entry.llmRequest.provider,
+          usage: entry.llmResponse.usage && {
+            prompt_tokens: entry.llmResponse.usage.prompt_tokens || 0,
+            completion_tokens: entry.llmResponse.usage.completion_tokens || 0,
+            total_tokens: entry.llmResponse.usage.total_tokens || 0
+          }
+        }
+      });
+      written++;
+    }
+
+    return written;
+  }
+
+  private requestKey(request: LLMRequest): string {
+    return FixtureProvider.keyFor(
+      request.messages,
+      request.response_format?.type === 'json_object',
+      this.keyByModel ? request.model || 'unknown' : undefined
+    );
+  }
+
+  private fixturePath(key: string): string {
+    return path.join(this.directory, `${key}.json`);
+  }
+
+  private read(key: string): LLMFixture | null {
+    try {
+      return JSON.parse(fs.readFileSync(this.fixturePath(key), 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private write(fixture: LLMFixture): void {
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.fixturePath(fixture.key), JSON.stringify(fixture, null, 2));
+  }
+}
+
+/**
+ * Build a fixture provider from LLM_FIXTURE_MODE / LLM_FIXTURE_DIR, or null when disabled
+ */
+export function createFixtureProviderFromEnv(): FixtureProvider | null {
+  const mode = process.env.LLM_FIXTURE_MODE;
+  if (mode !== 'replay' && mode !== 'record') {
+    return null;
+  }
+
+  return new FixtureProvider({
+    directory: process.env.LLM_FIXTURE_DIR || path.join(process.cwd(), 'fixtures', 'llm'),
+    mode
+  });
+}
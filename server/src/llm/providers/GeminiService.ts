@@ -1,5 +1,5 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import { LLMRequest, LLMResponse } from '../orchestrator';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../orchestrator';
 import { 
   getSchemaForIntent, 
   getSystemPromptForIntent, 
@@ -77,7 +77,8 @@ export class GeminiService {
       const systemPrompt = PromptAdapter.forGemini(
         userRequest,
         tasteProfile,
-        conversationHistory
+        conversationHistory,
+        { familyMode: request.familyMode }
       );
       
       // Determine schema based on request context (keep existing schema selection for now)
@@ -135,6 +136,52 @@ export class GeminiService {
     }
   }
 
+  /**
+   * Stream a plain-text completion (conversational answers), calling onDelta per chunk.
+   * Uses the request's own system message instead of the structured-output prompt.
+   */
+  async stream(request: LLMRequest, onDelta: LLMStreamHandler): Promise<LLMResponse> {
+    try {
+      const systemInstruction = request.messages.find(m => m.role === 'system')?.content;
+      const contents = this.formatMessagesForGemini(request.messages);
+      
+      const stream = await this.client.models.generateContentStream({
+        model: "gemini-2.5-flash",
+        contents,
+        config: {
+          systemInstruction,
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.max_tokens ?? 4000
+        }
+      });
+      
+      let content = '';
+      let usageMetadata: any;
+      for await (const chunk of stream) {
+        const delta = chunk.text || '';
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        usageMetadata = chunk.usageMetadata || usageMetadata;
+      }
+      
+      return {
+        content,
+        usage: {
+          prompt_tokens: usageMetadata?.promptTokenCount || 0,
+          completion_tokens: usageMetadata?.candidatesTokenCount || 0,
+          total_tokens: usageMetadata?.totalTokenCount || 0
+        },
+        model: request.model || 'gemini-2.5-flash',
+        provider: 'google-genai-direct'
+      };
+    } catch (error) {
+      console.error('GeminiService stream error:', error);
+      throw new Error(`Gemini API error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
   private determineIntentType(request: LLMRequest): string {
     // Simple heuristic based on request content
     const content = request.messages[request.messages.length - 1]?.content || '';
@@ -0,0 +1,322 @@
+/**
+ * Local / Self-Hosted Provider
+ *
+ * Talks to any OpenAI-compatible chat completions server (Ollama, llama.cpp,
+ * vLLM, LM Studio, ...). Models are exposed as "local/<name>" so they never
+ * collide with the hosted Gemini/OpenAI/OpenRouter routing.
+ *
+ * Servers differ in what they support, so capabilities are configured:
+ * - jsonMode: response_format { type: 'json_object' }
+ * - structuredOutput: response_format { type: 'json_schema' } with our Zod schemas
+ * - reasoning: forwards reasoning_effort and strips <think> blocks from answers
+ *
+ * Without native schemas, JSON is prompt-engineered and the answer is checked
+ * with validateAndRepair (commands) or the request's own schema.
+ */
+
+import axios from 'axios';
+import { zodResponseFormat } from 'openai/helpers/zod';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../orchestrator';
+import { OpenAIUnifiedSchema } from '../openai-schemas';
+import { validateAndRepair } from '../validation/command-validator';
+
+export const LOCAL_MODEL_PREFIX = 'local/';
+
+export interface LocalProviderCapabilities {
+  jsonMode: boolean;
+  structuredOutput: boolean;
+  reasoning: boolean;
+}
+
+export interface LocalProviderOptions {
+  baseURL: string;
+  models: string[];      // Names as the server knows them, without the local/ prefix
+  apiKey?: string;
+  timeout?: number;
+  capabilities?: Partial<LocalProviderCapabilities>;
+}
+
+type ProcessingStep = { step: string; before: any; after: any };
+
+export class LocalProvider {
+  readonly baseURL: string;
+  readonly models: string[];
+  readonly capabilities: LocalProviderCapabilities;
+  private apiKey?: string;
+  private timeout: number;
+
+  constructor(options: LocalProviderOptions) {
+    if (!options.baseURL) {
+      throw new Error('Local LLM base URL is required');
+    }
+    if (options.models.length === 0) {
+      throw new Error('Local LLM needs at least one model');
+    }
+
+    this.baseURL = options.baseURL.replace(/\/+$/, '');
+    this.models = options.models.map(toLocalModelId);
+    this.apiKey = options.apiKey;
+    this.timeout = options.timeout ?? 120000;  // Local hardware is often slow on the first call
+    this.capabilities = {
+      jsonMode: false,
+      structuredOutput: false,
+      reasoning: false,
+      ...options.capabilities
+    };
+  }
+
+  handles(model: string): boolean {
+    return this.models.includes(toLocalModelId(model));
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const model = toLocalModelId(request.model || this.models[0]);
+    const requiresJSON = request.response_format?.type === 'json_object';
+    const nativeSchema = requiresJSON && this.capabilities.structuredOutput ? this.nativeSchemaFor(request) : null;
+    const requestBody = this.buildRequestBody(model, request, nativeSchema);
+    const processingSteps: ProcessingStep[] = [];
+
+    const response = await axios.post(`${this.baseURL}/chat/completions`, requestBody, {
+      headers: this.headers(),
+      timeout: this.timeout
+    });
+
+    let content: string = response.data.choices?.[0]?.message?.content || '';
+    processingSteps.push({
+      step: 'extractContent',
+      before: { choices: response.data.choices?.length || 0, model: response.data.model },
+      after: content
+    });
+
+    if (this.capabilities.reasoning) {
+      const withoutThinking = stripThinking(content);
+      if (withoutThinking !== content) {
+        processingSteps.push({ step: 'stripThinking', before: content, after: withoutThinking });
+        content = withoutThinking;
+      }
+    }
+
+    if (!content.trim()) {
+      throw new Error('Local LLM returned empty response');
+    }
+
+    if (requiresJSON) {
+      content = this.checkJSON(content, request, nativeSchema ? 'native' : 'prompt', processingSteps);
+    }
+
+    return {
+      content,
+      usage: response.data.usage,
+      model: toLocalModelId(response.data.model || model),
+      provider: 'local',
+      rawResponse: response.data,
+      fullRequest: { ...request, model, provider: 'local', requestBody },
+      processingSteps
+    };
+  }
+
+  /**
+   * Stream a plain-text completion - OpenAI-style server-sent events
+   */
+  async stream(request: LLMRequest, onDelta: LLMStreamHandler): Promise<LLMResponse> {
+    const model = toLocalModelId(request.model || this.models[0]);
+    const requestBody = { ...this.buildRequestBody(model, request, null), stream: true };
+
+    const response = await axios.post(`${this.baseURL}/chat/completions`, requestBody, {
+      headers: this.headers(),
+      timeout: this.timeout,
+      responseType: 'stream'
+    });
+
+    let content = '';
+    let usage: LLMResponse['usage'];
+    let buffer = '';
+    // Reasoning models stream their <think> block first - hold it back from the client
+    let thinking = false;
+
+    for await (const chunk of response.data as AsyncIterable<Buffer>) {
+      buffer += chunk.toString('utf-8');
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.trim();
+        if (!data.startsWith('data:')) continue;
+        const payload = data.substring(5).trim();
+        if (payload === '[DONE]') continue;
+
+        const event = JSON.parse(payload);
+        usage = event.usage || usage;
+        let delta: string = event.choices?.[0]?.delta?.content || '';
+        if (this.capabilities.reasoning) {
+          if (delta.includes('<think>')) thinking = true;
+          if (thinking) {
+            if (!delta.includes('</think>')) continue;
+            thinking = false;
+            delta = delta.substring(delta.indexOf('</think>') + '</think>'.length).replace(/^\s+/, '');
+          }
+        }
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+    }
+
+    return {
+      content,
+      usage,
+      model,
+      provider: 'local',
+      fullRequest: { ...request, model, provider: 'local', requestBody }
+    };
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` })
+    };
+  }
+
+  private buildRequestBody(model: string, request: LLMRequest, nativeSchema: any | null) {
+    let messages = [...request.messages];
+    const body: any = {
+      model: model.substring(LOCAL_MODEL_PREFIX.length),
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.max_tokens ?? 2000
+    };
+
+    if (this.capabilities.reasoning && request.reasoning_effort) {
+      body.reasoning_effort = request.reasoning_effort;
+    }
+
+    if (request.response_format?.type === 'json_object') {
+      if (nativeSchema) {
+        body.response_format = { type: 'json_schema', json_schema: nativeSchema };
+      } else {
+        if (this.capabilities.jsonMode) {
+          body.response_format = { type: 'json_object' };
+        }
+        // Prompt-engineered JSON: small local models need to be told explicitly
+        if (!messages.some(m => m.role === 'system' && m.content.includes('JSON'))) {
+          messages = [{ role: 'system', content: 'You must respond with valid JSON only, without markdown or any other text.' }, ...messages];
+          body.messages = messages;
+        }
+      }
+    }
+
+    return body;
+  }
+
+  /**
+   * JSON schema for native structured output: the request's own schema, or the
+   * unified command schema for interpreter requests. Null when the schema can't
+   * be converted, so the caller falls back to prompt-engineered JSON.
+   */
+  private nativeSchemaFor(request: LLMRequest): any | null {
+    try {
+      if (request.schema) {
+        return zodResponseFormat(request.schema as any, 'response').json_schema;
+      }
+      return request.skipValidation ? null : OpenAIUnifiedSchema.json_schema;
+    } catch (error) {
+      console.warn('⚠️ Local LLM: schema not convertible, using prompt-engineered JSON:', error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  /**
+   * Parse (and for prompt-engineered JSON, clean and repair) a JSON answer.
+   * Throws when it can't be made valid so the orchestrator can fall back.
+   */
+  private checkJSON(content: string, request: LLMRequest, mode: 'native' | 'prompt', processingSteps: ProcessingStep[]): string {
+    const cleaned = mode === 'prompt' ? extractJSON(content) : content;
+    if (cleaned !== content) {
+      processingSteps.push({ step: 'cleanJSONResponse', before: content, after: cleaned });
+    }
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(cleaned);
+    } catch (error) {
+      throw new Error(`Local LLM returned invalid JSON: ${error instanceof Error ? error.message : error}`);
+    }
+    processingSteps.push({ step: 'parseJSON', before: cleaned, after: parsed });
+
+    if (request.schema) {
+      const result = request.schema.safeParse(parsed);
+      processingSteps.push({
+        step: 'schemaValidation',
+        before: parsed,
+        after: result.success ? { status: 'valid', schema: 'Zod' } : { status: 'invalid', error: result.error.message }
+      });
+      if (!result.success) {
+        throw new Error(`Local LLM response failed schema validation: ${result.error.message}`);
+      }
+      return JSON.stringify(result.data);
+    }
+
+    if (mode === 'prompt' && !request.skipValidation) {
+      const validation = validateAndRepair(parsed);
+      processingSteps.push({
+        step: 'validateAndRepair',
+        before: parsed,
+        after: validation.isValid ? validation.data : { status: 'invalid', error: validation.error }
+      });
+      // Invalid commands are passed on as-is - the interpreter extracts what it can
+      if (validation.isValid) {
+        return JSON.stringify(validation.data);
+      }
+    }
+
+    return JSON.stringify(parsed);
+  }
+}
+
+export function toLocalModelId(model: string): string {
+  return model.startsWith(LOCAL_MODEL_PREFIX) ? model : `${LOCAL_MODEL_PREFIX}${model}`;
+}
+
+export function isLocalModel(model: string): boolean {
+  return model.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+// Reasoning models (DeepSeek R1, Qwen3, ...) put their chain of thought in <think> tags
+function stripThinking(content: string): string {
+  return content.replace(/<think>[\s\S]*?(<\/think>|$)/g, '').trim();
+}
+
+// Drop markdown fences and any text around the outermost JSON object
+function extractJSON(content: string): string {
+  const unfenced = content.replace(/```(?:json)?\s*/g, '');
+  const match = unfenced.match(/\{[\s\S]*\}/);
+  return (match ? match[0] : unfenced).trim();
+}
+
+function parseFlag(value: string | undefined): boolean {
+  return value === 'true' || value === '1';
+}
+
+/**
+ * Build the local provider from LOCAL_LLM_* env vars, or null when LOCAL_LLM_BASE_URL is unset
+ */
+export function createLocalProviderFromEnv(env: NodeJS.ProcessEnv = process.env): LocalProvider | null {
+  if (!env.LOCAL_LLM_BASE_URL) {
+    return null;
+  }
+
+  const models = (env.LOCAL_LLM_MODELS || '').split(',').map(m => m.trim()).filter(Boolean);
+  return new LocalProvider({
+    baseURL: env.LOCAL_LLM_BASE_URL,
+    models,
+    apiKey: env.LOCAL_LLM_API_KEY || undefined,
+    timeout: env.LOCAL_LLM_TIMEOUT_MS ? parseInt(env.LOCAL_LLM_TIMEOUT_MS, 10) : undefined,
+    capabilities: {
+      jsonMode: parseFlag(env.LOCAL_LLM_JSON_MODE),
+      structuredOutput: parseFlag(env.LOCAL_LLM_STRUCTURED_OUTPUT),
+      reasoning: parseFlag(env.LOCAL_LLM_REASONING)
+    }
+  });
+}
@@ -24,7 +24,7 @@
 
 // Use named export for compatibility with both dev and production
 import { OpenAI } from 'openai';
-import { LLMRequest, LLMResponse } from '../orchestrator';
+import { LLMRequest, LLMResponse, LLMStreamHandler } from '../orchestrator';
 import { 
   getOpenAISchemaForIntent,
   getRawZodSchemaForIntent,
@@ -93,7 +93,9 @@ export class OpenAIProvider {
       // Use the new prompt adapter without conversation context (handled natively now)
       const systemPrompt = PromptAdapter.forOpenAI(
         userRequest,
-        tasteProfile
+        tasteProfile,
+        undefined,
+        { familyMode: request.familyMode }
       );
       
       console.log(`🎯 Using OpenAI Direct API with unified structured output and new prompt system`);
@@ -120,49 +122,7 @@ export class OpenAIProvider {
           response_format: openaiSchema
         };
         
-        // Add GPT-5 specific parameters if using GPT-5 models
-        if (actualModel.startsWith('gpt-5')) {
-          // GPT-5 uses max_completion_tokens instead of max_tokens
-          // For structured output, we need to ensure enough tokens for JSON completion
-          if ((request as any).max_completion_tokens !== undefined) {
-            params.max_completion_tokens = (request as any).max_completion_tokens;
-          } else if (request.max_tokens !== undefined) {
-            params.max_completion_tokens = request.max_tokens;
-          } else {
-            // For structured output, set a reasonable default to avoid length limit errors
-            // Music commands typically need 1000-3000 tokens for complete JSON
-            // Set to 8192 to be safe while keeping responses fast
-            params.max_completion_tokens = 8192; // Balanced for music command responses
-          }
-          
-          // GPT-5's automatic router decides optimal settings by default
-          // Only override if explicitly provided in the request
-          if ((request as any).reasoning_effort !== undefined) {
-            params.reasoning_effort = (request as any).reasoning_effort; // 'minimal', 'low', 'medium', 'high'
-          } else {
-            // Default to 'minimal' for music commands - fastest response times
-            // The docs say minimal "performs especially well in coding and instruction following scenarios"
-            params.reasoning_effort = 'minimal';
-          }
-          
-          if ((request as any).verbosity !== undefined) {
-            params.verbosity = (request as any).verbosity; // 'low', 'medium', 'high'
-          } else {
-            // Default to 'low' verbosity for music commands - concise JSON responses
-            // This reduces token count and improves response time
-            params.verbosity = 'low';
-          }
-          
-          // GPT-5 only supports default temperature (1.0)
-          // Only set if explicitly provided and not the default
-          if (request.temperature !== undefined && request.temperature !== 1.0) {
-            console.warn(`GPT-5 only supports temperature=1.0, requested ${request.temperature} will be ignored`);
-            // Don't set temperature parameter for GPT-5
-          }
-        } else {
-          params.max_tokens = request.max_tokens ?? 4000;
-          params.temperature = request.temperature ?? 0.7;
-        }
+        this.applyModelParams(params, actualModel, request);
         
         response = await this.client.chat.completions.parse(params);
         
@@ -197,49 +157,7 @@ export class OpenAIProvider {
           messages
         };
         
-        // Add GPT-5 specific parameters if using GPT-5 models
-        if (actualModel.startsWith('gpt-5')) {
-          // GPT-5 uses max_completion_tokens instead of max_tokens
-          // For structured output, we need to ensure enough tokens for JSON completion
-          if ((request as any).max_completion_tokens !== undefined) {
-            params.max_completion_tokens = (request as any).max_completion_tokens;
-          } else if (request.max_tokens !== undefined) {
-            params.max_completion_tokens = request.max_tokens;
-          } else {
-            // For structured output, set a reasonable default to avoid length limit errors
-            // Music commands typically need 1000-3000 tokens for complete JSON
-            // Set to 8192 to be safe while keeping responses fast
-            params.max_completion_tokens = 8192; // Balanced for music command responses
-          }
-          
-          // GPT-5's automatic router decides optimal settings by default
-          // Only override if explicitly provided in the request
-          if ((request as any).reasoning_effort !== undefined) {
-            params.reasoning_effort = (request as any).reasoning_effort; // 'minimal', 'low', 'medium', 'high'
-          } else {
-            // Default to 'minimal' for music commands - fastest response times
-            // The docs say minimal "performs especially well in coding and instruction following scenarios"
-            params.reasoning_effort = 'minimal';
-          }
-          
-          if ((request as any).verbosity !== undefined) {
-            params.verbosity = (request as any).verbosity; // 'low', 'medium', 'high'
-          } else {
-            // Default to 'low' verbosity for music commands - concise JSON responses
-            // This reduces token count and improves response time
-            params.verbosity = 'low';
-          }
-          
-          // GPT-5 only supports default temperature (1.0)
-          // Only set if explicitly provided and not the default
-          if (request.temperature !== undefined && request.temperature !== 1.0) {
-            console.warn(`GPT-5 only supports temperature=1.0, requested ${request.temperature} will be ignored`);
-            // Don't set temperature parameter for GPT-5
-          }
-        } else {
-          params.max_tokens = request.max_tokens ?? 4000;
-          params.temperature = request.temperature ?? 0.7;
-        }
+        this.applyModelParams(params, actualModel, request);
         
         // If JSON format is requested but no schema is available, use JSON mode
         if (request.response_format?.type === 'json_object') {
@@ -284,6 +202,103 @@ export class OpenAIProvider {
     }
   }
 
+  /**
+   * Stream a plain-text completion (conversational answers), calling onDelta per chunk.
+   * Uses the request's own system message instead of the structured-output prompt.
+   */
+  async stream(request: LLMRequest, onDelta: LLMStreamHandler): Promise<LLMResponse> {
+    try {
+      const actualModel = this.mapModelId(request.model || OPENAI_MODELS.GPT_4_1);
+      console.log(`🔧 Using OpenAI streaming completion for ${actualModel}`);
+      
+      const params: any = {
+        model: actualModel,
+        messages: this.formatMessagesForOpenAI(request),
+        stream: true,
+        stream_options: { include_usage: true }
+      };
+      this.applyModelParams(params, actualModel, request);
+      
+      const stream: AsyncIterable<any> = await this.client.chat.completions.create(params) as any;
+      
+      let content = '';
+      let usage: any;
+      let model = actualModel;
+      for await (const chunk of stream) {
+        const delta = chunk.choices?.[0]?.delta?.content || '';
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+        usage = chunk.usage || usage;
+        model = chunk.model || model;
+      }
+      
+      return {
+        content,
+        usage: {
+          prompt_tokens: usage?.prompt_tokens || 0,
+          completion_tokens: usage?.completion_tokens || 0,
+          total_tokens: usage?.total_tokens || 0
+        },
+        model,
+        provider: 'openai-direct'
+      };
+    } catch (error) {
+      console.error('OpenAI Provider stream error:', error);
+      throw new Error(`OpenAI Provider error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Apply model-specific sampling/length parameters (GPT-5 vs. earlier models)
+   */
+  private applyModelParams(params: any, actualModel: string, request: LLMRequest): void {
+    // Add GPT-5 specific parameters if using GPT-5 models
+    if (actualModel.startsWith('gpt-5')) {
+      // GPT-5 uses max_completion_tokens instead of max_tokens
+      // For structured output, we need to ensure enough tokens for JSON completion
+      if ((request as any).max_completion_tokens !== undefined) {
+        params.max_completion_tokens = (request as any).max_completion_tokens;
+      } else if (request.max_tokens !== undefined) {
+        params.max_completion_tokens = request.max_tokens;
+      } else {
+        // For structured output, set a reasonable default to avoid length limit errors
+        // Music commands typically need 1000-3000 tokens for complete JSON
+        // Set to 8192 to be safe while keeping responses fast
+        params.max_completion_tokens = 8192; // Balanced for music command responses
+      }
+      
+      // GPT-5's automatic router decides optimal settings by default
+      // Only override if explicitly provided in the request
+      if ((request as any).reasoning_effort !== undefined) {
+        params.reasoning_effort = (request as any).reasoning_effort; // 'minimal', 'low', 'medium', 'high'
+      } else {
+        // Default to 'minimal' for music commands - fastest response times
+        // The docs say minimal "performs especially well in coding and instruction following scenarios"
+        params.reasoning_effort = 'minimal';
+      }
+      
+      if ((request as any).verbosity !== undefined) {
+        params.verbosity = (request as any).verbosity; // 'low', 'medium', 'high'
+      } else {
+        // Default to 'low' verbosity for music commands - concise JSON responses
+        // This reduces token count and improves response time
+        params.verbosity = 'low';
+      }
+      
+      // GPT-5 only supports default temperature (1.0)
+      // Only set if explicitly provided and not the default
+      if (request.temperature !== undefined && request.temperature !== 1.0) {
+        console.warn(`GPT-5 only supports temperature=1.0, requested ${request.temperature} will be ignored`);
+        // Don't set temperature parameter for GPT-5
+      }
+    } else {
+      params.max_tokens = request.max_tokens ?? 4000;
+      params.temperature = request.temperature ?? 0.7;
+    }
+  }
+
   /**
    * Map model IDs from OpenRouter format to OpenAI format
    */
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { Type } from '@google/genai';
+import { MusicCommandSchema, FlatMusicCommandSchema } from '../index';
+import { flattenDiscriminatedUnion, toGeminiSchema } from '../converters';
+import { MusicCommandIntentSchema } from '../../gemini-schemas';
+import { OpenAIUnifiedSchema } from '../../openai-schemas';
+import { VALID_INTENTS } from '../../intent-types';
+
+describe('Provider schema converters', () => {
+  const intents = MusicCommandSchema.options.map(option => option.shape.intent.value);
+  const fields = new Set(MusicCommandSchema.options.flatMap(option => Object.keys(option.shape)));
+
+  describe('generated provider schemas', () => {
+    const gemini: any = MusicCommandIntentSchema;
+    const openai: any = OpenAIUnifiedSchema.json_schema!.schema;
+
+    it('should offer every intent to every provider', () => {
+      expect(gemini.properties.intent.enum).toEqual(intents);
+      expect(openai.properties.intent.enum).toEqual(intents);
+      expect(VALID_INTENTS).toEqual(intents);
+      expect(intents).toContain('clarification_mode');
+    });
+
+    it('should include every field of every intent', () => {
+      expect(new Set(Object.keys(gemini.properties))).toEqual(fields);
+      expect(new Set(Object.keys(openai.properties))).toEqual(fields);
+      expect(gemini.propertyOrdering[0]).toBe('intent');
+    });
+
+    it('should only require fields every intent requires', () => {
+      expect(gemini.required).toEqual(['intent', 'confidence', 'reasoning']);
+      expect(FlatMusicCommandSchema.safeParse({ intent: 'pause', confidence: 1, reasoning: 'Pause' }).success).toBe(true);
+      expect(FlatMusicCommandSchema.safeParse({ intent: 'pause', confidence: 1, reasoning: 'Pause', artist: null }).success).toBe(true);
+      expect(FlatMusicCommandSchema.safeParse({ intent: 'dance', confidence: 1, reasoning: 'Dance' }).success).toBe(false);
+    });
+
+    it('should carry descriptions from the intent schemas', () => {
+      expect(gemini.properties.confidence).toEqual({
+        type: Type.NUMBER,
+        minimum: 0,
+        maximum: 1,
+        description: 'Confidence level in the interpretation (0-1)'
+      });
+      expect(openai.properties.songs.description).toBe('Array of songs for queue_multiple_songs intent');
+      expect(gemini.properties.currentContext.properties.rejectionType.enum).toEqual(['artist', 'genre', 'mood', 'song']);
+    });
+  });
+
+  describe('flattenDiscriminatedUnion', () => {
+    const union = z.discriminatedUnion('kind', [
+      z.object({ kind: z.literal('a'), name: z.string().min(1), mode: z.enum(['x']) }),
+      z.object({ kind: z.literal('b'), name: z.string(), mode: z.enum(['y']).optional(), count: z.number().int() })
+    ]).describe('Which kind');
+
+    it('should keep shared fields required and loosen the rest', () => {
+      const flat = flattenDiscriminatedUnion(union);
+
+      expect(flat.shape.kind.description).toBe('Which kind');
+      expect(flat.parse({ kind: 'a', name: '', count: null })).toEqual({ kind: 'a', name: '', count: null });
+      expect(flat.safeParse({ kind: 'b' }).success).toBe(false);
+      expect(flat.parse({ kind: 'b', name: 'n', mode: 'x' }).mode).toBe('x');
+      expect(flat.safeParse({ kind: 'b', name: 'n', mode: 'z' }).success).toBe(false);
+    });
+  });
+
+  describe('toGeminiSchema', () => {
+    it('should use the first member of plain unions and INTEGER for ints', () => {
+      const schema = toGeminiSchema(z.object({
+        version: z.union([z.enum(['live', 'demo']), z.string()]).optional(),
+        position: z.number().int().min(1)
+      }));
+
+      expect(schema).toEqual({
+        type: Type.OBJECT,
+        properties: {
+          version: { type: Type.STRING, enum: ['live', 'demo'] },
+          position: { type: Type.INTEGER, minimum: 1 }
+        },
+        required: ['position'],
+        propertyOrdering: ['version', 'position']
+      });
+    });
+
+    it('should reject types Gemini cannot express', () => {
+      expect(() => toGeminiSchema(z.object({ when: z.date() }))).toThrow('No Gemini schema for Zod type ZodDate');
+    });
+  });
+});
@@ -353,6 +353,66 @@ describe('Discriminated Union Schemas', () => {
       const result = MusicCommandSchema.safeParse(input);
       expect(result.success).toBe(false);
     });
+
+    describe('multi_step_plan', () => {
+      const steps = [
+        { intent: 'play_specific_song', artist: 'Radiohead', track: 'Reckoner', confidence: 0.9, reasoning: 'First' },
+        { intent: 'set_volume', volume_level: 40, confidence: 0.95, reasoning: 'Second' }
+      ];
+
+      it('should parse a plan and default its policies', () => {
+        const result = MusicCommandSchema.safeParse({
+          intent: 'multi_step_plan',
+          steps,
+          confidence: 0.9,
+          reasoning: 'Two actions'
+        });
+
+        expect(result.success).toBe(true);
+        if (result.success && result.data.intent === 'multi_step_plan') {
+          expect(result.data.steps).toHaveLength(2);
+          expect(result.data.executionOrder).toBe('sequential');
+          expect(result.data.onStepFailure).toBe('stop');
+        }
+      });
+
+      it('should validate each step against its own intent schema', () => {
+        const result = MusicCommandSchema.safeParse({
+          intent: 'multi_step_plan',
+          steps: [steps[0], { intent: 'set_volume', confidence: 0.9, reasoning: 'Missing level' }],
+          confidence: 0.9,
+          reasoning: 'Two actions'
+        });
+
+        expect(result.success).toBe(false);
+      });
+
+      it('should reject conversational and nested plan steps', () => {
+        for (const step of [
+          { intent: 'chat', message: 'hi', confidence: 0.9, reasoning: 'Chat' },
+          { intent: 'multi_step_plan', steps, confidence: 0.9, reasoning: 'Nested' }
+        ]) {
+          const result = MusicCommandSchema.safeParse({
+            intent: 'multi_step_plan',
+            steps: [steps[0], step],
+            confidence: 0.9,
+            reasoning: 'Two actions'
+          });
+          expect(result.success).toBe(false);
+        }
+      });
+
+      it('should require at least two steps', () => {
+        const result = MusicCommandSchema.safeParse({
+          intent: 'multi_step_plan',
+          steps: [steps[0]],
+          confidence: 0.9,
+          reasoning: 'One action'
+        });
+
+        expect(result.success).toBe(false);
+      });
+    });
   });
   
   describe('Type inference', () => {
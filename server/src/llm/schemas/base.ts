@@ -5,15 +5,15 @@ export const ModifiersSchema = z.object({
   obscurity: z.union([
     z.enum(['popular', 'obscure', 'rare', 'deep_cut', 'hidden']),
     z.string()
-  ]).optional().nullable(),
+  ]).optional().nullable().describe('How popular/obscure the track should be'),
   version: z.union([
     z.enum(['original', 'remix', 'acoustic', 'live', 'demo', 'remaster']),
     z.string()
-  ]).optional().nullable(),
-  mood: z.string().optional().nullable(),
-  era: z.string().optional().nullable(),
-  genre: z.string().optional().nullable(),
-  exclude: z.array(z.string()).nullable().default([])
+  ]).optional().nullable().describe('Specific version of the track'),
+  mood: z.string().optional().nullable().describe('Mood or vibe requested (e.g., "melancholy", "upbeat", "chill")'),
+  era: z.string().optional().nullable().describe('Time period or era (e.g., "80s", "90s", "2000s")'),
+  genre: z.string().optional().nullable().describe('Musical genre if specified'),
+  exclude: z.array(z.string()).nullable().default([]).describe('Terms to exclude from search')
 }).default({ exclude: [] });
 
 export const AlternativeSchema = z.union([
@@ -29,11 +29,13 @@ export const AlternativeSchema = z.union([
 ]);
 
 export const BaseCommandSchema = z.object({
-  confidence: z.number().min(0).max(1),
-  reasoning: z.string(),
+  confidence: z.number().min(0).max(1).describe('Confidence level in the interpretation (0-1)'),
+  reasoning: z.string().describe('Brief explanation of why this interpretation was chosen'),
   modifiers: ModifiersSchema.optional().nullable(),
-  isAIDiscovery: z.boolean().optional().nullable(),
+  isAIDiscovery: z.boolean().optional().nullable()
+    .describe('True when AI made creative choice (not following explicit user request)'),
   aiReasoning: z.string().optional().nullable()
+    .describe('Brief explanation (1-2 sentences) of why AI chose this when isAIDiscovery is true')
 });
 
 export const SongSchema = z.object({
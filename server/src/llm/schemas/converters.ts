@@ -0,0 +1,178 @@
+/**
+ * Provider Schema Converters
+ *
+ * The Zod schemas in ./intents are the single source of truth for what a
+ * command looks like. Gemini's responseSchema and OpenAI's structured output
+ * are generated from them here, so adding or changing an intent never means
+ * editing a provider schema by hand.
+ *
+ * Neither provider handles discriminated unions well, so the union is
+ * flattened into one object: the discriminator becomes an enum of every
+ * option's literal, fields required by every option stay required, and all
+ * other fields become optional and nullable. The flat schema only describes
+ * the shape - per-intent rules (required fields, non-empty strings, list
+ * lengths, patterns) are enforced by validating against the union afterwards.
+ *
+ * Provider quirks live in this file:
+ * - Both: discriminated unions are flattened, string and array checks dropped
+ * - OpenAI: optional fields must also be nullable (strict mode)
+ * - Gemini: other unions collapse to their first member, integers use
+ *   Type.INTEGER, and propertyOrdering follows the Zod key order
+ */
+
+import { z } from 'zod';
+import { Schema, Type } from '@google/genai';
+
+type AnyZod = z.ZodTypeAny;
+type AnyDiscriminatedUnion = z.ZodDiscriminatedUnion<string, z.ZodObject<z.ZodRawShape>[]>;
+
+// Strip optional/nullable/default wrappers - absent and null mean the same to both providers
+function unwrap(schema: AnyZod): { inner: AnyZod; optional: boolean } {
+  let inner = schema;
+  let optional = false;
+  for (;;) {
+    if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      inner = inner.unwrap();
+      optional = true;
+    } else if (inner instanceof z.ZodDefault) {
+      inner = inner.removeDefault();
+      optional = true;
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else {
+      return { inner, optional };
+    }
+  }
+}
+
+function withDescription<T extends AnyZod>(schema: T, description: string | undefined): T {
+  return description ? schema.describe(description) as T : schema;
+}
+
+/**
+ * Rebuild a schema for the providers: discriminated unions flattened, string
+ * and array checks dropped (see above), everything else kept as declared
+ */
+function relax(schema: AnyZod): AnyZod {
+  let result: AnyZod;
+  if (schema instanceof z.ZodOptional) {
+    result = relax(schema.unwrap()).optional();
+  } else if (schema instanceof z.ZodNullable) {
+    result = relax(schema.unwrap()).nullable();
+  } else if (schema instanceof z.ZodDefault) {
+    result = relax(schema.removeDefault()).default(schema._def.defaultValue());
+  } else if (schema instanceof z.ZodEffects) {
+    result = relax(schema.innerType());
+  } else if (schema instanceof z.ZodDiscriminatedUnion) {
+    result = flattenDiscriminatedUnion(schema);
+  } else if (schema instanceof z.ZodObject) {
+    const shape: z.ZodRawShape = {};
+    for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+      shape[key] = relax(field);
+    }
+    result = z.object(shape);
+  } else if (schema instanceof z.ZodArray) {
+    result = z.array(relax(schema.element));
+  } else if (schema instanceof z.ZodUnion) {
+    result = z.union(schema.options.map(relax) as [AnyZod, AnyZod, ...AnyZod[]]);
+  } else if (schema instanceof z.ZodString) {
+    result = z.string();
+  } else {
+    result = schema;
+  }
+  return withDescription(result, schema.description);
+}
+
+/**
+ * One object with every field of every option of a discriminated union
+ */
+export function flattenDiscriminatedUnion(union: AnyDiscriminatedUnion): z.ZodObject<z.ZodRawShape> {
+  const discriminator = union.discriminator;
+  const options = union.options;
+  const values = options.map(option => (unwrap(option.shape[discriminator]).inner as z.ZodLiteral<string>).value);
+
+  // Field name -> its declarations, in the order first seen
+  const fields = new Map<string, AnyZod[]>();
+  for (const option of options) {
+    for (const [key, field] of Object.entries(option.shape as z.ZodRawShape)) {
+      if (key === discriminator) continue;
+      fields.set(key, [...(fields.get(key) || []), field]);
+    }
+  }
+
+  const shape: z.ZodRawShape = {
+    [discriminator]: withDescription(z.enum(values as [string, ...string[]]), union.description)
+  };
+  for (const [key, declarations] of fields) {
+    const required = declarations.length === options.length && declarations.every(field => !unwrap(field).optional);
+    const description = declarations.find(field => field.description)?.description;
+    const field = relax(mergeDeclarations(declarations));
+    shape[key] = withDescription(required ? field : field.optional().nullable(), description);
+  }
+
+  return z.object(shape);
+}
+
+// The same field in several options: enums accept every option's values, anything else keeps the first declaration
+function mergeDeclarations(declarations: AnyZod[]): AnyZod {
+  const inners = declarations.map(field => unwrap(field).inner);
+  if (inners.length > 1 && inners.every(inner => inner instanceof z.ZodEnum)) {
+    const values = Array.from(new Set(inners.flatMap(inner => (inner as z.ZodEnum<[string, ...string[]]>).options)));
+    return z.enum(values as [string, ...string[]]);
+  }
+  return inners[0];
+}
+
+/**
+ * Gemini responseSchema for a Zod schema
+ */
+export function toGeminiSchema(schema: AnyZod): Schema {
+  const { inner } = unwrap(schema);
+  const converted = convertForGemini(inner);
+  const description = schema.description ?? inner.description;
+  return description ? { ...converted, description } : converted;
+}
+
+function convertForGemini(schema: AnyZod): Schema {
+  if (schema instanceof z.ZodDiscriminatedUnion) {
+    return convertForGemini(flattenDiscriminatedUnion(schema));
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as z.ZodRawShape;
+    const keys = Object.keys(shape);
+    const required = keys.filter(key => !unwrap(shape[key]).optional);
+    return {
+      type: Type.OBJECT,
+      properties: Object.fromEntries(keys.map(key => [key, toGeminiSchema(shape[key])])),
+      ...(required.length > 0 && { required }),
+      propertyOrdering: keys
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: Type.ARRAY, items: toGeminiSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodUnion) {
+    // Gemini's anyOf support is limited - the first member is the preferred form
+    return toGeminiSchema(schema.options[0]);
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: Type.STRING, enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { type: Type.STRING, enum: [String(schema.value)] };
+  }
+  if (schema instanceof z.ZodString) {
+    return { type: Type.STRING };
+  }
+  if (schema instanceof z.ZodNumber) {
+    return {
+      type: schema.isInt ? Type.INTEGER : Type.NUMBER,
+      ...(schema.minValue !== null && { minimum: schema.minValue }),
+      ...(schema.maxValue !== null && { maximum: schema.maxValue })
+    };
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: Type.BOOLEAN };
+  }
+  throw new Error(`No Gemini schema for Zod type ${schema._def.typeName}`);
+}
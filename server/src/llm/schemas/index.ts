@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { flattenDiscriminatedUnion } from './converters';
 
 // Import all intent schemas
 import {
@@ -10,7 +11,9 @@ import {
 import {
   QueueSpecificSongSchema,
   QueueMultipleSongsSchema,
-  QueuePlaylistSchema
+  QueuePlaylistSchema,
+  RemoveFromQueueSchema,
+  MoveInQueueSchema
 } from './intents/queue';
 
 import { ClarificationModeSchema } from './intents/clarification';
@@ -26,7 +29,11 @@ import {
   VolumeSchema,
   SetShuffleSchema,
   SetRepeatSchema,
-  ClearQueueSchema
+  ClearQueueSchema,
+  UndoSchema,
+  ScheduleActionSchema,
+  GetScheduledActionsSchema,
+  CancelScheduledActionsSchema
 } from './intents/control';
 
 import {
@@ -45,6 +52,10 @@ import {
   SearchSchema
 } from './intents/info';
 
+import { AddToPlaylistSchema, RemoveFromPlaylistSchema } from './intents/playlist';
+
+import { MultiStepPlanSchema } from './intents/plan';
+
 // Export the discriminated union of all music commands
 export const MusicCommandSchema = z.discriminatedUnion('intent', [
   // Play intents
@@ -56,6 +67,12 @@ export const MusicCommandSchema = z.discriminatedUnion('intent', [
   QueueSpecificSongSchema,
   QueueMultipleSongsSchema,
   QueuePlaylistSchema,
+  RemoveFromQueueSchema,
+  MoveInQueueSchema,
+  
+  // Playlist editing
+  AddToPlaylistSchema,
+  RemoveFromPlaylistSchema,
   
   // Clarification
   ClarificationModeSchema,
@@ -72,6 +89,10 @@ export const MusicCommandSchema = z.discriminatedUnion('intent', [
   SetShuffleSchema,
   SetRepeatSchema,
   ClearQueueSchema,
+  UndoSchema,
+  ScheduleActionSchema,
+  GetScheduledActionsSchema,
+  CancelScheduledActionsSchema,
   
   // Conversational intents
   ChatSchema,
@@ -85,8 +106,14 @@ export const MusicCommandSchema = z.discriminatedUnion('intent', [
   GetPlaylistsSchema,
   GetRecentlyPlayedSchema,
   GetPlaybackInfoSchema,
-  SearchSchema
-]);
+  SearchSchema,
+  
+  // Multi-step plans
+  MultiStepPlanSchema
+]).describe('The type of music command to execute');
+
+// Every intent's fields on one object - the shape providers without union support are given
+export const FlatMusicCommandSchema = flattenDiscriminatedUnion(MusicCommandSchema);
 
 // Export type inference
 export type MusicCommand = z.infer<typeof MusicCommandSchema>;
@@ -98,7 +125,8 @@ export {
   QueueMultipleSongsSchema,
   ClarificationModeSchema,
   ChatSchema,
-  AskQuestionSchema
+  AskQuestionSchema,
+  MultiStepPlanSchema
   // ... etc
 };
 
@@ -2,18 +2,21 @@ import { z } from 'zod';
 import { BaseCommandSchema } from '../base';
 
 const ClarificationOptionSchema = z.object({
-  label: z.string(),
-  value: z.string(),
-  description: z.string().optional().nullable()
+  label: z.string().describe('Display label for the option button'),
+  value: z.string().describe('Value to send when this option is selected'),
+  description: z.string().optional().nullable().describe('Optional longer description of this option')
 });
 
 export const ClarificationModeSchema = BaseCommandSchema.extend({
   intent: z.literal('clarification_mode'),
-  responseMessage: z.string().min(1), // REQUIRED
+  responseMessage: z.string().min(1) // REQUIRED
+    .describe('Message to display to user asking for clarification'),
   currentContext: z.object({
-    rejected: z.string(),
+    rejected: z.string().describe('What the user rejected or wants to avoid'),
     rejectionType: z.enum(['artist', 'genre', 'mood', 'song'])
-  }), // REQUIRED
-  options: z.array(ClarificationOptionSchema).min(4).max(5), // REQUIRED
-  uiType: z.literal('clarification_buttons')
+      .describe('Type of rejection to help provide better alternatives')
+  }).describe('Context about what the user is trying to clarify or avoid'), // REQUIRED
+  options: z.array(ClarificationOptionSchema).min(4).max(5) // REQUIRED
+    .describe('Array of clarification options to present to user (4-5 options)'),
+  uiType: z.literal('clarification_buttons').describe('UI component type to render for clarification')
 });
\ No newline at end of file
@@ -28,16 +28,19 @@ export const ResumeSchema = BaseCommandSchema.extend({
 export const SetVolumeSchema = BaseCommandSchema.extend({
   intent: z.literal('set_volume'),
   volume_level: z.number().min(0).max(100) // REQUIRED for volume
+    .describe('Volume level between 0-100')
 });
 
 export const VolumeSchema = BaseCommandSchema.extend({
   intent: z.literal('volume'),
   value: z.number().optional().nullable() // Optional adjustment value
+    .describe('Numeric value for volume commands')
 });
 
 export const SetShuffleSchema = BaseCommandSchema.extend({
   intent: z.literal('set_shuffle'),
   enabled: z.boolean() // REQUIRED
+    .describe('Boolean flag for shuffle/repeat commands')
 });
 
 export const SetRepeatSchema = BaseCommandSchema.extend({
@@ -47,4 +50,34 @@ export const SetRepeatSchema = BaseCommandSchema.extend({
 
 export const ClearQueueSchema = BaseCommandSchema.extend({
   intent: z.literal('clear_queue')
-});
\ No newline at end of file
+});
+
+export const UndoSchema = BaseCommandSchema.extend({
+  intent: z.literal('undo')
+  // Restores playback from before the previous command
+});
+
+export const ScheduleActionSchema = BaseCommandSchema.extend({
+  intent: z.literal('schedule_action'),
+  scheduleAction: z.enum(['pause', 'fade_out', 'play_playlist', 'set_volume', 'resume']) // REQUIRED - what to do
+    .describe('What a schedule_action does when it fires (or which kind to cancel)'),
+  scheduleTrigger: z.enum(['delay', 'at_time', 'end_of_track', 'end_of_context']) // REQUIRED - when to do it
+    .describe('When a schedule_action fires'),
+  delayMinutes: z.number().positive().max(1440).optional().nullable() // REQUIRED for trigger 'delay'
+    .describe('Minutes from now for trigger delay'),
+  atTime: z.string().regex(/^\d{1,2}:\d{2}$/).optional().nullable() // REQUIRED for trigger 'at_time' (24h HH:MM)
+    .describe('24h clock time (HH:MM) for trigger at_time'),
+  fadeSeconds: z.number().positive().max(600).optional().nullable() // fade_out duration
+    .describe('How long a fade_out takes in seconds'),
+  query: z.string().optional().nullable(), // REQUIRED for play_playlist
+  volume_level: z.number().min(0).max(100).optional().nullable() // REQUIRED for set_volume
+});
+
+export const GetScheduledActionsSchema = BaseCommandSchema.extend({
+  intent: z.literal('get_scheduled_actions')
+});
+
+export const CancelScheduledActionsSchema = BaseCommandSchema.extend({
+  intent: z.literal('cancel_scheduled_actions'),
+  scheduleAction: z.enum(['pause', 'fade_out', 'play_playlist', 'set_volume', 'resume']).optional().nullable() // Only cancel this kind
+});
@@ -3,19 +3,19 @@ import { BaseCommandSchema } from '../base';
 
 export const ChatSchema = BaseCommandSchema.extend({
   intent: z.literal('chat'),
-  message: z.string().min(1), // REQUIRED - the response to show
+  message: z.string().min(1).describe('Response message for chat intent'), // REQUIRED - the response to show
   query: z.string().optional().nullable() // Original query
 });
 
 export const AskQuestionSchema = BaseCommandSchema.extend({
   intent: z.literal('ask_question'),
-  answer: z.string().min(1), // REQUIRED - the answer to show
+  answer: z.string().min(1).describe('Answer for ask_question intent'), // REQUIRED - the answer to show
   query: z.string().optional().nullable() // Original question
 });
 
 export const ExplainReasoningSchema = BaseCommandSchema.extend({
   intent: z.literal('explain_reasoning'),
-  explanation: z.string().min(1), // REQUIRED
+  explanation: z.string().min(1).describe('Explanation for explain_reasoning intent'), // REQUIRED
   query: z.string().optional().nullable()
 });
 
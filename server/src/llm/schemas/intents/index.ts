@@ -4,4 +4,5 @@ export * from './queue';
 export * from './clarification';
 export * from './control';
 export * from './conversational';
-export * from './info';
\ No newline at end of file
+export * from './info';
+export * from './plan';export * from './playlist';
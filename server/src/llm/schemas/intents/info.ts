@@ -23,7 +23,7 @@ export const GetPlaybackInfoSchema = BaseCommandSchema.extend({
 
 export const SearchSchema = BaseCommandSchema.extend({
   intent: z.literal('search'),
-  query: z.string().min(1), // REQUIRED for search
+  query: z.string().min(1).describe('The search query if searching for music'), // REQUIRED for search
   enhancedQuery: z.string().optional().nullable(),
   alternatives: z.array(AlternativeSchema).optional().nullable()
 });
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { z } from 'zod';
+import { BaseCommandSchema } from '../base';
+import { PlaySpecificSongSchema, PlayPlaylistSchema, PlayControlSchema } from './play';
+import { QueueSpecificSongSchema, QueueMultipleSongsSchema, QueuePlaylistSchema } from './queue';
+import {
+  PauseSchema,
+  SkipSchema,
+  PreviousSchema,
+  NextSchema,
+  BackSchema,
+  ResumeSchema,
+  SetVolumeSchema,
+  VolumeSchema,
+  SetShuffleSchema,
+  SetRepeatSchema,
+  ClearQueueSchema
+} from './control';
+import { GetCurrentTrackSchema, GetPlaybackInfoSchema, SearchSchema } from './info';
+
+export const MAX_PLAN_STEPS = 6;
+
+// Only intents that act on playback can be chained - conversational and
+// clarification intents need a round-trip with the user instead
+export const PlanStepSchema = z.discriminatedUnion('intent', [
+  PlaySpecificSongSchema,
+  PlayPlaylistSchema,
+  PlayControlSchema,
+  QueueSpecificSongSchema,
+  QueueMultipleSongsSchema,
+  QueuePlaylistSchema,
+  PauseSchema,
+  SkipSchema,
+  PreviousSchema,
+  NextSchema,
+  BackSchema,
+  ResumeSchema,
+  SetVolumeSchema,
+  VolumeSchema,
+  SetShuffleSchema,
+  SetRepeatSchema,
+  ClearQueueSchema,
+  GetCurrentTrackSchema,
+  GetPlaybackInfoSchema,
+  SearchSchema
+]);
+
+export const MultiStepPlanSchema = BaseCommandSchema.extend({
+  intent: z.literal('multi_step_plan'),
+  steps: z.array(PlanStepSchema).min(2).max(MAX_PLAN_STEPS) // REQUIRED - executed in order
+    .describe(`Ordered steps for multi_step_plan intent (2-${MAX_PLAN_STEPS} single-action commands)`),
+  executionOrder: z.enum(['sequential', 'parallel']).default('sequential')
+    .describe('How plan steps run; use sequential whenever order matters'),
+  onStepFailure: z.enum(['stop', 'continue']).default('stop')
+    .describe('Whether a multi_step_plan stops or continues after a failed step')
+});
+
+export type PlanStep = z.infer<typeof PlanStepSchema>;
+export type MultiStepPlan = z.infer<typeof MultiStepPlanSchema>;
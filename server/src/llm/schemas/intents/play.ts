@@ -3,11 +3,12 @@ import { BaseCommandSchema, AlternativeSchema } from '../base';
 
 export const PlaySpecificSongSchema = BaseCommandSchema.extend({
   intent: z.literal('play_specific_song'),
-  artist: z.string().min(1), // REQUIRED
-  track: z.string().min(1),  // REQUIRED
-  album: z.string().optional().nullable(),
-  alternatives: z.array(AlternativeSchema).optional().nullable(),
-  enhancedQuery: z.string().optional().nullable()
+  artist: z.string().min(1).describe('Artist name if specified'), // REQUIRED
+  track: z.string().min(1).describe('Track/song name if specified'),  // REQUIRED
+  album: z.string().optional().nullable().describe('Album name if specified'),
+  alternatives: z.array(AlternativeSchema).optional().nullable()
+    .describe('Alternative interpretations or suggestions (strings or structured objects)'),
+  enhancedQuery: z.string().optional().nullable().describe('Enhanced Spotify search query with proper operators')
 });
 
 export const PlayPlaylistSchema = BaseCommandSchema.extend({
@@ -0,0 +1,27 @@
+import { z } from 'zod';
+import { BaseCommandSchema } from '../base';
+
+// Which tracks a playlist edit applies to
+const PlaylistTrackSourceSchema = z.enum(['current', 'recent', 'track']);
+
+export const AddToPlaylistSchema = BaseCommandSchema.extend({
+  intent: z.literal('add_to_playlist'),
+  playlistName: z.string().min(1) // REQUIRED - the user's playlist, as they said it
+    .describe("Name of the user's playlist to add to or remove from, as they said it"),
+  trackSource: PlaylistTrackSourceSchema.default('current')
+    .describe('Which tracks a playlist edit applies to: the current track, recently played tracks, or the named artist/track'),
+  trackCount: z.number().int().min(1).max(50).optional().nullable() // recent only - "the last 10 songs"
+    .describe('How many recently played tracks to add (trackSource recent)'),
+  artist: z.string().optional().nullable(), // track only
+  track: z.string().optional().nullable(),  // track only
+  confirmCreate: z.boolean().optional().nullable() // Only after the user agreed to create a missing playlist
+    .describe('true only when the user agreed to create a playlist that does not exist yet')
+});
+
+export const RemoveFromPlaylistSchema = BaseCommandSchema.extend({
+  intent: z.literal('remove_from_playlist'),
+  playlistName: z.string().min(1), // REQUIRED
+  trackSource: PlaylistTrackSourceSchema.exclude(['recent']).default('current'),
+  artist: z.string().optional().nullable(),
+  track: z.string().optional().nullable()
+});
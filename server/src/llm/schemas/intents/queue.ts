@@ -7,13 +7,15 @@ export const QueueSpecificSongSchema = BaseCommandSchema.extend({
   track: z.string().min(1),  // REQUIRED
   album: z.string().optional().nullable(),
   alternatives: z.array(AlternativeSchema).optional().nullable(),
-  enhancedQuery: z.string().optional().nullable()
+  enhancedQuery: z.string().optional().nullable(),
+  insertNext: z.boolean().optional().nullable() // "play X next" - jump ahead of the queue
+    .describe('For queue_specific_song: true when the song should play next')
 });
 
 export const QueueMultipleSongsSchema = BaseCommandSchema.extend({
   intent: z.literal('queue_multiple_songs'),
-  songs: z.array(SongSchema).min(1).max(10), // REQUIRED array
-  theme: z.string().optional().nullable(),
+  songs: z.array(SongSchema).min(1).max(10).describe('Array of songs for queue_multiple_songs intent'), // REQUIRED array
+  theme: z.string().optional().nullable().describe('Theme description for multiple queued songs'),
   alternatives: z.array(AlternativeSchema).optional().nullable()
 });
 
@@ -22,4 +24,19 @@ export const QueuePlaylistSchema = BaseCommandSchema.extend({
   query: z.string().min(1), // REQUIRED - playlist name/search
   enhancedQuery: z.string().optional().nullable(),
   alternatives: z.array(AlternativeSchema).optional().nullable()
+});
+
+export const RemoveFromQueueSchema = BaseCommandSchema.extend({
+  intent: z.literal('remove_from_queue'),
+  queuePosition: z.number().int().min(1).optional().nullable() // 1-based position in the queue
+    .describe('1-based queue position of the track to remove or move'),
+  query: z.string().optional().nullable() // Or the track/artist name to remove
+});
+
+export const MoveInQueueSchema = BaseCommandSchema.extend({
+  intent: z.literal('move_in_queue'),
+  queuePosition: z.number().int().min(1).optional().nullable(), // 1-based position of the track to move
+  query: z.string().optional().nullable(), // Or the track/artist name to move
+  toPosition: z.number().int().min(1) // REQUIRED - 1 means play it next
+    .describe('1-based queue position to move the track to (1 = next)')
 });
\ No newline at end of file
@@ -1,12 +1,14 @@
 import { Request, Response, NextFunction } from 'express';
 import { SessionManager } from '../auth/session-manager';
-import { SpotifyAuthService } from '../auth/spotify-auth.service';
+import { getValidTokensForSession, setRedisClient as setSessionTokensRedisClient } from '../auth/session-tokens';
+import { getListeningHistoryService } from '../services/ListeningHistoryService';
 
 // Global variable for Redis client - will be set by server.ts
 let redisClient: any = null;
 
 export function setRedisClient(client: any) {
   redisClient = client;
+  setSessionTokensRedisClient(client);
 }
 
 // For routes that need valid tokens (server-side Spotify calls)
@@ -43,7 +45,7 @@ export async function requireValidTokens(
     }
     
     // Get tokens first and check if refresh is needed
-    const tokens = await sessionManager.getTokens(sessionId);
+    const tokens = await getValidTokensForSession(sessionId);
     if (!tokens) {
       return res.status(401).json({ 
         error: 'No tokens found',
@@ -51,26 +53,12 @@ export async function requireValidTokens(
       });
     }
 
-    // Check if token is still valid (5 min buffer) - same logic as in SpotifyAuthService
-    const now = Date.now();
-    const expiresAt = tokens.expires_at;
-    const bufferTime = now + 300000; // 5 minutes from now
-
-    let accessToken = tokens.access_token;
-
-    // Only refresh if actually needed
-    if (expiresAt <= bufferTime) {
-      console.log('🔄 Token expired or expiring soon, refreshing...');
-      const authService = new SpotifyAuthService(redisClient);
-      const refreshResult = await authService.refreshAccessToken(sessionId);
-      accessToken = refreshResult.accessToken;
-    }
-
-    req.tokens = {
-      access_token: accessToken,
-      refresh_token: tokens.refresh_token
-    };
+    req.tokens = tokens;
     req.userId = session.userId;
+
+    // Keep the user's listening history ingesting while they use the app
+    getListeningHistoryService().markActive(session.userId, sessionId)
+      .catch(error => console.error('[HISTORY] Failed to mark user active:', error));
     
     next();
   } catch (error: any) {
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
 import { SpotifyWebAPI } from '../spotify/api';
+import { buildSpotifyQuery } from '../spotify/search-query';
 
 export const debugTokenRouter = Router();
 
@@ -62,7 +63,7 @@ debugTokenRouter.get('/verify-songs', requireValidTokens, async (req: any, res)
       
       // Search with different query variations
       const queries = [
-        `artist:"${song.artist}" track:"${song.track}"`,
+        buildSpotifyQuery({ artist: song.artist, track: song.track }),
         `"${song.artist}" "${song.track}"`,
         `${song.artist} ${song.track}`,
         `${song.track} ${song.artist}`
@@ -1,10 +1,11 @@
 import { Router } from 'express';
 import { SpotifyControl } from '../spotify/control';
-import { SpotifyWebAPI } from '../spotify/api';
 import { requireValidTokens } from '../middleware/session-auth';
 import { ConversationManager, getConversationManager } from '../services/ConversationManager';
 import { UserDataService } from '../services/UserDataService';
 import { getWebSocketService } from '../services/websocket.service';
+import { applyListeningRules } from '../services/ListeningRulesService';
+import { getPlaybackUndoService } from '../services/PlaybackUndoService';
 
 export const directActionRouter = Router();
 
@@ -18,9 +19,9 @@ export function setRedisClient(client: any) {
   console.log('✅ Direct action ConversationManager initialized');
 }
 
-// Helper to get user data service with SpotifyWebAPI
-function getUserDataService(userId: string, spotifyWebAPI: any, redisClient: any) {
-  return new UserDataService(redisClient, spotifyWebAPI, userId);
+// Helper to get user data service with the music backend
+function getUserDataService(userId: string, musicBackend: any, redisClient: any) {
+  return new UserDataService(redisClient, musicBackend, userId);
 }
 
 // Helper function to emit WebSocket events for direct actions
@@ -123,6 +124,7 @@ directActionRouter.post('/song', requireValidTokens, async (req: any, res) => {
       tokens,
       (newTokens) => { req.tokens = newTokens; }
     );
+    await applyListeningRules(spotifyControl, userId);
     
     let response: string;
     let success = false;
@@ -130,7 +132,8 @@ directActionRouter.post('/song', requireValidTokens, async (req: any, res) => {
     try {
       if (action === 'play') {
         // Play the track directly using the URI
-        await spotifyControl.playTrack(uri);
+        await getPlaybackUndoService().withUndoPoint(userId, spotifyControl, { command: `play ${name} by ${artists}`, intent: 'play_specific_song' },
+          () => spotifyControl.playTrack(uri));
         success = true;
         response = `Playing: ${name} by ${artists}`;
       } else {
@@ -218,12 +221,14 @@ directActionRouter.post('/playlist', requireValidTokens, async (req: any, res) =
       tokens,
       (newTokens) => { req.tokens = newTokens; }
     );
+    await applyListeningRules(spotifyControl, userId);
     
     let response: string = 'Invalid action';
     let success = false;
 
     if (action === 'play') {
-      const result = await spotifyControl.playPlaylist(uri);
+      const result = await getPlaybackUndoService().withUndoPoint(userId, spotifyControl, { command: 'play playlist', intent: 'play_playlist' },
+        () => spotifyControl.playPlaylist(uri), result => result.success);
       success = result.success;
       response = result.success 
         ? `Playing playlist`
@@ -289,6 +294,7 @@ directActionRouter.post('/playlist-uri', requireValidTokens, async (req: any, re
       tokens,
       (newTokens) => { req.tokens = newTokens; }
     );
+    await applyListeningRules(spotifyControl, userId);
     
     let response: string = 'Invalid action';
     let success = false;
@@ -296,7 +302,8 @@ directActionRouter.post('/playlist-uri', requireValidTokens, async (req: any, re
     try {
       if (action === 'play') {
         // Play the playlist directly using the URI
-        const playResult = await spotifyControl.playPlaylist(uri);
+        const playResult = await getPlaybackUndoService().withUndoPoint(userId, spotifyControl, { command: `play playlist ${name || uri}`, intent: 'play_playlist' },
+          () => spotifyControl.playPlaylist(uri), result => result.success);
         success = playResult.success;
         response = playResult.success 
           ? `Playing playlist: ${name || 'Unknown playlist'}` 
@@ -376,10 +383,11 @@ directActionRouter.post('/start-playback', requireValidTokens, async (req: any,
       tokens,
       (newTokens) => { req.tokens = newTokens; }
     );
+    await applyListeningRules(spotifyControl, userId);
 
-    // Get user data service instance with SpotifyWebAPI
-    const spotifyWebAPI = new SpotifyWebAPI(tokens, (newTokens) => { req.tokens = newTokens; });
-    const userDataService = getUserDataService(userId, spotifyWebAPI, redisClient);
+    // Get user data service instance sharing the control's music backend
+    const musicBackend = spotifyControl.getApi();
+    const userDataService = getUserDataService(userId, musicBackend, redisClient);
     
     let trackUris: string[] = [];
     
@@ -411,39 +419,40 @@ directActionRouter.post('/start-playback', requireValidTokens, async (req: any,
       });
     }
 
-    // For web player, we might need to handle this differently
-    // Try to get current playback state first
-    const currentPlayback = await spotifyWebAPI.getCurrentPlayback();
+    const result = await getPlaybackUndoService().withUndoPoint(userId, spotifyControl, { command: `play ${playType} tracks`, intent: 'play' }, async () => {
+      // For web player, we might need to handle this differently
+      // Try to get current playback state first
+      const currentPlayback = await musicBackend.getCurrentPlayback();
     
-    let result;
-    if (!currentPlayback || !currentPlayback.is_playing) {
-      // No active playback, we need to start fresh
-      // Play the first track, then queue the rest
-      try {
-        const firstTrackUri = trackUris[0];
-        const remainingTracks = trackUris.slice(1);
+      if (!currentPlayback || !currentPlayback.is_playing) {
+        // No active playback, we need to start fresh
+        // Play the first track, then queue the rest
+        try {
+          const firstTrackUri = trackUris[0];
+          const remainingTracks = trackUris.slice(1);
         
-        // Play the first track
-        await spotifyControl.playTrack(firstTrackUri);
+          // Play the first track
+          await spotifyControl.playTrack(firstTrackUri);
         
-        // Queue the remaining tracks
-        for (const uri of remainingTracks) {
-          await spotifyWebAPI.addToQueue(uri);
-        }
+          // Queue the remaining tracks
+          for (const uri of remainingTracks) {
+            await musicBackend.addToQueue(uri);
+          }
         
-        result = { 
-          success: true, 
-          message: `Started playing ${trackUris.length} tracks` 
-        };
-      } catch (playError: any) {
-        console.log('Track-by-track queueing failed (404 - no active playback), falling back to batch play method');
-        // Fall back to original method
-        result = await spotifyControl.playTracks(trackUris);
+          return { 
+            success: true, 
+            message: `Started playing ${trackUris.length} tracks` 
+          };
+        } catch (playError: any) {
+          console.log('Track-by-track queueing failed (404 - no active playback), falling back to batch play method');
+          // Fall back to original method
+          return spotifyControl.playTracks(trackUris);
+        }
+      } else {
+        // There's active playback, use the batch method
+        return spotifyControl.playTracks(trackUris);
       }
-    } else {
-      // There's active playback, use the batch method
-      result = await spotifyControl.playTracks(trackUris);
-    }
+    }, result => result.success);
     
     if (result.success) {
       // Don't add to conversation history for direct actions
@@ -0,0 +1,65 @@
+import { Router } from 'express';
+import { requireSession } from '../middleware/session-auth';
+import { getFamilyModeService } from '../services/FamilyModeService';
+
+const router = Router();
+
+// Family mode settings: on everywhere, or only for some devices
+router.get('/', requireSession, async (req: any, res) => {
+  try {
+    const familyMode = getFamilyModeService();
+    if (!familyMode.isAvailable()) {
+      return res.status(503).json({ error: 'Family mode is not available right now' });
+    }
+
+    const settings = await familyMode.getSettings(req.userId);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error loading family mode:', error);
+    res.status(500).json({ error: 'Failed to load family mode' });
+  }
+});
+
+// Turn family mode on or off for all devices
+router.put('/', requireSession, async (req: any, res) => {
+  try {
+    const familyMode = getFamilyModeService();
+    if (!familyMode.isAvailable()) {
+      return res.status(503).json({ error: 'Family mode is not available right now' });
+    }
+
+    const { enabled } = req.body;
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be true or false' });
+    }
+
+    const settings = await familyMode.setEnabled(req.userId, enabled);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error saving family mode:', error);
+    res.status(500).json({ error: 'Failed to save family mode' });
+  }
+});
+
+// Turn family mode on or off for one Spotify device
+router.put('/devices/:deviceId', requireSession, async (req: any, res) => {
+  try {
+    const familyMode = getFamilyModeService();
+    if (!familyMode.isAvailable()) {
+      return res.status(503).json({ error: 'Family mode is not available right now' });
+    }
+
+    const { enabled } = req.body;
+    if (typeof enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be true or false' });
+    }
+
+    const settings = await familyMode.setDeviceEnabled(req.userId, req.params.deviceId, enabled);
+    res.json({ success: true, settings });
+  } catch (error) {
+    console.error('Error saving family mode for device:', error);
+    res.status(500).json({ error: 'Failed to save family mode' });
+  }
+});
+
+export default router;
@@ -139,4 +139,34 @@ feedbackRouter.get('/dashboard', requireValidTokens, async (req: any, res) => {
       error: 'Failed to fetch feedback dashboard data'
     });
   }
-});
\ No newline at end of file
+});
+
+// POST /api/feedback/playlist/sync - Reconcile the DJ Forge playlist with feedback now
+feedbackRouter.post('/playlist/sync', requireValidTokens, async (req: any, res) => {
+  try {
+    const userId = getUserIdFromSession(req);
+    if (!userId || !redisClient) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+
+    const spotifyControl = new SpotifyControl(
+      req.tokens!,
+      (tokens) => { req.tokens = tokens; }
+    );
+
+    const userDataService = new UserDataService(redisClient, spotifyControl.getApi(), userId);
+    const result = await userDataService.reconcileJDForgePlaylist();
+
+    res.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Error syncing DJ Forge playlist:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to sync DJ Forge playlist'
+    });
+  }
+});
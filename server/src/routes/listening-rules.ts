@@ -0,0 +1,43 @@
+import { Router } from 'express';
+import { requireSession } from '../middleware/session-auth';
+import { getListeningRulesService } from '../services/ListeningRulesService';
+
+const router = Router();
+
+// The user's listening rules (blocked artists/tracks/genres/eras, explicit filter)
+router.get('/', requireSession, async (req: any, res) => {
+  try {
+    const rulesService = getListeningRulesService();
+    if (!rulesService.isAvailable()) {
+      return res.status(503).json({ error: 'Listening rules are not available right now' });
+    }
+
+    const rules = await rulesService.getRules(req.userId);
+    res.json({ success: true, rules });
+  } catch (error) {
+    console.error('Error loading listening rules:', error);
+    res.status(500).json({ error: 'Failed to load listening rules' });
+  }
+});
+
+// Replace the rule set; invalid entries are dropped rather than rejected
+router.put('/', requireSession, async (req: any, res) => {
+  try {
+    const rulesService = getListeningRulesService();
+    if (!rulesService.isAvailable()) {
+      return res.status(503).json({ error: 'Listening rules are not available right now' });
+    }
+
+    if (!req.body || typeof req.body !== 'object' || Array.isArray(req.body)) {
+      return res.status(400).json({ error: 'Expected a rules object' });
+    }
+
+    const rules = await rulesService.saveRules(req.userId, req.body);
+    res.json({ success: true, rules });
+  } catch (error) {
+    console.error('Error saving listening rules:', error);
+    res.status(500).json({ error: 'Failed to save listening rules' });
+  }
+});
+
+export default router;
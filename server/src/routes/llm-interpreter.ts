@@ -18,6 +18,9 @@ import { UserDataService } from '../services/UserDataService';
 import { createRedisClient } from '../config/redis';
 import { detectRequestContextType } from '../utils/requestContext';
 import { getWebSocketService } from '../services/websocket.service';
+import { toPlaybackStatePayload, toWatchedPlaybackState } from '../services/PlaybackWatcherService';
+import { TrackMatchSummary, summarizeResolution, describeUnresolved } from '../services/TrackResolver';
+import { applyListeningRules } from '../services/ListeningRulesService';
 
 export const llmInterpreterRouter = Router();
 
@@ -90,17 +93,7 @@ async function emitSchemaLLMWebSocketEvents(
         // Get full playback state
         const playbackState = await spotifyControl.getApi().getCurrentPlayback();
         if (playbackState) {
-          musicService.emitPlaybackStateChange(userId, {
-            isPlaying: playbackState.is_playing || false,
-            track: playbackState.item,
-            position: Math.floor((playbackState.progress_ms || 0) / 1000),
-            duration: Math.floor((playbackState.item?.duration_ms || 0) / 1000),
-            device: playbackState.device?.name || 'Unknown',
-            shuffleState: playbackState.shuffle_state || false,
-            repeatState: playbackState.repeat_state || 'off',
-            volume: playbackState.device?.volume_percent || 0,
-            timestamp: Date.now()
-          });
+          musicService.emitPlaybackStateChange(userId, toPlaybackStatePayload(toWatchedPlaybackState(playbackState, Date.now())));
         }
       }
       
@@ -349,6 +342,7 @@ llmInterpreterRouter.post('/command', requireValidTokens, async (req: any, res)
       req.tokens!,
       (tokens) => { req.tokens = tokens; }
     );
+    await applyListeningRules(spotifyControl, userId);
     let result;
 
     switch (interpretation.intent) {
@@ -393,45 +387,75 @@ llmInterpreterRouter.post('/command', requireValidTokens, async (req: any, res)
           break;
         }
         
-        const searchResults = await spotifyControl.search(searchQuery);
-        const rankedTracks = applySearchModifiers(searchResults, interpretation.modifiers);
+        let topTrack: SpotifyTrack | undefined;
+        let otherTracks: SpotifyTrack[] = [];
+        let match: TrackMatchSummary | undefined;
         
-        if (rankedTracks.length === 0) {
-          result = { 
-            success: false, 
-            message: `No tracks found for: "${searchQuery}"`,
-            interpretation
+        if (interpretation.artist || interpretation.track) {
+          // A named song - verify the result really is that song
+          const request = {
+            artist: interpretation.artist,
+            track: interpretation.track,
+            album: interpretation.album,
+            version: interpretation.modifiers?.version
           };
-        } else {
-          const topTrack = rankedTracks[0];
+          const resolution = await spotifyControl.resolveTrack(request, searchQuery);
+          match = summarizeResolution(resolution, request);
+          topTrack = resolution.match?.track;
+          otherTracks = resolution.candidates.filter(c => c !== resolution.match).map(c => c.track);
           
-          if (interpretation.intent === 'play_specific_song') {
-            await spotifyControl.playTrack(topTrack.uri);
-            result = {
-              success: true,
-              message: `Playing: ${topTrack.name} by ${topTrack.artists.map(a => a.name).join(', ')}`
-            };
-          } else {
-            const queueResult = await spotifyControl.queueTrackByUri(topTrack.uri);
+          if (!topTrack) {
             result = {
-              success: queueResult.success,
-              message: queueResult.success 
-                ? `Added to queue: ${topTrack.name} by ${topTrack.artists.map(a => a.name).join(', ')}`
-                : queueResult.message || 'Failed to add track to queue'
+              success: false,
+              message: resolution.best ? describeUnresolved(resolution, request) : `No tracks found for: "${searchQuery}"`,
+              match,
+              interpretation
             };
+            break;
           }
+        } else {
+          const searchResults = await spotifyControl.search(searchQuery);
+          const rankedTracks = applySearchModifiers(searchResults, interpretation.modifiers);
+          topTrack = rankedTracks[0];
+          otherTracks = rankedTracks.slice(1);
           
+          if (!topTrack) {
+            result = { 
+              success: false, 
+              message: `No tracks found for: "${searchQuery}"`,
+              interpretation
+            };
+            break;
+          }
+        }
+        
+        if (interpretation.intent === 'play_specific_song') {
+          await spotifyControl.playTrack(topTrack.uri);
           result = {
-            ...result,
-            track: topTrack,
-            alternatives: rankedTracks.slice(1, 5).map(t => ({
-              name: t.name,
-              artists: t.artists.map(a => a.name).join(', '),
-              popularity: t.popularity,
-              uri: t.uri
-            }))
+            success: true,
+            message: `Playing: ${topTrack.name} by ${topTrack.artists.map(a => a.name).join(', ')}`
+          };
+        } else {
+          const queueResult = await spotifyControl.queueTrackByUri(topTrack.uri);
+          result = {
+            success: queueResult.success,
+            message: queueResult.success 
+              ? `Added to queue: ${topTrack.name} by ${topTrack.artists.map(a => a.name).join(', ')}`
+              : queueResult.message || 'Failed to add track to queue'
           };
         }
+        
+        result = {
+          ...result,
+          track: topTrack,
+          alternatives: otherTracks.slice(0, 4).map(t => ({
+            name: t.name,
+            artists: t.artists.map(a => a.name).join(', '),
+            popularity: t.popularity,
+            uri: t.uri
+          })),
+          ...(match && { match })
+        };
         break;
       }
         
@@ -550,18 +574,20 @@ llmInterpreterRouter.post('/command', requireValidTokens, async (req: any, res)
           
           for (const song of songs) {
             try {
-              let searchQuery = `artist:"${song.artist}" track:"${song.track}"`;
-              if (song.album) {
-                searchQuery += ` album:"${song.album}"`;
-              }
-              
-              const tracks = await spotifyControl.search(searchQuery);
-              if (tracks.length > 0) {
-                const queueResult = await spotifyControl.queueTrackByUri(tracks[0].uri);
+              const resolution = await spotifyControl.resolveTrack({
+                artist: song.artist,
+                track: song.track,
+                album: song.album,
+                version: interpretation.modifiers?.version
+              });
+              if (resolution.match) {
+                const track = resolution.match.track;
+                const queueResult = await spotifyControl.queueTrackByUri(track.uri);
                 queueResults.push({
-                  name: tracks[0].name,
-                  artists: tracks[0].artists.map((a: any) => a.name).join(', '),
+                  name: track.name,
+                  artists: track.artists.map((a: any) => a.name).join(', '),
                   success: queueResult.success,
+                  matchConfidence: resolution.match.confidence,
                   error: queueResult.success ? undefined : queueResult.message
                 });
               } else {
@@ -2,6 +2,8 @@ import { Router } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
 import { SpotifyControl } from '../spotify/control';
 import { LLMLoggingService } from '../services/llm-logging.service';
+import { getLLMBudgetService } from '../services/LLMBudgetService';
+import { getPromptRegistry } from '../llm/prompts/registry';
 
 export const llmLogsRouter = Router();
 
@@ -225,6 +227,9 @@ llmLogsRouter.get('/api/llm-logs/stats', requireValidTokens, requireAdmin, async
       providerDistribution,
       intentDistribution,
       errorRate: Math.round(errorRate * 1000) / 10, // Percentage with 1 decimal
+      hallucinationStats: await loggingService.getHallucinationStats(startDate, endDate),
+      promptVersions: await loggingService.getPromptVersionStats(startDate, endDate),
+      promptExperiments: getPromptRegistry().getExperiments(),
       periodDays: 30
     });
   } catch (error: any) {
@@ -233,6 +238,39 @@ llmLogsRouter.get('/api/llm-logs/stats', requireValidTokens, requireAdmin, async
   }
 });
 
+// Get LLM spend per day, per model and per user
+llmLogsRouter.get('/api/llm-logs/costs', requireValidTokens, requireAdmin, async (req: any, res) => {
+  try {
+    if (!loggingService) {
+      return res.status(500).json({ error: 'Logging service not initialized' });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 90);
+    const endDate = new Date();
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - (days - 1));
+
+    res.json({
+      ...await loggingService.getCostStats(startDate, endDate),
+      periodDays: days
+    });
+  } catch (error: any) {
+    console.error('Failed to get costs:', error);
+    res.status(500).json({ error: 'Failed to retrieve costs' });
+  }
+});
+
+// Get the current user's LLM spend and budget (non-admin)
+llmLogsRouter.get('/api/llm-logs/my-usage', requireValidTokens, async (req: any, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 90);
+    res.json(await getLLMBudgetService().getUsage(req.userId, days));
+  } catch (error: any) {
+    console.error('Failed to get user usage:', error);
+    res.status(500).json({ error: 'Failed to retrieve your usage' });
+  }
+});
+
 // Get logs for current user (non-admin)
 llmLogsRouter.get('/api/llm-logs/my-logs', requireValidTokens, async (req: any, res) => {
   try {
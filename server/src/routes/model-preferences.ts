@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
 import { llmOrchestrator, OPENROUTER_MODELS, OPENAI_MODELS } from '../llm/orchestrator';
+import { getConversationManager } from '../services/ConversationManager';
 
 export const modelPreferencesRouter = Router();
 
@@ -177,6 +178,24 @@ const MODEL_DISPLAY_INFO: Record<string, { name: string; provider: string; descr
   },
 };
 
+// Display info for every selectable model: the hosted models above plus any
+// self-hosted local/<name> models configured with LOCAL_LLM_MODELS
+function getModelDisplayInfo(): Record<string, { name: string; provider: string; description: string }> {
+  const displayInfo = { ...MODEL_DISPLAY_INFO };
+  
+  llmOrchestrator.getLocalModels().forEach(id => {
+    displayInfo[id] = {
+      name: `${id.substring(id.indexOf('/') + 1)} (Local)`,
+      provider: 'Local',
+      description: llmOrchestrator.isJSONCapable(id)
+        ? 'Self-hosted model with native JSON output'
+        : 'Self-hosted model (prompted JSON, validated and repaired)'
+    };
+  });
+  
+  return displayInfo;
+}
+
 // Group models by provider
 function getGroupedModels() {
   const grouped: Record<string, Array<{ 
@@ -187,7 +206,7 @@ function getGroupedModels() {
     providerInfo: { provider: string; isDirect: boolean; supportsGrounding: boolean };
   }>> = {};
   
-  Object.entries(MODEL_DISPLAY_INFO).forEach(([id, info]) => {
+  Object.entries(getModelDisplayInfo()).forEach(([id, info]) => {
     if (!grouped[info.provider]) {
       grouped[info.provider] = [];
     }
@@ -204,7 +223,7 @@ function getGroupedModels() {
   });
   
   // Reorder providers to put OpenAI first (GPT-5 is the default)
-  const providerOrder = ['OpenAI', 'Google', 'Anthropic', 'Mistral', 'DeepSeek', 'X.AI', 'Meta', 'Qwen'];
+  const providerOrder = ['OpenAI', 'Google', 'Anthropic', 'Mistral', 'DeepSeek', 'X.AI', 'Meta', 'Qwen', 'Local'];
   const orderedGrouped: Record<string, Array<{ 
     id: string; 
     name: string; 
@@ -241,7 +260,7 @@ modelPreferencesRouter.get('/models', requireValidTokens, async (req: any, res)
     
     if (userId) {
       const savedPreference = await getUserModelPreference(userId);
-      if (savedPreference && MODEL_DISPLAY_INFO[savedPreference]) {
+      if (savedPreference && getModelDisplayInfo()[savedPreference]) {
         currentPreference = savedPreference;
       }
     }
@@ -264,12 +283,13 @@ modelPreferencesRouter.get('/models', requireValidTokens, async (req: any, res)
 modelPreferencesRouter.post('/models', requireValidTokens, async (req: any, res) => {
   try {
     const { modelId } = req.body;
+    const displayInfo = getModelDisplayInfo();
     
     // Validate model ID
-    if (!modelId || !MODEL_DISPLAY_INFO[modelId]) {
+    if (!modelId || !displayInfo[modelId]) {
       return res.status(400).json({ 
         error: 'Invalid model ID',
-        availableModels: Object.keys(MODEL_DISPLAY_INFO)
+        availableModels: Object.keys(displayInfo)
       });
     }
     
@@ -282,7 +302,7 @@ modelPreferencesRouter.post('/models', requireValidTokens, async (req: any, res)
     res.json({
       success: true,
       modelId,
-      modelInfo: MODEL_DISPLAY_INFO[modelId]
+      modelInfo: displayInfo[modelId]
     });
   } catch (error) {
     console.error('Error updating model preference:', error instanceof Error ? error.message : error);
@@ -293,12 +313,64 @@ modelPreferencesRouter.post('/models', requireValidTokens, async (req: any, res)
   }
 });
 
+// Get the user's fallback chain, the global chain and provider circuit states
+modelPreferencesRouter.get('/fallback-chain', requireValidTokens, async (req: any, res) => {
+  try {
+    const userId = getUserIdFromRequest(req);
+    const userChain = userId ? await getConversationManager(redisClient).getUserFallbackChain(userId) : null;
+    
+    res.json({
+      fallbackChain: userChain || [],
+      globalFallbackChain: llmOrchestrator.getFallbackChain(),
+      circuitBreakers: llmOrchestrator.getCircuitBreakerStates()
+    });
+  } catch (error) {
+    console.error('Error fetching fallback chain:', error instanceof Error ? error.message : error);
+    res.status(500).json({ 
+      error: 'Failed to fetch fallback chain',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
+// Update the user's fallback chain (an empty array reverts to the global chain)
+modelPreferencesRouter.post('/fallback-chain', requireValidTokens, async (req: any, res) => {
+  try {
+    const { models } = req.body;
+    const displayInfo = getModelDisplayInfo();
+    
+    if (!Array.isArray(models) || models.some((modelId: any) => !displayInfo[modelId])) {
+      return res.status(400).json({ 
+        error: 'Invalid fallback chain',
+        availableModels: Object.keys(displayInfo)
+      });
+    }
+    
+    const userId = getUserIdFromRequest(req);
+    if (userId) {
+      await getConversationManager(redisClient).setUserFallbackChain(userId, models);
+    }
+    
+    res.json({
+      success: true,
+      fallbackChain: models
+    });
+  } catch (error) {
+    console.error('Error updating fallback chain:', error instanceof Error ? error.message : error);
+    res.status(500).json({ 
+      error: 'Failed to update fallback chain',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+});
+
 // Get model capabilities (for display purposes)
 modelPreferencesRouter.get('/models/:modelId/capabilities', requireValidTokens, async (req: any, res) => {
   try {
     const { modelId } = req.params;
+    const displayInfo = getModelDisplayInfo();
     
-    if (!MODEL_DISPLAY_INFO[modelId]) {
+    if (!displayInfo[modelId]) {
       return res.status(404).json({ error: 'Model not found' });
     }
     
@@ -308,7 +380,7 @@ modelPreferencesRouter.get('/models/:modelId/capabilities', requireValidTokens,
     
     res.json({
       modelId,
-      ...MODEL_DISPLAY_INFO[modelId],
+      ...displayInfo[modelId],
       capabilities: {
         supportsJSON: isJSONCapable,
         contextWindow: getContextWindow(modelId),
@@ -329,6 +401,7 @@ modelPreferencesRouter.get('/models/:modelId/capabilities', requireValidTokens,
 // Helper function to get context window size
 function getContextWindow(modelId: string): string {
   // This is approximate based on the model
+  if (modelId.startsWith('local/')) return 'Server-defined';
   if (modelId.includes('claude')) return '200K tokens';
   if (modelId.includes('gemini')) return '1M tokens';
   if (modelId.includes('gpt-4.1')) return '1M tokens';
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
-import { SpotifyWebAPI } from '../spotify/api';
+import { createMusicBackend } from '../spotify/backend';
+import { searchPlaylistsRelaxed } from '../spotify/search-query';
 import { llmOrchestrator, LLMRequest } from '../llm/orchestrator';
 import { PlaylistDiscoveryRequest, PlaylistDiscoveryResponse, SelectedPlaylist } from '../types';
 import { z } from 'zod';
@@ -8,6 +9,8 @@ import crypto from 'crypto';
 import { LLMLoggingService } from '../services/llm-logging.service';
 import { createHash } from 'crypto';
 import { MusicWebSocketService } from '../services/musicWebSocket.service';
+import { getLLMBudgetService } from '../services/LLMBudgetService';
+import { getPromptRegistry, stampKey } from '../llm/prompts/registry';
 
 // Get the music websocket service instance
 const getMusicWebSocketService = () => MusicWebSocketService.getInstance();
@@ -66,7 +69,7 @@ const PlaylistSummarizationSchema = z.object({
  */
 router.post('/search', async (req: Request & { tokens?: any; userId?: string }, res: Response<PlaylistDiscoveryResponse>) => {
   try {
-    const { query, model }: PlaylistDiscoveryRequest & { model?: string } = req.body;
+    const { query, model: requestedModel }: PlaylistDiscoveryRequest & { model?: string } = req.body;
     const sessionId = req.headers['x-session-id'] as string;
 
     // Validate query
@@ -79,6 +82,11 @@ router.post('/search', async (req: Request & { tokens?: any; userId?: string },
 
     console.log(`🤖 LLM Playlist Discovery: "${query}"`);
 
+    // Over the daily budget, fall back to a cheaper model
+    const model = req.userId
+      ? (await getLLMBudgetService().chooseModel(req.userId, requestedModel || 'google/gemini-2.5-flash')).model
+      : requestedModel;
+
     // Get tokens from requireValidTokens middleware
     const tokens = req.tokens;
     if (!tokens) {
@@ -86,13 +94,13 @@ router.post('/search', async (req: Request & { tokens?: any; userId?: string },
     }
 
     // Create Spotify API instance
-    const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+    const spotifyApi = createMusicBackend(tokens, (newTokens) => {
       req.tokens = newTokens;
     });
 
     // Step 1: Perform initial Spotify search for playlists
     console.log('🔍 Step 1: Performing initial Spotify search...');
-    const searchResults = await spotifyApi.searchPlaylists(query.trim(), 50, 0);
+    const { results: searchResults } = await searchPlaylistsRelaxed(spotifyApi, query.trim(), 50, 0);
     
     const playlists = searchResults.playlists?.items || [];
     
@@ -123,37 +131,14 @@ router.post('/search', async (req: Request & { tokens?: any; userId?: string },
     // Step 3: Send to LLM for analysis and selection
     console.log('🧠 Step 2: Analyzing playlists with LLM...');
 
-    const llmPrompt = `User is looking for playlists matching: "${query}"
-
-Here are ${playlistsForAnalysis.length} playlists from Spotify search results:
-
-${playlistsForAnalysis.map((p: any, i: number) => 
-  `[${i + 1}]
-   ID: ${p.id}
-   Name: "${p.name}"
-   Description: "${p.description || 'No description'}"
-   Owner: ${p.owner}
-   Tracks: ${p.trackCount}
-   Followers: ${p.followers}
-   Public: ${p.isPublic}
-`).join('\n')}
-
-Analyze these playlists and select up to 10 that best match the user's intent: "${query}"
-
-Consider:
-- Name relevance to the query
-- Description content and how it matches the intent
-- Track count (prefer playlists with reasonable number of tracks, avoid very small ones)
-- Follower count as a quality/popularity signal
-- Owner credibility (verified accounts or high follower counts often indicate quality)
-
-Return between 5-10 playlist IDs that best match the query.
-Include more playlists to provide variety and fallback options.
-Focus on quality but aim for at least 8-10 good matches when available.
-
-Respond with a JSON object containing:
-- selectedPlaylistIds: array of ONLY the playlist ID strings (e.g., ["035OfvPcp5PUAAogsLxsbM", "7M65Xoo7Mr0XOrF5Dpd4CX"]) without any numbers or prefixes
-- reasoning: brief explanation of why these were chosen (optional)`;
+    const selectionPrompt = getPromptRegistry().resolve('playlist-selection', { userId: req.userId, sessionId });
+    const llmPrompt = selectionPrompt.content.build({
+      query,
+      playlists: playlistsForAnalysis,
+      maxSelected: 10,
+      minSelected: 5,
+      aimFor: '8-10'
+    });
 
     // Scale max_tokens based on the number of playlists being analyzed
     // Base: 8000 tokens, plus 150 tokens per playlist to handle the increased data
@@ -173,7 +158,7 @@ Respond with a JSON object containing:
       messages: [
         {
           role: 'system',
-          content: 'You are a music curator AI that analyzes playlists and selects the best matches for user queries. Always respond with valid JSON.'
+          content: selectionPrompt.content.system
         },
         {
           role: 'user',
@@ -263,7 +248,7 @@ Respond with a JSON object containing:
             selectedPlaylistIds: selectionData.selectedPlaylistIds,
             reasoning: selectionData.reasoning,
             playlistCount: selectedPlaylists.length,
-            fallbackUsed: false,
+            fallbackUsed: llmResponse.fallbackUsed || false,
             playlistsAnalyzed: playlistsForAnalysis.map((p: any) => ({
               id: p.id,
               name: p.name,
@@ -285,7 +270,8 @@ Respond with a JSON object containing:
             content: llmResponse.content,
             usage: llmResponse.usage,
             latency: latency,
-            fallbackUsed: false,
+            fallbackUsed: llmResponse.fallbackUsed || false,
+            actualModel: llmResponse.actualModel,
             rawResponse: llmResponse.rawResponse,
             processingSteps: llmResponse.processingSteps
           },
@@ -294,7 +280,8 @@ Respond with a JSON object containing:
             message: selectedPlaylists.length > 0 ? 
               `Successfully selected ${selectedPlaylists.length} playlists` : 
               'No playlists selected'
-          }
+          },
+          prompts: [selectionPrompt.stamp]
         });
       } catch (error) {
         console.error('Failed to log LLM interaction:', error);
@@ -427,7 +414,7 @@ router.post('/batch-details', async (req: Request & { tokens?: any; userId?: str
     }
 
     // Create Spotify API instance
-    const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+    const spotifyApi = createMusicBackend(tokens, (newTokens) => {
       req.tokens = newTokens;
     });
 
@@ -629,12 +616,14 @@ router.post('/summarize', async (req: Request & { tokens?: any; userId?: string
 
     console.log(`🤖 LLM Playlist Summarization: ${playlistId}${originalQuery ? ` (query: "${originalQuery}")` : ''}`);
 
-    // Create cache key based on playlist ID and query hash
+    // Create cache key based on playlist ID, query hash and prompt version
+    const summaryPrompt = getPromptRegistry().resolve('playlist-summary', { userId: req.userId, sessionId });
     let cacheKey = `playlist:summary:${playlistId}`;
     if (originalQuery) {
       const queryHash = crypto.createHash('md5').update(originalQuery.trim().toLowerCase()).digest('hex').substring(0, 8);
       cacheKey = `playlist:summary:${playlistId}:${queryHash}`;
     }
+    cacheKey += `:${stampKey(summaryPrompt.stamp)}`;
 
     // Try to get from cache first (if Redis is available)
     if (redisClient) {
@@ -660,7 +649,7 @@ router.post('/summarize', async (req: Request & { tokens?: any; userId?: string
     }
 
     // Create Spotify API instance
-    const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+    const spotifyApi = createMusicBackend(tokens, (newTokens) => {
       req.tokens = newTokens;
     });
 
@@ -737,40 +726,20 @@ router.post('/summarize', async (req: Request & { tokens?: any; userId?: string
 
     const uniqueArtists = playlistDetails.uniqueArtists.slice(0, 20); // Limit to first 20 artists for prompt length
 
-    // Create LLM prompt based on the plan specification
-    const llmPrompt = `Playlist: ${playlistDetails.name}
-Tracks: 
-${trackList}
-
-Artists featured: ${uniqueArtists.join(', ')}
-${originalQuery ? `User query: ${originalQuery}` : ''}
-
-Write a 2-3 sentence description explaining:
-1. How this playlist matches the user's request${originalQuery ? ` ("${originalQuery}")` : ' or general music preferences'}
-2. What makes it unique or interesting
-3. The general mood/style
-
-Also identify key characteristics including:
-- Primary genre (single word/phrase)
-- Mood (single word/phrase) 
-- Instrumentation (array of key instruments if identifiable)
-- Tempo (slow/medium/fast/varied)
-- Decade range (e.g., "2010s-2020s", "1980s", "Various")
-
-Provide a match score (0.0-1.0) indicating how well this playlist matches the user's intent${originalQuery ? '' : ' based on general appeal'}.
-
-Respond with a JSON object containing:
-- summary: your 2-3 sentence description
-- characteristics: object with primaryGenre, mood, instrumentation (array), tempo, decadeRange
-- matchScore: number between 0.0 and 1.0
-- reasoning: brief explanation of the match score`;
+    // Create LLM prompt from the registry version resolved with the cache key
+    const llmPrompt = summaryPrompt.content.build({
+      playlistName: playlistDetails.name,
+      trackList,
+      uniqueArtists,
+      originalQuery
+    });
 
     const llmRequest: LLMRequest & { intentType?: string } = {
       model: model || 'google/gemini-2.5-flash',
       messages: [
         {
           role: 'system',
-          content: 'You are a music analysis AI that creates engaging summaries of Spotify playlists. Always respond with valid JSON. Focus on being informative yet concise.'
+          content: summaryPrompt.content.system
         },
         {
           role: 'user',
@@ -880,7 +849,7 @@ Respond with a JSON object containing:
             characteristics: summaryData.characteristics,
             matchScore: summaryData.matchScore,
             reasoning: summaryData.reasoning,
-            fallbackUsed: false,
+            fallbackUsed: llmResponse.fallbackUsed || false,
             playlistDetails: {
               name: playlistDetails.name,
               trackCount: playlistDetails.trackCount,
@@ -904,14 +873,16 @@ Respond with a JSON object containing:
             content: llmResponse.content,
             usage: llmResponse.usage,
             latency: latency,
-            fallbackUsed: false,
+            fallbackUsed: llmResponse.fallbackUsed || false,
+            actualModel: llmResponse.actualModel,
             rawResponse: llmResponse.rawResponse,
             processingSteps: llmResponse.processingSteps
           },
           result: {
             success: true,
             message: `Successfully generated summary for playlist ${playlistId}`
-          }
+          },
+          prompts: [summaryPrompt.stamp]
         });
       } catch (error) {
         console.error('Failed to log LLM interaction:', error);
@@ -964,7 +935,7 @@ Respond with a JSON object containing:
  */
 router.post('/full-search', async (req: Request & { tokens?: any; userId?: string }, res: Response) => {
   try {
-    const { query, model, playlistLimit = 40, trackSampleSize = 30, renderLimit = 10 }: PlaylistDiscoveryRequest & { 
+    const { query, model: requestedModel, playlistLimit = 40, trackSampleSize = 30, renderLimit = 10 }: PlaylistDiscoveryRequest & { 
       model?: string; 
       playlistLimit?: number; 
       trackSampleSize?: number; 
@@ -979,6 +950,21 @@ router.post('/full-search', async (req: Request & { tokens?: any; userId?: strin
       });
     }
 
+    // Dozens of LLM calls per search - refused once the user is over the hard budget
+    let model = requestedModel;
+    if (req.userId) {
+      const budgetService = getLLMBudgetService();
+      const { allowed, budget } = await budgetService.allowsExpensiveFlow(req.userId);
+      if (!allowed) {
+        return res.status(429).json({
+          success: false,
+          error: `You've reached today's AI budget ($${budget.hardLimitUsd?.toFixed(2)}). Full playlist discovery will be available again tomorrow.`,
+          budget
+        });
+      }
+      model = (await budgetService.chooseModel(req.userId, requestedModel || 'google/gemini-2.5-flash')).model;
+    }
+
     // Validate and sanitize parameters
     const validatedPlaylistLimit = Math.min(Math.max(parseInt(String(playlistLimit), 10) || 40, 1), 200);
     const validatedTrackSampleSize = Math.min(Math.max(parseInt(String(trackSampleSize), 10) || 30, 10), 100);
@@ -993,7 +979,7 @@ router.post('/full-search', async (req: Request & { tokens?: any; userId?: strin
     }
 
     // Create Spotify API instance
-    const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+    const spotifyApi = createMusicBackend(tokens, (newTokens) => {
       req.tokens = newTokens;
     });
 
@@ -1019,6 +1005,7 @@ router.post('/full-search', async (req: Request & { tokens?: any; userId?: strin
     
     const searchStart = Date.now();
     let allPlaylists: any[] = [];
+    let searchQuery = query.trim();
     
     // Calculate how many requests we need (50 per request)
     const requestsNeeded = Math.ceil(validatedPlaylistLimit / 50);
@@ -1060,7 +1047,15 @@ router.post('/full-search', async (req: Request & { tokens?: any; userId?: strin
       
       console.log(`📄 Fetching playlists batch ${i + 1}/${requestsNeeded} (offset: ${offset}, limit: ${limit})`);
       
-      const searchResults = await spotifyApi.searchPlaylists(query.trim(), limit, offset);
+      // The first batch settles which query the rest use
+      let searchResults: any;
+      if (i === 0) {
+        const relaxed = await searchPlaylistsRelaxed(spotifyApi, searchQuery, limit, offset);
+        searchQuery = relaxed.query;
+        searchResults = relaxed.results;
+      } else {
+        searchResults = await spotifyApi.searchPlaylists(searchQuery, limit, offset);
+      }
       const batchPlaylists = searchResults.playlists?.items || [];
       allPlaylists = allPlaylists.concat(batchPlaylists);
       
@@ -1145,37 +1140,14 @@ router.post('/full-search', async (req: Request & { tokens?: any; userId?: strin
     }
 
     // LLM Selection
-    const llmPrompt = `User is looking for playlists matching: "${query}"
-
-Here are ${playlistsForAnalysis.length} playlists from Spotify search results:
-
-${playlistsForAnalysis.map((p: any, i: number) => 
-  `[${i + 1}]
-   ID: ${p.id}
-   Name: "${p.name}"
-   Description: "${p.description || 'No description'}"
-   Owner: ${p.owner}
-   Tracks: ${p.trackCount}
-   Followers: ${p.followers}
-   Public: ${p.isPublic}
-`).join('\n')}
-
-Analyze these playlists and select up to ${validatedRenderLimit} that best match the user's intent: "${query}"
-
-Consider:
-- Name relevance to the query
-- Description content and how it matches the intent
-- Track count (prefer playlists with reasonable number of tracks, avoid very small ones)
-- Follower count as a quality/popularity signal
-- Owner credibility (verified accounts or high follower counts often indicate quality)
-
-Return between ${Math.min(validatedRenderLimit, 5)}-${validatedRenderLimit} playlist IDs that best match the query.
-Include more playlists to provide variety and fallback options.
-Focus on quality but aim for at least ${Math.min(validatedRenderLimit, 8)} good matches when available.
-
-Respond with a JSON object containing:
-- selectedPlaylistIds: array of ONLY the playlist ID strings (e.g., ["035OfvPcp5PUAAogsLxsbM", "7M65Xoo7Mr0XOrF5Dpd4CX"]) without any numbers or prefixes
-- reasoning: brief explanation of why these were chosen (optional)`;
+    const selectionPrompt = getPromptRegistry().resolve('playlist-selection', { userId: req.userId, sessionId });
+    const llmPrompt = selectionPrompt.content.build({
+      query,
+      playlists: playlistsForAnalysis,
+      maxSelected: validatedRenderLimit,
+      minSelected: Math.min(validatedRenderLimit, 5),
+      aimFor: String(Math.min(validatedRenderLimit, 8))
+    });
 
     // Dynamic token allocation based on number of playlists to select
     // Be generous with tokens - we want complete responses
@@ -1190,7 +1162,7 @@ Respond with a JSON object containing:
       messages: [
         {
           role: 'system',
-          content: 'You are a music curator AI that analyzes playlists and selects the best matches for user queries. Always respond with valid JSON.'
+          content: selectionPrompt.content.system
         },
         {
           role: 'user',
@@ -1266,7 +1238,7 @@ Respond with a JSON object containing:
           interpretation: {
             selectedPlaylistIds,
             playlistCount: selectedPlaylistIds.length,
-            fallbackUsed: false,
+            fallbackUsed: llmResponse.fallbackUsed || false,
             playlistsAnalyzed: playlistsForAnalysis.map((p: any) => ({
               id: p.id,
               name: p.name,
@@ -1288,7 +1260,8 @@ Respond with a JSON object containing:
             content: llmResponse.content,
             usage: llmResponse.usage,
             latency: selectionLatency,
-            fallbackUsed: false,
+            fallbackUsed: llmResponse.fallbackUsed || false,
+            actualModel: llmResponse.actualModel,
             rawResponse: llmResponse.rawResponse,
             processingSteps: llmResponse.processingSteps
           },
@@ -1297,7 +1270,8 @@ Respond with a JSON object containing:
             message: selectedPlaylistIds.length > 0 ? 
               `Successfully selected ${selectedPlaylistIds.length} playlists for full analysis` : 
               'No playlists selected'
-          }
+          },
+          prompts: [selectionPrompt.stamp]
         });
       } catch (error) {
         console.error('Failed to log LLM interaction:', error);
@@ -1421,10 +1395,11 @@ Respond with a JSON object containing:
 
     // Phase 3: LLM Summarization for each playlist
     const finalResults: any[] = [];
+    const assessmentPrompt = getPromptRegistry().resolve('playlist-assessment', { userId: req.userId, sessionId });
 
     for (let playlistIndex = 0; playlistIndex < playlistDetails.length; playlistIndex++) {
       const playlist = playlistDetails[playlistIndex];
-      const cacheKey = `playlist:summary:${playlist.id}:${crypto.createHash('md5').update(query.trim().toLowerCase()).digest('hex').substring(0, 8)}`;
+      const cacheKey = `playlist:summary:${playlist.id}:${crypto.createHash('md5').update(query.trim().toLowerCase()).digest('hex').substring(0, 8)}:${stampKey(assessmentPrompt.stamp)}`;
       
       let summary: any = null;
 
@@ -1465,58 +1440,13 @@ Respond with a JSON object containing:
 
           const uniqueArtists = playlist.uniqueArtists.slice(0, 20);
 
-          const summaryPrompt = `Analyze this playlist against the user query: "${query}"
-
-Playlist: ${playlist.name}
-Sample tracks (${tracksForAnalysis.length} shown):
-${trackList}
-
-Artists featured: ${uniqueArtists.join(', ')}
-
-Provide an HONEST assessment following these rules:
-
-STYLE GUIDE - MANDATORY:
-DO:
-- Use measured language: "partially", "mostly", "about half", "roughly 60%"
-- Cite specific evidence: "7 of ${tracksForAnalysis.length} tracks are...", "tracks like X and Y show..."
-- Acknowledge mismatches: "later tracks drift into...", "some tracks don't align..."
-
-DON'T use these words (BANNED):
-- perfect, perfectly, iconic, legendary, masterpiece, epitomizes
-- amazing, incredible, fantastic, essential, definitive
-- must-have, sultry, cruising, windows-down
-
-GOOD example: "8 of 10 sampled tracks are 90s hip-hop classics, directly matching the 'old school hip hop' query. The remaining 2 are early 2000s R&B, slightly diluting the old school focus."
-
-BAD example: "This playlist perfectly captures summer vibes with iconic anthems from legendary artists."
-
-ANALYSIS STRUCTURE:
-1. Match Analysis (2-3 sentences with evidence):
-   - What percentage/fraction of tracks align with "${query}"?
-   - Which specific elements match vs don't match?
-   - Reference actual track names or artists as evidence
-
-2. Alignment Level: Choose one: "strong" | "moderate" | "weak" | "tangential"
-
-3. Characteristics:
-   - Primary genre(s)
-   - Mood/energy 
-   - Era focus (decade or range)
-
-Respond with JSON:
-{
-  "summary": "Your evidence-based match analysis",
-  "alignmentLevel": "strong|moderate|weak|tangential",
-  "characteristics": {
-    "primaryGenre": "...",
-    "mood": "...",
-    "instrumentation": [...],
-    "tempo": "slow|medium|fast|varied",
-    "decadeRange": "..."
-  },
-  "matchScore": 0.0-1.0,
-  "reasoning": "Brief explanation of why this score"
-}`;
+          const summaryPrompt = assessmentPrompt.content.build({
+            query,
+            playlistName: playlist.name,
+            trackList,
+            trackCount: tracksForAnalysis.length,
+            uniqueArtists
+          });
 
           // Dynamic token allocation for summaries - be generous
           // Gemini 2.5 Flash supports up to 64k output tokens
@@ -1530,7 +1460,7 @@ Respond with JSON:
             messages: [
               {
                 role: 'system',
-                content: 'You are an impartial music analyst providing evidence-based assessments. Goal: Explain concisely HOW and WHY a playlist matches (or does not match) the user\'s query. Tone: Analytical, neutral, objective. NO marketing language or superlatives. Output: Valid JSON only.'
+                content: assessmentPrompt.content.system
               },
               {
                 role: 'user',
@@ -1632,14 +1562,16 @@ Respond with JSON:
                   content: summaryLLMResponse.content,
                   usage: summaryLLMResponse.usage,
                   latency: summaryLatency,
-                  fallbackUsed: false,
+                  fallbackUsed: summaryLLMResponse.fallbackUsed || false,
+                  actualModel: summaryLLMResponse.actualModel,
                   rawResponse: summaryLLMResponse.rawResponse,
                   processingSteps: summaryLLMResponse.processingSteps
                 },
                 result: {
                   success: true,
                   message: `Successfully generated summary for playlist ${playlist.id} in full search`
-                }
+                },
+                prompts: [assessmentPrompt.stamp]
               });
             } catch (error) {
               console.error('Failed to log LLM interaction:', error);
@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
-import { SpotifyWebAPI } from '../spotify/api';
+import { createMusicBackend } from '../spotify/backend';
+import { searchPlaylistsRelaxed } from '../spotify/search-query';
 
 const router = Router();
 
@@ -37,7 +38,7 @@ router.get('/', async (req: any, res: Response) => {
     }
 
     // Create Spotify API instance
-    const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+    const spotifyApi = createMusicBackend(tokens, (newTokens) => {
       // Update tokens in request if refreshed
       req.tokens = newTokens;
     });
@@ -47,10 +48,12 @@ router.get('/', async (req: any, res: Response) => {
     let totalResults = 0;
     let hasNext = false;
     let hasPrevious = parsedOffset > 0;
+    let searchQuery = q.trim();
     
     if (parsedPlaylistLimit <= 50) {
       // Single request for limits <= 50
-      const searchResults = await spotifyApi.searchPlaylists(q.trim(), parsedPlaylistLimit, parsedOffset);
+      const { query, results: searchResults } = await searchPlaylistsRelaxed(spotifyApi, searchQuery, parsedPlaylistLimit, parsedOffset);
+      searchQuery = query;
       allPlaylists = searchResults.playlists?.items || [];
       totalResults = searchResults.playlists?.total || 0;
       hasNext = !!searchResults.playlists?.next;
@@ -71,7 +74,15 @@ router.get('/', async (req: any, res: Response) => {
         
         console.log(`📄 Fetching batch ${i + 1}/${requestsNeeded} (offset: ${batchOffset}, limit: ${batchLimit})`);
         
-        const batchResults = await spotifyApi.searchPlaylists(q.trim(), batchLimit, batchOffset);
+        // The first batch settles which query the rest use
+        let batchResults: any;
+        if (i === 0) {
+          const relaxed = await searchPlaylistsRelaxed(spotifyApi, searchQuery, batchLimit, batchOffset);
+          searchQuery = relaxed.query;
+          batchResults = relaxed.results;
+        } else {
+          batchResults = await spotifyApi.searchPlaylists(searchQuery, batchLimit, batchOffset);
+        }
         const batchPlaylists = batchResults.playlists?.items || [];
         allPlaylists = allPlaylists.concat(batchPlaylists);
         
@@ -94,6 +105,7 @@ router.get('/', async (req: any, res: Response) => {
     }
     
     const searchResults = {
+      query: searchQuery,
       playlists: {
         items: allPlaylists,
         total: totalResults,
@@ -104,6 +116,7 @@ router.get('/', async (req: any, res: Response) => {
 
     console.log(`✅ Playlist search completed:`, {
       query: q,
+      searchedWith: searchQuery,
       totalResults: searchResults.playlists?.total || 0,
       returnedItems: searchResults.playlists?.items?.length || 0,
       hasNext: !!searchResults.playlists?.next,
@@ -187,7 +200,7 @@ router.get('/:playlistId', async (req: any, res: Response) => {
     }
 
     // Create Spotify API instance
-    const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+    const spotifyApi = createMusicBackend(tokens, (newTokens) => {
       req.tokens = newTokens;
     });
 
@@ -0,0 +1,79 @@
+import { Router } from 'express';
+import { requireSession } from '../middleware/session-auth';
+import { getShadowQueueService } from '../services/ShadowQueueService';
+
+const router = Router();
+
+// DJ Forge queue, next track first
+router.get('/', requireSession, async (req: any, res) => {
+  try {
+    const shadowQueue = getShadowQueueService();
+    if (!shadowQueue.isAvailable()) {
+      return res.status(503).json({ error: 'Queue is not available right now' });
+    }
+
+    res.json({ success: true, items: await shadowQueue.list(req.userId) });
+  } catch (error) {
+    console.error('Error reading queue:', error);
+    res.status(500).json({ error: 'Failed to read queue' });
+  }
+});
+
+// Move a track: { from, to } as 0-based positions
+router.post('/move', requireSession, async (req: any, res) => {
+  try {
+    const { from, to } = req.body;
+    if (!Number.isInteger(from) || !Number.isInteger(to)) {
+      return res.status(400).json({ error: 'from and to must be integers' });
+    }
+
+    const moved = await getShadowQueueService().move(req.userId, from, to);
+    if (!moved) {
+      return res.status(404).json({ error: 'No track at that position' });
+    }
+
+    res.json({ success: true, items: await getShadowQueueService().list(req.userId) });
+  } catch (error) {
+    console.error('Error moving queue item:', error);
+    res.status(500).json({ error: 'Failed to move track' });
+  }
+});
+
+// Remove repeated tracks
+router.post('/dedupe', requireSession, async (req: any, res) => {
+  try {
+    const removed = await getShadowQueueService().dedupe(req.userId);
+    res.json({ success: true, removed });
+  } catch (error) {
+    console.error('Error deduping queue:', error);
+    res.status(500).json({ error: 'Failed to dedupe queue' });
+  }
+});
+
+// Remove one track by its queue item id
+router.delete('/:id', requireSession, async (req: any, res) => {
+  try {
+    const removed = await getShadowQueueService().removeById(req.userId, req.params.id);
+    if (!removed) {
+      return res.status(404).json({ error: 'Track not found in queue' });
+    }
+
+    res.json({ success: true, removed });
+  } catch (error) {
+    console.error('Error removing queue item:', error);
+    res.status(500).json({ error: 'Failed to remove track' });
+  }
+});
+
+// Clear the DJ Forge queue
+router.delete('/', requireSession, async (req: any, res) => {
+  try {
+    const cleared = await getShadowQueueService().clear(req.userId);
+    res.json({ success: true, cleared });
+  } catch (error) {
+    console.error('Error clearing queue:', error);
+    res.status(500).json({ error: 'Failed to clear queue' });
+  }
+});
+
+export default router;
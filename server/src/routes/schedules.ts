@@ -0,0 +1,88 @@
+import { Router } from 'express';
+import { requireSession, requireValidTokens } from '../middleware/session-auth';
+import { SpotifyControl } from '../spotify/control';
+import { getScheduledActionService, VALID_SCHEDULED_ACTIONS, ScheduledActionType } from '../services/ScheduledActionService';
+
+const router = Router();
+
+// List pending scheduled actions, soonest first
+router.get('/', requireSession, async (req: any, res) => {
+  try {
+    const scheduler = getScheduledActionService();
+    if (!scheduler.isAvailable()) {
+      return res.status(503).json({ error: 'Scheduling is not available right now' });
+    }
+
+    const actions = await scheduler.list(req.userId);
+    res.json({ success: true, actions });
+  } catch (error) {
+    console.error('Error listing scheduled actions:', error);
+    res.status(500).json({ error: 'Failed to list scheduled actions' });
+  }
+});
+
+// Schedule an action directly (same shape as the schedule_action intent)
+router.post('/', requireValidTokens, async (req: any, res) => {
+  try {
+    const scheduler = getScheduledActionService();
+    if (!scheduler.isAvailable()) {
+      return res.status(503).json({ error: 'Scheduling is not available right now' });
+    }
+
+    const { action, trigger, delayMinutes, atTime, timezone, query, playlistUri, volume, fadeSeconds } = req.body;
+    const spotifyControl = new SpotifyControl(
+      req.tokens!,
+      (tokens) => { req.tokens = tokens; }
+    );
+
+    const scheduled = await scheduler.schedule(req.userId, req.headers['x-session-id'], {
+      action,
+      trigger,
+      delayMinutes,
+      atTime,
+      timezone,
+      query,
+      playlistUri,
+      volume,
+      fadeSeconds
+    }, spotifyControl);
+
+    res.json({ success: true, action: scheduled });
+  } catch (error: any) {
+    // Validation problems (bad time, nothing playing, ...) are the caller's to fix
+    res.status(400).json({ success: false, error: error.message });
+  }
+});
+
+// Cancel one scheduled action
+router.delete('/:id', requireSession, async (req: any, res) => {
+  try {
+    const cancelled = await getScheduledActionService().cancel(req.userId, req.params.id);
+    if (!cancelled) {
+      return res.status(404).json({ error: 'Scheduled action not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error cancelling scheduled action:', error);
+    res.status(500).json({ error: 'Failed to cancel scheduled action' });
+  }
+});
+
+// Cancel all scheduled actions (optionally ?action=fade_out to cancel one kind)
+router.delete('/', requireSession, async (req: any, res) => {
+  try {
+    const actionType = req.query.action as string | undefined;
+    if (actionType && !VALID_SCHEDULED_ACTIONS.includes(actionType as ScheduledActionType)) {
+      return res.status(400).json({ error: 'Invalid action type' });
+    }
+
+    const cancelled = await getScheduledActionService().cancelAll(req.userId, actionType as ScheduledActionType | undefined);
+    res.json({ success: true, cancelled: cancelled.length });
+  } catch (error) {
+    console.error('Error cancelling scheduled actions:', error);
+    res.status(500).json({ error: 'Failed to cancel scheduled actions' });
+  }
+});
+
+export default router;
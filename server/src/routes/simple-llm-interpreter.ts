@@ -1,8 +1,9 @@
 import { Router } from 'express';
-import { SpotifyControl } from '../spotify/control';
+import { SpotifyControl, PlaybackSnapshot } from '../spotify/control';
+import { buildSpotifyQuery } from '../spotify/search-query';
 import { requireValidTokens } from '../middleware/session-auth';
-import { SpotifyTrack, SpotifyAuthTokens } from '../types';
-import { llmOrchestrator, OPENROUTER_MODELS, OPENAI_MODELS } from '../llm/orchestrator';
+import { SpotifyTrack, SpotifyAuthTokens, DiscoveryProvenance } from '../types';
+import { llmOrchestrator, OPENROUTER_MODELS, OPENAI_MODELS, LLMResponse } from '../llm/orchestrator';
 import { llmMonitor } from '../llm/monitoring';
 import { ConversationEntry, DialogState } from '../utils/redisConversation';
 import { ConversationManager, getConversationManager } from '../services/ConversationManager';
@@ -13,13 +14,27 @@ import { getWebSocketService } from '../services/websocket.service';
 import { 
   FULL_CURATOR_GUIDELINES,
   ALTERNATIVES_APPROACH,
-  RESPONSE_VARIATION,
-  CONVERSATIONAL_ASSISTANT_PROMPT
+  RESPONSE_VARIATION
 } from '../llm/music-curator-prompts';
 import { detectRequestContextType } from '../utils/requestContext';
 import { validateAndRepair, validateMusicCommand } from '../llm/validation/command-validator';
 import { PromptAdapter } from '../llm/prompts/adapter';
+import { getPromptRegistry, PromptStamp } from '../llm/prompts/registry';
 import { extractEssentialFields } from '../llm/normalizer';
+import { executeCommandPlan } from '../llm/plan-executor';
+import { getPlaybackUndoService, MUTATING_INTENTS } from '../services/PlaybackUndoService';
+import { getScheduledActionService } from '../services/ScheduledActionService';
+import { getPlaybackWatcher, toPlaybackStatePayload, toWatchedPlaybackState } from '../services/PlaybackWatcherService';
+import { getShadowQueueService, findInShadowQueue, ShadowQueueItem } from '../services/ShadowQueueService';
+import { getPlaylistEditService } from '../services/PlaylistEditService';
+import { applyListeningRules } from '../services/ListeningRulesService';
+import { isFamilyModeActive } from '../services/FamilyModeService';
+import { getListeningHistoryService, describeHistory } from '../services/ListeningHistoryService';
+import { parseHistoryPeriod } from '../utils/historyPeriod';
+import { collectRatableTracks } from '../utils/ratableTracks';
+import { getLLMBudgetService } from '../services/LLMBudgetService';
+import { TrackRequest } from '../services/TrackResolver';
+import { recoverUnresolvedSongs, toUnresolvedSong, RecoveryResult, SuggestedSong, UnresolvedSong } from '../llm/hallucination-recovery';
 
 export const simpleLLMInterpreterRouter = Router();
 
@@ -118,17 +133,7 @@ async function emitSpotifyWebSocketEvents(
         // Get full playback state
         const playbackState = await spotifyControl.getApi().getCurrentPlayback();
         if (playbackState) {
-          musicService.emitPlaybackStateChange(userId, {
-            isPlaying: playbackState.is_playing || false,
-            track: playbackState.item,
-            position: Math.floor((playbackState.progress_ms || 0) / 1000),
-            duration: Math.floor((playbackState.item?.duration_ms || 0) / 1000),
-            device: playbackState.device?.name || 'Unknown',
-            shuffleState: playbackState.shuffle_state || false,
-            repeatState: playbackState.repeat_state || 'off',
-            volume: playbackState.device?.volume_percent || 0,
-            timestamp: Date.now()
-          });
+          musicService.emitPlaybackStateChange(userId, toPlaybackStatePayload(toWatchedPlaybackState(playbackState, Date.now())));
         }
       }
       
@@ -296,6 +301,9 @@ function buildMessageHistory(conversationHistory: ConversationEntry[], currentCo
       // For playlist queue intents
       const query = entry.interpretation.query || 'a playlist';
       assistantMessage = `I queued ${query}.`;
+    } else if (intent === 'add_to_playlist' || intent === 'remove_from_playlist') {
+      // Keep the exact reply - it may be a question ("Want me to create it?") the user answers next
+      assistantMessage = entry.response?.message || 'I updated your playlist.';
     } else {
       // For other intents, create generic confirmation
       assistantMessage = `I performed the requested action.`;
@@ -311,7 +319,7 @@ function buildMessageHistory(conversationHistory: ConversationEntry[], currentCo
 }
 
 // Simple, flexible interpretation
-export async function interpretCommand(command: string, userId?: string, preferredModel?: string, musicContext?: string, sessionId?: string): Promise<any> {
+export async function interpretCommand(command: string, userId?: string, preferredModel?: string, musicContext?: string, sessionId?: string, familyMode: boolean = false): Promise<any> {
   let conversationHistory: ConversationEntry[] = [];
   let dialogState: DialogState | null = null;
   
@@ -391,23 +399,16 @@ export async function interpretCommand(command: string, userId?: string, preferr
       tasteProfileText = tasteProfileLines.join('\n');
     }
     
-    // Build the prompt using the new adapter (only with taste profile, no conversation context)
-    let systemPrompt: string;
-    if (preferredModel?.includes('gemini')) {
-      // Use Gemini adapter for Gemini models
-      systemPrompt = PromptAdapter.forGemini(
-        command,
-        tasteProfileText,
-        '' // No conversation context - using native message history instead
-      );
-    } else {
-      // Use OpenRouter adapter for other models
-      systemPrompt = PromptAdapter.forOpenRouter(
-        command,
-        tasteProfileText,
-        '' // No conversation context - using native message history instead
-      );
-    }
+    // Build the prompt using the new adapter (only with taste profile, no conversation context),
+    // from the interpreter prompt version this user's experiment assigns
+    const interpreterPrompt = getPromptRegistry().resolve('interpreter', { userId, sessionId });
+    const systemPrompt = PromptAdapter.forModel(
+      preferredModel,
+      command,
+      tasteProfileText,
+      '', // No conversation context - using native message history instead
+      { familyMode, prompt: interpreterPrompt.content }
+    );
     
     // Build messages array with system prompt, conversation history, and current command
     const messages = [
@@ -416,11 +417,18 @@ export async function interpretCommand(command: string, userId?: string, preferr
       { role: 'user' as const, content: command } // Current command (no "Command:" prefix needed)
     ];
     
+    // Per-user fallback chain (falls back to the global chain when unset)
+    const fallbackChain = userId && conversationManager
+      ? await conversationManager.getUserFallbackChain(userId)
+      : null;
+    
     const responsePromise = llmOrchestrator.complete({
       messages,
       model: requestModel,
       temperature: 0.7,
-      response_format: { type: 'json_object' }
+      response_format: { type: 'json_object' },
+      fallbackChain: fallbackChain || undefined,
+      familyMode
       // No conversationContext parameter - using native message history instead
     });
     
@@ -460,6 +468,7 @@ export async function interpretCommand(command: string, userId?: string, preferr
     normalized.flow = response.flow || 'unknown';
     normalized.fallbackUsed = response.fallbackUsed || false;
     normalized.actualModel = response.actualModel || response.model;
+    normalized.prompts = [interpreterPrompt.stamp];
     
     // Log the LLM interaction
     if (loggingService && userId) {
@@ -492,7 +501,8 @@ export async function interpretCommand(command: string, userId?: string, preferr
           result: {
             success: normalized.intent !== 'unknown',
             message: normalized.intent !== 'unknown' ? 'Interpretation successful' : 'Failed to interpret command'
-          }
+          },
+          prompts: normalized.prompts
         });
       } catch (error) {
         console.error('Failed to log LLM interaction:', error);
@@ -515,29 +525,18 @@ export async function interpretCommand(command: string, userId?: string, preferr
 
 // Build Spotify search query - embrace flexibility
 function buildSearchQuery(interpretation: any): string {
-  // For specific song intents (both play and queue), always use precise search
-  if ((interpretation.intent === 'play_specific_song' || interpretation.intent === 'queue_specific_song') 
-      && interpretation.artist && interpretation.track) {
-    // Use Spotify's precise search operators for exact matching
-    let query = `artist:"${interpretation.artist}" track:"${interpretation.track}"`;
-    // Include album if provided to distinguish between different versions
-    if (interpretation.album) {
-      query += ` album:"${interpretation.album}"`;
-    }
-    return query;
-  }
-  
-  // If LLM gave us a specific artist and track (legacy behavior), use precise search
+  // For specific songs (play, queue or legacy responses), use Spotify's precise search operators
   if (interpretation.artist && interpretation.track) {
-    let query = `artist:"${interpretation.artist}" track:"${interpretation.track}"`;
     // Include album if provided to distinguish between different versions
-    if (interpretation.album) {
-      query += ` album:"${interpretation.album}"`;
-    }
-    return query;
+    return buildSpotifyQuery({
+      artist: interpretation.artist,
+      track: interpretation.track,
+      album: interpretation.album || undefined
+    });
   }
   
-  // Otherwise use whatever the LLM thought was best (for playlists, etc.)
+  // Otherwise use whatever the LLM thought was best (for playlists, etc.) - the
+  // search itself rewrites filters that don't apply to what's being searched for
   return interpretation.query || interpretation.searchQuery || 
          `${interpretation.track || ''} ${interpretation.artist || ''}`.trim();
 }
@@ -549,7 +548,10 @@ async function handleConversationalQuery(
   conversationHistory: ConversationEntry[],
   dialogState: DialogState | null,
   preferredModel?: string,
-  spotifyControl?: SpotifyControl
+  spotifyControl?: SpotifyControl,
+  stream?: { userId: string; streamId: string },
+  listeningHistory?: string,
+  userId?: string | null
 ): Promise<string> {
   try {
     // Build context about recent music if available
@@ -587,7 +589,7 @@ async function handleConversationalQuery(
 
     const conversationalPrompt = `You are a knowledgeable music assistant integrated with Spotify. Answer the user's question conversationally and informatively.
 
-${recentContext ? `Recent conversation:\n${recentContext}` : ''}${musicContext}
+${recentContext ? `Recent conversation:\n${recentContext}` : ''}${musicContext}${listeningHistory ? `\n\n${listeningHistory}` : ''}
 
 User's question: "${command}"
 
@@ -596,75 +598,1112 @@ Provide a helpful, informative response. If the question is about music history,
 ${!musicContext && (command.toLowerCase().includes('this artist') || command.toLowerCase().includes('this song') || command.toLowerCase().includes('this track')) ? 
   'NOTE: The user is asking about "this" artist/song but no music is currently playing. Politely mention that you need them to play something first.' : ''}`;
 
-    const response = await llmOrchestrator.complete({
+    const systemPrompt = getPromptRegistry().resolve('conversational', { userId });
+    const conversationalRequest = {
       messages: [
-        { role: 'system', content: `${CONVERSATIONAL_ASSISTANT_PROMPT} IMPORTANT: Respond with plain text, not JSON.` },
-        { role: 'user', content: conversationalPrompt }
+        { role: 'system' as const, content: `${systemPrompt.content} IMPORTANT: Respond with plain text, not JSON.` },
+        { role: 'user' as const, content: conversationalPrompt }
       ],
       model: preferredModel || OPENROUTER_MODELS.GEMINI_2_5_FLASH,
       temperature: 0.7,
       // Don't request JSON format for conversational responses
       response_format: undefined
-    });
-
-    // Handle both plain text and JSON responses
-    let content = response.content;
-    if (typeof content === 'string' && content.startsWith('{')) {
+    };
+    
+    const startTime = Date.now();
+    // Log each answer under the prompt version that produced it, like interpretations
+    const logAnswer = (response: LLMResponse, content: string) => logConversationalAnswer(
+      command, userId, conversationalRequest, response, Date.now() - startTime, content, systemPrompt.stamp);
+    
+    // Stream tokens over the /music socket when the client is listening for them
+    const musicService = stream ? getWebSocketService()?.getMusicService() : null;
+    if (stream && musicService?.isUserConnected(stream.userId)) {
       try {
-        const parsed = JSON.parse(content);
-        // If it's JSON, try to extract a sensible response
-        content = parsed.response || parsed.message || parsed.answer || content;
-      } catch (e) {
-        // Not JSON, use as is
+        const response = await llmOrchestrator.completeStream(conversationalRequest, delta => {
+          musicService.emitChatDelta(stream.userId, { streamId: stream.streamId, delta });
+        });
+        const content = extractConversationalText(response.content);
+        musicService.emitChatComplete(stream.userId, { streamId: stream.streamId, content, model: response.model });
+        await logAnswer(response, content);
+        return content;
+      } catch (error) {
+        musicService.emitChatComplete(stream.userId, {
+          streamId: stream.streamId,
+          content: '',
+          error: error instanceof Error ? error.message : 'Streaming failed'
+        });
+        throw error;
       }
     }
-
-    return content || "I'd be happy to help! Could you clarify what you'd like to know?";
+    
+    const response = await llmOrchestrator.complete(conversationalRequest);
+    const content = extractConversationalText(response.content);
+    await logAnswer(response, content);
+    return content;
   } catch (error) {
     console.error('Conversational query error:', error);
     return "I'm having trouble processing that question right now. Could you try rephrasing it?";
   }
 }
 
-// Canonicalize intent to avoid conflicts between generic and specific patterns
-function canonicalizeIntent(raw: string | undefined): string | null {
-  const intent = (raw ?? '').toLowerCase().trim();
+async function logConversationalAnswer(
+  command: string,
+  userId: string | null | undefined,
+  request: { messages: any[]; model: string; temperature: number },
+  response: LLMResponse,
+  latency: number,
+  content: string,
+  stamp: PromptStamp
+): Promise<void> {
+  if (!loggingService || !userId) return;
+
+  try {
+    await loggingService.logInteraction({
+      timestamp: Date.now(),
+      userId: hashUserId(userId),
+      sessionId: userId,
+      command,
+      interpretation: { intent: 'conversational', model: response.model, prompts: [stamp] },
+      llmRequest: {
+        model: request.model,
+        provider: response.provider || 'unknown',
+        flow: response.flow || 'unknown',
+        messages: request.messages,
+        temperature: request.temperature,
+        jsonMode: false
+      },
+      llmResponse: {
+        content,
+        usage: response.usage,
+        latency,
+        fallbackUsed: response.fallbackUsed,
+        actualModel: response.actualModel
+      },
+      result: {
+        success: content.length > 0,
+        message: content.length > 0 ? 'Answered question' : 'Empty answer'
+      },
+      prompts: [stamp]
+    });
+  } catch (error) {
+    console.error('Failed to log conversational answer:', error);
+  }
+}
+
+// Stored plays for the period a question mentions ("what was I listening to last Tuesday")
+async function getListeningHistoryContext(
+  userId: string | null,
+  command: string,
+  timezone?: string
+): Promise<{ text: string; plays: number } | null> {
+  const history = getListeningHistoryService();
+  const period = userId && history.isAvailable() ? parseHistoryPeriod(command, Date.now(), timezone) : null;
+  if (!userId || !period) {
+    return null;
+  }
+
+  try {
+    const plays = await history.getPlays(userId, { from: period.from, to: period.to, limit: 500 });
+    return { text: describeHistory(plays, period.label, timezone), plays: plays.length };
+  } catch (error) {
+    console.error('[HISTORY] Failed to load listening history for context:', error);
+    return null;
+  }
+}
+
+// Handle both plain text and JSON responses
+function extractConversationalText(content: any): string {
+  if (typeof content === 'string' && content.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(content);
+      // If it's JSON, try to extract a sensible response
+      content = parsed.response || parsed.message || parsed.answer || content;
+    } catch (e) {
+      // Not JSON, use as is
+    }
+  }
+
+  return content || "I'd be happy to help! Could you clarify what you'd like to know?";
+}
+
+// Canonicalize intent to avoid conflicts between generic and specific patterns
+function canonicalizeIntent(raw: string | undefined): string | null {
+  const intent = (raw ?? '').toLowerCase().trim();
+
+  // 1. Exact, high-priority matches first
+  const exact = [
+    'play_specific_song', 'queue_specific_song', 'queue_multiple_songs',
+    'pause', 'play', 'resume', 'skip', 'next', 'previous', 'back',
+    'set_volume', 'get_current_track', 'get_playback_info',
+    'set_shuffle', 'set_repeat', 'get_devices', 'search',
+    'get_recommendations', 'get_playlists', 'get_playlist_tracks',
+    'play_playlist', 'queue_playlist', 'remove_from_queue', 'move_in_queue',
+    'add_to_playlist', 'remove_from_playlist',
+    'get_recently_played', 'transfer_playback', 'seek', 'clear_queue', 'undo',
+    'schedule_action', 'get_scheduled_actions', 'cancel_scheduled_actions'
+  ];
+  if (exact.includes(intent)) return intent;
+
+  // 2. Substring/fuzzy matches in STRICT priority order (specific > generic)
+  if (intent.includes('volume')) return 'set_volume';
+  if (intent.includes('current') || intent.includes('playing')) return 'get_current_track';
+  if (intent.includes('recommend')) return 'get_recommendations';
+  if (intent.includes('shuffle')) return 'set_shuffle';
+  if (intent.includes('repeat')) return 'set_repeat';
+  if (intent.includes('devices')) return 'get_devices';
+  if (intent.includes('recently') || intent.includes('history')) return 'get_recently_played';
+  if (intent.includes('transfer')) return 'transfer_playback';
+  if (intent.includes('seek')) return 'seek';
+  if (intent.includes('clear')) return 'clear_queue';
+
+  // Playlist-related need disambiguation (specific > generic)
+  if (intent.includes('queue') && intent.includes('playlist')) return 'queue_playlist';
+  if (intent.includes('play') && intent.includes('playlist')) return 'play_playlist';
+  if (intent.includes('tracks') && intent.includes('playlist')) return 'get_playlist_tracks';
+  if (intent.includes('playlist')) return 'get_playlists';
+
+  // Generic fallbacks
+  if (intent.includes('queue')) return 'queue_specific_song';
+  if (intent.includes('play') || intent.includes('search')) return 'play_specific_song';
+
+  return null; // unknown
+}
+
+// Everything a single intent needs to run against Spotify
+interface IntentExecutionContext {
+  spotifyControl: SpotifyControl;
+  userId: string | null;
+  command: string;
+  wsService: ReturnType<typeof getWebSocketService>;
+  sessionId?: string;
+  timezone?: string;     // Client IANA timezone, used for "at 7:00" schedules and history days
+  // Set when running as part of a multi_step_plan
+  planStep?: { index: number; total: number };
+}
+
+function formatScheduleTime(dueAt: number, timezone?: string): string {
+  try {
+    return new Date(dueAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', timeZone: timezone });
+  } catch {
+    return new Date(dueAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  }
+}
+
+// Queue into the shadow queue while the playback watcher is around to feed it to Spotify,
+// and hand its next track over when the user skips
+function attachShadowQueue(spotifyControl: SpotifyControl, userId: string | null): void {
+  const shadowQueue = getShadowQueueService();
+  if (!userId || !shadowQueue.isAvailable() || !getPlaybackWatcher().isWatching(userId)) {
+    return;
+  }
+
+  spotifyControl.setQueueSink(async (item, options) => {
+    const { skipped } = await shadowQueue.add(userId, [item], options);
+    if (skipped.length > 0) {
+      throw new Error(`"${item.name}" is already queued (or the queue is full)`);
+    }
+  });
+  spotifyControl.setBeforeSkip(backend => shadowQueue.feedBeforeSkip(userId, backend));
+}
+
+// The model that actually produced an interpretation's song suggestions
+function suggestingModel(interpretation: any): string | null {
+  const model = interpretation.actualModel || interpretation.model;
+  return model && model !== 'unknown' ? model : null;
+}
+
+// Re-prompt the suggesting model for songs that don't exist on Spotify
+async function recoverHallucinatedSongs(
+  interpretation: any,
+  ctx: IntentExecutionContext,
+  unresolved: UnresolvedSong[],
+  tried: SuggestedSong[] = []
+): Promise<RecoveryResult> {
+  const model = suggestingModel(interpretation);
+  if (unresolved.length === 0 || !model) {
+    return { recovered: [], unresolved, rounds: 0, suggested: 0, hallucinated: 0 };
+  }
+
+  return recoverUnresolvedSongs({
+    command: ctx.command,
+    model,
+    unresolved,
+    tried,
+    resolve: song => ctx.spotifyControl.resolveTrack({ ...song, version: interpretation.modifiers?.version }),
+    complete: request => llmOrchestrator.complete(request)
+  });
+}
+
+// Feed the per-model hallucination stats
+function recordTrackVerification(interpretation: any, suggested: number, unresolved: number, recovery?: RecoveryResult): void {
+  const model = suggestingModel(interpretation);
+  if (!loggingService || !model) return;
+
+  loggingService.recordTrackVerification(model, {
+    suggested: suggested + (recovery?.suggested || 0),
+    unresolved: unresolved + (recovery?.hallucinated || 0),
+    recovered: recovery?.recovered.length || 0
+  }).catch(error => console.error('Failed to record track verification:', error));
+}
+
+// An LLM alternative ("Artist Name - Song Title" or a rich object) as a resolver request
+function toAlternativeRequest(alt: any): { request: TrackRequest; query?: string } | null {
+  if (typeof alt === 'string') {
+    // Legacy format: "Artist Name - Song Title"
+    const parts = alt.split(' - ');
+    if (parts.length < 2) return null;
+    return { request: { artist: parts[0].trim(), track: parts.slice(1).join(' - ').trim() } };
+  }
+  if (typeof alt !== 'object' || alt === null) return null;
+
+  const query = alt.enhancedQuery || alt.query;
+  if (alt.artist && alt.track) {
+    return { request: { artist: alt.artist, track: alt.track }, query };
+  }
+  const freeForm = query || alt.theme;
+  return freeForm ? { request: { query: freeForm }, query: freeForm } : null;
+}
+
+/**
+ * Turn the LLM's alternatives into tracks with URIs, through the same resolver
+ * as the main pick so a wrong top search result isn't offered. Alternatives
+ * that don't resolve confidently are dropped.
+ */
+async function resolveAlternatives(spotifyControl: SpotifyControl, alternatives: any[]): Promise<any[]> {
+  const resolved = [];
+  for (const alt of alternatives.slice(0, 5)) {
+    if (typeof alt === 'object' && alt?.uri) {
+      // Already enriched, keep as-is
+      resolved.push(alt);
+      continue;
+    }
+
+    try {
+      const lookup = toAlternativeRequest(alt);
+      if (!lookup) continue;
+
+      const { match } = await spotifyControl.resolveTrack(lookup.request, lookup.query);
+      if (!match) continue;
+
+      resolved.push({
+        name: match.track.name,
+        artists: match.track.artists.map((a: any) => a.name).join(', '),
+        popularity: match.track.popularity,
+        uri: match.track.uri,
+        // Keep the LLM's rich metadata
+        ...(typeof alt === 'object' && {
+          intent: alt.intent,
+          isAIDiscovery: alt.isAIDiscovery,
+          aiReasoning: alt.aiReasoning,
+          theme: alt.theme
+        })
+      });
+    } catch (error) {
+      console.error('Error resolving alternative:', alt, error);
+    }
+  }
+  return resolved;
+}
+
+// 0-based index of the queued track an intent refers to, by position or name
+function resolveQueueIndex(items: ShadowQueueItem[], interpretation: any): number {
+  if (typeof interpretation.queuePosition === 'number') {
+    const index = interpretation.queuePosition - 1;
+    return index >= 0 && index < items.length ? index : -1;
+  }
+  const query = interpretation.query || interpretation.track || '';
+  return findInShadowQueue(items, query);
+}
+
+// Plan steps are reported by the plan executor's own per-step commandExecuted event
+function emitIntentExecuted(musicService: any, ctx: IntentExecutionContext, data: any): void {
+  if (ctx.userId && !ctx.planStep) {
+    musicService.emitCommandExecuted(ctx.userId, data);
+  }
+}
+
+// Execute a single (non-conversational) intent and return its result
+async function executeMusicIntent(interpretation: any, ctx: IntentExecutionContext): Promise<any> {
+  const { spotifyControl, userId, command, wsService } = ctx;
+  const intent = interpretation.intent || interpretation.action;
+  let result: any;
+
+  // Use canonicalized intent for clean switch handling
+  const canonicalIntent = canonicalizeIntent(intent);
+  
+  switch (canonicalIntent) {
+    case 'play_specific_song':
+    case 'queue_specific_song': {
+      const searchQuery = buildSearchQuery(interpretation);
+      
+      if (!searchQuery) {
+        return {
+          success: false,
+          message: "I couldn't understand what you want to play",
+          interpretation
+        };
+      }
+
+      console.log(`Spotify search: "${searchQuery}"`);
+      
+      // Use the appropriate method with retry logic
+      if (canonicalIntent === 'queue_specific_song') {
+        result = await spotifyControl.queueTrack(
+          searchQuery,
+          interpretation.artist,
+          interpretation.track,
+          interpretation.album,
+          { next: !!interpretation.insertNext, version: interpretation.modifiers?.version }
+        );
+      } else {
+        // Use searchAndPlay with retry logic
+        result = await spotifyControl.searchAndPlay(
+          searchQuery,
+          interpretation.artist,
+          interpretation.track,
+          interpretation.album,
+          { version: interpretation.modifiers?.version }
+        );
+      }
+      
+      // The model named a song Spotify doesn't have - ask it for the real one.
+      // A song the user's listening rules blocked does exist, so leave that alone.
+      if (interpretation.artist && interpretation.track && result.match && !(result as any).skipped) {
+        const requested: SuggestedSong = { artist: interpretation.artist, track: interpretation.track, album: interpretation.album };
+        const unresolved: UnresolvedSong[] = result.success ? [] : [{
+          ...requested,
+          ...(result.match.matched && { closest: `${result.match.matched.name} by ${result.match.matched.artist}` })
+        }];
+        const recovery = await recoverHallucinatedSongs(interpretation, ctx, unresolved);
+        const recovered = recovery.recovered[0];
+        
+        if (recovered) {
+          const { artist, track, album } = recovered.replacement;
+          const replacementQuery = buildSpotifyQuery({ artist, track });
+          const retried = canonicalIntent === 'queue_specific_song'
+            ? await spotifyControl.queueTrack(replacementQuery, artist, track, album, { next: !!interpretation.insertNext, version: interpretation.modifiers?.version })
+            : await spotifyControl.searchAndPlay(replacementQuery, artist, track, album, { version: interpretation.modifiers?.version });
+          
+          if (retried.success) {
+            result = {
+              ...retried,
+              message: `Couldn't find "${requested.track}" by ${requested.artist} on Spotify. ${retried.message}`,
+              replacedSuggestion: { artist: requested.artist, track: requested.track }
+            };
+            // Conversation history should remember the song that actually played
+            Object.assign(interpretation, { artist, track, album });
+          }
+        }
+        recordTrackVerification(interpretation, 1, unresolved.length, recovery);
+      }
+      
+      // Emit WebSocket events if successful
+      if (result.success && wsService) {
+        const musicService = wsService.getMusicService();
+        if (musicService && userId) {
+          // Get track details from result
+          const track = (result as any).track || (result as any).details;
+          if (track) {
+            // Emit track change for play, queue update for queue
+            if (canonicalIntent === 'play_specific_song') {
+              musicService.emitTrackChange(userId, {
+                track: {
+                  id: track.id || '',
+                  name: track.name || track.track || '',
+                  artist: track.artist || (track.artists && track.artists[0]?.name) || '',
+                  album: track.album || (track.album_name) || '',
+                  duration_ms: track.duration_ms || 0,
+                  uri: track.uri || ''
+                },
+                isAIDiscovery: interpretation.isAIDiscovery || false,
+                aiReasoning: interpretation.reasoning,
+                source: 'ai',
+                timestamp: Date.now()
+              });
+            } else {
+              // Queue update
+              musicService.emitQueueUpdate(userId, {
+                action: 'added',
+                track: {
+                  id: track.id || '',
+                  name: track.name || track.track || '',
+                  artist: track.artist || (track.artists && track.artists[0]?.name) || '',
+                  album: track.album || (track.album_name) || '',
+                  duration_ms: track.duration_ms || 0,
+                  uri: track.uri || ''
+                },
+                timestamp: Date.now()
+              });
+            }
+            
+            // Emit command executed event
+            emitIntentExecuted(musicService, ctx, {
+              intent: canonicalIntent,
+              confidence: interpretation.confidence || 0.9,
+              source: 'ai',
+              success: result.success,
+              metadata: {
+                query: searchQuery,
+                artist: interpretation.artist,
+                track: interpretation.track
+              },
+              timestamp: Date.now()
+            });
+          }
+        }
+      }
+      
+      // Add alternatives from LLM response if provided (for both play and queue)
+      if (interpretation.alternatives && interpretation.alternatives.length > 0 && result.success) {
+        // Resolve LLM-provided alternatives to tracks with URIs
+        console.log(`[DEBUG] Converting ${interpretation.alternatives.length} alternatives to URI format`);
+        const alternativesWithUris = await resolveAlternatives(spotifyControl, interpretation.alternatives);
+        
+        if (alternativesWithUris.length > 0) {
+          console.log(`[DEBUG] Successfully converted ${alternativesWithUris.length} alternatives with URIs`);
+          (result as any).alternatives = alternativesWithUris;
+          // Unlike the resolver's leftover candidates, these are the model's picks
+          (result as any).alternativesFromModel = true;
+        }
+      }
+      break;
+    }
+
+    case 'queue_multiple_songs': {
+      const songs = interpretation.songs || [];
+      
+      if (!songs || songs.length === 0) {
+        result = {
+          success: false,
+          message: "No songs provided for multiple queue request"
+        };
+        break;
+      }
+
+      console.log(`[DEBUG] Queuing ${songs.length} songs from interpretation`);
+      
+      const queueResults: any[] = [];
+      const failures: string[] = [];
+      const unresolvedSongs: UnresolvedSong[] = [];
+      
+      // Queue one resolved track, tracking it as an AI discovery when applicable
+      const queueResolvedTrack = async (track: any, matchConfidence: number, label: string, replacedSuggestion?: SuggestedSong, retryLevel = 0) => {
+        const queueResult = await spotifyControl.queueTrackByUri(track.uri, track);
+        
+        if (!queueResult.success) {
+          queueResults.push({
+            name: track.name,
+            artists: track.artists.map((a: any) => a.name).join(', '),
+            success: false,
+            error: queueResult.message
+          });
+          failures.push(`${label} (${queueResult.message})`);
+          console.log(`[DEBUG] Error queuing ${label}: ${queueResult.message}`);
+          return;
+        }
+        
+        queueResults.push({
+          name: track.name,
+          artists: track.artists.map((a: any) => a.name).join(', '),
+          success: true,
+          uri: track.uri, // Add URI for AI discovery tracking
+          matchConfidence,
+          ...(replacedSuggestion && { replacedSuggestion }),
+          track: {
+            // Send cleaned track data, not the raw Spotify object
+            name: track.name,
+            artists: track.artists.map((a: any) => a.name).join(', '),
+            album: track.album.name,
+            uri: track.uri,
+            preview_url: track.preview_url
+          }
+        });
+        console.log(`[DEBUG] Successfully queued: ${track.name} by ${track.artists[0]?.name}`);
+        
+        // Track each successfully queued song the user can rate: AI picks, and songs that replaced one the model made up
+        if ((interpretation.isAIDiscovery || replacedSuggestion) && userId && loggingService?.redisClient) {
+          try {
+            const provenance: DiscoveryProvenance = replacedSuggestion
+              ? { source: 'fallback', retryLevel, requested: `${replacedSuggestion.track} by ${replacedSuggestion.artist}` }
+              : { source: 'primary' };
+            const userDataService = new UserDataService(loggingService.redisClient, spotifyControl.getApi(), userId);
+            await userDataService.recordAIDiscovery({
+              trackUri: track.uri,
+              trackName: track.name,
+              artist: track.artists.map((a: any) => a.name).join(', '),
+              discoveredAt: Date.now(),
+              reasoning: replacedSuggestion
+                ? `Stood in for ${provenance.requested}`
+                : interpretation.aiReasoning || `Part of multiple songs: ${interpretation.theme || 'curated selection'}`,
+              previewUrl: track.preview_url || undefined,
+              provenance,
+              prompts: interpretation.prompts
+            });
+          } catch (trackingError) {
+            console.error(`Error tracking AI discovery for ${label}:`, trackingError);
+          }
+        }
+      };
+      
+      // Process songs sequentially to avoid overwhelming Spotify API
+      for (let i = 0; i < songs.length; i++) {
+        const song = songs[i];
+        try {
+          // Album is only a tie-breaker - LLMs often get it wrong
+          console.log(`[DEBUG] Resolving song ${i + 1}: "${song.track}" by ${song.artist}`);
+          const resolution = await spotifyControl.resolveTrack({
+            artist: song.artist,
+            track: song.track,
+            album: song.album,
+            version: interpretation.modifiers?.version
+          });
+          
+          if (resolution.match) {
+            const track = resolution.match.track;
+            console.log(`[DEBUG] Matched (${Math.round(resolution.match.confidence * 100)}%): "${track.name}" by ${track.artists[0]?.name}`);
+            await queueResolvedTrack(track, resolution.match.confidence, `${song.artist} - ${song.track}`);
+          } else {
+            // Something may have come back, but not this song - better to ask again than queue the wrong one
+            unresolvedSongs.push(toUnresolvedSong(song, resolution));
+            console.log(`[DEBUG] Could not resolve: ${song.artist} - ${song.track}`);
+          }
+          
+          // Small delay to avoid rate limiting
+          if (i < songs.length - 1) {
+            await new Promise(resolve => setTimeout(resolve, 100));
+          }
+        } catch (error: any) {
+          const errorMsg = error.response?.data?.error?.message || error.message || 'Unknown error';
+          console.log(`[DEBUG] Error queuing song ${i + 1}: ${errorMsg}`);
+          failures.push(`${song.artist} - ${song.track} (${errorMsg})`);
+        }
+      }
+      
+      // Ask the model to replace the songs it made up
+      const recovery = await recoverHallucinatedSongs(interpretation, ctx, unresolvedSongs, songs);
+      for (const { original, replacement, resolution } of recovery.recovered) {
+        try {
+          await queueResolvedTrack(
+            resolution.match!.track,
+            resolution.match!.confidence,
+            `${replacement.artist} - ${replacement.track}`,
+            { artist: original.artist, track: original.track },
+            resolution.match!.searchAttempt
+          );
+        } catch (error: any) {
+          const errorMsg = error.response?.data?.error?.message || error.message || 'Unknown error';
+          console.log(`[DEBUG] Error queuing replacement ${replacement.artist} - ${replacement.track}: ${errorMsg}`);
+          failures.push(`${original.artist} - ${original.track} (${errorMsg})`);
+        }
+      }
+      for (const song of recovery.unresolved) {
+        failures.push(song.closest
+          ? `${song.artist} - ${song.track} (closest was "${song.closest}", which doesn't look like the same song)`
+          : `${song.artist} - ${song.track}`);
+      }
+      recordTrackVerification(interpretation, songs.length, unresolvedSongs.length, recovery);
+      
+      // Build result message
+      const successCount = queueResults.filter(r => r.success).length;
+      const failureCount = failures.length;
+      
+      if (successCount === 0) {
+        result = {
+          success: false,
+          message: `Failed to queue any songs. None of the ${failureCount} requested songs could be queued.`,
+          failures
+        };
+      } else if (failureCount === 0) {
+        result = {
+          success: true,
+          message: `Successfully queued ${successCount} songs${interpretation.theme ? ` (${interpretation.theme})` : ''}`,
+          queuedSongs: queueResults
+        };
+      } else {
+        result = {
+          success: true,
+          message: `Queued ${successCount} songs${interpretation.theme ? ` (${interpretation.theme})` : ''}. ${failureCount} songs couldn't be queued.`,
+          queuedSongs: queueResults,
+          failures
+        };
+      }
+      
+      // Emit WebSocket events for successfully queued songs
+      if (wsService && successCount > 0) {
+        const musicService = wsService.getMusicService();
+        if (musicService && userId) {
+          // Emit queue update event for batch
+          const successfulTracks = queueResults.filter(r => r.success).map(r => ({
+            id: '',
+            name: r.name,
+            artist: r.artists,
+            album: r.track?.album || '',
+            duration_ms: 0,
+            uri: r.uri
+          }));
+          
+          musicService.emitQueueUpdate(userId, {
+            action: 'batch_added',
+            tracks: successfulTracks,
+            count: successCount,
+            timestamp: Date.now()
+          });
+          
+          // Emit command executed event
+          emitIntentExecuted(musicService, ctx, {
+            intent: 'queue_multiple_songs',
+            confidence: interpretation.confidence || 0.9,
+            source: 'ai',
+            success: successCount > 0,
+            metadata: {
+              theme: interpretation.theme,
+              count: successCount,
+              total: songs.length
+            },
+            timestamp: Date.now()
+          });
+        }
+      }
+      break;
+    }
+
+    case 'queue_playlist': {
+      const playlistUri = interpretation.playlist_uri || interpretation.playlistUri;
+      const searchQuery = interpretation.query || interpretation.search_query;
+      
+      console.log(`[DEBUG] queue_playlist intent detected. URI: ${playlistUri}, Query: ${searchQuery}`);
+      console.log(`[DEBUG] Full interpretation object:`, JSON.stringify(interpretation, null, 2));
+      
+      if (playlistUri) {
+        // Queue playlist by URI (extract ID from URI)
+        const playlistId = playlistUri.split(':').pop() || playlistUri.split('/').pop();
+        console.log(`[DEBUG] Queuing playlist by URI/ID: ${playlistId}`);
+        result = await spotifyControl.queuePlaylist(playlistId);
+      } else if (searchQuery) {
+        // Search for playlist and queue it
+        console.log(`[DEBUG] Searching and queuing playlist: ${searchQuery}`);
+        result = await spotifyControl.searchAndQueuePlaylist(searchQuery);
+        console.log(`[DEBUG] searchAndQueuePlaylist result:`, JSON.stringify(result, null, 2));
+      } else {
+        console.log(`[DEBUG] No playlist URI or query provided for queue`);
+        result = { success: false, message: "I need a playlist name or URI to queue" };
+      }
+      break;
+    }
+
+    case 'play_playlist': {
+      const playlistUri = interpretation.playlist_uri || interpretation.playlistUri;
+      const searchQuery = interpretation.query || interpretation.search_query;
+      
+      console.log(`[DEBUG] play_playlist intent detected. URI: ${playlistUri}, Query: ${searchQuery}`);
+      console.log(`[DEBUG] Full interpretation object:`, JSON.stringify(interpretation, null, 2));
+      
+      if (playlistUri) {
+        // Play playlist by URI (extract ID from URI)
+        const playlistId = playlistUri.split(':').pop() || playlistUri.split('/').pop();
+        console.log(`[DEBUG] Playing playlist by URI/ID: ${playlistId}`);
+        result = await spotifyControl.playPlaylistWithTracks(playlistId);
+      } else if (searchQuery) {
+        // Search for playlist and play it
+        console.log(`[DEBUG] Searching and playing playlist: ${searchQuery}`);
+        result = await spotifyControl.searchAndPlayPlaylist(searchQuery);
+        console.log(`[DEBUG] searchAndPlayPlaylist result:`, JSON.stringify(result, null, 2));
+      } else {
+        console.log(`[DEBUG] No playlist URI or query provided for play`);
+        result = { success: false, message: "I need a playlist name or URI to play" };
+      }
+      break;
+    }
+
+    case 'pause': {
+      result = await spotifyControl.pause();
+      
+      // Emit WebSocket event
+      const musicService = wsService?.getMusicService();
+      if (musicService && userId) {
+        musicService.emitPlaybackStateChange(userId, {
+          isPlaying: false,
+          timestamp: Date.now()
+        });
+        
+        emitIntentExecuted(musicService, ctx, {
+          intent: 'pause',
+          confidence: interpretation.confidence || 1.0,
+          source: 'ai',
+          success: result.success,
+          timestamp: Date.now()
+        });
+      }
+      break;
+    }
+
+    case 'play':
+    case 'resume': {
+      result = await spotifyControl.play();
+      
+      // Emit WebSocket event
+      const musicService = wsService?.getMusicService();
+      if (musicService && userId) {
+        musicService.emitPlaybackStateChange(userId, {
+          isPlaying: true,
+          timestamp: Date.now()
+        });
+        
+        emitIntentExecuted(musicService, ctx, {
+          intent: interpretation.intent,
+          confidence: interpretation.confidence || 1.0,
+          source: 'ai',
+          success: result.success,
+          timestamp: Date.now()
+        });
+      }
+      break;
+    }
+
+    case 'skip':
+    case 'next': {
+      result = await spotifyControl.skip();
+      
+      // Get the new track info and emit WebSocket event
+      const musicService = wsService?.getMusicService();
+      if (musicService && userId) {
+        const trackInfo = await spotifyControl.getCurrentTrack();
+        if (trackInfo.success && trackInfo.track) {
+          musicService.emitTrackChange(userId, {
+            track: {
+              id: trackInfo.track.id || '',
+              name: trackInfo.track.name,
+              artist: trackInfo.track.artist,
+              album: trackInfo.track.album,
+              duration_ms: trackInfo.track.duration * 1000,
+              uri: ''
+            },
+            isAIDiscovery: false,
+            source: 'ai',
+            timestamp: Date.now()
+          });
+        }
+        
+        emitIntentExecuted(musicService, ctx, {
+          intent: 'skip',
+          confidence: interpretation.confidence || 1.0,
+          source: 'ai',
+          success: result.success,
+          timestamp: Date.now()
+        });
+      }
+      break;
+    }
+
+    case 'previous':
+    case 'back': {
+      result = await spotifyControl.previous();
+      
+      // Get the new track info and emit WebSocket event
+      const musicService = wsService?.getMusicService();
+      if (musicService && userId) {
+        const trackInfo = await spotifyControl.getCurrentTrack();
+        if (trackInfo.success && trackInfo.track) {
+          musicService.emitTrackChange(userId, {
+            track: {
+              id: trackInfo.track.id || '',
+              name: trackInfo.track.name,
+              artist: trackInfo.track.artist,
+              album: trackInfo.track.album,
+              duration_ms: trackInfo.track.duration * 1000,
+              uri: ''
+            },
+            isAIDiscovery: false,
+            source: 'ai',
+            timestamp: Date.now()
+          });
+        }
+        
+        emitIntentExecuted(musicService, ctx, {
+          intent: 'previous',
+          confidence: interpretation.confidence || 1.0,
+          source: 'ai',
+          success: result.success,
+          timestamp: Date.now()
+        });
+      }
+      break;
+    }
+
+    case 'get_playback_info':
+    case 'get_current_track': {
+      result = await spotifyControl.getCurrentTrack();
+      
+      // Format the response nicely if we have track info
+      if (result.success && result.track) {
+        const track = result.track;
+        const formatTime = (seconds: number) => {
+          const mins = Math.floor(seconds / 60);
+          const secs = seconds % 60;
+          return `${mins}:${secs.toString().padStart(2, '0')}`;
+        };
+        
+        result.message = `🎵 Currently playing:\n\n🎤 ${track.name}\n👤 ${track.artist}\n💿 ${track.album}\n\n⏱️ ${formatTime(track.position)} / ${formatTime(track.duration)}`;
+      }
+      break;
+    }
+
+    case 'set_volume': {
+      const volumeLevel = interpretation.volume || interpretation.volume_level || interpretation.value;
+      
+      if (typeof volumeLevel !== 'number' || volumeLevel < 0 || volumeLevel > 100) {
+        result = {
+          success: false,
+          message: 'Volume must be a number between 0 and 100'
+        };
+      } else {
+        result = await spotifyControl.setVolume(volumeLevel);
+        
+        // Emit WebSocket event
+        const musicService = wsService?.getMusicService();
+        if (musicService && userId) {
+          musicService.emitVolumeChanged(userId, {
+            volume: volumeLevel,
+            timestamp: Date.now()
+          });
+          
+          emitIntentExecuted(musicService, ctx, {
+            intent: 'set_volume',
+            confidence: interpretation.confidence || 1.0,
+            source: 'ai',
+            success: result.success,
+            metadata: { volume: volumeLevel },
+            timestamp: Date.now()
+          });
+        }
+      }
+      break;
+    }
+
+    case 'set_shuffle': {
+      const enabled = interpretation.enabled !== undefined ? interpretation.enabled : true;
+      result = await spotifyControl.setShuffle(enabled);
+      break;
+    }
+
+    case 'set_repeat': {
+      const enabled = interpretation.enabled !== undefined ? interpretation.enabled : true;
+      result = await spotifyControl.setRepeat(enabled);
+      break;
+    }
+
+    case 'clear_queue': {
+      result = await spotifyControl.clearQueue();
+      if (userId) {
+        const cleared = await getShadowQueueService().clear(userId);
+        if (cleared > 0) {
+          result = { success: true, message: `${result.success ? result.message : 'Queue cleared'} (removed ${cleared} upcoming tracks)` };
+        }
+      }
+      break;
+    }
+
+    case 'remove_from_queue':
+    case 'move_in_queue': {
+      const shadowQueue = getShadowQueueService();
+      if (!userId || !shadowQueue.isAvailable()) {
+        result = { success: false, message: 'Queue editing is only available when signed in' };
+        break;
+      }
+
+      const items = await shadowQueue.list(userId);
+      if (items.length === 0) {
+        result = { success: false, message: "There's nothing in the DJ Forge queue to change" };
+        break;
+      }
+
+      const index = resolveQueueIndex(items, interpretation);
+      if (index === -1) {
+        result = { success: false, message: `Couldn't find "${interpretation.query || interpretation.queuePosition}" in the queue` };
+        break;
+      }
+
+      if (canonicalIntent === 'remove_from_queue') {
+        const removed = await shadowQueue.removeAt(userId, index);
+        result = removed
+          ? { success: true, message: `Removed ${removed.name} by ${removed.artist} from the queue` }
+          : { success: false, message: 'That track is no longer in the queue' };
+      } else {
+        const to = Math.max(1, interpretation.toPosition || 1);
+        const moved = await shadowQueue.move(userId, index, to - 1);
+        result = moved
+          ? { success: true, message: to === 1 ? `${moved.name} will play next` : `Moved ${moved.name} to position ${to}` }
+          : { success: false, message: 'That track is no longer in the queue' };
+      }
+      break;
+    }
+
+    case 'add_to_playlist':
+    case 'remove_from_playlist': {
+      if (!userId) {
+        result = { success: false, message: 'Playlist editing is only available when signed in' };
+        break;
+      }
+
+      const playlistEditor = getPlaylistEditService();
+      const request = {
+        playlistName: interpretation.playlistName || interpretation.query || '',
+        source: interpretation.trackSource || (interpretation.track ? 'track' : 'current'),
+        count: interpretation.trackCount ?? undefined,
+        artist: interpretation.artist || undefined,
+        track: interpretation.track || undefined,
+        confirmCreate: !!interpretation.confirmCreate
+      };
+
+      try {
+        result = canonicalIntent === 'add_to_playlist'
+          ? await playlistEditor.addTracks(userId, spotifyControl, request)
+          : await playlistEditor.removeTracks(userId, spotifyControl, request);
+      } catch (error: any) {
+        console.error('Playlist edit failed:', error);
+        result = { success: false, message: `Couldn't update the playlist: ${error.message}` };
+      }
+      break;
+    }
+
+    case 'undo': {
+      if (!userId) {
+        result = { success: false, message: 'Undo is only available when signed in' };
+        break;
+      }
+      
+      result = await getPlaybackUndoService().undo(userId, spotifyControl);
+      
+      const musicService = wsService?.getMusicService();
+      if (musicService && result.snapshot) {
+        emitIntentExecuted(musicService, ctx, {
+          intent: 'undo',
+          confidence: interpretation.confidence || 1.0,
+          source: 'ai',
+          success: result.success,
+          metadata: { undoneCommand: result.snapshot.command },
+          timestamp: Date.now()
+        });
+      }
+      break;
+    }
+
+    case 'schedule_action': {
+      if (!userId || !ctx.sessionId) {
+        result = { success: false, message: 'Scheduling is only available when signed in' };
+        break;
+      }
+      
+      try {
+        const scheduled = await getScheduledActionService().schedule(userId, ctx.sessionId, {
+          action: interpretation.scheduleAction,
+          trigger: interpretation.scheduleTrigger,
+          delayMinutes: interpretation.delayMinutes ?? undefined,
+          atTime: interpretation.atTime ?? undefined,
+          timezone: ctx.timezone,
+          query: interpretation.query ?? undefined,
+          volume: interpretation.volume_level ?? undefined,
+          fadeSeconds: interpretation.fadeSeconds ?? undefined,
+          command: ctx.command
+        }, spotifyControl);
+        result = {
+          success: true,
+          message: `${scheduled.description} at ${formatScheduleTime(scheduled.dueAt, ctx.timezone)}`,
+          scheduledAction: scheduled
+        };
+      } catch (error: any) {
+        result = { success: false, message: error.message };
+      }
+      break;
+    }
+
+    case 'get_scheduled_actions': {
+      if (!userId) {
+        result = { success: false, message: 'Scheduling is only available when signed in' };
+        break;
+      }
+      
+      const scheduledActions = await getScheduledActionService().list(userId);
+      result = {
+        success: true,
+        message: scheduledActions.length === 0
+          ? 'No scheduled actions'
+          : scheduledActions.map(a => `${a.description} at ${formatScheduleTime(a.dueAt, ctx.timezone)}`).join('\n'),
+        scheduledActions
+      };
+      break;
+    }
+
+    case 'cancel_scheduled_actions': {
+      if (!userId) {
+        result = { success: false, message: 'Scheduling is only available when signed in' };
+        break;
+      }
+      
+      const cancelled = await getScheduledActionService().cancelAll(userId, interpretation.scheduleAction || undefined);
+      result = {
+        success: cancelled.length > 0,
+        message: cancelled.length > 0
+          ? `Cancelled ${cancelled.map(a => a.description.toLowerCase()).join(', ')}`
+          : 'No scheduled actions to cancel',
+        cancelledActions: cancelled
+      };
+      break;
+    }
+
+    case 'get_devices': {
+      result = await spotifyControl.getDevices();
+      break;
+    }
 
-  // 1. Exact, high-priority matches first
-  const exact = [
-    'play_specific_song', 'queue_specific_song', 'queue_multiple_songs',
-    'pause', 'play', 'resume', 'skip', 'next', 'previous', 'back',
-    'set_volume', 'get_current_track', 'get_playback_info',
-    'set_shuffle', 'set_repeat', 'get_devices', 'search',
-    'get_recommendations', 'get_playlists', 'get_playlist_tracks',
-    'play_playlist', 'queue_playlist',
-    'get_recently_played', 'transfer_playback', 'seek', 'clear_queue'
-  ];
-  if (exact.includes(intent)) return intent;
+    case 'get_playlists': {
+      result = await spotifyControl.getPlaylists();
+      break;
+    }
 
-  // 2. Substring/fuzzy matches in STRICT priority order (specific > generic)
-  if (intent.includes('volume')) return 'set_volume';
-  if (intent.includes('current') || intent.includes('playing')) return 'get_current_track';
-  if (intent.includes('recommend')) return 'get_recommendations';
-  if (intent.includes('shuffle')) return 'set_shuffle';
-  if (intent.includes('repeat')) return 'set_repeat';
-  if (intent.includes('devices')) return 'get_devices';
-  if (intent.includes('recently') || intent.includes('history')) return 'get_recently_played';
-  if (intent.includes('transfer')) return 'transfer_playback';
-  if (intent.includes('seek')) return 'seek';
-  if (intent.includes('clear')) return 'clear_queue';
+    case 'get_recently_played': {
+      // "What did I play last Tuesday" reaches past Spotify's last 50 plays
+      const history = await getListeningHistoryContext(userId, command, ctx.timezone);
+      result = history && history.plays > 0
+        ? { success: true, message: history.text }
+        : await spotifyControl.getRecentlyPlayed();
+      break;
+    }
 
-  // Playlist-related need disambiguation (specific > generic)
-  if (intent.includes('queue') && intent.includes('playlist')) return 'queue_playlist';
-  if (intent.includes('play') && intent.includes('playlist')) return 'play_playlist';
-  if (intent.includes('tracks') && intent.includes('playlist')) return 'get_playlist_tracks';
-  if (intent.includes('playlist')) return 'get_playlists';
+    case 'search': {
+      const searchQuery = interpretation.query || interpretation.search_query || interpretation.q || '';
+      
+      if (!searchQuery) {
+        result = {
+          success: false,
+          message: 'No search query provided'
+        };
+      } else {
+        const tracks = await spotifyControl.search(searchQuery);
+        result = {
+          success: true,
+          message: `Found ${tracks.length} tracks for "${searchQuery}"`,
+          tracks: tracks.slice(0, 10).map(t => ({
+            name: t.name,
+            artists: t.artists.map((a: any) => a.name).join(', '),
+            album: t.album.name,
+            uri: t.uri,
+            popularity: t.popularity
+          }))
+        };
+      }
+      break;
+    }
 
-  // Generic fallbacks
-  if (intent.includes('queue')) return 'queue_specific_song';
-  if (intent.includes('play') || intent.includes('search')) return 'play_specific_song';
+    default:
+      result = { 
+        success: false, 
+        message: `I don't know how to: ${intent || command}`
+      };
+      break;
+  }
 
-  return null; // unknown
+  return result;
 }
 
 // Simple modifier application
@@ -774,66 +1813,8 @@ simpleLLMInterpreterRouter.get('/history', requireValidTokens, async (req: any,
                 (newTokens) => { req.tokens = newTokens; }
               );
               
-              // Convert string alternatives to objects with URIs
-              const alternativesWithUris = [];
-              for (const alt of enrichedAlternatives.slice(0, 5)) {
-                try {
-                  let searchQuery = '';
-                  let additionalData = {};
-                  
-                  if (typeof alt === 'string') {
-                    // Legacy format: "Artist Name - Song Title"
-                    const parts = alt.split(' - ');
-                    if (parts.length >= 2) {
-                      const artist = parts[0].trim();
-                      const track = parts.slice(1).join(' - ').trim();
-                      searchQuery = `artist:"${artist}" track:"${track}"`;
-                    }
-                  } else if (typeof alt === 'object' && alt !== null) {
-                    // GPT-5 rich format or already enriched object
-                    if (alt.uri) {
-                      // Already enriched, keep as-is
-                      alternativesWithUris.push(alt);
-                      continue;
-                    }
-                    
-                    if (alt.enhancedQuery) {
-                      searchQuery = alt.enhancedQuery;
-                    } else if (alt.query) {
-                      searchQuery = alt.query;
-                    } else if (alt.artist && alt.track) {
-                      searchQuery = `artist:"${alt.artist}" track:"${alt.track}"`;
-                    } else if (alt.theme) {
-                      searchQuery = alt.theme;
-                    }
-                    
-                    // Store additional metadata from GPT-5
-                    additionalData = {
-                      intent: alt.intent,
-                      isAIDiscovery: alt.isAIDiscovery,
-                      aiReasoning: alt.aiReasoning,
-                      theme: alt.theme
-                    };
-                  }
-                  
-                  if (searchQuery) {
-                    const altTracks = await spotifyControl.search(searchQuery);
-                    
-                    if (altTracks.length > 0) {
-                      const altTrack = altTracks[0];
-                      alternativesWithUris.push({
-                        name: altTrack.name,
-                        artists: altTrack.artists.map((a: any) => a.name).join(', '),
-                        popularity: altTrack.popularity,
-                        uri: altTrack.uri,
-                        ...additionalData // Include GPT-5's rich metadata
-                      });
-                    }
-                  }
-                } catch (error) {
-                  console.error('Error enriching alternative:', alt, error);
-                }
-              }
+              // Resolve string alternatives to objects with URIs
+              const alternativesWithUris = await resolveAlternatives(spotifyControl, enrichedAlternatives);
               
               if (alternativesWithUris.length > 0) {
                 enrichedAlternatives = alternativesWithUris;
@@ -961,7 +1942,8 @@ simpleLLMInterpreterRouter.post('/clear-history', requireValidTokens, async (req
 
 // Main command endpoint
 simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any, res) => {
-  const { command } = req.body;
+  const { command, streamId } = req.body;
+  const timezone = typeof req.body.timezone === 'string' ? req.body.timezone : undefined;
   
   if (!command) {
     return res.status(400).json({ error: 'No command provided' });
@@ -974,6 +1956,8 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
 
   console.log('Processing command:', command);
   const startTime = Date.now();
+  // Recorded before the command runs; dropped again if the command fails
+  let undoSnapshot: { userId: string; snapshot: PlaybackSnapshot } | null = null;
 
   try {
     // Get user ID from JWT for both conversation history and model preferences
@@ -992,6 +1976,9 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
         preferredModel = savedPreference;
         console.log(`Using user's preferred model: ${preferredModel}`);
       }
+      
+      // Over the daily budget, fall back to a cheaper model
+      preferredModel = (await getLLMBudgetService().chooseModel(userId, preferredModel)).model;
     }
     
     // Build music context before interpretation
@@ -1013,6 +2000,8 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
       console.log('Could not fetch current track for context:', e);
     }
     
+    const familyMode = await isFamilyModeActive(spotifyControl, userId);
+    
     // Get user's taste profile if available
     let tasteProfile = '';
     console.log('[DEBUG] Checking taste profile conditions:', {
@@ -1053,7 +2042,7 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
     const combinedContext = tasteProfile ? `${tasteProfile}\n${musicContext}` : musicContext;
     
     // Use userId for conversation history instead of sessionId
-    const interpretation = await interpretCommand(command, userId || undefined, preferredModel, combinedContext, userId || 'anonymous');
+    const interpretation = await interpretCommand(command, userId || undefined, preferredModel, combinedContext, userId || 'anonymous', familyMode);
     console.log('LLM interpretation:', interpretation);
 
     let refreshedTokens: SpotifyAuthTokens | null = null;
@@ -1067,6 +2056,8 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
         req.tokens = tokens; 
       }
     );
+    attachShadowQueue(spotifyControl, userId);
+    await applyListeningRules(spotifyControl, userId, familyMode);
 
     let result;
 
@@ -1101,6 +2092,12 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
     // Handle different intents flexibly
     const intent = interpretation.intent || interpretation.action;
     
+    // Snapshot playback first so this command can be undone
+    if (userId && MUTATING_INTENTS.includes(canonicalizeIntent(intent) || intent)) {
+      const snapshot = await getPlaybackUndoService().recordBeforeCommand(userId, spotifyControl, { command, intent });
+      undoSnapshot = snapshot && { userId, snapshot };
+    }
+    
     // Handle conversational intents (return text, no Spotify action)
     if (intent === 'chat' || intent === 'ask_question' || intent === 'clarification_mode' || intent === 'explain_reasoning' || intent === 'get_playback_info') {
       // Handle explain_reasoning specially - always use our custom logic
@@ -1223,7 +2220,12 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
             conversationHistory,
             dialogState,
             preferredModel,
-            spotifyControl
+            spotifyControl,
+            userId && typeof streamId === 'string' && streamId.length <= 64
+              ? { userId, streamId }
+              : undefined,
+            (await getListeningHistoryContext(userId, command, timezone))?.text,
+            userId
           );
           
           result = {
@@ -1235,646 +2237,73 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
           console.log('📝 Conversational answer from separate query:', answer);
         }
       }
-    } else {
-      // Use canonicalized intent for clean switch handling
-      const canonicalIntent = canonicalizeIntent(intent);
+    } else if (intent === 'multi_step_plan') {
+      const steps = Array.isArray(interpretation.steps) ? interpretation.steps : [];
+      const musicService = wsService?.getMusicService();
       
-      switch (canonicalIntent) {
-        case 'play_specific_song':
-        case 'queue_specific_song': {
-          const searchQuery = buildSearchQuery(interpretation);
-          
-          if (!searchQuery) {
-            return res.json({
-              success: false,
-              message: "I couldn't understand what you want to play",
-              interpretation
-            });
-          }
-
-          console.log(`Spotify search: "${searchQuery}"`);
-          
-          // Use the appropriate method with retry logic
-          if (canonicalIntent === 'queue_specific_song') {
-            result = await spotifyControl.queueTrack(
-              searchQuery,
-              interpretation.artist,
-              interpretation.track,
-              interpretation.album
-            );
-          } else {
-            // Use searchAndPlay with retry logic
-            result = await spotifyControl.searchAndPlay(
-              searchQuery,
-              interpretation.artist,
-              interpretation.track,
-              interpretation.album
-            );
-          }
-          
-          // Emit WebSocket events if successful
-          if (result.success && wsService) {
-            const musicService = wsService.getMusicService();
-            if (musicService && userId) {
-              // Get track details from result
-              const track = (result as any).track || (result as any).details;
-              if (track) {
-                // Emit track change for play, queue update for queue
-                if (canonicalIntent === 'play_specific_song') {
-                  musicService.emitTrackChange(userId, {
-                    track: {
-                      id: track.id || '',
-                      name: track.name || track.track || '',
-                      artist: track.artist || (track.artists && track.artists[0]?.name) || '',
-                      album: track.album || (track.album_name) || '',
-                      duration_ms: track.duration_ms || 0,
-                      uri: track.uri || ''
-                    },
-                    isAIDiscovery: interpretation.isAIDiscovery || false,
-                    aiReasoning: interpretation.reasoning,
-                    source: 'ai',
-                    timestamp: Date.now()
-                  });
-                } else {
-                  // Queue update
-                  musicService.emitQueueUpdate(userId, {
-                    action: 'added',
-                    track: {
-                      id: track.id || '',
-                      name: track.name || track.track || '',
-                      artist: track.artist || (track.artists && track.artists[0]?.name) || '',
-                      album: track.album || (track.album_name) || '',
-                      duration_ms: track.duration_ms || 0,
-                      uri: track.uri || ''
-                    },
-                    timestamp: Date.now()
-                  });
-                }
-                
-                // Emit command executed event
-                musicService.emitCommandExecuted(userId, {
-                  intent: canonicalIntent,
-                  confidence: interpretation.confidence || 0.9,
-                  source: 'ai',
-                  success: result.success,
-                  metadata: {
-                    query: searchQuery,
-                    artist: interpretation.artist,
-                    track: interpretation.track
-                  },
-                  timestamp: Date.now()
-                });
-              }
-            }
-          }
-          
-          // Add alternatives from LLM response if provided (for both play and queue)
-          if (interpretation.alternatives && interpretation.alternatives.length > 0 && result.success) {
-            // Convert LLM-provided alternatives to proper format with URIs
-            const alternativesWithUris = [];
-            console.log(`[DEBUG] Converting ${interpretation.alternatives.length} alternatives to URI format`);
-            for (const alt of interpretation.alternatives.slice(0, 5)) {
-              try {
-                let searchQuery = '';
-                let additionalData = {};
-                
-                if (typeof alt === 'string') {
-                  // Legacy format: "Artist Name - Song Title"
-                  const parts = alt.split(' - ');
-                  if (parts.length >= 2) {
-                    const artist = parts[0].trim();
-                    const track = parts.slice(1).join(' - ').trim();
-                    searchQuery = `artist:"${artist}" track:"${track}"`;
-                  }
-                } else if (typeof alt === 'object' && alt !== null) {
-                  // GPT-5 rich format with structured data
-                  if (alt.enhancedQuery) {
-                    searchQuery = alt.enhancedQuery;
-                  } else if (alt.query) {
-                    searchQuery = alt.query;
-                  } else if (alt.artist && alt.track) {
-                    searchQuery = `artist:"${alt.artist}" track:"${alt.track}"`;
-                  } else if (alt.theme) {
-                    searchQuery = alt.theme;
-                  }
-                  
-                  // Store additional metadata from GPT-5
-                  additionalData = {
-                    intent: alt.intent,
-                    isAIDiscovery: alt.isAIDiscovery,
-                    aiReasoning: alt.aiReasoning,
-                    theme: alt.theme
-                  };
-                }
-                
-                if (searchQuery) {
-                  // Search for this alternative on Spotify
-                  const altTracks = await spotifyControl.search(searchQuery);
-                  
-                  if (altTracks.length > 0) {
-                    const altTrack = altTracks[0];
-                    alternativesWithUris.push({
-                      name: altTrack.name,
-                      artists: altTrack.artists.map((a: any) => a.name).join(', '),
-                      popularity: altTrack.popularity,
-                      uri: altTrack.uri,
-                      ...additionalData // Include GPT-5's rich metadata
-                    });
-                  }
-                }
-              } catch (error) {
-                console.error('Error processing alternative:', alt, error);
-              }
-            }
-            
-            if (alternativesWithUris.length > 0) {
-              console.log(`[DEBUG] Successfully converted ${alternativesWithUris.length} alternatives with URIs`);
-              (result as any).alternatives = alternativesWithUris;
-            }
-          }
-          break;
-        }
-
-        case 'queue_multiple_songs': {
-          const songs = interpretation.songs || [];
-          
-          if (!songs || songs.length === 0) {
-            result = {
-              success: false,
-              message: "No songs provided for multiple queue request"
-            };
-            break;
-          }
-
-          console.log(`[DEBUG] Queuing ${songs.length} songs from interpretation`);
-          
-          const queueResults = [];
-          const failures = [];
-          
-          // Process songs sequentially to avoid overwhelming Spotify API
-          for (let i = 0; i < songs.length; i++) {
-            const song = songs[i];
-            try {
-              // Build search query for this specific song (don't include album as it often varies)
-              let searchQuery = `artist:"${song.artist}" track:"${song.track}"`;
-              
-              console.log(`[DEBUG] Searching for song ${i + 1}: "${searchQuery}"`);
-              const tracks = await spotifyControl.search(searchQuery);
-              
-              if (tracks.length > 0) {
-                // Look for exact match first, fallback to first result
-                const exactMatch = tracks.find(track => {
-                  const trackArtist = track.artists[0]?.name.toLowerCase();
-                  const searchArtist = song.artist.toLowerCase();
-                  const trackNameLower = track.name.toLowerCase();
-                  const searchTrackLower = song.track.toLowerCase();
-                  
-                  return trackArtist === searchArtist && trackNameLower === searchTrackLower;
-                });
-                
-                const track = exactMatch || tracks[0]; // Use exact match if found, otherwise first result
-                console.log(`[DEBUG] Using ${exactMatch ? 'exact match' : 'first result'}: "${track.name}" by ${track.artists[0]?.name}`);
-                
-                const queueResult = await spotifyControl.queueTrackByUri(track.uri);
-                
-                if (queueResult.success) {
-                  queueResults.push({
-                    name: track.name,
-                    artists: track.artists.map((a: any) => a.name).join(', '),
-                    success: true,
-                    uri: track.uri, // Add URI for AI discovery tracking
-                    track: {
-                      // Send cleaned track data, not the raw Spotify object
-                      name: track.name,
-                      artists: track.artists.map((a: any) => a.name).join(', '),
-                      album: track.album.name,
-                      uri: track.uri,
-                      preview_url: track.preview_url
-                    }
-                  });
-                  console.log(`[DEBUG] Successfully queued: ${track.name} by ${track.artists[0]?.name}`);
-                  
-                  // Track each successfully queued song as an AI discovery (if this is an AI discovery)
-                  if (interpretation.isAIDiscovery && userId && loggingService?.redisClient) {
-                    try {
-                      const discovery: any = {
-                        trackUri: track.uri,
-                        trackName: track.name,
-                        artist: track.artists.map((a: any) => a.name).join(', '),
-                        discoveredAt: Date.now(),
-                        reasoning: interpretation.aiReasoning || `Part of multiple songs: ${interpretation.theme || 'curated selection'}`,
-                        feedback: undefined,
-                        feedbackAt: undefined,
-                        previewUrl: track.preview_url || undefined
-                      };
-                      
-                      // Check if this track has already been discovered
-                      const userDataService = new UserDataService(loggingService.redisClient, spotifyControl.getApi(), userId);
-                      const existingDiscovery = await userDataService.checkAIDiscoveryExists(discovery.trackUri);
-                      
-                      if (existingDiscovery) {
-                        // If it exists with feedback, preserve that feedback
-                        if (existingDiscovery.feedback) {
-                          console.log(`[DEBUG] AI discovery ${i + 1} already exists with feedback (${existingDiscovery.feedback}): ${discovery.trackName} by ${discovery.artist}`);
-                        } else {
-                          console.log(`[DEBUG] AI discovery ${i + 1} already exists (no feedback): ${discovery.trackName} by ${discovery.artist}`);
-                        }
-                      } else {
-                        // Store each song as a separate discovery
-                        await loggingService.redisClient.lPush(
-                          `user:${userId}:ai_discoveries`,
-                          JSON.stringify(discovery)
-                        );
-                        
-                        console.log(`[DEBUG] Tracked new AI discovery ${i + 1}: ${discovery.trackName} by ${discovery.artist}`);
-                      }
-                    } catch (trackingError) {
-                      console.error(`Error tracking AI discovery for song ${i + 1}:`, trackingError);
-                    }
-                  }
-                } else {
-                  queueResults.push({
-                    name: track.name,
-                    artists: track.artists.map((a: any) => a.name).join(', '),
-                    success: false,
-                    error: queueResult.message
-                  });
-                  failures.push(`${song.artist} - ${song.track} (${queueResult.message})`);
-                  console.log(`[DEBUG] Error queuing song ${i + 1}: ${queueResult.message}`);
-                }
-              } else {
-                failures.push(`${song.artist} - ${song.track}`);
-                console.log(`[DEBUG] No tracks found for: ${song.artist} - ${song.track}`);
-              }
-              
-              // Small delay to avoid rate limiting
-              if (i < songs.length - 1) {
-                await new Promise(resolve => setTimeout(resolve, 100));
-              }
-            } catch (error: any) {
-              const errorMsg = error.response?.data?.error?.message || error.message || 'Unknown error';
-              console.log(`[DEBUG] Error queuing song ${i + 1}: ${errorMsg}`);
-              failures.push(`${song.artist} - ${song.track} (${errorMsg})`);
-            }
-          }
-          
-          // Trim the discoveries list after processing all songs to keep only last 500 discoveries
-          if (interpretation.isAIDiscovery && userId && loggingService?.redisClient) {
-            try {
-              await loggingService.redisClient.lTrim(
-                `user:${userId}:ai_discoveries`, 
-                0, 
-                499
-              );
-              console.log(`[DEBUG] Trimmed AI discoveries list after queuing ${songs.length} songs`);
-            } catch (trimError) {
-              console.error('Error trimming AI discoveries list:', trimError);
-            }
-          }
-          
-          // Build result message
-          const successCount = queueResults.length;
-          const failureCount = failures.length;
-          
-          if (successCount === 0) {
-            result = {
-              success: false,
-              message: `Failed to queue any songs. None of the ${failureCount} requested songs could be found on Spotify.`,
-              failures
-            };
-          } else if (failureCount === 0) {
-            result = {
-              success: true,
-              message: `Successfully queued ${successCount} songs${interpretation.theme ? ` (${interpretation.theme})` : ''}`,
-              queuedSongs: queueResults
-            };
-          } else {
-            result = {
-              success: true,
-              message: `Queued ${successCount} songs${interpretation.theme ? ` (${interpretation.theme})` : ''}. ${failureCount} songs couldn't be found on Spotify.`,
-              queuedSongs: queueResults,
-              failures
-            };
-          }
-          
-          // Emit WebSocket events for successfully queued songs
-          if (wsService && successCount > 0) {
-            const musicService = wsService.getMusicService();
-            if (musicService && userId) {
-              // Emit queue update event for batch
-              const successfulTracks = queueResults.filter(r => r.success).map(r => ({
-                id: '',
-                name: r.name,
-                artist: r.artists,
-                album: r.track?.album || '',
-                duration_ms: 0,
-                uri: r.uri
-              }));
-              
-              musicService.emitQueueUpdate(userId, {
-                action: 'batch_added',
-                tracks: successfulTracks,
-                count: successCount,
-                timestamp: Date.now()
-              });
-              
-              // Emit command executed event
-              musicService.emitCommandExecuted(userId, {
-                intent: 'queue_multiple_songs',
-                confidence: interpretation.confidence || 0.9,
-                source: 'ai',
-                success: successCount > 0,
-                metadata: {
-                  theme: interpretation.theme,
-                  count: successCount,
-                  total: songs.length
-                },
-                timestamp: Date.now()
-              });
-            }
-          }
-          break;
-        }
-
-        case 'queue_playlist': {
-          const playlistUri = interpretation.playlist_uri || interpretation.playlistUri;
-          const searchQuery = interpretation.query || interpretation.search_query;
-          
-          console.log(`[DEBUG] queue_playlist intent detected. URI: ${playlistUri}, Query: ${searchQuery}`);
-          console.log(`[DEBUG] Full interpretation object:`, JSON.stringify(interpretation, null, 2));
-          
-          if (playlistUri) {
-            // Queue playlist by URI (extract ID from URI)
-            const playlistId = playlistUri.split(':').pop() || playlistUri.split('/').pop();
-            console.log(`[DEBUG] Queuing playlist by URI/ID: ${playlistId}`);
-            result = await spotifyControl.queuePlaylist(playlistId);
-          } else if (searchQuery) {
-            // Search for playlist and queue it
-            console.log(`[DEBUG] Searching and queuing playlist: ${searchQuery}`);
-            result = await spotifyControl.searchAndQueuePlaylist(searchQuery);
-            console.log(`[DEBUG] searchAndQueuePlaylist result:`, JSON.stringify(result, null, 2));
-          } else {
-            console.log(`[DEBUG] No playlist URI or query provided for queue`);
-            result = { success: false, message: "I need a playlist name or URI to queue" };
-          }
-          break;
-        }
-
-        case 'play_playlist': {
-          const playlistUri = interpretation.playlist_uri || interpretation.playlistUri;
-          const searchQuery = interpretation.query || interpretation.search_query;
-          
-          console.log(`[DEBUG] play_playlist intent detected. URI: ${playlistUri}, Query: ${searchQuery}`);
-          console.log(`[DEBUG] Full interpretation object:`, JSON.stringify(interpretation, null, 2));
-          
-          if (playlistUri) {
-            // Play playlist by URI (extract ID from URI)
-            const playlistId = playlistUri.split(':').pop() || playlistUri.split('/').pop();
-            console.log(`[DEBUG] Playing playlist by URI/ID: ${playlistId}`);
-            result = await spotifyControl.playPlaylistWithTracks(playlistId);
-          } else if (searchQuery) {
-            // Search for playlist and play it
-            console.log(`[DEBUG] Searching and playing playlist: ${searchQuery}`);
-            result = await spotifyControl.searchAndPlayPlaylist(searchQuery);
-            console.log(`[DEBUG] searchAndPlayPlaylist result:`, JSON.stringify(result, null, 2));
-          } else {
-            console.log(`[DEBUG] No playlist URI or query provided for play`);
-            result = { success: false, message: "I need a playlist name or URI to play" };
-          }
-          break;
-        }
-
-        case 'pause': {
-          result = await spotifyControl.pause();
-          
-          // Emit WebSocket event
-          const musicService = wsService?.getMusicService();
-          if (musicService && userId) {
-            musicService.emitPlaybackStateChange(userId, {
-              isPlaying: false,
-              timestamp: Date.now()
-            });
-            
-            musicService.emitCommandExecuted(userId, {
-              intent: 'pause',
-              confidence: interpretation.confidence || 1.0,
-              source: 'ai',
-              success: result.success,
-              timestamp: Date.now()
-            });
-          }
-          break;
-        }
-
-        case 'play':
-        case 'resume': {
-          result = await spotifyControl.play();
-          
-          // Emit WebSocket event
-          const musicService = wsService?.getMusicService();
-          if (musicService && userId) {
-            musicService.emitPlaybackStateChange(userId, {
-              isPlaying: true,
-              timestamp: Date.now()
-            });
-            
-            musicService.emitCommandExecuted(userId, {
-              intent: interpretation.intent,
-              confidence: interpretation.confidence || 1.0,
-              source: 'ai',
-              success: result.success,
-              timestamp: Date.now()
-            });
-          }
-          break;
-        }
-
-        case 'skip':
-        case 'next': {
-          result = await spotifyControl.skip();
-          
-          // Get the new track info and emit WebSocket event
-          const musicService = wsService?.getMusicService();
-          if (musicService && userId) {
-            const trackInfo = await spotifyControl.getCurrentTrack();
-            if (trackInfo.success && trackInfo.track) {
-              musicService.emitTrackChange(userId, {
-                track: {
-                  id: trackInfo.track.id || '',
-                  name: trackInfo.track.name,
-                  artist: trackInfo.track.artist,
-                  album: trackInfo.track.album,
-                  duration_ms: trackInfo.track.duration * 1000,
-                  uri: ''
-                },
-                isAIDiscovery: false,
-                source: 'ai',
-                timestamp: Date.now()
-              });
-            }
-            
-            musicService.emitCommandExecuted(userId, {
-              intent: 'skip',
-              confidence: interpretation.confidence || 1.0,
-              source: 'ai',
-              success: result.success,
-              timestamp: Date.now()
-            });
-          }
-          break;
-        }
-
-        case 'previous':
-        case 'back': {
-          result = await spotifyControl.previous();
-          
-          // Get the new track info and emit WebSocket event
-          const musicService = wsService?.getMusicService();
+      console.log(`[PLAN] Executing ${steps.length} steps (${interpretation.executionOrder || 'sequential'}, on failure: ${interpretation.onStepFailure || 'stop'})`);
+      
+      const planResult = await executeCommandPlan(
+        interpretation,
+        (step, index) => executeMusicIntent(step, {
+          spotifyControl,
+          userId,
+          command,
+          wsService,
+          sessionId: req.headers['x-session-id'],
+          timezone,
+          planStep: { index, total: steps.length }
+        }),
+        (stepResult) => {
+          console.log(`[PLAN] Step ${stepResult.step}/${steps.length} ${stepResult.intent}: ${stepResult.success ? 'ok' : 'failed'} - ${stepResult.message}`);
           if (musicService && userId) {
-            const trackInfo = await spotifyControl.getCurrentTrack();
-            if (trackInfo.success && trackInfo.track) {
-              musicService.emitTrackChange(userId, {
-                track: {
-                  id: trackInfo.track.id || '',
-                  name: trackInfo.track.name,
-                  artist: trackInfo.track.artist,
-                  album: trackInfo.track.album,
-                  duration_ms: trackInfo.track.duration * 1000,
-                  uri: ''
-                },
-                isAIDiscovery: false,
-                source: 'ai',
-                timestamp: Date.now()
-              });
-            }
-            
             musicService.emitCommandExecuted(userId, {
-              intent: 'previous',
-              confidence: interpretation.confidence || 1.0,
+              command,
+              intent: stepResult.intent,
+              confidence: steps[stepResult.step - 1]?.confidence || interpretation.confidence || 0.9,
               source: 'ai',
-              success: result.success,
+              success: stepResult.success,
+              ...(!stepResult.success && { error: stepResult.message }),
+              metadata: {
+                planStep: stepResult.step,
+                planTotal: steps.length
+              },
               timestamp: Date.now()
             });
           }
-          break;
-        }
-
-        case 'get_playback_info':
-        case 'get_current_track': {
-          result = await spotifyControl.getCurrentTrack();
-          
-          // Format the response nicely if we have track info
-          if (result.success && result.track) {
-            const track = result.track;
-            const formatTime = (seconds: number) => {
-              const mins = Math.floor(seconds / 60);
-              const secs = seconds % 60;
-              return `${mins}:${secs.toString().padStart(2, '0')}`;
-            };
-            
-            result.message = `🎵 Currently playing:\n\n🎤 ${track.name}\n👤 ${track.artist}\n💿 ${track.album}\n\n⏱️ ${formatTime(track.position)} / ${formatTime(track.duration)}`;
-          }
-          break;
-        }
-
-        case 'set_volume': {
-          const volumeLevel = interpretation.volume || interpretation.volume_level || interpretation.value;
-          
-          if (typeof volumeLevel !== 'number' || volumeLevel < 0 || volumeLevel > 100) {
-            result = {
-              success: false,
-              message: 'Volume must be a number between 0 and 100'
-            };
-          } else {
-            result = await spotifyControl.setVolume(volumeLevel);
-            
-            // Emit WebSocket event
-            const musicService = wsService?.getMusicService();
-            if (musicService && userId) {
-              musicService.emitVolumeChanged(userId, {
-                volume: volumeLevel,
-                timestamp: Date.now()
-              });
-              
-              musicService.emitCommandExecuted(userId, {
-                intent: 'set_volume',
-                confidence: interpretation.confidence || 1.0,
-                source: 'ai',
-                success: result.success,
-                metadata: { volume: volumeLevel },
-                timestamp: Date.now()
-              });
-            }
-          }
-          break;
-        }
-
-        case 'set_shuffle': {
-          const enabled = interpretation.enabled !== undefined ? interpretation.enabled : true;
-          result = await spotifyControl.setShuffle(enabled);
-          break;
-        }
-
-        case 'set_repeat': {
-          const enabled = interpretation.enabled !== undefined ? interpretation.enabled : true;
-          result = await spotifyControl.setRepeat(enabled);
-          break;
-        }
-
-        case 'clear_queue': {
-          result = await spotifyControl.clearQueue();
-          break;
-        }
-
-        case 'get_devices': {
-          result = await spotifyControl.getDevices();
-          break;
-        }
-
-        case 'get_playlists': {
-          result = await spotifyControl.getPlaylists();
-          break;
-        }
-
-        case 'get_recently_played': {
-          result = await spotifyControl.getRecentlyPlayed();
-          break;
         }
+      );
+      
+      result = {
+        success: planResult.success,
+        message: planResult.message,
+        planSteps: planResult.steps.map(({ result: _result, ...step }) => step),
+        stoppedEarly: planResult.stoppedEarly
+      };
+    } else {
+      result = await executeMusicIntent(interpretation, {
+        spotifyControl,
+        userId,
+        command,
+        wsService,
+        sessionId: req.headers['x-session-id'],
+        timezone
+      });
+    }
 
-        case 'search': {
-          const searchQuery = interpretation.query || interpretation.search_query || interpretation.q || '';
-          
-          if (!searchQuery) {
-            result = {
-              success: false,
-              message: 'No search query provided'
-            };
-          } else {
-            const tracks = await spotifyControl.search(searchQuery);
-            result = {
-              success: true,
-              message: `Found ${tracks.length} tracks for "${searchQuery}"`,
-              tracks: tracks.slice(0, 10).map(t => ({
-                name: t.name,
-                artists: t.artists.map((a: any) => a.name).join(', '),
-                album: t.album.name,
-                uri: t.uri,
-                popularity: t.popularity
-              }))
-            };
-          }
-          break;
-        }
 
-        default:
-          result = { 
-            success: false, 
-            message: `I don't know how to: ${intent || command}`
-          };
-          break;
-      }
+    // A failed command changed nothing, so it mustn't take the previous command's undo point
+    const undoAvailable = !!undoSnapshot && result.success;
+    if (undoSnapshot && !result.success) {
+      await getPlaybackUndoService().discard(undoSnapshot.userId, undoSnapshot.snapshot);
     }
+    undoSnapshot = null;
 
+    // Let the playback watcher pick up what this command changed without waiting for its next poll
+    const canonicalIntent = canonicalizeIntent(intent) || intent;
+    if (userId && result.success && (MUTATING_INTENTS.includes(canonicalIntent) || canonicalIntent.startsWith('queue_'))) {
+      getPlaybackWatcher().nudge(userId);
+    }
 
     // Get current device info if playback operation was successful
     let currentDevice = null;
@@ -1890,6 +2319,12 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
       }
     }
 
+    // What the user can rate from this command (queue_multiple_songs tracks its songs as it queues them, plans per step)
+    const ratableTracks = ['queue_multiple_songs', 'multi_step_plan'].includes(interpretation.intent)
+      ? []
+      : collectRatableTracks(interpretation, result);
+    const playedRating = ratableTracks.find(t => t.provenance?.source !== 'alternative');
+
     const responseData = {
       ...result,
       interpretation: {
@@ -1905,8 +2340,9 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
         ...(interpretation.isAIDiscovery && { isAIDiscovery: interpretation.isAIDiscovery }),
         ...(interpretation.aiReasoning && { aiReasoning: interpretation.aiReasoning })
       },
-      // Include track info for feedback buttons (for AI discoveries)
-      ...(interpretation.isAIDiscovery && result.success && {
+      // Include track info for feedback buttons (for AI discoveries and fallbacks)
+      ...(playedRating && { provenance: playedRating.provenance }),
+      ...((interpretation.isAIDiscovery || playedRating) && result.success && {
         track: {
           name: ((result as any).track || (result as any).data?.track)?.name || interpretation.track,
           artists: ((result as any).track || (result as any).data?.track)?.artists || (interpretation.artist ? [{ name: interpretation.artist }] : []),
@@ -1918,6 +2354,8 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
       }),
       // Include device info if available
       ...(currentDevice && { currentDevice }),
+      // Lets the UI offer an Undo toast
+      ...(undoAvailable && { undoAvailable: true }),
       timestamp: new Date().toISOString(),
       // Include refreshed tokens if they were updated
       ...(refreshedTokens ? { refreshedTokens } : {})
@@ -1946,51 +2384,12 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
       });
     }
     
-    // Track AI discovery if this was an AI-made creative choice (except queue_multiple_songs which tracks individually)
-    if (interpretation.isAIDiscovery && result.success && userId && loggingService?.redisClient && interpretation.intent !== 'queue_multiple_songs') {
+    // Store every ratable track - AI picks, fallbacks and alternatives - with where it came from
+    if (ratableTracks.length > 0 && userId && loggingService?.redisClient) {
       try {
-        // Use the actual track data from the successful Spotify result, not interpretation data
-        const actualTrack = (result as any).track || (result as any).data?.track;
-        
-        const discovery: any = {
-          trackUri: actualTrack?.uri || `spotify:track:${interpretation.track}`, // Use real URI if available
-          trackName: actualTrack?.name || interpretation.track || 'Unknown Track',
-          artist: actualTrack?.artists?.map((a: any) => a.name).join(', ') || interpretation.artist || 'Unknown Artist',
-          discoveredAt: Date.now(),
-          reasoning: interpretation.aiReasoning || '',
-          feedback: undefined, // No feedback yet
-          feedbackAt: undefined,
-          previewUrl: actualTrack?.preview_url || undefined // 30-second preview URL
-        };
-        
-        // Only store if we have meaningful track info
-        if (discovery.trackUri || (discovery.trackName !== 'Unknown Track' && discovery.artist !== 'Unknown Artist')) {
-          // Check if this track has already been discovered
-          const userDataService = new UserDataService(loggingService.redisClient, spotifyControl.getApi(), userId);
-          const existingDiscovery = await userDataService.checkAIDiscoveryExists(discovery.trackUri);
-          
-          if (existingDiscovery) {
-            // If it exists with feedback, preserve that feedback
-            if (existingDiscovery.feedback) {
-              console.log(`[DEBUG] AI discovery already exists with feedback (${existingDiscovery.feedback}): ${discovery.trackName} by ${discovery.artist}`);
-            } else {
-              console.log(`[DEBUG] AI discovery already exists (no feedback): ${discovery.trackName} by ${discovery.artist}`);
-            }
-          } else {
-            // Store in Redis discoveries list
-            await loggingService.redisClient.lPush(
-              `user:${userId}:ai_discoveries`,
-              JSON.stringify(discovery)
-            );
-            // Trim to keep only last 500 discoveries
-            await loggingService.redisClient.lTrim(
-              `user:${userId}:ai_discoveries`, 
-              0, 
-              499
-            );
-            
-            console.log(`[DEBUG] Tracked new AI discovery: ${discovery.trackName} by ${discovery.artist}`);
-          }
+        const userDataService = new UserDataService(loggingService.redisClient, spotifyControl.getApi(), userId);
+        for (const track of ratableTracks) {
+          await userDataService.recordAIDiscovery({ ...track, prompts: interpretation.prompts });
         }
       } catch (error) {
         console.error('Error tracking AI discovery:', error);
@@ -2041,6 +2440,10 @@ simpleLLMInterpreterRouter.post('/command', requireValidTokens, async (req: any,
 
   } catch (error: any) {
     console.error('Command error:', error);
+
+    if (undoSnapshot) {
+      await getPlaybackUndoService().discard(undoSnapshot.userId, undoSnapshot.snapshot);
+    }
     
     // More specific error handling
     let errorMessage = 'Failed to process command';
@@ -2226,6 +2629,7 @@ simpleLLMInterpreterRouter.post('/direct-action', requireValidTokens, async (req
         req.tokens = tokens; 
       }
     );
+    await applyListeningRules(spotifyControl, req.userId);
     
     let result;
     
@@ -1,171 +1,103 @@
 import { Router } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
-import { SpotifyWebAPI } from '../spotify/api';
+import { createMusicBackend } from '../spotify/backend';
+import { TrackResolver, TrackRequest, artistNames } from '../services/TrackResolver';
 
 export const songVerificationRouter = Router();
 
-// Songs to verify from the LLM response
-const songsToVerify = [
-  {
-    artist: "Nine Inch Nails",
-    track: "Wish",
-    album: "Broken"
-  },
-  {
-    artist: "Ministry",
-    track: "N.W.O.",
-    album: "Psalm 69: The Way to Succeed and the Way to Suck Eggs"
-  },
-  {
-    artist: "Skinny Puppy",
-    track: "Worlock",
-    album: "Rabies"
-  },
-  {
-    artist: "Front 242",
-    track: "Headhunter",
-    album: "Front by Front"
-  },
-  {
-    artist: "HEALTH",
-    track: "Body/Prison",
-    album: "Death Magic"
-  },
-  {
-    artist: "KMFDM",
-    track: "Godlike",
-    album: "Nave"
+// Keep one request from turning into hundreds of Spotify searches
+const MAX_SONGS_PER_REQUEST = 25;
+
+async function verifySongs(resolver: TrackResolver, songs: TrackRequest[]) {
+  const results = [];
+
+  for (const song of songs) {
+    console.log(`🔍 Verifying: ${song.artist} - ${song.track}`);
+    const resolution = await resolver.resolve(song);
+    const best = resolution.best;
+
+    if (resolution.match) {
+      const track = resolution.match.track;
+      console.log(`  ✅ FOUND (${Math.round(resolution.match.confidence * 100)}%): ${artistNames(track)} - ${track.name}`);
+      results.push({
+        ...song,
+        found: true,
+        confidence: resolution.match.confidence,
+        reasons: resolution.match.reasons,
+        uri: track.uri,
+        spotify: {
+          name: track.name,
+          artists: artistNames(track),
+          album: track.album.name,
+          popularity: track.popularity
+        }
+      });
+    } else if (best) {
+      console.log(`  ⚠️  REJECTED: closest was ${artistNames(best.track)} - ${best.track.name} (${Math.round(best.confidence * 100)}%)`);
+      results.push({
+        ...song,
+        found: false,
+        confidence: best.confidence,
+        reasons: best.reasons,
+        reason: 'No good match found',
+        closest: {
+          name: best.track.name,
+          artists: artistNames(best.track),
+          uri: best.track.uri
+        }
+      });
+    } else {
+      console.log(`  ❌ NOT FOUND: No search results`);
+      results.push({
+        ...song,
+        found: false,
+        confidence: 0,
+        reason: 'No search results'
+      });
+    }
   }
-];
-
-function findBestMatch(tracks: any[], artist: string, trackName: string) {
-  if (!tracks || tracks.length === 0) return null;
 
-  // Look for exact matches first
-  const exactMatch = tracks.find(track => {
-    const trackArtist = track.artists[0]?.name.toLowerCase();
-    const searchArtist = artist.toLowerCase();
-    const trackNameLower = track.name.toLowerCase();
-    const searchTrackLower = trackName.toLowerCase();
-    
-    return trackArtist === searchArtist && trackNameLower === searchTrackLower;
-  });
-
-  if (exactMatch) return exactMatch;
-
-  // Look for close matches
-  const closeMatch = tracks.find(track => {
-    const trackArtist = track.artists[0]?.name.toLowerCase();
-    const searchArtist = artist.toLowerCase();
-    const trackNameLower = track.name.toLowerCase();
-    const searchTrackLower = trackName.toLowerCase();
-    
-    return trackArtist.includes(searchArtist) || searchArtist.includes(trackArtist);
-  });
+  return results;
+}
 
-  return closeMatch || tracks[0]; // Return first result if no good match
+function parseSongs(raw: any): TrackRequest[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_SONGS_PER_REQUEST) {
+    return null;
+  }
+  const songs = raw.map((song: any) => ({
+    artist: typeof song?.artist === 'string' ? song.artist : undefined,
+    track: typeof song?.track === 'string' ? song.track : undefined,
+    album: typeof song?.album === 'string' ? song.album : undefined,
+    version: typeof song?.version === 'string' ? song.version : undefined,
+    durationMs: typeof song?.durationMs === 'number' ? song.durationMs : undefined
+  }));
+  return songs.every(song => song.artist && song.track) ? songs : null;
 }
 
-// Verify song availability endpoint
-songVerificationRouter.get('/verify', requireValidTokens, async (req: any, res) => {
-  try {
-    const tokens = req.tokens;
-    if (!tokens) {
-      return res.status(401).json({ error: 'No tokens available' });
-    }
-    
-    const spotifyAPI = new SpotifyWebAPI(tokens, (newTokens) => {
-      // Token refresh callback - not needed for this verification
+async function handleVerify(req: any, res: any, songs: TrackRequest[] | null) {
+  if (!songs) {
+    return res.status(400).json({
+      success: false,
+      error: `Provide 1-${MAX_SONGS_PER_REQUEST} songs, each with artist and track`
     });
+  }
 
-    console.log('🎵 Starting song verification...');
-    
-    let availableCount = 0;
-    const results = [];
-
-    for (const song of songsToVerify) {
-      console.log(`🔍 Searching: ${song.artist} - ${song.track}`);
-      
-      // Search with different query variations
-      const queries = [
-        `artist:"${song.artist}" track:"${song.track}"`,
-        `"${song.artist}" "${song.track}"`,
-        `${song.artist} ${song.track}`,
-        `${song.track} ${song.artist}`
-      ];
-
-      let bestMatch = null;
-      let searchResultsFound = false;
-
-      for (const query of queries) {
-        try {
-          const tracks = await spotifyAPI.search(query, ['track']);
-          if (tracks.length > 0) {
-            searchResultsFound = true;
-            const match = findBestMatch(tracks, song.artist, song.track);
-            if (match) {
-              bestMatch = match;
-              break;
-            }
-          }
-        } catch (searchError) {
-          console.error(`Search error for "${query}":`, searchError);
-        }
-      }
-
-      if (bestMatch) {
-        availableCount++;
-        console.log(`  ✅ FOUND: ${bestMatch.artists[0].name} - ${bestMatch.name}`);
-        console.log(`      Album: ${bestMatch.album.name}`);
-        console.log(`      URI: ${bestMatch.uri}`);
-        console.log(`      Popularity: ${bestMatch.popularity}/100`);
-        
-        results.push({
-          ...song,
-          found: true,
-          spotify: bestMatch,
-          uri: bestMatch.uri,
-          popularity: bestMatch.popularity
-        });
-      } else if (searchResultsFound) {
-        console.log(`  ⚠️  PARTIAL: Found results but no good match`);
-        results.push({
-          ...song,
-          found: false,
-          reason: 'No good match found'
-        });
-      } else {
-        console.log(`  ❌ NOT FOUND: No search results`);
-        results.push({
-          ...song,
-          found: false,
-          reason: 'No search results'
-        });
-      }
-    }
+  try {
+    const resolver = new TrackResolver(createMusicBackend(req.tokens, (tokens) => { req.tokens = tokens; }));
+    const results = await verifySongs(resolver, songs);
+    const foundCount = results.filter(r => r.found).length;
 
-    console.log('='.repeat(60));
-    console.log(`SUMMARY: ${availableCount}/${songsToVerify.length} songs found on Spotify`);
-    console.log('='.repeat(60));
+    console.log(`SUMMARY: ${foundCount}/${songs.length} songs found on Spotify`);
 
-    const response = {
+    res.json({
       success: true,
-      totalSongs: songsToVerify.length,
-      foundCount: availableCount,
+      totalSongs: songs.length,
+      foundCount,
       results,
       summary: {
-        allAvailable: availableCount === songsToVerify.length,
-        matchesFrontendClaim: availableCount === 3,
-        verdict: availableCount === songsToVerify.length 
-          ? 'ALL SONGS ARE AVAILABLE - Frontend might have a bug'
-          : availableCount === 3 
-          ? 'Only 3 songs found - matches frontend claim'
-          : `Found ${availableCount} songs - different from frontend claim of 3`
+        allAvailable: foundCount === songs.length
       }
-    };
-
-    res.json(response);
-
+    });
   } catch (error) {
     console.error('Verification error:', error);
     res.status(500).json({
@@ -173,6 +105,17 @@ songVerificationRouter.get('/verify', requireValidTokens, async (req: any, res)
       error: error instanceof Error ? error.message : 'Failed to verify songs'
     });
   }
+}
+
+// Verify one song: GET /verify?artist=...&track=...&album=...
+songVerificationRouter.get('/verify', requireValidTokens, async (req: any, res) => {
+  const { artist, track, album, version } = req.query;
+  await handleVerify(req, res, parseSongs([{ artist, track, album, version }]));
+});
+
+// Verify a batch of songs (e.g. an LLM's suggestions): POST /verify { songs: [{ artist, track, album? }] }
+songVerificationRouter.post('/verify', requireValidTokens, async (req: any, res) => {
+  await handleVerify(req, res, parseSongs(req.body?.songs));
 });
 
-export default songVerificationRouter;
\ No newline at end of file
+export default songVerificationRouter;
@@ -1,9 +1,15 @@
 import { Router, Request, Response } from 'express';
 import { requireValidTokens } from '../middleware/session-auth';
-import { SpotifyWebAPI } from '../spotify/api';
+import { createMusicBackend } from '../spotify/backend';
 import { UserDataService } from '../services/UserDataService';
+import { summarizeHistory } from '../services/ListeningHistoryService';
+import { ListeningReportService, isReportPeriod, renderReportHtml } from '../services/ListeningReportService';
+import { llmOrchestrator, OPENROUTER_MODELS, LLMRequest, LLMResponse } from '../llm/orchestrator';
+import { LLMLoggingService } from '../services/llm-logging.service';
+import { getLLMBudgetService } from '../services/LLMBudgetService';
 import { TimeRange } from '../types/spotify-data';
 import { createRedisClient } from '../config/redis';
+import { createHash } from 'crypto';
 // JWT imports removed during auth refactor - no longer needed
 
 const router = Router();
@@ -13,13 +19,18 @@ router.use(requireValidTokens);
 
 // Helper to get UserDataService instance with new session-auth middleware
 async function getUserDataService(req: any): Promise<UserDataService> {
+  return (await getUserDataContext(req)).userDataService;
+}
+
+// Same, plus the Redis client it uses (for services layered on top of it)
+async function getUserDataContext(req: any): Promise<{ userDataService: UserDataService; redis: any }> {
   // Get tokens from requireValidTokens middleware
   const tokens = req.tokens;
   if (!tokens) {
     throw new Error('No Spotify tokens available');
   }
   
-  const spotifyApi = new SpotifyWebAPI(tokens, (newTokens) => {
+  const spotifyApi = createMusicBackend(tokens, (newTokens) => {
     // Update tokens in request
     req.tokens = newTokens;
   });
@@ -31,7 +42,55 @@ async function getUserDataService(req: any): Promise<UserDataService> {
   const redis = await createRedisClient();
   await redis.connect();
   
-  return new UserDataService(redis, spotifyApi, finalUserId);
+  return { userDataService: new UserDataService(redis, spotifyApi, finalUserId), redis };
+}
+
+// Hash function for user IDs
+function hashUserId(userId: string): string {
+  return createHash('sha256').update(userId).digest('hex').substring(0, 16);
+}
+
+// Write the report highlights, logged like the other LLM flows so they count towards the user's budget
+async function completeReportHighlights(req: any, redis: any, request: LLMRequest): Promise<LLMResponse> {
+  const startTime = Date.now();
+  const response = await llmOrchestrator.complete(request);
+
+  try {
+    await new LLMLoggingService(redis).logInteraction({
+      timestamp: Date.now(),
+      userId: hashUserId(req.userId),
+      sessionId: req.headers['x-session-id'] as string || 'unknown',
+      command: `Listening report highlights (${req.query.period || 'month'})`,
+      interpretation: {},
+      llmRequest: {
+        model: request.model || 'unknown',
+        provider: response.provider || 'unknown',
+        flow: response.flow || 'unknown',
+        messages: request.messages,
+        temperature: request.temperature || 0,
+        jsonMode: request.response_format?.type === 'json_object',
+        fullRequest: response.fullRequest
+      },
+      llmResponse: {
+        content: response.content,
+        usage: response.usage,
+        latency: Date.now() - startTime,
+        fallbackUsed: response.fallbackUsed || false,
+        actualModel: response.actualModel,
+        rawResponse: response.rawResponse,
+        processingSteps: response.processingSteps
+      },
+      result: {
+        success: true,
+        message: 'Report highlights written'
+      }
+    });
+  } catch (error) {
+    console.error('Failed to log LLM interaction:', error);
+    // Don't throw - logging failure shouldn't break the report
+  }
+
+  return response;
 }
 
 // Get all dashboard data
@@ -223,6 +282,76 @@ router.get('/recently-played', async (req: Request, res: Response) => {
   }
 });
 
+// Get long-term listening history (?days=30, or ?from=&to= as ISO dates)
+router.get('/history', async (req: Request, res: Response) => {
+  try {
+    const days = parseInt(req.query.days as string, 10);
+    const from = req.query.from ? Date.parse(req.query.from as string) : Date.now() - (days > 0 ? days : 30) * 24 * 60 * 60 * 1000;
+    const to = req.query.to ? Date.parse(req.query.to as string) : Date.now();
+    if (isNaN(from) || isNaN(to)) {
+      return res.status(400).json({ success: false, error: 'from and to must be ISO dates' });
+    }
+    const limit = Math.min(parseInt(req.query.limit as string, 10) || 1000, 5000);
+
+    const userDataService = await getUserDataService(req);
+    const plays = await userDataService.getListeningHistory(from, to, limit);
+
+    res.json({
+      success: true,
+      data: plays,
+      summary: summarizeHistory(plays),
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString()
+    });
+  } catch (error: any) {
+    console.error('Error fetching listening history:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to fetch listening history'
+    });
+  }
+});
+
+// Get a Wrapped-style listening report (?period=week|month|year, ?format=html for a standalone page)
+router.get('/report', async (req: any, res: Response) => {
+  try {
+    const period = req.query.period || 'month';
+    if (!isReportPeriod(period)) {
+      return res.status(400).json({ success: false, error: 'period must be week, month or year' });
+    }
+
+    const { userDataService, redis } = await getUserDataContext(req);
+    // Over the daily budget the highlights use a cheaper model, and past the hard limit they're written without the LLM
+    const { model, budget } = await getLLMBudgetService().chooseModel(req.userId, OPENROUTER_MODELS.GEMINI_2_5_FLASH);
+    const reports = new ListeningReportService(redis, userDataService, req.userId, {
+      ...(budget.level !== 'hard' && { complete: (request: LLMRequest) => completeReportHighlights(req, redis, request) }),
+      model
+    });
+    const report = await reports.getReport(period, req.query.refresh === 'true');
+
+    if (req.query.format === 'html') {
+      if (req.query.download === 'true') {
+        res.setHeader('Content-Disposition', `attachment; filename="dj-forge-${period}-report.html"`);
+      }
+      return res.type('html').send(renderReportHtml(report));
+    }
+
+    if (req.query.download === 'true') {
+      res.setHeader('Content-Disposition', `attachment; filename="dj-forge-${period}-report.json"`);
+    }
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error: any) {
+    console.error('Error generating listening report:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message || 'Failed to generate listening report'
+    });
+  }
+});
+
 // Get playlists
 router.get('/playlists', async (req: Request, res: Response) => {
   try {
@@ -311,7 +440,7 @@ router.put('/saved-tracks', async (req: any, res: Response) => {
       throw new Error('No Spotify tokens found');
     }
     
-    const api = new SpotifyWebAPI(tokens, (newTokens) => {
+    const api = createMusicBackend(tokens, (newTokens) => {
       // Update tokens in request
       req.tokens = newTokens;
     });
@@ -349,7 +478,7 @@ router.delete('/saved-tracks', async (req: any, res: Response) => {
       throw new Error('No Spotify tokens found');
     }
     
-    const api = new SpotifyWebAPI(tokens, (newTokens) => {
+    const api = createMusicBackend(tokens, (newTokens) => {
       // Update tokens in request
       req.tokens = newTokens;
     });
@@ -396,7 +525,7 @@ router.get('/saved-tracks/contains', async (req: any, res: Response) => {
       throw new Error('No Spotify tokens found');
     }
     
-    const api = new SpotifyWebAPI(tokens, (newTokens) => {
+    const api = createMusicBackend(tokens, (newTokens) => {
       // Update tokens in request
       req.tokens = newTokens;
     });
@@ -33,6 +33,21 @@ import { websocketRouter } from './routes/websocket';
 import playlistSearchRouter from './routes/playlist-search';
 import playlistDiscoveryRouter, { setRedisClient as setPlaylistDiscoveryRedisClient, setLoggingService as setPlaylistDiscoveryLoggingService } from './routes/playlist-discovery';
 import llmTestRouter, { setRedisClientForTest } from './routes/llm-test';
+import { getPlaybackUndoService } from './services/PlaybackUndoService';
+import { getScheduledActionService } from './services/ScheduledActionService';
+import { getPlaybackWatcher } from './services/PlaybackWatcherService';
+import { getShadowQueueService } from './services/ShadowQueueService';
+import { getPlaylistEditService } from './services/PlaylistEditService';
+import { getListeningRulesService } from './services/ListeningRulesService';
+import { getFamilyModeService } from './services/FamilyModeService';
+import { getListeningHistoryService } from './services/ListeningHistoryService';
+import { getDJForgePlaylistSyncService } from './services/DJForgePlaylistSyncService';
+import { getLLMBudgetService } from './services/LLMBudgetService';
+import { getImplicitFeedbackService } from './services/ImplicitFeedbackService';
+import queueRouter from './routes/queue';
+import schedulesRouter from './routes/schedules';
+import listeningRulesRouter from './routes/listening-rules';
+import familyModeRouter from './routes/family-mode';
 import { overrideConsole, logger } from './utils/logger';
 import { setSentryUserContext } from './middleware/sentry-auth';
 import { initializeWebSocket, getWebSocketService } from './services/websocket.service';
@@ -114,6 +129,40 @@ async function initializeSessionStore() {
       
       // Initialize Redis client for test endpoint
       setRedisClientForTest(redisClient);
+      
+      // Daily LLM spend limits per user, read from the logging service's cost rollups
+      getLLMBudgetService(redisClient);
+      
+      // Initialize playback snapshots for undo
+      getPlaybackUndoService(redisClient);
+      
+      // Start the sleep timer / scheduled action poller (pending actions live in Redis)
+      getScheduledActionService(redisClient).start();
+      
+      // DJ Forge queue, fed to Spotify by the playback watcher as tracks end
+      const shadowQueue = getShadowQueueService(redisClient);
+      getPlaybackWatcher().onPoll((userId, state, backend) => shadowQueue.feedIfDue(userId, state, backend));
+      getPlaybackWatcher().onStopWatching((userId, backend) => shadowQueue.flush(userId, backend));
+      
+      // Early skips and full listens of AI discoveries, as implicit feedback
+      const implicitFeedback = getImplicitFeedbackService(redisClient);
+      getPlaybackWatcher().onTrackChange((userId, previous, current, backend) =>
+        implicitFeedback.handleTrackChange(userId, previous, current, backend));
+      
+      // Playlist creates waiting for the user's confirmation
+      getPlaylistEditService(redisClient);
+      
+      // Blocked artists/tracks/genres enforced on every play and queue
+      getListeningRulesService(redisClient);
+      
+      // Clean-only listening, per user or per device
+      getFamilyModeService(redisClient);
+      
+      // Pull recently played into each active user's long-term history
+      getListeningHistoryService(redisClient).start();
+      
+      // Fix drift between AI feedback and the DJ Forge playlist after edits in Spotify
+      getDJForgePlaylistSyncService(redisClient).start();
     } else {
       throw new Error('Redis health check failed');
     }
@@ -194,6 +243,11 @@ async function initializeAndStart() {
 
     // Initialize WebSocket service with Redis client for authentication
     const webSocketService = initializeWebSocket(httpServer, allowedOrigins, redisClient);
+    
+    // Watch Spotify playback for connected users (needs Redis for their tokens)
+    if (redisClient) {
+      webSocketService.getMusicService()?.setPlaybackWatcher(getPlaybackWatcher());
+    }
 
     // New auth system (Phase 2 implementation)
     app.use('/api/auth', authRouter);
@@ -229,6 +283,14 @@ async function initializeAndStart() {
     app.use('/api/direct', directActionRouter);
     // AI feedback endpoints
     app.use('/api/feedback', feedbackRouter);
+    // Scheduled playback actions (sleep timers, fades, timed playlists)
+    app.use('/api/schedules', schedulesRouter);
+    // DJ Forge queue editing (remove, reorder, dedupe)
+    app.use('/api/queue', queueRouter);
+    // Per-user listening rules (hard exclusions)
+    app.use('/api/listening-rules', listeningRulesRouter);
+    // Family mode (explicit filter) per user and per device
+    app.use('/api/family-mode', familyModeRouter);
     // Song verification endpoint
     app.use('/api/songs', songVerificationRouter);
     // Debug token endpoint
@@ -428,6 +490,11 @@ process.on('SIGTERM', async () => {
     console.log('✅ WebSocket service shut down');
   }
   
+  getScheduledActionService().stop();
+  getListeningHistoryService().stop();
+  getDJForgePlaylistSyncService().stop();
+  getPlaybackWatcher().stop();
+  
   if (redisClient) {
     try {
       await redisClient.quit();
@@ -449,6 +516,11 @@ process.on('SIGINT', async () => {
     console.log('✅ WebSocket service shut down');
   }
   
+  getScheduledActionService().stop();
+  getListeningHistoryService().stop();
+  getDJForgePlaylistSyncService().stop();
+  getPlaybackWatcher().stop();
+  
   if (redisClient) {
     try {
       await redisClient.quit();
@@ -66,6 +66,40 @@ export class ConversationManager {
     }
   }
 
+  /**
+   * Get user's LLM fallback chain from Redis (null means use the global chain)
+   */
+  async getUserFallbackChain(userId: string): Promise<string[] | null> {
+    if (!this.redisClient) return null;
+
+    try {
+      const key = `user:${userId}:fallback_chain`;
+      const stored = await this.redisClient.get(key);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.error('Error getting fallback chain from Redis:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Set user's LLM fallback chain in Redis (an empty chain clears it)
+   */
+  async setUserFallbackChain(userId: string, models: string[]): Promise<void> {
+    if (!this.redisClient) return;
+
+    try {
+      const key = `user:${userId}:fallback_chain`;
+      if (models.length === 0) {
+        await this.redisClient.del(key);
+      } else {
+        await this.redisClient.setEx(key, 2592000, JSON.stringify(models)); // 30 days TTL
+      }
+    } catch (error) {
+      console.error('Error setting fallback chain in Redis:', error);
+    }
+  }
+
   /**
    * Get conversation history for a session
    */
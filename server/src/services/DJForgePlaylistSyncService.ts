@@ -0,0 +1,105 @@
+import { MusicBackend } from '../spotify/backend';
+import { createSessionBackend } from '../auth/session-tokens';
+import { UserDataService } from './UserDataService';
+import { getListeningHistoryService } from './ListeningHistoryService';
+
+export interface DJForgePlaylistSyncOptions {
+  intervalMs?: number;
+  backendFactory?: (sessionId: string) => Promise<MusicBackend | null>;
+  activeUsers?: () => Promise<Array<{ userId: string; sessionId: string | null }>>;
+}
+
+const DEFAULT_INTERVAL_MS = 60 * 60 * 1000;
+
+function getReconcileIntervalMs(): number {
+  const minutes = parseInt(process.env.DJ_FORGE_PLAYLIST_SYNC_INTERVAL_MINUTES || '', 10);
+  return minutes > 0 ? minutes * 60 * 1000 : DEFAULT_INTERVAL_MS;
+}
+
+/**
+ * Background reconcile of the DJ Forge playlist. Feedback changes update the
+ * playlist straight away; this catches what that can't - tracks the user added
+ * or removed in Spotify, and playlist updates that failed at the time. Runs
+ * over the same active users as the listening history ingester.
+ */
+export class DJForgePlaylistSyncService {
+  private redisClient: any = null;
+  private timer: NodeJS.Timeout | null = null;
+  private intervalMs: number;
+  private backendFactory: (sessionId: string) => Promise<MusicBackend | null>;
+  private activeUsers: () => Promise<Array<{ userId: string; sessionId: string | null }>>;
+
+  constructor(redisClient: any, options: DJForgePlaylistSyncOptions = {}) {
+    this.redisClient = redisClient;
+    this.intervalMs = options.intervalMs ?? getReconcileIntervalMs();
+    this.backendFactory = options.backendFactory ?? createSessionBackend;
+    this.activeUsers = options.activeUsers ?? (() => getListeningHistoryService().getActiveUsers());
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  /**
+   * Reconcile every active user's playlist, one at a time to stay inside Spotify's rate limits
+   */
+  async reconcileAll(): Promise<{ users: number; changes: number }> {
+    if (!this.redisClient) return { users: 0, changes: 0 };
+
+    let users = 0;
+    let changes = 0;
+
+    for (const { userId, sessionId } of await this.activeUsers()) {
+      try {
+        const backend = sessionId ? await this.backendFactory(sessionId) : null;
+        if (!backend) continue;
+
+        const result = await new UserDataService(this.redisClient, backend, userId).reconcileJDForgePlaylist();
+        changes += result.added.length + result.removed.length + result.loved.length + result.unloved.length;
+        users++;
+      } catch (error: any) {
+        console.error(`[PLAYLIST-SYNC] Failed to reconcile DJ Forge playlist for user ${userId}:`, error?.message);
+      }
+    }
+
+    return { users, changes };
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.reconcileAll().catch(error => console.error('[PLAYLIST-SYNC] Reconcile run failed:', error));
+    };
+    this.timer = setInterval(run, this.intervalMs);
+    // Don't keep the process alive just for the reconcile job
+    this.timer.unref?.();
+    console.log(`✅ DJ Forge playlist sync started (every ${Math.round(this.intervalMs / 60000)} min)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+}
+
+let sharedPlaylistSync: DJForgePlaylistSyncService | null = null;
+
+/**
+ * Get the shared DJ Forge playlist sync (pass the Redis client on first use)
+ */
+export function getDJForgePlaylistSyncService(redisClient?: any): DJForgePlaylistSyncService {
+  if (!sharedPlaylistSync) {
+    sharedPlaylistSync = new DJForgePlaylistSyncService(redisClient);
+  } else if (redisClient && !sharedPlaylistSync.isAvailable()) {
+    sharedPlaylistSync.setRedisClient(redisClient);
+  }
+
+  return sharedPlaylistSync;
+}
@@ -0,0 +1,151 @@
+import { SpotifyControl } from '../spotify/control';
+
+export interface FamilyModeSettings {
+  enabled: boolean;        // On for every device
+  deviceIds: string[];     // On only while playing on these devices (e.g. the office speaker)
+  updatedAt?: number;
+}
+
+export const DEFAULT_FAMILY_MODE: FamilyModeSettings = { enabled: false, deviceIds: [] };
+
+const MAX_FAMILY_MODE_DEVICES = 50;
+
+/**
+ * Family mode for shared listening: no explicit tracks, from the LLM's picks
+ * through search results to playlists.
+ *
+ * It can be on for the user everywhere or only for specific Spotify devices, so
+ * the office speaker stays clean while headphones don't. While it's active the
+ * prompt asks the LLM for clean songs, SpotifyControl leaves explicit tracks out
+ * of searches and the listening rules' explicit filter is forced on.
+ */
+export class FamilyModeService {
+  private redisClient: any = null;
+
+  constructor(redisClient: any) {
+    this.redisClient = redisClient;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private settingsKey(userId: string): string {
+    return `user:${userId}:family_mode`;
+  }
+
+  async getSettings(userId: string): Promise<FamilyModeSettings> {
+    if (!this.redisClient) {
+      return { ...DEFAULT_FAMILY_MODE, deviceIds: [] };
+    }
+
+    const raw = await this.redisClient.get(this.settingsKey(userId));
+    if (!raw) {
+      return { ...DEFAULT_FAMILY_MODE, deviceIds: [] };
+    }
+
+    try {
+      const parsed = JSON.parse(raw);
+      return {
+        enabled: parsed.enabled === true,
+        deviceIds: Array.isArray(parsed.deviceIds) ? parsed.deviceIds.filter((id: any) => typeof id === 'string') : [],
+        ...(typeof parsed.updatedAt === 'number' && { updatedAt: parsed.updatedAt })
+      };
+    } catch {
+      return { ...DEFAULT_FAMILY_MODE, deviceIds: [] };
+    }
+  }
+
+  private async saveSettings(userId: string, settings: FamilyModeSettings): Promise<FamilyModeSettings> {
+    if (!this.redisClient) {
+      throw new Error('Family mode is unavailable (Redis not connected)');
+    }
+
+    const saved = {
+      enabled: settings.enabled,
+      deviceIds: settings.deviceIds.slice(0, MAX_FAMILY_MODE_DEVICES),
+      updatedAt: Date.now()
+    };
+    await this.redisClient.set(this.settingsKey(userId), JSON.stringify(saved));
+    console.log(`[FAMILY MODE] User ${userId}: ${saved.enabled ? 'on' : 'off'} everywhere, on for ${saved.deviceIds.length} device(s)`);
+    return saved;
+  }
+
+  /**
+   * Turn family mode on or off for all of the user's devices
+   */
+  async setEnabled(userId: string, enabled: boolean): Promise<FamilyModeSettings> {
+    const settings = await this.getSettings(userId);
+    return this.saveSettings(userId, { ...settings, enabled });
+  }
+
+  /**
+   * Turn family mode on or off for one Spotify device
+   */
+  async setDeviceEnabled(userId: string, deviceId: string, enabled: boolean): Promise<FamilyModeSettings> {
+    const settings = await this.getSettings(userId);
+    const deviceIds = settings.deviceIds.filter(id => id !== deviceId);
+    if (enabled) {
+      deviceIds.push(deviceId);
+    }
+    return this.saveSettings(userId, { ...settings, deviceIds });
+  }
+
+  /**
+   * Whether family mode applies to the user's next command. The current device
+   * is only looked up when family mode is on for some devices but not all.
+   */
+  async isActive(userId: string, getDeviceId: () => Promise<string | null>): Promise<boolean> {
+    const settings = await this.getSettings(userId);
+    if (settings.enabled) {
+      return true;
+    }
+    if (settings.deviceIds.length === 0) {
+      return false;
+    }
+
+    try {
+      const deviceId = await getDeviceId();
+      return !!deviceId && settings.deviceIds.includes(deviceId);
+    } catch (error) {
+      console.error('[FAMILY MODE] Could not look up the current device:', error);
+      return false;
+    }
+  }
+}
+
+let sharedFamilyMode: FamilyModeService | null = null;
+
+/**
+ * Get the shared family mode service (pass the Redis client on first use)
+ */
+export function getFamilyModeService(redisClient?: any): FamilyModeService {
+  if (!sharedFamilyMode) {
+    sharedFamilyMode = new FamilyModeService(redisClient);
+  } else if (redisClient && !sharedFamilyMode.isAvailable()) {
+    sharedFamilyMode.setRedisClient(redisClient);
+  }
+
+  return sharedFamilyMode;
+}
+
+/**
+ * Whether family mode applies to a command played through this control
+ */
+export async function isFamilyModeActive(control: SpotifyControl, userId: string | null | undefined): Promise<boolean> {
+  const service = getFamilyModeService();
+  if (!userId || !service.isAvailable()) {
+    return false;
+  }
+
+  try {
+    return await service.isActive(userId, async () => (await control.getApi().getCurrentDevice())?.id || null);
+  } catch (error) {
+    console.error('[FAMILY MODE] Failed to load settings:', error);
+    return false;
+  }
+}
@@ -0,0 +1,94 @@
+import { MusicBackend } from '../spotify/backend';
+import { ImplicitFeedback, ImplicitFeedbackSignal } from '../types';
+import { UserDataService } from './UserDataService';
+import { WatchedPlaybackState, TRACK_END_LEAD_MS, expectedPosition } from './PlaybackWatcherService';
+
+// Moving on before this much of a track has played counts as a skip
+export const EARLY_SKIP_MS = 30000;
+
+/**
+ * What a track change says about the track that was playing. Polls are a few
+ * seconds apart, so this only answers when it's certain: the track can't have
+ * played past EARLY_SKIP_MS, or it was seen within its last few seconds (the
+ * watcher always polls inside a track's final TRACK_END_LEAD_MS).
+ */
+export function classifyTrackChange(previous: WatchedPlaybackState, current: WatchedPlaybackState): ImplicitFeedbackSignal | null {
+  if (!previous.track || previous.track.uri === current.track?.uri || previous.durationMs <= EARLY_SKIP_MS) {
+    return null;
+  }
+
+  if (previous.positionMs >= previous.durationMs - TRACK_END_LEAD_MS) {
+    return 'full_listen';
+  }
+
+  // Playback stopping isn't a verdict on the track
+  if (!current.track) {
+    return null;
+  }
+
+  const latestPosition = Math.min(expectedPosition(previous, current.observedAt), previous.durationMs);
+  return latestPosition < EARLY_SKIP_MS ? 'early_skip' : null;
+}
+
+/**
+ * Implicit feedback on AI discoveries: early skips and full listens seen by the
+ * playback watcher are stored next to the loved/disliked clicks and folded into
+ * the taste profile with a lower weight.
+ */
+export class ImplicitFeedbackService {
+  private redisClient: any = null;
+
+  constructor(redisClient: any) {
+    this.redisClient = redisClient;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  /**
+   * Playback watcher hook - records a signal when the previous track was an AI discovery
+   */
+  async handleTrackChange(
+    userId: string,
+    previous: WatchedPlaybackState,
+    current: WatchedPlaybackState,
+    backend: MusicBackend
+  ): Promise<ImplicitFeedback | null> {
+    if (!this.redisClient || !previous.track) {
+      return null;
+    }
+
+    const signal = classifyTrackChange(previous, current);
+    if (!signal) {
+      return null;
+    }
+
+    const userData = new UserDataService(this.redisClient, backend, userId);
+    const discovery = await userData.checkAIDiscoveryExists(previous.track.uri);
+    if (!discovery) {
+      return null;
+    }
+
+    return userData.recordImplicitFeedback(discovery, signal);
+  }
+}
+
+let sharedImplicitFeedback: ImplicitFeedbackService | null = null;
+
+/**
+ * Get the shared implicit feedback service (pass the Redis client on first use)
+ */
+export function getImplicitFeedbackService(redisClient?: any): ImplicitFeedbackService {
+  if (!sharedImplicitFeedback) {
+    sharedImplicitFeedback = new ImplicitFeedbackService(redisClient);
+  } else if (redisClient && !sharedImplicitFeedback.isAvailable()) {
+    sharedImplicitFeedback.setRedisClient(redisClient);
+  }
+
+  return sharedImplicitFeedback;
+}
@@ -0,0 +1,145 @@
+import { LLMLoggingService, CostRollup } from './llm-logging.service';
+import { isCheaperModel } from '../llm/pricing';
+
+export type BudgetLevel = 'ok' | 'soft' | 'hard';
+
+export interface LLMBudgetStatus {
+  spentUsd: number;              // Today, in the server's timezone
+  softLimitUsd: number | null;   // Past this, commands use the budget model
+  hardLimitUsd: number | null;   // Past this, expensive flows are refused too
+  level: BudgetLevel;
+  budgetModel: string;
+}
+
+export interface LLMUsage {
+  budget: LLMBudgetStatus;
+  daily: CostRollup[];
+  totalUsd: number;
+  queries: number;
+}
+
+export interface LLMBudgetOptions {
+  softLimitUsd?: number | null;
+  hardLimitUsd?: number | null;
+  budgetModel?: string;
+}
+
+const DEFAULT_BUDGET_MODEL = 'google/gemini-2.5-flash-lite-preview-06-17';
+
+function parseLimit(value: string | undefined): number | null {
+  const limit = parseFloat(value || '');
+  return limit > 0 ? limit : null;
+}
+
+/**
+ * Daily per-user LLM budgets, on top of the cost rollups the logging service
+ * keeps. Both limits are optional (LLM_DAILY_SOFT_BUDGET_USD and
+ * LLM_DAILY_HARD_BUDGET_USD): over the soft limit commands drop to a cheaper
+ * model, over the hard limit multi-call flows like playlist full-search are
+ * refused as well. Spend is only known after a call is logged, so a user can
+ * overshoot a limit by one request.
+ */
+export class LLMBudgetService {
+  private redisClient: any = null;
+  private softLimitUsd: number | null;
+  private hardLimitUsd: number | null;
+  private budgetModel: string;
+
+  constructor(redisClient: any, options: LLMBudgetOptions = {}) {
+    this.redisClient = redisClient;
+    this.softLimitUsd = options.softLimitUsd !== undefined ? options.softLimitUsd : parseLimit(process.env.LLM_DAILY_SOFT_BUDGET_USD);
+    this.hardLimitUsd = options.hardLimitUsd !== undefined ? options.hardLimitUsd : parseLimit(process.env.LLM_DAILY_HARD_BUDGET_USD);
+    this.budgetModel = options.budgetModel || process.env.LLM_BUDGET_MODEL || DEFAULT_BUDGET_MODEL;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  /**
+   * Where the user stands against today's budget (always 'ok' without Redis)
+   */
+  async getStatus(userId: string): Promise<LLMBudgetStatus> {
+    const status: LLMBudgetStatus = {
+      spentUsd: 0,
+      softLimitUsd: this.softLimitUsd,
+      hardLimitUsd: this.hardLimitUsd,
+      level: 'ok',
+      budgetModel: this.budgetModel
+    };
+    if (!this.redisClient || (this.softLimitUsd === null && this.hardLimitUsd === null)) {
+      return status;
+    }
+
+    const [today] = await new LLMLoggingService(this.redisClient).getUserCosts(userId, new Date());
+    status.spentUsd = today?.costUsd || 0;
+
+    if (this.hardLimitUsd !== null && status.spentUsd >= this.hardLimitUsd) {
+      status.level = 'hard';
+    } else if (this.softLimitUsd !== null && status.spentUsd >= this.softLimitUsd) {
+      status.level = 'soft';
+    }
+    return status;
+  }
+
+  /**
+   * The model to use for a user's request: the requested one while under
+   * budget, otherwise the budget model when it's cheaper
+   */
+  async chooseModel(userId: string, requestedModel: string): Promise<{ model: string; downgraded: boolean; budget: LLMBudgetStatus }> {
+    const budget = await this.getStatus(userId);
+    if (budget.level !== 'ok' && isCheaperModel(this.budgetModel, requestedModel)) {
+      console.log(`[BUDGET] User over ${budget.level} budget ($${budget.spentUsd.toFixed(4)}), using ${this.budgetModel} instead of ${requestedModel}`);
+      return { model: this.budgetModel, downgraded: true, budget };
+    }
+    return { model: requestedModel, downgraded: false, budget };
+  }
+
+  /**
+   * Whether the user may start a flow that makes many LLM calls
+   */
+  async allowsExpensiveFlow(userId: string): Promise<{ allowed: boolean; budget: LLMBudgetStatus }> {
+    const budget = await this.getStatus(userId);
+    return { allowed: budget.level !== 'hard', budget };
+  }
+
+  /**
+   * The user's spend over the last `days` days, for the usage panel
+   */
+  async getUsage(userId: string, days: number = 30): Promise<LLMUsage> {
+    const budget = await this.getStatus(userId);
+    if (!this.redisClient) {
+      return { budget, daily: [], totalUsd: 0, queries: 0 };
+    }
+
+    const startDate = new Date();
+    startDate.setDate(startDate.getDate() - (days - 1));
+    const daily = await new LLMLoggingService(this.redisClient).getUserCosts(userId, startDate);
+
+    return {
+      budget,
+      daily,
+      totalUsd: Math.round(daily.reduce((sum, day) => sum + day.costUsd, 0) * 1_000_000) / 1_000_000,
+      queries: daily.reduce((sum, day) => sum + day.queries, 0)
+    };
+  }
+}
+
+let sharedBudgetService: LLMBudgetService | null = null;
+
+/**
+ * Get the shared LLM budget service (pass the Redis client on first use)
+ */
+export function getLLMBudgetService(redisClient?: any): LLMBudgetService {
+  if (!sharedBudgetService) {
+    sharedBudgetService = new LLMBudgetService(redisClient);
+  } else if (redisClient && !sharedBudgetService.isAvailable()) {
+    sharedBudgetService.setRedisClient(redisClient);
+  }
+
+  return sharedBudgetService;
+}
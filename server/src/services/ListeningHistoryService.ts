@@ -0,0 +1,349 @@
+import { MusicBackend } from '../spotify/backend';
+import { createSessionBackend } from '../auth/session-tokens';
+
+// A stored play - same shape as Spotify's recently-played items, minus the bulk
+export interface HistoryPlay {
+  played_at: string;
+  track: {
+    id: string;
+    uri: string;
+    name: string;
+    artists: Array<{ id: string; name: string }>;
+    album: { id: string; name: string; release_date?: string };
+    duration_ms: number;
+    popularity?: number;
+    explicit?: boolean;
+  };
+  context?: { type: string; uri: string } | null;
+}
+
+export interface HistoryQuery {
+  from?: number;          // ms, inclusive
+  to?: number;            // ms, inclusive
+  limit?: number;
+}
+
+export interface HistorySummary {
+  plays: number;
+  minutes: number;
+  firstPlayedAt: string | null;
+  lastPlayedAt: string | null;
+  topArtists: Array<{ name: string; plays: number }>;
+  topTracks: Array<{ name: string; artist: string; uri: string; plays: number }>;
+}
+
+export interface ListeningHistoryOptions {
+  now?: () => number;
+  intervalMs?: number;
+  retentionDays?: number;
+  backendFactory?: (sessionId: string) => Promise<MusicBackend | null>;
+}
+
+const ACTIVE_USERS_KEY = 'listening_history:active';
+const SESSIONS_KEY = 'listening_history:sessions';
+// Spotify only remembers the last 50 plays (about three hours of listening)
+const DEFAULT_INTERVAL_MS = 30 * 60 * 1000;
+const DEFAULT_RETENTION_DAYS = 180;
+// Users who haven't used DJ Forge for this long are no longer ingested
+const ACTIVE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+// markActive runs on every authenticated request - only touch Redis this often
+const MARK_ACTIVE_THROTTLE_MS = 10 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function getIngestIntervalMs(): number {
+  const minutes = parseInt(process.env.LISTENING_HISTORY_INTERVAL_MINUTES || '', 10);
+  return minutes > 0 ? minutes * 60 * 1000 : DEFAULT_INTERVAL_MS;
+}
+
+/**
+ * Retention for stored plays (LISTENING_HISTORY_RETENTION_DAYS, default 180)
+ */
+export function getHistoryRetentionDays(): number {
+  const configured = parseInt(process.env.LISTENING_HISTORY_RETENTION_DAYS || '', 10);
+  return configured > 0 ? configured : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Long-term listening history. Spotify's recently-played endpoint only covers
+ * the last 50 plays, so a background job pulls it for every active user and
+ * appends new plays to a per-user sorted set (score = played_at), keeping
+ * months of history for the dashboard, taste profile and LLM context.
+ *
+ * Users become "active" by making authenticated requests; the session they
+ * last used is how the ingester reaches Spotify on their behalf. Ingesting is
+ * idempotent - only plays newer than the latest stored one are added - so
+ * overlapping runs (or several server instances) never duplicate plays.
+ */
+export class ListeningHistoryService {
+  private redisClient: any = null;
+  private timer: NodeJS.Timeout | null = null;
+  private now: () => number;
+  private intervalMs: number;
+  private retentionDays: number;
+  private backendFactory: (sessionId: string) => Promise<MusicBackend | null>;
+  private lastMarked = new Map<string, { sessionId: string; at: number }>();
+
+  constructor(redisClient: any, options: ListeningHistoryOptions = {}) {
+    this.redisClient = redisClient;
+    this.now = options.now ?? Date.now;
+    this.intervalMs = options.intervalMs ?? getIngestIntervalMs();
+    this.retentionDays = options.retentionDays ?? getHistoryRetentionDays();
+    this.backendFactory = options.backendFactory ?? createSessionBackend;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private historyKey(userId: string): string {
+    return `user:${userId}:listening_history`;
+  }
+
+  /**
+   * Keep a user on the ingester's list, reached through this session
+   */
+  async markActive(userId: string, sessionId: string): Promise<void> {
+    if (!this.redisClient) return;
+
+    const now = this.now();
+    const last = this.lastMarked.get(userId);
+    if (last && last.sessionId === sessionId && now - last.at < MARK_ACTIVE_THROTTLE_MS) {
+      return;
+    }
+
+    this.lastMarked.set(userId, { sessionId, at: now });
+    await this.redisClient.zAdd(ACTIVE_USERS_KEY, { score: now, value: userId });
+    await this.redisClient.hSet(SESSIONS_KEY, userId, sessionId);
+  }
+
+  /**
+   * Append the user's new recently-played items. Returns how many plays were added.
+   */
+  async ingestUser(userId: string, backend: MusicBackend): Promise<number> {
+    if (!this.redisClient) return 0;
+
+    const key = this.historyKey(userId);
+    const items: any[] = (await backend.getRecentlyPlayed()) || [];
+    const latest = await this.getLatestPlayedAt(userId);
+
+    const fresh = items
+      .filter(item => item?.track?.uri && item.played_at)
+      .map(item => ({ score: Date.parse(item.played_at), value: JSON.stringify(toHistoryPlay(item)) }))
+      .filter(entry => !isNaN(entry.score) && entry.score > latest);
+
+    if (fresh.length > 0) {
+      await this.redisClient.zAdd(key, fresh);
+    }
+    await this.redisClient.zRemRangeByScore(key, 0, this.now() - this.retentionDays * DAY_MS);
+
+    return fresh.length;
+  }
+
+  /**
+   * Ingest every active user, one at a time to stay well inside Spotify's rate limits
+   */
+  async ingestAll(): Promise<{ users: number; plays: number }> {
+    if (!this.redisClient) return { users: 0, plays: 0 };
+
+    let users = 0;
+    let plays = 0;
+
+    for (const { userId, sessionId } of await this.getActiveUsers()) {
+      try {
+        const backend = sessionId ? await this.backendFactory(sessionId) : null;
+        if (!backend) {
+          // Logged out - nothing to ingest until they come back
+          await this.forget(userId);
+          continue;
+        }
+
+        plays += await this.ingestUser(userId, backend);
+        users++;
+      } catch (error: any) {
+        console.error(`[HISTORY] Failed to ingest plays for user ${userId}:`, error?.message);
+      }
+    }
+
+    if (plays > 0) {
+      console.log(`[HISTORY] Stored ${plays} new play(s) for ${users} user(s)`);
+    }
+    return { users, plays };
+  }
+
+  /**
+   * Users seen in the last 30 days and the session each last used - other
+   * background jobs reach Spotify for the same users this way
+   */
+  async getActiveUsers(): Promise<Array<{ userId: string; sessionId: string | null }>> {
+    if (!this.redisClient) return [];
+
+    await this.redisClient.zRemRangeByScore(ACTIVE_USERS_KEY, 0, this.now() - ACTIVE_WINDOW_MS);
+    const userIds: string[] = await this.redisClient.zRange(ACTIVE_USERS_KEY, 0, -1);
+    const users: Array<{ userId: string; sessionId: string | null }> = [];
+    for (const userId of userIds) {
+      users.push({ userId, sessionId: (await this.redisClient.hGet(SESSIONS_KEY, userId)) ?? null });
+    }
+    return users;
+  }
+
+  private async forget(userId: string): Promise<void> {
+    this.lastMarked.delete(userId);
+    await this.redisClient.zRem(ACTIVE_USERS_KEY, userId);
+    await this.redisClient.hDel(SESSIONS_KEY, userId);
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.ingestAll().catch(error => console.error('[HISTORY] Ingest run failed:', error));
+    };
+    this.timer = setInterval(run, this.intervalMs);
+    // Don't keep the process alive just for the ingester
+    this.timer.unref?.();
+    run();
+    console.log(`✅ Listening history ingester started (every ${Math.round(this.intervalMs / 60000)} min)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Stored plays in a time range, newest first
+   */
+  async getPlays(userId: string, query: HistoryQuery = {}): Promise<HistoryPlay[]> {
+    if (!this.redisClient) return [];
+
+    const members: string[] = await this.redisClient.zRange(
+      this.historyKey(userId),
+      query.to ?? '+inf',
+      query.from ?? '-inf',
+      { BY: 'SCORE', REV: true, ...(query.limit && { LIMIT: { offset: 0, count: query.limit } }) }
+    );
+    return members.map(member => JSON.parse(member));
+  }
+
+  async getPlayCount(userId: string): Promise<number> {
+    if (!this.redisClient) return 0;
+    return this.redisClient.zCard(this.historyKey(userId));
+  }
+
+  private async getLatestPlayedAt(userId: string): Promise<number> {
+    const [latest] = await this.redisClient.zRangeWithScores(this.historyKey(userId), 0, 0, { REV: true });
+    return latest ? latest.score : 0;
+  }
+}
+
+function toHistoryPlay(item: any): HistoryPlay {
+  const track = item.track;
+  return {
+    played_at: item.played_at,
+    track: {
+      id: track.id,
+      uri: track.uri,
+      name: track.name,
+      artists: (track.artists || []).map((a: any) => ({ id: a.id, name: a.name })),
+      album: {
+        id: track.album?.id,
+        name: track.album?.name,
+        ...(track.album?.release_date && { release_date: track.album.release_date })
+      },
+      duration_ms: track.duration_ms || 0,
+      ...(typeof track.popularity === 'number' && { popularity: track.popularity }),
+      ...(typeof track.explicit === 'boolean' && { explicit: track.explicit })
+    },
+    context: item.context ? { type: item.context.type, uri: item.context.uri } : null
+  };
+}
+
+/**
+ * Play counts and top artists/tracks for a set of plays
+ */
+export function summarizeHistory(plays: HistoryPlay[], top: number = 5): HistorySummary {
+  const artistCounts = new Map<string, number>();
+  const trackCounts = new Map<string, { name: string; artist: string; uri: string; plays: number }>();
+  let totalMs = 0;
+
+  for (const play of plays) {
+    totalMs += play.track.duration_ms || 0;
+    for (const artist of play.track.artists) {
+      artistCounts.set(artist.name, (artistCounts.get(artist.name) || 0) + 1);
+    }
+    const existing = trackCounts.get(play.track.uri);
+    if (existing) {
+      existing.plays++;
+    } else {
+      trackCounts.set(play.track.uri, {
+        name: play.track.name,
+        artist: play.track.artists.map(a => a.name).join(', '),
+        uri: play.track.uri,
+        plays: 1
+      });
+    }
+  }
+
+  const sortedPlayedAt = plays.map(p => p.played_at).sort();
+  return {
+    plays: plays.length,
+    minutes: Math.round(totalMs / 60000),
+    firstPlayedAt: sortedPlayedAt[0] || null,
+    lastPlayedAt: sortedPlayedAt[sortedPlayedAt.length - 1] || null,
+    topArtists: [...artistCounts.entries()]
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, top)
+      .map(([name, count]) => ({ name, plays: count })),
+    topTracks: [...trackCounts.values()].sort((a, b) => b.plays - a.plays).slice(0, top)
+  };
+}
+
+/**
+ * Plain-text history for LLM context, e.g. to answer "what was I listening to last Tuesday"
+ */
+export function describeHistory(plays: HistoryPlay[], label: string, timezone?: string, maxPlays: number = 25): string {
+  if (plays.length === 0) {
+    return `Listening history for ${label}: no plays recorded.`;
+  }
+
+  const summary = summarizeHistory(plays);
+  const time = (playedAt: string) => {
+    const options: Intl.DateTimeFormatOptions = { weekday: 'short', hour: 'numeric', minute: '2-digit' };
+    try {
+      return new Date(playedAt).toLocaleString('en-US', { ...options, timeZone: timezone });
+    } catch {
+      return new Date(playedAt).toLocaleString('en-US', options);
+    }
+  };
+
+  // Oldest first reads naturally as "what I listened to"
+  const listed = [...plays].reverse().slice(0, maxPlays)
+    .map(play => `- ${time(play.played_at)}: "${play.track.name}" by ${play.track.artists.map(a => a.name).join(', ')}`);
+  const more = plays.length > maxPlays ? `\n- ...and ${plays.length - maxPlays} more` : '';
+
+  return `Listening history for ${label}: ${summary.plays} plays (~${summary.minutes} min)
+Top artists: ${summary.topArtists.map(a => `${a.name} (${a.plays})`).join(', ')}
+Plays:
+${listed.join('\n')}${more}`;
+}
+
+let sharedHistory: ListeningHistoryService | null = null;
+
+/**
+ * Get the shared listening history service (pass the Redis client on first use)
+ */
+export function getListeningHistoryService(redisClient?: any): ListeningHistoryService {
+  if (!sharedHistory) {
+    sharedHistory = new ListeningHistoryService(redisClient);
+  } else if (redisClient && !sharedHistory.isAvailable()) {
+    sharedHistory.setRedisClient(redisClient);
+  }
+
+  return sharedHistory;
+}
@@ -0,0 +1,384 @@
+import { UserDataService } from './UserDataService';
+import { HistoryPlay, summarizeHistory } from './ListeningHistoryService';
+import { LLMRequest, LLMResponse } from '../llm/orchestrator';
+import { SpotifyArtist, TimeRange } from '../types/spotify-data';
+import { AIDiscoveredTrack } from '../types';
+
+export type ReportPeriod = 'week' | 'month' | 'year';
+
+export const REPORT_PERIODS: ReportPeriod[] = ['week', 'month', 'year'];
+
+export interface GenreShift {
+  genre: string;
+  share: number;     // % of the period's listening
+  change: number;    // Percentage points vs. the baseline
+}
+
+export interface SkippedTrack {
+  name: string;
+  artist: string;
+  uri: string;
+  skips: number;
+}
+
+export interface ListeningReport {
+  period: ReportPeriod;
+  from: string;
+  to: string;
+  generatedAt: string;
+  displayName: string | null;
+  // Plays come from the long-term history; Spotify's top lists fill in when it's empty
+  source: 'history' | 'spotify_top';
+  listening: { plays: number; minutes: number };
+  topArtists: Array<{ name: string; plays?: number; imageUrl?: string }>;
+  topTracks: Array<{ name: string; artist: string; uri: string; plays?: number }>;
+  genres: { top: GenreShift[]; rising: GenreShift[]; fading: GenreShift[] };
+  aiDiscoveries: {
+    discovered: number;
+    loved: number;
+    disliked: number;
+    blocked: number;
+    hitRate: number | null;   // Loved share of the rated discoveries, null when none were rated
+  };
+  mostSkipped: SkippedTrack[];
+  highlights: string[];
+}
+
+export interface ReportOptions {
+  now?: () => number;
+  complete?: (request: LLMRequest) => Promise<LLMResponse>;   // Omit for highlights without an LLM
+  model?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REPORT_CACHE_TTL = 6 * 60 * 60;   // Seconds
+
+const PERIOD_DAYS: Record<ReportPeriod, number> = { week: 7, month: 30, year: 365 };
+
+// Spotify's top lists that best match each period, and the longer view genre shifts are measured against
+const PERIOD_RANGES: Record<ReportPeriod, { current: TimeRange; baseline: TimeRange }> = {
+  week: { current: 'short_term', baseline: 'medium_term' },
+  month: { current: 'short_term', baseline: 'long_term' },
+  year: { current: 'medium_term', baseline: 'long_term' }
+};
+
+export function isReportPeriod(value: any): value is ReportPeriod {
+  return REPORT_PERIODS.includes(value);
+}
+
+/**
+ * Personal "Wrapped"-style report for the last week, month or year: top
+ * artists and tracks, genre shifts, how well AI discoveries landed, the tracks
+ * skipped most and a few LLM-written highlights. Reports are cached for a few
+ * hours since the highlights cost an LLM call.
+ */
+export class ListeningReportService {
+  private now: () => number;
+
+  constructor(
+    private redis: any,
+    private userData: UserDataService,
+    private userId: string,
+    private options: ReportOptions = {}
+  ) {
+    this.now = options.now ?? Date.now;
+  }
+
+  async getReport(period: ReportPeriod, forceRefresh = false): Promise<ListeningReport> {
+    const cacheKey = `user:${this.userId}:report:${period}`;
+    if (!forceRefresh) {
+      const cached = await this.redis?.get(cacheKey);
+      if (cached) {
+        return JSON.parse(cached);
+      }
+    }
+
+    const report = await this.generate(period);
+    await this.redis?.setEx(cacheKey, REPORT_CACHE_TTL, JSON.stringify(report));
+    return report;
+  }
+
+  async generate(period: ReportPeriod): Promise<ListeningReport> {
+    const to = this.now();
+    const from = to - PERIOD_DAYS[period] * DAY_MS;
+    const ranges = PERIOD_RANGES[period];
+
+    const [profile, plays, currentArtists, baselineArtists, currentTracks, feedback] = await Promise.all([
+      this.userData.getUserProfile().catch(() => null),
+      this.userData.getListeningHistory(from, to, 10000),
+      this.userData.getTopArtists(ranges.current),
+      this.userData.getTopArtists(ranges.baseline),
+      this.userData.getTopTracks(ranges.current),
+      this.userData.getAIFeedbackDashboard()
+    ]);
+
+    const fromHistory = plays.length > 0;
+    const summary = summarizeHistory(plays, 10);
+    const imageFor = (name: string) => currentArtists.find(a => a.name === name)?.images?.[0]?.url;
+
+    const report: ListeningReport = {
+      period,
+      from: new Date(from).toISOString(),
+      to: new Date(to).toISOString(),
+      generatedAt: new Date(to).toISOString(),
+      displayName: profile?.display_name || null,
+      source: fromHistory ? 'history' : 'spotify_top',
+      listening: { plays: summary.plays, minutes: summary.minutes },
+      topArtists: fromHistory
+        ? summary.topArtists.map(a => ({ name: a.name, plays: a.plays, ...(imageFor(a.name) && { imageUrl: imageFor(a.name) }) }))
+        : currentArtists.slice(0, 10).map(a => ({ name: a.name, ...(a.images?.[0]?.url && { imageUrl: a.images[0].url }) })),
+      topTracks: fromHistory
+        ? summary.topTracks
+        : currentTracks.slice(0, 10).map(t => ({ name: t.name, artist: t.artists.map(a => a.name).join(', '), uri: t.uri })),
+      genres: compareGenres(currentArtists, baselineArtists),
+      aiDiscoveries: discoveryStats(feedback, from, to),
+      mostSkipped: findLikelySkips(plays),
+      highlights: []
+    };
+
+    report.highlights = await this.writeHighlights(report);
+    return report;
+  }
+
+  private async writeHighlights(report: ListeningReport): Promise<string[]> {
+    if (!this.options.complete) {
+      return basicHighlights(report);
+    }
+
+    try {
+      const response = await this.options.complete({
+        messages: [
+          {
+            role: 'system',
+            content: 'You write short, upbeat highlights for a personal music listening recap, like Spotify Wrapped. Only use facts from the data given. Respond with JSON: {"highlights": ["...", "..."]} containing 3 to 5 highlights of at most 25 words each.'
+          },
+          { role: 'user', content: `Listening data for the last ${report.period}:\n${JSON.stringify(reportFacts(report))}` }
+        ],
+        ...(this.options.model && { model: this.options.model }),
+        temperature: 0.8,
+        response_format: { type: 'json_object' },
+        skipValidation: true
+      });
+
+      const parsed = typeof response.content === 'string' ? JSON.parse(response.content) : response.content;
+      const highlights = Array.isArray(parsed?.highlights)
+        ? parsed.highlights.filter((h: any) => typeof h === 'string' && h.trim()).map((h: string) => h.trim()).slice(0, 5)
+        : [];
+      return highlights.length > 0 ? highlights : basicHighlights(report);
+    } catch (error) {
+      console.error('[REPORT] Failed to write highlights:', error);
+      return basicHighlights(report);
+    }
+  }
+}
+
+// Just what the LLM needs - keeps the prompt small
+function reportFacts(report: ListeningReport) {
+  return {
+    plays: report.listening.plays,
+    minutes: report.listening.minutes,
+    topArtists: report.topArtists.slice(0, 5).map(a => ({ name: a.name, plays: a.plays })),
+    topTracks: report.topTracks.slice(0, 5).map(t => ({ name: t.name, artist: t.artist, plays: t.plays })),
+    risingGenres: report.genres.rising.map(g => g.genre),
+    fadingGenres: report.genres.fading.map(g => g.genre),
+    aiDiscoveries: report.aiDiscoveries,
+    mostSkipped: report.mostSkipped.slice(0, 3).map(t => `${t.name} by ${t.artist}`)
+  };
+}
+
+function basicHighlights(report: ListeningReport): string[] {
+  const highlights: string[] = [];
+  const [artist] = report.topArtists;
+  const [track] = report.topTracks;
+
+  if (report.listening.plays > 0) {
+    highlights.push(`You played ${report.listening.plays} tracks - about ${Math.round(report.listening.minutes / 60)} hours of music.`);
+  }
+  if (artist) {
+    highlights.push(`${artist.name} was your top artist${artist.plays ? ` with ${artist.plays} plays` : ''}.`);
+  }
+  if (track) {
+    highlights.push(`Your top track was "${track.name}" by ${track.artist}.`);
+  }
+  if (report.genres.rising[0]) {
+    highlights.push(`You've been getting into ${report.genres.rising[0].genre}.`);
+  }
+  if (report.aiDiscoveries.hitRate !== null) {
+    highlights.push(`You loved ${Math.round(report.aiDiscoveries.hitRate * 100)}% of the AI discoveries you rated.`);
+  }
+  return highlights;
+}
+
+// Rank-weighted genre shares, like the taste profile
+function genreShares(artists: SpotifyArtist[]): Map<string, number> {
+  const weights = new Map<string, number>();
+  let total = 0;
+  artists.forEach((artist, index) => {
+    const weight = artists.length - index;
+    for (const genre of artist.genres || []) {
+      weights.set(genre, (weights.get(genre) || 0) + weight);
+      total += weight;
+    }
+  });
+
+  const shares = new Map<string, number>();
+  weights.forEach((weight, genre) => shares.set(genre, total > 0 ? (weight / total) * 100 : 0));
+  return shares;
+}
+
+/**
+ * Top genres for the period and which ones grew or shrank against the longer view
+ */
+export function compareGenres(current: SpotifyArtist[], baseline: SpotifyArtist[], limit: number = 5): ListeningReport['genres'] {
+  const now = genreShares(current);
+  const before = genreShares(baseline);
+  const round = (n: number) => Math.round(n * 10) / 10;
+
+  const shifts: GenreShift[] = [...new Set([...now.keys(), ...before.keys()])].map(genre => ({
+    genre,
+    share: round(now.get(genre) || 0),
+    change: round((now.get(genre) || 0) - (before.get(genre) || 0))
+  }));
+
+  return {
+    top: shifts.filter(s => s.share > 0).sort((a, b) => b.share - a.share).slice(0, limit),
+    rising: shifts.filter(s => s.change >= 1).sort((a, b) => b.change - a.change).slice(0, limit),
+    fading: shifts.filter(s => s.change <= -1).sort((a, b) => a.change - b.change).slice(0, limit)
+  };
+}
+
+function discoveryStats(
+  feedback: { discoveries: AIDiscoveredTrack[]; loved: AIDiscoveredTrack[]; disliked: AIDiscoveredTrack[]; blocked: AIDiscoveredTrack[] },
+  from: number,
+  to: number
+): ListeningReport['aiDiscoveries'] {
+  const inPeriod = (time: number | undefined) => typeof time === 'number' && time >= from && time <= to;
+  const rated = (tracks: AIDiscoveredTrack[]) => tracks.filter(t => inPeriod(t.feedbackAt ?? t.discoveredAt)).length;
+
+  const loved = rated(feedback.loved);
+  const disliked = rated(feedback.disliked);
+  const blocked = rated(feedback.blocked);
+  const total = loved + disliked + blocked;
+
+  return {
+    // Alternatives were only offered, not played
+    discovered: feedback.discoveries.filter(t => inPeriod(t.discoveredAt) && t.provenance?.source !== 'alternative').length,
+    loved,
+    disliked,
+    blocked,
+    hitRate: total > 0 ? Math.round((loved / total) * 100) / 100 : null
+  };
+}
+
+/**
+ * Tracks that were cut short, going by the history: Spotify stamps a play
+ * when it ends, so a track whose play ended well before its full length after
+ * the previous one was skipped.
+ */
+export function findLikelySkips(plays: HistoryPlay[], limit: number = 5): SkippedTrack[] {
+  const ordered = [...plays].sort((a, b) => Date.parse(a.played_at) - Date.parse(b.played_at));
+  const skips = new Map<string, SkippedTrack>();
+
+  for (let i = 1; i < ordered.length; i++) {
+    const { track } = ordered[i];
+    const listenedMs = Date.parse(ordered[i].played_at) - Date.parse(ordered[i - 1].played_at);
+    if (!track.duration_ms || listenedMs >= track.duration_ms / 2) {
+      continue;
+    }
+
+    const existing = skips.get(track.uri);
+    if (existing) {
+      existing.skips++;
+    } else {
+      skips.set(track.uri, { name: track.name, artist: track.artists.map(a => a.name).join(', '), uri: track.uri, skips: 1 });
+    }
+  }
+
+  return [...skips.values()].sort((a, b) => b.skips - a.skips).slice(0, limit);
+}
+
+const escapeHtml = (value: any) => String(value ?? '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+/**
+ * The report as a standalone HTML page (inline styles, no scripts)
+ */
+export function renderReportHtml(report: ListeningReport): string {
+  const date = (iso: string) => new Date(iso).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  const list = (items: string[]) => items.length > 0
+    ? `<ol>${items.map(item => `<li>${item}</li>`).join('')}</ol>`
+    : '<p class="muted">Nothing yet</p>';
+  const shift = (s: GenreShift) => `${escapeHtml(s.genre)} <span class="muted">${s.change > 0 ? '+' : ''}${s.change} pts</span>`;
+  const ai = report.aiDiscoveries;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Your ${escapeHtml(report.period)} in music - DJ Forge</title>
+<style>
+  body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; background: #09090b; color: #e4e4e7; margin: 0; padding: 32px 16px; }
+  main { max-width: 760px; margin: 0 auto; }
+  h1 { font-size: 32px; margin: 0 0 4px; color: #22c55e; }
+  h2 { font-size: 18px; margin: 0 0 12px; }
+  section { background: #18181b; border-radius: 12px; padding: 20px 24px; margin-top: 16px; }
+  .muted { color: #a1a1aa; font-size: 14px; }
+  .stats { display: flex; gap: 32px; flex-wrap: wrap; }
+  .stat strong { display: block; font-size: 28px; color: #fff; }
+  ol, ul { margin: 0; padding-left: 20px; line-height: 1.8; }
+  .columns { display: grid; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); gap: 16px; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Your ${escapeHtml(report.period)} in music</h1>
+  <p class="muted">${escapeHtml(report.displayName || 'DJ Forge listener')} &middot; ${date(report.from)} - ${date(report.to)}</p>
+
+  <section>
+    <h2>Highlights</h2>
+    <ul>${report.highlights.map(h => `<li>${escapeHtml(h)}</li>`).join('')}</ul>
+  </section>
+
+  <section class="stats">
+    <div class="stat"><strong>${report.listening.plays}</strong><span class="muted">plays</span></div>
+    <div class="stat"><strong>${Math.round(report.listening.minutes / 60)}</strong><span class="muted">hours</span></div>
+    <div class="stat"><strong>${ai.hitRate === null ? '-' : `${Math.round(ai.hitRate * 100)}%`}</strong><span class="muted">AI discovery hit rate (${ai.loved} loved, ${ai.disliked + ai.blocked} missed)</span></div>
+  </section>
+
+  <section class="columns">
+    <div>
+      <h2>Top artists</h2>
+      ${list(report.topArtists.map(a => `${escapeHtml(a.name)}${a.plays ? ` <span class="muted">${a.plays} plays</span>` : ''}`))}
+    </div>
+    <div>
+      <h2>Top tracks</h2>
+      ${list(report.topTracks.map(t => `${escapeHtml(t.name)} <span class="muted">${escapeHtml(t.artist)}</span>`))}
+    </div>
+  </section>
+
+  <section class="columns">
+    <div>
+      <h2>Top genres</h2>
+      ${list(report.genres.top.map(g => `${escapeHtml(g.genre)} <span class="muted">${g.share}%</span>`))}
+    </div>
+    <div>
+      <h2>Genre shifts</h2>
+      ${list([...report.genres.rising, ...report.genres.fading].map(shift))}
+    </div>
+  </section>
+
+  <section>
+    <h2>Most skipped</h2>
+    ${list(report.mostSkipped.map(t => `${escapeHtml(t.name)} <span class="muted">${escapeHtml(t.artist)} &middot; ${t.skips}x</span>`))}
+  </section>
+
+  <p class="muted">Generated ${date(report.generatedAt)} by DJ Forge</p>
+</main>
+</body>
+</html>`;
+}
@@ -0,0 +1,310 @@
+import { SpotifyControl } from '../spotify/control';
+import { normalizeText } from './TrackResolver';
+import { isFamilyModeActive } from './FamilyModeService';
+
+export interface BlockedTrackRule {
+  uri?: string;            // Exact recording; name/artist also catch other releases of the song
+  name: string;
+  artist?: string;
+}
+
+export interface EraRule {
+  fromYear: number;
+  toYear: number;
+}
+
+export interface ListeningRules {
+  blockedArtists: string[];
+  blockedTracks: BlockedTrackRule[];
+  explicitFilter: boolean;
+  blockedGenres: string[];
+  blockedEras: EraRule[];
+  updatedAt?: number;
+}
+
+export type ListeningRuleType = 'artist' | 'track' | 'explicit' | 'genre' | 'era';
+
+export interface RuleViolation {
+  rule: ListeningRuleType;
+  reason: string;          // Fits "Skipped X by Y (<reason>)"
+}
+
+export const EMPTY_LISTENING_RULES: ListeningRules = {
+  blockedArtists: [],
+  blockedTracks: [],
+  explicitFilter: false,
+  blockedGenres: [],
+  blockedEras: []
+};
+
+// Keep the rule set small enough to check on every play
+const MAX_RULES_PER_LIST = 200;
+const MIN_YEAR = 1900;
+const MAX_YEAR = 2100;
+
+/**
+ * Per-user hard exclusion rules: blocked artists, tracks, genres and eras plus
+ * an explicit-content filter.
+ *
+ * Unlike taste-profile hints these are enforced by SpotifyControl on every play
+ * and queue path (see applyListeningRules), so a blocked artist never plays no
+ * matter what the LLM suggests. Tracks blocked through AI discovery feedback
+ * are enforced as blocked tracks too.
+ */
+export class ListeningRulesService {
+  private redisClient: any = null;
+
+  constructor(redisClient: any) {
+    this.redisClient = redisClient;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private rulesKey(userId: string): string {
+    return `user:${userId}:listening_rules`;
+  }
+
+  /**
+   * The rules the user manages in settings
+   */
+  async getRules(userId: string): Promise<ListeningRules> {
+    if (!this.redisClient) {
+      return normalizeListeningRules({});
+    }
+
+    const raw = await this.redisClient.get(this.rulesKey(userId));
+    if (!raw) {
+      return normalizeListeningRules({});
+    }
+
+    try {
+      return normalizeListeningRules(JSON.parse(raw));
+    } catch {
+      return normalizeListeningRules({});
+    }
+  }
+
+  async saveRules(userId: string, rules: Partial<ListeningRules>): Promise<ListeningRules> {
+    if (!this.redisClient) {
+      throw new Error('Listening rules are unavailable (Redis not connected)');
+    }
+
+    const normalized = { ...normalizeListeningRules(rules), updatedAt: Date.now() };
+    await this.redisClient.set(this.rulesKey(userId), JSON.stringify(normalized));
+    console.log(`[LISTENING RULES] Saved rules for user ${userId}`);
+    return normalized;
+  }
+
+  /**
+   * User rules plus tracks blocked through AI discovery feedback
+   */
+  async getEnforcedRules(userId: string): Promise<ListeningRules> {
+    const rules = await this.getRules(userId);
+    if (!this.redisClient) {
+      return rules;
+    }
+
+    try {
+      const members: string[] = await this.redisClient.zRange(`user:${userId}:ai_blocked`, 0, -1);
+      for (const member of members) {
+        const blocked = JSON.parse(member);
+        if (blocked?.trackUri) {
+          rules.blockedTracks.push({
+            uri: blocked.trackUri,
+            name: blocked.trackName || blocked.trackUri,
+            // Discoveries store "A, B" - the lead artist is enough to catch re-releases
+            ...(blocked.artist && { artist: String(blocked.artist).split(', ')[0] })
+          });
+        }
+      }
+    } catch (error) {
+      console.error('[LISTENING RULES] Failed to read blocked feedback:', error);
+    }
+
+    return rules;
+  }
+}
+
+const uniqueStrings = (values: any): string[] => {
+  if (!Array.isArray(values)) return [];
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    if (typeof value !== 'string' || !value.trim()) continue;
+    const key = normalizeText(value);
+    if (!seen.has(key)) {
+      seen.add(key);
+      result.push(value.trim());
+    }
+  }
+  return result.slice(0, MAX_RULES_PER_LIST);
+};
+
+/**
+ * Clean up rules from the client or Redis: trims, dedupes and drops invalid entries
+ */
+export function normalizeListeningRules(raw: any): ListeningRules {
+  const blockedTracks: BlockedTrackRule[] = Array.isArray(raw?.blockedTracks)
+    ? raw.blockedTracks
+        .filter((t: any) => typeof t?.name === 'string' && t.name.trim())
+        .map((t: any) => ({
+          ...(typeof t.uri === 'string' && t.uri.startsWith('spotify:track:') && { uri: t.uri }),
+          name: t.name.trim(),
+          ...(typeof t.artist === 'string' && t.artist.trim() && { artist: t.artist.trim() })
+        }))
+        .slice(0, MAX_RULES_PER_LIST)
+    : [];
+
+  const blockedEras: EraRule[] = Array.isArray(raw?.blockedEras)
+    ? raw.blockedEras
+        .map((era: any) => ({ fromYear: Math.round(Number(era?.fromYear)), toYear: Math.round(Number(era?.toYear)) }))
+        .filter((era: EraRule) =>
+          era.fromYear >= MIN_YEAR && era.toYear <= MAX_YEAR && era.fromYear <= era.toYear)
+        .slice(0, MAX_RULES_PER_LIST)
+    : [];
+
+  return {
+    blockedArtists: uniqueStrings(raw?.blockedArtists),
+    blockedTracks,
+    explicitFilter: raw?.explicitFilter === true,
+    blockedGenres: uniqueStrings(raw?.blockedGenres),
+    blockedEras,
+    ...(typeof raw?.updatedAt === 'number' && { updatedAt: raw.updatedAt })
+  };
+}
+
+export function hasActiveRules(rules: ListeningRules | null): boolean {
+  return !!rules && (
+    rules.explicitFilter ||
+    rules.blockedArtists.length > 0 ||
+    rules.blockedTracks.length > 0 ||
+    rules.blockedGenres.length > 0 ||
+    rules.blockedEras.length > 0
+  );
+}
+
+// Genres live on Spotify artists, not tracks - only look them up when a genre is blocked
+export function needsArtistGenres(rules: ListeningRules | null): boolean {
+  return !!rules && rules.blockedGenres.length > 0;
+}
+
+function describeEra(era: EraRule): string {
+  if (era.fromYear % 10 === 0 && era.toYear === era.fromYear + 9) {
+    return `the ${era.fromYear}s`;
+  }
+  return era.fromYear === era.toYear ? `${era.fromYear}` : `${era.fromYear}-${era.toYear}`;
+}
+
+/**
+ * Why the rules don't allow a track, or null when they do. Missing track
+ * data (e.g. no album on album tracks) never blocks.
+ */
+export function checkTrackAgainstRules(track: any, rules: ListeningRules, artistGenres: string[] = []): RuleViolation | null {
+  if (!track) return null;
+
+  const artists: string[] = (track.artists || []).map((a: any) => a?.name).filter(Boolean);
+  const normalizedArtists = artists.map(normalizeText);
+  const title = normalizeText(track.name || '');
+
+  for (const blocked of rules.blockedArtists) {
+    const index = normalizedArtists.indexOf(normalizeText(blocked));
+    if (index >= 0) {
+      return { rule: 'artist', reason: `you've blocked ${artists[index]}` };
+    }
+  }
+
+  for (const blocked of rules.blockedTracks) {
+    const sameUri = !!blocked.uri && blocked.uri === track.uri;
+    // A title alone only blocks when no exact recording was given
+    const sameSong = normalizeText(blocked.name) === title && (blocked.artist
+      ? normalizedArtists.includes(normalizeText(blocked.artist))
+      : !blocked.uri);
+    if (sameUri || sameSong) {
+      return { rule: 'track', reason: 'you\'ve blocked this song' };
+    }
+  }
+
+  if (rules.explicitFilter && track.explicit === true) {
+    return { rule: 'explicit', reason: 'explicit content is filtered' };
+  }
+
+  if (rules.blockedGenres.length > 0 && artistGenres.length > 0) {
+    const genres = artistGenres.map(normalizeText);
+    for (const blocked of rules.blockedGenres) {
+      // "metal" also blocks "death metal", but not the other way round
+      const needle = normalizeText(blocked);
+      if (genres.some(genre => ` ${genre} `.includes(` ${needle} `))) {
+        return { rule: 'genre', reason: `you've blocked ${blocked}` };
+      }
+    }
+  }
+
+  const year = parseInt(track.album?.release_date?.slice(0, 4) || '', 10);
+  if (!isNaN(year)) {
+    const era = rules.blockedEras.find(e => year >= e.fromYear && year <= e.toYear);
+    if (era) {
+      return { rule: 'era', reason: `you've blocked music from ${describeEra(era)}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * User-facing note for a track the rules kept from playing
+ */
+export function describeSkipped(track: any, violation: RuleViolation): string {
+  const artists = (track?.artists || []).map((a: any) => a?.name).filter(Boolean).join(', ');
+  return `Skipped "${track?.name || 'that track'}"${artists ? ` by ${artists}` : ''} (${violation.reason})`;
+}
+
+let sharedListeningRules: ListeningRulesService | null = null;
+
+/**
+ * Get the shared listening rules service (pass the Redis client on first use)
+ */
+export function getListeningRulesService(redisClient?: any): ListeningRulesService {
+  if (!sharedListeningRules) {
+    sharedListeningRules = new ListeningRulesService(redisClient);
+  } else if (redisClient && !sharedListeningRules.isAvailable()) {
+    sharedListeningRules.setRedisClient(redisClient);
+  }
+
+  return sharedListeningRules;
+}
+
+/**
+ * Load the user's rules into a SpotifyControl so its play and queue paths enforce
+ * them. Family mode forces the explicit filter on; pass familyMode when the caller
+ * already knows it, otherwise it's looked up.
+ */
+export async function applyListeningRules(control: SpotifyControl, userId: string | null | undefined, familyMode?: boolean): Promise<void> {
+  if (!userId) {
+    return;
+  }
+
+  const familyModeActive = familyMode ?? await isFamilyModeActive(control, userId);
+  control.setFamilyMode(familyModeActive);
+
+  const service = getListeningRulesService();
+  let rules = normalizeListeningRules({});
+  if (service.isAvailable()) {
+    try {
+      rules = await service.getEnforcedRules(userId);
+    } catch (error) {
+      // Rules that can't be loaded shouldn't stop playback altogether
+      console.error('[LISTENING RULES] Failed to load rules:', error);
+    }
+  }
+
+  if (familyModeActive) {
+    rules = { ...rules, explicitFilter: true };
+  }
+  control.setListeningRules(hasActiveRules(rules) ? rules : null);
+}
@@ -0,0 +1,172 @@
+import { SpotifyControl, PlaybackSnapshot } from '../spotify/control';
+
+// Intents that change what's playing (or how) and therefore get a snapshot first.
+// Queueing is left out: Spotify can't remove a queued track, so it can't be undone.
+export const MUTATING_INTENTS = [
+  'play_specific_song',
+  'play_playlist',
+  'play',
+  'resume',
+  'pause',
+  'skip',
+  'next',
+  'previous',
+  'back',
+  'set_volume',
+  'set_shuffle',
+  'set_repeat',
+  'clear_queue',
+  'multi_step_plan'
+];
+
+const DEFAULT_HISTORY_SIZE = 10;
+const SNAPSHOT_TTL_SECONDS = 86400; // Undo only makes sense for recent actions
+
+/**
+ * Keeps the last N playback snapshots per user in Redis so that
+ * "undo that" can put playback back the way it was.
+ */
+export class PlaybackUndoService {
+  private redisClient: any = null;
+  private historySize: number;
+
+  constructor(redisClient: any, historySize: number = parseInt(process.env.UNDO_HISTORY_SIZE || '', 10) || DEFAULT_HISTORY_SIZE) {
+    this.redisClient = redisClient;
+    this.historySize = historySize;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private key(userId: string): string {
+    return `user:${userId}:playback_snapshots`;
+  }
+
+  /**
+   * Snapshot playback before running a command. Failures are logged and
+   * swallowed - an unavailable undo must never block the command itself.
+   */
+  async recordBeforeCommand(
+    userId: string,
+    spotifyControl: SpotifyControl,
+    meta: { command?: string; intent?: string }
+  ): Promise<PlaybackSnapshot | null> {
+    if (!this.redisClient) return null;
+
+    try {
+      const snapshot = await spotifyControl.capturePlaybackSnapshot(meta);
+      if (!snapshot) return null;
+
+      const key = this.key(userId);
+      await this.redisClient.lPush(key, JSON.stringify(snapshot));
+      await this.redisClient.lTrim(key, 0, this.historySize - 1);
+      await this.redisClient.expire(key, SNAPSHOT_TTL_SECONDS);
+      return snapshot;
+    } catch (error) {
+      console.error('Error recording playback snapshot:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Run a playback change made outside the interpreter (control buttons,
+   * direct actions, scheduled actions) behind an undo point, so "undo"
+   * reverts it rather than an older command. The undo point is dropped again
+   * when the change throws or `succeeded` says it failed.
+   */
+  async withUndoPoint<T>(
+    userId: string | null | undefined,
+    spotifyControl: SpotifyControl,
+    meta: { command?: string; intent?: string },
+    change: () => Promise<T>,
+    succeeded: (result: T) => boolean = () => true
+  ): Promise<T> {
+    const snapshot = userId ? await this.recordBeforeCommand(userId, spotifyControl, meta) : null;
+
+    let result: T;
+    try {
+      result = await change();
+    } catch (error) {
+      if (userId && snapshot) await this.discard(userId, snapshot);
+      throw error;
+    }
+
+    if (userId && snapshot && !succeeded(result)) {
+      await this.discard(userId, snapshot);
+    }
+    return result;
+  }
+
+  /**
+   * Drop a snapshot recorded for a command that then failed, so it doesn't
+   * replace the previous command's undo point
+   */
+  async discard(userId: string, snapshot: PlaybackSnapshot): Promise<void> {
+    if (!this.redisClient) return;
+
+    try {
+      await this.redisClient.lRem(this.key(userId), 1, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Error discarding playback snapshot:', error);
+    }
+  }
+
+  /**
+   * Most recent snapshots first
+   */
+  async getSnapshots(userId: string, limit: number = this.historySize): Promise<PlaybackSnapshot[]> {
+    if (!this.redisClient) return [];
+
+    try {
+      const entries: string[] = await this.redisClient.lRange(this.key(userId), 0, limit - 1);
+      return entries.map(entry => JSON.parse(entry));
+    } catch (error) {
+      console.error('Error reading playback snapshots:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Restore the most recent snapshot and drop it from the history.
+   * The snapshot is put back if the restore fails so the user can retry.
+   */
+  async undo(userId: string, spotifyControl: SpotifyControl): Promise<{ success: boolean; message: string; snapshot?: PlaybackSnapshot }> {
+    if (!this.redisClient) {
+      return { success: false, message: 'Undo is not available right now' };
+    }
+
+    const key = this.key(userId);
+    const entry = await this.redisClient.lPop(key);
+    if (!entry) {
+      return { success: false, message: 'Nothing to undo' };
+    }
+
+    const snapshot: PlaybackSnapshot = JSON.parse(entry);
+    const result = await spotifyControl.restorePlaybackSnapshot(snapshot);
+    if (!result.success) {
+      await this.redisClient.lPush(key, entry);
+    }
+
+    return { ...result, snapshot };
+  }
+}
+
+let sharedUndoService: PlaybackUndoService | null = null;
+
+/**
+ * Get the shared undo service (pass the Redis client on first use)
+ */
+export function getPlaybackUndoService(redisClient?: any): PlaybackUndoService {
+  if (!sharedUndoService) {
+    sharedUndoService = new PlaybackUndoService(redisClient);
+  } else if (redisClient && !sharedUndoService.isAvailable()) {
+    sharedUndoService.setRedisClient(redisClient);
+  }
+
+  return sharedUndoService;
+}
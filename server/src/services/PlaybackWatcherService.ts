@@ -0,0 +1,407 @@
+import { MusicBackend } from '../spotify/backend';
+import { PlaybackState } from '../spotify/api';
+import { createSessionBackend } from '../auth/session-tokens';
+import { MusicWebSocketService, PlaybackWatcherHooks } from './musicWebSocket.service';
+
+// Track payload in the same shape as GET /api/control/current-track
+export interface WatchedTrack {
+  name: string;
+  artist: string;
+  album: string;
+  albumArt: string | null;
+  duration: number;      // seconds
+  position: number;      // seconds
+  id: string;
+  uri: string;
+}
+
+export interface WatchedPlaybackState {
+  isPlaying: boolean;
+  track: WatchedTrack | null;
+  positionMs: number;
+  durationMs: number;
+  device: string;        // device name
+  deviceId: string | null;
+  contextUri: string | null;  // playlist/album/artist being played, if any
+  shuffleState: boolean;
+  repeatState: 'off' | 'track' | 'context';
+  volume: number;
+  observedAt: number;
+}
+
+interface WatchedUser {
+  sessionId: string;
+  timer: NodeJS.Timeout | null;
+  lastState: WatchedPlaybackState | null;
+  failures: number;
+  polling: boolean;
+}
+
+// Runs after every successful poll, e.g. to feed the shadow queue before a track ends
+export type PlaybackPollListener = (userId: string, state: WatchedPlaybackState, backend: MusicBackend) => Promise<unknown>;
+
+// Runs when a poll sees a different track than the last one, e.g. to learn from skips
+export type TrackChangeListener = (
+  userId: string,
+  previous: WatchedPlaybackState,
+  current: WatchedPlaybackState,
+  backend: MusicBackend
+) => Promise<unknown>;
+
+// Runs when we stop watching a user because their last socket closed, e.g. to
+// hand Spotify whatever the poll listeners would otherwise have fed it later
+export type StopWatchingListener = (userId: string, backend: MusicBackend) => Promise<unknown>;
+
+export interface PlaybackWatcherOptions {
+  now?: () => number;
+  backendFactory?: (sessionId: string) => Promise<MusicBackend | null>;
+  emitter?: () => Pick<MusicWebSocketService,
+    'emitPlaybackStateChange' | 'emitTrackChange' | 'emitVolumeChanged' | 'emitDeviceChanged'> | null;
+}
+
+// A seek shows up as the position drifting this far from where it should be
+const SEEK_TOLERANCE_MS = 3000;
+const IDLE_INTERVAL_MS = 60000;
+const PAUSED_INTERVAL_MS = 20000;
+const PLAYING_INTERVAL_MS = 15000;
+const MAX_BACKOFF_MS = 5 * 60 * 1000;
+// Don't poll faster than this even right before a track ends
+const MIN_INTERVAL_MS = 1000;
+// Every track gets one poll inside its last TRACK_END_LEAD_MS so listeners can act before it ends
+export const TRACK_END_LEAD_MS = 10000;
+
+/**
+ * Watches Spotify playback for users with an open /music socket, so changes
+ * made anywhere (phone app, desktop client, another tab) reach the UI as
+ * playbackStateChanged / trackChanged / volumeChanged / deviceChanged events.
+ *
+ * Each watched user has their own poll loop. The interval adapts to what is
+ * happening: frequent near the end of a track, slower while paused, and slow
+ * with exponential backoff when nothing is active or Spotify errors.
+ */
+export class PlaybackWatcherService implements PlaybackWatcherHooks {
+  private users = new Map<string, WatchedUser>();
+  private now: () => number;
+  private backendFactory: (sessionId: string) => Promise<MusicBackend | null>;
+  private emitter: NonNullable<PlaybackWatcherOptions['emitter']>;
+  private pollListeners: PlaybackPollListener[] = [];
+  private trackChangeListeners: TrackChangeListener[] = [];
+  private stopWatchingListeners: StopWatchingListener[] = [];
+
+  constructor(options: PlaybackWatcherOptions = {}) {
+    this.now = options.now ?? Date.now;
+    this.backendFactory = options.backendFactory ?? createSessionBackend;
+    this.emitter = options.emitter ?? (() => MusicWebSocketService.getInstance());
+  }
+
+  /**
+   * First socket for a user connected - start watching
+   */
+  userConnected(userId: string, sessionId: string): void {
+    const existing = this.users.get(userId);
+    if (existing) {
+      existing.sessionId = sessionId;
+      return;
+    }
+
+    this.users.set(userId, { sessionId, timer: null, lastState: null, failures: 0, polling: false });
+    this.schedule(userId, 0);
+  }
+
+  /**
+   * Last socket for a user disconnected - stop watching
+   */
+  userDisconnected(userId: string): void {
+    const watched = this.unwatch(userId);
+    if (watched && this.stopWatchingListeners.length > 0) {
+      this.notifyStopWatching(userId, watched.sessionId)
+        .catch(error => console.error('[PLAYBACK WATCH] Unexpected stop listener error:', error));
+    }
+  }
+
+  /**
+   * Current state for requestPlaybackSync. Polls immediately (and emits any
+   * changes) so the answer is fresh.
+   */
+  async requestSync(userId: string): Promise<ReturnType<typeof toPlaybackStatePayload> | null> {
+    if (!this.users.has(userId)) return null;
+    await this.poll(userId);
+    const state = this.users.get(userId)?.lastState;
+    return state ? toPlaybackStatePayload(state) : null;
+  }
+
+  /**
+   * Poll soon - call after we changed playback ourselves
+   */
+  nudge(userId: string, delayMs: number = MIN_INTERVAL_MS): void {
+    if (this.users.has(userId)) {
+      this.schedule(userId, delayMs);
+    }
+  }
+
+  onPoll(listener: PlaybackPollListener): void {
+    this.pollListeners.push(listener);
+  }
+
+  onTrackChange(listener: TrackChangeListener): void {
+    this.trackChangeListeners.push(listener);
+  }
+
+  onStopWatching(listener: StopWatchingListener): void {
+    this.stopWatchingListeners.push(listener);
+  }
+
+  isWatching(userId: string): boolean {
+    return this.users.has(userId);
+  }
+
+  getWatchedUserCount(): number {
+    return this.users.size;
+  }
+
+  /**
+   * Stop every poll loop (server shutdown). Stop listeners don't run - users
+   * are picked up again when their sockets reconnect.
+   */
+  stop(): void {
+    for (const userId of [...this.users.keys()]) {
+      this.unwatch(userId);
+    }
+  }
+
+  /**
+   * Fetch playback once, emit whatever changed, and schedule the next poll.
+   * Returns the delay until the next poll.
+   */
+  async poll(userId: string): Promise<number> {
+    const watched = this.users.get(userId);
+    if (!watched) return -1;
+    // requestSync and the timer can overlap - one request at a time per user
+    if (watched.polling) return -1;
+
+    watched.polling = true;
+    let delay: number;
+    try {
+      const backend = await this.backendFactory(watched.sessionId);
+      if (!backend) {
+        // Session is gone - nothing left to watch, or to hand over to Spotify
+        this.unwatch(userId);
+        return -1;
+      }
+
+      const playback = await backend.getCurrentPlayback();
+      const state = toWatchedPlaybackState(playback, this.now());
+      const previous = watched.lastState;
+      this.emitChanges(userId, previous, state);
+      watched.lastState = state;
+      watched.failures = 0;
+      delay = nextPollDelay(state);
+
+      for (const listener of this.pollListeners) {
+        try {
+          await listener(userId, state, backend);
+        } catch (error: any) {
+          console.error(`[PLAYBACK WATCH] Poll listener failed for user ${userId}:`, error?.message);
+        }
+      }
+
+      if (previous?.track && previous.track.uri !== state.track?.uri) {
+        for (const listener of this.trackChangeListeners) {
+          try {
+            await listener(userId, previous, state, backend);
+          } catch (error: any) {
+            console.error(`[PLAYBACK WATCH] Track change listener failed for user ${userId}:`, error?.message);
+          }
+        }
+      }
+    } catch (error: any) {
+      watched.failures++;
+      const retryAfterSeconds = parseInt(error?.response?.headers?.['retry-after'] || '', 10);
+      delay = retryAfterSeconds > 0
+        ? retryAfterSeconds * 1000
+        : Math.min(PLAYING_INTERVAL_MS * 2 ** watched.failures, MAX_BACKOFF_MS);
+      console.warn(`[PLAYBACK WATCH] Poll failed for user ${userId} (attempt ${watched.failures}), retrying in ${delay}ms:`, error?.message);
+    } finally {
+      watched.polling = false;
+    }
+
+    if (this.users.get(userId) === watched) {
+      this.schedule(userId, delay);
+    }
+    return delay;
+  }
+
+  private unwatch(userId: string): WatchedUser | null {
+    const watched = this.users.get(userId);
+    if (!watched) return null;
+
+    if (watched.timer) {
+      clearTimeout(watched.timer);
+    }
+    this.users.delete(userId);
+    return watched;
+  }
+
+  private async notifyStopWatching(userId: string, sessionId: string): Promise<void> {
+    const backend = await this.backendFactory(sessionId);
+    if (!backend) return;
+
+    for (const listener of this.stopWatchingListeners) {
+      try {
+        await listener(userId, backend);
+      } catch (error: any) {
+        console.error(`[PLAYBACK WATCH] Stop listener failed for user ${userId}:`, error?.message);
+      }
+    }
+  }
+
+  private schedule(userId: string, delayMs: number): void {
+    const watched = this.users.get(userId);
+    if (!watched) return;
+
+    if (watched.timer) {
+      clearTimeout(watched.timer);
+    }
+    watched.timer = setTimeout(() => {
+      watched.timer = null;
+      this.poll(userId).catch(error => console.error('[PLAYBACK WATCH] Unexpected poll error:', error));
+    }, delayMs);
+    watched.timer.unref?.();
+  }
+
+  private emitChanges(userId: string, previous: WatchedPlaybackState | null, current: WatchedPlaybackState): void {
+    const emitter = this.emitter();
+    if (!emitter) return;
+
+    const payload = toPlaybackStatePayload(current);
+
+    // First observation just syncs the client
+    if (!previous) {
+      emitter.emitPlaybackStateChange(userId, payload);
+      return;
+    }
+
+    const trackChanged = previous.track?.uri !== current.track?.uri;
+    if (trackChanged && current.track) {
+      emitter.emitTrackChange(userId, {
+        previous: previous.track,
+        current: current.track,
+        source: 'auto'
+      });
+    }
+
+    if (current.deviceId && previous.deviceId !== current.deviceId) {
+      emitter.emitDeviceChanged(userId, {
+        previousDevice: previous.device || null,
+        currentDevice: current.device
+      });
+    }
+
+    if (previous.volume !== current.volume) {
+      emitter.emitVolumeChanged(userId, {
+        volume: current.volume,
+        device: current.device
+      });
+    }
+
+    const seeked = !trackChanged && current.track && Math.abs(current.positionMs - expectedPosition(previous, current.observedAt)) > SEEK_TOLERANCE_MS;
+    if (
+      trackChanged ||
+      seeked ||
+      previous.isPlaying !== current.isPlaying ||
+      previous.shuffleState !== current.shuffleState ||
+      previous.repeatState !== current.repeatState ||
+      previous.volume !== current.volume ||
+      previous.deviceId !== current.deviceId
+    ) {
+      emitter.emitPlaybackStateChange(userId, payload);
+    }
+  }
+}
+
+export function toWatchedPlaybackState(playback: PlaybackState | null, observedAt: number): WatchedPlaybackState {
+  const item = playback?.item;
+  const position = playback?.progress_ms || 0;
+
+  return {
+    isPlaying: !!(playback?.is_playing && item),
+    track: item ? {
+      name: item.name,
+      artist: item.artists.map(a => a.name).join(', '),
+      album: item.album.name,
+      albumArt: item.album.images?.[0]?.url || null,
+      duration: Math.floor(item.duration_ms / 1000),
+      position: Math.floor(position / 1000),
+      id: item.id,
+      uri: item.uri
+    } : null,
+    positionMs: position,
+    durationMs: item?.duration_ms || 0,
+    device: playback?.device?.name || '',
+    deviceId: playback?.device?.id || null,
+    contextUri: playback?.context?.uri || null,
+    shuffleState: !!playback?.shuffle_state,
+    repeatState: playback?.repeat_state || 'off',
+    volume: playback?.device?.volume_percent ?? 0,
+    observedAt
+  };
+}
+
+/**
+ * playbackStateChanged payload (position and duration in seconds, like the
+ * other playback endpoints)
+ */
+export function toPlaybackStatePayload(state: WatchedPlaybackState) {
+  return {
+    isPlaying: state.isPlaying,
+    track: state.track,
+    position: Math.floor(state.positionMs / 1000),
+    duration: Math.floor(state.durationMs / 1000),
+    device: state.device,
+    shuffleState: state.shuffleState,
+    repeatState: state.repeatState,
+    volume: state.volume
+  };
+}
+
+// Where the previous observation should be by now if nobody touched anything
+export function expectedPosition(previous: WatchedPlaybackState, at: number): number {
+  return previous.isPlaying ? previous.positionMs + (at - previous.observedAt) : previous.positionMs;
+}
+
+/**
+ * Server-side twin of the client's calculateNextPollTime: poll right around
+ * the end of the track to catch the transition, otherwise back off.
+ */
+export function nextPollDelay(state: WatchedPlaybackState): number {
+  if (!state.track) {
+    return IDLE_INTERVAL_MS;
+  }
+  if (!state.isPlaying) {
+    return PAUSED_INTERVAL_MS;
+  }
+
+  const remaining = state.durationMs - state.positionMs;
+  if (remaining <= TRACK_END_LEAD_MS) {
+    // Next poll lands just after the track change
+    return Math.max(remaining + 500, MIN_INTERVAL_MS);
+  }
+  if (remaining <= TRACK_END_LEAD_MS + PLAYING_INTERVAL_MS) {
+    // Land inside the lead window
+    return remaining - TRACK_END_LEAD_MS + 500;
+  }
+  return PLAYING_INTERVAL_MS;
+}
+
+let sharedWatcher: PlaybackWatcherService | null = null;
+
+/**
+ * Get the shared playback watcher
+ */
+export function getPlaybackWatcher(): PlaybackWatcherService {
+  if (!sharedWatcher) {
+    sharedWatcher = new PlaybackWatcherService();
+  }
+
+  return sharedWatcher;
+}
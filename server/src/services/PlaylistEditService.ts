@@ -0,0 +1,372 @@
+import { SpotifyControl } from '../spotify/control';
+import { MusicBackend } from '../spotify/backend';
+import { levenshtein } from '../utils/levenshtein';
+
+// Which tracks a playlist edit applies to
+export type PlaylistTrackSource =
+  | 'current'   // the track playing now
+  | 'recent'    // the last N played tracks
+  | 'track';    // a named track (artist + track)
+
+export const VALID_PLAYLIST_TRACK_SOURCES: PlaylistTrackSource[] = ['current', 'recent', 'track'];
+
+export interface PlaylistEditRequest {
+  playlistName: string;
+  source?: PlaylistTrackSource;
+  count?: number;          // recent only
+  artist?: string;
+  track?: string;
+  confirmCreate?: boolean; // User said yes to creating a missing playlist
+}
+
+export interface PlaylistEditResult {
+  success: boolean;
+  message: string;
+  playlist?: { id: string; name: string; uri: string };
+  trackUris?: string[];
+  confirmationNeeded?: boolean;
+}
+
+interface PlaylistTrack {
+  uri: string;
+  name: string;
+  artist: string;
+}
+
+// A create we asked the user to confirm, so "yes" adds exactly what we described
+interface PendingPlaylistCreate {
+  playlistName: string;
+  tracks: PlaylistTrack[];
+  createdAt: number;
+}
+
+const PENDING_TTL_SECONDS = 10 * 60;
+const DEFAULT_RECENT_COUNT = 10;
+const MAX_RECENT_COUNT = 50;
+const PLAYLIST_PAGE_SIZE = 100;
+// Don't read more than this many tracks when checking for duplicates
+const MAX_PLAYLIST_SCAN = 1000;
+const PLAYLISTS_PAGE_SIZE = 50;
+// Don't page through more than this many of the user's playlists when matching names
+const MAX_PLAYLISTS_SCAN = 1000;
+// Below this a playlist name "match" is more likely a different playlist
+export const MIN_PLAYLIST_MATCH_SCORE = 0.6;
+
+/**
+ * Adds and removes tracks in the user's own playlists from natural language
+ * ("add this to my Running playlist", "make a playlist of the last 10 songs",
+ * "remove this from Chill").
+ *
+ * Playlist names are matched fuzzily against playlists the user can edit.
+ * Creating a playlist always needs a second, confirming request; the tracks
+ * we offered are kept in Redis until then so the confirmation adds exactly
+ * those tracks even if playback has moved on.
+ */
+export class PlaylistEditService {
+  private redisClient: any = null;
+
+  constructor(redisClient: any) {
+    this.redisClient = redisClient;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private pendingKey(userId: string): string {
+    return `user:${userId}:pending_playlist_create`;
+  }
+
+  async addTracks(userId: string, control: SpotifyControl, request: PlaylistEditRequest): Promise<PlaylistEditResult> {
+    const backend = control.getApi();
+    const playlistName = request.playlistName?.trim();
+    if (!playlistName) {
+      return { success: false, message: 'Which playlist should I add to?' };
+    }
+
+    const pending = request.confirmCreate ? await this.takePending(userId, playlistName) : null;
+    if (request.confirmCreate && !pending) {
+      // Nothing offered (or the offer expired) - don't create a playlist of whatever plays now
+      return { success: false, message: `There's no "${playlistName}" playlist waiting to be created - tell me what to add to it first` };
+    }
+    const tracks = pending ? pending.tracks : await this.resolveTracks(control, request);
+    if (tracks.length === 0) {
+      return { success: false, message: describeMissingTracks(request.source) };
+    }
+
+    const playlists = await this.editablePlaylists(backend);
+    const match = matchPlaylistName(playlists, playlistName);
+
+    if (!match) {
+      if (!pending) {
+        await this.savePending(userId, { playlistName, tracks, createdAt: Date.now() });
+        return {
+          success: true,
+          confirmationNeeded: true,
+          message: `You don't have a playlist called "${playlistName}". Want me to create it with ${describeTracks(tracks)}?`,
+          trackUris: tracks.map(t => t.uri)
+        };
+      }
+
+      const created = await backend.createPlaylist(playlistName, 'Made with DJ Forge', false);
+      await backend.addTracksToPlaylist(created.id, tracks.map(t => t.uri));
+      console.log(`[PLAYLIST EDIT] Created "${playlistName}" with ${tracks.length} tracks for user ${userId}`);
+      return {
+        success: true,
+        message: `Created "${created.name}" with ${describeTracks(tracks)}`,
+        playlist: { id: created.id, name: created.name, uri: created.uri },
+        trackUris: tracks.map(t => t.uri)
+      };
+    }
+
+    const playlist = match.playlist;
+    const existing = new Set(await this.playlistTrackUris(backend, playlist.id));
+    const toAdd = dedupeTracks(tracks).filter(t => !existing.has(t.uri));
+    const target = { id: playlist.id, name: playlist.name, uri: playlist.uri };
+
+    if (toAdd.length === 0) {
+      return {
+        success: true,
+        message: tracks.length === 1
+          ? `${tracks[0].name} is already in "${playlist.name}"`
+          : `All of those are already in "${playlist.name}"`,
+        playlist: target,
+        trackUris: []
+      };
+    }
+
+    await backend.addTracksToPlaylist(playlist.id, toAdd.map(t => t.uri));
+    const alreadyThere = tracks.length - toAdd.length;
+    return {
+      success: true,
+      message: `Added ${describeTracks(toAdd)} to "${playlist.name}"${alreadyThere > 0 ? ` (${alreadyThere} already there)` : ''}`,
+      playlist: target,
+      trackUris: toAdd.map(t => t.uri)
+    };
+  }
+
+  async removeTracks(userId: string, control: SpotifyControl, request: PlaylistEditRequest): Promise<PlaylistEditResult> {
+    const backend = control.getApi();
+    const playlistName = request.playlistName?.trim();
+    if (!playlistName) {
+      return { success: false, message: 'Which playlist should I remove it from?' };
+    }
+
+    const match = matchPlaylistName(await this.editablePlaylists(backend), playlistName);
+    if (!match) {
+      return { success: false, message: `I couldn't find a playlist of yours called "${playlistName}"` };
+    }
+
+    const playlist = match.playlist;
+    const items = await this.playlistTracks(backend, playlist.id);
+    let toRemove: PlaylistTrack[];
+
+    if (request.source === 'track') {
+      // Look the track up in the playlist itself rather than searching Spotify
+      const needle = normalizeName(request.track || '');
+      const artist = normalizeName(request.artist || '');
+      toRemove = needle
+        ? items.filter(item =>
+          normalizeName(item.name).includes(needle) &&
+          (!artist || normalizeName(item.artist).includes(artist))
+        ).slice(0, 1)
+        : [];
+    } else {
+      const [current] = await this.resolveTracks(control, { ...request, source: 'current' });
+      toRemove = current ? items.filter(item => item.uri === current.uri).slice(0, 1) : [];
+    }
+
+    if (toRemove.length === 0) {
+      const what = request.source === 'track' ? `"${request.track}"` : 'That track';
+      return { success: false, message: `${what} isn't in "${playlist.name}"` };
+    }
+
+    await backend.removeTracksFromPlaylist(playlist.id, toRemove.map(t => t.uri));
+    console.log(`[PLAYLIST EDIT] Removed ${toRemove[0].uri} from ${playlist.id} for user ${userId}`);
+    return {
+      success: true,
+      message: `Removed ${describeTracks(toRemove)} from "${playlist.name}"`,
+      playlist: { id: playlist.id, name: playlist.name, uri: playlist.uri },
+      trackUris: toRemove.map(t => t.uri)
+    };
+  }
+
+  private async resolveTracks(control: SpotifyControl, request: PlaylistEditRequest): Promise<PlaylistTrack[]> {
+    const backend = control.getApi();
+
+    switch (request.source || 'current') {
+      case 'current': {
+        const playback = await backend.getCurrentPlayback();
+        return playback?.item ? [toPlaylistTrack(playback.item)] : [];
+      }
+
+      case 'recent': {
+        const count = Math.min(Math.max(request.count || DEFAULT_RECENT_COUNT, 1), MAX_RECENT_COUNT);
+        const recent = await backend.getRecentlyPlayed();
+        // Spotify lists newest first - keep the playlist in listening order
+        return dedupeTracks((recent || [])
+          .filter((item: any) => item?.track?.uri)
+          .map((item: any) => toPlaylistTrack(item.track)))
+          .slice(0, count)
+          .reverse();
+      }
+
+      case 'track': {
+        if (!request.track && !request.artist) return [];
+        const { match } = await control.resolveTrack({ artist: request.artist, track: request.track });
+        return match ? [toPlaylistTrack(match.track)] : [];
+      }
+    }
+  }
+
+  // Only playlists the user owns (or collaborative ones) can be edited
+  private async editablePlaylists(backend: MusicBackend): Promise<any[]> {
+    const user = await backend.getCurrentUser();
+    const playlists: any[] = [];
+    for (let offset = 0; offset < MAX_PLAYLISTS_SCAN; offset += PLAYLISTS_PAGE_SIZE) {
+      const page = (await backend.getPlaylists(PLAYLISTS_PAGE_SIZE, offset)) || [];
+      playlists.push(...page);
+      if (page.length < PLAYLISTS_PAGE_SIZE) break;
+    }
+    return playlists.filter((p: any) => p && (p.owner?.id === user.id || p.collaborative));
+  }
+
+  private async playlistTracks(backend: MusicBackend, playlistId: string): Promise<PlaylistTrack[]> {
+    const tracks: PlaylistTrack[] = [];
+    for (let offset = 0; offset < MAX_PLAYLIST_SCAN; offset += PLAYLIST_PAGE_SIZE) {
+      const page = await backend.getPlaylistTracks(playlistId, PLAYLIST_PAGE_SIZE, offset);
+      const items = page?.items || [];
+      tracks.push(...items.filter((item: any) => item?.track?.uri).map((item: any) => toPlaylistTrack(item.track)));
+      if (items.length < PLAYLIST_PAGE_SIZE) break;
+    }
+    return tracks;
+  }
+
+  private async playlistTrackUris(backend: MusicBackend, playlistId: string): Promise<string[]> {
+    return (await this.playlistTracks(backend, playlistId)).map(t => t.uri);
+  }
+
+  private async savePending(userId: string, pending: PendingPlaylistCreate): Promise<void> {
+    if (!this.redisClient) return;
+    await this.redisClient.setEx(this.pendingKey(userId), PENDING_TTL_SECONDS, JSON.stringify(pending));
+  }
+
+  // Use up the pending create if it was for (roughly) this playlist name
+  private async takePending(userId: string, playlistName: string): Promise<PendingPlaylistCreate | null> {
+    if (!this.redisClient) return null;
+
+    const stored = await this.redisClient.get(this.pendingKey(userId));
+    if (!stored) return null;
+
+    const pending: PendingPlaylistCreate = JSON.parse(stored);
+    if (scorePlaylistName(pending.playlistName, playlistName) < MIN_PLAYLIST_MATCH_SCORE) {
+      return null;
+    }
+    await this.redisClient.del(this.pendingKey(userId));
+    return pending;
+  }
+}
+
+function toPlaylistTrack(track: any): PlaylistTrack {
+  return {
+    uri: track.uri,
+    name: track.name,
+    artist: (track.artists || []).map((a: any) => a.name).join(', ')
+  };
+}
+
+function dedupeTracks(tracks: PlaylistTrack[]): PlaylistTrack[] {
+  const seen = new Set<string>();
+  return tracks.filter(t => {
+    if (seen.has(t.uri)) return false;
+    seen.add(t.uri);
+    return true;
+  });
+}
+
+function describeTracks(tracks: PlaylistTrack[]): string {
+  return tracks.length === 1 ? `${tracks[0].name} by ${tracks[0].artist}` : `${tracks.length} tracks`;
+}
+
+function describeMissingTracks(source?: PlaylistTrackSource): string {
+  switch (source) {
+    case 'recent': return "I couldn't find anything you've played recently";
+    case 'track': return "I couldn't find that track on Spotify";
+    default: return 'Nothing is playing right now';
+  }
+}
+
+/**
+ * Lowercase, drop punctuation/emoji and filler like "my ... playlist"
+ */
+export function normalizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/^(my|the)\s+/, '')
+    .replace(/\s+playlist$/, '')
+    .trim();
+}
+
+/**
+ * How well a spoken playlist name matches an actual one, 0-1
+ */
+export function scorePlaylistName(actual: string, spoken: string): number {
+  const a = normalizeName(actual);
+  const b = normalizeName(spoken);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  // "running" vs "running mix" - one name contained in the other on word boundaries
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a];
+  if (` ${longer} `.includes(` ${shorter} `)) {
+    return 0.7 + 0.25 * (shorter.length / longer.length);
+  }
+
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  const wordScore = shared / Math.max(wordsA.size, wordsB.size);
+
+  // Typos and mishearings ("chil" vs "chill")
+  const editScore = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  return Math.max(wordScore * 0.9, editScore);
+}
+
+/**
+ * Best playlist for a spoken name, or null when nothing is close enough
+ */
+export function matchPlaylistName(playlists: any[], spoken: string): { playlist: any; score: number } | null {
+  let best: { playlist: any; score: number } | null = null;
+  for (const playlist of playlists) {
+    const score = scorePlaylistName(playlist.name || '', spoken);
+    if (!best || score > best.score) {
+      best = { playlist, score };
+    }
+  }
+  return best && best.score >= MIN_PLAYLIST_MATCH_SCORE ? best : null;
+}
+
+let sharedPlaylistEditor: PlaylistEditService | null = null;
+
+/**
+ * Get the shared playlist editor (pass the Redis client on first use)
+ */
+export function getPlaylistEditService(redisClient?: any): PlaylistEditService {
+  if (!sharedPlaylistEditor) {
+    sharedPlaylistEditor = new PlaylistEditService(redisClient);
+  } else if (redisClient && !sharedPlaylistEditor.isAvailable()) {
+    sharedPlaylistEditor.setRedisClient(redisClient);
+  }
+
+  return sharedPlaylistEditor;
+}
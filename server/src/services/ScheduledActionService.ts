@@ -0,0 +1,482 @@
+import { v4 as uuidv4 } from 'uuid';
+import { SpotifyControl } from '../spotify/control';
+import { SpotifyAuthTokens } from '../types';
+import { getValidTokensForSession } from '../auth/session-tokens';
+import { getWebSocketService } from './websocket.service';
+import { applyListeningRules } from './ListeningRulesService';
+import { getPlaybackUndoService } from './PlaybackUndoService';
+
+export type ScheduledActionType = 'pause' | 'fade_out' | 'play_playlist' | 'set_volume' | 'resume';
+
+// When the action should run
+export type ScheduleTrigger =
+  | 'delay'           // delayMinutes from now
+  | 'at_time'         // next occurrence of atTime (HH:MM) in the user's timezone
+  | 'end_of_track'    // when the current track ends
+  | 'end_of_context'; // when the current album/playlist ends
+
+export const VALID_SCHEDULED_ACTIONS: ScheduledActionType[] = ['pause', 'fade_out', 'play_playlist', 'set_volume', 'resume'];
+export const VALID_SCHEDULE_TRIGGERS: ScheduleTrigger[] = ['delay', 'at_time', 'end_of_track', 'end_of_context'];
+
+export interface ScheduleRequest {
+  action: ScheduledActionType;
+  trigger: ScheduleTrigger;
+  delayMinutes?: number;
+  atTime?: string;         // "07:00"
+  timezone?: string;       // IANA zone from the client, e.g. "Europe/Copenhagen"
+  query?: string;          // Playlist to search for (play_playlist)
+  playlistUri?: string;
+  volume?: number;         // set_volume target
+  fadeSeconds?: number;    // fade_out duration
+  command?: string;        // Original natural-language command
+}
+
+export interface ScheduledAction {
+  id: string;
+  userId: string;
+  sessionId: string;       // Session whose Spotify tokens run the action
+  action: ScheduledActionType;
+  dueAt: number;
+  createdAt: number;
+  description: string;
+  query?: string;
+  playlistUri?: string;
+  volume?: number;
+  fadeSeconds?: number;
+  command?: string;
+}
+
+export interface ScheduledActionServiceOptions {
+  pollIntervalMs?: number;
+  now?: () => number;
+  sleep?: (ms: number) => Promise<void>;
+  // Build a SpotifyControl for the session that created the action
+  controlFactory?: (sessionId: string) => Promise<SpotifyControl | null>;
+}
+
+const DUE_KEY = 'scheduled_actions:due';
+const MAX_DELAY_MS = 24 * 60 * 60 * 1000;
+// Actions missed by more than this (e.g. server was down) are dropped instead of run late
+const MAX_LATENESS_MS = 15 * 60 * 1000;
+const DEFAULT_FADE_SECONDS = 60;
+const MAX_FADE_SECONDS = 300;
+const FADE_STEPS = 10;
+
+const defaultControlFactory = async (sessionId: string): Promise<SpotifyControl | null> => {
+  const tokens = await getValidTokensForSession(sessionId);
+  return tokens ? new SpotifyControl(tokens as SpotifyAuthTokens, () => {}) : null;
+};
+
+/**
+ * Scheduled playback actions ("stop the music in 30 minutes", "fade out after
+ * this album", "start my morning playlist at 7:00").
+ *
+ * Actions live in Redis: a global sorted set of due times drives the poller,
+ * a per-user sorted set backs list/cancel, and each action is stored as JSON.
+ * Because everything is in Redis, pending actions survive restarts. Claiming
+ * an action is a ZREM, so only one server instance ever runs it.
+ */
+export class ScheduledActionService {
+  private redisClient: any = null;
+  private timer: NodeJS.Timeout | null = null;
+  private pollIntervalMs: number;
+  private now: () => number;
+  private sleep: (ms: number) => Promise<void>;
+  private controlFactory: (sessionId: string) => Promise<SpotifyControl | null>;
+  private running = new Set<Promise<void>>();
+
+  constructor(redisClient: any, options: ScheduledActionServiceOptions = {}) {
+    this.redisClient = redisClient;
+    this.pollIntervalMs = options.pollIntervalMs ?? 5000;
+    this.now = options.now ?? Date.now;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.controlFactory = options.controlFactory ?? defaultControlFactory;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private userKey(userId: string): string {
+    return `user:${userId}:scheduled_actions`;
+  }
+
+  private actionKey(id: string): string {
+    return `scheduled_action:${id}`;
+  }
+
+  /**
+   * Schedule an action. Relative triggers (end of track/album) are resolved
+   * against the current playback now, so skipping tracks later won't move them.
+   */
+  async schedule(
+    userId: string,
+    sessionId: string,
+    request: ScheduleRequest,
+    spotifyControl: SpotifyControl
+  ): Promise<ScheduledAction> {
+    if (!this.redisClient) {
+      throw new Error('Scheduling is not available right now');
+    }
+    if (!VALID_SCHEDULED_ACTIONS.includes(request.action)) {
+      throw new Error(`Unknown scheduled action "${request.action}"`);
+    }
+    if (request.action === 'play_playlist' && !request.query && !request.playlistUri) {
+      throw new Error('I need a playlist name to schedule');
+    }
+    if (request.action === 'set_volume' && (typeof request.volume !== 'number' || request.volume < 0 || request.volume > 100)) {
+      throw new Error('Volume must be a number between 0 and 100');
+    }
+
+    const dueAt = await this.resolveDueAt(request, spotifyControl);
+    const action: ScheduledAction = {
+      id: uuidv4(),
+      userId,
+      sessionId,
+      action: request.action,
+      dueAt,
+      createdAt: this.now(),
+      description: describeAction(request),
+      ...(request.query && { query: request.query }),
+      ...(request.playlistUri && { playlistUri: request.playlistUri }),
+      ...(typeof request.volume === 'number' && { volume: request.volume }),
+      ...(request.action === 'fade_out' && { fadeSeconds: fadeDuration(request.fadeSeconds) }),
+      ...(request.command && { command: request.command })
+    };
+
+    await this.redisClient.set(this.actionKey(action.id), JSON.stringify(action));
+    await this.redisClient.zAdd(this.userKey(userId), { score: dueAt, value: action.id });
+    await this.redisClient.zAdd(DUE_KEY, { score: dueAt, value: action.id });
+
+    console.log(`[SCHEDULE] ${action.description} for user ${userId} at ${new Date(dueAt).toISOString()}`);
+    return action;
+  }
+
+  /**
+   * Pending actions for a user, soonest first
+   */
+  async list(userId: string): Promise<ScheduledAction[]> {
+    if (!this.redisClient) return [];
+
+    const ids: string[] = await this.redisClient.zRange(this.userKey(userId), 0, -1);
+    const actions: ScheduledAction[] = [];
+    for (const id of ids) {
+      const stored = await this.redisClient.get(this.actionKey(id));
+      if (stored) {
+        actions.push(JSON.parse(stored));
+      } else {
+        // Action key is gone (already fired elsewhere) - drop the stale index entry
+        await this.redisClient.zRem(this.userKey(userId), id);
+      }
+    }
+    return actions;
+  }
+
+  /**
+   * Cancel one action. Returns false if it doesn't exist or belongs to someone else.
+   */
+  async cancel(userId: string, id: string): Promise<boolean> {
+    if (!this.redisClient) return false;
+
+    const stored = await this.redisClient.get(this.actionKey(id));
+    if (!stored || JSON.parse(stored).userId !== userId) {
+      return false;
+    }
+
+    await this.remove(userId, id);
+    return true;
+  }
+
+  /**
+   * Cancel all pending actions (optionally only of one type). Returns the cancelled actions.
+   */
+  async cancelAll(userId: string, actionType?: ScheduledActionType): Promise<ScheduledAction[]> {
+    const actions = (await this.list(userId)).filter(a => !actionType || a.action === actionType);
+    for (const action of actions) {
+      await this.remove(userId, action.id);
+    }
+    return actions;
+  }
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.processDue().catch(error => console.error('[SCHEDULE] Failed to process due actions:', error));
+    }, this.pollIntervalMs);
+    // Don't keep the process alive just for the scheduler
+    this.timer.unref?.();
+    console.log(`✅ Scheduled action poller started (every ${this.pollIntervalMs}ms)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every action that is due. Returns the number of actions claimed.
+   */
+  async processDue(): Promise<number> {
+    if (!this.redisClient) return 0;
+
+    const now = this.now();
+    const dueIds: string[] = await this.redisClient.zRange(DUE_KEY, 0, now, { BY: 'SCORE' });
+    let claimed = 0;
+
+    for (const id of dueIds) {
+      // Whoever removes the id from the due set owns the action
+      const removed = await this.redisClient.zRem(DUE_KEY, id);
+      if (!removed) continue;
+      claimed++;
+
+      const stored = await this.redisClient.get(this.actionKey(id));
+      if (!stored) continue;
+
+      const action: ScheduledAction = JSON.parse(stored);
+      await this.remove(action.userId, id);
+
+      if (action.action === 'fade_out') {
+        // A fade takes minutes - run it alongside the rest of the batch
+        const fade: Promise<void> = this.runAndReport(action, now)
+          .catch(error => console.error(`[SCHEDULE] Failed to run ${action.id}:`, error))
+          .finally(() => this.running.delete(fade));
+        this.running.add(fade);
+      } else {
+        await this.runAndReport(action, now);
+      }
+    }
+
+    return claimed;
+  }
+
+  /**
+   * Wait for actions still running in the background (fades)
+   */
+  async settle(): Promise<void> {
+    await Promise.all(this.running);
+  }
+
+  private async runAndReport(action: ScheduledAction, now: number): Promise<void> {
+    let result: { success: boolean; message: string };
+    if (now - action.dueAt > MAX_LATENESS_MS) {
+      result = { success: false, message: `Skipped "${action.description}" - it was due at ${new Date(action.dueAt).toISOString()}` };
+    } else {
+      result = await this.execute(action);
+    }
+
+    console.log(`[SCHEDULE] ${action.description} for user ${action.userId}: ${result.success ? 'ok' : 'failed'} - ${result.message}`);
+    getWebSocketService()?.getMusicService()?.emitScheduledActionFired(action.userId, {
+      id: action.id,
+      action: action.action,
+      description: action.description,
+      success: result.success,
+      message: result.message
+    });
+  }
+
+  private async remove(userId: string, id: string): Promise<void> {
+    await this.redisClient.del(this.actionKey(id));
+    await this.redisClient.zRem(this.userKey(userId), id);
+    await this.redisClient.zRem(DUE_KEY, id);
+  }
+
+  private async execute(action: ScheduledAction): Promise<{ success: boolean; message: string }> {
+    let control: SpotifyControl | null;
+    try {
+      control = await this.controlFactory(action.sessionId);
+    } catch (error: any) {
+      return { success: false, message: `Could not reach Spotify: ${error.message}` };
+    }
+    if (!control) {
+      return { success: false, message: 'Your Spotify session has expired' };
+    }
+    await applyListeningRules(control, action.userId);
+
+    // Scheduled changes can be undone like any other command
+    return getPlaybackUndoService().withUndoPoint(
+      action.userId,
+      control,
+      { command: action.description, intent: action.action },
+      () => this.run(control, action),
+      result => result.success
+    );
+  }
+
+  private async run(control: SpotifyControl, action: ScheduledAction): Promise<{ success: boolean; message: string }> {
+    switch (action.action) {
+      case 'pause':
+        return control.pause();
+      case 'resume':
+        return control.play();
+      case 'set_volume':
+        return control.setVolume(action.volume ?? 50);
+      case 'fade_out':
+        return this.fadeOut(control, fadeDuration(action.fadeSeconds));
+      case 'play_playlist': {
+        let result: { success: boolean; message?: string };
+        if (action.playlistUri) {
+          const [, type, id] = action.playlistUri.split(':');
+          result = await control.playPlaylistWithTracks(id || action.playlistUri, type === 'album');
+        } else {
+          result = await control.searchAndPlayPlaylist(action.query!);
+        }
+        return { success: result.success, message: result.message || 'Playing playlist' };
+      }
+      default:
+        return { success: false, message: `Unknown scheduled action "${action.action}"` };
+    }
+  }
+
+  /**
+   * Step the volume down to zero, pause, then put the volume back so the
+   * next play isn't silent.
+   */
+  private async fadeOut(control: SpotifyControl, seconds: number): Promise<{ success: boolean; message: string }> {
+    try {
+      const startVolume = await control.getApi().getVolume();
+      const stepMs = (seconds * 1000) / FADE_STEPS;
+
+      for (let step = 1; step <= FADE_STEPS; step++) {
+        await this.sleep(stepMs);
+        const result = await control.setVolume(Math.round(startVolume * (1 - step / FADE_STEPS)));
+        if (!result.success) {
+          return result;
+        }
+      }
+
+      const paused = await control.pause();
+      await control.setVolume(startVolume);
+      return paused.success ? { success: true, message: 'Faded out and paused' } : paused;
+    } catch (error: any) {
+      return { success: false, message: `Fade out failed: ${error.message}` };
+    }
+  }
+
+  private async resolveDueAt(request: ScheduleRequest, spotifyControl: SpotifyControl): Promise<number> {
+    const now = this.now();
+
+    switch (request.trigger) {
+      case 'delay': {
+        const minutes = request.delayMinutes;
+        if (typeof minutes !== 'number' || minutes <= 0 || minutes * 60000 > MAX_DELAY_MS) {
+          throw new Error('Delay must be between 1 minute and 24 hours');
+        }
+        return now + Math.round(minutes * 60000);
+      }
+
+      case 'at_time':
+        return nextOccurrence(request.atTime || '', request.timezone, now);
+
+      case 'end_of_track':
+      case 'end_of_context': {
+        const playback = await spotifyControl.getApi().getCurrentPlayback();
+        if (!playback?.item) {
+          throw new Error('Nothing is playing right now');
+        }
+        let remainingMs = playback.item.duration_ms - (playback.progress_ms || 0);
+        if (request.trigger === 'end_of_context') {
+          if (!playback.context?.uri) {
+            throw new Error('The current track is not part of an album or playlist');
+          }
+          remainingMs += await this.remainingContextMs(spotifyControl, playback.context.uri, playback.item.uri);
+        }
+        return now + Math.max(0, remainingMs);
+      }
+
+      default:
+        throw new Error(`Unknown schedule trigger "${request.trigger}"`);
+    }
+  }
+
+  // Total duration of the context tracks after the current one
+  private async remainingContextMs(spotifyControl: SpotifyControl, contextUri: string, currentUri: string): Promise<number> {
+    const [, type, id] = contextUri.split(':');
+    const backend = spotifyControl.getApi();
+
+    let tracks: any[];
+    if (type === 'album') {
+      tracks = await backend.getAlbumTracks(id);
+    } else if (type === 'playlist') {
+      const page = await backend.getPlaylistTracks(id);
+      tracks = (page?.items || []).map((item: any) => item.track).filter(Boolean);
+    } else {
+      throw new Error(`Can't tell when this ${type || 'context'} ends`);
+    }
+
+    const index = tracks.findIndex(t => t.uri === currentUri);
+    return tracks.slice(index + 1).reduce((total, t) => total + (t.duration_ms || 0), 0);
+  }
+}
+
+// Next time the wall clock in `timezone` reads HH:MM (today or tomorrow)
+export function nextOccurrence(time: string, timezone: string | undefined, now: number): number {
+  const match = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!match || parseInt(match[1], 10) > 23 || parseInt(match[2], 10) > 59) {
+    throw new Error(`Invalid time "${time}" - use HH:MM`);
+  }
+  const targetMinutes = parseInt(match[1], 10) * 60 + parseInt(match[2], 10);
+
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-GB', {
+      timeZone: timezone || undefined,
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(new Date(now));
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}"`);
+  }
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const nowMinutes = part('hour') * 60 + part('minute');
+
+  let deltaMinutes = (targetMinutes - nowMinutes + 1440) % 1440;
+  if (deltaMinutes === 0) deltaMinutes = 1440;
+  return now + deltaMinutes * 60000 - part('second') * 1000 - (now % 1000);
+}
+
+// Requested fade length in seconds, kept between 1 second and 5 minutes
+function fadeDuration(requested?: number): number {
+  const seconds = Math.round(Number(requested)) || DEFAULT_FADE_SECONDS;
+  return Math.min(Math.max(seconds, 1), MAX_FADE_SECONDS);
+}
+
+function describeAction(request: ScheduleRequest): string {
+  switch (request.action) {
+    case 'pause':
+      return 'Stop the music';
+    case 'resume':
+      return 'Resume playback';
+    case 'set_volume':
+      return `Set volume to ${request.volume}%`;
+    case 'fade_out':
+      return 'Fade out and stop';
+    case 'play_playlist':
+      return `Play ${request.query || 'playlist'}`;
+    default:
+      return request.action;
+  }
+}
+
+let sharedScheduler: ScheduledActionService | null = null;
+
+/**
+ * Get the shared scheduler (pass the Redis client on first use)
+ */
+export function getScheduledActionService(redisClient?: any): ScheduledActionService {
+  if (!sharedScheduler) {
+    sharedScheduler = new ScheduledActionService(redisClient);
+  } else if (redisClient && !sharedScheduler.isAvailable()) {
+    sharedScheduler.setRedisClient(redisClient);
+  }
+
+  return sharedScheduler;
+}
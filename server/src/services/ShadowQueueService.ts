@@ -0,0 +1,369 @@
+import { v4 as uuidv4 } from 'uuid';
+import { MusicBackend } from '../spotify/backend';
+import { QueueItemInput, QueueOptions } from '../spotify/control';
+import { MusicWebSocketService } from './musicWebSocket.service';
+import { WatchedPlaybackState, TRACK_END_LEAD_MS } from './PlaybackWatcherService';
+
+export interface ShadowQueueItem extends QueueItemInput {
+  id: string;
+  addedAt: number;
+}
+
+export interface AddToShadowQueueResult {
+  added: ShadowQueueItem[];
+  skipped: QueueItemInput[];  // Already queued (or queue full)
+}
+
+const MAX_QUEUE_LENGTH = 100;
+const QUEUE_TTL_SECONDS = 7 * 86400;
+// Feed when the next watcher poll might already be too late
+const FEED_WINDOW_MS = TRACK_END_LEAD_MS + 2000;
+// Longest playlist we page through to tell its tracks from ones queued on Spotify
+const MAX_CONTEXT_PAGES = 10;
+
+/**
+ * DJ Forge's own queue ("shadow queue").
+ *
+ * Spotify's queue can only be appended to, so tracks queued through DJ Forge
+ * are kept here instead, where they can be removed, reordered and deduped.
+ * Tracks are handed to Spotify one at a time just before the current track
+ * ends (driven by the playback watcher's polls), and only once nothing queued
+ * in Spotify itself is still waiting - Spotify puts added tracks behind those,
+ * so feeding earlier would play them out of order. When nobody is watching
+ * playback any more, the rest is handed over at once.
+ */
+export class ShadowQueueService {
+  private redisClient: any = null;
+  // Track URI we last fed a successor for, per user - one feed per track
+  private fedForTrack = new Map<string, string>();
+  // Last pending queue update per user (see update())
+  private updates = new Map<string, Promise<void>>();
+
+  constructor(redisClient: any) {
+    this.redisClient = redisClient;
+  }
+
+  setRedisClient(client: any) {
+    this.redisClient = client;
+  }
+
+  isAvailable(): boolean {
+    return !!this.redisClient;
+  }
+
+  private key(userId: string): string {
+    return `user:${userId}:shadow_queue`;
+  }
+
+  async list(userId: string): Promise<ShadowQueueItem[]> {
+    if (!this.redisClient) return [];
+
+    const stored = await this.redisClient.get(this.key(userId));
+    return stored ? JSON.parse(stored) : [];
+  }
+
+  private async save(userId: string, items: ShadowQueueItem[]): Promise<void> {
+    if (items.length === 0) {
+      await this.redisClient.del(this.key(userId));
+    } else {
+      await this.redisClient.setEx(this.key(userId), QUEUE_TTL_SECONDS, JSON.stringify(items));
+    }
+  }
+
+  /**
+   * Read-modify-write the stored queue. Updates for a user run one at a time,
+   * so edits arriving together (or while a feed waits on Spotify) each apply
+   * to the latest queue instead of overwriting one another. `change` returns
+   * the new items, or null to leave the queue as it is.
+   */
+  private update(userId: string, change: (items: ShadowQueueItem[]) => ShadowQueueItem[] | null): Promise<ShadowQueueItem[]> {
+    const run = (this.updates.get(userId) || Promise.resolve()).then(async () => {
+      const items = await this.list(userId);
+      const updated = change(items);
+      if (!updated) return items;
+      await this.save(userId, updated);
+      return updated;
+    });
+
+    const settled = run.then(() => {}, () => {});
+    this.updates.set(userId, settled);
+    settled.then(() => {
+      if (this.updates.get(userId) === settled) this.updates.delete(userId);
+    });
+    return run;
+  }
+
+  /**
+   * Append tracks (or insert them next). Tracks already in the queue are skipped.
+   */
+  async add(userId: string, inputs: QueueItemInput[], options: QueueOptions = {}): Promise<AddToShadowQueueResult> {
+    if (!this.redisClient) {
+      throw new Error('Queue is not available right now');
+    }
+
+    const added: ShadowQueueItem[] = [];
+    const skipped: QueueItemInput[] = [];
+    const updated = await this.update(userId, items => {
+      const queuedUris = new Set(items.map(item => item.uri));
+      for (const input of inputs) {
+        if (queuedUris.has(input.uri) || items.length + added.length >= MAX_QUEUE_LENGTH) {
+          skipped.push(input);
+          continue;
+        }
+        queuedUris.add(input.uri);
+        added.push({ ...input, id: uuidv4(), addedAt: Date.now() });
+      }
+      return options.next ? [...added, ...items] : [...items, ...added];
+    });
+
+    if (added.length > 0) {
+      this.notify(userId, 'added', updated, added);
+    }
+    return { added, skipped };
+  }
+
+  /**
+   * Remove the item at a 0-based index
+   */
+  async removeAt(userId: string, index: number): Promise<ShadowQueueItem | null> {
+    return this.removeWhere(userId, () => index);
+  }
+
+  async removeById(userId: string, id: string): Promise<ShadowQueueItem | null> {
+    return this.removeWhere(userId, items => items.findIndex(item => item.id === id));
+  }
+
+  private async removeWhere(userId: string, findIndex: (items: ShadowQueueItem[]) => number): Promise<ShadowQueueItem | null> {
+    if (!this.redisClient) return null;
+
+    let removed: ShadowQueueItem | null = null;
+    const updated = await this.update(userId, items => {
+      const index = findIndex(items);
+      if (!Number.isInteger(index) || index < 0 || index >= items.length) {
+        return null;
+      }
+      removed = items[index];
+      return items.filter((_, i) => i !== index);
+    });
+
+    if (removed) {
+      this.notify(userId, 'removed', updated, [removed]);
+    }
+    return removed;
+  }
+
+  /**
+   * Move an item between 0-based positions
+   */
+  async move(userId: string, from: number, to: number): Promise<ShadowQueueItem | null> {
+    if (!this.redisClient) return null;
+
+    let moved: ShadowQueueItem | null = null;
+    const updated = await this.update(userId, items => {
+      if (!Number.isInteger(from) || from < 0 || from >= items.length || !Number.isInteger(to)) {
+        return null;
+      }
+      const reordered = [...items];
+      [moved] = reordered.splice(from, 1);
+      reordered.splice(Math.max(0, Math.min(to, reordered.length)), 0, moved);
+      return reordered;
+    });
+
+    if (moved) {
+      this.notify(userId, 'moved', updated, [moved]);
+    }
+    return moved;
+  }
+
+  /**
+   * Drop repeated tracks, keeping the earliest. Returns how many were removed.
+   */
+  async dedupe(userId: string): Promise<number> {
+    if (!this.redisClient) return 0;
+
+    let removed = 0;
+    const updated = await this.update(userId, items => {
+      const seen = new Set<string>();
+      const unique = items.filter(item => {
+        if (seen.has(item.uri)) return false;
+        seen.add(item.uri);
+        return true;
+      });
+      removed = items.length - unique.length;
+      return removed > 0 ? unique : null;
+    });
+
+    if (removed > 0) {
+      this.notify(userId, 'removed', updated, []);
+    }
+    return removed;
+  }
+
+  async clear(userId: string): Promise<number> {
+    if (!this.redisClient) return 0;
+
+    let cleared = 0;
+    await this.update(userId, items => {
+      cleared = items.length;
+      return cleared > 0 ? [] : null;
+    });
+
+    if (cleared > 0) {
+      this.notify(userId, 'cleared', [], []);
+    }
+    return cleared;
+  }
+
+  /**
+   * Called on every playback watcher poll. When the current track is about to
+   * end, hand the next shadow queue item to Spotify so it plays next.
+   */
+  async feedIfDue(userId: string, state: WatchedPlaybackState, backend: MusicBackend): Promise<ShadowQueueItem | null> {
+    if (!this.redisClient || !state.track || !state.isPlaying) return null;
+    if (state.durationMs - state.positionMs > FEED_WINDOW_MS) {
+      // Not near the end (again) - the same track restarting gets fed for too
+      this.fedForTrack.delete(userId);
+      return null;
+    }
+    if (this.fedForTrack.get(userId) === state.track.uri) return null;
+
+    const next = await this.feedHead(userId, state.contextUri, backend);
+    if (next) {
+      this.fedForTrack.set(userId, state.track.uri);
+    }
+    return next;
+  }
+
+  /**
+   * Hand the next item to Spotify ahead of a skip, so the skip plays it rather
+   * than the rest of the playlist or album. Called by every skip path.
+   */
+  async feedBeforeSkip(userId: string, backend: MusicBackend): Promise<ShadowQueueItem | null> {
+    if (!this.redisClient || (await this.list(userId)).length === 0) return null;
+
+    const playback = await backend.getCurrentPlayback();
+    if (!playback?.item) return null;
+    return this.feedHead(userId, playback.context?.uri || null, backend);
+  }
+
+  // Feed the head of the queue unless Spotify has its own queued tracks to play first
+  private async feedHead(userId: string, contextUri: string | null, backend: MusicBackend): Promise<ShadowQueueItem | null> {
+    const [next] = await this.list(userId);
+    if (!next) return null;
+    if (await hasTracksQueuedOnSpotify(contextUri, backend)) return null;
+
+    await backend.addToQueue(next.uri);
+    // The queue may have changed while Spotify was busy - drop just the fed item
+    const rest = await this.update(userId, items => items.filter(item => item.id !== next.id));
+    this.notify(userId, 'removed', rest, [next]);
+    console.log(`[SHADOW QUEUE] Fed "${next.name}" to Spotify for user ${userId} (${rest.length} left)`);
+    return next;
+  }
+
+  /**
+   * Hand everything left to Spotify at once. Used when we stop watching a
+   * user's playback, since nothing would feed the queue after that.
+   * Returns how many tracks were handed over.
+   */
+  async flush(userId: string, backend: MusicBackend): Promise<number> {
+    this.fedForTrack.delete(userId);
+    const items = await this.list(userId);
+    if (items.length === 0) return 0;
+
+    const fed: ShadowQueueItem[] = [];
+    try {
+      for (const item of items) {
+        await backend.addToQueue(item.uri);
+        fed.push(item);
+      }
+    } finally {
+      if (fed.length > 0) {
+        const fedIds = new Set(fed.map(item => item.id));
+        const rest = await this.update(userId, current => current.filter(item => !fedIds.has(item.id)));
+        this.notify(userId, 'removed', rest, fed);
+      }
+    }
+
+    console.log(`[SHADOW QUEUE] Flushed ${fed.length} tracks to Spotify for user ${userId}`);
+    return fed.length;
+  }
+
+  private notify(userId: string, action: 'added' | 'removed' | 'moved' | 'cleared', items: ShadowQueueItem[], changed: ShadowQueueItem[]): void {
+    MusicWebSocketService.getInstance()?.emitQueueUpdate(userId, {
+      action,
+      trackUris: changed.map(item => item.uri),
+      totalItems: items.length,
+      shadowQueue: items,
+      source: 'user'
+    });
+  }
+}
+
+/**
+ * Whether Spotify still has tracks queued outside DJ Forge. Its queue lists
+ * those ahead of the rest of the playlist or album, so only the first
+ * upcoming track needs checking against the context.
+ */
+async function hasTracksQueuedOnSpotify(contextUri: string | null, backend: MusicBackend): Promise<boolean> {
+  const upcoming: any[] = (await backend.getQueue())?.queue || [];
+  if (upcoming.length === 0) return false;
+  if (!contextUri) return true;
+
+  // Contexts we can't list (artists, very long playlists) - feed rather than stall
+  const contextUris = await listContextTrackUris(contextUri, backend);
+  return contextUris !== null && !contextUris.has(upcoming[0].uri);
+}
+
+async function listContextTrackUris(contextUri: string, backend: MusicBackend): Promise<Set<string> | null> {
+  const [, type, id] = contextUri.split(':');
+
+  if (type === 'album') {
+    const tracks: any[] = await backend.getAlbumTracks(id);
+    return new Set(tracks.map(track => track.uri));
+  }
+
+  if (type === 'playlist') {
+    const uris = new Set<string>();
+    for (let page = 0; page < MAX_CONTEXT_PAGES; page++) {
+      const response = await backend.getPlaylistTracks(id, 100, page * 100);
+      for (const item of response?.items || []) {
+        if (item.track?.uri) uris.add(item.track.uri);
+      }
+      if (!response?.total || (page + 1) * 100 >= response.total) return uris;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a queued item by (partial) track or artist name. Returns a 0-based index or -1.
+ */
+export function findInShadowQueue(items: ShadowQueueItem[], query: string): number {
+  const needle = query.toLowerCase().trim();
+  if (!needle) return -1;
+
+  const exact = items.findIndex(item => item.name.toLowerCase() === needle);
+  if (exact !== -1) return exact;
+
+  return items.findIndex(item =>
+    item.name.toLowerCase().includes(needle) ||
+    `${item.name} ${item.artist}`.toLowerCase().includes(needle) ||
+    needle.includes(item.name.toLowerCase())
+  );
+}
+
+let sharedShadowQueue: ShadowQueueService | null = null;
+
+/**
+ * Get the shared shadow queue (pass the Redis client on first use)
+ */
+export function getShadowQueueService(redisClient?: any): ShadowQueueService {
+  if (!sharedShadowQueue) {
+    sharedShadowQueue = new ShadowQueueService(redisClient);
+  } else if (redisClient && !sharedShadowQueue.isAvailable()) {
+    sharedShadowQueue.setRedisClient(redisClient);
+  }
+
+  return sharedShadowQueue;
+}
@@ -0,0 +1,339 @@
+import { MusicBackend } from '../spotify/backend';
+import { buildQueryLadder, buildSpotifyQuery, normalizeSpotifyQuery } from '../spotify/search-query';
+import { SpotifyTrack } from '../types';
+import { levenshtein } from '../utils/levenshtein';
+
+// What the LLM (or user) asked for
+export interface TrackRequest {
+  artist?: string | null;
+  track?: string | null;
+  album?: string | null;
+  version?: string | null;     // MusicModifiers.version: original | remix | acoustic | live | demo | remaster
+  durationMs?: number | null;
+  query?: string | null;       // Free-form search, used when there is no artist/track
+}
+
+export interface TrackMatchScores {
+  title: number;
+  artist: number;
+  version: number;
+  album: number | null;        // null when not requested
+  duration: number | null;
+}
+
+export interface TrackMatch {
+  track: SpotifyTrack;
+  confidence: number;          // 0-1
+  scores: TrackMatchScores;
+  reasons: string[];           // Why the score is below 1, for logs and the UI
+  searchAttempt: number;       // Which query found it (0 = the first one)
+}
+
+export interface TrackResolution {
+  match: TrackMatch | null;    // Best candidate at or above minConfidence
+  best: TrackMatch | null;     // Best candidate overall (may have been rejected)
+  candidates: TrackMatch[];    // Everything scored, best first
+  structured: boolean;         // false for free-form queries, which can't be verified
+}
+
+// Compact summary of a match for API responses
+export interface TrackMatchSummary {
+  confidence: number;
+  verified: boolean;
+  requested: { artist?: string; track?: string };
+  matched: { name: string; artist: string; uri: string } | null;
+  reasons: string[];
+}
+
+export interface TrackResolverOptions {
+  minConfidence?: number;
+}
+
+// Below this a match is more likely a different song than the one asked for
+export const DEFAULT_MIN_CONFIDENCE = 0.7;
+// Good enough to stop trying further search queries
+const CONFIDENT_MATCH = 0.9;
+
+const WEIGHTS = { title: 0.45, artist: 0.35, version: 0.1, album: 0.05, duration: 0.05 };
+
+// Variants that are a different recording than the "normal" song
+const VERSION_KEYWORDS: Record<string, RegExp> = {
+  live: /\blive\b/,
+  remix: /\b(remix|rmx|club mix|extended mix|dub mix)\b/,
+  acoustic: /\b(acoustic|unplugged)\b/,
+  demo: /\bdemo\b/,
+  remaster: /\bremaster(ed)?\b/,
+  instrumental: /\binstrumental\b/,
+  karaoke: /\b(karaoke|originally performed by)\b/
+};
+// Remasters are the original recording - everything else needs asking for
+const UNREQUESTED_VARIANTS = ['live', 'remix', 'acoustic', 'demo', 'instrumental', 'karaoke'];
+
+/**
+ * Finds the Spotify track an LLM suggestion actually refers to.
+ *
+ * Search results are scored on normalized title and artist similarity,
+ * version keywords (live/remix/remaster...), album and duration. Matches
+ * below minConfidence are rejected rather than played - LLMs suggest songs
+ * that don't exist, and Spotify's first result for those is usually a
+ * different song by someone else.
+ */
+export class TrackResolver {
+  private minConfidence: number;
+
+  constructor(private backend: MusicBackend, options: TrackResolverOptions = {}) {
+    this.minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  }
+
+  /**
+   * Search with progressively looser queries and return the best match.
+   * initialQuery (e.g. an LLM-enhanced query) is tried first when given.
+   */
+  async resolve(request: TrackRequest, initialQuery?: string): Promise<TrackResolution> {
+    const structured = !!(request.track || request.artist);
+    const queries = buildQueries(request, initialQuery);
+    const seen = new Map<string, TrackMatch>();
+
+    for (const [attempt, query] of queries.entries()) {
+      const tracks: SpotifyTrack[] = await this.backend.search(query);
+      for (const track of tracks) {
+        if (!seen.has(track.uri)) {
+          seen.set(track.uri, { ...scoreTrack(track, request), searchAttempt: attempt });
+        }
+      }
+
+      // Free-form queries trust Spotify's ranking; structured ones stop once something fits
+      if (!structured && seen.size > 0) break;
+      if (structured && [...seen.values()].some(m => m.confidence >= CONFIDENT_MATCH)) break;
+    }
+
+    const candidates = [...seen.values()];
+    if (structured) {
+      // Stable sort keeps Spotify's order (popularity) between equal scores
+      candidates.sort((a, b) => b.confidence - a.confidence);
+    }
+
+    const best = candidates[0] || null;
+    const match = best && (!structured || best.confidence >= this.minConfidence) ? best : null;
+
+    if (best && !match) {
+      console.log(`[TRACK RESOLVER] Rejected "${best.track.name}" by ${artistNames(best.track)} for ${describeRequest(request)} (${Math.round(best.confidence * 100)}%: ${best.reasons.join(', ')})`);
+    }
+
+    return { match, best, candidates, structured };
+  }
+}
+
+function buildQueries(request: TrackRequest, initialQuery?: string): string[] {
+  const queries: string[] = [];
+  // An LLM-enhanced query may carry year/genre filters - shed those before giving up on it
+  if (initialQuery) queries.push(...buildQueryLadder(initialQuery));
+
+  const { artist, track, album } = request;
+  if (artist && track) {
+    queries.push(...buildQueryLadder({ artist, track, album: album || undefined }));
+  }
+  if (track) {
+    // Strip "(feat. ...)"/"- Live" so a misremembered suffix doesn't hide the song
+    const baseTitle = stripTitleDecorations(track);
+    queries.push(baseTitle && baseTitle !== track.toLowerCase() ? baseTitle : track);
+  } else if (artist) {
+    queries.push(buildSpotifyQuery({ artist }));
+  }
+  if (request.query) queries.push(normalizeSpotifyQuery(request.query));
+
+  return [...new Set(queries.filter(Boolean))];
+}
+
+/**
+ * Score one search result against the request
+ */
+export function scoreTrack(track: SpotifyTrack, request: TrackRequest): Omit<TrackMatch, 'searchAttempt'> {
+  const reasons: string[] = [];
+  const fullTitle = normalizeText(track.name);
+
+  // Free-form query: how much of the query shows up in the result
+  if (!request.track && !request.artist) {
+    const haystack = `${fullTitle} ${normalizeText(artistNames(track))}`;
+    const words = normalizeText(request.query || '').split(' ').filter(Boolean);
+    const found = words.filter(w => haystack.includes(w)).length;
+    const confidence = words.length > 0 ? found / words.length : 0;
+    return {
+      track,
+      confidence,
+      scores: { title: confidence, artist: confidence, version: 1, album: null, duration: null },
+      reasons: ['free-form search']
+    };
+  }
+
+  const title = request.track ? titleSimilarity(track.name, request.track) : 1;
+  if (title < 1) reasons.push(`title ${Math.round(title * 100)}%`);
+
+  const artist = request.artist ? artistSimilarity(track, request.artist) : 1;
+  if (artist < 1) reasons.push(`artist ${Math.round(artist * 100)}%`);
+
+  const version = versionScore(track, request);
+  if (version < 1) reasons.push('different version');
+
+  const album = request.album ? similarity(normalizeText(track.album?.name || ''), normalizeText(request.album)) : null;
+  if (album !== null && album < 0.8) reasons.push('different album');
+
+  const duration = request.durationMs ? durationScore(track.duration_ms, request.durationMs) : null;
+  if (duration !== null && duration < 0.8) reasons.push('different length');
+
+  let weighted = WEIGHTS.title * title + WEIGHTS.artist * artist + WEIGHTS.version * version;
+  let total = WEIGHTS.title + WEIGHTS.artist + WEIGHTS.version;
+  if (album !== null) {
+    weighted += WEIGHTS.album * album;
+    total += WEIGHTS.album;
+  }
+  if (duration !== null) {
+    weighted += WEIGHTS.duration * duration;
+    total += WEIGHTS.duration;
+  }
+  let confidence = weighted / total;
+
+  // The same title by a different artist is a different song (or a cover)
+  if (request.artist && artist < 0.5) {
+    confidence = Math.min(confidence, 0.4);
+  }
+  // ...and the right artist with an unrelated title is a different song too
+  if (request.track && title < 0.5) {
+    confidence = Math.min(confidence, 0.4);
+  }
+
+  return {
+    track,
+    confidence: Math.round(confidence * 1000) / 1000,
+    scores: { title, artist, version, album, duration },
+    reasons
+  };
+}
+
+export function summarizeResolution(resolution: TrackResolution, request: TrackRequest): TrackMatchSummary {
+  const chosen = resolution.match || resolution.best;
+  return {
+    confidence: chosen?.confidence ?? 0,
+    verified: resolution.structured && !!resolution.match,
+    requested: {
+      ...(request.artist && { artist: request.artist }),
+      ...(request.track && { track: request.track })
+    },
+    matched: chosen ? { name: chosen.track.name, artist: artistNames(chosen.track), uri: chosen.track.uri } : null,
+    reasons: chosen?.reasons || []
+  };
+}
+
+/**
+ * User-facing explanation for a rejected or missing match
+ */
+export function describeUnresolved(resolution: TrackResolution, request: TrackRequest): string {
+  const requested = describeRequest(request);
+  if (!resolution.best) {
+    return `Couldn't find ${requested} on Spotify`;
+  }
+  const best = resolution.best;
+  return `Couldn't find ${requested} on Spotify - the closest was "${best.track.name}" by ${artistNames(best.track)}, which doesn't look like the same song`;
+}
+
+function describeRequest(request: TrackRequest): string {
+  if (request.track && request.artist) return `"${request.track}" by ${request.artist}`;
+  if (request.track) return `"${request.track}"`;
+  if (request.artist) return `anything by ${request.artist}`;
+  return `"${request.query || ''}"`;
+}
+
+export function artistNames(track: SpotifyTrack): string {
+  return (track.artists || []).map(a => a.name).join(', ');
+}
+
+/**
+ * Lowercase, strip accents and punctuation, "&" -> "and"
+ */
+export function normalizeText(text: string): string {
+  return (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// "Song (feat. X) - 2011 Remaster" -> "song"
+function stripTitleDecorations(title: string): string {
+  return normalizeText(
+    title
+      .replace(/\s*[([].*?[)\]]/g, '')
+      .replace(/\s+-\s+.*$/, '')
+      .replace(/\s+(feat|ft)\.?\s+.*$/i, '')
+  );
+}
+
+// 0-1 similarity of two normalized strings (edit distance or shared words, whichever is kinder)
+function similarity(a: string, b: string): number {
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const edit = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  const wordsA = new Set(a.split(' '));
+  const wordsB = new Set(b.split(' '));
+  const shared = [...wordsA].filter(w => wordsB.has(w)).length;
+  const words = shared / Math.max(wordsA.size, wordsB.size);
+
+  return Math.max(edit, words);
+}
+
+function titleSimilarity(actual: string, requested: string): number {
+  const full = similarity(normalizeText(actual), normalizeText(requested));
+  // Compare without "(Remastered)" / "- Live at..." so those are judged by the version score instead
+  const base = similarity(stripTitleDecorations(actual), stripTitleDecorations(requested));
+  return Math.max(full, base);
+}
+
+function artistSimilarity(track: SpotifyTrack, requested: string): number {
+  const wanted = normalizeText(requested);
+  // "Simon & Garfunkel" is one artist, "Drake feat. Rihanna" is two
+  const wantedParts = [wanted, ...wanted.split(/\b(?:feat|ft|featuring|with|x)\b|,/).map(s => s.trim())].filter(Boolean);
+  let best = 0;
+  for (const artist of track.artists || []) {
+    const name = normalizeText(artist.name);
+    for (const part of wantedParts) {
+      best = Math.max(best, similarity(name, part));
+    }
+  }
+  // All artists together, for requests like "Simon and Garfunkel" vs ["Simon & Garfunkel"]
+  return Math.max(best, similarity(normalizeText(artistNames(track)), wanted));
+}
+
+// Version keywords only count in "(Live)" / "- 2011 Remaster" style suffixes and album
+// names, and not when the requested title has them too ("Live Forever")
+function versionScore(track: SpotifyTrack, request: TrackRequest): number {
+  const decorations = [
+    ...(track.name.match(/[([].*?[)\]]/g) || []),
+    track.name.match(/\s-\s.*$/)?.[0] || '',
+    track.album?.name || ''
+  ].map(normalizeText).join(' ');
+  const requestedTitle = normalizeText(request.track || '');
+  const present = Object.keys(VERSION_KEYWORDS).filter(v =>
+    VERSION_KEYWORDS[v].test(decorations) && !VERSION_KEYWORDS[v].test(requestedTitle)
+  );
+  const wanted = (request.version || '').toLowerCase();
+
+  if (wanted && wanted !== 'original') {
+    const pattern = VERSION_KEYWORDS[wanted];
+    return pattern && (pattern.test(decorations) || pattern.test(normalizeText(track.name))) ? 1 : 0;
+  }
+
+  // Nothing specific (or "original") asked for - penalize live/remix/karaoke etc.
+  if (present.some(v => UNREQUESTED_VARIANTS.includes(v))) return 0;
+  return wanted === 'original' && present.includes('remaster') ? 0.8 : 1;
+}
+
+function durationScore(actualMs: number, requestedMs: number): number {
+  const diff = Math.abs(actualMs - requestedMs);
+  if (diff <= 10000) return 1;
+  // Fall off to 0 at a minute apart
+  return Math.max(0, 1 - (diff - 10000) / 50000);
+}
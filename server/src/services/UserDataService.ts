@@ -1,4 +1,4 @@
-import { SpotifyWebAPI } from '../spotify/api';
+import { MusicBackend } from '../spotify/backend';
 import { 
   UserProfile, 
   SpotifyArtist, 
@@ -11,15 +11,31 @@ import {
   PaginatedResponse,
   UserDashboardData
 } from '../types/spotify-data';
-import { AIDiscoveredTrack } from '../types';
+import { AIDiscoveredTrack, ImplicitFeedback, ImplicitFeedbackSignal, DJForgePlaylistSync } from '../types';
+import { getListeningHistoryService, summarizeHistory, HistoryPlay, HistorySummary } from './ListeningHistoryService';
+import { LLMLoggingService } from './llm-logging.service';
+
+// Implicit signals weigh less than a loved/disliked click (+/-1): one skip could be a mood, not a verdict
+export const IMPLICIT_FEEDBACK_WEIGHTS: Record<ImplicitFeedbackSignal, number> = {
+  early_skip: -0.3,
+  full_listen: 0.2
+};
+
+// An implicit score has to build up past this before it reaches the taste profile
+const IMPLICIT_PROFILE_THRESHOLD = 0.5;
+
+const DJ_FORGE_PLAYLIST_NAME = 'DJ Forge';
+const DJ_FORGE_PLAYLIST_DESCRIPTION = 'AI-discovered tracks that you loved - curated by your personal DJ Forge assistant';
+// Spotify's page size for playlist items, and its limit for adding/removing in one request
+const PLAYLIST_PAGE_SIZE = 100;
 
 export class UserDataService {
   private redis: any; // Using any to avoid Redis type conflicts
-  private spotifyApi: SpotifyWebAPI;
+  private spotifyApi: MusicBackend;
   private userId: string;
   private defaultTTL = 3600; // 1 hour cache by default
 
-  constructor(redis: any, spotifyApi: SpotifyWebAPI, userId: string) {
+  constructor(redis: any, spotifyApi: MusicBackend, userId: string) {
     this.redis = redis;
     this.spotifyApi = spotifyApi;
     this.userId = userId;
@@ -73,9 +89,13 @@ export class UserDataService {
 
       // Get AI feedback data
       const aiFeedback = await this.getAIFeedback();
+      const implicitFeedback = await this.getImplicitFeedback();
+
+      // What's actually been on repeat lately, from the long-term history
+      const rotation = await this.getHistorySummary(30);
       
       // Build context-aware taste profile
-      let profile = this.buildContextualProfile(contextType, topGenres, topArtistsMedium, topTracksMedium, aiFeedback);
+      let profile = this.buildContextualProfile(contextType, topGenres, topArtistsMedium, topTracksMedium, aiFeedback, rotation, implicitFeedback);
 
       // Cache for 1 hour
       if (this.redis) {
@@ -301,6 +321,25 @@ export class UserDataService {
     return items;
   }
 
+  // Long-term listening history (newest first), beyond Spotify's last 50 plays
+  async getListeningHistory(from?: number, to?: number, limit?: number): Promise<HistoryPlay[]> {
+    const history = getListeningHistoryService();
+    if (!history.isAvailable()) {
+      return [];
+    }
+    return history.getPlays(this.userId, { from, to, limit });
+  }
+
+  private async getHistorySummary(days: number): Promise<HistorySummary | null> {
+    try {
+      const plays = await this.getListeningHistory(Date.now() - days * 24 * 60 * 60 * 1000);
+      return plays.length > 0 ? summarizeHistory(plays) : null;
+    } catch (error) {
+      console.error('[TasteProfile] Failed to load listening history:', error);
+      return null;
+    }
+  }
+
   // Playlists
   async getPlaylists(forceRefresh = false): Promise<SpotifyPlaylist[]> {
     const key = this.getKey('playlists');
@@ -498,7 +537,26 @@ export class UserDataService {
     }
   }
 
-  async recordFeedback(trackUri: string, feedback: 'loved' | 'disliked' | 'blocked'): Promise<void> {
+  /**
+   * Store a track the user can rate, unless it's already there (keeping any
+   * feedback it has). Returns whether it was new.
+   */
+  async recordAIDiscovery(track: AIDiscoveredTrack): Promise<boolean> {
+    const discoveriesKey = `user:${this.userId}:ai_discoveries`;
+    const existing = await this.checkAIDiscoveryExists(track.trackUri);
+    if (existing) {
+      console.log(`[DEBUG] AI discovery already exists (${existing.feedback || 'no feedback'}): ${track.trackName} by ${track.artist}`);
+      return false;
+    }
+
+    await this.redis.lPush(discoveriesKey, JSON.stringify(track));
+    // Keep only the last 500 discoveries
+    await this.redis.lTrim(discoveriesKey, 0, 499);
+    console.log(`[DEBUG] Tracked new AI discovery (${track.provenance?.source || 'primary'}): ${track.trackName} by ${track.artist}`);
+    return true;
+  }
+
+  async recordFeedback(trackUri: string, feedback: 'loved' | 'disliked' | 'blocked', syncPlaylist = true): Promise<void> {
     try {
       const discoveriesKey = `user:${this.userId}:ai_discoveries`;
       const lovedKey = `user:${this.userId}:ai_loved`;
@@ -553,6 +611,8 @@ export class UserDataService {
         }
         
         // Add feedback info to discovery data
+        const previousFeedback = discoveryData.feedback;
+        const previousFeedbackAt = discoveryData.feedbackAt;
         discoveryData.feedback = feedback;
         discoveryData.feedbackAt = Date.now();
         
@@ -579,17 +639,26 @@ export class UserDataService {
           console.log(`🔄 Updated original discovery with ${feedback} feedback: ${discoveryData.trackName} by ${discoveryData.artist}`);
         }
         
-        // If the feedback is 'loved', add the track to DJ Forge playlist
-        if (feedback === 'loved') {
+        // Keep the DJ Forge playlist in step: loved tracks go in, anything else comes out
+        if (syncPlaylist) {
           try {
-            await this.addToJDForgePlaylist(discoveryData.trackUri);
-            console.log(`🎵 Added loved track to DJ Forge playlist: ${discoveryData.trackName} by ${discoveryData.artist}`);
+            if (feedback === 'loved') {
+              await this.addToJDForgePlaylist(discoveryData.trackUri);
+              console.log(`🎵 Added loved track to DJ Forge playlist: ${discoveryData.trackName} by ${discoveryData.artist}`);
+            } else {
+              await this.removeFromJDForgePlaylist(discoveryData.trackUri);
+            }
           } catch (error) {
-            console.error(`⚠️ Failed to add track to DJ Forge playlist:`, error);
-            // Don't fail the feedback recording if playlist addition fails
+            console.error(`⚠️ Failed to update DJ Forge playlist:`, error);
+            // Don't fail the feedback recording - the reconcile job catches up later
           }
         }
         
+        // Credit the prompt versions that picked it
+        if (discoveryData.prompts?.length) {
+          await new LLMLoggingService(this.redis).recordPromptFeedback(discoveryData.prompts, feedback, previousFeedback, previousFeedbackAt);
+        }
+        
         console.log(`✅ Recorded ${feedback} feedback for ${discoveryData.trackName} by ${discoveryData.artist}`);
       } else {
         console.log(`⚠️ Track not found in discoveries: ${trackUri}`);
@@ -599,7 +668,7 @@ export class UserDataService {
     }
   }
 
-  async removeFeedback(trackUri: string): Promise<void> {
+  async removeFeedback(trackUri: string, syncPlaylist = true): Promise<void> {
     try {
       const discoveriesKey = `user:${this.userId}:ai_discoveries`;
       const lovedKey = `user:${this.userId}:ai_loved`;
@@ -647,6 +716,9 @@ export class UserDataService {
         
         if (targetDiscovery) {
           const discoveryData = JSON.parse(targetDiscovery);
+          if (discoveryData.prompts?.length) {
+            await new LLMLoggingService(this.redis).recordPromptFeedback(discoveryData.prompts, null, discoveryData.feedback, discoveryData.feedbackAt);
+          }
           // Remove feedback fields
           delete discoveryData.feedback;
           delete discoveryData.feedbackAt;
@@ -657,6 +729,14 @@ export class UserDataService {
             console.log(`🔄 Removed feedback from original discovery: ${discoveryData.trackName} by ${discoveryData.artist}`);
           }
         }
+
+        if (syncPlaylist) {
+          try {
+            await this.removeFromJDForgePlaylist(JSON.parse(targetMember).trackUri);
+          } catch (error) {
+            console.error(`⚠️ Failed to update DJ Forge playlist:`, error);
+          }
+        }
       }
     } catch (error) {
       console.error('Error removing feedback:', error);
@@ -712,6 +792,60 @@ export class UserDataService {
     }
   }
 
+  /**
+   * Record a skip or full listen of an AI discovery, observed by the playback watcher
+   */
+  async recordImplicitFeedback(discovery: AIDiscoveredTrack, signal: ImplicitFeedbackSignal): Promise<ImplicitFeedback | null> {
+    try {
+      const implicitKey = `user:${this.userId}:ai_implicit`;
+      const raw = await this.redis.hGet(implicitKey, discovery.trackUri);
+      const existing: ImplicitFeedback = raw ? JSON.parse(raw) : {
+        trackUri: discovery.trackUri,
+        trackName: discovery.trackName,
+        artist: discovery.artist,
+        earlySkips: 0,
+        fullListens: 0,
+        score: 0,
+        updatedAt: 0
+      };
+
+      const updated: ImplicitFeedback = {
+        ...existing,
+        earlySkips: existing.earlySkips + (signal === 'early_skip' ? 1 : 0),
+        fullListens: existing.fullListens + (signal === 'full_listen' ? 1 : 0),
+        score: Math.round((existing.score + IMPLICIT_FEEDBACK_WEIGHTS[signal]) * 100) / 100,
+        updatedAt: Date.now()
+      };
+
+      await this.redis.hSet(implicitKey, discovery.trackUri, JSON.stringify(updated));
+      await this.redis.expire(implicitKey, 86400 * 30); // 30 days, like explicit feedback
+      console.log(`👂 Recorded ${signal} for ${discovery.trackName} by ${discovery.artist} (score ${updated.score})`);
+      return updated;
+    } catch (error) {
+      console.error('Error recording implicit feedback:', error);
+      return null;
+    }
+  }
+
+  async getImplicitFeedback(): Promise<ImplicitFeedback[]> {
+    try {
+      const entries: Record<string, string> = await this.redis.hGetAll(`user:${this.userId}:ai_implicit`);
+      return Object.values(entries || {})
+        .map(value => {
+          try {
+            return JSON.parse(value) as ImplicitFeedback;
+          } catch {
+            return null;
+          }
+        })
+        .filter((entry): entry is ImplicitFeedback => !!entry)
+        .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+    } catch (error) {
+      console.error('Error getting implicit feedback:', error);
+      return [];
+    }
+  }
+
   async getAIFeedbackDashboard(): Promise<{
     discoveries: AIDiscoveredTrack[],
     loved: AIDiscoveredTrack[],
@@ -823,25 +957,20 @@ export class UserDataService {
   // DJ Forge playlist management
   async addToJDForgePlaylist(trackUri: string): Promise<void> {
     try {
-      const playlistName = 'DJ Forge';
-      const playlistDescription = 'AI-discovered tracks that you loved - curated by your personal DJ Forge assistant';
-      
       // Ensure the DJ Forge playlist exists
-      const playlist = await this.spotifyApi.ensurePlaylistExists(playlistName, playlistDescription);
+      const playlist = await this.spotifyApi.ensurePlaylistExists(DJ_FORGE_PLAYLIST_NAME, DJ_FORGE_PLAYLIST_DESCRIPTION);
       
       // Check if track is already in the playlist to avoid duplicates
-      const existingTracks = await this.spotifyApi.getPlaylistTracks(playlist.id);
-      const trackAlreadyExists = existingTracks.some((item: any) => 
-        item.track && item.track.uri === trackUri
-      );
-      
-      if (trackAlreadyExists) {
+      const existingTracks = await this.getPlaylistTrackUris(playlist.id);
+      if (existingTracks.includes(trackUri)) {
         console.log(`Track already exists in DJ Forge playlist: ${trackUri}`);
+        await this.markPlaylistSynced([trackUri]);
         return;
       }
       
       // Add the track to the playlist
       await this.spotifyApi.addTracksToPlaylist(playlist.id, [trackUri]);
+      await this.markPlaylistSynced([trackUri]);
       console.log(`✅ Successfully added track to DJ Forge playlist: ${trackUri}`);
       
     } catch (error) {
@@ -850,6 +979,142 @@ export class UserDataService {
     }
   }
 
+  async removeFromJDForgePlaylist(trackUri: string): Promise<void> {
+    try {
+      // Never create the playlist just to take a track out of it
+      const playlist = await this.spotifyApi.findPlaylistByName(DJ_FORGE_PLAYLIST_NAME);
+      if (playlist) {
+        await this.spotifyApi.removeTracksFromPlaylist(playlist.id, [trackUri]);
+        console.log(`🗑️ Removed track from DJ Forge playlist: ${trackUri}`);
+      }
+      await this.redis?.sRem(this.playlistSyncedKey(), trackUri);
+    } catch (error) {
+      console.error('Error removing track from DJ Forge playlist:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Two-way sync between AI feedback and the DJ Forge playlist, picking up
+   * edits the user made in Spotify. The synced set remembers which tracks the
+   * playlist held when we last touched it, which is what tells a track the user
+   * removed apart from one that never made it in:
+   * - loved but missing: removed in Spotify if it was synced (the love is
+   *   cleared), otherwise an earlier add failed (it is added)
+   * - disliked/blocked but present: an earlier removal failed if it was synced
+   *   (it is removed), otherwise the user put it back (it becomes loved)
+   * - a discovery without feedback that the user added becomes loved
+   * Tracks that aren't AI discoveries are the user's own and are left alone.
+   */
+  async reconcileJDForgePlaylist(): Promise<DJForgePlaylistSync> {
+    const result: DJForgePlaylistSync = { added: [], removed: [], loved: [], unloved: [] };
+    if (!this.redis) {
+      return result;
+    }
+
+    const feedback = await this.getFeedbackStates();
+    const hasLoved = Array.from(feedback.values()).includes('loved');
+
+    let playlist = await this.spotifyApi.findPlaylistByName(DJ_FORGE_PLAYLIST_NAME);
+    if (!playlist) {
+      if (!hasLoved) {
+        return result;
+      }
+      // A deleted playlist is rebuilt from the loved tracks rather than taken as un-loving all of them
+      await this.redis.del(this.playlistSyncedKey());
+      playlist = await this.spotifyApi.ensurePlaylistExists(DJ_FORGE_PLAYLIST_NAME, DJ_FORGE_PLAYLIST_DESCRIPTION);
+    }
+
+    const inPlaylist = new Set(await this.getPlaylistTrackUris(playlist.id));
+    const synced = new Set<string>(await this.redis.sMembers(this.playlistSyncedKey()));
+
+    for (const [trackUri, state] of feedback) {
+      const present = inPlaylist.has(trackUri);
+      if (state === 'loved' && !present) {
+        (synced.has(trackUri) ? result.unloved : result.added).push(trackUri);
+      } else if (state !== 'loved' && present) {
+        (synced.has(trackUri) ? result.removed : result.loved).push(trackUri);
+      }
+    }
+
+    const discoveries: string[] = await this.redis.lRange(`user:${this.userId}:ai_discoveries`, 0, -1);
+    const discoveryUris = new Set(discoveries.map(d => {
+      try {
+        return JSON.parse(d).trackUri;
+      } catch {
+        return null;
+      }
+    }));
+    for (const trackUri of inPlaylist) {
+      if (!feedback.has(trackUri) && !synced.has(trackUri) && discoveryUris.has(trackUri)) {
+        result.loved.push(trackUri);
+      }
+    }
+
+    for (let i = 0; i < result.added.length; i += PLAYLIST_PAGE_SIZE) {
+      await this.spotifyApi.addTracksToPlaylist(playlist.id, result.added.slice(i, i + PLAYLIST_PAGE_SIZE));
+    }
+    for (let i = 0; i < result.removed.length; i += PLAYLIST_PAGE_SIZE) {
+      await this.spotifyApi.removeTracksFromPlaylist(playlist.id, result.removed.slice(i, i + PLAYLIST_PAGE_SIZE));
+    }
+    // The playlist already reflects these - only the feedback changes
+    for (const trackUri of result.loved) {
+      await this.recordFeedback(trackUri, 'loved', false);
+    }
+    for (const trackUri of result.unloved) {
+      await this.removeFeedback(trackUri, false);
+    }
+
+    result.added.forEach(uri => inPlaylist.add(uri));
+    result.removed.forEach(uri => inPlaylist.delete(uri));
+    await this.redis.del(this.playlistSyncedKey());
+    await this.markPlaylistSynced(Array.from(inPlaylist).filter(uri => discoveryUris.has(uri)));
+
+    const changes = result.added.length + result.removed.length + result.loved.length + result.unloved.length;
+    if (changes > 0) {
+      console.log(`🔄 Reconciled DJ Forge playlist for ${this.userId}: +${result.added.length} -${result.removed.length}, ${result.loved.length} loved, ${result.unloved.length} unloved`);
+    }
+    return result;
+  }
+
+  private playlistSyncedKey(): string {
+    return `user:${this.userId}:dj_forge_synced`;
+  }
+
+  private async markPlaylistSynced(trackUris: string[]): Promise<void> {
+    if (!this.redis || trackUris.length === 0) return;
+    await this.redis.sAdd(this.playlistSyncedKey(), trackUris);
+    await this.redis.expire(this.playlistSyncedKey(), 86400 * 30); // 30 days, like the feedback lists
+  }
+
+  // Latest feedback per discovery URI
+  private async getFeedbackStates(): Promise<Map<string, 'loved' | 'disliked' | 'blocked'>> {
+    const states = new Map<string, 'loved' | 'disliked' | 'blocked'>();
+    for (const state of ['loved', 'disliked', 'blocked'] as const) {
+      const members: string[] = await this.redis.zRange(`user:${this.userId}:ai_${state}`, 0, -1);
+      for (const member of members) {
+        try {
+          states.set(JSON.parse(member).trackUri, state);
+        } catch {
+          // Old non-JSON entries carry no URI
+        }
+      }
+    }
+    return states;
+  }
+
+  private async getPlaylistTrackUris(playlistId: string): Promise<string[]> {
+    const uris: string[] = [];
+    for (let offset = 0; ; offset += PLAYLIST_PAGE_SIZE) {
+      const page = await this.spotifyApi.getPlaylistTracks(playlistId, PLAYLIST_PAGE_SIZE, offset);
+      const items: any[] = page?.items || [];
+      uris.push(...items.map(item => item.track?.uri).filter(Boolean));
+      if (items.length === 0 || offset + items.length >= (page.total ?? 0)) {
+        return uris;
+      }
+    }
+  }
+
   /**
    * Build contextual taste profile based on request type
    * Different request types get different emphasis and guidance
@@ -859,13 +1124,34 @@ export class UserDataService {
     topGenres: string[],
     topArtistsMedium: any[],
     topTracksMedium: any[],
-    aiFeedback: { loved: any[], disliked: any[] }
+    aiFeedback: { loved: any[], disliked: any[] },
+    rotation: HistorySummary | null = null,
+    implicitFeedback: ImplicitFeedback[] = []
   ): string {
     const baseData = {
       genres: topGenres.length > 0 ? topGenres.join(', ') : 'varied genres',
       artists: topArtistsMedium.slice(0, 10).map(a => a.name).join(', ') || 'various artists',
       tracks: topTracksMedium.slice(0, 10).map(t => `${t.name} by ${t.artists.map((a: any) => a.name).join(', ')}`).join('; ') || 'varied tracks'
     };
+    // Implicit signals only count once they've added up, and never override an explicit rating
+    const rated = new Set([...aiFeedback.loved, ...aiFeedback.disliked].map(t => t.trackUri));
+    const unrated = implicitFeedback.filter(f => !rated.has(f.trackUri));
+    const keptPlaying = unrated.filter(f => f.score >= IMPLICIT_PROFILE_THRESHOLD).slice(0, 3);
+    const keptSkipping = unrated.filter(f => f.score <= -IMPLICIT_PROFILE_THRESHOLD).slice(0, 3);
+    let implicitSection = '';
+    if (keptPlaying.length > 0 || keptSkipping.length > 0) {
+      implicitSection = '\n\nListening Signals (weaker than explicit feedback):';
+      if (keptPlaying.length > 0) {
+        implicitSection += `\n• Discoveries they played all the way through: ${keptPlaying.map(t => `${t.trackName} by ${t.artist}`).join('; ')}`;
+      }
+      if (keptSkipping.length > 0) {
+        implicitSection += `\n• Discoveries they skipped early: ${keptSkipping.map(t => `${t.trackName} by ${t.artist}`).join('; ')}`;
+      }
+    }
+
+    const rotationLine = rotation
+      ? `\n• Most played over the last 30 days: ${rotation.topTracks.map(t => `${t.name} by ${t.artist} (${t.plays} plays)`).join('; ')}`
+      : '';
 
     switch (contextType) {
       case 'specific':
@@ -881,7 +1167,7 @@ Note: This is background information only. The user has made a specific request
         let discoveryProfile = `This user's musical preferences:
 • Primary genres: ${baseData.genres}
 • Familiar artists: ${baseData.artists}
-• Recent favorites: ${baseData.tracks}`;
+• Recent favorites: ${baseData.tracks}${rotationLine}`;
 
         // Add AI feedback with discovery emphasis
         if (aiFeedback.loved.length > 0 || aiFeedback.disliked.length > 0) {
@@ -896,14 +1182,14 @@ Note: This is background information only. The user has made a specific request
           }
         }
 
-        return discoveryProfile;
+        return discoveryProfile + implicitSection;
 
       case 'conversational':
         // For chat/questions - focus on knowledge and context
         return `This user's musical background:
 • Interested in genres: ${baseData.genres}
 • Listens to artists like: ${baseData.artists}
-• Recent listening: ${baseData.tracks}`;
+• Recent listening: ${baseData.tracks}${rotationLine}`;
 
       case 'control':
         // For playback controls - minimal context needed
@@ -914,14 +1200,14 @@ Note: This is background information only. The user has made a specific request
         return `User's music library context:
 • Preferred genres: ${baseData.genres}
 • Known artists: ${baseData.artists}
-• Recent activity: ${baseData.tracks}`;
+• Recent activity: ${baseData.tracks}${rotationLine}`;
 
       default:
         // Default general profile (backward compatibility)
         let generalProfile = `User's musical preferences:
 • Tends to enjoy genres like: ${baseData.genres}
 • Often listens to artists such as: ${baseData.artists}
-• Recent listening includes: ${baseData.tracks}`;
+• Recent listening includes: ${baseData.tracks}${rotationLine}`;
 
         // Add AI feedback section if available
         if (aiFeedback.loved.length > 0 || aiFeedback.disliked.length > 0) {
@@ -936,7 +1222,7 @@ Note: This is background information only. The user has made a specific request
           }
         }
 
-        return generalProfile;
+        return generalProfile + implicitSection;
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { DJForgePlaylistSyncService } from '../DJForgePlaylistSyncService';
+import { UserDataService } from '../UserDataService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+const uri = (id: string) => `spotify:track:${id}`;
+
+describe('DJ Forge playlist sync', () => {
+  let backend: FakeMusicBackend;
+  let redis: FakeRedis;
+  let userData: UserDataService;
+
+  const playlistUris = async (): Promise<string[]> => {
+    const playlist = await backend.findPlaylistByName('DJ Forge');
+    return playlist ? (await backend.getPlaylistTracks(playlist.id)).items.map((item: any) => item.track.uri) : [];
+  };
+  const feedbackOf = async (id: string) => {
+    const [discovery] = (await redis.lRange('user:user-1:ai_discoveries', 0, -1)).map(d => JSON.parse(d)).filter(d => d.trackUri === uri(id));
+    return discovery.feedback;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new FakeMusicBackend();
+    redis = createFakeRedis();
+    redis.lists.set('user:user-1:ai_discoveries', [
+      { id: 'fake-teen-spirit', trackName: 'Smells Like Teen Spirit', artist: 'Nirvana' },
+      { id: 'fake-hurt', trackName: 'Hurt', artist: 'Nine Inch Nails' },
+      { id: 'fake-closer', trackName: 'Closer', artist: 'Nine Inch Nails' }
+    ].map(d => JSON.stringify({ trackUri: uri(d.id), trackName: d.trackName, artist: d.artist, reasoning: 'test', discoveredAt: 1 })));
+    userData = new UserDataService(redis, backend, 'user-1');
+  });
+
+  it('should take a track out of the playlist when it is disliked, blocked or unrated', async () => {
+    await userData.recordFeedback(uri('fake-teen-spirit'), 'loved');
+    await userData.recordFeedback(uri('fake-hurt'), 'loved');
+    await userData.recordFeedback(uri('fake-closer'), 'loved');
+    expect(await playlistUris()).toEqual([uri('fake-teen-spirit'), uri('fake-hurt'), uri('fake-closer')]);
+
+    await userData.recordFeedback(uri('fake-teen-spirit'), 'disliked');
+    await userData.recordFeedback(uri('fake-hurt'), 'blocked');
+    await userData.removeFeedback(uri('fake-closer'));
+
+    expect(await playlistUris()).toEqual([]);
+    expect(await redis.sMembers('user:user-1:dj_forge_synced')).toEqual([]);
+  });
+
+  it('should not create the playlist just to remove a track', async () => {
+    await userData.recordFeedback(uri('fake-hurt'), 'disliked');
+
+    expect(await backend.findPlaylistByName('DJ Forge')).toBeNull();
+  });
+
+  it('should follow edits made to the playlist in Spotify', async () => {
+    await userData.recordFeedback(uri('fake-teen-spirit'), 'loved');
+    await userData.recordFeedback(uri('fake-hurt'), 'disliked');
+    const playlist = await backend.findPlaylistByName('DJ Forge');
+
+    // In Spotify: drop the loved track, put the disliked one back, add a song of their own
+    await backend.removeTracksFromPlaylist(playlist.id, [uri('fake-teen-spirit')]);
+    await backend.addTracksToPlaylist(playlist.id, [uri('fake-hurt'), uri('fake-come-as-you-are')]);
+
+    const result = await userData.reconcileJDForgePlaylist();
+
+    expect(result).toEqual({ added: [], removed: [], loved: [uri('fake-hurt')], unloved: [uri('fake-teen-spirit')] });
+    expect(await feedbackOf('fake-teen-spirit')).toBeUndefined();
+    expect(await feedbackOf('fake-hurt')).toBe('loved');
+    expect(await playlistUris()).toEqual([uri('fake-hurt'), uri('fake-come-as-you-are')]);
+
+    // Nothing left to fix on the next run
+    expect(await userData.reconcileJDForgePlaylist()).toEqual({ added: [], removed: [], loved: [], unloved: [] });
+  });
+
+  it('should catch up on playlist updates that failed at the time', async () => {
+    await userData.recordFeedback(uri('fake-closer'), 'loved');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const add = jest.spyOn(backend, 'addTracksToPlaylist').mockRejectedValueOnce(new Error('rate limited'));
+    await userData.recordFeedback(uri('fake-hurt'), 'loved');
+    jest.spyOn(backend, 'removeTracksFromPlaylist').mockRejectedValueOnce(new Error('rate limited'));
+    await userData.recordFeedback(uri('fake-closer'), 'blocked');
+    expect(await playlistUris()).toEqual([uri('fake-closer')]);
+    add.mockRestore();
+
+    const sync = new DJForgePlaylistSyncService(redis, {
+      activeUsers: async () => [{ userId: 'user-1', sessionId: 'session-1' }, { userId: 'user-2', sessionId: null }],
+      backendFactory: async () => backend
+    });
+
+    expect(await sync.reconcileAll()).toEqual({ users: 1, changes: 2 });
+    expect(await playlistUris()).toEqual([uri('fake-hurt')]);
+    expect(await feedbackOf('fake-closer')).toBe('blocked');
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { FamilyModeService, getFamilyModeService } from '../FamilyModeService';
+import { applyListeningRules, getListeningRulesService } from '../ListeningRulesService';
+import { PromptAdapter } from '../../llm/prompts/adapter';
+import { FakeMusicBackend, DEFAULT_FAKE_TRACKS } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+describe('FamilyModeService', () => {
+  let familyMode: FamilyModeService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    familyMode = new FamilyModeService(createFakeRedis());
+  });
+
+  it('should apply everywhere without looking up the device', async () => {
+    const getDeviceId = jest.fn(async () => 'speaker');
+
+    expect(await familyMode.isActive('user-1', getDeviceId)).toBe(false);
+    await familyMode.setEnabled('user-1', true);
+    expect(await familyMode.isActive('user-1', getDeviceId)).toBe(true);
+    expect(getDeviceId).not.toHaveBeenCalled();
+  });
+
+  it('should apply per device only while that device is playing', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    await familyMode.setDeviceEnabled('user-1', 'office-speaker', true);
+    await familyMode.setDeviceEnabled('user-1', 'kitchen', true);
+    await familyMode.setDeviceEnabled('user-1', 'kitchen', false);
+
+    expect((await familyMode.getSettings('user-1')).deviceIds).toEqual(['office-speaker']);
+    expect(await familyMode.isActive('user-1', async () => 'office-speaker')).toBe(true);
+    expect(await familyMode.isActive('user-1', async () => 'headphones')).toBe(false);
+    expect(await familyMode.isActive('user-1', async () => { throw new Error('offline'); })).toBe(false);
+    expect(await familyMode.isActive('user-2', async () => 'office-speaker')).toBe(false);
+  });
+});
+
+describe('Family mode in SpotifyControl', () => {
+  let backend: FakeMusicBackend;
+  let control: SpotifyControl;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const redis = createFakeRedis();
+    getListeningRulesService(redis);
+    await getFamilyModeService(redis).setDeviceEnabled('user-1', 'fake-device', true);
+
+    backend = new FakeMusicBackend({
+      tracks: [
+        ...DEFAULT_FAKE_TRACKS.map(spec => spec.id === 'fake-closer' ? { ...spec, explicit: true } : spec),
+        { id: 'fake-anti-hero-explicit', name: 'Anti-Hero', artist: 'Taylor Swift', album: 'Midnights (3am Edition)', popularity: 99, explicit: true }
+      ]
+    });
+    control = new SpotifyControl(testTokens, () => {}, backend);
+    await applyListeningRules(control, 'user-1');
+  });
+
+  it('should leave explicit tracks out of search so the clean version plays', async () => {
+    expect(control.isFamilyMode()).toBe(true);
+    expect((await control.search('Anti-Hero')).map((t: any) => t.uri)).toEqual(['spotify:track:fake-anti-hero']);
+
+    const result: any = await control.searchAndPlay('Anti-Hero', 'Taylor Swift', 'Anti-Hero');
+    expect(result.success).toBe(true);
+    expect(result.track.uri).toBe('spotify:track:fake-anti-hero');
+  });
+
+  it('should say when a song has no clean version', async () => {
+    const result: any = await control.queueTrack('Closer', 'Nine Inch Nails', 'Closer');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('No clean version found for: "Closer" (family mode is on)');
+  });
+
+  it('should play playlists as a filtered track list', async () => {
+    const result: any = await control.playPlaylist('spotify:playlist:fake-90s-rock');
+
+    expect(result.success).toBe(true);
+    expect(result.playlistInfo.method).toBe('track_list');
+    expect(result.skipped.map((t: any) => [t.name, t.reason])).toEqual([['Closer', 'explicit content is filtered']]);
+    expect((await backend.getQueue()).queue.map((t: any) => t.name)).toEqual(['Come as You Are', 'Hurt']);
+  });
+
+  it('should stay off for other users', async () => {
+    const other = new SpotifyControl(testTokens, () => {}, backend);
+    await applyListeningRules(other, 'user-2');
+
+    expect(other.isFamilyMode()).toBe(false);
+    expect((await other.search('Anti-Hero')).map((t: any) => t.uri)).toContain('spotify:track:fake-anti-hero-explicit');
+  });
+});
+
+describe('PromptAdapter family mode', () => {
+  it('should only add the family mode instructions when it is on', () => {
+    expect(PromptAdapter.forOpenRouter('play some rap', undefined, undefined, { familyMode: true })).toContain('### Family Mode (ON) ###');
+    expect(PromptAdapter.forGemini('play some rap', undefined, undefined, { familyMode: true })).toContain('clean (non-explicit) version');
+    expect(PromptAdapter.forOpenRouter('play some rap')).not.toContain('Family Mode');
+    expect(PromptAdapter.forOpenAI('play some rap')).not.toContain('Family Mode');
+  });
+});
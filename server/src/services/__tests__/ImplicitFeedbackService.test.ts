@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+import { ImplicitFeedbackService, classifyTrackChange } from '../ImplicitFeedbackService';
+import { PlaybackWatcherService, WatchedPlaybackState } from '../PlaybackWatcherService';
+import { UserDataService } from '../UserDataService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+import { ImplicitFeedback } from '../../types';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+const discovery = (id: string, trackName: string, artist: string) => ({
+  trackUri: `spotify:track:${id}`,
+  trackName,
+  artist,
+  reasoning: 'test',
+  discoveredAt: 1
+});
+
+describe('Implicit feedback from the playback watcher', () => {
+  let backend: FakeMusicBackend;
+  let redis: FakeRedis;
+  let now: number;
+  let watcher: PlaybackWatcherService;
+
+  beforeEach(async () => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new FakeMusicBackend();
+    redis = createFakeRedis();
+    redis.lists.set('user:user-1:ai_discoveries', [
+      discovery('fake-teen-spirit', 'Smells Like Teen Spirit', 'Nirvana'),
+      discovery('fake-come-as-you-are', 'Come as You Are', 'Nirvana')
+    ].map(d => JSON.stringify(d)));
+    now = 1_700_000_000_000;
+    watcher = new PlaybackWatcherService({ now: () => now, backendFactory: async () => backend, emitter: () => null });
+    const implicitFeedback = new ImplicitFeedbackService(redis);
+    watcher.onTrackChange((userId, previous, current, b) => implicitFeedback.handleTrackChange(userId, previous, current, b));
+
+    // Teen Spirit -> Come as You Are -> Hurt -> Closer
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    watcher.userConnected('user-1', 'session-1');
+    await watcher.poll('user-1');
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+  });
+
+  const advance = (ms: number) => {
+    backend.advanceTime(ms);
+    now += ms;
+  };
+  const stored = async (id: string): Promise<ImplicitFeedback | null> => {
+    const raw = await redis.hGet('user:user-1:ai_implicit', `spotify:track:${id}`);
+    return raw ? JSON.parse(raw) : null;
+  };
+
+  it('should record an early skip of an AI discovery', async () => {
+    advance(10000);
+    await backend.nextTrack();
+    await watcher.poll('user-1');
+
+    expect(await stored('fake-teen-spirit')).toMatchObject({ earlySkips: 1, fullListens: 0, score: -0.3 });
+  });
+
+  it('should record a full listen once the track was seen near its end', async () => {
+    advance(296000);                // 5 seconds left
+    await watcher.poll('user-1');
+    advance(6000);
+    await watcher.poll('user-1');
+
+    expect(await stored('fake-teen-spirit')).toMatchObject({ earlySkips: 0, fullListens: 1, score: 0.2 });
+  });
+
+  it('should ignore skips it can\'t be sure about and tracks that weren\'t discoveries', async () => {
+    // Last seen at 2:00, skipped some time before the next poll
+    advance(120000);
+    await watcher.poll('user-1');
+    advance(15000);
+    await backend.nextTrack();
+    await watcher.poll('user-1');
+    expect(await stored('fake-teen-spirit')).toBeNull();
+
+    // Come as You Are is a discovery, Hurt isn't
+    await backend.nextTrack();
+    await watcher.poll('user-1');
+    await backend.nextTrack();
+    await watcher.poll('user-1');
+    expect(await stored('fake-come-as-you-are')).toMatchObject({ earlySkips: 1 });
+    expect(redis.hSet).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('classifyTrackChange', () => {
+  const state = (overrides: Partial<WatchedPlaybackState>): WatchedPlaybackState => ({
+    isPlaying: true,
+    track: { name: 'Song', artist: 'Artist', album: 'Album', albumArt: null, duration: 200, position: 0, id: 'song', uri: 'spotify:track:song' },
+    positionMs: 0,
+    durationMs: 200000,
+    device: 'Speaker',
+    deviceId: 'speaker',
+    contextUri: null,
+    shuffleState: false,
+    repeatState: 'off',
+    volume: 50,
+    observedAt: 0,
+    ...overrides
+  });
+  const next = state({ track: { ...state({}).track!, uri: 'spotify:track:next' }, observedAt: 5000 });
+
+  it('should not call stopping playback a skip', () => {
+    expect(classifyTrackChange(state({ positionMs: 1000 }), state({ track: null, observedAt: 5000 }))).toBeNull();
+    expect(classifyTrackChange(state({ positionMs: 1000 }), next)).toBe('early_skip');
+    expect(classifyTrackChange(state({ positionMs: 195000 }), state({ track: null, observedAt: 5000 }))).toBe('full_listen');
+  });
+
+  it('should leave short tracks alone', () => {
+    expect(classifyTrackChange(state({ durationMs: 25000, positionMs: 1000 }), next)).toBeNull();
+  });
+});
+
+describe('Implicit feedback in the taste profile', () => {
+  const implicit = (trackName: string, score: number): ImplicitFeedback => ({
+    trackUri: `spotify:track:${trackName}`,
+    trackName,
+    artist: 'Artist',
+    earlySkips: score < 0 ? Math.round(-score / 0.3) : 0,
+    fullListens: score > 0 ? Math.round(score / 0.2) : 0,
+    score,
+    updatedAt: 1
+  });
+
+  it('should include repeated signals below explicit feedback, never overriding a rating', () => {
+    const userData = new UserDataService(null, new FakeMusicBackend(), 'user-1');
+    const loved = { trackUri: 'spotify:track:Rated', trackName: 'Rated', artist: 'Artist', reasoning: '', discoveredAt: 1 };
+
+    const profile = userData['buildContextualProfile'](
+      undefined,
+      ['rock'],
+      [{ name: 'Nirvana' }],
+      [],
+      { loved: [loved], disliked: [] },
+      null,
+      [implicit('Kept', 0.6), implicit('Once', -0.3), implicit('Skipped', -0.6), implicit('Rated', -0.9)]
+    );
+
+    expect(profile).toContain('Listening Signals (weaker than explicit feedback):');
+    expect(profile).toContain('played all the way through: Kept by Artist');
+    expect(profile).toContain('skipped early: Skipped by Artist');
+    expect(profile).not.toContain('Once by Artist');
+    expect(profile.indexOf('Loved these discoveries')).toBeLessThan(profile.indexOf('Listening Signals'));
+    expect(profile.split('Rated by Artist')).toHaveLength(2);
+  });
+});
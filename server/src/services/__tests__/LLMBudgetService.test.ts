@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { createHash } from 'crypto';
+import { LLMBudgetService } from '../LLMBudgetService';
+import { LLMLoggingService, LLMLogEntry } from '../llm-logging.service';
+import { MODEL_PRICING, estimateCost, getModelPricing } from '../../llm/pricing';
+import { OPENROUTER_MODELS } from '../../llm/orchestrator';
+import { OPENAI_MODELS } from '../../llm/providers/OpenAIProvider';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+// Log entries carry the hashed user ID, as the routes write them
+function hashUserId(userId: string): string {
+  return createHash('sha256').update(userId).digest('hex').substring(0, 16);
+}
+
+function logEntry(userId: string, model: string, promptTokens: number, completionTokens: number): Omit<LLMLogEntry, 'id'> {
+  return {
+    timestamp: Date.now(),
+    userId: hashUserId(userId),
+    sessionId: 'session-1',
+    command: 'play something',
+    interpretation: {},
+    llmRequest: { model, provider: 'openrouter', flow: 'openrouter', messages: [], temperature: 0.7 },
+    llmResponse: {
+      content: '{}',
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+      latency: 500
+    },
+    result: { success: true, message: 'ok' }
+  };
+}
+
+describe('LLM pricing', () => {
+  it('should price every model the app can call', () => {
+    const models = [...Object.values(OPENROUTER_MODELS), ...Object.values(OPENAI_MODELS)];
+
+    expect(models.filter(model => !MODEL_PRICING[model])).toEqual([]);
+  });
+
+  it('should price direct, prefixed and free variants of a model', () => {
+    expect(getModelPricing('gemini-2.5-flash')).toEqual(MODEL_PRICING['google/gemini-2.5-flash']);
+    expect(getModelPricing('openai/gpt-5-mini')).toEqual(MODEL_PRICING['gpt-5-mini']);
+    expect(getModelPricing('qwen/qwen3-8b:free')).toEqual({ input: 0, output: 0 });
+    expect(getModelPricing('someone/unknown-model')).toBeNull();
+
+    // 2000 prompt tokens at $3/M + 500 completion tokens at $15/M
+    expect(estimateCost('anthropic/claude-sonnet-4', { prompt_tokens: 2000, completion_tokens: 500 })).toBeCloseTo(0.0135);
+  });
+});
+
+describe('LLM budgets', () => {
+  let redis: FakeRedis;
+  let logging: LLMLoggingService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    redis = createFakeRedis();
+    logging = new LLMLoggingService(redis);
+  });
+
+  it('should roll up cost per user, per day and per model', async () => {
+    await logging.logInteraction(logEntry('user-1', 'anthropic/claude-sonnet-4', 2000, 500));
+    await logging.logInteraction(logEntry('user-1', 'google/gemini-2.5-flash', 1000, 200));
+    await logging.logInteraction(logEntry('user-2', 'google/gemini-2.5-flash', 1000, 200));
+
+    const [today] = await logging.getUserCosts('user-1', new Date());
+    expect(today).toEqual(expect.objectContaining({
+      costUsd: 0.0143,
+      queries: 2,
+      promptTokens: 3000,
+      completionTokens: 700,
+      byModel: { 'anthropic/claude-sonnet-4': 0.0135, 'google/gemini-2.5-flash': 0.0008 }
+    }));
+
+    const stats = await logging.getCostStats(new Date());
+    expect(stats.totalUsd).toBe(0.0151);
+    expect(stats.daily[0].queries).toBe(3);
+    expect(stats.topUsers).toEqual([
+      { userId: hashUserId('user-1'), costUsd: 0.0143 },
+      { userId: hashUserId('user-2'), costUsd: 0.0008 }
+    ]);
+  });
+
+  it('should move to the budget model over the soft limit and refuse expensive flows over the hard one', async () => {
+    const budget = new LLMBudgetService(redis, { softLimitUsd: 0.01, hardLimitUsd: 0.02, budgetModel: 'google/gemini-2.5-flash-lite-preview-06-17' });
+
+    expect(await budget.chooseModel('user-1', 'anthropic/claude-sonnet-4')).toEqual(expect.objectContaining({ model: 'anthropic/claude-sonnet-4', downgraded: false }));
+
+    await logging.logInteraction(logEntry('user-1', 'anthropic/claude-sonnet-4', 2000, 500));
+    expect(await budget.chooseModel('user-1', 'anthropic/claude-sonnet-4')).toEqual(expect.objectContaining({
+      model: 'google/gemini-2.5-flash-lite-preview-06-17',
+      downgraded: true,
+      budget: expect.objectContaining({ level: 'soft', spentUsd: 0.0135 })
+    }));
+    // Already cheaper than the budget model - nothing to save
+    expect((await budget.chooseModel('user-1', 'qwen/qwen3-4b')).model).toBe('qwen/qwen3-4b');
+    expect((await budget.allowsExpensiveFlow('user-1')).allowed).toBe(true);
+
+    await logging.logInteraction(logEntry('user-1', 'anthropic/claude-sonnet-4', 2000, 500));
+    expect(await budget.allowsExpensiveFlow('user-1')).toEqual({ allowed: false, budget: expect.objectContaining({ level: 'hard' }) });
+    expect((await budget.allowsExpensiveFlow('user-2')).allowed).toBe(true);
+  });
+
+  it('should not limit anyone when no budget is configured', async () => {
+    const budget = new LLMBudgetService(redis, { softLimitUsd: null, hardLimitUsd: null });
+    await logging.logInteraction(logEntry('user-1', 'anthropic/claude-opus-4', 100000, 10000));
+
+    expect((await budget.chooseModel('user-1', 'anthropic/claude-opus-4')).downgraded).toBe(false);
+    const usage = await budget.getUsage('user-1', 7);
+    expect(usage.daily).toHaveLength(7);
+    expect(usage.totalUsd).toBe(2.25);
+    expect(usage.queries).toBe(1);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { ListeningHistoryService, summarizeHistory, describeHistory } from '../ListeningHistoryService';
+import { parseHistoryPeriod } from '../../utils/historyPeriod';
+import { DEFAULT_FAKE_TRACKS, fakeTrack } from '../../spotify/fake-backend';
+import { MusicBackend } from '../../spotify/backend';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const START = Date.parse('2025-01-01T00:00:00Z');
+
+// A backend whose recently played is whatever the test says (newest first, like Spotify)
+function recentlyPlayed(...plays: Array<[string, number]>): MusicBackend {
+  return {
+    getRecentlyPlayed: async () => plays.map(([id, playedAt]) => ({
+      track: fakeTrack(DEFAULT_FAKE_TRACKS.find(spec => spec.id === id)!),
+      played_at: new Date(playedAt).toISOString(),
+      context: null
+    }))
+  } as unknown as MusicBackend;
+}
+
+describe('ListeningHistoryService', () => {
+  let redis: FakeRedis;
+  let backend: MusicBackend;
+  let now: number;
+  let history: ListeningHistoryService;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    redis = createFakeRedis();
+    backend = recentlyPlayed(['fake-hurt', START]);
+    now = START + DAY_MS;
+    history = new ListeningHistoryService(redis, {
+      now: () => now,
+      retentionDays: 180,
+      backendFactory: async sessionId => sessionId === 'session-1' ? backend : null
+    });
+  });
+
+  it('should only append plays it has not stored yet', async () => {
+    const first = recentlyPlayed(['fake-closer', START + 2000], ['fake-hurt', START + 1000]);
+    expect(await history.ingestUser('user-1', first)).toBe(2);
+    expect(await history.ingestUser('user-1', first)).toBe(0);
+
+    // Spotify's list overlaps with what was already stored
+    const later = recentlyPlayed(['fake-come-as-you-are', START + 3000], ['fake-closer', START + 2000]);
+    expect(await history.ingestUser('user-1', later)).toBe(1);
+
+    const plays = await history.getPlays('user-1');
+    expect(plays.map(p => p.track.name)).toEqual(['Come as You Are', 'Closer', 'Hurt']);
+    expect(plays[0].track.artists).toEqual([{ id: expect.any(String), name: 'Nirvana' }]);
+    expect(await history.getPlays('user-1', { limit: 1 })).toHaveLength(1);
+    expect(await history.getPlays('user-1', { from: START + 1500, to: START + 2500 })).toHaveLength(1);
+    expect(await history.getPlayCount('user-1')).toBe(3);
+  });
+
+  it('should drop plays older than the retention window', async () => {
+    await history.ingestUser('user-1', recentlyPlayed(['fake-hurt', START]));
+
+    now = START + 200 * DAY_MS;
+    await history.ingestUser('user-1', recentlyPlayed(['fake-closer', now - DAY_MS], ['fake-hurt', START]));
+
+    expect((await history.getPlays('user-1')).map(p => p.track.name)).toEqual(['Closer']);
+  });
+
+  it('should ingest active users and forget ones who logged out', async () => {
+    await history.markActive('user-1', 'session-1');
+    await history.markActive('user-1', 'session-1');
+    await history.markActive('user-2', 'session-2');
+    expect(redis.zAdd).toHaveBeenCalledTimes(2);
+
+    expect(await history.ingestAll()).toEqual({ users: 1, plays: 1 });
+    expect(await redis.zRange('listening_history:active', 0, -1)).toEqual(['user-1']);
+    expect(await redis.hGet('listening_history:sessions', 'user-2')).toBeNull();
+
+    // A month without using the app drops them from the ingester too
+    now += 31 * DAY_MS;
+    expect(await history.ingestAll()).toEqual({ users: 0, plays: 0 });
+  });
+
+  it('should summarize and describe plays for the LLM', async () => {
+    await history.ingestUser('user-1', recentlyPlayed(
+      ['fake-come-as-you-are', START + 3000],
+      ['fake-teen-spirit', START + 2000],
+      ['fake-hurt', START + 1000]
+    ));
+    const plays = await history.getPlays('user-1');
+
+    const summary = summarizeHistory(plays);
+    expect(summary.plays).toBe(3);
+    expect(summary.topArtists[0]).toEqual({ name: 'Nirvana', plays: 2 });
+    expect(summary.firstPlayedAt! < summary.lastPlayedAt!).toBe(true);
+
+    const text = describeHistory(plays, 'yesterday', 'UTC');
+    expect(text).toContain('Listening history for yesterday: 3 plays');
+    expect(text.indexOf('"Hurt"')).toBeLessThan(text.indexOf('"Come as You Are"'));
+    expect(describeHistory([], 'last week')).toBe('Listening history for last week: no plays recorded.');
+  });
+});
+
+describe('parseHistoryPeriod', () => {
+  // Sunday 02:00 UTC - still Saturday evening in Los Angeles
+  const now = Date.parse('2026-10-18T02:00:00Z');
+
+  it('should find last Tuesday in the user\'s timezone', () => {
+    expect(parseHistoryPeriod('what was I listening to last Tuesday?', now, 'America/Los_Angeles')).toEqual({
+      from: Date.parse('2026-10-13T07:00:00Z'),
+      to: Date.parse('2026-10-14T07:00:00Z') - 1,
+      label: 'Tuesday, Oct 13'
+    });
+    expect(parseHistoryPeriod('what did I play on saturday', now, 'UTC')?.from).toBe(Date.parse('2026-10-17T00:00:00Z'));
+    expect(parseHistoryPeriod('what did I play on saturday', now, 'America/Los_Angeles')?.from)
+      .toBe(Date.parse('2026-10-10T07:00:00Z'));
+  });
+
+  it('should handle relative days, weeks and DST changes', () => {
+    expect(parseHistoryPeriod('3 days ago', now, 'UTC')?.from).toBe(Date.parse('2026-10-15T00:00:00Z'));
+    expect(parseHistoryPeriod('my top songs this week', now, 'UTC')?.from).toBe(Date.parse('2026-10-12T00:00:00Z'));
+    expect(parseHistoryPeriod('last week', now, 'UTC')).toMatchObject({
+      from: Date.parse('2026-10-05T00:00:00Z'),
+      to: Date.parse('2026-10-12T00:00:00Z') - 1
+    });
+    expect(parseHistoryPeriod('past 7 days', now, 'UTC')).toMatchObject({ from: now - 7 * DAY_MS, to: now });
+
+    // Clocks went back on Nov 1, so yesterday was 25 hours long
+    const yesterday = parseHistoryPeriod('yesterday', Date.parse('2026-11-02T12:00:00Z'), 'America/Los_Angeles')!;
+    expect(yesterday.from).toBe(Date.parse('2026-11-01T07:00:00Z'));
+    expect(yesterday.to + 1 - yesterday.from).toBe(25 * 60 * 60 * 1000);
+  });
+
+  it('should ignore commands without a period', () => {
+    expect(parseHistoryPeriod('play some jazz', now, 'UTC')).toBeNull();
+    expect(parseHistoryPeriod('what was playing 900 days ago', now, 'UTC')).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { ListeningReportService, compareGenres, findLikelySkips, renderReportHtml } from '../ListeningReportService';
+import { UserDataService } from '../UserDataService';
+import { HistoryPlay } from '../ListeningHistoryService';
+import { LLMRequest, LLMResponse } from '../../llm/orchestrator';
+import { createFakeRedis } from '../../__tests__/helpers/redis';
+
+const NOW = Date.parse('2026-10-18T12:00:00Z');
+const MINUTE = 60 * 1000;
+
+const artist = (name: string, genres: string[]): any => ({ id: name, name, genres, images: [{ url: `https://img/${name}` }] });
+
+function play(name: string, artistName: string, endedAt: number, durationMin: number = 4): HistoryPlay {
+  return {
+    played_at: new Date(endedAt).toISOString(),
+    track: {
+      id: name,
+      uri: `spotify:track:${name.toLowerCase().replace(/\W+/g, '-')}`,
+      name,
+      artists: [{ id: artistName, name: artistName }],
+      album: { id: 'album', name: 'Album' },
+      duration_ms: durationMin * MINUTE
+    }
+  };
+}
+
+// Newest first, like the history store returns them
+const PLAYS = [
+  play('Intro', 'Ambient Guy', NOW - 7 * MINUTE),
+  play('Hurt', 'Nine Inch Nails', NOW - 11 * MINUTE),          // Cut short after a minute
+  play('Closer', 'Nine Inch Nails', NOW - 12 * MINUTE, 6),     // Played 4 of 6 minutes - not a skip
+  play('Hurt', 'Nine Inch Nails', NOW - 16 * MINUTE),          // Cut short after a minute
+  play('Closer', 'Nine Inch Nails', NOW - 17 * MINUTE, 6)
+];
+
+function createUserData(plays: HistoryPlay[]) {
+  return {
+    getUserProfile: jest.fn(async () => ({ display_name: 'Sam <3' })),
+    getListeningHistory: jest.fn(async () => plays),
+    getTopArtists: jest.fn(async (range: string) => range === 'short_term'
+      ? [artist('Nine Inch Nails', ['industrial']), artist('Ambient Guy', ['ambient'])]
+      : [artist('Queen', ['classic rock']), artist('Nine Inch Nails', ['industrial'])]),
+    getTopTracks: jest.fn(async () => [{ name: 'Bohemian Rhapsody', uri: 'spotify:track:bo-rhap', artists: [{ name: 'Queen' }] }]),
+    getAIFeedbackDashboard: jest.fn(async () => ({
+      discoveries: [{ trackUri: 'a', discoveredAt: NOW - MINUTE }, { trackUri: 'old', discoveredAt: NOW - 60 * 24 * 60 * MINUTE }],
+      loved: [{ trackUri: 'a', discoveredAt: NOW - MINUTE, feedbackAt: NOW }],
+      disliked: [{ trackUri: 'b', discoveredAt: NOW - 2 * MINUTE, feedbackAt: NOW }],
+      blocked: [{ trackUri: 'old', discoveredAt: NOW - 60 * 24 * 60 * MINUTE, feedbackAt: NOW - 60 * 24 * 60 * MINUTE }]
+    }))
+  } as unknown as UserDataService;
+}
+
+function llm(content: string) {
+  return jest.fn(async (_request: LLMRequest): Promise<LLMResponse> => ({ content, model: 'test-model' } as LLMResponse));
+}
+
+describe('ListeningReportService', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should build the report from the listening history', async () => {
+    const complete = llm(JSON.stringify({ highlights: ['Nine Inch Nails ruled your month.', '  '] }));
+    const reports = new ListeningReportService(null, createUserData(PLAYS), 'user-1', { now: () => NOW, complete });
+
+    const report = await reports.generate('month');
+
+    expect(report.source).toBe('history');
+    expect(report.listening).toEqual({ plays: 5, minutes: 24 });
+    expect(report.topArtists[0]).toEqual({ name: 'Nine Inch Nails', plays: 4, imageUrl: 'https://img/Nine Inch Nails' });
+    expect(report.mostSkipped).toEqual([{ name: 'Hurt', artist: 'Nine Inch Nails', uri: 'spotify:track:hurt', skips: 2 }]);
+    expect(report.aiDiscoveries).toEqual({ discovered: 1, loved: 1, disliked: 1, blocked: 0, hitRate: 0.5 });
+    expect(report.genres.rising.map(g => g.genre)).toEqual(['industrial', 'ambient']);
+    expect(report.genres.fading.map(g => g.genre)).toEqual(['classic rock']);
+    expect(report.highlights).toEqual(['Nine Inch Nails ruled your month.']);
+    expect(complete.mock.calls[0][0].skipValidation).toBe(true);
+  });
+
+  it('should fall back to Spotify top lists and plain highlights', async () => {
+    const complete = llm('not json');
+    const reports = new ListeningReportService(null, createUserData([]), 'user-1', { now: () => NOW, complete });
+
+    const report = await reports.generate('week');
+
+    expect(report.source).toBe('spotify_top');
+    expect(report.topTracks).toEqual([{ name: 'Bohemian Rhapsody', artist: 'Queen', uri: 'spotify:track:bo-rhap' }]);
+    expect(report.highlights).toContain('Nine Inch Nails was your top artist.');
+    expect(report.highlights).toContain('You loved 50% of the AI discoveries you rated.');
+  });
+
+  it('should cache reports per period', async () => {
+    const redis = createFakeRedis();
+    const userData = createUserData(PLAYS);
+    const reports = new ListeningReportService(redis, userData, 'user-1', { now: () => NOW });
+
+    const first = await reports.getReport('month');
+    expect(await reports.getReport('month')).toEqual(first);
+    expect(userData.getListeningHistory).toHaveBeenCalledTimes(1);
+    expect(redis.strings.has('user:user-1:report:month')).toBe(true);
+
+    await reports.getReport('month', true);
+    expect(userData.getListeningHistory).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('report helpers', () => {
+  it('should not count back-to-back full plays as skips', () => {
+    expect(findLikelySkips([play('B', 'X', NOW + 4 * MINUTE), play('A', 'X', NOW)])).toEqual([]);
+  });
+
+  it('should measure genre shifts in percentage points', () => {
+    const shifts = compareGenres([artist('A', ['jazz'])], [artist('A', ['jazz']), artist('B', ['rock'])]);
+    expect(shifts.top).toEqual([{ genre: 'jazz', share: 100, change: 33.3 }]);
+    expect(shifts.fading).toEqual([{ genre: 'rock', share: 0, change: -33.3 }]);
+  });
+
+  it('should render a standalone page with escaped content', async () => {
+    const reports = new ListeningReportService(null, createUserData(PLAYS), 'user-1', { now: () => NOW });
+    const html = renderReportHtml(await reports.generate('year'));
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('Your year in music');
+    expect(html).toContain('Sam &lt;3');
+    expect(html).not.toContain('<script');
+  });
+});
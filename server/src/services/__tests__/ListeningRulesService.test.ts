@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import {
+  ListeningRulesService,
+  ListeningRules,
+  EMPTY_LISTENING_RULES,
+  checkTrackAgainstRules,
+  normalizeListeningRules
+} from '../ListeningRulesService';
+import { FakeMusicBackend, DEFAULT_FAKE_TRACKS, fakeTrack } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+const GENRES: Record<string, string[]> = {
+  'Nirvana': ['grunge', 'alternative rock'],
+  'Nine Inch Nails': ['industrial metal', 'industrial rock']
+};
+
+const rules = (overrides: Partial<ListeningRules>): ListeningRules => ({ ...EMPTY_LISTENING_RULES, ...overrides });
+
+describe('Listening rules in SpotifyControl', () => {
+  let backend: FakeMusicBackend;
+  let control: SpotifyControl;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new FakeMusicBackend({
+      tracks: [
+        ...DEFAULT_FAKE_TRACKS.map(spec => ({ ...spec, genres: GENRES[spec.artist] })),
+        { id: 'fake-anti-hero-explicit', name: 'Anti-Hero', artist: 'Taylor Swift', album: 'Midnights (3am Edition)', popularity: 99, explicit: true, releaseDate: '2022-10-21' }
+      ]
+    });
+    control = new SpotifyControl(testTokens, () => {}, backend);
+  });
+
+  const nowPlaying = async () => (await backend.getCurrentPlayback())?.item?.uri;
+
+  it('should refuse a blocked artist and say why', async () => {
+    control.setListeningRules(rules({ blockedArtists: ['nirvana'] }));
+
+    const result: any = await control.searchAndPlay('Smells Like Teen Spirit', 'Nirvana', 'Smells Like Teen Spirit');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Skipped "Smells Like Teen Spirit" by Nirvana (you\'ve blocked Nirvana)');
+    expect(result.skipped).toEqual([expect.objectContaining({ uri: 'spotify:track:fake-teen-spirit', rule: 'artist' })]);
+    expect(await nowPlaying()).toBeUndefined();
+    await expect(control.playTrack('spotify:track:fake-come-as-you-are')).rejects.toThrow('you\'ve blocked Nirvana');
+  });
+
+  it('should swap an explicit match for the clean version', async () => {
+    control.setListeningRules(rules({ explicitFilter: true }));
+
+    const result: any = await control.queueTrack('Anti-Hero', 'Taylor Swift', 'Anti-Hero');
+
+    expect(result.success).toBe(true);
+    expect(result.track.uri).toBe('spotify:track:fake-anti-hero');
+    expect(result.message).toContain('swapped in for "Anti-Hero" because explicit content is filtered');
+    expect(result.skipped).toEqual([expect.objectContaining({ uri: 'spotify:track:fake-anti-hero-explicit', rule: 'explicit' })]);
+  });
+
+  it('should drop blocked genres and eras from playlists', async () => {
+    const addToQueue = jest.spyOn(backend, 'addToQueue');
+    control.setListeningRules(rules({ blockedGenres: ['metal'] }));
+    const played: any = await control.playPlaylist('spotify:playlist:fake-90s-rock');
+
+    expect(played.success).toBe(true);
+    expect(played.skipped.map((t: any) => t.name)).toEqual(['Hurt', 'Closer']);
+    expect(played.message).toContain('with 2 tracks');
+    // Played as a track list - nothing lands in the user's own queue
+    expect(addToQueue).not.toHaveBeenCalled();
+    expect(await nowPlaying()).toBe('spotify:track:fake-teen-spirit');
+    expect((await backend.getQueue()).queue.map((t: any) => t.name)).toEqual(['Come as You Are']);
+
+    control.setListeningRules(rules({ blockedEras: [{ fromYear: 1970, toYear: 1979 }] }));
+    const queued: any = await control.queuePlaylist('fake-queen-best');
+    expect(queued.success).toBe(false);
+    expect(queued.message).toBe('Every track in that playlist is blocked by your listening rules');
+  });
+
+  it('should read playlists past their first page of tracks', async () => {
+    const trackIds = Array.from({ length: 75 }, () => ['fake-teen-spirit', 'fake-hurt']).flat();
+    backend.addPlaylist({ id: 'long-mix', name: 'Long Mix', trackIds });
+    control.setListeningRules(rules({ blockedGenres: ['metal'] }));
+
+    const played: any = await control.playPlaylist('spotify:playlist:long-mix');
+
+    expect(played.success).toBe(true);
+    expect(played.message).toContain('with 75 tracks');
+    expect(played.skipped).toHaveLength(75);
+  });
+
+  it('should apply era rules to albums, whose track listings have no release date', async () => {
+    control.setListeningRules(rules({ blockedEras: [{ fromYear: 1990, toYear: 1999 }] }));
+
+    const result: any = await control.playPlaylist('spotify:album:nirvana-nevermind');
+
+    expect(result.success).toBe(false);
+    expect(result.message).toBe('Every track in that album is blocked by your listening rules');
+    expect(await nowPlaying()).toBeUndefined();
+  });
+
+  it('should not touch playback when no rules are set', async () => {
+    const result: any = await control.playTracks(['spotify:track:fake-hurt', 'spotify:track:fake-anti-hero-explicit']);
+
+    expect(result).toMatchObject({ success: true, message: 'Started playing 2 tracks' });
+    expect(result.skipped).toBeUndefined();
+  });
+});
+
+describe('checkTrackAgainstRules', () => {
+  const closer = fakeTrack({ id: 'fake-closer', name: 'Closer', artist: 'Nine Inch Nails', releaseDate: '1994-03-08' });
+
+  it('should block a song by title only when no exact recording was given', () => {
+    expect(checkTrackAgainstRules(closer, rules({ blockedTracks: [{ name: 'closer' }] }))?.rule).toBe('track');
+    expect(checkTrackAgainstRules(closer, rules({ blockedTracks: [{ name: 'Closer', artist: 'The Chainsmokers' }] }))).toBeNull();
+    expect(checkTrackAgainstRules(closer, rules({ blockedTracks: [{ name: 'Closer', uri: 'spotify:track:other' }] }))).toBeNull();
+  });
+
+  it('should match genres on word boundaries and describe decades', () => {
+    expect(checkTrackAgainstRules(closer, rules({ blockedGenres: ['metal'] }), ['industrial metal'])?.reason).toBe('you\'ve blocked metal');
+    expect(checkTrackAgainstRules(closer, rules({ blockedGenres: ['rock'] }), ['krautrock'])).toBeNull();
+    expect(checkTrackAgainstRules(closer, rules({ blockedEras: [{ fromYear: 1990, toYear: 1999 }] }))?.reason)
+      .toBe('you\'ve blocked music from the 1990s');
+  });
+});
+
+describe('ListeningRulesService', () => {
+  it('should normalize what the client sends', () => {
+    expect(normalizeListeningRules({
+      blockedArtists: [' Nickelback ', 'nickelback', 42, ''],
+      blockedTracks: [{ name: ' Closer ', uri: 'not-a-uri' }, { artist: 'No name' }],
+      explicitFilter: 'yes',
+      blockedGenres: ['Metal'],
+      blockedEras: [{ fromYear: 1980, toYear: 1989 }, { fromYear: 2000, toYear: 1990 }, { fromYear: 'x', toYear: 2000 }]
+    })).toEqual({
+      blockedArtists: ['Nickelback'],
+      blockedTracks: [{ name: 'Closer' }],
+      explicitFilter: false,
+      blockedGenres: ['Metal'],
+      blockedEras: [{ fromYear: 1980, toYear: 1989 }]
+    });
+  });
+
+  it('should save rules and enforce tracks blocked through discovery feedback', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const redis = createFakeRedis();
+    const service = new ListeningRulesService(redis);
+
+    await service.saveRules('user-1', { blockedArtists: ['Queen'], explicitFilter: true });
+    await redis.zAdd('user:user-1:ai_blocked', {
+      score: 1,
+      value: JSON.stringify({ trackUri: 'spotify:track:fake-hurt', trackName: 'Hurt', artist: 'Nine Inch Nails, Johnny Cash' })
+    });
+
+    expect(await service.getRules('user-1')).toMatchObject({ blockedArtists: ['Queen'], explicitFilter: true, blockedTracks: [] });
+    expect((await service.getEnforcedRules('user-1')).blockedTracks).toEqual([
+      { uri: 'spotify:track:fake-hurt', name: 'Hurt', artist: 'Nine Inch Nails' }
+    ]);
+    expect(await new ListeningRulesService(null).getRules('user-1')).toEqual(EMPTY_LISTENING_RULES);
+  });
+});
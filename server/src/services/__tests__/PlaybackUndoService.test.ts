@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { PlaybackUndoService } from '../PlaybackUndoService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+describe('PlaybackUndoService', () => {
+  let backend: FakeMusicBackend;
+  let control: SpotifyControl;
+  let redis: FakeRedis;
+  let undoService: PlaybackUndoService;
+
+  beforeEach(async () => {
+    backend = new FakeMusicBackend();
+    control = new SpotifyControl(testTokens, () => {}, backend);
+    redis = createFakeRedis();
+    undoService = new PlaybackUndoService(redis, 3);
+
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    await backend.nextTrack();
+    backend.advanceTime(60000);
+  });
+
+  it('should not record anything when nothing is playing', async () => {
+    const idle = new SpotifyControl(testTokens, () => {}, new FakeMusicBackend());
+
+    const snapshot = await undoService.recordBeforeCommand('user-1', idle, { command: 'pause' });
+
+    expect(snapshot).toBeNull();
+    expect(redis.lPush).not.toHaveBeenCalled();
+  });
+
+  it('should restore context, track and position after playing something else', async () => {
+    await undoService.recordBeforeCommand('user-1', control, { command: 'play bohemian rhapsody', intent: 'play_specific_song' });
+    await control.playTrack('spotify:track:fake-bohemian');
+
+    const result = await undoService.undo('user-1', control);
+
+    expect(result.success).toBe(true);
+    expect(result.snapshot?.command).toBe('play bohemian rhapsody');
+    const playback = await backend.getCurrentPlayback();
+    expect(playback?.context?.uri).toBe('spotify:playlist:fake-90s-rock');
+    expect(playback?.item?.id).toBe('fake-come-as-you-are');
+    expect(playback?.progress_ms).toBe(60000);
+    expect(playback?.is_playing).toBe(true);
+  });
+
+  it('should restore volume, shuffle and pause state without restarting the track', async () => {
+    await backend.setVolume(70);
+    await undoService.recordBeforeCommand('user-1', control, { command: 'pause and turn it down' });
+    await backend.pause();
+    await backend.setVolume(20);
+    await backend.setShuffle(true);
+
+    await undoService.undo('user-1', control);
+
+    const playback = await backend.getCurrentPlayback();
+    expect(playback?.device.volume_percent).toBe(70);
+    expect(playback?.shuffle_state).toBe(false);
+    expect(playback?.is_playing).toBe(true);
+    expect(playback?.progress_ms).toBe(60000);
+  });
+
+  it('should replay the queue for playback without a context', async () => {
+    await backend.playTracksWithUris(['spotify:track:fake-hurt']);
+    await backend.addToQueue('spotify:track:fake-closer');
+    await undoService.recordBeforeCommand('user-1', control, { command: 'clear the queue' });
+    await backend.clearQueue();
+
+    await undoService.undo('user-1', control);
+
+    const queue = await backend.getQueue();
+    expect(queue.currently_playing.id).toBe('fake-hurt');
+    expect(queue.queue.map((t: any) => t.id)).toEqual(['fake-closer']);
+  });
+
+  it('should keep only the most recent snapshots and undo them newest first', async () => {
+    for (const command of ['one', 'two', 'three', 'four']) {
+      await undoService.recordBeforeCommand('user-1', control, { command });
+    }
+
+    const snapshots = await undoService.getSnapshots('user-1');
+    expect(snapshots.map(s => s.command)).toEqual(['four', 'three', 'two']);
+
+    expect((await undoService.undo('user-1', control)).snapshot?.command).toBe('four');
+    expect((await undoService.getSnapshots('user-1')).map(s => s.command)).toEqual(['three', 'two']);
+  });
+
+  it('should keep the previous undo point when a command fails', async () => {
+    await undoService.recordBeforeCommand('user-1', control, { command: 'pause' });
+    const failed = await undoService.recordBeforeCommand('user-1', control, { command: 'play a song that does not exist' });
+
+    await undoService.discard('user-1', failed!);
+
+    expect((await undoService.getSnapshots('user-1')).map(s => s.command)).toEqual(['pause']);
+  });
+
+  it('should add an undo point for changes made outside the interpreter, unless they fail', async () => {
+    await undoService.withUndoPoint('user-1', control, { command: 'volume 20', intent: 'set_volume' }, () => control.setVolume(20));
+    await undoService.withUndoPoint('user-1', control, { command: 'play playlist', intent: 'play_playlist' },
+      () => control.playPlaylist('spotify:playlist:does-not-exist'), result => result.success);
+    await expect(undoService.withUndoPoint('user-1', control, { command: 'skip', intent: 'skip' }, async () => {
+      throw new Error('No active device');
+    })).rejects.toThrow('No active device');
+
+    expect((await undoService.getSnapshots('user-1')).map(s => s.command)).toEqual(['volume 20']);
+
+    await undoService.undo('user-1', control);
+    expect(await backend.getVolume()).not.toBe(20);
+  });
+
+  it('should report when there is nothing to undo', async () => {
+    const result = await undoService.undo('user-1', control);
+
+    expect(result).toEqual({ success: false, message: 'Nothing to undo' });
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+import { PlaybackWatcherService, nextPollDelay } from '../PlaybackWatcherService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+
+function createEmitter() {
+  return {
+    emitPlaybackStateChange: jest.fn(),
+    emitTrackChange: jest.fn(),
+    emitVolumeChanged: jest.fn(),
+    emitDeviceChanged: jest.fn()
+  };
+}
+
+describe('PlaybackWatcherService', () => {
+  let backend: FakeMusicBackend;
+  let emitter: ReturnType<typeof createEmitter>;
+  let now: number;
+  let watcher: PlaybackWatcherService;
+
+  beforeEach(async () => {
+    // Keep the watcher's own poll loop from firing - tests call poll() directly
+    jest.useFakeTimers();
+    backend = new FakeMusicBackend({
+      devices: [
+        { id: 'fake-device', is_active: true, is_private_session: false, is_restricted: false, name: 'DJForge Web Player', type: 'Computer', volume_percent: 50 },
+        { id: 'fake-phone', is_active: false, is_private_session: false, is_restricted: false, name: 'Phone', type: 'Smartphone', volume_percent: 50 }
+      ]
+    });
+    emitter = createEmitter();
+    now = 1_700_000_000_000;
+    watcher = new PlaybackWatcherService({
+      now: () => now,
+      backendFactory: async () => backend,
+      emitter: () => emitter
+    });
+
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    watcher.userConnected('user-1', 'session-1');
+    await watcher.poll('user-1');
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    jest.useRealTimers();
+  });
+
+  // Move playback and the watcher's clock forward together
+  const advance = (ms: number) => {
+    backend.advanceTime(ms);
+    now += ms;
+  };
+
+  it('should sync the client on the first poll', () => {
+    expect(emitter.emitPlaybackStateChange).toHaveBeenCalledTimes(1);
+    expect(emitter.emitPlaybackStateChange).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      isPlaying: true,
+      track: expect.objectContaining({ name: 'Smells Like Teen Spirit', duration: 301 }),
+      device: 'DJForge Web Player'
+    }));
+    expect(emitter.emitTrackChange).not.toHaveBeenCalled();
+  });
+
+  it('should stay quiet while playback progresses normally', async () => {
+    advance(15000);
+    await watcher.poll('user-1');
+
+    expect(emitter.emitPlaybackStateChange).toHaveBeenCalledTimes(1);
+  });
+
+  it('should emit trackChanged when another client skips', async () => {
+    await backend.nextTrack();
+    await watcher.poll('user-1');
+
+    expect(emitter.emitTrackChange).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      previous: expect.objectContaining({ name: 'Smells Like Teen Spirit' }),
+      current: expect.objectContaining({ name: 'Come as You Are' }),
+      source: 'auto'
+    }));
+    expect(emitter.emitPlaybackStateChange).toHaveBeenCalledTimes(2);
+  });
+
+  it('should emit volumeChanged, deviceChanged and state changes', async () => {
+    await backend.setVolume(80);
+    await watcher.poll('user-1');
+    expect(emitter.emitVolumeChanged).toHaveBeenCalledWith('user-1', { volume: 80, device: 'DJForge Web Player' });
+
+    await backend.transferPlayback('fake-phone');
+    await watcher.poll('user-1');
+    expect(emitter.emitDeviceChanged).toHaveBeenCalledWith('user-1', { previousDevice: 'DJForge Web Player', currentDevice: 'Phone' });
+
+    await backend.pause();
+    await watcher.poll('user-1');
+    expect(emitter.emitPlaybackStateChange).toHaveBeenLastCalledWith('user-1', expect.objectContaining({ isPlaying: false }));
+  });
+
+  it('should treat a position jump as a seek', async () => {
+    advance(10000);
+    await backend.seekToPosition(200000);
+    await watcher.poll('user-1');
+
+    expect(emitter.emitPlaybackStateChange).toHaveBeenCalledTimes(2);
+    expect(emitter.emitPlaybackStateChange).toHaveBeenLastCalledWith('user-1', expect.objectContaining({ position: 200 }));
+  });
+
+  it('should back off when Spotify errors and stop once the user disconnects', async () => {
+    jest.spyOn(backend, 'getCurrentPlayback').mockRejectedValue(new Error('Spotify is down'));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const first = await watcher.poll('user-1');
+    const second = await watcher.poll('user-1');
+    expect(second).toBeGreaterThan(first);
+
+    watcher.userDisconnected('user-1');
+    expect(watcher.isWatching('user-1')).toBe(false);
+    expect(await watcher.poll('user-1')).toBe(-1);
+  });
+
+  it('should hand stop listeners a backend when the last socket closes', async () => {
+    const stopped = new Promise(resolve => watcher.onStopWatching(async (userId, stoppedBackend) => resolve({ userId, stoppedBackend })));
+
+    watcher.userDisconnected('user-1');
+
+    expect(await stopped).toEqual({ userId: 'user-1', stoppedBackend: backend });
+  });
+
+  it('should poll faster as the track nears its end', () => {
+    const state = {
+      isPlaying: true,
+      track: null,
+      positionMs: 0,
+      durationMs: 300000,
+      device: '',
+      deviceId: null,
+      contextUri: null,
+      shuffleState: false,
+      repeatState: 'off' as const,
+      volume: 50,
+      observedAt: 0
+    };
+    const track = { name: 'x', artist: 'y', album: 'z', albumArt: null, duration: 300, position: 0, id: 'x', uri: 'spotify:track:x' };
+
+    expect(nextPollDelay(state)).toBe(60000);
+    expect(nextPollDelay({ ...state, track, isPlaying: false })).toBe(20000);
+    expect(nextPollDelay({ ...state, track })).toBe(15000);
+    // 20s left - land inside the last 10s
+    expect(nextPollDelay({ ...state, track, positionMs: 280000 })).toBe(10500);
+    expect(nextPollDelay({ ...state, track, positionMs: 290000 })).toBe(10500);
+    expect(nextPollDelay({ ...state, track, positionMs: 299900 })).toBe(1000);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { PlaylistEditService, matchPlaylistName, scorePlaylistName } from '../PlaylistEditService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+describe('PlaylistEditService', () => {
+  let backend: FakeMusicBackend;
+  let control: SpotifyControl;
+  let editor: PlaylistEditService;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new FakeMusicBackend();
+    backend.addPlaylist({ id: 'running', name: 'Running 🏃', trackIds: ['fake-anti-hero'] });
+    backend.addPlaylist({ id: 'chill', name: 'Chill Vibes', trackIds: ['fake-hurt', 'fake-closer'] });
+    backend.addPlaylist({ id: 'someone-else', name: 'Gym', owner: 'another-user', trackIds: [] });
+    control = new SpotifyControl(testTokens, () => {}, backend);
+    editor = new PlaylistEditService(createFakeRedis());
+
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+  });
+
+  const playlistUris = async (id: string) =>
+    (await backend.getPlaylistTracks(id)).items.map((item: any) => item.track.uri);
+
+  it('should add the current track to a fuzzily matched playlist', async () => {
+    const result = await editor.addTracks('user-1', control, { playlistName: 'my running playlist', source: 'current' });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Added Smells Like Teen Spirit by Nirvana to "Running 🏃"');
+    expect(await playlistUris('running')).toEqual(['spotify:track:fake-anti-hero', 'spotify:track:fake-teen-spirit']);
+  });
+
+  it('should not add a track that is already in the playlist', async () => {
+    await editor.addTracks('user-1', control, { playlistName: 'running', source: 'current' });
+    const again = await editor.addTracks('user-1', control, { playlistName: 'running', source: 'current' });
+
+    expect(again.message).toContain('already in "Running 🏃"');
+    expect(await playlistUris('running')).toHaveLength(2);
+  });
+
+  it('should ask before creating a playlist and add the offered tracks once confirmed', async () => {
+    await backend.nextTrack();
+    await backend.nextTrack();
+    await backend.nextTrack();
+
+    const offer = await editor.addTracks('user-1', control, { playlistName: 'Road Trip', source: 'recent', count: 10 });
+    expect(offer.confirmationNeeded).toBe(true);
+    expect(offer.message).toBe('You don\'t have a playlist called "Road Trip". Want me to create it with 3 tracks?');
+    expect(await backend.findPlaylistByName('Road Trip')).toBeNull();
+
+    // Playback moves on before the user says yes - the offer still stands
+    await backend.nextTrack();
+    const created = await editor.addTracks('user-1', control, { playlistName: 'road trip', source: 'recent', count: 10, confirmCreate: true });
+
+    expect(created.message).toBe('Created "road trip" with 3 tracks');
+    expect(await playlistUris(created.playlist!.id)).toEqual([
+      'spotify:track:fake-teen-spirit',
+      'spotify:track:fake-come-as-you-are',
+      'spotify:track:fake-hurt'
+    ]);
+  });
+
+  it('should not create a playlist without an offer to confirm', async () => {
+    const result = await editor.addTracks('user-1', control, { playlistName: 'Road Trip', source: 'current', confirmCreate: true });
+
+    expect(result.success).toBe(false);
+    expect(await backend.findPlaylistByName('Road Trip')).toBeNull();
+  });
+
+  it('should match playlists past the first page', async () => {
+    for (let i = 0; i < 60; i++) {
+      backend.addPlaylist({ id: `filler-${i}`, name: `Filler ${i}`, trackIds: [] });
+    }
+    backend.addPlaylist({ id: 'late', name: 'Late Night', trackIds: [] });
+
+    const result = await editor.addTracks('user-1', control, { playlistName: 'late night', source: 'current' });
+
+    expect(result.playlist?.id).toBe('late');
+  });
+
+  it('should only edit playlists the user owns', async () => {
+    const result = await editor.addTracks('user-1', control, { playlistName: 'Gym', source: 'current' });
+
+    expect(result.confirmationNeeded).toBe(true);
+    expect(await playlistUris('someone-else')).toEqual([]);
+  });
+
+  it('should remove a named track from a playlist', async () => {
+    const result = await editor.removeTracks('user-1', control, { playlistName: 'chill', source: 'track', track: 'Hurt' });
+
+    expect(result.success).toBe(true);
+    expect(result.message).toBe('Removed Hurt by Nine Inch Nails from "Chill Vibes"');
+    expect(await playlistUris('chill')).toEqual(['spotify:track:fake-closer']);
+
+    const missing = await editor.removeTracks('user-1', control, { playlistName: 'chill', source: 'current' });
+    expect(missing).toEqual({ success: false, message: 'That track isn\'t in "Chill Vibes"' });
+  });
+
+  it('should score spoken playlist names', () => {
+    const playlists = [{ name: 'Chill Vibes' }, { name: 'Running 🏃' }, { name: 'Deep Focus' }];
+
+    expect(scorePlaylistName('Running 🏃', 'my running playlist')).toBe(1);
+    expect(matchPlaylistName(playlists, 'chil vibes')?.playlist.name).toBe('Chill Vibes');
+    expect(matchPlaylistName(playlists, 'focus')?.playlist.name).toBe('Deep Focus');
+    expect(matchPlaylistName(playlists, 'workout')).toBeNull();
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const emitScheduledActionFired = jest.fn();
+jest.mock('../websocket.service', () => ({
+  getWebSocketService: () => ({
+    getMusicService: () => ({ emitScheduledActionFired })
+  })
+}));
+
+import { ScheduledActionService, nextOccurrence } from '../ScheduledActionService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+describe('ScheduledActionService', () => {
+  let backend: FakeMusicBackend;
+  let control: SpotifyControl;
+  let redis: FakeRedis;
+  let now: number;
+  let scheduler: ScheduledActionService;
+
+  beforeEach(async () => {
+    emitScheduledActionFired.mockClear();
+    backend = new FakeMusicBackend();
+    control = new SpotifyControl(testTokens, () => {}, backend);
+    redis = createFakeRedis();
+    now = 1_700_000_000_000;
+    scheduler = new ScheduledActionService(redis, {
+      now: () => now,
+      sleep: async () => {},
+      controlFactory: async () => control
+    });
+
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    backend.advanceTime(60000);
+  });
+
+  it('should persist actions and list them soonest first', async () => {
+    await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'delay', delayMinutes: 30 }, control);
+    await scheduler.schedule('user-1', 'session-1', { action: 'set_volume', trigger: 'delay', delayMinutes: 5, volume: 20 }, control);
+
+    const actions = await scheduler.list('user-1');
+
+    expect(actions.map(a => a.action)).toEqual(['set_volume', 'pause']);
+    expect(actions[1].dueAt).toBe(now + 30 * 60000);
+    expect(await scheduler.list('user-2')).toEqual([]);
+  });
+
+  it('should resolve end_of_track and end_of_context from current playback', async () => {
+    const endOfTrack = await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'end_of_track' }, control);
+    const endOfPlaylist = await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'end_of_context' }, control);
+
+    // Smells Like Teen Spirit is 301s and a minute in; then three more tracks
+    expect(endOfTrack.dueAt).toBe(now + 241000);
+    expect(endOfPlaylist.dueAt).toBe(now + 241000 + 219000 + 373000 + 373000);
+  });
+
+  it('should reject relative triggers when nothing is playing', async () => {
+    const idle = new SpotifyControl(testTokens, () => {}, new FakeMusicBackend());
+
+    await expect(scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'end_of_track' }, idle))
+      .rejects.toThrow('Nothing is playing right now');
+  });
+
+  it('should run due actions once and notify the user', async () => {
+    await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'delay', delayMinutes: 10 }, control);
+
+    expect(await scheduler.processDue()).toBe(0);
+
+    now += 10 * 60000;
+    expect(await scheduler.processDue()).toBe(1);
+    expect(await scheduler.processDue()).toBe(0);
+
+    expect((await backend.getCurrentPlayback())?.is_playing).toBe(false);
+    expect(await scheduler.list('user-1')).toEqual([]);
+    expect(emitScheduledActionFired).toHaveBeenCalledTimes(1);
+    expect(emitScheduledActionFired).toHaveBeenCalledWith('user-1', expect.objectContaining({
+      action: 'pause',
+      success: true
+    }));
+  });
+
+  it('should fade the volume down, pause, then restore the volume', async () => {
+    await backend.setVolume(80);
+    const setVolume = jest.spyOn(control, 'setVolume');
+    await scheduler.schedule('user-1', 'session-1', { action: 'fade_out', trigger: 'delay', delayMinutes: 1, fadeSeconds: 10 }, control);
+
+    now += 60000;
+    await scheduler.processDue();
+    await scheduler.settle();
+
+    const levels = setVolume.mock.calls.map(call => call[0]);
+    expect(levels.slice(0, -1)).toEqual([72, 64, 56, 48, 40, 32, 24, 16, 8, 0]);
+    expect(levels[levels.length - 1]).toBe(80);
+    expect((await backend.getCurrentPlayback())?.is_playing).toBe(false);
+  });
+
+  it('should cap fades at five minutes and run the rest of the batch while one fades', async () => {
+    const sleeps: number[] = [];
+    let release: () => void = () => {};
+    const released = new Promise<void>(resolve => { release = resolve; });
+    scheduler = new ScheduledActionService(redis, {
+      now: () => now,
+      sleep: ms => { sleeps.push(ms); return released; },
+      controlFactory: async () => control
+    });
+    const fade = await scheduler.schedule('user-1', 'session-1', { action: 'fade_out', trigger: 'delay', delayMinutes: 1, fadeSeconds: 86400 }, control);
+    await scheduler.schedule('user-1', 'session-1', { action: 'set_volume', trigger: 'delay', delayMinutes: 1, volume: 30 }, control);
+    expect(fade.fadeSeconds).toBe(300);
+
+    now += 60000;
+    expect(await scheduler.processDue()).toBe(2);
+
+    expect(emitScheduledActionFired).toHaveBeenCalledWith('user-1', expect.objectContaining({ action: 'set_volume', success: true }));
+    expect(emitScheduledActionFired).not.toHaveBeenCalledWith('user-1', expect.objectContaining({ action: 'fade_out' }));
+    expect(sleeps).toEqual([30000]);
+
+    release();
+    await scheduler.settle();
+    expect(emitScheduledActionFired).toHaveBeenCalledWith('user-1', expect.objectContaining({ action: 'fade_out', success: true }));
+  });
+
+  it('should drop actions that are far overdue instead of running them', async () => {
+    await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'delay', delayMinutes: 1 }, control);
+
+    now += 2 * 60 * 60000;
+    await scheduler.processDue();
+
+    expect((await backend.getCurrentPlayback())?.is_playing).toBe(true);
+    expect(emitScheduledActionFired).toHaveBeenCalledWith('user-1', expect.objectContaining({ success: false }));
+  });
+
+  it('should only let the owner cancel an action', async () => {
+    const action = await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'delay', delayMinutes: 10 }, control);
+
+    expect(await scheduler.cancel('user-2', action.id)).toBe(false);
+    expect(await scheduler.cancel('user-1', action.id)).toBe(true);
+
+    now += 10 * 60000;
+    expect(await scheduler.processDue()).toBe(0);
+  });
+
+  it('should cancel only the requested kind of action', async () => {
+    await scheduler.schedule('user-1', 'session-1', { action: 'pause', trigger: 'delay', delayMinutes: 10 }, control);
+    await scheduler.schedule('user-1', 'session-1', { action: 'play_playlist', trigger: 'delay', delayMinutes: 20, query: 'queen' }, control);
+
+    const cancelled = await scheduler.cancelAll('user-1', 'pause');
+
+    expect(cancelled).toHaveLength(1);
+    expect((await scheduler.list('user-1')).map(a => a.action)).toEqual(['play_playlist']);
+  });
+
+  it('should find the next wall-clock occurrence in a timezone', () => {
+    const base = Date.UTC(2024, 0, 15, 22, 30); // 22:30 UTC = 23:30 in Copenhagen
+
+    expect(nextOccurrence('07:00', 'UTC', base)).toBe(Date.UTC(2024, 0, 16, 7, 0));
+    expect(nextOccurrence('07:00', 'Europe/Copenhagen', base)).toBe(Date.UTC(2024, 0, 16, 6, 0));
+    expect(nextOccurrence('23:00', 'UTC', base)).toBe(Date.UTC(2024, 0, 15, 23, 0));
+    expect(() => nextOccurrence('25:00', 'UTC', base)).toThrow('Invalid time');
+  });
+});
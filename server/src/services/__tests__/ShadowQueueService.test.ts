@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+const emitQueueUpdate = jest.fn();
+jest.mock('../musicWebSocket.service', () => ({
+  MusicWebSocketService: {
+    getInstance: () => ({ emitQueueUpdate })
+  }
+}));
+
+import { ShadowQueueService, findInShadowQueue } from '../ShadowQueueService';
+import { toWatchedPlaybackState } from '../PlaybackWatcherService';
+import { FakeMusicBackend } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+import { createFakeRedis, FakeRedis } from '../../__tests__/helpers/redis';
+
+const track = (id: string, name: string, artist = 'Nirvana') => ({
+  uri: `spotify:track:${id}`,
+  name,
+  artist
+});
+
+describe('ShadowQueueService', () => {
+  let redis: FakeRedis;
+  let queue: ShadowQueueService;
+
+  beforeEach(() => {
+    emitQueueUpdate.mockClear();
+    redis = createFakeRedis();
+    queue = new ShadowQueueService(redis);
+  });
+
+  const names = async () => (await queue.list('user-1')).map(item => item.name);
+
+  it('should append tracks, skip ones already queued and insert next', async () => {
+    await queue.add('user-1', [track('a', 'Lithium'), track('b', 'Polly')]);
+    const result = await queue.add('user-1', [track('a', 'Lithium'), track('c', 'Breed')], { next: true });
+
+    expect(result.added.map(item => item.name)).toEqual(['Breed']);
+    expect(result.skipped.map(item => item.name)).toEqual(['Lithium']);
+    expect(await names()).toEqual(['Breed', 'Lithium', 'Polly']);
+    expect(emitQueueUpdate).toHaveBeenLastCalledWith('user-1', expect.objectContaining({
+      action: 'added',
+      trackUris: ['spotify:track:c'],
+      totalItems: 3
+    }));
+  });
+
+  it('should remove by position or id and move items', async () => {
+    await queue.add('user-1', [track('a', 'Lithium'), track('b', 'Polly'), track('c', 'Breed'), track('d', 'Drain You')]);
+
+    expect((await queue.removeAt('user-1', 1))?.name).toBe('Polly');
+    expect(await queue.removeAt('user-1', 10)).toBeNull();
+
+    const [first] = await queue.list('user-1');
+    expect((await queue.removeById('user-1', first.id))?.name).toBe('Lithium');
+
+    await queue.move('user-1', 1, 0);
+    expect(await names()).toEqual(['Drain You', 'Breed']);
+    expect(emitQueueUpdate).toHaveBeenLastCalledWith('user-1', expect.objectContaining({ action: 'moved' }));
+  });
+
+  it('should drop repeats and clear the stored queue', async () => {
+    const items = [track('a', 'Lithium'), track('b', 'Polly'), track('a', 'Lithium')]
+      .map((item, i) => ({ ...item, id: `id-${i}`, addedAt: i }));
+    redis.strings.set('user:user-1:shadow_queue', JSON.stringify(items));
+
+    expect(await queue.dedupe('user-1')).toBe(1);
+    expect(await names()).toEqual(['Lithium', 'Polly']);
+
+    expect(await queue.clear('user-1')).toBe(2);
+    expect(redis.strings.has('user:user-1:shadow_queue')).toBe(false);
+  });
+
+  it('should feed the head to Spotify once, just before the track ends', async () => {
+    const backend = new FakeMusicBackend();
+    const addToQueue = jest.spyOn(backend, 'addToQueue');
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    await queue.add('user-1', [track('fake-bohemian', 'Bohemian Rhapsody', 'Queen'), track('fake-anti-hero', 'Anti-Hero', 'Taylor Swift')]);
+
+    const stateNow = async () => toWatchedPlaybackState(await backend.getCurrentPlayback(), 0);
+
+    // Smells Like Teen Spirit is 301s - a minute in is far from the end
+    backend.advanceTime(60000);
+    expect(await queue.feedIfDue('user-1', await stateNow(), backend)).toBeNull();
+
+    backend.advanceTime(235000);
+    expect((await queue.feedIfDue('user-1', await stateNow(), backend))?.name).toBe('Bohemian Rhapsody');
+    expect(await queue.feedIfDue('user-1', await stateNow(), backend)).toBeNull();
+
+    expect(addToQueue).toHaveBeenCalledTimes(1);
+    expect(addToQueue).toHaveBeenCalledWith('spotify:track:fake-bohemian');
+    expect(await names()).toEqual(['Anti-Hero']);
+  });
+
+  it('should feed again when the same track plays twice in a row', async () => {
+    const backend = new FakeMusicBackend();
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    await queue.add('user-1', [track('fake-teen-spirit', 'Smells Like Teen Spirit'), track('fake-anti-hero', 'Anti-Hero', 'Taylor Swift')]);
+    const stateNow = async () => toWatchedPlaybackState(await backend.getCurrentPlayback(), 0);
+
+    backend.advanceTime(295000);
+    expect((await queue.feedIfDue('user-1', await stateNow(), backend))?.name).toBe('Smells Like Teen Spirit');
+
+    // The queued copy starts, and gets a successor of its own
+    await backend.nextTrack();
+    expect(await queue.feedIfDue('user-1', await stateNow(), backend)).toBeNull();
+    backend.advanceTime(295000);
+    expect((await queue.feedIfDue('user-1', await stateNow(), backend))?.name).toBe('Anti-Hero');
+  });
+
+  it('should wait while Spotify still has its own queued tracks', async () => {
+    const backend = new FakeMusicBackend();
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    await backend.addToQueue('spotify:track:fake-cruel-summer');
+    await queue.add('user-1', [track('fake-bohemian', 'Bohemian Rhapsody', 'Queen')]);
+
+    backend.advanceTime(295000);
+    expect(await queue.feedIfDue('user-1', toWatchedPlaybackState(await backend.getCurrentPlayback(), 0), backend)).toBeNull();
+
+    // Cruel Summer plays next; near its end only the playlist is left in Spotify's queue
+    await backend.nextTrack();
+    backend.advanceTime(170000);
+    expect((await queue.feedIfDue('user-1', toWatchedPlaybackState(await backend.getCurrentPlayback(), 0), backend))?.name)
+      .toBe('Bohemian Rhapsody');
+  });
+
+  it('should hand everything to Spotify when flushed', async () => {
+    const backend = new FakeMusicBackend();
+    await backend.playTracksWithUris(['spotify:track:fake-teen-spirit']);
+    await queue.add('user-1', [track('fake-bohemian', 'Bohemian Rhapsody', 'Queen'), track('fake-anti-hero', 'Anti-Hero', 'Taylor Swift')]);
+
+    expect(await queue.flush('user-1', backend)).toBe(2);
+
+    expect((await backend.getQueue()).queue.map((t: any) => t.id)).toEqual(['fake-bohemian', 'fake-anti-hero']);
+    expect(await names()).toEqual([]);
+  });
+
+  it('should keep edits made at the same time or while a track is being fed', async () => {
+    const backend = new FakeMusicBackend();
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    await Promise.all([
+      queue.add('user-1', [track('fake-bohemian', 'Bohemian Rhapsody', 'Queen')]),
+      queue.add('user-1', [track('fake-anti-hero', 'Anti-Hero', 'Taylor Swift')])
+    ]);
+
+    // The user removes and adds tracks while Spotify is still taking the fed one
+    const addToQueue = backend.addToQueue.bind(backend);
+    jest.spyOn(backend, 'addToQueue').mockImplementation(async (uri: string) => {
+      await queue.removeAt('user-1', 1);
+      await queue.add('user-1', [track('fake-cruel-summer', 'Cruel Summer', 'Taylor Swift')]);
+      await addToQueue(uri);
+    });
+
+    backend.advanceTime(295000);
+    expect((await queue.feedIfDue('user-1', toWatchedPlaybackState(await backend.getCurrentPlayback(), 0), backend))?.name)
+      .toBe('Bohemian Rhapsody');
+    expect(await names()).toEqual(['Cruel Summer']);
+  });
+
+  it('should play the head of the queue when skipping', async () => {
+    const backend = new FakeMusicBackend();
+    const control = new SpotifyControl(testTokens, () => {}, backend);
+    control.setBeforeSkip(skipBackend => queue.feedBeforeSkip('user-1', skipBackend));
+    await backend.playPlaylist('spotify:playlist:fake-90s-rock');
+    await queue.add('user-1', [track('fake-bohemian', 'Bohemian Rhapsody', 'Queen'), track('fake-anti-hero', 'Anti-Hero', 'Taylor Swift')]);
+
+    expect((await control.skip()).success).toBe(true);
+
+    expect((await backend.getCurrentPlayback())?.item?.id).toBe('fake-bohemian');
+    expect(await names()).toEqual(['Anti-Hero']);
+  });
+
+  it('should find queued tracks by name or artist', async () => {
+    await queue.add('user-1', [track('a', 'Lithium'), track('b', 'Hurt', 'Johnny Cash')]);
+    const items = await queue.list('user-1');
+
+    expect(findInShadowQueue(items, 'hurt')).toBe(1);
+    expect(findInShadowQueue(items, 'lithium nirvana')).toBe(0);
+    expect(findInShadowQueue(items, 'something else')).toBe(-1);
+  });
+});
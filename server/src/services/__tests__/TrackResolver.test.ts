@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+
+import { TrackResolver, scoreTrack, summarizeResolution, describeUnresolved } from '../TrackResolver';
+import { FakeMusicBackend, fakeTrack } from '../../spotify/fake-backend';
+import { SpotifyControl } from '../../spotify/control';
+import { testTokens } from '../../__tests__/helpers/spotify';
+
+describe('TrackResolver', () => {
+  let backend: FakeMusicBackend;
+  let resolver: TrackResolver;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    backend = new FakeMusicBackend();
+    backend.addTracks([
+      { id: 'fake-bohemian-live', name: 'Bohemian Rhapsody - Live at Wembley \'86', artist: 'Queen', album: 'Live at Wembley \'86', popularity: 95 },
+      { id: 'fake-live-forever', name: 'Live Forever', artist: 'Oasis', album: 'Definitely Maybe' }
+    ]);
+    resolver = new TrackResolver(backend);
+  });
+
+  it('should match an exact artist and title with high confidence', async () => {
+    const resolution = await resolver.resolve({ artist: 'Nirvana', track: 'Smells Like Teen Spirit' });
+
+    expect(resolution.match?.track.uri).toBe('spotify:track:fake-teen-spirit');
+    expect(resolution.match?.confidence).toBe(1);
+    expect(summarizeResolution(resolution, { artist: 'Nirvana', track: 'Smells Like Teen Spirit' })).toMatchObject({
+      verified: true,
+      matched: { name: 'Smells Like Teen Spirit', artist: 'Nirvana' }
+    });
+  });
+
+  it('should reject a wrongly attributed song instead of playing the closest result', async () => {
+    // The title search finds Nirvana's song, which isn't the one that was asked for
+    const request = { artist: 'Foo Fighters', track: 'Smells Like Teen Spirit' };
+    const resolution = await resolver.resolve(request);
+
+    expect(resolution.match).toBeNull();
+    expect(resolution.best?.track.uri).toBe('spotify:track:fake-teen-spirit');
+    expect(resolution.best!.confidence).toBeLessThan(0.7);
+    expect(describeUnresolved(resolution, request)).toContain('which doesn\'t look like the same song');
+  });
+
+  it('should prefer the studio recording unless a live version is asked for', async () => {
+    const studio = await resolver.resolve({ artist: 'Queen', track: 'Bohemian Rhapsody' });
+    expect(studio.match?.track.uri).toBe('spotify:track:fake-bohemian');
+
+    const live = await resolver.resolve({ artist: 'Queen', track: 'Bohemian Rhapsody', version: 'live' });
+    expect(live.match?.track.uri).toBe('spotify:track:fake-bohemian-live');
+  });
+
+  it('should not treat a version keyword in the title itself as a different version', () => {
+    const track = fakeTrack({ id: 'fake-live-forever', name: 'Live Forever', artist: 'Oasis', album: 'Definitely Maybe' });
+    const match = scoreTrack(track, { artist: 'Oasis', track: 'Live Forever' });
+
+    expect(match.scores.version).toBe(1);
+    expect(match.reasons).toEqual([]);
+  });
+
+  it('should cap the confidence of the same title by another artist', () => {
+    const track = fakeTrack({ id: 'fake-hurt', name: 'Hurt', artist: 'Nine Inch Nails' });
+
+    expect(scoreTrack(track, { artist: 'Johnny Cash', track: 'Hurt' }).confidence).toBeLessThanOrEqual(0.4);
+  });
+
+  it('should report the match from searchAndPlay and refuse low-confidence songs', async () => {
+    const control = new SpotifyControl(testTokens, () => {}, backend);
+
+    const played = await control.searchAndPlay('', 'Taylor Swift', 'Cruel Summer');
+    expect(played.success).toBe(true);
+    expect(played.match).toMatchObject({ verified: true, confidence: 1 });
+
+    const rejected = await control.searchAndPlay('', 'Nine Inch Nails', 'Cruel Summer');
+    expect(rejected.success).toBe(false);
+    expect(rejected.match?.verified).toBe(false);
+    expect((await backend.getCurrentPlayback())?.item?.uri).toBe('spotify:track:fake-cruel-summer');
+  });
+});
@@ -1,5 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { createHash } from 'crypto';
+import { estimateCost } from '../llm/pricing';
+import { PromptStamp, stampKey } from '../llm/prompts/registry';
 
 export interface TokenUsage {
   prompt_tokens?: number;
@@ -28,6 +30,7 @@ export interface LLMLogEntry {
     content: string;
     usage?: TokenUsage;
     latency: number;
+    costUsd?: number;       // Estimated from usage and MODEL_PRICING
     fallbackUsed?: boolean; // Whether a fallback model was used
     actualModel?: string;   // Actual model if different from requested
     rawResponse?: any;     // Complete raw response before any processing
@@ -41,6 +44,7 @@ export interface LLMLogEntry {
     success: boolean;
     message: string;
   };
+  prompts?: PromptStamp[];   // Prompt versions that built the request
 }
 
 export interface QueryOptions {
@@ -68,6 +72,51 @@ export interface LogResult {
   };
 }
 
+export interface TrackVerificationCounts {
+  suggested: number;     // Songs the model suggested (including replacements)
+  unresolved: number;    // ...that couldn't be found on Spotify
+  recovered?: number;    // Missing songs fixed by a corrective re-prompt
+}
+
+export interface HallucinationStats {
+  suggested: number;
+  unresolved: number;
+  recovered: number;
+  hallucinationRate: number;   // Percentage of suggestions not found, 1 decimal
+}
+
+export interface CostRollup {
+  date: string;                      // YYYY-MM-DD
+  costUsd: number;
+  queries: number;
+  promptTokens: number;
+  completionTokens: number;
+  byModel: Record<string, number>;   // USD per model
+}
+
+export interface CostStats {
+  totalUsd: number;
+  daily: CostRollup[];
+  byModel: Record<string, number>;
+  topUsers: Array<{ userId: string; costUsd: number }>;   // Hashed user IDs
+}
+
+export interface PromptVersionStats {
+  id: string;
+  version: string;
+  queries: number;
+  successRate: number;         // Percentage, 1 decimal
+  avgLatency: number;          // ms
+  loved: number;               // Feedback on AI discoveries from this version
+  disliked: number;            // ...blocked counts as disliked
+  loveRate: number | null;     // Percentage of rated discoveries loved, null until rated
+}
+
+// Costs are fractions of a cent - keep enough precision to add them up
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
 export class LLMLoggingService {
   private redis: any; // node-redis client
   private retentionDays: number;
@@ -112,7 +161,8 @@ export class LLMLoggingService {
   async logInteraction(entry: Omit<LLMLogEntry, 'id'>): Promise<void> {
     try {
       const id = uuidv4();
-      const fullEntry: LLMLogEntry = { ...entry, id };
+      const costUsd = estimateCost(entry.llmResponse.actualModel || entry.llmRequest.model, entry.llmResponse.usage);
+      const fullEntry: LLMLogEntry = { ...entry, id, llmResponse: { ...entry.llmResponse, costUsd } };
       const dateKey = this.getDateKey(new Date(entry.timestamp));
 
       // Store individual log entry
@@ -139,8 +189,9 @@ export class LLMLoggingService {
       await this.redis.zAdd(userKey, { score: entry.timestamp, value: id });
       await this.redis.expire(userKey, this.retentionDays * 24 * 60 * 60);
 
-      // Update daily stats
+      // Update daily stats and the user's spend
       await this.updateDailyStats(dateKey, fullEntry);
+      await this.updateUserCost(dateKey, fullEntry);
     } catch (error) {
       console.error('Failed to log LLM interaction:', error);
       // Don't throw - graceful degradation
@@ -354,11 +405,268 @@ export class LLMLoggingService {
     // Update latency stats (stored as sum and count for averaging)
     await this.redis.hIncrByFloat(statsKey, 'latencySum', entry.llmResponse.latency);
     await this.redis.hIncrBy(statsKey, 'latencyCount', 1);
+
+    // Update tokens and cost, attributed to the model that actually answered
+    const costUsd = entry.llmResponse.costUsd || 0;
+    await this.redis.hIncrBy(statsKey, 'promptTokens', entry.llmResponse.usage?.prompt_tokens || 0);
+    await this.redis.hIncrBy(statsKey, 'completionTokens', entry.llmResponse.usage?.completion_tokens || 0);
+    await this.redis.hIncrByFloat(statsKey, 'costUsd', costUsd);
+    await this.redis.hIncrByFloat(statsKey, `cost:${entry.llmResponse.actualModel || entry.llmRequest.model}`, costUsd);
+
+    // Update per prompt version outcomes
+    for (const stamp of entry.prompts || []) {
+      const prefix = `prompt:${stampKey(stamp)}`;
+      await this.redis.hIncrBy(statsKey, `${prefix}:queries`, 1);
+      await this.redis.hIncrBy(statsKey, `${prefix}:success`, entry.result.success ? 1 : 0);
+      await this.redis.hIncrByFloat(statsKey, `${prefix}:latencySum`, entry.llmResponse.latency);
+    }
     
     // Set expiration
     await this.redis.expire(statsKey, this.retentionDays * 24 * 60 * 60);
   }
 
+  /**
+   * Update the user's daily spend and the per-day spend ranking
+   */
+  private async updateUserCost(dateKey: string, entry: LLMLogEntry): Promise<void> {
+    const costKey = `llm:cost:user:${entry.userId}:${dateKey}`;
+    const costUsd = entry.llmResponse.costUsd || 0;
+    const usage = entry.llmResponse.usage || {};
+
+    await this.redis.hIncrByFloat(costKey, 'costUsd', costUsd);
+    await this.redis.hIncrBy(costKey, 'queries', 1);
+    await this.redis.hIncrBy(costKey, 'promptTokens', usage.prompt_tokens || 0);
+    await this.redis.hIncrBy(costKey, 'completionTokens', usage.completion_tokens || 0);
+    await this.redis.hIncrByFloat(costKey, `cost:${entry.llmResponse.actualModel || entry.llmRequest.model}`, costUsd);
+    await this.redis.expire(costKey, this.retentionDays * 24 * 60 * 60);
+
+    const rankingKey = `llm:cost:users:${dateKey}`;
+    await this.redis.zIncrBy(rankingKey, costUsd, entry.userId);
+    await this.redis.expire(rankingKey, this.retentionDays * 24 * 60 * 60);
+  }
+
+  /**
+   * A user's spend per day over a date range (oldest first)
+   */
+  async getUserCosts(userId: string, startDate: Date, endDate: Date = new Date()): Promise<CostRollup[]> {
+    const hashedUserId = this.hashUserId(userId);
+    const rollups: CostRollup[] = [];
+
+    try {
+      const currentDate = new Date(startDate);
+      while (currentDate <= endDate) {
+        const dateKey = this.getDateKey(currentDate);
+        const costs: Record<string, string> = await this.redis.hGetAll(`llm:cost:user:${hashedUserId}:${dateKey}`) || {};
+        rollups.push(this.toCostRollup(dateKey, costs, 'queries'));
+        currentDate.setDate(currentDate.getDate() + 1);
+      }
+    } catch (error) {
+      console.error('Failed to get user costs:', error);
+    }
+
+    return rollups;
+  }
+
+  /**
+   * Spend per day and per model, and the biggest spenders, over a date range
+   */
+  async getCostStats(startDate: Date, endDate: Date = new Date(), topUsers: number = 10): Promise<CostStats> {
+    const stats: CostStats = { totalUsd: 0, daily: [], byModel: {}, topUsers: [] };
+    const userTotals = new Map<string, number>();
+
+    try {
+      const currentDate = new Date(startDate);
+      while (currentDate <= endDate) {
+        const dateKey = this.getDateKey(currentDate);
+        const dailyStats: Record<string, string> = await this.redis.hGetAll(`llm:stats:daily:${dateKey}`) || {};
+        const rollup = this.toCostRollup(dateKey, dailyStats, 'totalQueries');
+        stats.daily.push(rollup);
+        stats.totalUsd += rollup.costUsd;
+        for (const [model, cost] of Object.entries(rollup.byModel)) {
+          stats.byModel[model] = roundUsd((stats.byModel[model] || 0) + cost);
+        }
+
+        const ranking: Array<{ value: string; score: number }> = await this.redis.zRangeWithScores(`llm:cost:users:${dateKey}`, 0, -1) || [];
+        for (const { value, score } of ranking) {
+          userTotals.set(value, (userTotals.get(value) || 0) + score);
+        }
+
+        currentDate.setDate(currentDate.getDate() + 1);
+      }
+    } catch (error) {
+      console.error('Failed to get cost stats:', error);
+    }
+
+    stats.totalUsd = roundUsd(stats.totalUsd);
+    stats.topUsers = [...userTotals.entries()]
+      .map(([userId, costUsd]) => ({ userId, costUsd: roundUsd(costUsd) }))
+      .sort((a, b) => b.costUsd - a.costUsd)
+      .slice(0, topUsers);
+
+    return stats;
+  }
+
+  private toCostRollup(date: string, fields: Record<string, string>, queriesField: string): CostRollup {
+    const byModel: Record<string, number> = {};
+    for (const [field, value] of Object.entries(fields)) {
+      if (field.startsWith('cost:')) {
+        byModel[field.slice('cost:'.length)] = roundUsd(parseFloat(value) || 0);
+      }
+    }
+
+    return {
+      date,
+      costUsd: roundUsd(parseFloat(fields.costUsd) || 0),
+      queries: parseInt(fields[queriesField], 10) || 0,
+      promptTokens: parseInt(fields.promptTokens, 10) || 0,
+      completionTokens: parseInt(fields.completionTokens, 10) || 0,
+      byModel
+    };
+  }
+
+  /**
+   * Record how many of a model's suggested songs resolved on Spotify
+   */
+  async recordTrackVerification(model: string, counts: TrackVerificationCounts, date: Date = new Date()): Promise<void> {
+    if (counts.suggested <= 0) return;
+
+    try {
+      const statsKey = `llm:stats:daily:${this.getDateKey(date)}`;
+      await this.redis.hIncrBy(statsKey, `hallucination:${model}:suggested`, counts.suggested);
+      await this.redis.hIncrBy(statsKey, `hallucination:${model}:unresolved`, counts.unresolved);
+      if (counts.recovered) {
+        await this.redis.hIncrBy(statsKey, `hallucination:${model}:recovered`, counts.recovered);
+      }
+      await this.redis.expire(statsKey, this.retentionDays * 24 * 60 * 60);
+    } catch (error) {
+      console.error('Failed to record track verification:', error);
+      // Don't throw - graceful degradation
+    }
+  }
+
+  /**
+   * Per-model hallucination rates over a date range, from the daily stats
+   */
+  async getHallucinationStats(startDate: Date, endDate: Date = new Date()): Promise<Record<string, HallucinationStats>> {
+    const stats: Record<string, HallucinationStats> = {};
+
+    try {
+      const currentDate = new Date(startDate);
+      while (currentDate <= endDate) {
+        const dailyStats: Record<string, string> = await this.redis.hGetAll(`llm:stats:daily:${this.getDateKey(currentDate)}`) || {};
+
+        for (const [field, value] of Object.entries(dailyStats)) {
+          if (!field.startsWith('hallucination:')) continue;
+          // Model names can contain ':' (e.g. ":free" variants) - the counter is the last segment
+          const separator = field.lastIndexOf(':');
+          const model = field.slice('hallucination:'.length, separator);
+          const counter = field.slice(separator + 1);
+          if (counter !== 'suggested' && counter !== 'unresolved' && counter !== 'recovered') continue;
+
+          stats[model] = stats[model] || { suggested: 0, unresolved: 0, recovered: 0, hallucinationRate: 0 };
+          stats[model][counter] += parseInt(value, 10) || 0;
+        }
+
+        currentDate.setDate(currentDate.getDate() + 1);
+      }
+    } catch (error) {
+      console.error('Failed to get hallucination stats:', error);
+    }
+
+    for (const modelStats of Object.values(stats)) {
+      modelStats.hallucinationRate = modelStats.suggested > 0
+        ? Math.round((modelStats.unresolved / modelStats.suggested) * 1000) / 10
+        : 0;
+    }
+
+    return stats;
+  }
+
+  /**
+   * Count feedback on an AI discovery against the prompt versions that picked
+   * it. Changing feedback moves the count, so pass what it was before and when
+   * it was given - it comes off that day's counters, not today's.
+   */
+  async recordPromptFeedback(
+    prompts: PromptStamp[] | undefined,
+    feedback: 'loved' | 'disliked' | 'blocked' | null,
+    previous?: 'loved' | 'disliked' | 'blocked' | null,
+    previousAt?: number,
+    date: Date = new Date()
+  ): Promise<void> {
+    const counter = (value?: string | null) => value === 'loved' ? 'loved' : value ? 'disliked' : null;
+    const added = counter(feedback);
+    let removed = counter(previous);
+    if (!prompts?.length || added === removed) return;
+
+    const removedFrom = previousAt ? new Date(previousAt) : date;
+    if (removed && date.getTime() - removedFrom.getTime() >= this.retentionDays * 24 * 60 * 60 * 1000) {
+      // That day's counters have expired - nothing left to take it off
+      removed = null;
+    }
+
+    try {
+      const statsKey = `llm:stats:daily:${this.getDateKey(date)}`;
+      const removedKey = `llm:stats:daily:${this.getDateKey(removedFrom)}`;
+      for (const stamp of prompts) {
+        const prefix = `prompt:${stampKey(stamp)}`;
+        if (added) await this.redis.hIncrBy(statsKey, `${prefix}:${added}`, 1);
+        if (removed) await this.redis.hIncrBy(removedKey, `${prefix}:${removed}`, -1);
+      }
+      if (added) await this.redis.expire(statsKey, this.retentionDays * 24 * 60 * 60);
+    } catch (error) {
+      console.error('Failed to record prompt feedback:', error);
+      // Don't throw - graceful degradation
+    }
+  }
+
+  /**
+   * Success rate, latency and feedback per prompt version over a date range
+   */
+  async getPromptVersionStats(startDate: Date, endDate: Date = new Date()): Promise<Record<string, PromptVersionStats>> {
+    const totals: Record<string, { queries: number; success: number; latencySum: number; loved: number; disliked: number }> = {};
+
+    try {
+      const currentDate = new Date(startDate);
+      while (currentDate <= endDate) {
+        const dailyStats: Record<string, string> = await this.redis.hGetAll(`llm:stats:daily:${this.getDateKey(currentDate)}`) || {};
+
+        for (const [field, value] of Object.entries(dailyStats)) {
+          if (!field.startsWith('prompt:')) continue;
+          const separator = field.lastIndexOf(':');
+          const key = field.slice('prompt:'.length, separator);
+          const counter = field.slice(separator + 1);
+          if (counter !== 'queries' && counter !== 'success' && counter !== 'latencySum' && counter !== 'loved' && counter !== 'disliked') continue;
+
+          totals[key] = totals[key] || { queries: 0, success: 0, latencySum: 0, loved: 0, disliked: 0 };
+          totals[key][counter] += parseFloat(value) || 0;
+        }
+
+        currentDate.setDate(currentDate.getDate() + 1);
+      }
+    } catch (error) {
+      console.error('Failed to get prompt version stats:', error);
+    }
+
+    const stats: Record<string, PromptVersionStats> = {};
+    for (const [key, total] of Object.entries(totals)) {
+      const [id, version] = key.split('@');
+      const rated = total.loved + total.disliked;
+      stats[key] = {
+        id,
+        version,
+        queries: total.queries,
+        successRate: total.queries > 0 ? Math.round((total.success / total.queries) * 1000) / 10 : 0,
+        avgLatency: total.queries > 0 ? Math.round(total.latencySum / total.queries) : 0,
+        loved: total.loved,
+        disliked: total.disliked,
+        loveRate: rated > 0 ? Math.round((total.loved / rated) * 1000) / 10 : null
+      };
+    }
+
+    return stats;
+  }
+
   /**
    * Calculate statistics from logs
    */
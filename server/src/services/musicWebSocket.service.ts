@@ -7,6 +7,13 @@ import {
   SocketData 
 } from '../types/websocket.types';
 
+// Lets a playback watcher follow which users have a live /music connection
+export interface PlaybackWatcherHooks {
+  userConnected(userId: string, sessionId: string): void;
+  userDisconnected(userId: string): void;
+  requestSync(userId: string): Promise<any | null>;
+}
+
 export class MusicWebSocketService {
   private static instance: MusicWebSocketService | null = null;
   
@@ -17,6 +24,7 @@ export class MusicWebSocketService {
   private connectionsByIP: Map<string, Set<string>>;
   private maxConnectionsPerUser: number = 5;
   private maxConnectionsPerIP: number = 10;
+  private playbackWatcher: PlaybackWatcherHooks | null = null;
   
   constructor(io: SocketIOServer<ClientToServerEvents, ServerToClientEvents, {}, SocketData>, redisClient?: any) {
     // Set singleton instance
@@ -136,6 +144,9 @@ export class MusicWebSocketService {
     if (userId) {
       if (!this.userSubscriptions.has(userId)) {
         this.userSubscriptions.set(userId, new Set());
+        if (socket.data.sessionId) {
+          this.playbackWatcher?.userConnected(userId, socket.data.sessionId);
+        }
       }
       this.userSubscriptions.get(userId)!.add(socketId);
     }
@@ -162,11 +173,19 @@ export class MusicWebSocketService {
       callback({ status: 'unsubscribed' });
     });
     
-    socket.on('requestPlaybackSync', (callback) => {
+    socket.on('requestPlaybackSync', async (callback) => {
       this.logger.debug('Playback sync request', { socketId, userId });
-      // This would typically fetch current playback state
-      // For now, return empty state
-      callback({ playbackState: null });
+      if (!userId || !this.playbackWatcher) {
+        callback({ playbackState: null });
+        return;
+      }
+      
+      try {
+        callback({ playbackState: await this.playbackWatcher.requestSync(userId) });
+      } catch (error) {
+        this.logger.error('Playback sync failed', { socketId, userId, error: (error as Error).message });
+        callback({ playbackState: null });
+      }
     });
 
     // Handle disconnection
@@ -205,6 +224,7 @@ export class MusicWebSocketService {
         userConnections.delete(socketId);
         if (userConnections.size === 0) {
           this.userSubscriptions.delete(userId);
+          this.playbackWatcher?.userDisconnected(userId);
         }
       }
     }
@@ -342,7 +362,65 @@ export class MusicWebSocketService {
     }
   }
   
+  public emitChatDelta(userId: string, data: { streamId: string; delta: string }): void {
+    const sockets = this.userSubscriptions.get(userId);
+    if (sockets && sockets.size > 0) {
+      sockets.forEach(socketId => {
+        this.namespace.to(socketId).emit('chatDelta', {
+          ...data,
+          timestamp: Date.now()
+        });
+      });
+    }
+  }
+  
+  public emitChatComplete(userId: string, data: { streamId: string; content: string; model?: string; error?: string }): void {
+    const sockets = this.userSubscriptions.get(userId);
+    if (sockets && sockets.size > 0) {
+      sockets.forEach(socketId => {
+        this.namespace.to(socketId).emit('chatComplete', {
+          ...data,
+          timestamp: Date.now()
+        });
+      });
+      
+      this.logger.debug('Emitted chatComplete', {
+        userId,
+        socketCount: sockets.size,
+        data: { streamId: data.streamId, length: data.content.length, error: data.error }
+      });
+    }
+  }
+  
+  public emitScheduledActionFired(userId: string, data: { id: string; action: string; description: string; success: boolean; message: string }): void {
+    const sockets = this.userSubscriptions.get(userId);
+    if (sockets && sockets.size > 0) {
+      sockets.forEach(socketId => {
+        this.namespace.to(socketId).emit('scheduledActionFired', {
+          ...data,
+          timestamp: Date.now()
+        });
+      });
+      
+      this.logger.debug('Emitted scheduledActionFired', {
+        userId,
+        socketCount: sockets.size,
+        data: { id: data.id, action: data.action, success: data.success }
+      });
+    }
+  }
+  
   // Public methods for service management
+  public setPlaybackWatcher(watcher: PlaybackWatcherHooks | null): void {
+    this.playbackWatcher = watcher;
+    // Pick up users who connected before the watcher was attached
+    this.namespace.sockets.forEach(socket => {
+      if (socket.data.userId && socket.data.sessionId) {
+        watcher?.userConnected(socket.data.userId, socket.data.sessionId);
+      }
+    });
+  }
+  
   public getConnectionCount(): number {
     return this.namespace.sockets.size;
   }
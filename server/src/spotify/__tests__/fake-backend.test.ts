@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+
+import { FakeMusicBackend } from '../fake-backend';
+import { SpotifyControl } from '../control';
+import { createMusicBackend, resetFakeMusicBackends } from '../backend';
+import { SpotifyWebAPI } from '../api';
+import { testTokens } from '../../__tests__/helpers/spotify';
+
+describe('FakeMusicBackend', () => {
+  let backend: FakeMusicBackend;
+  let control: SpotifyControl;
+
+  beforeEach(() => {
+    backend = new FakeMusicBackend();
+    control = new SpotifyControl(testTokens, () => {}, backend);
+  });
+
+  describe('search', () => {
+    it('should honour artist and track field filters', async () => {
+      const tracks = await backend.search('artist:"Nirvana" track:"Come as You Are"');
+
+      expect(tracks).toHaveLength(1);
+      expect(tracks[0].name).toBe('Come as You Are');
+    });
+
+    it('should match free text against name, artist and album', async () => {
+      const tracks = await backend.search('queen');
+
+      expect(tracks.map(t => t.name)).toEqual(['Bohemian Rhapsody', 'Somebody to Love']);
+    });
+
+    it('should search playlists by name', async () => {
+      const playlists = await backend.search('rock', ['playlist']);
+
+      expect(playlists[0].name).toBe('90s Rock Anthems');
+    });
+  });
+
+  describe('through SpotifyControl', () => {
+    it('should play the best match via searchAndPlay', async () => {
+      const result = await control.searchAndPlay(
+        'artist:"Queen" track:"Bohemian Rhapsody"',
+        'Queen',
+        'Bohemian Rhapsody'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.retryLevel).toBe(0);
+
+      const current = await control.getCurrentTrack();
+      expect(current.track?.name).toBe('Bohemian Rhapsody');
+    });
+
+    it('should fall back through the retry ladder when the album is wrong', async () => {
+      const result = await control.searchAndPlay(
+        'artist:"Nirvana" track:"Smells Like Teen Spirit" album:"In Utero"',
+        'Nirvana',
+        'Smells Like Teen Spirit',
+        'In Utero'
+      );
+
+      expect(result.success).toBe(true);
+      expect(result.retryLevel).toBe(1);
+    });
+
+    it('should queue tracks and roll over to them when the current track ends', async () => {
+      await control.searchAndPlay('artist:"Taylor Swift" track:"Cruel Summer"', 'Taylor Swift', 'Cruel Summer');
+      await control.queueTrack('artist:"Nine Inch Nails" track:"Hurt"', 'Nine Inch Nails', 'Hurt');
+
+      const queue = await control.getQueue();
+      expect(queue.queue.queue.map((t: any) => t.name)).toEqual(['Hurt']);
+
+      backend.advanceTime(178000 + 5000);
+
+      const playback = await backend.getCurrentPlayback();
+      expect(playback?.item?.name).toBe('Hurt');
+      expect(playback?.progress_ms).toBe(5000);
+      expect(backend.getUserQueue()).toHaveLength(0);
+    });
+
+    it('should play playlists with tracks and skip through them', async () => {
+      const result = await control.searchAndPlayPlaylist('90s rock');
+      expect(result.success).toBe(true);
+
+      await control.skip();
+      const playback = await backend.getCurrentPlayback();
+      expect(playback?.item?.name).toBe('Come as You Are');
+
+      await control.previous();
+      const back = await backend.getCurrentPlayback();
+      expect(back?.item?.name).toBe('Smells Like Teen Spirit');
+    });
+
+    it('should track volume, shuffle and repeat state', async () => {
+      await control.searchAndPlay('Anti-Hero');
+      await control.setVolume(35);
+      await control.setShuffle(true);
+      await control.setRepeat(true);
+
+      const playback = await backend.getCurrentPlayback();
+      expect(playback?.device.volume_percent).toBe(35);
+      expect(playback?.shuffle_state).toBe(true);
+      expect(playback?.repeat_state).toBe('context');
+    });
+
+    it('should stop at the end when nothing is left to play', async () => {
+      await control.searchAndPlay('Anti-Hero');
+      backend.advanceTime(10 * 60 * 1000);
+
+      const playback = await backend.getCurrentPlayback();
+      expect(playback?.is_playing).toBe(false);
+      expect(await backend.getRecentlyPlayed()).toHaveLength(1);
+    });
+
+    it('should report missing devices like Spotify does', async () => {
+      const offline = new FakeMusicBackend({ devices: [] });
+      const offlineControl = new SpotifyControl(testTokens, () => {}, offline);
+
+      const result = await offlineControl.pause();
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('No active device');
+    });
+  });
+
+  describe('createMusicBackend', () => {
+    const originalBackend = process.env.MUSIC_BACKEND;
+
+    afterEach(() => {
+      process.env.MUSIC_BACKEND = originalBackend;
+      resetFakeMusicBackends();
+    });
+
+    it('should return the Spotify Web API by default', () => {
+      delete process.env.MUSIC_BACKEND;
+      expect(createMusicBackend(testTokens, () => {})).toBeInstanceOf(SpotifyWebAPI);
+    });
+
+    it('should share one fake per access token when MUSIC_BACKEND=fake', () => {
+      process.env.MUSIC_BACKEND = 'fake';
+      const first = createMusicBackend(testTokens, () => {});
+      const second = createMusicBackend(testTokens, () => {});
+
+      expect(first).toBeInstanceOf(FakeMusicBackend);
+      expect(second).toBe(first);
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, jest } from '@jest/globals';
+
+import {
+  buildSpotifyQuery,
+  parseSpotifyQuery,
+  buildQueryLadder,
+  normalizeSpotifyQuery,
+  searchPlaylistsRelaxed
+} from '../search-query';
+import { FakeMusicBackend } from '../fake-backend';
+
+describe('search queries', () => {
+  it('should quote fields and keep quotes in values from breaking out', () => {
+    expect(buildSpotifyQuery({ artist: 'Queen', track: 'Bohemian Rhapsody', album: 'A Night at the Opera' }))
+      .toBe('artist:"Queen" track:"Bohemian Rhapsody" album:"A Night at the Opera"');
+    expect(buildSpotifyQuery({ artist: 'Guns N\' Roses', track: 'Sweet Child "O" Mine  ' }))
+      .toBe('artist:"Guns N\' Roses" track:"Sweet Child O Mine"');
+    expect(buildSpotifyQuery({ text: 'chill', genre: 'Hip Hop', year: { from: 1999, to: 1990 } }))
+      .toBe('chill year:1990-1999 genre:"hip hop"');
+    expect(buildSpotifyQuery({ isrc: 'us-sm1-99-00001' })).toBe('isrc:USSM19900001');
+  });
+
+  it('should fold filters the search type ignores into keywords', () => {
+    const query = { artist: 'Nirvana', year: 1991, genre: 'grunge', tag: 'hipster' as const };
+
+    expect(buildSpotifyQuery(query, 'album')).toBe('grunge artist:"Nirvana" year:1991 tag:hipster');
+    expect(buildSpotifyQuery(query, 'playlist')).toBe('Nirvana 1991 grunge');
+    expect(normalizeSpotifyQuery('genre:pop year:2004', 'playlist')).toBe('2004 pop');
+  });
+
+  it('should parse what it builds and leave unknown fields as text', () => {
+    const built = buildSpotifyQuery({ text: 'live', artist: 'Nine Inch Nails', year: { from: 1990, to: 1999 }, genre: 'industrial rock' });
+
+    expect(parseSpotifyQuery(built)).toEqual({ text: 'live', artist: 'Nine Inch Nails', year: { from: 1990, to: 1999 }, genre: 'industrial rock' });
+    expect(normalizeSpotifyQuery(built)).toBe(built);
+    expect(parseSpotifyQuery('year:1990s mood:happy AND tag:new')).toEqual({ text: 'mood:happy', year: { from: 1990, to: 1999 }, tag: 'new' });
+  });
+
+  it('should relax one filter at a time, ending on plain text', () => {
+    expect(buildQueryLadder('artist:"Nirvana" track:"Lithium" album:"Nevermind" year:1991 genre:grunge')).toEqual([
+      'artist:"Nirvana" track:"Lithium" album:"Nevermind" year:1991 genre:grunge',
+      'artist:"Nirvana" track:"Lithium" album:"Nevermind" genre:grunge',
+      'artist:"Nirvana" track:"Lithium" album:"Nevermind"',
+      'artist:"Nirvana" track:"Lithium"',
+      'Lithium Nirvana'
+    ]);
+    expect(buildQueryLadder('genre:pop year:2004', 'playlist')).toEqual(['2004 pop', 'pop']);
+  });
+
+  it('should relax playlist searches until Spotify finds something', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    const backend = new FakeMusicBackend();
+    const search = jest.spyOn(backend, 'searchPlaylists');
+
+    const { query, results } = await searchPlaylistsRelaxed(backend, 'genre:grunge year:1990', 20, 0);
+
+    expect(search.mock.calls.map(call => call[0])).toEqual(['1990 grunge', 'grunge']);
+    expect(query).toBe('grunge');
+    expect(results.playlists.items.map((p: any) => p.name)).toEqual(['90s Rock Anthems']);
+  });
+});
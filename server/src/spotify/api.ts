@@ -1,5 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { SpotifyAuthTokens, SpotifyTrack } from '../types';
+import { MusicBackend } from './backend';
+import { SearchType, normalizeSpotifyQuery } from './search-query';
 // Token refresh is now handled by the session-auth middleware
 
 export interface SpotifyDevice {
@@ -24,7 +26,15 @@ export interface PlaybackState {
   is_playing: boolean;
 }
 
-export class SpotifyWebAPI {
+/**
+ * Track search results without explicit tracks, keeping Spotify's order so the
+ * clean version of a song takes the explicit one's place
+ */
+export function removeExplicitTracks<T extends { explicit?: boolean }>(tracks: T[]): T[] {
+  return tracks.filter(track => track?.explicit !== true);
+}
+
+export class SpotifyWebAPI implements MusicBackend {
   private api: AxiosInstance;
   private tokens: SpotifyAuthTokens;
   private onTokenRefresh: (tokens: SpotifyAuthTokens) => void;
@@ -32,6 +42,7 @@ export class SpotifyWebAPI {
   private devicePreference: 'auto' | string = 'auto';
   private lastActiveDeviceId?: string;
   private isRetrying = false;
+  private explicitFilter = false;
 
   constructor(
     tokens: SpotifyAuthTokens,
@@ -105,12 +116,20 @@ export class SpotifyWebAPI {
     );
   }
 
+  setExplicitFilter(enabled: boolean): void {
+    this.explicitFilter = enabled;
+  }
+
   async search(query: string, types: string[] = ['track']): Promise<any[]> {
+    const filterTracks = this.explicitFilter && types.length === 1 && types[0] === 'track';
+    // Filters the search type doesn't support make Spotify return nothing - fold them into keywords
+    const q = types.length === 1 ? normalizeSpotifyQuery(query, types[0] as SearchType) : query;
     const response = await this.api.get('/search', {
       params: {
-        q: query,
+        q,
         type: types.join(','),
-        limit: 10
+        // Fetch extra so clean versions further down still make the top 10
+        limit: filterTracks ? 30 : 10
       }
     });
 
@@ -127,7 +146,8 @@ export class SpotifyWebAPI {
     } else if (types.includes('artist')) {
       return response.data.artists?.items || [];
     } else {
-      return response.data.tracks?.items || [];
+      const tracks = response.data.tracks?.items || [];
+      return filterTracks ? removeExplicitTracks(tracks).slice(0, 10) : tracks;
     }
   }
 
@@ -169,9 +189,9 @@ export class SpotifyWebAPI {
   }
 
 
-  async getPlaylists() {
+  async getPlaylists(limit: number = 50, offset: number = 0) {
     const response = await this.api.get('/me/playlists', {
-      params: { limit: 50 }
+      params: { limit: Math.min(limit, 50), offset } // Spotify API max is 50
     });
     return response.data.items || [];
   }
@@ -455,6 +475,25 @@ export class SpotifyWebAPI {
     }
   }
 
+  // Start a context (playlist/album/artist) at a specific track and position
+  async playContext(contextUri: string, offsetUri?: string, positionMs?: number, deviceId?: string): Promise<void> {
+    const device = deviceId || await this.ensureDeviceId();
+    try {
+      await this.api.put('/me/player/play', {
+        context_uri: contextUri,
+        ...(offsetUri && { offset: { uri: offsetUri } }),
+        ...(positionMs && { position_ms: positionMs })
+      }, {
+        params: { device_id: device }
+      });
+    } catch (error: any) {
+      if (error.response?.status === 404) {
+        throw new Error('No active device found. Please open Spotify on a device.');
+      }
+      throw error;
+    }
+  }
+
   async transferPlayback(deviceId: string, play: boolean = true): Promise<void> {
     console.log(`[DEVICE] Transferring playback to device: ${deviceId} (play: ${play})`);
     await this.api.put('/me/player', {
@@ -582,9 +621,23 @@ export class SpotifyWebAPI {
     return response.data;
   }
 
+  async removeTracksFromPlaylist(playlistId: string, trackUris: string[]): Promise<any> {
+    // Removes every occurrence of each URI
+    const response = await this.api.delete(`/playlists/${playlistId}/tracks`, {
+      data: { tracks: trackUris.map(uri => ({ uri })) }
+    });
+    return response.data;
+  }
+
   async findPlaylistByName(name: string): Promise<any | null> {
-    const playlists = await this.getPlaylists();
-    return playlists.find((playlist: any) => playlist.name === name) || null;
+    // Page through all of them - older playlists fall outside the first page
+    for (let offset = 0; ; offset += 50) {
+      const playlists = await this.getPlaylists(50, offset);
+      const found = playlists.find((playlist: any) => playlist.name === name);
+      if (found || playlists.length < 50) {
+        return found || null;
+      }
+    }
   }
 
   async ensurePlaylistExists(name: string, description?: string): Promise<any> {
@@ -675,7 +728,7 @@ export class SpotifyWebAPI {
     try {
       const response = await this.api.get('/search', {
         params: {
-          q: query,
+          q: normalizeSpotifyQuery(query, 'playlist'),
           type: 'playlist',
           limit,
           offset,
@@ -717,6 +770,23 @@ export class SpotifyWebAPI {
     }
   }
 
+  async getTracks(trackIds: string[]): Promise<SpotifyTrack[]> {
+    const tracks: SpotifyTrack[] = [];
+    // The endpoint takes at most 50 ids per request
+    for (let i = 0; i < trackIds.length; i += 50) {
+      try {
+        const response = await this.api.get('/tracks', {
+          params: { ids: trackIds.slice(i, i + 50).join(','), market: 'from_token' }
+        });
+        tracks.push(...(response.data.tracks || []).filter(Boolean));
+      } catch (error: any) {
+        console.error('Failed to get tracks:', error.response?.data || error.message);
+        throw new Error('Failed to get tracks');
+      }
+    }
+    return tracks;
+  }
+
   async getArtist(artistId: string): Promise<any> {
     try {
       const response = await this.api.get(`/artists/${artistId}`);
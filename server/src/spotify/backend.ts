@@ -0,0 +1,107 @@
+import { SpotifyAuthTokens, SpotifyTrack } from '../types';
+import { SpotifyWebAPI, SpotifyDevice, PlaybackState } from './api';
+import { FakeMusicBackend } from './fake-backend';
+
+/**
+ * Music Backend Abstraction
+ *
+ * Everything that SpotifyControl, UserDataService and the routes need from a
+ * music service. SpotifyWebAPI is the production implementation; the
+ * FakeMusicBackend keeps an in-memory catalog, queue and playback position so
+ * the full command pipeline can run offline and in CI.
+ *
+ * Return shapes deliberately mirror the Spotify Web API responses so callers
+ * don't need to know which backend they are talking to.
+ */
+export interface MusicBackend {
+  // Search & catalog
+  search(query: string, types?: string[]): Promise<any[]>;
+  searchPlaylists(query: string, limit?: number, offset?: number): Promise<any>;
+  getRecommendations(trackId: string): Promise<SpotifyTrack[]>;
+  getPlaylist(playlistId: string): Promise<any>;
+  getAlbum(albumId: string): Promise<any>;
+  getArtist(artistId: string): Promise<any>;
+  getAlbumTracks(albumId: string): Promise<any>;
+  getTracks(trackIds: string[]): Promise<SpotifyTrack[]>;
+  setExplicitFilter(enabled: boolean): void;   // Family mode: track searches leave out explicit results
+
+  // Playback
+  play(deviceId?: string): Promise<void>;
+  pause(deviceId?: string): Promise<void>;
+  nextTrack(): Promise<void>;
+  previousTrack(): Promise<void>;
+  setVolume(volumePercent: number, deviceId?: string): Promise<void>;
+  getVolume(): Promise<number>;
+  setShuffle(state: boolean): Promise<void>;
+  setRepeat(state: 'off' | 'track' | 'context'): Promise<void>;
+  seekToPosition(positionMs: number): Promise<void>;
+  playTrack(uri: string, deviceId?: string): Promise<void>;
+  playTracksWithUris(uris: string[], deviceId?: string): Promise<void>;
+  playPlaylist(uri: string, deviceId?: string): Promise<void>;
+  playContext(contextUri: string, offsetUri?: string, positionMs?: number, deviceId?: string): Promise<void>;
+  getCurrentPlayback(): Promise<PlaybackState | null>;
+
+  // Queue
+  addToQueue(uri: string): Promise<void>;
+  getQueue(): Promise<any>;
+  clearQueue(): Promise<void>;
+
+  // Devices
+  getDevices(): Promise<any>;
+  getCurrentDevice(): Promise<SpotifyDevice | null>;
+  ensureDeviceId(): Promise<string>;
+  setDevicePreference(preference: 'auto' | string): void;
+  transferPlayback(deviceId: string, play?: boolean): Promise<void>;
+
+  // User & library
+  getCurrentUser(): Promise<{ id: string; display_name?: string; email?: string }>;
+  getUserProfile(): Promise<any>;
+  getRecentlyPlayed(): Promise<any>;
+  getTopArtists(timeRange?: 'short_term' | 'medium_term' | 'long_term', limit?: number): Promise<any[]>;
+  getTopTracks(timeRange?: 'short_term' | 'medium_term' | 'long_term', limit?: number): Promise<any[]>;
+  getSavedTracks(limit?: number, offset?: number): Promise<any>;
+  getSavedAlbums(limit?: number, offset?: number): Promise<any>;
+  saveTracksToLibrary(trackIds: string[]): Promise<void>;
+  removeTracksFromLibrary(trackIds: string[]): Promise<void>;
+  checkIfTracksSaved(trackIds: string[]): Promise<boolean[]>;
+
+  // Playlists
+  getPlaylists(limit?: number, offset?: number): Promise<any>;
+  getPlaylistTracks(playlistId: string, limit?: number, offset?: number): Promise<any>;
+  createPlaylist(name: string, description?: string, isPublic?: boolean): Promise<any>;
+  addTracksToPlaylist(playlistId: string, trackUris: string[]): Promise<any>;
+  removeTracksFromPlaylist(playlistId: string, trackUris: string[]): Promise<any>;
+  findPlaylistByName(name: string): Promise<any | null>;
+  ensurePlaylistExists(name: string, description?: string): Promise<any>;
+}
+
+// One fake per access token so state survives across requests from the same "user"
+const fakeBackends = new Map<string, FakeMusicBackend>();
+
+/**
+ * Create the music backend for a set of tokens.
+ *
+ * Set MUSIC_BACKEND=fake to run against the in-memory FakeMusicBackend instead
+ * of the real Spotify Web API.
+ */
+export function createMusicBackend(
+  tokens: SpotifyAuthTokens,
+  onTokenRefresh: (tokens: SpotifyAuthTokens) => void
+): MusicBackend {
+  if (process.env.MUSIC_BACKEND === 'fake') {
+    const key = tokens?.access_token || 'anonymous';
+    let backend = fakeBackends.get(key);
+    if (!backend) {
+      backend = new FakeMusicBackend();
+      fakeBackends.set(key, backend);
+    }
+    return backend;
+  }
+
+  return new SpotifyWebAPI(tokens, onTokenRefresh);
+}
+
+// Drop all shared fake backends (used between test runs)
+export function resetFakeMusicBackends(): void {
+  fakeBackends.clear();
+}
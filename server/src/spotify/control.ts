@@ -1,41 +1,306 @@
 import { Router } from 'express';
-import { SpotifyWebAPI } from './api';
+import { MusicBackend, createMusicBackend } from './backend';
+import { buildQueryLadder } from './search-query';
 import { SpotifyAuthTokens, SpotifyTrack } from '../types';
 import { requireValidTokens } from '../middleware/session-auth';
 import { logDebugError } from '../utils/error-logger';
 import { logger } from '../config/logger';
 import { getWebSocketService } from '../services/websocket.service';
+import { getPlaybackUndoService } from '../services/PlaybackUndoService';
+import { getShadowQueueService } from '../services/ShadowQueueService';
+import {
+  TrackResolver,
+  TrackRequest,
+  TrackResolution,
+  TrackMatch,
+  DEFAULT_MIN_CONFIDENCE,
+  summarizeResolution,
+  describeUnresolved,
+  artistNames
+} from '../services/TrackResolver';
+import {
+  ListeningRules,
+  RuleViolation,
+  checkTrackAgainstRules,
+  describeSkipped,
+  needsArtistGenres,
+  applyListeningRules
+} from '../services/ListeningRulesService';
 
 export const controlRouter = Router();
 
-// Helper to get WebAPI instance from request
-const getWebAPI = (req: any): SpotifyWebAPI => {
+// Helper to get the music backend from request
+const getWebAPI = (req: any): MusicBackend => {
   if (!req.tokens) {
     throw new Error('Not authenticated with Spotify');
   }
   
-  return new SpotifyWebAPI(
+  return createMusicBackend(
     req.tokens,
     (tokens) => { req.tokens = tokens; }
   );
 };
 
+// Run a control button's playback change behind an undo point (see PlaybackUndoService.withUndoPoint)
+const withUndoPoint = <T>(req: any, webAPI: MusicBackend, command: string, intent: string, change: () => Promise<T>): Promise<T> =>
+  getPlaybackUndoService().withUndoPoint(req.userId, new SpotifyControl(req.tokens, () => {}, webAPI), { command, intent }, change);
+
+// SpotifyControl with the user's listening rules and family mode applied, for routes that play or queue
+const getRuledControl = async (req: any): Promise<SpotifyControl> => {
+  if (!req.tokens) {
+    throw new Error('Not authenticated with Spotify');
+  }
+
+  const control = new SpotifyControl(req.tokens, (tokens) => { req.tokens = tokens; });
+  await applyListeningRules(control, req.userId);
+  return control;
+};
+
+// Playback state captured before a mutating command so it can be undone
+export interface PlaybackSnapshot {
+  capturedAt: number;
+  command?: string;           // Command that was about to run
+  intent?: string;
+  contextUri: string | null;  // Playlist/album being played, if any
+  trackUri: string | null;
+  trackName?: string;
+  artist?: string;
+  positionMs: number;
+  isPlaying: boolean;
+  volume: number | null;
+  shuffle: boolean;
+  repeat: 'off' | 'track' | 'context';
+  queueUris: string[];        // Upcoming tracks as reported by the player queue
+  deviceId: string | null;
+}
+
+// Spotify rejects play requests with more than this many uris
+const MAX_RESTORE_URIS = 50;
+
+export interface QueueOptions {
+  next?: boolean;             // Insert ahead of everything else queued
+}
+
+// Track details handed to a queue sink
+export interface QueueItemInput {
+  uri: string;
+  name: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+}
+
+// Receives queued tracks instead of the player's own queue (see ShadowQueueService)
+export type QueueSink = (item: QueueItemInput, options: QueueOptions) => Promise<void>;
+
+// Runs right before a skip, so a queue kept outside the player can hand over its next track
+export type SkipHook = (backend: MusicBackend) => Promise<unknown>;
+
+export interface TrackSearchOptions {
+  version?: string | null;    // MusicModifiers.version - live, remix, acoustic...
+}
+
+// Longest playlist we read when listening rules have to filter it track by track
+const MAX_RULED_PLAYLIST_TRACKS = 500;
+
+// Free-form searches can't be checked; structured ones count as close from 90%
+const CLOSE_MATCH_CONFIDENCE = 0.9;
+
+function isCloseMatch(resolution: TrackResolution): boolean {
+  return !resolution.structured || (resolution.match?.confidence ?? 0) >= CLOSE_MATCH_CONFIDENCE;
+}
+
+// A track the user's listening rules kept from playing
+export interface SkippedTrack {
+  uri: string;
+  name: string;
+  artist: string;
+  rule: RuleViolation['rule'];
+  reason: string;
+}
+
+function toSkippedTrack(track: any, violation: RuleViolation): SkippedTrack {
+  return {
+    uri: track.uri,
+    name: track.name || track.uri,
+    artist: artistNames(track),
+    rule: violation.rule,
+    reason: violation.reason
+  };
+}
+
+function describeSkippedCount(skipped: SkippedTrack[]): string {
+  if (skipped.length === 0) return '';
+  if (skipped.length === 1) return ` (skipped "${skipped[0].name}": ${skipped[0].reason})`;
+  return ` (skipped ${skipped.length} tracks because of your listening rules)`;
+}
+
 // SpotifyControl class for use by interpreter
 export class SpotifyControl {
-  private webAPI: SpotifyWebAPI;
+  private backend: MusicBackend;
+  private resolver: TrackResolver;
+  private queueSink: QueueSink | null = null;
+  private beforeSkip: SkipHook | null = null;
+  private listeningRules: ListeningRules | null = null;
+  private familyMode = false;
+  private artistGenres = new Map<string, string[]>();
+
+  constructor(
+    tokens: SpotifyAuthTokens,
+    onTokenRefresh: (tokens: SpotifyAuthTokens) => void,
+    backend?: MusicBackend
+  ) {
+    // An explicit backend (e.g. FakeMusicBackend) takes precedence over the token-based one
+    this.backend = backend || createMusicBackend(tokens, onTokenRefresh);
+    this.resolver = new TrackResolver(this.backend);
+  }
+
+  /**
+   * Route queued tracks somewhere other than the player's queue.
+   * Playlist/album playback still queues directly since it builds the context.
+   */
+  setQueueSink(sink: QueueSink | null) {
+    this.queueSink = sink;
+  }
+
+  setBeforeSkip(hook: SkipHook | null) {
+    this.beforeSkip = hook;
+  }
+
+  private async enqueue(track: any, options: QueueOptions = {}): Promise<void> {
+    if (!this.queueSink) {
+      await this.backend.addToQueue(track.uri);
+      return;
+    }
+
+    await this.queueSink({
+      uri: track.uri,
+      name: track.name || track.uri,
+      artist: (track.artists || []).map((a: { name: string }) => a.name).join(', '),
+      album: track.album?.name,
+      durationMs: track.duration_ms
+    }, options);
+  }
+
+  /**
+   * Enforce the user's listening rules (see ListeningRulesService) on every
+   * play and queue path. Blocked tracks are skipped or swapped for an allowed
+   * version, and the result message says why.
+   */
+  setListeningRules(rules: ListeningRules | null) {
+    this.listeningRules = rules;
+  }
 
-  constructor(tokens: SpotifyAuthTokens, onTokenRefresh: (tokens: SpotifyAuthTokens) => void) {
-    this.webAPI = new SpotifyWebAPI(tokens, onTokenRefresh);
+  /**
+   * Family mode (see FamilyModeService): searches leave out explicit tracks so
+   * clean versions win, on top of the explicit filter in the listening rules
+   */
+  setFamilyMode(enabled: boolean) {
+    this.familyMode = enabled;
+    this.backend.setExplicitFilter(enabled);
   }
 
-  // Getter to access the SpotifyWebAPI instance (needed for UserDataService)
-  getApi(): SpotifyWebAPI {
-    return this.webAPI;
+  isFamilyMode(): boolean {
+    return this.familyMode;
+  }
+
+  private noTracksFoundMessage(query: string): string {
+    return this.familyMode
+      ? `No clean version found for: "${query}" (family mode is on)`
+      : `No tracks found for: "${query}"`;
+  }
+
+  /**
+   * Why the listening rules don't allow a track, or null when they do
+   */
+  async checkListeningRules(track: any): Promise<RuleViolation | null> {
+    if (!this.listeningRules || !track) {
+      return null;
+    }
+    const genres = needsArtistGenres(this.listeningRules) ? await this.getArtistGenres(track) : [];
+    return checkTrackAgainstRules(track, this.listeningRules, genres);
+  }
+
+  private async getArtistGenres(track: any): Promise<string[]> {
+    const genres: string[] = [];
+    for (const artist of track.artists || []) {
+      if (!artist?.id) continue;
+      if (!this.artistGenres.has(artist.id)) {
+        try {
+          this.artistGenres.set(artist.id, (await this.backend.getArtist(artist.id)).genres || []);
+        } catch {
+          // Unknown genres never block
+          this.artistGenres.set(artist.id, []);
+        }
+      }
+      genres.push(...this.artistGenres.get(artist.id)!);
+    }
+    return genres;
+  }
+
+  // Split tracks into the ones the rules allow and the ones they skip
+  private async applyRulesToTracks<T>(items: T[], getTrack: (item: T) => any = item => item): Promise<{ allowed: T[]; skipped: SkippedTrack[] }> {
+    if (!this.listeningRules) {
+      return { allowed: items, skipped: [] };
+    }
+
+    const allowed: T[] = [];
+    const skipped: SkippedTrack[] = [];
+    for (const item of items) {
+      const track = getTrack(item);
+      const violation = await this.checkListeningRules(track);
+      if (violation) {
+        skipped.push(toSkippedTrack(track, violation));
+      } else {
+        allowed.push(item);
+      }
+    }
+
+    if (skipped.length > 0) {
+      console.log(`[LISTENING RULES] Skipped ${skipped.length} track(s): ${skipped.map(t => `${t.name} (${t.reason})`).join(', ')}`);
+    }
+    return { allowed, skipped };
+  }
+
+  // Full track objects for uris, so rules can be checked when only a uri was given
+  private async tracksForUris(uris: string[]): Promise<any[]> {
+    if (!this.listeningRules) {
+      return uris.map(uri => ({ uri }));
+    }
+
+    const ids = uris.map(uri => uri.split(':').pop() || uri);
+    const found = new Map((await this.backend.getTracks(ids)).map(track => [track.uri, track]));
+    return uris.map(uri => found.get(uri) || { uri });
+  }
+
+  /**
+   * The best match the rules allow: the resolver's match, or else the next
+   * candidate that still counts as the same song (e.g. the clean version)
+   */
+  private async pickAllowedMatch(resolution: TrackResolution): Promise<{ match: TrackMatch | null; violation: RuleViolation | null }> {
+    const top = resolution.match!;
+    const violation = await this.checkListeningRules(top.track);
+    if (!violation) {
+      return { match: top, violation: null };
+    }
+
+    for (const candidate of resolution.candidates) {
+      if (candidate === top || (resolution.structured && candidate.confidence < DEFAULT_MIN_CONFIDENCE)) continue;
+      if (!(await this.checkListeningRules(candidate.track))) {
+        return { match: candidate, violation };
+      }
+    }
+    return { match: null, violation };
+  }
+
+  // Getter to access the underlying music backend (needed for UserDataService)
+  getApi(): MusicBackend {
+    return this.backend;
   }
 
   async play() {
     try {
-      await this.webAPI.play();
+      await this.backend.play();
       return { success: true, message: 'Playing' };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -44,7 +309,7 @@ export class SpotifyControl {
 
   async pause() {
     try {
-      await this.webAPI.pause();
+      await this.backend.pause();
       return { success: true, message: 'Paused' };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -53,7 +318,11 @@ export class SpotifyControl {
 
   async skip() {
     try {
-      await this.webAPI.nextTrack();
+      if (this.beforeSkip) {
+        // A failed hand-over shouldn't keep the skip from happening
+        await this.beforeSkip(this.backend).catch(error => console.error('Failed to run before-skip hook:', error));
+      }
+      await this.backend.nextTrack();
       return { success: true, message: 'Skipped to next track' };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -62,7 +331,7 @@ export class SpotifyControl {
 
   async previous() {
     try {
-      await this.webAPI.previousTrack();
+      await this.backend.previousTrack();
       return { success: true, message: 'Went to previous track' };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -71,7 +340,7 @@ export class SpotifyControl {
 
   async setVolume(level: number) {
     try {
-      await this.webAPI.setVolume(level);
+      await this.backend.setVolume(level);
       return { success: true, message: `Volume set to ${level}` };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -80,7 +349,7 @@ export class SpotifyControl {
 
   async getCurrentTrack() {
     try {
-      const playback = await this.webAPI.getCurrentPlayback();
+      const playback = await this.backend.getCurrentPlayback();
       if (!playback || !playback.item) {
         return { 
           success: true, 
@@ -123,105 +392,119 @@ export class SpotifyControl {
     }
   }
 
-  async searchAndPlay(query: string, artist?: string, track?: string, album?: string) {
+  /**
+   * Find the track a request refers to (see TrackResolver). Low-confidence
+   * matches come back as resolution.best with no resolution.match.
+   */
+  async resolveTrack(request: TrackRequest, initialQuery?: string): Promise<TrackResolution> {
+    return this.resolver.resolve(request, initialQuery);
+  }
+
+  async searchAndPlay(query: string, artist?: string, track?: string, album?: string, options: TrackSearchOptions = {}) {
     try {
-      // Search for tracks with retry logic
-      const { tracks, retryLevel } = await this.searchWithRetry(query, artist, track, album);
+      const request: TrackRequest = { artist, track, album, version: options.version, query };
+      const resolution = await this.resolver.resolve(request, query);
+      const match = summarizeResolution(resolution, request);
       
-      if (tracks.length === 0) {
-        return { success: false, message: `No tracks found for: "${query}"` };
+      if (!resolution.match) {
+        return {
+          success: false,
+          message: resolution.best ? describeUnresolved(resolution, request) : this.noTracksFoundMessage(query),
+          match
+        };
       }
 
-      // Play the first result
-      const selectedTrack = tracks[0];
-      await this.webAPI.playTrack(selectedTrack.uri);
+      const picked = await this.pickAllowedMatch(resolution);
+      if (!picked.match) {
+        return {
+          success: false,
+          message: describeSkipped(resolution.match.track, picked.violation!),
+          match,
+          skipped: [toSkippedTrack(resolution.match.track, picked.violation!)]
+        };
+      }
+
+      const selectedTrack = picked.match.track;
+      await this.backend.playTrack(selectedTrack.uri);
       
-      // Customize message based on retry level to clearly explain what happened
-      let message = '';
-      switch (retryLevel) {
-        case 0:
-          message = `Playing: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')}`;
-          break;
-        case 1:
-          // Check if we found the exact requested track even though we had to retry without album
-          const foundExactTrack = artist && track && 
-            selectedTrack.artists.some((a: { name: string }) => a.name.toLowerCase() === artist.toLowerCase()) &&
-            selectedTrack.name.toLowerCase() === track.toLowerCase();
-          
-          if (foundExactTrack) {
-            // We found the exact song, just had to search without album (likely due to special characters)
-            message = `Playing: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')}`;
-          } else {
-            // We actually found a different song
-            message = `The exact song wasn't found on Spotify, so I'm playing: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')} instead`;
-          }
-          break;
-        case 2:
-          message = `The requested song doesn't exist on Spotify, so I found the closest match: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')}`;
-          break;
+      // Anything short of a confident match is called out so a wrong song isn't a surprise
+      let message = isCloseMatch(resolution)
+        ? `Playing: ${selectedTrack.name} by ${artistNames(selectedTrack)}`
+        : `The exact song wasn't found on Spotify, so I'm playing the closest match: ${selectedTrack.name} by ${artistNames(selectedTrack)} instead`;
+      if (picked.violation) {
+        message += ` - swapped in for "${resolution.match.track.name}" because ${picked.violation.reason}`;
       }
       
       return { 
         success: true, 
         message,
         track: selectedTrack,
-        alternatives: tracks.slice(1, 5).map(t => ({
-          name: t.name,
-          artists: t.artists.map((a: { name: string }) => a.name).join(', '),
-          album: t.album.name,
-          popularity: t.popularity,
-          uri: t.uri
-        })), // Return cleaned alternatives
-        retryLevel
+        skipped: picked.violation ? [toSkippedTrack(resolution.match.track, picked.violation)] : undefined,
+        alternatives: resolution.candidates
+          .filter(c => c !== picked.match)
+          .slice(0, 4)
+          .map(c => ({
+            name: c.track.name,
+            artists: artistNames(c.track),
+            album: c.track.album.name,
+            popularity: c.track.popularity,
+            uri: c.track.uri,
+            matchConfidence: c.confidence
+          })), // Return cleaned alternatives
+        retryLevel: Math.min(picked.match.searchAttempt, 2),
+        // A different song than the one asked for stood in (closest match or a rules swap)
+        isFallback: !isCloseMatch(resolution) || !!picked.violation,
+        match
       };
     } catch (error: any) {
       return { success: false, message: `Search failed: ${error.message}` };
     }
   }
 
-  async queueTrack(query: string, artist?: string, track?: string, album?: string) {
+  async queueTrack(query: string, artist?: string, track?: string, album?: string, options: QueueOptions & TrackSearchOptions = {}) {
     try {
-      // Search for tracks with retry logic
-      const { tracks, retryLevel } = await this.searchWithRetry(query, artist, track, album);
+      const request: TrackRequest = { artist, track, album, version: options.version, query };
+      const resolution = await this.resolver.resolve(request, query);
+      const match = summarizeResolution(resolution, request);
       
-      if (tracks.length === 0) {
-        return { success: false, message: `No tracks found for: "${query}"` };
+      if (!resolution.match) {
+        return {
+          success: false,
+          message: resolution.best ? describeUnresolved(resolution, request) : this.noTracksFoundMessage(query),
+          match
+        };
+      }
+
+      const picked = await this.pickAllowedMatch(resolution);
+      if (!picked.match) {
+        return {
+          success: false,
+          message: describeSkipped(resolution.match.track, picked.violation!),
+          match,
+          skipped: [toSkippedTrack(resolution.match.track, picked.violation!)]
+        };
       }
 
-      // Queue the first result
-      const selectedTrack = tracks[0];
-      await this.webAPI.addToQueue(selectedTrack.uri);
+      const selectedTrack = picked.match.track;
+      await this.enqueue(selectedTrack, options);
+      const queued = options.next ? 'Playing next' : 'Added to queue';
       
-      // Customize message based on retry level to clearly explain what happened
-      let message = '';
-      switch (retryLevel) {
-        case 0:
-          message = `Added to queue: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')}`;
-          break;
-        case 1:
-          // Check if we found the exact requested track even though we had to retry without album
-          const foundExactTrack = artist && track && 
-            selectedTrack.artists.some((a: { name: string }) => a.name.toLowerCase() === artist.toLowerCase()) &&
-            selectedTrack.name.toLowerCase() === track.toLowerCase();
-          
-          if (foundExactTrack) {
-            // We found the exact song, just had to search without album (likely due to special characters)
-            message = `Added to queue: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')}`;
-          } else {
-            // We actually found a different song
-            message = `The exact song wasn't found on Spotify, so I added to queue: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')} instead`;
-          }
-          break;
-        case 2:
-          message = `The requested song doesn't exist on Spotify, so I found the closest match and added to queue: ${selectedTrack.name} by ${selectedTrack.artists.map((a: { name: string }) => a.name).join(', ')}`;
-          break;
+      let message = isCloseMatch(resolution)
+        ? `${queued}: ${selectedTrack.name} by ${artistNames(selectedTrack)}`
+        : `The exact song wasn't found on Spotify, so I added the closest match to the queue: ${selectedTrack.name} by ${artistNames(selectedTrack)} instead`;
+      if (picked.violation) {
+        message += ` - swapped in for "${resolution.match.track.name}" because ${picked.violation.reason}`;
       }
       
       return { 
         success: true, 
         message,
         track: selectedTrack,
-        retryLevel
+        skipped: picked.violation ? [toSkippedTrack(resolution.match.track, picked.violation)] : undefined,
+        retryLevel: Math.min(picked.match.searchAttempt, 2),
+        // A different song than the one asked for stood in (closest match or a rules swap)
+        isFallback: !isCloseMatch(resolution) || !!picked.violation,
+        match
       };
     } catch (error: any) {
       return { success: false, message: `Queue failed: ${error.message}` };
@@ -229,55 +512,48 @@ export class SpotifyControl {
   }
 
   async search(query: string) {
-    return this.webAPI.search(query);
+    return this.backend.search(query);
   }
 
-  async searchWithRetry(query: string, artist?: string, track?: string, album?: string): Promise<{ tracks: SpotifyTrack[], retryLevel: number }> {
-    // Attempt 1: Full precision search
-    console.log(`[DEBUG] Attempt 1 - Full search: ${query}`);
-    console.log(`[DEBUG] Search params - Artist: "${artist}", Track: "${track}", Album: "${album}"`);
-    let tracks = await this.webAPI.search(query);
-    console.log(`[DEBUG] Attempt 1 found ${tracks.length} tracks`);
-    
-    if (tracks.length > 0) {
-      return { tracks, retryLevel: 0 };
+  /**
+   * Search playlists or albums, dropping filters until something turns up
+   */
+  private async searchRelaxed(query: string, type: 'playlist' | 'album'): Promise<any[]> {
+    let results: any[] = [];
+    for (const relaxed of buildQueryLadder(query, type)) {
+      results = (await this.backend.search(relaxed, [type])).filter(Boolean);
+      if (results.length > 0) break;
     }
-    
-    // Attempt 2: Without album
-    if (tracks.length === 0 && artist && track) {
-      const queryWithoutAlbum = `artist:"${artist}" track:"${track}"`;
-      console.log(`[DEBUG] Attempt 2 - Retry without album: ${queryWithoutAlbum}`);
-      tracks = await this.webAPI.search(queryWithoutAlbum);
-      
-      if (tracks.length > 0) {
-        return { tracks, retryLevel: 1 };
+    return results;
+  }
+
+  /**
+   * Play a single uri. Throws with the reason when the listening rules block it.
+   */
+  async playTrack(uri: string, deviceId?: string) {
+    if (this.listeningRules) {
+      const [track] = await this.tracksForUris([uri]);
+      const violation = await this.checkListeningRules(track);
+      if (violation) {
+        throw new Error(describeSkipped(track, violation));
       }
     }
-    
-    // Attempt 3: Just track name (YOLO mode)
-    if (tracks.length === 0 && track) {
-      console.log(`[DEBUG] Attempt 3 - YOLO mode with just track: ${track}`);
-      tracks = await this.webAPI.search(track);
-      
-      if (tracks.length > 0) {
-        return { tracks, retryLevel: 2 };
-      }
-    }
-    
-    return { tracks: [], retryLevel: -1 };
-  }
-
-  async playTrack(uri: string) {
-    return this.webAPI.playTrack(uri);
+    return this.backend.playTrack(uri, deviceId);
   }
   
   async playTracks(uris: string[]) {
     try {
-      const deviceId = await this.webAPI.ensureDeviceId();
+      const { allowed, skipped } = await this.applyRulesToTracks(await this.tracksForUris(uris));
+      if (allowed.length === 0) {
+        return { success: false, message: `Nothing left to play${describeSkippedCount(skipped)}`, skipped };
+      }
+      uris = allowed.map(track => track.uri);
+
+      const deviceId = await this.backend.ensureDeviceId();
       
       // First, try to transfer playback to ensure device is active
       try {
-        await this.webAPI.transferPlayback(deviceId, false); // Don't auto-play during transfer
+        await this.backend.transferPlayback(deviceId, false); // Don't auto-play during transfer
         // Small delay to ensure transfer completes
         await new Promise(resolve => setTimeout(resolve, 500));
       } catch (transferError: any) {
@@ -285,8 +561,12 @@ export class SpotifyControl {
       }
       
       // Now play the tracks
-      await this.webAPI.playTracksWithUris(uris, deviceId);
-      return { success: true, message: `Started playing ${uris.length} tracks` };
+      await this.backend.playTracksWithUris(uris, deviceId);
+      return {
+        success: true,
+        message: `Started playing ${uris.length} tracks${describeSkippedCount(skipped)}`,
+        ...(skipped.length > 0 && { skipped })
+      };
     } catch (error: any) {
       console.error('Failed to play tracks:', error);
       return { success: false, message: error.message || 'Failed to play tracks' };
@@ -294,9 +574,14 @@ export class SpotifyControl {
   }
 
   async playPlaylist(uri: string) {
+    const [, type, id] = uri.split(':');
+    if (this.listeningRules && id && (type === 'playlist' || type === 'album')) {
+      return this.playAllowedTracks(id, type === 'album');
+    }
+
     try {
       console.log(`[DEBUG] Playing playlist with URI: ${uri}`);
-      await this.webAPI.playPlaylist(uri);
+      await this.backend.playPlaylist(uri);
       return { success: true, message: 'Playing playlist' };
     } catch (error: any) {
       console.log(`[DEBUG] Playlist play failed: ${error.message}`);
@@ -305,13 +590,18 @@ export class SpotifyControl {
   }
 
   async playPlaylistWithTracks(playlistId: string, isAlbum: boolean = false) {
+    if (this.listeningRules) {
+      return this.playAllowedTracks(playlistId, isAlbum);
+    }
+
     try {
       console.log(`[DEBUG] Playing ${isAlbum ? 'album' : 'playlist'} with tracks method for ID: ${playlistId}`);
       
       // Get all tracks directly from the API
+      // Playlist tracks come back as a paging object, album tracks as a plain list
       const tracks = isAlbum ? 
-        await this.webAPI.getAlbumTracks(playlistId) :
-        await this.webAPI.getPlaylistTracks(playlistId);
+        await this.backend.getAlbumTracks(playlistId) :
+        (await this.backend.getPlaylistTracks(playlistId)).items;
       
       if (!tracks || tracks.length === 0) {
         return { success: false, message: `${isAlbum ? 'Album' : 'Playlist'} is empty` };
@@ -321,13 +611,13 @@ export class SpotifyControl {
 
       // Play the first track (handle both playlist and album track structures)
       const firstTrack = tracks[0].track || tracks[0];
-      await this.webAPI.playTrack(firstTrack.uri);
+      await this.backend.playTrack(firstTrack.uri);
 
       // Queue the rest of the tracks
       for (let i = 1; i < tracks.length; i++) {
         const track = tracks[i].track || tracks[i];
         if (track && track.uri) {
-          await this.webAPI.addToQueue(track.uri);
+          await this.backend.addToQueue(track.uri);
         }
       }
 
@@ -346,18 +636,76 @@ export class SpotifyControl {
     }
   }
 
+  /**
+   * Play the tracks of a playlist or album that the listening rules allow, as
+   * one track list. Context playback can't skip blocked tracks, and queueing
+   * them instead would fill the user's queue with tracks they can't remove.
+   * Playlists are read up to MAX_RULED_PLAYLIST_TRACKS tracks.
+   */
+  private async playAllowedTracks(id: string, isAlbum: boolean) {
+    const kind = isAlbum ? 'album' : 'playlist';
+    try {
+      const allTracks = isAlbum ? await this.albumTracksWithAlbum(id) : await this.playlistTrackItems(id);
+      if (allTracks.length === 0) {
+        return { success: false, message: `${isAlbum ? 'Album' : 'Playlist'} is empty` };
+      }
+
+      const { allowed, skipped } = await this.applyRulesToTracks(allTracks, (item: any) => item.track || item);
+      const uris = allowed.map((item: any) => (item.track || item).uri).filter(Boolean);
+      if (uris.length === 0) {
+        return { success: false, message: `Every track in that ${kind} is blocked by your listening rules` };
+      }
+
+      await this.backend.playTracksWithUris(uris);
+      return {
+        success: true,
+        message: `Playing ${kind} with ${uris.length} tracks${describeSkippedCount(skipped)}`,
+        skipped,
+        playlistInfo: {
+          totalTracks: uris.length,
+          method: 'track_list'
+        }
+      };
+    } catch (error: any) {
+      console.log(`[DEBUG] Playing allowed ${kind} tracks failed: ${error.message}`);
+      return { success: false, message: error.message };
+    }
+  }
+
+  private async playlistTrackItems(playlistId: string): Promise<any[]> {
+    const items: any[] = [];
+    while (items.length < MAX_RULED_PLAYLIST_TRACKS) {
+      const page = await this.backend.getPlaylistTracks(playlistId, 100, items.length);
+      items.push(...(page?.items || []));
+      if (!page?.items?.length || items.length >= (page.total ?? 0)) break;
+    }
+    return items.slice(0, MAX_RULED_PLAYLIST_TRACKS);
+  }
+
+  // Album track listings leave out the album itself, which era rules need
+  private async albumTracksWithAlbum(albumId: string): Promise<any[]> {
+    const [tracks, album] = await Promise.all([this.backend.getAlbumTracks(albumId), this.backend.getAlbum(albumId)]);
+    const { tracks: _listing, ...albumInfo } = album || {};
+    return (tracks || []).map((track: any) => track.album ? track : { ...track, album: albumInfo });
+  }
+
   async queuePlaylist(playlistId: string) {
     try {
       console.log(`[DEBUG] Queuing playlist with ID: ${playlistId}`);
       
       // Get ALL tracks from the playlist directly from API (not limited to 20)
-      const playlistResponse = await this.webAPI.getPlaylistTracks(playlistId);
-      const allTracks = playlistResponse.items || [];
-      console.log(`[DEBUG] Got ${allTracks.length} tracks from playlist API`);
+      const playlistResponse = await this.backend.getPlaylistTracks(playlistId);
+      const playlistTracks = playlistResponse.items || [];
+      console.log(`[DEBUG] Got ${playlistTracks.length} tracks from playlist API`);
       
-      if (allTracks.length === 0) {
+      if (playlistTracks.length === 0) {
         return { success: false, message: "Playlist is empty" };
       }
+
+      const { allowed: allTracks, skipped } = await this.applyRulesToTracks(playlistTracks, (item: any) => item.track || item);
+      if (allTracks.length === 0) {
+        return { success: false, message: 'Every track in that playlist is blocked by your listening rules' };
+      }
       
       // Only queue up to 10 tracks to avoid overwhelming the queue
       const tracksToQueue = allTracks.slice(0, 10);
@@ -367,14 +715,15 @@ export class SpotifyControl {
       for (let i = 0; i < tracksToQueue.length; i++) {
         const track = tracksToQueue[i].track || tracksToQueue[i];
         if (track && track.uri) {
-          await this.webAPI.addToQueue(track.uri);
+          await this.enqueue(track);
         }
       }
       
       return { 
         success: true, 
-        message: `Queued ${tracksToQueue.length} tracks from playlist${allTracks.length > 10 ? ` (limited to 10 of ${allTracks.length})` : ''}`,
+        message: `Queued ${tracksToQueue.length} tracks from playlist${allTracks.length > 10 ? ` (limited to 10 of ${allTracks.length})` : ''}${describeSkippedCount(skipped)}`,
         tracksQueued: tracksToQueue.length,
+        skipped,
         playlistInfo: {
           totalTracks: allTracks.length,
           method: 'queue_all'
@@ -405,7 +754,7 @@ export class SpotifyControl {
         playlists = [playlists[randomIndex]];
       } else {
         // Search for playlists by name
-        const rawPlaylists = await this.webAPI.search(query, ['playlist']);
+        const rawPlaylists = await this.searchRelaxed(query, 'playlist');
         
         // Filter out null/invalid playlist entries
         playlists = rawPlaylists.filter(p => p && p.id && p.uri && (p.name || p.title));
@@ -487,7 +836,7 @@ export class SpotifyControl {
       } else if (isAlbumRequest) {
         // Search for albums when query contains "album"
         console.log(`[DEBUG] Searching for album: ${query}`);
-        const rawAlbums = await this.webAPI.search(query, ['album']);
+        const rawAlbums = await this.searchRelaxed(query, 'album');
         
         // Albums have the same structure as playlists in terms of playback
         playlists = rawAlbums.filter(a => a && a.id && a.uri && (a.name || a.title));
@@ -502,7 +851,7 @@ export class SpotifyControl {
         }
       } else {
         // Search for playlists by name
-        const rawPlaylists = await this.webAPI.search(query, ['playlist']);
+        const rawPlaylists = await this.searchRelaxed(query, 'playlist');
         
         // Filter out null/invalid playlist entries
         playlists = rawPlaylists.filter(p => p && p.id && p.uri && (p.name || p.title));
@@ -539,7 +888,7 @@ export class SpotifyControl {
       if (result.success) {
         return {
           ...result,
-          message: `Playing ${itemType}: ${playlistName} (${(result.tracksQueued || 0) + 1} tracks)`,
+          message: `Playing ${itemType}: ${playlistName} (${result.playlistInfo?.totalTracks} tracks)`,
           playlist: {
             name: playlistName,
             id: playlistId,
@@ -553,9 +902,14 @@ export class SpotifyControl {
         };
       }
       
+      // Context playback would bypass the listening rules
+      if (this.listeningRules) {
+        return result;
+      }
+
       // Fallback to context_uri method
       console.log(`[DEBUG] Fallback to context_uri method for ${playlistName}`);
-      await this.webAPI.playPlaylist(playlistUri);
+      await this.backend.playPlaylist(playlistUri);
       
       return { 
         success: true, 
@@ -576,16 +930,30 @@ export class SpotifyControl {
     }
   }
 
-  async queueTrackByUri(uri: string) {
+  async queueTrackByUri(uri: string, track?: any, options: QueueOptions = {}) {
     try {
+      if (this.listeningRules) {
+        const details = track || (await this.tracksForUris([uri]))[0];
+        const violation = await this.checkListeningRules(details);
+        if (violation) {
+          return { success: false, message: describeSkipped(details, violation), skipped: [toSkippedTrack(details, violation)] };
+        }
+      }
+
+      if (this.queueSink) {
+        await this.enqueue(track || { uri }, options);
+        return { success: true };
+      }
+
+
       // First check if there's an active device
-      const devices = await this.webAPI.getDevices();
+      const devices = await this.backend.getDevices();
       const activeDevice = devices.find((d: any) => d.is_active);
       
       if (!activeDevice && devices.length > 0) {
         // No active device, but devices exist - activate the first one
         console.log('[DEBUG] No active device found, activating first available device');
-        await this.webAPI.transferPlayback(devices[0].id, false); // Don't start playing immediately
+        await this.backend.transferPlayback(devices[0].id, false); // Don't start playing immediately
         
         // Small delay to let the device activation take effect
         await new Promise(resolve => setTimeout(resolve, 500));
@@ -593,7 +961,7 @@ export class SpotifyControl {
         throw new Error('No Spotify devices found. Please open Spotify on a device.');
       }
       
-      await this.webAPI.addToQueue(uri);
+      await this.backend.addToQueue(uri);
       return { success: true };
     } catch (error: any) {
       logDebugError('Queue operation failed', error);
@@ -618,7 +986,7 @@ export class SpotifyControl {
 
   async setShuffle(enabled: boolean) {
     try {
-      await this.webAPI.setShuffle(enabled);
+      await this.backend.setShuffle(enabled);
       return { success: true, message: `Shuffle ${enabled ? 'enabled' : 'disabled'}` };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -627,7 +995,7 @@ export class SpotifyControl {
 
   async setRepeat(enabled: boolean) {
     try {
-      await this.webAPI.setRepeat(enabled ? 'context' : 'off');
+      await this.backend.setRepeat(enabled ? 'context' : 'off');
       return { success: true, message: `Repeat ${enabled ? 'enabled' : 'disabled'}` };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -636,8 +1004,8 @@ export class SpotifyControl {
 
   async getDevices() {
     try {
-      const devices = await this.webAPI.getDevices();
-      const currentDevice = await this.webAPI.getCurrentDevice();
+      const devices = await this.backend.getDevices();
+      const currentDevice = await this.backend.getCurrentDevice();
       return { success: true, devices, currentDevice };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -646,7 +1014,7 @@ export class SpotifyControl {
   
   async setDevicePreference(preference: 'auto' | string) {
     try {
-      this.webAPI.setDevicePreference(preference);
+      this.backend.setDevicePreference(preference);
       return { success: true, message: `Device preference set to: ${preference}` };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -655,7 +1023,7 @@ export class SpotifyControl {
   
   async transferPlayback(deviceId: string, play: boolean = false) {
     try {
-      await this.webAPI.transferPlayback(deviceId, play);
+      await this.backend.transferPlayback(deviceId, play);
       return { success: true, message: `Playback transferred to device: ${deviceId}` };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -664,7 +1032,7 @@ export class SpotifyControl {
 
   async getRecommendations(trackId: string) {
     try {
-      const tracks = await this.webAPI.getRecommendations(trackId);
+      const tracks = await this.backend.getRecommendations(trackId);
       return { 
         success: true, 
         message: `Found ${tracks.length} recommendations`,
@@ -683,7 +1051,7 @@ export class SpotifyControl {
 
   async getPlaylists() {
     try {
-      const playlists = await this.webAPI.getPlaylists();
+      const playlists = await this.backend.getPlaylists();
       return { success: true, playlists };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -692,7 +1060,8 @@ export class SpotifyControl {
 
   async getPlaylistTracks(playlistId: string) {
     try {
-      const tracks = await this.webAPI.getPlaylistTracks(playlistId);
+      const response = await this.backend.getPlaylistTracks(playlistId);
+      const tracks = (response.items || []).map((item: any) => item.track || item).filter(Boolean);
       return { 
         success: true, 
         message: `Found ${tracks.length} tracks in playlist`,
@@ -710,7 +1079,7 @@ export class SpotifyControl {
 
   async getAlbumTracks(albumId: string) {
     try {
-      const tracks = await this.webAPI.getAlbumTracks(albumId);
+      const tracks = await this.backend.getAlbumTracks(albumId);
       return { 
         success: true, 
         message: `Found ${tracks.length} tracks in album`,
@@ -728,7 +1097,7 @@ export class SpotifyControl {
 
   async getRecentlyPlayed() {
     try {
-      const tracks = await this.webAPI.getRecentlyPlayed();
+      const tracks = await this.backend.getRecentlyPlayed();
       return { 
         success: true, 
         message: `Found ${tracks.length} recently played tracks`,
@@ -747,7 +1116,7 @@ export class SpotifyControl {
 
   async seekToPosition(positionSeconds: number) {
     try {
-      await this.webAPI.seekToPosition(positionSeconds * 1000); // Convert to milliseconds
+      await this.backend.seekToPosition(positionSeconds * 1000); // Convert to milliseconds
       return { success: true, message: `Seeked to ${positionSeconds} seconds` };
     } catch (error: any) {
       return { success: false, message: error.message };
@@ -757,7 +1126,7 @@ export class SpotifyControl {
   async clearQueue() {
     try {
       console.log(`[DEBUG] Clearing queue`);
-      await this.webAPI.clearQueue();
+      await this.backend.clearQueue();
       return { 
         success: true, 
         message: 'Queue cleared - only current track remains' 
@@ -771,7 +1140,7 @@ export class SpotifyControl {
   async getQueue() {
     try {
       console.log(`[DEBUG] Getting queue`);
-      const queue = await this.webAPI.getQueue();
+      const queue = await this.backend.getQueue();
       return { 
         success: true, 
         queue 
@@ -782,9 +1151,99 @@ export class SpotifyControl {
     }
   }
 
+  /**
+   * Capture the current playback so a later undo can restore it.
+   * Returns null when nothing is playing (there is nothing to go back to).
+   */
+  async capturePlaybackSnapshot(meta: { command?: string; intent?: string } = {}): Promise<PlaybackSnapshot | null> {
+    const playback = await this.backend.getCurrentPlayback();
+    if (!playback?.item) {
+      return null;
+    }
+
+    let queueUris: string[] = [];
+    try {
+      const queue = await this.backend.getQueue();
+      queueUris = (queue?.queue || []).map((t: any) => t?.uri).filter(Boolean).slice(0, MAX_RESTORE_URIS - 1);
+    } catch (error: any) {
+      console.log(`[DEBUG] Could not read queue for snapshot: ${error.message}`);
+    }
+
+    return {
+      capturedAt: Date.now(),
+      ...meta,
+      contextUri: playback.context?.uri || null,
+      trackUri: playback.item.uri,
+      trackName: playback.item.name,
+      artist: playback.item.artists?.map(a => a.name).join(', '),
+      positionMs: playback.progress_ms || 0,
+      isPlaying: playback.is_playing,
+      volume: playback.device?.volume_percent ?? null,
+      shuffle: playback.shuffle_state,
+      repeat: playback.repeat_state,
+      queueUris,
+      deviceId: playback.device?.id || null
+    };
+  }
+
+  /**
+   * Restore a snapshot as closely as the Spotify API allows.
+   * Context playback resumes at the same track and position; the user queue
+   * can't be rebuilt inside a context (Spotify has no queue removal and mixes
+   * context tracks into the queue listing), so it is only restored for
+   * context-less playback, where the upcoming tracks are replayed as uris.
+   */
+  async restorePlaybackSnapshot(snapshot: PlaybackSnapshot) {
+    try {
+      // Only replay when the track, context or queue moved - otherwise a
+      // volume/shuffle undo would restart the song
+      const current = await this.capturePlaybackSnapshot();
+      const unchanged = !!current &&
+        current.trackUri === snapshot.trackUri &&
+        current.contextUri === snapshot.contextUri &&
+        current.queueUris.join(',') === snapshot.queueUris.join(',');
+
+      if (unchanged) {
+        if (snapshot.isPlaying && !current!.isPlaying) {
+          await this.backend.play();
+        }
+      } else if (snapshot.contextUri && snapshot.trackUri) {
+        await this.backend.playContext(snapshot.contextUri, snapshot.trackUri, snapshot.positionMs);
+      } else if (snapshot.trackUri) {
+        await this.backend.playTracksWithUris([snapshot.trackUri, ...snapshot.queueUris]);
+        if (snapshot.positionMs > 0) {
+          await this.backend.seekToPosition(snapshot.positionMs);
+        }
+      }
+
+      // Restore the player settings that the command may have changed
+      const after = await this.backend.getCurrentPlayback();
+      if (snapshot.volume !== null && after?.device?.volume_percent !== snapshot.volume) {
+        await this.backend.setVolume(snapshot.volume);
+      }
+      if (after && after.shuffle_state !== snapshot.shuffle) {
+        await this.backend.setShuffle(snapshot.shuffle);
+      }
+      if (after && after.repeat_state !== snapshot.repeat) {
+        await this.backend.setRepeat(snapshot.repeat);
+      }
+      if (!snapshot.isPlaying) {
+        await this.backend.pause();
+      }
+
+      const what = snapshot.trackName
+        ? `"${snapshot.trackName}"${snapshot.artist ? ` by ${snapshot.artist}` : ''}`
+        : 'your previous playback';
+      return { success: true, message: `Restored ${what}` };
+    } catch (error: any) {
+      console.log(`[DEBUG] Restore snapshot failed: ${error.message}`);
+      return { success: false, message: `Failed to undo: ${error.message}` };
+    }
+  }
+
   async getUserProfile(): Promise<any> {
     try {
-      const profile = await this.webAPI.getUserProfile();
+      const profile = await this.backend.getUserProfile();
       return profile;
     } catch (error: any) {
       console.error('Failed to get user profile:', error);
@@ -795,7 +1254,7 @@ export class SpotifyControl {
   // Library management methods
   async saveToLibrary(trackIds: string[]) {
     try {
-      await this.webAPI.saveTracksToLibrary(trackIds);
+      await this.backend.saveTracksToLibrary(trackIds);
       return { 
         success: true, 
         message: `Added ${trackIds.length} track${trackIds.length > 1 ? 's' : ''} to your library` 
@@ -807,7 +1266,7 @@ export class SpotifyControl {
 
   async removeFromLibrary(trackIds: string[]) {
     try {
-      await this.webAPI.removeTracksFromLibrary(trackIds);
+      await this.backend.removeTracksFromLibrary(trackIds);
       return { 
         success: true, 
         message: `Removed ${trackIds.length} track${trackIds.length > 1 ? 's' : ''} from your library` 
@@ -819,7 +1278,7 @@ export class SpotifyControl {
 
   async checkIfSaved(trackIds: string[]) {
     try {
-      const savedStatus = await this.webAPI.checkIfTracksSaved(trackIds);
+      const savedStatus = await this.backend.checkIfTracksSaved(trackIds);
       return { 
         success: true, 
         savedStatus // Array of booleans matching the order of trackIds
@@ -836,7 +1295,7 @@ export class SpotifyControl {
 controlRouter.post('/play', requireValidTokens, async (req: any, res) => {
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.play(req.body.deviceId);
+    await withUndoPoint(req, webAPI, 'play', 'play', () => webAPI.play(req.body.deviceId));
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
@@ -866,7 +1325,7 @@ controlRouter.post('/play', requireValidTokens, async (req: any, res) => {
 controlRouter.post('/pause', requireValidTokens, async (req: any, res) => {
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.pause(req.body.deviceId);
+    await withUndoPoint(req, webAPI, 'pause', 'pause', () => webAPI.pause(req.body.deviceId));
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
@@ -899,7 +1358,12 @@ controlRouter.post('/pause', requireValidTokens, async (req: any, res) => {
 controlRouter.post('/next', requireValidTokens, async (req: any, res) => {
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.nextTrack();
+    await withUndoPoint(req, webAPI, 'skip', 'skip', async () => {
+      // Skip to the next track in DJ Forge's queue, not the playlist's
+      await getShadowQueueService().feedBeforeSkip(req.userId, webAPI)
+        .catch(error => console.error('Failed to feed the shadow queue before skipping:', error));
+      await webAPI.nextTrack();
+    });
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
@@ -938,7 +1402,7 @@ controlRouter.post('/next', requireValidTokens, async (req: any, res) => {
 controlRouter.post('/previous', requireValidTokens, async (req: any, res) => {
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.previousTrack();
+    await withUndoPoint(req, webAPI, 'previous track', 'previous', () => webAPI.previousTrack());
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
@@ -984,7 +1448,7 @@ controlRouter.post('/volume', requireValidTokens, async (req: any, res) => {
   
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.setVolume(volume, deviceId);
+    await withUndoPoint(req, webAPI, `volume ${volume}`, 'set_volume', () => webAPI.setVolume(volume, deviceId));
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
@@ -1057,7 +1521,7 @@ controlRouter.post('/shuffle', requireValidTokens, async (req: any, res) => {
   
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.setShuffle(enabled);
+    await withUndoPoint(req, webAPI, `shuffle ${enabled ? 'on' : 'off'}`, 'set_shuffle', () => webAPI.setShuffle(enabled));
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
@@ -1155,8 +1619,9 @@ controlRouter.post('/play-uri', requireValidTokens, async (req, res) => {
   }
   
   try {
-    const webAPI = getWebAPI(req);
-    await webAPI.playTrack(uri, deviceId);
+    const spotifyControl = await getRuledControl(req);
+    await getPlaybackUndoService().withUndoPoint((req as any).userId, spotifyControl, { command: 'play track', intent: 'play_specific_song' },
+      () => spotifyControl.playTrack(uri, deviceId));
     res.json({ success: true });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -1189,8 +1654,11 @@ controlRouter.post('/queue', requireValidTokens, async (req, res) => {
   }
   
   try {
-    const webAPI = getWebAPI(req);
-    await webAPI.addToQueue(uri);
+    const spotifyControl = await getRuledControl(req);
+    const result = await spotifyControl.queueTrackByUri(uri);
+    if (!result.success) {
+      return res.status(result.skipped ? 403 : 500).json({ error: result.message, skipped: result.skipped });
+    }
     res.json({ success: true, message: 'Track added to queue' });
   } catch (error: any) {
     res.status(500).json({ error: error.message });
@@ -1218,7 +1686,7 @@ controlRouter.post('/seek', requireValidTokens, async (req, res) => {
 controlRouter.post('/clear-queue', requireValidTokens, async (req, res) => {
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.clearQueue();
+    await withUndoPoint(req, webAPI, 'clear queue', 'clear_queue', () => webAPI.clearQueue());
     
     
     res.json({ success: true, message: 'Queue cleared' });
@@ -1227,6 +1695,48 @@ controlRouter.post('/clear-queue', requireValidTokens, async (req, res) => {
   }
 });
 
+// Latest undoable snapshot (lets the UI label the Undo button)
+controlRouter.get('/undo', requireValidTokens, async (req: any, res) => {
+  if (!req.userId) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  
+  try {
+    const [snapshot] = await getPlaybackUndoService().getSnapshots(req.userId, 1);
+    res.json({ success: true, available: !!snapshot, snapshot: snapshot || null });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Undo the last command by restoring the playback snapshot taken before it
+controlRouter.post('/undo', requireValidTokens, async (req: any, res) => {
+  if (!req.userId) {
+    return res.status(401).json({ error: 'Not authenticated' });
+  }
+  
+  try {
+    const spotifyControl = new SpotifyControl(req.tokens, (tokens) => { req.tokens = tokens; });
+    const result = await getPlaybackUndoService().undo(req.userId, spotifyControl);
+    
+    const musicService = getWebSocketService()?.getMusicService();
+    if (musicService && result.snapshot) {
+      musicService.emitCommandExecuted(req.userId, {
+        intent: 'undo',
+        confidence: 1.0,
+        source: 'user',
+        success: result.success,
+        metadata: { undoneCommand: result.snapshot.command },
+        timestamp: Date.now()
+      });
+    }
+    
+    res.json(result);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
 // Get queue
 controlRouter.get('/queue', requireValidTokens, async (req, res) => {
   try {
@@ -1280,7 +1790,7 @@ controlRouter.post('/repeat', requireValidTokens, async (req: any, res) => {
   
   try {
     const webAPI = getWebAPI(req);
-    await webAPI.setRepeat(state);
+    await withUndoPoint(req, webAPI, `repeat ${state}`, 'set_repeat', () => webAPI.setRepeat(state));
     
     // Emit WebSocket event for UI update
     const wsService = getWebSocketService();
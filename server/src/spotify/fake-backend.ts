@@ -0,0 +1,655 @@
+import { SpotifyTrack } from '../types';
+import { SpotifyDevice, PlaybackState, removeExplicitTracks } from './api';
+import { MusicBackend } from './backend';
+
+/**
+ * Fake Music Backend
+ *
+ * Deterministic in-memory implementation of MusicBackend. It keeps a catalog,
+ * a virtual queue and a playback position driven by a manual clock: time only
+ * moves when advanceTime() is called, so tests can step through track changes
+ * without timers.
+ */
+
+export interface FakeTrackSpec {
+  id: string;
+  name: string;
+  artist: string;
+  album?: string;
+  durationMs?: number;
+  popularity?: number;
+  releaseDate?: string;
+  explicit?: boolean;
+  genres?: string[];       // Artist genres, as returned by getArtist
+}
+
+export interface FakePlaylistSpec {
+  id: string;
+  name: string;
+  description?: string;
+  owner?: string;
+  trackIds: string[];
+}
+
+export interface FakeMusicBackendOptions {
+  tracks?: FakeTrackSpec[];
+  playlists?: FakePlaylistSpec[];
+  devices?: SpotifyDevice[];
+  userId?: string;
+}
+
+interface FakePlaylist {
+  id: string;
+  name: string;
+  description: string;
+  owner: string;
+  uri: string;
+  trackUris: string[];
+}
+
+const slug = (value: string) => value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/(^-|-$)/g, '');
+
+// Build a Spotify-shaped track from a compact spec
+export function fakeTrack(spec: FakeTrackSpec): SpotifyTrack {
+  const artistId = slug(spec.artist);
+  const albumName = spec.album || spec.name;
+  const albumId = slug(`${spec.artist}-${albumName}`);
+
+  return {
+    id: spec.id,
+    name: spec.name,
+    artists: [{ id: artistId, name: spec.artist, uri: `spotify:artist:${artistId}` }],
+    album: {
+      id: albumId,
+      name: albumName,
+      uri: `spotify:album:${albumId}`,
+      release_date: spec.releaseDate || '2000-01-01',
+      images: []
+    },
+    duration_ms: spec.durationMs ?? 180000,
+    uri: `spotify:track:${spec.id}`,
+    popularity: spec.popularity ?? 50,
+    explicit: spec.explicit ?? false,
+    preview_url: undefined,
+    track_number: 1,
+    disc_number: 1
+  };
+}
+
+export const DEFAULT_FAKE_TRACKS: FakeTrackSpec[] = [
+  { id: 'fake-bohemian', name: 'Bohemian Rhapsody', artist: 'Queen', album: 'A Night at the Opera', durationMs: 354000, popularity: 90, releaseDate: '1975-10-31' },
+  { id: 'fake-somebody', name: 'Somebody to Love', artist: 'Queen', album: 'A Day at the Races', durationMs: 296000, popularity: 80, releaseDate: '1976-12-10' },
+  { id: 'fake-teen-spirit', name: 'Smells Like Teen Spirit', artist: 'Nirvana', album: 'Nevermind', durationMs: 301000, popularity: 88, releaseDate: '1991-09-10' },
+  { id: 'fake-come-as-you-are', name: 'Come as You Are', artist: 'Nirvana', album: 'Nevermind', durationMs: 219000, popularity: 82, releaseDate: '1991-09-10' },
+  { id: 'fake-hurt', name: 'Hurt', artist: 'Nine Inch Nails', album: 'The Downward Spiral', durationMs: 373000, popularity: 70, releaseDate: '1994-03-08' },
+  { id: 'fake-closer', name: 'Closer', artist: 'Nine Inch Nails', album: 'The Downward Spiral', durationMs: 373000, popularity: 72, releaseDate: '1994-03-08' },
+  { id: 'fake-cruel-summer', name: 'Cruel Summer', artist: 'Taylor Swift', album: 'Lover', durationMs: 178000, popularity: 95, releaseDate: '2019-08-23' },
+  { id: 'fake-anti-hero', name: 'Anti-Hero', artist: 'Taylor Swift', album: 'Midnights', durationMs: 200000, popularity: 93, releaseDate: '2022-10-21' }
+];
+
+export const DEFAULT_FAKE_PLAYLISTS: FakePlaylistSpec[] = [
+  { id: 'fake-90s-rock', name: '90s Rock Anthems', description: 'Grunge and industrial classics', trackIds: ['fake-teen-spirit', 'fake-come-as-you-are', 'fake-hurt', 'fake-closer'] },
+  { id: 'fake-queen-best', name: 'Queen Essentials', description: 'The best of Queen', trackIds: ['fake-bohemian', 'fake-somebody'] }
+];
+
+const DEFAULT_DEVICE: SpotifyDevice = {
+  id: 'fake-device',
+  is_active: true,
+  is_private_session: false,
+  is_restricted: false,
+  name: 'DJForge Web Player',
+  type: 'Computer',
+  volume_percent: 50
+};
+
+// Parse `artist:"x" track:"y" album:"z"` style queries into field filters plus free text
+function parseQuery(query: string): { fields: Record<string, string>; text: string } {
+  const fields: Record<string, string> = {};
+  const text = query.replace(/(\w+):(?:"([^"]*)"|(\S+))/g, (_, field: string, quoted?: string, bare?: string) => {
+    fields[field.toLowerCase()] = (quoted ?? bare ?? '').toLowerCase();
+    return ' ';
+  });
+  return { fields, text: text.trim().toLowerCase() };
+}
+
+export class FakeMusicBackend implements MusicBackend {
+  private tracks = new Map<string, SpotifyTrack>();
+  private artistGenres = new Map<string, string[]>();
+  private playlists = new Map<string, FakePlaylist>();
+  private devices: SpotifyDevice[];
+  private userId: string;
+
+  private current: SpotifyTrack | null = null;
+  private positionMs = 0;
+  private isPlaying = false;
+  private shuffle = false;
+  private repeat: 'off' | 'track' | 'context' = 'off';
+  private contextUri: string | null = null;
+  private upNext: SpotifyTrack[] = [];   // Remaining tracks from the current context
+  private queue: SpotifyTrack[] = [];    // User queue, always played before upNext
+  private history: Array<{ track: SpotifyTrack; played_at: string }> = [];
+  private saved = new Set<string>();
+  private explicitFilter = false;
+  private clock = Date.parse('2025-01-01T00:00:00Z');
+
+  constructor(options: FakeMusicBackendOptions = {}) {
+    this.userId = options.userId || 'fake-user';
+    this.devices = (options.devices || [DEFAULT_DEVICE]).map(d => ({ ...d }));
+    this.addTracks(options.tracks || DEFAULT_FAKE_TRACKS);
+    for (const playlist of options.playlists || DEFAULT_FAKE_PLAYLISTS) {
+      this.addPlaylist(playlist);
+    }
+  }
+
+  // ---- Test helpers -------------------------------------------------------
+
+  addTracks(specs: FakeTrackSpec[]): void {
+    for (const spec of specs) {
+      const track = fakeTrack(spec);
+      this.tracks.set(track.uri, track);
+      if (spec.genres) {
+        this.artistGenres.set(track.artists[0].id, spec.genres);
+      }
+    }
+  }
+
+  addPlaylist(spec: FakePlaylistSpec): void {
+    this.playlists.set(spec.id, {
+      id: spec.id,
+      name: spec.name,
+      description: spec.description || '',
+      owner: spec.owner || this.userId,
+      uri: `spotify:playlist:${spec.id}`,
+      trackUris: spec.trackIds.map(id => `spotify:track:${id}`)
+    });
+  }
+
+  /**
+   * Move the virtual clock forward. While playing, the position advances and
+   * finished tracks roll over to the queue, then the context, like Spotify.
+   */
+  advanceTime(ms: number): void {
+    let remaining = ms;
+    while (remaining > 0) {
+      if (!this.isPlaying || !this.current) {
+        this.clock += remaining;
+        return;
+      }
+      const left = this.current.duration_ms - this.positionMs;
+      if (remaining < left) {
+        this.positionMs += remaining;
+        this.clock += remaining;
+        return;
+      }
+      remaining -= left;
+      this.clock += left;
+      this.positionMs = this.current.duration_ms;
+      this.advanceToNext(true);
+    }
+  }
+
+  getUserQueue(): SpotifyTrack[] {
+    return [...this.queue];
+  }
+
+  // ---- Search & catalog ---------------------------------------------------
+
+  async search(query: string, types: string[] = ['track']): Promise<any[]> {
+    const { fields, text } = parseQuery(query);
+    const words = text.split(/\s+/).filter(Boolean);
+
+    if (types.includes('playlist')) {
+      return Array.from(this.playlists.values())
+        .filter(p => words.every(w => `${p.name} ${p.description}`.toLowerCase().includes(w)))
+        .slice(0, 10)
+        .map(p => this.playlistObject(p));
+    }
+
+    const matches = Array.from(this.tracks.values()).filter(track => {
+      const artistNames = track.artists.map(a => a.name.toLowerCase()).join(' ');
+      if (fields.artist && !artistNames.includes(fields.artist)) return false;
+      if (fields.track && !track.name.toLowerCase().includes(fields.track)) return false;
+      if (fields.album && !track.album.name.toLowerCase().includes(fields.album)) return false;
+      if (fields.year) {
+        const year = parseInt(track.album.release_date?.slice(0, 4) || '0', 10);
+        const [from, to] = fields.year.split('-').map(y => parseInt(y, 10));
+        if (year < from || year > (to || from)) return false;
+      }
+      const haystack = `${track.name} ${artistNames} ${track.album.name}`.toLowerCase();
+      return words.every(w => haystack.includes(w));
+    });
+
+    if (types.includes('album')) {
+      const albums = new Map<string, any>();
+      for (const track of matches) {
+        if (!albums.has(track.album.id)) {
+          albums.set(track.album.id, { ...track.album, artists: track.artists, title: track.album.name });
+        }
+      }
+      return Array.from(albums.values()).slice(0, 10);
+    }
+
+    if (types.includes('artist')) {
+      const artists = new Map<string, any>();
+      for (const track of matches) {
+        for (const artist of track.artists) {
+          artists.set(artist.id, { ...artist, genres: [] });
+        }
+      }
+      return Array.from(artists.values()).slice(0, 10);
+    }
+
+    const tracks = matches.sort((a, b) => (b.popularity || 0) - (a.popularity || 0));
+    return (this.explicitFilter ? removeExplicitTracks(tracks) : tracks).slice(0, 10);
+  }
+
+  setExplicitFilter(enabled: boolean): void {
+    this.explicitFilter = enabled;
+  }
+
+  async searchPlaylists(query: string, limit: number = 20, offset: number = 0): Promise<any> {
+    const items = await this.search(query, ['playlist']);
+    return { playlists: { items: items.slice(offset, offset + limit), total: items.length } };
+  }
+
+  async getRecommendations(trackId: string): Promise<SpotifyTrack[]> {
+    const seed = this.tracks.get(`spotify:track:${trackId}`);
+    const seedArtist = seed?.artists[0]?.id;
+    return Array.from(this.tracks.values())
+      .filter(t => t.id !== trackId)
+      .sort((a, b) => Number(b.artists[0]?.id === seedArtist) - Number(a.artists[0]?.id === seedArtist))
+      .slice(0, 20);
+  }
+
+  async getPlaylist(playlistId: string): Promise<any> {
+    const playlist = this.playlists.get(playlistId);
+    if (!playlist) {
+      throw new Error('Failed to get playlist');
+    }
+    return {
+      ...this.playlistObject(playlist),
+      tracks: await this.getPlaylistTracks(playlistId)
+    };
+  }
+
+  async getAlbum(albumId: string): Promise<any> {
+    const tracks = this.albumTracks(albumId);
+    if (tracks.length === 0) {
+      throw new Error('Failed to get album');
+    }
+    return { ...tracks[0].album, artists: tracks[0].artists, tracks: { items: tracks, total: tracks.length } };
+  }
+
+  async getArtist(artistId: string): Promise<any> {
+    const track = Array.from(this.tracks.values()).find(t => t.artists.some(a => a.id === artistId));
+    if (!track) {
+      throw new Error('Failed to get artist');
+    }
+    return { ...track.artists.find(a => a.id === artistId), genres: this.artistGenres.get(artistId) || [], popularity: track.popularity };
+  }
+
+  async getTracks(trackIds: string[]): Promise<SpotifyTrack[]> {
+    return trackIds
+      .map(id => this.tracks.get(`spotify:track:${id}`))
+      .filter((track): track is SpotifyTrack => !!track);
+  }
+
+  async getAlbumTracks(albumId: string): Promise<any[]> {
+    // Spotify's simplified track objects here leave out the album
+    return this.albumTracks(albumId).map(({ album: _album, ...track }) => track);
+  }
+
+  // ---- Playback -----------------------------------------------------------
+
+  async play(): Promise<void> {
+    this.requireDevice();
+    if (this.current) {
+      this.isPlaying = true;
+    }
+  }
+
+  async pause(): Promise<void> {
+    this.requireDevice();
+    this.isPlaying = false;
+  }
+
+  async nextTrack(): Promise<void> {
+    this.requireDevice();
+    this.advanceToNext(false);
+  }
+
+  async previousTrack(): Promise<void> {
+    this.requireDevice();
+    const previous = this.history.shift();
+    if (!previous) {
+      this.positionMs = 0;
+      return;
+    }
+    if (this.current) {
+      this.upNext.unshift(this.current);
+    }
+    this.current = previous.track;
+    this.positionMs = 0;
+  }
+
+  async setVolume(volumePercent: number): Promise<void> {
+    this.requireDevice().volume_percent = Math.max(0, Math.min(100, Math.round(volumePercent)));
+  }
+
+  async getVolume(): Promise<number> {
+    return this.requireDevice().volume_percent;
+  }
+
+  async setShuffle(state: boolean): Promise<void> {
+    this.requireDevice();
+    this.shuffle = state;
+  }
+
+  async setRepeat(state: 'off' | 'track' | 'context'): Promise<void> {
+    this.requireDevice();
+    this.repeat = state;
+  }
+
+  async seekToPosition(positionMs: number): Promise<void> {
+    this.requireDevice();
+    if (this.current) {
+      this.positionMs = Math.max(0, Math.min(positionMs, this.current.duration_ms));
+    }
+  }
+
+  async playTrack(uri: string): Promise<void> {
+    await this.playTracksWithUris([uri]);
+  }
+
+  async playTracksWithUris(uris: string[]): Promise<void> {
+    this.requireDevice();
+    const tracks = uris.map(uri => this.requireTrack(uri));
+    this.startContext(null, tracks);
+  }
+
+  async playPlaylist(uri: string): Promise<void> {
+    this.requireDevice();
+    const id = uri.split(':').pop() || uri;
+    const playlist = this.playlists.get(id);
+    const tracks = playlist
+      ? playlist.trackUris.map(trackUri => this.requireTrack(trackUri))
+      : this.albumTracks(id);
+
+    if (tracks.length === 0) {
+      throw new Error(`Context not found: ${uri}`);
+    }
+    this.startContext(uri, tracks);
+  }
+
+  async playContext(contextUri: string, offsetUri?: string, positionMs?: number): Promise<void> {
+    await this.playPlaylist(contextUri);
+    const index = offsetUri ? this.upNext.findIndex(t => t.uri === offsetUri) : -1;
+    if (index >= 0 && this.current) {
+      // Tracks before the offset are skipped, not played
+      this.current = this.upNext[index];
+      this.upNext = this.upNext.slice(index + 1);
+    }
+    if (positionMs && this.current) {
+      this.positionMs = Math.min(positionMs, this.current.duration_ms);
+    }
+  }
+
+  async getCurrentPlayback(): Promise<PlaybackState | null> {
+    if (!this.current) {
+      return null;
+    }
+    return {
+      device: { ...this.requireDevice() },
+      shuffle_state: this.shuffle,
+      repeat_state: this.repeat,
+      timestamp: this.clock,
+      context: this.contextUri ? { uri: this.contextUri, type: this.contextUri.split(':')[1] } : null,
+      progress_ms: this.positionMs,
+      item: this.current,
+      currently_playing_type: 'track',
+      is_playing: this.isPlaying
+    };
+  }
+
+  // ---- Queue --------------------------------------------------------------
+
+  async addToQueue(uri: string): Promise<void> {
+    this.requireDevice();
+    this.queue.push(this.requireTrack(uri));
+  }
+
+  async getQueue(): Promise<any> {
+    return {
+      currently_playing: this.current,
+      queue: [...this.queue, ...this.upNext]
+    };
+  }
+
+  async clearQueue(): Promise<void> {
+    // Same observable behaviour as the Spotify workaround: replay the current
+    // track on its own, which drops the queue and the rest of the context
+    if (!this.current) {
+      return;
+    }
+    const position = this.positionMs;
+    this.startContext(null, [this.current]);
+    this.positionMs = position;
+  }
+
+  // ---- Devices ------------------------------------------------------------
+
+  async getDevices(): Promise<any[]> {
+    return this.devices.map(d => ({ ...d }));
+  }
+
+  async getCurrentDevice(): Promise<SpotifyDevice | null> {
+    return this.devices.find(d => d.is_active) || null;
+  }
+
+  async ensureDeviceId(): Promise<string> {
+    return this.requireDevice().id;
+  }
+
+  setDevicePreference(preference: 'auto' | string): void {
+    if (preference !== 'auto' && this.devices.some(d => d.id === preference)) {
+      this.activate(preference);
+    }
+  }
+
+  async transferPlayback(deviceId: string, play: boolean = true): Promise<void> {
+    if (!this.devices.some(d => d.id === deviceId)) {
+      throw new Error(`Device not found: ${deviceId}`);
+    }
+    this.activate(deviceId);
+    if (play && this.current) {
+      this.isPlaying = true;
+    }
+  }
+
+  // ---- User & library -----------------------------------------------------
+
+  async getCurrentUser(): Promise<{ id: string; display_name?: string; email?: string }> {
+    return { id: this.userId, display_name: 'Fake User', email: `${this.userId}@example.com` };
+  }
+
+  async getUserProfile(): Promise<any> {
+    return { ...(await this.getCurrentUser()), product: 'premium', country: 'US' };
+  }
+
+  async getRecentlyPlayed(): Promise<any[]> {
+    return this.history.slice(0, 50).map(entry => ({ ...entry, context: null }));
+  }
+
+  async getTopArtists(_timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term', limit: number = 20): Promise<any[]> {
+    const artists = new Map<string, any>();
+    for (const track of await this.getTopTracks(_timeRange, 50)) {
+      for (const artist of track.artists) {
+        if (!artists.has(artist.id)) {
+          artists.set(artist.id, { ...artist, genres: [], popularity: track.popularity, images: [] });
+        }
+      }
+    }
+    return Array.from(artists.values()).slice(0, limit);
+  }
+
+  async getTopTracks(_timeRange: 'short_term' | 'medium_term' | 'long_term' = 'medium_term', limit: number = 20): Promise<any[]> {
+    return Array.from(this.tracks.values())
+      .sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
+      .slice(0, limit);
+  }
+
+  async getSavedTracks(limit: number = 50, offset: number = 0): Promise<any> {
+    const items = Array.from(this.saved)
+      .map(id => this.tracks.get(`spotify:track:${id}`))
+      .filter((t): t is SpotifyTrack => !!t)
+      .map(track => ({ added_at: new Date(this.clock).toISOString(), track }));
+    return { items: items.slice(offset, offset + limit), total: items.length, next: null, previous: null };
+  }
+
+  async getSavedAlbums(): Promise<any> {
+    return { items: [], total: 0, next: null, previous: null };
+  }
+
+  async saveTracksToLibrary(trackIds: string[]): Promise<void> {
+    trackIds.forEach(id => this.saved.add(id));
+  }
+
+  async removeTracksFromLibrary(trackIds: string[]): Promise<void> {
+    trackIds.forEach(id => this.saved.delete(id));
+  }
+
+  async checkIfTracksSaved(trackIds: string[]): Promise<boolean[]> {
+    return trackIds.map(id => this.saved.has(id));
+  }
+
+  // ---- Playlists ----------------------------------------------------------
+
+  async getPlaylists(limit: number = 50, offset: number = 0): Promise<any[]> {
+    return Array.from(this.playlists.values())
+      .slice(offset, offset + Math.min(limit, 50))
+      .map(p => this.playlistObject(p));
+  }
+
+  async getPlaylistTracks(playlistId: string, limit: number = 100, offset: number = 0): Promise<any> {
+    const playlist = this.playlists.get(playlistId);
+    const uris = playlist?.trackUris || [];
+    return {
+      items: uris.slice(offset, offset + Math.min(limit, 100)).map(uri => ({ track: this.tracks.get(uri) || null })),
+      total: uris.length,
+      limit,
+      offset
+    };
+  }
+
+  async createPlaylist(name: string, description?: string): Promise<any> {
+    const id = `fake-playlist-${this.playlists.size + 1}`;
+    this.addPlaylist({ id, name, description, trackIds: [] });
+    return this.playlistObject(this.playlists.get(id)!);
+  }
+
+  async addTracksToPlaylist(playlistId: string, trackUris: string[]): Promise<any> {
+    const playlist = this.playlists.get(playlistId);
+    if (!playlist) {
+      throw new Error(`Playlist not found: ${playlistId}`);
+    }
+    playlist.trackUris.push(...trackUris);
+    return { snapshot_id: `${playlistId}-${playlist.trackUris.length}` };
+  }
+
+  async removeTracksFromPlaylist(playlistId: string, trackUris: string[]): Promise<any> {
+    const playlist = this.playlists.get(playlistId);
+    if (!playlist) {
+      throw new Error(`Playlist not found: ${playlistId}`);
+    }
+    playlist.trackUris = playlist.trackUris.filter(uri => !trackUris.includes(uri));
+    return { snapshot_id: `${playlistId}-${playlist.trackUris.length}` };
+  }
+
+  async findPlaylistByName(name: string): Promise<any | null> {
+    const playlists = Array.from(this.playlists.values()).map(p => this.playlistObject(p));
+    return playlists.find((playlist: any) => playlist.name === name) || null;
+  }
+
+  async ensurePlaylistExists(name: string, description?: string): Promise<any> {
+    return (await this.findPlaylistByName(name)) || this.createPlaylist(name, description);
+  }
+
+  // ---- Internals ----------------------------------------------------------
+
+  private startContext(contextUri: string | null, tracks: SpotifyTrack[]): void {
+    if (this.current) {
+      this.pushHistory(this.current);
+    }
+    this.contextUri = contextUri;
+    this.current = tracks[0] || null;
+    this.upNext = tracks.slice(1);
+    // Like Spotify, starting new playback with explicit uris/context drops the user queue
+    this.queue = [];
+    this.positionMs = 0;
+    this.isPlaying = !!this.current;
+  }
+
+  private advanceToNext(finished: boolean): void {
+    if (!this.current) {
+      return;
+    }
+    if (finished && this.repeat === 'track') {
+      this.positionMs = 0;
+      return;
+    }
+
+    this.pushHistory(this.current);
+    const next = this.queue.shift() || this.upNext.shift();
+    if (next) {
+      this.current = next;
+      this.positionMs = 0;
+      return;
+    }
+
+    // Nothing left to play - stop at the end of the last track
+    this.isPlaying = false;
+    this.positionMs = finished ? this.current.duration_ms : 0;
+  }
+
+  private pushHistory(track: SpotifyTrack): void {
+    this.history.unshift({ track, played_at: new Date(this.clock).toISOString() });
+    this.history = this.history.slice(0, 50);
+  }
+
+  private albumTracks(albumId: string): SpotifyTrack[] {
+    return Array.from(this.tracks.values()).filter(t => t.album.id === albumId);
+  }
+
+  private playlistObject(playlist: FakePlaylist): any {
+    return {
+      id: playlist.id,
+      name: playlist.name,
+      description: playlist.description,
+      uri: playlist.uri,
+      owner: { id: playlist.owner, display_name: playlist.owner },
+      public: false,
+      images: [],
+      tracks: { total: playlist.trackUris.length }
+    };
+  }
+
+  private requireTrack(uri: string): SpotifyTrack {
+    const track = this.tracks.get(uri);
+    if (!track) {
+      throw new Error(`Track not found: ${uri}`);
+    }
+    return track;
+  }
+
+  private requireDevice(): SpotifyDevice {
+    const device = this.devices.find(d => d.is_active);
+    if (!device) {
+      throw new Error('No active device found. Please open Spotify on a device.');
+    }
+    return device;
+  }
+
+  private activate(deviceId: string): void {
+    this.devices.forEach(d => { d.is_active = d.id === deviceId; });
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Typed Spotify search queries.
+ *
+ * Spotify's `q` parameter mixes free text with field filters (artist:"x"
+ * year:1990-1999 genre:"hip hop" tag:new ...), and each search type only
+ * honours some of them - a playlist search with genre:pop year:2004 quietly
+ * comes back empty. Queries are built from a SearchQuery for a specific
+ * search type: unsupported filters become plain keywords, values are quoted
+ * and cleaned (Spotify has no escape for quotes), and relaxSpotifyQuery gives
+ * the ladder of ever looser queries to fall back through when nothing matches.
+ */
+
+import type { MusicBackend } from './backend';
+
+export type SearchType = 'track' | 'album' | 'artist' | 'playlist';
+
+export interface YearRange {
+  from: number;
+  to: number;
+}
+
+export interface SearchQuery {
+  text?: string;                  // Free-text keywords
+  artist?: string;
+  track?: string;
+  album?: string;
+  year?: number | YearRange;
+  genre?: string;
+  tag?: 'new' | 'hipster';        // Albums released in the last two weeks / lowest 10% popularity
+  isrc?: string;
+}
+
+type SearchFilter = Exclude<keyof SearchQuery, 'text'>;
+
+// Order filters are written in - matches the hand-built queries they replace
+const FILTERS: SearchFilter[] = ['artist', 'track', 'album', 'year', 'genre', 'tag', 'isrc'];
+
+// What Spotify applies per search type (https://developer.spotify.com/documentation/web-api/reference/search)
+const SUPPORTED_FILTERS: Record<SearchType, SearchFilter[]> = {
+  track: ['artist', 'track', 'album', 'year', 'genre', 'isrc'],
+  album: ['artist', 'album', 'year', 'tag'],
+  artist: ['artist', 'year', 'genre'],
+  playlist: []
+};
+
+// Meaningless as keywords - dropped when the search type can't filter on them
+const FILTER_ONLY: SearchFilter[] = ['tag', 'isrc'];
+
+// Relaxing drops the narrowest filters first; artist/track go last, as free text
+const RELAX_ORDER: SearchFilter[] = ['tag', 'isrc', 'year', 'genre', 'album'];
+
+const FIELD_PATTERN = /(?<![\w:])(artist|track|album|year|genre|tag|isrc):(?:"([^"]*)"?|(\S+))/gi;
+
+function clean(value: string | undefined): string {
+  return (value || '').replace(/"/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function parseYear(value: string): number | YearRange | undefined {
+  const decade = value.match(/^(\d{3})0s$/);
+  if (decade) {
+    const from = parseInt(decade[1], 10) * 10;
+    return { from, to: from + 9 };
+  }
+
+  const range = value.match(/^(\d{4})(?:-(\d{4}))?$/);
+  if (!range) return undefined;
+  const from = parseInt(range[1], 10);
+  const to = range[2] ? parseInt(range[2], 10) : from;
+  return from === to ? from : { from: Math.min(from, to), to: Math.max(from, to) };
+}
+
+function formatYear(year: number | YearRange | undefined): string {
+  if (typeof year === 'number') {
+    return Number.isInteger(year) && year >= 1000 && year <= 9999 ? String(year) : '';
+  }
+  if (!year) return '';
+  const from = formatYear(year.from);
+  const to = formatYear(year.to);
+  if (!from || !to) return '';
+  return from === to ? from : `${Math.min(year.from, year.to)}-${Math.max(year.from, year.to)}`;
+}
+
+function formatFilter(filter: SearchFilter, query: SearchQuery): { value: string; keyword: string } | null {
+  switch (filter) {
+    case 'year': {
+      const year = formatYear(query.year);
+      return year ? { value: year, keyword: year } : null;
+    }
+    case 'tag':
+      return query.tag === 'new' || query.tag === 'hipster' ? { value: query.tag, keyword: '' } : null;
+    case 'isrc': {
+      const isrc = (query.isrc || '').replace(/[^a-z0-9]/gi, '').toUpperCase();
+      return isrc.length === 12 ? { value: isrc, keyword: '' } : null;
+    }
+    case 'genre': {
+      const genre = clean(query.genre).toLowerCase();
+      if (!genre) return null;
+      return { value: /^[\w-]+$/.test(genre) ? genre : `"${genre}"`, keyword: genre };
+    }
+    default: {
+      const value = clean(query[filter]);
+      return value ? { value: `"${value}"`, keyword: value } : null;
+    }
+  }
+}
+
+/**
+ * The `q` string for a search of the given type
+ */
+export function buildSpotifyQuery(query: SearchQuery, type: SearchType = 'track'): string {
+  const supported = SUPPORTED_FILTERS[type];
+  const keywords: string[] = [clean(query.text)];
+  const filters: string[] = [];
+
+  for (const filter of FILTERS) {
+    const formatted = formatFilter(filter, query);
+    if (!formatted) continue;
+
+    if (supported.includes(filter)) {
+      filters.push(`${filter}:${formatted.value}`);
+    } else if (!FILTER_ONLY.includes(filter)) {
+      keywords.push(formatted.keyword);
+    }
+  }
+
+  return [...keywords, ...filters].filter(Boolean).join(' ');
+}
+
+/**
+ * Split a hand-written or LLM-written query into text and known filters.
+ * Unknown "field:value" pairs stay in the text; Spotify has no AND operator
+ * (space already means AND), so a literal one is dropped.
+ */
+export function parseSpotifyQuery(raw: string): SearchQuery {
+  const query: SearchQuery = {};
+
+  const text = raw.replace(FIELD_PATTERN, (match, field: string, quoted?: string, bare?: string) => {
+    const value = clean(quoted ?? bare);
+    switch (field.toLowerCase()) {
+      case 'year': {
+        const year = parseYear(value);
+        if (!year) return match;
+        query.year = year;
+        break;
+      }
+      case 'tag': {
+        const tag = value.toLowerCase();
+        if (tag !== 'new' && tag !== 'hipster') return match;
+        query.tag = tag;
+        break;
+      }
+      default:
+        if (!value) return ' ';
+        query[field.toLowerCase() as 'artist' | 'track' | 'album' | 'genre' | 'isrc'] = value;
+    }
+    return ' ';
+  });
+
+  const remaining = text.replace(/(^|\s)AND(?=\s|$)/g, ' ').replace(/\s+/g, ' ').trim();
+  if (remaining) {
+    query.text = remaining;
+  }
+  return query;
+}
+
+/**
+ * The query followed by ever looser versions of it: one filter dropped at a
+ * time, then artist/track searched as plain text
+ */
+export function relaxSpotifyQuery(query: SearchQuery): SearchQuery[] {
+  const ladder: SearchQuery[] = [query];
+  let current: SearchQuery = { ...query };
+
+  for (const filter of RELAX_ORDER) {
+    if (current[filter] === undefined) continue;
+    current = { ...current };
+    delete current[filter];
+    ladder.push(current);
+  }
+
+  if (current.artist || current.track) {
+    const text = [current.text, current.track, current.artist].map(clean).filter(Boolean).join(' ');
+    ladder.push({ text });
+  }
+
+  return ladder;
+}
+
+/**
+ * Distinct query strings to try in order for a search of the given type
+ */
+export function buildQueryLadder(query: SearchQuery | string, type: SearchType = 'track'): string[] {
+  const parsed = typeof query === 'string' ? parseSpotifyQuery(query) : query;
+  const queries = relaxSpotifyQuery(parsed).map(q => buildSpotifyQuery(q, type));
+  return [...new Set(queries.filter(Boolean))];
+}
+
+/**
+ * Rewrite a raw query so it works for the given search type
+ */
+export function normalizeSpotifyQuery(raw: string, type: SearchType = 'track'): string {
+  return buildSpotifyQuery(parseSpotifyQuery(raw), type);
+}
+
+/**
+ * Search with ever looser versions of the query until one finds playlists.
+ * Spotify ignores most filters for playlists ("genre:pop year:2004" finds
+ * nothing), so the first step is already the filters folded into keywords.
+ * Picking the query by total rather than page size keeps pagination on it.
+ */
+export async function searchPlaylistsRelaxed(backend: MusicBackend, q: string, limit: number, offset: number): Promise<{ query: string; results: any }> {
+  const ladder = buildQueryLadder(q, 'playlist');
+  let results: any = null;
+
+  for (const query of ladder) {
+    results = await backend.searchPlaylists(query, limit, offset);
+    if ((results.playlists?.total || 0) > 0) {
+      return { query, results };
+    }
+    console.log(`🔍 No playlists for "${query}", relaxing the search`);
+  }
+
+  return { query: ladder[0] || q, results: results || { playlists: { items: [], total: 0 } } };
+}
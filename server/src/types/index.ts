@@ -1,3 +1,5 @@
+import { PromptStamp } from '../llm/prompts/registry';
+
 export interface SpotifyAuthTokens {
   access_token: string;
   refresh_token: string;
@@ -37,6 +39,7 @@ export interface SpotifyTrack {
   preview_url?: string;
   track_number?: number;
   disc_number?: number;
+  explicit?: boolean;
 }
 
 export interface CurrentPlayback {
@@ -69,6 +72,40 @@ export interface AIDiscoveredTrack {
   feedback?: 'loved' | 'disliked' | 'blocked';  // Only stored if user gave feedback
   feedbackAt?: number;
   previewUrl?: string;      // 30-second preview URL from Spotify API
+  provenance?: DiscoveryProvenance;  // Missing on older entries - those were all primary picks
+  prompts?: PromptStamp[];  // Prompt versions behind the pick, for per-version love rates
+}
+
+// How a ratable track reached the user: the model's own pick, a stand-in for a
+// song that couldn't be played, or one of the alternatives offered alongside
+export type DiscoverySource = 'primary' | 'fallback' | 'alternative';
+
+export interface DiscoveryProvenance {
+  source: DiscoverySource;
+  retryLevel?: number;      // Fallbacks: which search retry found it (0 = the first query)
+  requested?: string;       // Fallbacks: the song that was asked for ("Track by Artist")
+  alternativeTo?: string;   // Alternatives: the track they were offered next to
+}
+
+// Learned from listening rather than clicks: an AI discovery skipped early or played to the end
+export type ImplicitFeedbackSignal = 'early_skip' | 'full_listen';
+
+export interface ImplicitFeedback {
+  trackUri: string;
+  trackName: string;
+  artist: string;
+  earlySkips: number;
+  fullListens: number;
+  score: number;            // Sum of signal weights - explicit feedback counts as +/-1
+  updatedAt: number;
+}
+
+// What a DJ Forge playlist reconcile changed, by track URI
+export interface DJForgePlaylistSync {
+  added: string[];          // Loved tracks that were missing from the playlist
+  removed: string[];        // Disliked/blocked tracks still in the playlist
+  loved: string[];          // Discoveries the user added to the playlist in Spotify
+  unloved: string[];        // Loved tracks the user removed from the playlist in Spotify
 }
 
 export interface PlaylistDiscoveryRequest {
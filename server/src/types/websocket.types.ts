@@ -38,10 +38,11 @@ export interface ServerToClientEvents {
   }) => void;
   
   queueUpdated: (data: {
-    action: 'added' | 'removed' | 'cleared';
+    action: 'added' | 'removed' | 'moved' | 'cleared';
     tracks?: any[]; // Using 'any' to match existing SpotifyTrack usage
     trackUris?: string[];
     totalItems: number;
+    shadowQueue?: any[];  // Full DJ Forge queue after the change
     source: 'user' | 'ai';
     timestamp: number;
   }) => void;
@@ -68,6 +69,31 @@ export interface ServerToClientEvents {
     timestamp: number;
   }) => void;
   
+  // Streamed conversational answers (chat / ask_question)
+  chatDelta: (data: {
+    streamId: string;     // Client-supplied ID tying deltas to the pending command
+    delta: string;        // Newly generated text
+    timestamp: number;
+  }) => void;
+  
+  chatComplete: (data: {
+    streamId: string;
+    content: string;      // Full answer (same text as the HTTP response message)
+    model?: string;
+    error?: string;       // Set when the stream failed part-way
+    timestamp: number;
+  }) => void;
+  
+  // A scheduled action (sleep timer, fade, timed playlist) ran
+  scheduledActionFired: (data: {
+    id: string;
+    action: string;       // pause | fade_out | play_playlist | set_volume | resume
+    description: string;  // Human-readable summary, e.g. "Stop the music"
+    success: boolean;
+    message: string;
+    timestamp: number;
+  }) => void;
+  
   // Playlist discovery progress updates
   playlistDiscoveryProgress: (data: {
     sessionId: string;                    // Ensures user only sees their own progress
@@ -0,0 +1,144 @@
+/**
+ * Time period detection for listening history questions
+ * Turns "last Tuesday", "yesterday" or "3 days ago" into a time range, with
+ * day boundaries in the user's timezone
+ */
+
+export interface HistoryPeriod {
+  from: number;   // ms, inclusive
+  to: number;     // ms, inclusive
+  label: string;  // e.g. "Tuesday, Oct 13"
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MAX_DAYS = 366;
+
+interface ZonedDate {
+  year: number;
+  month: number;    // 0-11
+  day: number;
+  weekday: number;  // 0 = Sunday
+}
+
+function zonedParts(instant: number, timezone: string | undefined): Intl.DateTimeFormatPart[] {
+  const options: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    weekday: 'long',
+    hourCycle: 'h23'
+  };
+  try {
+    return new Intl.DateTimeFormat('en-US', { ...options, timeZone: timezone || undefined }).formatToParts(new Date(instant));
+  } catch {
+    // Unknown timezone - fall back to the server's
+    return new Intl.DateTimeFormat('en-US', options).formatToParts(new Date(instant));
+  }
+}
+
+// How far the timezone's wall clock is ahead of UTC at this instant
+function offsetAt(instant: number, timezone: string | undefined): number {
+  const parts = zonedParts(instant, timezone);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0', 10);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return wallClock - (instant - (((instant % 1000) + 1000) % 1000));
+}
+
+function zonedDate(instant: number, timezone: string | undefined): ZonedDate {
+  const parts = zonedParts(instant, timezone);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    year: parseInt(part('year'), 10),
+    month: parseInt(part('month'), 10) - 1,
+    day: parseInt(part('day'), 10),
+    weekday: WEEKDAYS.indexOf(part('weekday').toLowerCase())
+  };
+}
+
+// Midnight in `timezone` on the given calendar date (day/month may overflow, like Date.UTC)
+function startOfDay(year: number, month: number, day: number, timezone: string | undefined): number {
+  const midnightUtc = Date.UTC(year, month, day);
+  // Offset at the guessed instant, so days that start or end a DST switch come out right
+  const guess = midnightUtc - offsetAt(midnightUtc, timezone);
+  return midnightUtc - offsetAt(guess, timezone);
+}
+
+function describeDay(instant: number, timezone: string | undefined): string {
+  const options: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'short', day: 'numeric' };
+  try {
+    return new Date(instant).toLocaleDateString('en-US', { ...options, timeZone: timezone || undefined });
+  } catch {
+    return new Date(instant).toLocaleDateString('en-US', options);
+  }
+}
+
+/**
+ * Find the time period a listening history question is about
+ * @param text The user's question, e.g. "what was I listening to last Tuesday"
+ * @param now Current time in ms
+ * @param timezone IANA timezone of the user (server timezone when omitted)
+ * @returns The matching period or null when the text doesn't mention one
+ */
+export function parseHistoryPeriod(text: string, now: number, timezone?: string): HistoryPeriod | null {
+  const lower = text.toLowerCase();
+  const today = zonedDate(now, timezone);
+  const dayStart = (daysFromToday: number) => startOfDay(today.year, today.month, today.day + daysFromToday, timezone);
+  const singleDay = (daysFromToday: number, label?: string): HistoryPeriod => {
+    const from = dayStart(daysFromToday);
+    return { from, to: dayStart(daysFromToday + 1) - 1, label: label || describeDay(from, timezone) };
+  };
+
+  const daysAgo = lower.match(/\b(\d{1,3}) days? ago\b/);
+  if (daysAgo) {
+    const days = parseInt(daysAgo[1], 10);
+    return days > 0 && days <= MAX_DAYS ? singleDay(-days) : null;
+  }
+
+  const pastDays = lower.match(/\b(?:past|last) (\d{1,3}) days\b/);
+  if (pastDays) {
+    const days = parseInt(pastDays[1], 10);
+    return days > 0 && days <= MAX_DAYS ? { from: now - days * DAY_MS, to: now, label: `the last ${days} days` } : null;
+  }
+
+  if (/\b(today|this (morning|afternoon|evening))\b/.test(lower) || /\btonight\b/.test(lower)) {
+    return { from: dayStart(0), to: now, label: 'today' };
+  }
+
+  if (/\b(yesterday|last night)\b/.test(lower)) {
+    return singleDay(-1, 'yesterday');
+  }
+
+  // Weeks start on Monday
+  const sinceMonday = (today.weekday + 6) % 7;
+  if (/\bthis week\b/.test(lower)) {
+    return { from: dayStart(-sinceMonday), to: now, label: 'this week' };
+  }
+  if (/\blast week\b/.test(lower)) {
+    return { from: dayStart(-sinceMonday - 7), to: dayStart(-sinceMonday) - 1, label: 'last week' };
+  }
+
+  if (/\bthis month\b/.test(lower)) {
+    return { from: startOfDay(today.year, today.month, 1, timezone), to: now, label: 'this month' };
+  }
+  if (/\blast month\b/.test(lower)) {
+    return {
+      from: startOfDay(today.year, today.month - 1, 1, timezone),
+      to: startOfDay(today.year, today.month, 1, timezone) - 1,
+      label: 'last month'
+    };
+  }
+
+  // "last Tuesday", "on friday" - the most recent one before today
+  const weekday = lower.match(/\b(sunday|monday|tuesday|wednesday|thursday|friday|saturday)s?\b/);
+  if (weekday) {
+    const target = WEEKDAYS.indexOf(weekday[1]);
+    const back = ((today.weekday - target + 7) % 7) || 7;
+    return singleDay(-back);
+  }
+
+  return null;
+}
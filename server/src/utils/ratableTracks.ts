@@ -0,0 +1,92 @@
+import { AIDiscoveredTrack, DiscoveryProvenance } from '../types';
+
+// Matches the number of alternatives the interpreter resolves on Spotify
+const MAX_RATABLE_ALTERNATIVES = 5;
+
+function artistNames(track: any): string {
+  if (typeof track.artists === 'string') {
+    return track.artists;
+  }
+  return (track.artists || []).map((a: any) => a.name).join(', ') || track.artist || 'Unknown Artist';
+}
+
+/**
+ * Where the track that actually played came from, or null when the user named
+ * it themselves (nothing for the taste model to learn from)
+ */
+export function getPlayedProvenance(interpretation: any, result: any): DiscoveryProvenance | null {
+  const retryLevel = result.retryLevel ?? 0;
+
+  // The model swapped in a real song for one Spotify doesn't have
+  if (result.replacedSuggestion) {
+    return {
+      source: 'fallback',
+      retryLevel,
+      requested: `${result.replacedSuggestion.track} by ${result.replacedSuggestion.artist}`
+    };
+  }
+
+  // Search settled for the closest match, or listening rules swapped the match out
+  if (result.isFallback) {
+    const provenance: DiscoveryProvenance = { source: 'fallback', retryLevel };
+    if (interpretation.track) {
+      provenance.requested = interpretation.artist ? `${interpretation.track} by ${interpretation.artist}` : interpretation.track;
+    }
+    return provenance;
+  }
+
+  return interpretation.isAIDiscovery ? { source: 'primary' } : null;
+}
+
+/**
+ * Every track a single play or queue put in front of the user that they can
+ * rate: the track that played (an AI pick, or a fallback that stood in for the
+ * requested song) and the alternatives the model offered next to it. Other
+ * search candidates in result.alternatives aren't anyone's suggestion.
+ */
+export function collectRatableTracks(interpretation: any, result: any, now: number = Date.now()): AIDiscoveredTrack[] {
+  if (!result?.success) {
+    return [];
+  }
+
+  const tracks: AIDiscoveredTrack[] = [];
+  const played = result.track || result.data?.track;
+  const playedLabel = played?.name ? `${played.name} by ${artistNames(played)}` : null;
+  const provenance = getPlayedProvenance(interpretation, result);
+
+  // Older AI picks without a Spotify track were stored by name - recordFeedback still matches those
+  if (provenance && (played?.uri || interpretation.track)) {
+    tracks.push({
+      trackUri: played?.uri || `spotify:track:${interpretation.track}`,
+      trackName: played?.name || interpretation.track,
+      artist: played ? artistNames(played) : interpretation.artist || 'Unknown Artist',
+      discoveredAt: now,
+      reasoning: provenance.source === 'fallback'
+        ? `Stood in for ${provenance.requested || 'the requested song'}`
+        : interpretation.aiReasoning || '',
+      previewUrl: played?.preview_url || undefined,
+      provenance
+    });
+  }
+
+  const alternatives = result.alternativesFromModel && Array.isArray(result.alternatives) ? result.alternatives : [];
+  for (const alt of alternatives.slice(0, MAX_RATABLE_ALTERNATIVES)) {
+    if (!alt || typeof alt !== 'object' || !alt.uri?.startsWith('spotify:track:') || alt.uri === played?.uri) {
+      continue;
+    }
+    const alternative: DiscoveryProvenance = { source: 'alternative' };
+    if (playedLabel) {
+      alternative.alternativeTo = playedLabel;
+    }
+    tracks.push({
+      trackUri: alt.uri,
+      trackName: alt.name,
+      artist: artistNames(alt),
+      discoveredAt: now,
+      reasoning: alt.aiReasoning || `Suggested as an alternative${playedLabel ? ` to ${playedLabel}` : ''}`,
+      provenance: alternative
+    });
+  }
+
+  return tracks;
+}
@@ -0,0 +1,46 @@
+import { createRedisClient } from '../config/redis';
+import { LLMLoggingService } from '../services/llm-logging.service';
+import { FixtureProvider } from '../llm/providers/FixtureProvider';
+
+/**
+ * Seed LLM fixtures from logged interactions.
+ *
+ * Usage: npx tsx src/utils/seed-llm-fixtures.ts [days=7] [limit=500]
+ * Writes to LLM_FIXTURE_DIR (default: ./fixtures/llm).
+ */
+async function seedLLMFixtures(days: number = 7, limit: number = 500) {
+  const redisClient = await createRedisClient();
+
+  try {
+    await redisClient.connect();
+    const loggingService = new LLMLoggingService(redisClient);
+    const { logs } = await loggingService.getLogs({
+      limit,
+      startDate: new Date(Date.now() - days * 24 * 60 * 60 * 1000),
+      endDate: new Date()
+    });
+    console.log(`Found ${logs.length} logged interactions from the last ${days} days`);
+
+    const provider = new FixtureProvider({
+      directory: process.env.LLM_FIXTURE_DIR || 'fixtures/llm',
+      mode: 'record'
+    });
+    const written = provider.seedFromLogEntries(logs);
+    console.log(`Wrote ${written} fixtures to ${provider.directory}`);
+  } catch (error) {
+    console.error('Error seeding LLM fixtures:', error);
+    process.exitCode = 1;
+  } finally {
+    if (redisClient.isOpen) {
+      await redisClient.quit();
+    }
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  const [days, limit] = process.argv.slice(2).map(arg => parseInt(arg, 10));
+  seedLLMFixtures(days || 7, limit || 500);
+}
+
+export { seedLLMFixtures };
@@ -1,8 +1,8 @@
 console.log('Testing startup...');
 
 try {
-  console.log('1. Testing openai-flattened schema import...');
-  const flattened = require('./src/llm/schemas/openai-flattened');
+  console.log('1. Testing flattened schema import...');
+  const { FlatMusicCommandSchema } = require('./src/llm/schemas/index');
   console.log('   - Flattened schema OK');
   
   console.log('2. Testing openai-schemas import...');